@@ -19,13 +19,74 @@ import {
   Alert,
   ToastAndroid,
   NativeSyntheticEvent,
+  NativeScrollEvent,
   TextInputSubmitEditingEventData,
 } from "react-native";
 import { Feather } from "@expo/vector-icons";
-import { useRouter } from "expo-router";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import { supabase } from "../../supabaseClient";
 import { BlurView } from "expo-blur";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import { Annotation, BibleVerse, OfflinePackInfo } from "@/types/bible";
+import {
+  getInstalledPacks,
+  downloadPack,
+  deletePack,
+  getPackVerses,
+  formatPackSize,
+} from "@/utils/bible/offlinePacks";
+import { BOOK_CATEGORIES, getBookCategory } from "@/utils/bible/books";
+import {
+  getChapters,
+  getVersionBooks,
+  isBookInVersion,
+  mapPassage,
+  mapVerse,
+} from "@/utils/bible/canon";
+import { alignParallelVerses, MAX_PARALLEL_VERSIONS } from "@/utils/bible/parallel";
+import { Passage, formatPassage, parseReference } from "@/utils/bible/references";
+import { useReadingPlans } from "@/hooks/useReadingPlans";
+import { findPlanDayForChapter, getTodaysReading } from "@/utils/bible/readingPlans";
+import { logChapterRead } from "@/utils/bible/readingLog";
+import ReadingPlansView from "@/components/bible/ReadingPlansView";
+import VerseCardModal from "@/components/bible/VerseCardModal";
+import CrossReferenceSheet from "@/components/bible/CrossReferenceSheet";
+import TodaysReadingsCard from "@/components/bible/TodaysReadingsCard";
+import { getReadingPassage } from "@/utils/liturgy/lectionary";
+import { useDenomination } from "@/hooks/useDenomination";
+import {
+  CROSS_REFERENCE_VERSION,
+  CrossReference,
+  getVerseCrossReferences,
+  loadChapterCrossReferences,
+} from "@/utils/bible/crossReferences";
+import { useAnnotations } from "@/hooks/useAnnotations";
+import { useReadAloud } from "@/hooks/useReadAloud";
+import { SLEEP_TIMER_OPTIONS, SPEECH_RATES, cycleOption } from "@/utils/bible/readAloud";
+import {
+  AnnotationFilters,
+  AnnotationGrouping,
+  DEFAULT_ANNOTATION_FILTERS,
+  HIGHLIGHT_COLORS,
+  annotationCovers,
+  filterAnnotations,
+  formatAnnotationReference,
+  getAllTags,
+  groupAnnotations,
+  normalizeTag,
+} from "@/utils/bible/annotations";
+import {
+  DEFAULT_SEARCH_FILTERS,
+  SearchCursor,
+  SearchFilters,
+  SearchHit,
+  SearchMode,
+  SearchPage,
+  searchBibleLocal,
+  searchBibleRemote,
+  splitHighlights,
+} from "@/utils/bible/search";
 
 // Enable layout animation for Android
 if (Platform.OS === "android" && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -35,14 +96,6 @@ if (Platform.OS === "android" && UIManager.setLayoutAnimationEnabledExperimental
 const { width, height } = Dimensions.get("window");
 
 // Define interfaces for data structures
-interface BibleVerse {
-  id: number;
-  book: string;
-  chapter: string;
-  verse: string;
-  text: string;
-}
-
 interface RecentlyReadItem {
   book: string;
   chapter: string;
@@ -50,18 +103,33 @@ interface RecentlyReadItem {
   lastRead: Date;
 }
 
-interface FavoriteItem {
-  id?: string;
+// Verses selected for highlighting, by verse number
+interface VerseSelection {
+  start: number;
+  end: number;
+}
+
+// What the annotation editor is working on: an existing annotation or a new range
+interface AnnotationDraft {
+  annotation: Annotation | null;
   book: string;
-  chapter: string;
-  verse: string;
-  dateAdded: Date;
-  note?: string;
-  color?: string;
+  chapter: number;
+  startVerse: number;
+  endVerse: number;
+  color: string | null;
+  tags: string[];
+  note: string;
 }
 
+const NOTEBOOK_GROUPINGS: { key: AnnotationGrouping; label: string }[] = [
+  { key: "tag", label: "Tag" },
+  { key: "book", label: "Book" },
+  { key: "color", label: "Color" },
+  { key: "date", label: "Date" },
+];
+
 // Bible view types
-type BibleView = "books" | "chapters" | "verses" | "favorites";
+type BibleView = "books" | "chapters" | "verses" | "favorites" | "plans";
 
 // Reading theme types
 type ReadingTheme = "paper" | "sepia" | "night";
@@ -81,83 +149,6 @@ const bibleVersions = [
   { label: "La Santa Biblia Reina-Valera", table: "SpaRV_bible" },
 ];
 
-// Biblical books in order with testament grouping
-const bibleBooks = {
-  oldTestament: [
-    "Genesis",
-    "Exodus",
-    "Leviticus",
-    "Numbers",
-    "Deuteronomy",
-    "Joshua",
-    "Judges",
-    "Ruth",
-    "I Samuel",
-    "II Samuel",
-    "I Kings",
-    "II Kings",
-    "I Chronicles",
-    "II Chronicles",
-    "Ezra",
-    "Nehemiah",
-    "Esther",
-    "Job",
-    "Psalms",
-    "Proverbs",
-    "Ecclesiastes",
-    "Song of Solomon",
-    "Isaiah",
-    "Jeremiah",
-    "Lamentations",
-    "Ezekiel",
-    "Daniel",
-    "Hosea",
-    "Joel",
-    "Amos",
-    "Obadiah",
-    "Jonah",
-    "Micah",
-    "Nahum",
-    "Habakkuk",
-    "Zephaniah",
-    "Haggai",
-    "Zechariah",
-    "Malachi",
-  ],
-  newTestament: [
-    "Matthew",
-    "Mark",
-    "Luke",
-    "John",
-    "Acts",
-    "Romans",
-    "I Corinthians",
-    "II Corinthians",
-    "Galatians",
-    "Ephesians",
-    "Philippians",
-    "Colossians",
-    "I Thessalonians",
-    "II Thessalonians",
-    "I Timothy",
-    "II Timothy",
-    "Titus",
-    "Philemon",
-    "Hebrews",
-    "James",
-    "I Peter",
-    "II Peter",
-    "I John",
-    "II John",
-    "III John",
-    "Jude",
-    "Revelation of John",
-  ],
-};
-
-// All books combined for search and display
-const allBooks = [...bibleBooks.oldTestament, ...bibleBooks.newTestament];
-
 // Background patterns for each theme (SVG patterns)
 const patterns = {
   paper:
@@ -185,98 +176,6 @@ const categoryIcons = {
   letters: "mail",
 };
 
-// Get book category
-const getBookCategory = (book: string): string => {
-  const lawBooks = ["Genesis", "Exodus", "Leviticus", "Numbers", "Deuteronomy"];
-  const historyBooks = [
-    "Joshua",
-    "Judges",
-    "Ruth",
-    "I Samuel",
-    "II Samuel",
-    "I Kings",
-    "II Kings",
-    "I Chronicles",
-    "II Chronicles",
-    "Ezra",
-    "Nehemiah",
-    "Esther",
-    // Historical deuterocanonical books
-    "Tobit",
-    "Judith",
-    "1 Maccabees",
-    "2 Maccabees",
-    "Additions to Esther",
-  ];
-  const wisdomBooks = [
-    "Job",
-    "Psalms",
-    "Proverbs",
-    "Ecclesiastes",
-    "Song of Solomon",
-    // Wisdom deuterocanonical books
-    "Wisdom",
-    "Sirach",
-  ];
-  const prophetBooks = [
-    "Isaiah",
-    "Jeremiah",
-    "Lamentations",
-    "Ezekiel",
-    "Daniel",
-    "Hosea",
-    "Joel",
-    "Amos",
-    "Obadiah",
-    "Jonah",
-    "Micah",
-    "Nahum",
-    "Habakkuk",
-    "Zephaniah",
-    "Haggai",
-    "Zechariah",
-    "Malachi",
-    // Prophetic deuterocanonical books
-    "Baruch",
-  ];
-  const gospelsAndActs = ["Matthew", "Mark", "Luke", "John", "Acts"];
-
-  if (lawBooks.includes(book)) return "law";
-  if (historyBooks.includes(book)) return "history";
-  if (wisdomBooks.includes(book)) return "wisdom";
-  if (prophetBooks.includes(book)) return "prophets";
-  if (gospelsAndActs.includes(book)) return "gospels";
-  return "letters";
-};
-// This function checks if a Bible version includes deuterocanonical books
-const includesDeuterocanonical = (version: string): boolean => {
-  // CPDV is Catholic Public Domain Version which should include deuterocanonical books
-  return version === "CPDV_bible";
-};
-
-// Define deuterocanonical books - these are additional books in Catholic Bibles
-const deuterocanonicalBooks = [
-  "Tobit",
-  "Judith",
-  "Wisdom",
-  "Sirach",
-  "Baruch",
-  "I Maccabees",
-  "II Maccabees",
-];
-
-// Define a set of CPDV‑exclusive books (include your desired names)
-const CPDVExclusiveBooks = new Set([
-  "Tobit",
-  "Judith",
-  "1 Maccabees",
-  "2 Maccabees",
-  "Additions to Esther",
-  "Wisdom",
-  "Sirach",
-  "Baruch",
-]);
-
 // Get color for book category
 const getBookColor = (book: string, theme: ReadingTheme): string => {
   const category = getBookCategory(book) as keyof typeof colors.paper;
@@ -332,15 +231,28 @@ export default function BibleScreen() {
   // Book & chapter selection
   const [selectedBook, setSelectedBook] = useState<string | null>(null);
   const [selectedChapter, setSelectedChapter] = useState<string | null>(null);
-  const [chapters, setChapters] = useState<string[]>([]);
+  // Chapters of the open book in the selected version, straight from the canon metadata
+  const chapters = useMemo(
+    () => (selectedBook ? getChapters(selectedVersion, selectedBook) : []),
+    [selectedBook, selectedVersion],
+  );
+
   const [verses, setVerses] = useState<BibleVerse[]>([]);
 
   // Loading / Searching
   const [loading, setLoading] = useState<boolean>(false);
   const [view, setView] = useState<BibleView>("books");
   const [searchText, setSearchText] = useState<string>("");
-  const [searchResults, setSearchResults] = useState<BibleVerse[]>([]);
+  const [searchResults, setSearchResults] = useState<SearchHit[]>([]);
   const [searching, setSearching] = useState<boolean>(false);
+  // The text search currently shown, null while browsing books
+  const [activeSearch, setActiveSearch] = useState<string | null>(null);
+  const activeSearchRef = useRef<string | null>(null);
+  activeSearchRef.current = activeSearch;
+  const [searchMode, setSearchMode] = useState<SearchMode>("all");
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const [searchCursor, setSearchCursor] = useState<SearchCursor | null>(null);
+  const [loadingMoreResults, setLoadingMoreResults] = useState<boolean>(false);
 
   // Theme & font
   const [readingTheme, setReadingTheme] = useState<ReadingTheme>("paper");
@@ -352,39 +264,96 @@ export default function BibleScreen() {
 
   // Recent & favorites
   const [recentlyRead, setRecentlyRead] = useState<RecentlyReadItem[]>([]);
-  const [favorites, setFavorites] = useState<FavoriteItem[]>([]);
-
-  // Favorite details modal
-  const [showFavoriteModal, setShowFavoriteModal] = useState<boolean>(false);
-  const [selectedFavorite, setSelectedFavorite] = useState<FavoriteItem | null>(null);
-  const [favoriteNote, setFavoriteNote] = useState<string>("");
 
-  // Loading state and mode
-  const [favoriteLoading, setFavoriteLoading] = useState<boolean>(true);
-  const [offlineMode, setOfflineMode] = useState<boolean>(false);
+  // Highlights, tags and notes (saved on the device and synced when online)
+  const {
+    annotations,
+    loading: favoriteLoading,
+    offline: offlineMode,
+    addAnnotation,
+    updateAnnotation,
+    removeAnnotation,
+  } = useAnnotations(selectedVersion);
+  const [verseSelection, setVerseSelection] = useState<VerseSelection | null>(null);
+  const [annotationDraft, setAnnotationDraft] = useState<AnnotationDraft | null>(null);
+  const [tagInput, setTagInput] = useState<string>("");
+  // Passage shown in the shareable image card
+  const [cardPassage, setCardPassage] = useState<{
+    book: string;
+    text: string;
+    reference: string;
+  } | null>(null);
+
+  // Cross-references for the open chapter, and the verse whose sheet is open
+  const [chapterCrossReferences, setChapterCrossReferences] = useState<CrossReference[]>([]);
+  const [crossReferenceVerse, setCrossReferenceVerse] = useState<string | null>(null);
+
+  // Notebook grouping and filters
+  const [favoriteGrouping, setFavoriteGrouping] = useState<AnnotationGrouping>("book");
+  const [notebookFilters, setNotebookFilters] = useState<AnnotationFilters>(
+    DEFAULT_ANNOTATION_FILTERS,
+  );
 
-  // Grouping favorites
-  const [favoriteGrouping, setFavoriteGrouping] = useState<"book" | "date" | "none">("book");
+  // Parallel translation view
+  const [parallelMode, setParallelMode] = useState<boolean>(false);
+  const [parallelVersions, setParallelVersions] = useState<string[]>([]);
+  const [parallelVerses, setParallelVerses] = useState<Record<string, BibleVerse[]>>({});
+  const [parallelLoading, setParallelLoading] = useState<boolean>(false);
+  const [showParallelSelector, setShowParallelSelector] = useState<boolean>(false);
+
+  // Scroll bookkeeping so the reader stays on the same verse when the layout changes
+  const verseOffsets = useRef<Record<string, number>>({});
+  const versesSectionY = useRef<number>(0);
+  const versesContentY = useRef<number>(0);
+  const currentVerseRef = useRef<string | null>(null);
+  const pendingScrollVerse = useRef<string | null>(null);
+
+  // Offline Bible packs
+  const [offlinePacks, setOfflinePacks] = useState<Record<string, OfflinePackInfo>>({});
+  const [showOfflineManager, setShowOfflineManager] = useState<boolean>(false);
+  const [downloadingPack, setDownloadingPack] = useState<{
+    table: string;
+    progress: number;
+  } | null>(null);
+
+  // Reading plans (a reminder notification opens the Bible with ?view=plans)
+  const readingPlans = useReadingPlans();
+  const { enrollments: planEnrollments, getPlan } = readingPlans;
+  // Other screens open a passage with ?reference=, numbered as in the KJV
+  const { view: initialView, reference: initialReference } = useLocalSearchParams<{
+    view?: string;
+    reference?: string;
+  }>();
+  const [settingsLoaded, setSettingsLoaded] = useState<boolean>(false);
+  const openedReferenceRef = useRef<string | null>(null);
+
+  // Catholic readers get the day's Mass readings above their plans
+  const denomination = useDenomination();
+
+  // Listen mode: reads the chapter aloud and carries on into the next one
+  const readAloud = useReadAloud({
+    verses,
+    versionTable: selectedVersion,
+    onChapterEnd: () => readNextChapter(),
+  });
 
   // ---------------------
-  // PERSISTENCE - LOAD AND SAVE FAVORITES
+  // PERSISTENCE - LOAD AND SAVE SETTINGS
   // ---------------------
 
-  // Initialize by loading favorites and settings
+  // Initialize by loading settings (annotations load in useAnnotations)
   useEffect(() => {
     const initializeApp = async () => {
-      await Promise.all([loadFavorites(), loadSettings(), loadRecentlyRead()]);
+      await Promise.all([loadSettings(), loadRecentlyRead(), loadOfflinePacks()]);
+      setSettingsLoaded(true);
     };
 
     initializeApp();
   }, []);
 
-  // Save favorites to AsyncStorage as a backup
   useEffect(() => {
-    if (favorites.length > 0 && !favoriteLoading) {
-      saveFavoritesToStorage();
-    }
-  }, [favorites]);
+    if (initialView === "plans") setView("plans");
+  }, [initialView]);
 
   // Load settings (theme, font size, etc.)
   const loadSettings = async () => {
@@ -395,7 +364,11 @@ export default function BibleScreen() {
         if (settings.readingTheme) setReadingTheme(settings.readingTheme);
         if (settings.fontSize) setFontSize(settings.fontSize);
         if (settings.selectedVersion) setSelectedVersion(settings.selectedVersion);
-        if (settings.favoriteGrouping) setFavoriteGrouping(settings.favoriteGrouping);
+        // Older versions also grouped by "none"
+        if (NOTEBOOK_GROUPINGS.some((g) => g.key === settings.favoriteGrouping)) {
+          setFavoriteGrouping(settings.favoriteGrouping);
+        }
+        if (settings.parallelVersions) setParallelVersions(settings.parallelVersions);
       }
     } catch (error) {
       console.error("Error loading settings:", error);
@@ -438,6 +411,7 @@ export default function BibleScreen() {
         fontSize,
         selectedVersion,
         favoriteGrouping,
+        parallelVersions,
       };
       await AsyncStorage.setItem("bibleAppSettings", JSON.stringify(settings));
     } catch (error) {
@@ -448,327 +422,210 @@ export default function BibleScreen() {
   // Effect to save settings when they change
   useEffect(() => {
     saveSettings();
-  }, [readingTheme, fontSize, selectedVersion, favoriteGrouping]);
-  // Add this useEffect hook after the other useEffect hooks in your component
-  // This will ensure the content updates when version changes
-  useEffect(() => {
-    // When version changes, update content based on current view
-    if (view === "verses" && selectedBook && selectedChapter) {
-      // If in verses view, reload verses with new version
-      fetchVerses(selectedBook, selectedChapter);
-    } else if (view === "chapters" && selectedBook) {
-      // If in chapters view, reload chapters with new version
-      fetchChapters(selectedBook);
-    }
-    // For books view, the getFilteredBooks function will handle this automatically
-    // since it depends on selectedVersion
-  }, [selectedVersion]);
-
-  // Replace the current handleVersionSelect function with this improved version
-  // Removed duplicate handleVersionSelect function
-  // Load favorites from Supabase + Backup from AsyncStorage
-  const loadFavorites = async () => {
-    setFavoriteLoading(true);
-    try {
-      // First try to load from Supabase (online mode)
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.auth.getUser();
-
-      if (userError || !user) {
-        console.log("User not logged in or error, using offline mode");
-        setOfflineMode(true);
-        loadFavoritesFromStorage();
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from("favorites")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("date_added", { ascending: false });
-
-      if (error) throw error;
-
-      // Process data from Supabase to match our local format
-      const formattedFavorites: FavoriteItem[] = data.map((item) => ({
-        id: item.id,
-        book: item.book,
-        chapter: item.chapter,
-        verse: item.verse,
-        dateAdded: new Date(item.date_added),
-        note: item.note || "",
-        color: item.color || undefined,
-      }));
-
-      setFavorites(formattedFavorites);
-
-      // Also save to AsyncStorage as backup
-      await AsyncStorage.setItem("bibleAppFavorites", JSON.stringify(formattedFavorites));
-    } catch (error) {
-      console.error("Error loading favorites from Supabase:", error);
-      loadFavoritesFromStorage();
-      setOfflineMode(true);
-    } finally {
-      setFavoriteLoading(false);
-    }
-  };
-
-  // Load favorites from AsyncStorage (offline fallback)
-  const loadFavoritesFromStorage = async () => {
-    try {
-      const savedFavorites = await AsyncStorage.getItem("bibleAppFavorites");
-      if (savedFavorites) {
-        const parsedFavorites = JSON.parse(savedFavorites);
-        // Convert string dates back to Date objects
-        const formattedFavorites = parsedFavorites.map((fav: any) => ({
-          ...fav,
-          dateAdded: new Date(fav.dateAdded),
-        }));
-        setFavorites(formattedFavorites);
-      }
-    } catch (error) {
-      console.error("Error loading favorites from storage:", error);
-      setFavorites([]);
-    }
-  };
-
-  // Save favorites to AsyncStorage (for offline mode and backup)
-  const saveFavoritesToStorage = async () => {
-    try {
-      await AsyncStorage.setItem("bibleAppFavorites", JSON.stringify(favorites));
-    } catch (error) {
-      console.error("Error saving favorites to storage:", error);
-    }
-  };
+  }, [readingTheme, fontSize, selectedVersion, favoriteGrouping, parallelVersions]);
 
   // ---------------------
-  // FAVORITES HANDLERS WITH SUPABASE AND OFFLINE SUPPORT
+  // ANNOTATION HANDLERS (HIGHLIGHTS, TAGS AND NOTES)
   // ---------------------
-  const addFavorite = async (
-    book: string,
-    chapter: string,
-    verse: string,
-    note: string = "",
-  ): Promise<void> => {
-    try {
-      // Create a new local favorite object
-      const newFavorite: FavoriteItem = {
-        book,
-        chapter,
-        verse,
-        dateAdded: new Date(),
-        note,
-      };
-
-      // Add to state immediately for UI responsiveness
-      setFavorites((prev) => [newFavorite, ...prev]);
-
-      // Show animation
-      animateFavoriteAction();
-
-      // If offline, just save to AsyncStorage
-      if (offlineMode) {
-        showFeedback("Bookmark added (offline mode)");
-        return;
-      }
-
-      // Otherwise, save to Supabase
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.auth.getUser();
-      if (userError || !user) {
-        setOfflineMode(true);
-        showFeedback("Bookmark added (offline mode)");
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from("favorites")
-        .insert([
-          {
-            user_id: user.id,
-            bible_version: selectedVersion,
-            book,
-            chapter,
-            verse,
-            note,
-            date_added: new Date().toISOString(),
-          },
-        ])
-        .select();
 
-      if (error) throw error;
+  // Feedback for an annotation change, noting when it will sync later
+  const showAnnotationFeedback = (message: string) =>
+    showFeedback(offlineMode ? `${message} (will sync when online)` : message);
+
+  // The single-verse annotation for a verse, or the chapter bookmark when verse is "0"
+  const findExactAnnotation = (book: string, chapter: string, verse: string) =>
+    annotations.find(
+      (a) =>
+        a.book === book &&
+        a.chapter === parseInt(chapter) &&
+        a.start_verse === parseInt(verse) &&
+        a.end_verse === parseInt(verse),
+    );
 
-      if (data && data.length > 0) {
-        // Update the local state with the returned ID
-        setFavorites((prev) => {
-          const updated = [...prev];
-          const index = updated.findIndex(
-            (f) => f.book === book && f.chapter === chapter && f.verse === verse,
-          );
-          if (index !== -1) {
-            updated[index] = {
-              ...updated[index],
-              id: data[0].id,
-            };
-          }
-          return updated;
-        });
-      }
+  const toggleFavorite = (book: string, chapter: string, verse: string): void => {
+    const existing = findExactAnnotation(book, chapter, verse);
+    animateFavoriteAction();
 
-      showFeedback("Bookmark added");
-    } catch (error) {
-      console.error("Error adding favorite:", error);
-      showFeedback("Failed to add bookmark");
+    if (existing) {
+      removeAnnotation(existing.id);
+      showAnnotationFeedback("Bookmark removed");
+    } else {
+      addAnnotation({
+        book,
+        chapter: parseInt(chapter),
+        startVerse: parseInt(verse),
+        endVerse: parseInt(verse),
+      });
+      showAnnotationFeedback("Bookmark added");
     }
   };
 
-  const removeFavorite = async (book: string, chapter: string, verse: string): Promise<void> => {
-    try {
-      // Find the favorite in state
-      const favoriteToRemove = favorites.find(
-        (f) => f.book === book && f.chapter === chapter && f.verse === verse,
-      );
-
-      if (!favoriteToRemove) return;
-
-      // Remove from state immediately for UI responsiveness
-      setFavorites((prev) =>
-        prev.filter(
-          (fav) => !(fav.book === book && fav.chapter === chapter && fav.verse === verse),
-        ),
-      );
-
-      // Show animation
-      animateFavoriteAction();
-
-      // If offline, just save to AsyncStorage
-      if (offlineMode) {
-        showFeedback("Bookmark removed (offline mode)");
-        return;
-      }
-
-      // If online and we have an ID, remove from Supabase
-      if (favoriteToRemove.id) {
-        const { error } = await supabase.from("favorites").delete().eq("id", favoriteToRemove.id);
-
-        if (error) throw error;
-      } else {
-        // If no ID (maybe added in offline mode), try to delete by other fields
-        const {
-          data: { user },
-          error: userError,
-        } = await supabase.auth.getUser();
-        if (userError || !user) {
-          setOfflineMode(true);
-          showFeedback("Bookmark removed (offline mode)");
-          return;
-        }
-
-        const { error } = await supabase
-          .from("favorites")
-          .delete()
-          .eq("user_id", user.id)
-          .eq("bible_version", selectedVersion)
-          .eq("book", book)
-          .eq("chapter", chapter)
-          .eq("verse", verse);
-
-        if (error) throw error;
-      }
+  // Function to bookmark entire chapter
+  const bookmarkChapter = (book: string, chapter: string): void => {
+    const existing = findExactAnnotation(book, chapter, "0");
 
-      showFeedback("Bookmark removed");
-    } catch (error) {
-      console.error("Error removing favorite:", error);
-      showFeedback("Failed to remove bookmark");
+    if (existing) {
+      removeAnnotation(existing.id);
+      showAnnotationFeedback("Bookmark removed");
+    } else {
+      addAnnotation({ book, chapter: parseInt(chapter), startVerse: 0, endVerse: 0 });
+      showAnnotationFeedback("Bookmark added");
+      // Animate bookmark action
+      animateBookmarkAction();
     }
   };
 
-  // Update favorite note
-  const updateFavoriteNote = async (
-    book: string,
-    chapter: string,
-    verse: string,
-    note: string,
-  ): Promise<void> => {
-    try {
-      // Update state first
-      setFavorites((prev) => {
-        return prev.map((fav) => {
-          if (fav.book === book && fav.chapter === chapter && fav.verse === verse) {
-            return { ...fav, note };
-          }
-          return fav;
-        });
-      });
-
-      // If offline, just save to AsyncStorage
-      if (offlineMode) {
-        showFeedback("Note updated (offline mode)");
-        return;
-      }
-
-      // Find the favorite's ID
-      const favorite = favorites.find(
-        (f) => f.book === book && f.chapter === chapter && f.verse === verse,
-      );
-
-      if (!favorite?.id) {
-        showFeedback("Updated locally only");
-        return;
-      }
-
-      // Update in Supabase
-      const { error } = await supabase.from("favorites").update({ note }).eq("id", favorite.id);
+  // Tap a verse number to select it; tapping another extends the selection to it
+  const toggleVerseSelection = (verse: string) => {
+    const number = parseInt(verse);
+    setVerseSelection((prev) => {
+      if (!prev) return { start: number, end: number };
+      if (prev.start === number && prev.end === number) return null;
+      return { start: Math.min(prev.start, number), end: Math.max(prev.end, number) };
+    });
+  };
 
-      if (error) throw error;
+  // Highlight the selected verses, recoloring an existing highlight of the same range
+  const highlightSelection = (color: string) => {
+    if (!verseSelection || !selectedBook || !selectedChapter) return;
+    const existing = annotations.find(
+      (a) =>
+        a.book === selectedBook &&
+        a.chapter === parseInt(selectedChapter) &&
+        a.start_verse === verseSelection.start &&
+        a.end_verse === verseSelection.end,
+    );
 
-      showFeedback("Note updated");
-    } catch (error) {
-      console.error("Error updating favorite note:", error);
-      showFeedback("Failed to update note");
+    if (existing) {
+      updateAnnotation(existing.id, { color });
+    } else {
+      addAnnotation({
+        book: selectedBook,
+        chapter: parseInt(selectedChapter),
+        startVerse: verseSelection.start,
+        endVerse: verseSelection.end,
+        color,
+      });
     }
+    setVerseSelection(null);
   };
 
-  const toggleFavorite = (book: string, chapter: string, verse: string): void => {
-    const exists = favorites.some(
-      (fav) => fav.book === book && fav.chapter === chapter && fav.verse === verse,
+  // Open the editor for an existing annotation
+  const openAnnotationEditor = (annotation: Annotation) => {
+    setTagInput("");
+    setAnnotationDraft({
+      annotation,
+      book: annotation.book,
+      chapter: annotation.chapter,
+      startVerse: annotation.start_verse,
+      endVerse: annotation.end_verse,
+      color: annotation.color,
+      tags: annotation.tags,
+      note: annotation.note,
+    });
+  };
+
+  // Open the editor for the selected verses (or the annotation already on them)
+  const annotateSelection = () => {
+    if (!verseSelection || !selectedBook || !selectedChapter) return;
+    const chapter = parseInt(selectedChapter);
+    const existing = annotations.find(
+      (a) =>
+        a.book === selectedBook &&
+        a.chapter === chapter &&
+        a.start_verse === verseSelection.start &&
+        a.end_verse === verseSelection.end,
     );
 
-    if (exists) {
-      removeFavorite(book, chapter, verse);
+    if (existing) {
+      openAnnotationEditor(existing);
     } else {
-      addFavorite(book, chapter, verse);
+      setTagInput("");
+      setAnnotationDraft({
+        annotation: null,
+        book: selectedBook,
+        chapter,
+        startVerse: verseSelection.start,
+        endVerse: verseSelection.end,
+        color: null,
+        tags: [],
+        note: "",
+      });
     }
+    setVerseSelection(null);
   };
 
-  // Function to bookmark entire chapter
-  const bookmarkChapter = (book: string, chapter: string): void => {
-    const chapterExists = favorites.some(
-      (fav) => fav.book === book && fav.chapter === chapter && fav.verse === "0",
-    );
+  // Open the image card for the selected verses
+  const createSelectionImage = () => {
+    if (!verseSelection || !selectedBook || !selectedChapter) return;
+    const text = verses
+      .filter((v) => {
+        const number = parseInt(v.verse);
+        return number >= verseSelection.start && number <= verseSelection.end;
+      })
+      .map((v) => v.text.trim())
+      .join(" ");
+
+    setCardPassage({
+      book: selectedBook,
+      text,
+      reference: formatAnnotationReference({
+        book: selectedBook,
+        chapter: parseInt(selectedChapter),
+        start_verse: verseSelection.start,
+        end_verse: verseSelection.end,
+      }),
+    });
+    setVerseSelection(null);
+  };
 
-    if (chapterExists) {
-      removeFavorite(book, chapter, "0");
+  const addDraftTag = () => {
+    const tag = normalizeTag(tagInput.replace(/^#/, ""));
+    setTagInput("");
+    if (!tag || !annotationDraft || annotationDraft.tags.includes(tag)) return;
+    setAnnotationDraft({ ...annotationDraft, tags: [...annotationDraft.tags, tag] });
+  };
+
+  const saveAnnotationDraft = () => {
+    if (!annotationDraft) return;
+    // Keep a tag that was typed but not yet added
+    const pendingTag = normalizeTag(tagInput.replace(/^#/, ""));
+    const tags =
+      pendingTag && !annotationDraft.tags.includes(pendingTag)
+        ? [...annotationDraft.tags, pendingTag]
+        : annotationDraft.tags;
+
+    if (annotationDraft.annotation) {
+      updateAnnotation(annotationDraft.annotation.id, {
+        color: annotationDraft.color,
+        tags,
+        note: annotationDraft.note,
+      });
+      showAnnotationFeedback("Note updated");
     } else {
-      addFavorite(book, chapter, "0", `${book} chapter ${chapter}`);
-      // Animate bookmark action
-      animateBookmarkAction();
+      addAnnotation({
+        book: annotationDraft.book,
+        chapter: annotationDraft.chapter,
+        startVerse: annotationDraft.startVerse,
+        endVerse: annotationDraft.endVerse,
+        color: annotationDraft.color,
+        tags,
+        note: annotationDraft.note,
+      });
+      showAnnotationFeedback("Note saved");
     }
+    setAnnotationDraft(null);
   };
 
   // Show feedback based on platform
-  const showFeedback = (message: string) => {
+  const showFeedback = useCallback((message: string) => {
     if (Platform.OS === "android") {
       ToastAndroid.show(message, ToastAndroid.SHORT);
     } else {
       // For iOS, we'll use our own toast-like UI or Alert
       Alert.alert("Bible App", message, [{ text: "OK" }], { cancelable: true });
     }
-  };
+  }, []);
 
   // Animations for favoriting actions
   const animateFavoriteAction = () => {
@@ -971,207 +828,465 @@ export default function BibleScreen() {
   // BIBLE VERSION
   // ---------------------
   const handleVersionSelect = (table: string) => {
-    // If a book is selected and it's one of the CPDV‑exclusive ones,
-    // prevent switching to a non‑CPDV bible version.
-    if (selectedBook && CPDVExclusiveBooks.has(selectedBook) && table !== "CPDV_bible") {
+    // Deuterocanonical books can't be followed into a version without them
+    const reading = view === "chapters" || view === "verses";
+    if (reading && selectedBook && !isBookInVersion(table, selectedBook)) {
       showFeedback(
-        "This book is only available in the CPDV Bible version. Please continue reading on CPDV.",
+        `${selectedBook} is not in the ${getVersionLabel(table)} Bible. Please continue reading on ${getVersionLabel(selectedVersion)}.`,
       );
       return;
     }
 
-    setSelectedVersion(table);
     setShowVersionSelector(false);
+    if (table === selectedVersion) return;
 
-    // If in verses view, reload verses with the new version.
+    // Stay on the same passage, renumbered for the new version (KJV Psalm 51 is CPDV Psalm 50)
     if (view === "verses" && selectedBook && selectedChapter) {
-      fetchVerses(selectedBook, selectedChapter);
+      const { chapter, verse } = mapVerse(
+        {
+          book: selectedBook,
+          chapter: parseInt(selectedChapter),
+          verse: parseInt(currentVerseRef.current ?? "1"),
+        },
+        selectedVersion,
+        table,
+      );
+      setSelectedChapter(String(chapter));
+      fetchVerses(selectedBook, String(chapter), table).then(() => {
+        pendingScrollVerse.current = String(verse);
+      });
     }
+    setSelectedVersion(table);
   };
 
   // ---------------------
   // FILTERING & SEARCH
   // ---------------------
   const getFilteredBooks = useCallback(() => {
-    let filteredBooks = allBooks;
-
-    // Add deuterocanonical books for CPDV version only
-    if (includesDeuterocanonical(selectedVersion)) {
-      if (testament === "old") {
-        filteredBooks = [...bibleBooks.oldTestament, ...deuterocanonicalBooks];
-      } else if (testament === "new") {
-        filteredBooks = bibleBooks.newTestament;
-      } else {
-        filteredBooks = [
-          ...bibleBooks.oldTestament,
-          ...deuterocanonicalBooks,
-          ...bibleBooks.newTestament,
-        ];
-      }
-    } else {
-      // Original code for non-CPDV versions
-      if (testament === "old") {
-        filteredBooks = bibleBooks.oldTestament;
-      } else if (testament === "new") {
-        filteredBooks = bibleBooks.newTestament;
-      }
-    }
+    // Deuterocanonical books are listed for the versions that include them
+    const filteredBooks = getVersionBooks(selectedVersion, testament);
 
     if (searchText) {
-      return filteredBooks.filter((book) => book.toLowerCase().includes(searchText.toLowerCase()));
+      // Also match abbreviations and other languages, e.g. "Jn" or "Juan" for John
+      const referencedBook = parseReference(searchText)[0]?.book;
+      return filteredBooks.filter(
+        (book) => book === referencedBook || book.toLowerCase().includes(searchText.toLowerCase()),
+      );
     }
     return filteredBooks;
   }, [testament, searchText, selectedVersion]);
 
   // ---------------------
-  // FETCHING CHAPTERS & VERSES
+  // OFFLINE PACKS
   // ---------------------
-  // Get available chapters for a book
-  const fetchChapters = async (book: string): Promise<void> => {
-    setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from(selectedVersion)
-        .select("chapter")
-        .eq("book", book);
-
-      if (error) throw error;
-
-      // Ensure data exists and filter out any undefined/null chapter values
-      const chaptersArray = data ? data.map((item: any) => item.chapter) : [];
-      const uniqueChapters = Array.from(new Set(chaptersArray.filter((ch) => ch != null)));
+  const loadOfflinePacks = async () => {
+    const packs = await getInstalledPacks();
+    setOfflinePacks(packs);
+  };
 
-      // Sort chapters numerically (assumes chapter values are numeric strings)
-      uniqueChapters.sort((a, b) => parseInt(a) - parseInt(b));
+  const handleDownloadPack = async (table: string) => {
+    if (downloadingPack) {
+      showFeedback("Please wait for the current download to finish.");
+      return;
+    }
 
-      setChapters(uniqueChapters);
+    setDownloadingPack({ table, progress: 0 });
+    try {
+      const info = await downloadPack(table, (progress) => setDownloadingPack({ table, progress }));
+      setOfflinePacks((prev) => ({ ...prev, [table]: info }));
+      showFeedback("Download complete. This version is now available offline.");
     } catch (error) {
-      console.error("Error fetching chapters:", error);
-      showFeedback("Failed to load chapters. Check your connection.");
-      setChapters([]);
+      console.error("Error downloading Bible pack:", error);
+      showFeedback("Download failed. Check your connection and try again.");
     } finally {
-      setLoading(false);
+      setDownloadingPack(null);
     }
   };
 
-  // Get verses for a specific book and chapter
-  const fetchVerses = async (book: string, chapter: string): Promise<void> => {
-    setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from(selectedVersion)
-        .select("*")
-        .eq("book", book)
-        .eq("chapter", chapter);
+  const handleDeletePack = (table: string) => {
+    const label = bibleVersions.find((v) => v.table === table)?.label ?? table;
+    Alert.alert("Remove Download", `Remove the offline copy of ${label} from this device?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deletePack(table);
+            setOfflinePacks((prev) => {
+              const updated = { ...prev };
+              delete updated[table];
+              return updated;
+            });
+          } catch (error) {
+            console.error("Error deleting Bible pack:", error);
+            showFeedback("Failed to remove download");
+          }
+        },
+      },
+    ]);
+  };
+
+  const totalOfflineSize = useMemo(
+    () => Object.values(offlinePacks).reduce((sum, pack) => sum + pack.sizeBytes, 0),
+    [offlinePacks],
+  );
+
+  // ---------------------
+  // FETCHING CHAPTERS & VERSES
+  // ---------------------
 
-      if (error) throw error;
+  // Load the sorted verses of a chapter for any version, local pack first
+  const loadChapterVerses = useCallback(
+    async (table: string, book: string, chapter: string): Promise<BibleVerse[]> => {
+      // Prefer the downloaded copy of this version when there is one
+      let versesArray = await getPackVerses(table, book, chapter);
 
-      // Ensure data is an array and sort verses numerically
-      const versesArray = data || [];
-      const sortedVerses = versesArray.sort((a, b) => {
+      if (!versesArray) {
+        const { data, error } = await supabase
+          .from(table)
+          .select("*")
+          .eq("book", book)
+          .eq("chapter", chapter);
+
+        if (error) throw error;
+
+        // Ensure data is an array before sorting
+        versesArray = (data || []) as BibleVerse[];
+      }
+
+      // Sort verses numerically
+      return [...versesArray].sort((a, b) => {
         const aNum = parseInt(a.verse) || 0;
         const bNum = parseInt(b.verse) || 0;
         return aNum - bNum;
       });
+    },
+    [],
+  );
 
-      setVerses(sortedVerses as BibleVerse[]);
+  // Get verses for a specific book and chapter
+  const fetchVerses = useCallback(
+    async (book: string, chapter: string, table: string = selectedVersion): Promise<void> => {
+      setLoading(true);
+      try {
+        const sortedVerses = await loadChapterVerses(table, book, chapter);
+
+        setVerses(sortedVerses);
+        // Counted on the statistics screen
+        logChapterRead(book, chapter);
+
+        // Scroll to top when loading new verses
+        verseOffsets.current = {};
+        currentVerseRef.current = null;
+        if (scrollViewRef.current) {
+          scrollViewRef.current.scrollTo({ y: 0, animated: false });
+        }
+      } catch (error) {
+        console.error("Error fetching verses:", error);
+        showFeedback("Failed to load verses. Check your connection.");
+        setVerses([]);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [selectedVersion, loadChapterVerses, showFeedback],
+  );
 
-      // Scroll to top when loading new verses
-      if (scrollViewRef.current) {
-        scrollViewRef.current.scrollTo({ y: 0, animated: false });
+  // Load the other versions shown in parallel mode. A version that lacks the
+  // chapter (e.g. a CPDV-only book) or fails to load simply ends up empty.
+  const fetchParallelVerses = useCallback(
+    async (book: string, chapter: string): Promise<void> => {
+      const tables = parallelVersions.filter((table) => table !== selectedVersion);
+      setParallelLoading(true);
+      try {
+        const results = await Promise.all(
+          tables.map(async (table) => {
+            try {
+              return [table, await loadChapterVerses(table, book, chapter)] as const;
+            } catch (error) {
+              console.error(`Error fetching parallel verses for ${table}:`, error);
+              return [table, [] as BibleVerse[]] as const;
+            }
+          }),
+        );
+        setParallelVerses(Object.fromEntries(results));
+      } finally {
+        setParallelLoading(false);
       }
-    } catch (error) {
-      console.error("Error fetching verses:", error);
-      showFeedback("Failed to load verses. Check your connection.");
-      setVerses([]);
-    } finally {
-      setLoading(false);
+    },
+    [parallelVersions, selectedVersion, loadChapterVerses],
+  );
+
+  // Keep the parallel columns in step with the chapter being read
+  useEffect(() => {
+    if (parallelMode && view === "verses" && selectedBook && selectedChapter) {
+      fetchParallelVerses(selectedBook, selectedChapter);
     }
-  };
+  }, [parallelMode, selectedBook, selectedChapter, view, fetchParallelVerses]);
+
+  // Fetch one page of text search results, using the downloaded copy when offline
+  const fetchSearchPage = useCallback(
+    async (query: string, cursor: SearchCursor | null): Promise<SearchPage | null> => {
+      const { isConnected } = await NetInfo.fetch();
+      if (isConnected === false && offlinePacks[selectedVersion]) {
+        return searchBibleLocal(selectedVersion, query, searchMode, searchFilters, cursor);
+      }
 
-  // Helper function to parse search queries like "Genesis" or "Genesis 1"
-  const parseBookQuery = (
-    query: string,
-  ): { book: string; chapter?: string; verse?: string } | null => {
-    query = query.trim();
-    // Iterate over allBooks (defined earlier in your code)
-    for (const book of allBooks) {
-      if (query.toLowerCase().startsWith(book.toLowerCase())) {
-        const remainder = query.substring(book.length).trim();
-        if (remainder === "") {
-          return { book };
-        }
-        // Look for chapter and possibly verse (separated by colon or whitespace)
-        const parts = remainder.split(/[:\s]+/);
-        if (parts.length >= 1 && /^\d+$/.test(parts[0])) {
-          const chapter = parts[0];
-          let verse = "";
-          if (parts.length >= 2 && /^\d+$/.test(parts[1])) {
-            verse = parts[1];
-          }
-          return { book, chapter, verse };
+      try {
+        return await searchBibleRemote(selectedVersion, query, searchMode, searchFilters, cursor);
+      } catch (error) {
+        console.error("Error searching Bible:", error);
+        // Fall back to the downloaded copy if the request itself failed
+        return searchBibleLocal(selectedVersion, query, searchMode, searchFilters, cursor);
+      }
+    },
+    [offlinePacks, selectedVersion, searchMode, searchFilters],
+  );
+
+  const runTextSearch = useCallback(
+    async (query: string): Promise<void> => {
+      setActiveSearch(query);
+      setSearching(true);
+      try {
+        const page = await fetchSearchPage(query, null);
+        if (!page) {
+          showFeedback("Failed to search. Check your connection.");
         }
-        return { book };
+        setSearchResults(page?.hits ?? []);
+        setSearchCursor(page?.nextCursor ?? null);
+      } finally {
+        setSearching(false);
+      }
+    },
+    [fetchSearchPage, showFeedback],
+  );
+
+  const loadMoreSearchResults = async (): Promise<void> => {
+    if (!activeSearch || !searchCursor || searching || loadingMoreResults) return;
+
+    setLoadingMoreResults(true);
+    try {
+      const page = await fetchSearchPage(activeSearch, searchCursor);
+      if (!page) {
+        showFeedback("Failed to load more results.");
+        return;
       }
+      setSearchResults((prev) => [...prev, ...page.hits]);
+      setSearchCursor(page.nextCursor);
+    } finally {
+      setLoadingMoreResults(false);
     }
-    return null;
   };
 
+  const clearSearch = () => {
+    setSearchText("");
+    setSearchResults([]);
+    setSearchCursor(null);
+    setActiveSearch(null);
+  };
+
+  // Jump directly to a passage, scrolling to its first verse if one was given
+  const openPassage = useCallback(
+    async (passage: Passage): Promise<void> => {
+      if (passage.startChapter === undefined) {
+        setSelectedBook(passage.book);
+        setView("chapters");
+        return;
+      }
+
+      const chapter = String(passage.startChapter);
+      setSelectedBook(passage.book);
+      setSelectedChapter(chapter);
+      await fetchVerses(passage.book, chapter);
+      pendingScrollVerse.current =
+        passage.startVerse !== undefined ? String(passage.startVerse) : null;
+      setView("verses");
+    },
+    [fetchVerses],
+  );
+
   const searchBible = async (
     e: NativeSyntheticEvent<TextInputSubmitEditingEventData>,
   ): Promise<void> => {
-    // First, check if the search query looks like a book/chapter search
-    const parsed = parseBookQuery(searchText);
-    if (parsed) {
-      if (parsed.chapter) {
-        // If a chapter is provided (e.g. "Genesis 1"), jump directly to that chapter
-        setSelectedBook(parsed.book);
-        setSelectedChapter(parsed.chapter);
-        fetchVerses(parsed.book, parsed.chapter);
-        setView("verses");
-        setSearchResults([]); // Clear any verse search results
-      } else {
-        // If only the book is provided (e.g. "Genesis"), let the books view display it
-        setSearchResults([]);
+    // First, check if the search query is a scripture reference ("Jn 3:16-18", "1 Cor 13")
+    const [passage] = parseReference(searchText);
+    if (passage) {
+      // Clear any verse search results
+      setSearchResults([]);
+      setSearchCursor(null);
+      setActiveSearch(null);
+
+      if (passage.startChapter !== undefined) {
+        await openPassage(passage);
       }
+      // If only the book is provided (e.g. "Genesis"), let the books view display it
       return;
     }
 
-    // Otherwise, perform a normal verse text search
-    setSearching(true);
-    try {
-      const { data, error } = await supabase
-        .from(selectedVersion)
-        .select("*")
-        .ilike("text", `%${searchText}%`);
+    // Otherwise, perform a ranked verse text search
+    const query = searchText.trim();
+    if (query) await runTextSearch(query);
+  };
+
+  // Re-run the current search from the first page when the mode, filters, version or
+  // downloaded versions change
+  useEffect(() => {
+    if (activeSearchRef.current) runTextSearch(activeSearchRef.current);
+  }, [runTextSearch]);
+
+  // ---------------------
+  // READING PLANS
+  // ---------------------
+  const openPlanReference = (reference: string) => {
+    const [passage] = parseReference(reference);
+    if (passage) openPassage(passage);
+  };
 
-      if (error) throw error;
+  // Lectionary references are numbered as in the KJV
+  const openReading = useCallback(
+    (reference: string) => {
+      const passage = getReadingPassage(reference, selectedVersion);
+      if (passage) openPassage(passage);
+    },
+    [selectedVersion, openPassage],
+  );
+
+  // Wait for the saved version so the passage opens in it. Opened once, so
+  // switching versions afterwards doesn't jump back to it.
+  useEffect(() => {
+    if (!settingsLoaded || !initialReference || openedReferenceRef.current === initialReference) {
+      return;
+    }
+    openedReferenceRef.current = initialReference;
+    openReading(initialReference);
+  }, [settingsLoaded, initialReference, openReading]);
+
+  // The first unread plan day that includes the open chapter
+  const chapterPlanDay = useMemo(() => {
+    if (!selectedBook || !selectedChapter) return null;
+
+    for (const enrollment of planEnrollments) {
+      const plan = getPlan(enrollment.plan_id);
+      if (!plan) continue;
+      const day = findPlanDayForChapter(enrollment, plan, selectedBook, parseInt(selectedChapter));
+      if (day !== null) return { enrollment, plan, day };
+    }
+    return null;
+  }, [planEnrollments, getPlan, selectedBook, selectedChapter]);
 
-      setSearchResults(data as BibleVerse[]);
+  const completeChapterPlanDay = async () => {
+    if (!chapterPlanDay) return;
+    const { enrollment, plan, day } = chapterPlanDay;
+    try {
+      await readingPlans.completeDay(enrollment, day);
+      showFeedback(`Day ${day} of "${plan.title}" marked as read`);
     } catch (error) {
-      console.error("Error searching Bible:", error);
-      showFeedback("Failed to search. Check your connection.");
-      setSearchResults([]);
-    } finally {
-      setSearching(false);
+      console.error("Error completing plan day:", error);
+      showFeedback("Failed to save your progress.");
     }
   };
 
   // ---------------------
-  // HANDLERS
+  // PARALLEL VIEW
   // ---------------------
-  // Handle book selection
-  const handleBookSelect = (book: string): void => {
-    setSelectedBook(book);
-    fetchChapters(book);
-    setView("chapters");
+  // Remember which verse is at the top so toggling the layout doesn't lose the reader's place
+  const keepCurrentVerseInView = () => {
+    pendingScrollVerse.current = currentVerseRef.current;
+    verseOffsets.current = {};
   };
 
-  // Handle chapter selection
-  const handleChapterSelect = (chapter: string): void => {
-    setSelectedChapter(chapter);
-    if (selectedBook) {
-      fetchVerses(selectedBook, chapter);
+  const toggleParallelMode = () => {
+    if (!parallelMode && parallelVersions.filter((t) => t !== selectedVersion).length === 0) {
+      setShowParallelSelector(true);
+      return;
+    }
+    keepCurrentVerseInView();
+    setParallelMode(!parallelMode);
+  };
+
+  const toggleParallelVersion = (table: string) => {
+    if (parallelVersions.includes(table)) {
+      setParallelVersions(parallelVersions.filter((t) => t !== table));
+      return;
+    }
+
+    const others = parallelVersions.filter((t) => t !== selectedVersion);
+    if (others.length >= MAX_PARALLEL_VERSIONS - 1) {
+      showFeedback(`You can compare up to ${MAX_PARALLEL_VERSIONS} versions at once.`);
+      return;
+    }
+    setParallelVersions([...others, table]);
+  };
+
+  const startParallelReading = () => {
+    setShowParallelSelector(false);
+    if (parallelVersions.filter((t) => t !== selectedVersion).length === 0) {
+      setParallelMode(false);
+      return;
+    }
+    keepCurrentVerseInView();
+    setParallelMode(true);
+  };
+
+  const getVersionLabel = (table: string): string =>
+    bibleVersions.find((v) => v.table === table)?.label ?? table;
+
+  // Track the verse at the top of the screen while reading
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    // Load the next page of search results when nearing the end of the list
+    if (activeSearch && view === "books") {
+      const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+      if (contentOffset.y + layoutMeasurement.height >= contentSize.height - 400) {
+        loadMoreSearchResults();
+      }
+      return;
+    }
+
+    if (view !== "verses") return;
+    const y = event.nativeEvent.contentOffset.y - versesSectionY.current - versesContentY.current;
+
+    let current: string | null = null;
+    for (const [verse, offset] of Object.entries(verseOffsets.current)) {
+      if (offset <= y + 1 && (current === null || offset > verseOffsets.current[current])) {
+        current = verse;
+      }
+    }
+    currentVerseRef.current = current;
+  };
+
+  const handleVerseLayout = (verse: string, y: number) => {
+    verseOffsets.current[verse] = y;
+
+    if (pendingScrollVerse.current === verse) {
+      pendingScrollVerse.current = null;
+      scrollViewRef.current?.scrollTo({
+        y: versesSectionY.current + versesContentY.current + y,
+        animated: false,
+      });
+    }
+  };
+
+  const parallelRows = useMemo(() => {
+    if (!parallelMode) return [];
+    const tables = [selectedVersion, ...parallelVersions.filter((t) => t !== selectedVersion)];
+    return alignParallelVerses(tables, { ...parallelVerses, [selectedVersion]: verses });
+  }, [parallelMode, parallelVersions, parallelVerses, selectedVersion, verses]);
+
+  // ---------------------
+  // HANDLERS
+  // ---------------------
+  // Handle book selection
+  const handleBookSelect = (book: string): void => {
+    setSelectedBook(book);
+    setView("chapters");
+  };
+
+  // Handle chapter selection
+  const handleChapterSelect = (chapter: string): void => {
+    setSelectedChapter(chapter);
+    if (selectedBook) {
+      fetchVerses(selectedBook, chapter);
 
       // Add to recently read
       const newRecent: RecentlyReadItem = {
@@ -1194,26 +1309,98 @@ export default function BibleScreen() {
     }
   };
 
-  // Check if a verse is favorited
+  // Check if a verse has its own bookmark
   const isFavorite = useCallback(
     (book: string, chapter: string, verse: string): boolean => {
-      return favorites.some(
-        (fav) => fav.book === book && fav.chapter === chapter && fav.verse === verse,
+      return annotations.some(
+        (a) =>
+          a.book === book &&
+          a.chapter === parseInt(chapter) &&
+          a.start_verse === parseInt(verse) &&
+          a.end_verse === parseInt(verse),
       );
     },
-    [favorites],
+    [annotations],
   );
 
-  // Check if a chapter is bookmarked (verse "0" represents entire chapter)
+  // Check if a chapter is bookmarked (verse 0 represents entire chapter)
   const isChapterBookmarked = useCallback(
     (book: string, chapter: string): boolean => {
-      return favorites.some(
-        (fav) => fav.book === book && fav.chapter === chapter && fav.verse === "0",
+      return annotations.some(
+        (a) => a.book === book && a.chapter === parseInt(chapter) && a.start_verse === 0,
       );
     },
-    [favorites],
+    [annotations],
+  );
+
+  // Annotations covering a verse of the open chapter, most recent first
+  const getVerseAnnotations = useCallback(
+    (verse: string): Annotation[] =>
+      selectedBook && selectedChapter
+        ? annotations
+            .filter((a) =>
+              annotationCovers(a, selectedBook, parseInt(selectedChapter), parseInt(verse)),
+            )
+            .sort((a, b) => (a.updated_at < b.updated_at ? 1 : -1))
+        : [],
+    [annotations, selectedBook, selectedChapter],
   );
 
+  // Drop the verse selection when leaving the chapter
+  useEffect(() => {
+    setVerseSelection(null);
+  }, [selectedBook, selectedChapter, view]);
+
+  // The open chapter's verses in the numbering cross-references use
+  const crossReferenceLocations = useMemo(
+    () =>
+      verses.map(({ book, chapter, verse }) =>
+        mapVerse(
+          { book, chapter: parseInt(chapter), verse: parseInt(verse) },
+          selectedVersion,
+          CROSS_REFERENCE_VERSION,
+        ),
+      ),
+    [verses, selectedVersion],
+  );
+
+  // Load the chapter's cross-references whenever a new chapter is shown. A Vulgate
+  // psalm can span two KJV psalms, so every chapter it maps to is loaded.
+  useEffect(() => {
+    setChapterCrossReferences([]);
+    if (crossReferenceLocations.length === 0) return;
+
+    let cancelled = false;
+    const { book } = crossReferenceLocations[0];
+    const chapterNumbers = Array.from(new Set(crossReferenceLocations.map((l) => l.chapter)));
+    Promise.all(chapterNumbers.map((chapter) => loadChapterCrossReferences(book, chapter))).then(
+      (results) => {
+        if (!cancelled) setChapterCrossReferences(results.flat());
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [crossReferenceLocations]);
+
+  // Cross-references by verse number, for the indicators beside each verse
+  const verseCrossReferences = useMemo(() => {
+    const byVerse: Record<string, CrossReference[]> = {};
+    if (chapterCrossReferences.length === 0) return byVerse;
+
+    verses.forEach(({ verse }, i) => {
+      const { book, chapter, verse: linkVerse } = crossReferenceLocations[i];
+      const links = getVerseCrossReferences(chapterCrossReferences, book, chapter, linkVerse);
+      if (links.length > 0) byVerse[verse] = links;
+    });
+    return byVerse;
+  }, [chapterCrossReferences, crossReferenceLocations, verses]);
+
+  const openCrossReference = (passage: Passage) => {
+    setCrossReferenceVerse(null);
+    openPassage(mapPassage(passage, CROSS_REFERENCE_VERSION, selectedVersion));
+  };
+
   // Go to next/previous chapter
   const goToNextChapter = () => {
     if (!selectedBook || !selectedChapter || chapters.length === 0) return;
@@ -1224,6 +1411,34 @@ export default function BibleScreen() {
     }
   };
 
+  // Move on to the next chapter while reading aloud; false at the end of the book
+  const readNextChapter = (): boolean => {
+    if (!selectedChapter || chapters.indexOf(selectedChapter) >= chapters.length - 1) return false;
+    goToNextChapter();
+    return true;
+  };
+
+  // Keep the verse being read on screen
+  useEffect(() => {
+    const verse = readAloud.currentVerse;
+    if (!verse || view !== "verses") return;
+
+    const offset = verseOffsets.current[verse];
+    if (offset === undefined) {
+      pendingScrollVerse.current = verse;
+      return;
+    }
+    scrollViewRef.current?.scrollTo({
+      y: Math.max(0, versesSectionY.current + versesContentY.current + offset - 120),
+      animated: true,
+    });
+  }, [readAloud.currentVerse, view]);
+
+  // Stop reading when leaving the chapter view
+  useEffect(() => {
+    if (view !== "verses" && readAloud.listening) readAloud.close();
+  }, [view, readAloud]);
+
   const goToPrevChapter = () => {
     if (!selectedBook || !selectedChapter || chapters.length === 0) return;
     const currentIndex = chapters.indexOf(selectedChapter);
@@ -1249,63 +1464,18 @@ export default function BibleScreen() {
     extrapolate: "clamp",
   });
 
-  // Show favorite details modal
-  const openFavoriteDetails = (favorite: FavoriteItem) => {
-    setSelectedFavorite(favorite);
-    setFavoriteNote(favorite.note || "");
-    setShowFavoriteModal(true);
-  };
-
-  // Save note and close modal
-  const saveFavoriteNote = () => {
-    if (selectedFavorite) {
-      updateFavoriteNote(
-        selectedFavorite.book,
-        selectedFavorite.chapter,
-        selectedFavorite.verse,
-        favoriteNote,
-      );
-    }
-    setShowFavoriteModal(false);
-  };
-
-  // Group favorites by book or date
-  const getGroupedFavorites = useCallback(() => {
-    if (favoriteGrouping === "none") {
-      return { "All Bookmarks": favorites };
-    }
-
-    if (favoriteGrouping === "date") {
-      const grouped: { [key: string]: FavoriteItem[] } = {};
-
-      // Group by month and year
-      favorites.forEach((fav) => {
-        const date = fav.dateAdded;
-        const month = date.toLocaleString("default", { month: "long" });
-        const year = date.getFullYear();
-        const key = `${month} ${year}`;
-
-        if (!grouped[key]) {
-          grouped[key] = [];
-        }
-        grouped[key].push(fav);
-      });
-
-      return grouped;
-    }
-
-    // Group by book
-    const grouped: { [key: string]: FavoriteItem[] } = {};
-
-    favorites.forEach((fav) => {
-      if (!grouped[fav.book]) {
-        grouped[fav.book] = [];
-      }
-      grouped[fav.book].push(fav);
-    });
+  // Notebook entries after filters, and every tag for the filter chips
+  const notebookEntries = useMemo(
+    () => filterAnnotations(annotations, notebookFilters),
+    [annotations, notebookFilters],
+  );
+  const notebookTags = useMemo(() => getAllTags(annotations), [annotations]);
 
-    return grouped;
-  }, [favorites, favoriteGrouping]);
+  // Group notebook entries by tag, book, color or date
+  const getGroupedFavorites = useCallback(
+    () => groupAnnotations(notebookEntries, favoriteGrouping),
+    [notebookEntries, favoriteGrouping],
+  );
 
   // ---------------------
   // RENDER HELPERS
@@ -1472,17 +1642,37 @@ export default function BibleScreen() {
                       >
                         {version.label}
                       </Text>
+                      {offlinePacks[version.table] && (
+                        <Feather
+                          name="download"
+                          size={12}
+                          color={themeStyles.accentColor}
+                          style={styles.offlineBadge}
+                        />
+                      )}
                     </View>
                   </TouchableOpacity>
                 ))}
               </View>
+              <TouchableOpacity
+                style={[styles.offlineManagerButton, { borderColor: themeStyles.borderColor }]}
+                onPress={() => {
+                  setShowVersionSelector(false);
+                  setShowOfflineManager(true);
+                }}
+              >
+                <Feather name="download-cloud" size={16} color={themeStyles.accentColor} />
+                <Text style={[styles.offlineManagerButtonText, { color: themeStyles.accentColor }]}>
+                  Offline Downloads
+                </Text>
+              </TouchableOpacity>
             </View>
           </TouchableOpacity>
         </BlurView>
       )}
 
-      {/* Favorite Note Modal */}
-      {showFavoriteModal && selectedFavorite && (
+      {/* Parallel Versions Modal */}
+      {showParallelSelector && (
         <BlurView
           intensity={readingTheme === "night" ? 20 : 80}
           tint={readingTheme === "night" ? "dark" : "light"}
@@ -1490,7 +1680,193 @@ export default function BibleScreen() {
         >
           <TouchableOpacity
             style={styles.modalOverlay}
-            onPress={() => setShowFavoriteModal(false)}
+            onPress={() => setShowParallelSelector(false)}
+            activeOpacity={1}
+          >
+            <View
+              style={[
+                styles.modalContent,
+                {
+                  backgroundColor: themeStyles.cardColor,
+                  borderColor: themeStyles.borderColor,
+                  shadowColor: themeStyles.shadowColor,
+                },
+              ]}
+            >
+              <Text style={[styles.modalTitle, { color: themeStyles.textColor }]}>
+                Compare Versions
+              </Text>
+              <Text style={[styles.modalSubtitle, { color: themeStyles.textColor, opacity: 0.7 }]}>
+                Read {getVersionLabel(selectedVersion)} side by side with up to{" "}
+                {MAX_PARALLEL_VERSIONS - 1} other versions.
+              </Text>
+
+              {bibleVersions
+                .filter((version) => version.table !== selectedVersion)
+                .map((version) => {
+                  const checked = parallelVersions.includes(version.table);
+                  return (
+                    <TouchableOpacity
+                      key={`parallel-option-${version.table}`}
+                      style={[
+                        styles.parallelOption,
+                        { borderBottomColor: themeStyles.borderColor },
+                      ]}
+                      onPress={() => toggleParallelVersion(version.table)}
+                    >
+                      <Feather
+                        name={checked ? "check-square" : "square"}
+                        size={20}
+                        color={checked ? themeStyles.accentColor : themeStyles.textColor}
+                      />
+                      <Text style={[styles.parallelOptionText, { color: themeStyles.textColor }]}>
+                        {version.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[
+                    styles.modalButton,
+                    { backgroundColor: "transparent", borderColor: themeStyles.borderColor },
+                  ]}
+                  onPress={() => {
+                    setShowParallelSelector(false);
+                    setParallelMode(false);
+                  }}
+                >
+                  <Text style={{ color: themeStyles.textColor }}>Single View</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, { backgroundColor: themeStyles.accentColor }]}
+                  onPress={startParallelReading}
+                >
+                  <Text style={{ color: "#FFFFFF" }}>Compare</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </TouchableOpacity>
+        </BlurView>
+      )}
+
+      {/* Offline Downloads Modal */}
+      {showOfflineManager && (
+        <BlurView
+          intensity={readingTheme === "night" ? 20 : 80}
+          tint={readingTheme === "night" ? "dark" : "light"}
+          style={styles.modal}
+        >
+          <TouchableOpacity
+            style={styles.modalOverlay}
+            onPress={() => setShowOfflineManager(false)}
+            activeOpacity={1}
+          >
+            <View
+              style={[
+                styles.modalContent,
+                {
+                  backgroundColor: themeStyles.cardColor,
+                  borderColor: themeStyles.borderColor,
+                  shadowColor: themeStyles.shadowColor,
+                  width: width * 0.9,
+                },
+              ]}
+            >
+              <Text style={[styles.modalTitle, { color: themeStyles.textColor }]}>
+                Offline Downloads
+              </Text>
+              <Text style={[styles.modalSubtitle, { color: themeStyles.textColor, opacity: 0.7 }]}>
+                Downloaded versions can be read and searched without a connection.{" "}
+                {formatPackSize(totalOfflineSize)} used on this device.
+              </Text>
+
+              {bibleVersions.map((version) => {
+                const pack = offlinePacks[version.table];
+                const isDownloading = downloadingPack?.table === version.table;
+
+                return (
+                  <View
+                    key={`offline-${version.table}`}
+                    style={[styles.offlinePackRow, { borderBottomColor: themeStyles.borderColor }]}
+                  >
+                    <View style={styles.offlinePackInfo}>
+                      <Text style={[styles.offlinePackLabel, { color: themeStyles.textColor }]}>
+                        {version.label}
+                      </Text>
+                      <Text
+                        style={[styles.offlinePackDetail, { color: `${themeStyles.textColor}80` }]}
+                      >
+                        {isDownloading
+                          ? `Downloading... ${Math.round(downloadingPack!.progress * 100)}%`
+                          : pack
+                            ? `${formatPackSize(pack.sizeBytes)} · ${new Date(
+                                pack.downloadedAt,
+                              ).toLocaleDateString()}`
+                            : "Not downloaded"}
+                      </Text>
+                    </View>
+
+                    {isDownloading ? (
+                      <ActivityIndicator size="small" color={themeStyles.accentColor} />
+                    ) : pack ? (
+                      <View style={styles.offlinePackActions}>
+                        <TouchableOpacity
+                          style={[
+                            styles.favoriteAction,
+                            { backgroundColor: `${themeStyles.accentColor}10` },
+                          ]}
+                          onPress={() => handleDownloadPack(version.table)}
+                        >
+                          <Feather name="refresh-cw" size={16} color={themeStyles.accentColor} />
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[
+                            styles.favoriteAction,
+                            { backgroundColor: "#FF525210", marginLeft: 8 },
+                          ]}
+                          onPress={() => handleDeletePack(version.table)}
+                        >
+                          <Feather name="trash-2" size={16} color="#FF5252" />
+                        </TouchableOpacity>
+                      </View>
+                    ) : (
+                      <TouchableOpacity
+                        style={[
+                          styles.favoriteAction,
+                          { backgroundColor: `${themeStyles.accentColor}10` },
+                        ]}
+                        onPress={() => handleDownloadPack(version.table)}
+                        disabled={!!downloadingPack}
+                      >
+                        <Feather
+                          name="download"
+                          size={16}
+                          color={
+                            downloadingPack ? `${themeStyles.textColor}40` : themeStyles.accentColor
+                          }
+                        />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          </TouchableOpacity>
+        </BlurView>
+      )}
+
+      {/* Annotation Editor Modal */}
+      {annotationDraft && (
+        <BlurView
+          intensity={readingTheme === "night" ? 20 : 80}
+          tint={readingTheme === "night" ? "dark" : "light"}
+          style={styles.modal}
+        >
+          <TouchableOpacity
+            style={styles.modalOverlay}
+            onPress={() => setAnnotationDraft(null)}
             activeOpacity={1}
           >
             <View
@@ -1504,17 +1880,94 @@ export default function BibleScreen() {
                   width: width * 0.9,
                 },
               ]}
+              onStartShouldSetResponder={() => true}
             >
               <Text style={[styles.modalTitle, { color: themeStyles.textColor }]}>
-                {selectedFavorite.verse === "0"
-                  ? `${selectedFavorite.book} ${selectedFavorite.chapter}`
-                  : `${selectedFavorite.book} ${selectedFavorite.chapter}:${selectedFavorite.verse}`}
+                {formatAnnotationReference({
+                  book: annotationDraft.book,
+                  chapter: annotationDraft.chapter,
+                  start_verse: annotationDraft.startVerse,
+                  end_verse: annotationDraft.endVerse,
+                })}
               </Text>
 
               <Text style={[styles.modalSubtitle, { color: themeStyles.textColor, opacity: 0.7 }]}>
-                Added on {selectedFavorite.dateAdded.toLocaleDateString()}
+                {annotationDraft.annotation
+                  ? `Added on ${new Date(annotationDraft.annotation.created_at).toLocaleDateString()}`
+                  : "New note"}
               </Text>
 
+              {/* Highlight color (chapter bookmarks are not highlighted) */}
+              {annotationDraft.startVerse > 0 && (
+                <View style={styles.colorSwatchRow}>
+                  <TouchableOpacity
+                    style={[
+                      styles.colorSwatch,
+                      styles.noColorSwatch,
+                      { borderColor: themeStyles.borderColor },
+                      !annotationDraft.color && { borderColor: themeStyles.textColor },
+                    ]}
+                    onPress={() => setAnnotationDraft({ ...annotationDraft, color: null })}
+                  >
+                    <Feather name="slash" size={14} color={`${themeStyles.textColor}80`} />
+                  </TouchableOpacity>
+                  {HIGHLIGHT_COLORS.map((color) => (
+                    <TouchableOpacity
+                      key={color.value}
+                      style={[
+                        styles.colorSwatch,
+                        { backgroundColor: color.value },
+                        annotationDraft.color === color.value && {
+                          borderColor: themeStyles.textColor,
+                        },
+                      ]}
+                      onPress={() => setAnnotationDraft({ ...annotationDraft, color: color.value })}
+                      accessibilityLabel={`${color.name} highlight`}
+                    />
+                  ))}
+                </View>
+              )}
+
+              {/* Tags */}
+              <View style={styles.tagChipRow}>
+                {annotationDraft.tags.map((tag) => (
+                  <TouchableOpacity
+                    key={tag}
+                    style={[styles.tagChip, { backgroundColor: `${themeStyles.accentColor}15` }]}
+                    onPress={() =>
+                      setAnnotationDraft({
+                        ...annotationDraft,
+                        tags: annotationDraft.tags.filter((t) => t !== tag),
+                      })
+                    }
+                  >
+                    <Text style={[styles.tagChipText, { color: themeStyles.accentColor }]}>
+                      #{tag}
+                    </Text>
+                    <Feather name="x" size={12} color={themeStyles.accentColor} />
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                style={[
+                  styles.tagInput,
+                  {
+                    color: themeStyles.textColor,
+                    borderColor: themeStyles.borderColor,
+                  },
+                ]}
+                placeholder="Add a tag (e.g. hope, prayer)"
+                placeholderTextColor={
+                  readingTheme === "night" ? "rgba(255, 255, 255, 0.5)" : "rgba(0, 0, 0, 0.5)"
+                }
+                value={tagInput}
+                onChangeText={setTagInput}
+                onSubmitEditing={addDraftTag}
+                autoCapitalize="none"
+                returnKeyType="done"
+                blurOnSubmit={false}
+              />
+
               <View
                 style={[
                   styles.noteContainer,
@@ -1528,19 +1981,21 @@ export default function BibleScreen() {
                 <TextInput
                   style={[
                     styles.noteInput,
+                    styles.longNoteInput,
                     {
                       color: themeStyles.textColor,
                       backgroundColor: readingTheme === "night" ? "#1A1A1A" : "#F5F5F5",
                     },
                   ]}
-                  placeholder="Add a note to this bookmark..."
+                  placeholder="Write your reflection on this passage..."
                   placeholderTextColor={
                     readingTheme === "night" ? "rgba(255, 255, 255, 0.5)" : "rgba(0, 0, 0, 0.5)"
                   }
-                  value={favoriteNote}
-                  onChangeText={setFavoriteNote}
+                  value={annotationDraft.note}
+                  onChangeText={(note) => setAnnotationDraft({ ...annotationDraft, note })}
                   multiline
-                  numberOfLines={4}
+                  numberOfLines={8}
+                  textAlignVertical="top"
                 />
               </View>
 
@@ -1553,7 +2008,7 @@ export default function BibleScreen() {
                       borderColor: themeStyles.borderColor,
                     },
                   ]}
-                  onPress={() => setShowFavoriteModal(false)}
+                  onPress={() => setAnnotationDraft(null)}
                 >
                   <Text style={{ color: themeStyles.textColor }}>Cancel</Text>
                 </TouchableOpacity>
@@ -1565,31 +2020,30 @@ export default function BibleScreen() {
                       backgroundColor: themeStyles.favoriteColor,
                     },
                   ]}
-                  onPress={saveFavoriteNote}
+                  onPress={saveAnnotationDraft}
                 >
-                  <Text style={{ color: "#FFFFFF" }}>Save Note</Text>
+                  <Text style={{ color: "#FFFFFF" }}>Save</Text>
                 </TouchableOpacity>
               </View>
 
-              <TouchableOpacity
-                style={[
-                  styles.removeButton,
-                  {
-                    borderColor: themeStyles.borderColor,
-                  },
-                ]}
-                onPress={() => {
-                  removeFavorite(
-                    selectedFavorite.book,
-                    selectedFavorite.chapter,
-                    selectedFavorite.verse,
-                  );
-                  setShowFavoriteModal(false);
-                }}
-              >
-                <Feather name="trash-2" size={16} color="#FF5252" />
-                <Text style={{ color: "#FF5252", marginLeft: 8 }}>Remove Bookmark</Text>
-              </TouchableOpacity>
+              {annotationDraft.annotation && (
+                <TouchableOpacity
+                  style={[
+                    styles.removeButton,
+                    {
+                      borderColor: themeStyles.borderColor,
+                    },
+                  ]}
+                  onPress={() => {
+                    removeAnnotation(annotationDraft.annotation!.id);
+                    showAnnotationFeedback("Note removed");
+                    setAnnotationDraft(null);
+                  }}
+                >
+                  <Feather name="trash-2" size={16} color="#FF5252" />
+                  <Text style={{ color: "#FF5252", marginLeft: 8 }}>Remove</Text>
+                </TouchableOpacity>
+              )}
             </View>
           </TouchableOpacity>
         </BlurView>
@@ -1597,17 +2051,17 @@ export default function BibleScreen() {
     </>
   );
 
-  // Render favorites view
+  // Render favorites view (the notebook of highlights, tags and notes)
   const renderFavoritesView = () => (
     <View style={styles.favoritesContainer}>
       {favoriteLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={themeStyles.favoriteColor} />
           <Text style={[styles.loadingText, { color: themeStyles.textColor }]}>
-            Loading your bookmarks...
+            Loading your notebook...
           </Text>
         </View>
-      ) : favorites.length === 0 ? (
+      ) : annotations.length === 0 ? (
         <View style={styles.emptyFavoritesContainer}>
           <Feather
             name="bookmark"
@@ -1616,10 +2070,10 @@ export default function BibleScreen() {
             style={styles.emptyFavoritesIcon}
           />
           <Text style={[styles.emptyFavoritesText, { color: themeStyles.textColor }]}>
-            You don't have any bookmarks yet
+            Your notebook is empty
           </Text>
           <Text style={[styles.emptyFavoritesSubtext, { color: `${themeStyles.textColor}80` }]}>
-            Add bookmarks by tapping the bookmark icon while reading
+            Tap verse numbers while reading to highlight a passage, tag it and write notes
           </Text>
           <TouchableOpacity
             style={[
@@ -1633,9 +2087,21 @@ export default function BibleScreen() {
             <Text style={styles.emptyFavoritesButtonText}>Browse Bible</Text>
           </TouchableOpacity>
         </View>
+      ) : notebookEntries.length === 0 ? (
+        <View style={styles.emptyFavoritesContainer}>
+          <Text style={[styles.emptyFavoritesText, { color: themeStyles.textColor }]}>
+            Nothing matches these filters
+          </Text>
+          <TouchableOpacity
+            style={[styles.emptyFavoritesButton, { backgroundColor: themeStyles.favoriteColor }]}
+            onPress={() => setNotebookFilters(DEFAULT_ANNOTATION_FILTERS)}
+          >
+            <Text style={styles.emptyFavoritesButtonText}>Clear Filters</Text>
+          </TouchableOpacity>
+        </View>
       ) : (
         <View>
-          {/* Favorites List (Grouped) */}
+          {/* Notebook entries (Grouped) */}
           {Object.entries(getGroupedFavorites()).map(([group, items]) => (
             <View key={group} style={styles.favoriteGroup}>
               <Text
@@ -1650,9 +2116,9 @@ export default function BibleScreen() {
                 {group} ({items.length})
               </Text>
 
-              {items.map((favorite, index) => (
+              {items.map((annotation) => (
                 <TouchableOpacity
-                  key={`${favorite.book}-${favorite.chapter}-${favorite.verse}-${index}`}
+                  key={`${group}-${annotation.id}`}
                   style={[
                     styles.favoriteItem,
                     {
@@ -1661,36 +2127,35 @@ export default function BibleScreen() {
                       shadowColor: themeStyles.shadowColor,
                     },
                   ]}
-                  onPress={() => {
-                    // If it's a chapter bookmark (verse "0")
-                    if (favorite.verse === "0") {
-                      setSelectedBook(favorite.book);
-                      fetchChapters(favorite.book); // Load chapters in background
-                      setSelectedChapter(favorite.chapter);
-                      fetchVerses(favorite.book, favorite.chapter);
-                      setView("verses");
-                    } else {
-                      // If it's a verse bookmark
-                      setSelectedBook(favorite.book);
-                      fetchChapters(favorite.book); // Load chapters in background
-                      setSelectedChapter(favorite.chapter);
-                      fetchVerses(favorite.book, favorite.chapter);
-                      setView("verses");
-                      // We could scroll to the specific verse here if needed
-                    }
-                  }}
+                  onPress={() =>
+                    openPassage({
+                      book: annotation.book,
+                      startChapter: annotation.chapter,
+                      startVerse: annotation.start_verse || undefined,
+                    })
+                  }
                 >
                   <View style={styles.favoriteItemLeft}>
                     <View
                       style={[
                         styles.favoriteIconContainer,
                         {
-                          backgroundColor: `${themeStyles.favoriteColor}15`,
+                          backgroundColor: annotation.color
+                            ? `${annotation.color}60`
+                            : `${themeStyles.favoriteColor}15`,
                         },
                       ]}
                     >
                       <Feather
-                        name={favorite.verse === "0" ? "bookmark" : "heart"}
+                        name={
+                          annotation.start_verse === 0
+                            ? "bookmark"
+                            : annotation.note
+                              ? "file-text"
+                              : annotation.color
+                                ? "edit-3"
+                                : "heart"
+                        }
                         size={20}
                         color={themeStyles.favoriteColor}
                       />
@@ -1707,11 +2172,10 @@ export default function BibleScreen() {
                         },
                       ]}
                     >
-                      {favorite.book} {favorite.chapter}
-                      {favorite.verse !== "0" && `:${favorite.verse}`}
+                      {formatAnnotationReference(annotation)}
                     </Text>
 
-                    {favorite.note ? (
+                    {annotation.note ? (
                       <Text
                         style={[
                           styles.favoriteItemNote,
@@ -1719,10 +2183,9 @@ export default function BibleScreen() {
                             color: `${themeStyles.textColor}80`,
                           },
                         ]}
+                        numberOfLines={2}
                       >
-                        {favorite.note.length > 50
-                          ? favorite.note.substring(0, 47) + "..."
-                          : favorite.note}
+                        {annotation.note}
                       </Text>
                     ) : (
                       <Text
@@ -1733,9 +2196,29 @@ export default function BibleScreen() {
                           },
                         ]}
                       >
-                        Added {favorite.dateAdded.toLocaleDateString()}
+                        Added {new Date(annotation.created_at).toLocaleDateString()}
                       </Text>
                     )}
+
+                    {annotation.tags.length > 0 && (
+                      <View style={styles.tagChipRow}>
+                        {annotation.tags.map((tag) => (
+                          <Text
+                            key={tag}
+                            style={[
+                              styles.tagChip,
+                              styles.tagChipText,
+                              {
+                                color: themeStyles.accentColor,
+                                backgroundColor: `${themeStyles.accentColor}15`,
+                              },
+                            ]}
+                          >
+                            #{tag}
+                          </Text>
+                        ))}
+                      </View>
+                    )}
                   </View>
 
                   <View style={styles.favoriteItemActions}>
@@ -1746,7 +2229,7 @@ export default function BibleScreen() {
                           backgroundColor: `${themeStyles.accentColor}10`,
                         },
                       ]}
-                      onPress={() => openFavoriteDetails(favorite)}
+                      onPress={() => openAnnotationEditor(annotation)}
                     >
                       <Feather name="edit-2" size={16} color={themeStyles.accentColor} />
                     </TouchableOpacity>
@@ -1759,9 +2242,10 @@ export default function BibleScreen() {
                           marginLeft: 8,
                         },
                       ]}
-                      onPress={() =>
-                        removeFavorite(favorite.book, favorite.chapter, favorite.verse)
-                      }
+                      onPress={() => {
+                        removeAnnotation(annotation.id);
+                        showAnnotationFeedback("Removed from notebook");
+                      }}
                     >
                       <Feather name="trash-2" size={16} color={themeStyles.favoriteColor} />
                     </TouchableOpacity>
@@ -1778,8 +2262,79 @@ export default function BibleScreen() {
   // Render books view
   const renderBooksView = () => (
     <>
+      {/* Today's Readings Section */}
+      {denomination === "catholic" && (
+        <TodaysReadingsCard
+          themeStyles={themeStyles}
+          headingSize={fontSizeStyles.headingSize}
+          onOpenReading={openReading}
+        />
+      )}
+
+      {/* Reading Plans Section */}
+      <View style={styles.planSummarySection}>
+        <View style={styles.sectionTitleContainer}>
+          <Text
+            style={[
+              styles.sectionTitle,
+              {
+                color: themeStyles.textColor,
+                fontSize: fontSizeStyles.headingSize,
+              },
+            ]}
+          >
+            Reading Plans
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.viewAllButton, { borderColor: themeStyles.borderColor }]}
+            onPress={() => setView("plans")}
+          >
+            <Text style={[styles.viewAllText, { color: themeStyles.accentColor }]}>
+              {readingPlans.enrollments.length > 0 ? "View All" : "Browse"}
+            </Text>
+            <Feather name="chevron-right" size={16} color={themeStyles.accentColor} />
+          </TouchableOpacity>
+        </View>
+
+        {readingPlans.enrollments.map((enrollment) => {
+          const plan = readingPlans.getPlan(enrollment.plan_id);
+          if (!plan) return null;
+          const { day, catchUpDays } = getTodaysReading(enrollment, plan);
+          if (day === null && catchUpDays.length === 0) return null;
+
+          return (
+            <TouchableOpacity
+              key={enrollment.id}
+              style={[
+                styles.planSummaryCard,
+                {
+                  backgroundColor: themeStyles.cardColor,
+                  borderColor: themeStyles.borderColor,
+                  shadowColor: themeStyles.shadowColor,
+                },
+              ]}
+              onPress={() => openPlanReference(plan.days[(day ?? catchUpDays[0]) - 1][0])}
+            >
+              <Feather name="calendar" size={18} color={themeStyles.accentColor} />
+              <View style={styles.planDayBannerText}>
+                <Text style={[styles.planDayBannerTitle, { color: themeStyles.textColor }]}>
+                  {plan.title}
+                </Text>
+                <Text style={[styles.planDayBannerSubtitle, { color: themeStyles.textColor }]}>
+                  {day !== null
+                    ? `Today, day ${day}: ${plan.days[day - 1].join("; ")}`
+                    : `Catch up on day ${catchUpDays[0]}`}
+                </Text>
+              </View>
+              <Feather name="chevron-right" size={18} color={themeStyles.accentColor} />
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
       {/* Highlighted Bookmarks Section */}
-      {favorites.length > 0 && (
+      {annotations.length > 0 && (
         <View style={styles.highlightedBookmarksSection}>
           <View style={styles.sectionTitleContainer}>
             <Text
@@ -1791,7 +2346,7 @@ export default function BibleScreen() {
                 },
               ]}
             >
-              Your Bookmarks
+              Your Notebook
             </Text>
 
             <TouchableOpacity
@@ -1805,8 +2360,8 @@ export default function BibleScreen() {
             </TouchableOpacity>
           </View>
 
-          <FlatList<FavoriteItem>
-            data={favorites.slice(0, 5)}
+          <FlatList<Annotation>
+            data={filterAnnotations(annotations, DEFAULT_ANNOTATION_FILTERS).slice(0, 5)}
             renderItem={({ item }) => (
               <TouchableOpacity
                 style={[
@@ -1817,21 +2372,26 @@ export default function BibleScreen() {
                     shadowColor: themeStyles.shadowColor,
                   },
                 ]}
-                onPress={() => {
-                  setSelectedBook(item.book);
-                  setSelectedChapter(item.chapter);
-                  fetchVerses(item.book, item.chapter);
-                  setView("verses");
-                }}
+                onPress={() =>
+                  openPassage({
+                    book: item.book,
+                    startChapter: item.chapter,
+                    startVerse: item.start_verse || undefined,
+                  })
+                }
               >
                 <View
                   style={[
                     styles.bookmarkIconContainer,
-                    { backgroundColor: `${themeStyles.favoriteColor}15` },
+                    {
+                      backgroundColor: item.color
+                        ? `${item.color}60`
+                        : `${themeStyles.favoriteColor}15`,
+                    },
                   ]}
                 >
                   <Feather
-                    name={item.verse === "0" ? "bookmark" : "heart"}
+                    name={item.start_verse === 0 ? "bookmark" : item.note ? "file-text" : "heart"}
                     size={18}
                     color={themeStyles.favoriteColor}
                   />
@@ -1846,8 +2406,7 @@ export default function BibleScreen() {
                       },
                     ]}
                   >
-                    {item.book} {item.chapter}
-                    {item.verse !== "0" && `:${item.verse}`}
+                    {formatAnnotationReference(item)}
                   </Text>
 
                   {item.note ? (
@@ -1866,9 +2425,7 @@ export default function BibleScreen() {
                 </View>
               </TouchableOpacity>
             )}
-            keyExtractor={(item, index) =>
-              `bookmark-${item.book}-${item.chapter}-${item.verse}-${index}`
-            }
+            keyExtractor={(item) => `bookmark-${item.id}`}
             horizontal
             showsHorizontalScrollIndicator={false}
             contentContainerStyle={styles.highlightedBookmarksList}
@@ -1904,7 +2461,6 @@ export default function BibleScreen() {
                 ]}
                 onPress={() => {
                   setSelectedBook(item.book);
-                  fetchChapters(item.book); // Load chapters in background
                   setSelectedChapter(item.chapter);
                   fetchVerses(item.book, item.chapter);
                   setView("verses");
@@ -2245,9 +2801,108 @@ export default function BibleScreen() {
     </View>
   );
 
+  // Render the selected version alongside the parallel versions, one row per verse number
+  const renderParallelVerses = () => {
+    const tables = [selectedVersion, ...parallelVersions.filter((t) => t !== selectedVersion)];
+    const missingVersions = tables.filter(
+      (table) =>
+        table !== selectedVersion && !parallelLoading && (parallelVerses[table] || []).length === 0,
+    );
+
+    return (
+      <View>
+        <View style={[styles.parallelHeaderRow, { borderBottomColor: themeStyles.borderColor }]}>
+          <View style={styles.parallelNumberSpacer} />
+          {tables.map((table) => (
+            <Text
+              key={`parallel-label-${table}`}
+              style={[styles.parallelHeaderText, { color: themeStyles.accentColor }]}
+              numberOfLines={1}
+            >
+              {getVersionLabel(table)}
+            </Text>
+          ))}
+        </View>
+
+        {missingVersions.length > 0 && (
+          <View
+            style={[
+              styles.parallelNotice,
+              {
+                backgroundColor: `${themeStyles.accentColor}10`,
+                borderColor: themeStyles.borderColor,
+              },
+            ]}
+          >
+            <Feather name="info" size={14} color={themeStyles.accentColor} />
+            <Text style={[styles.parallelNoticeText, { color: themeStyles.textColor }]}>
+              {missingVersions.map(getVersionLabel).join(", ")}{" "}
+              {missingVersions.length === 1 ? "does" : "do"} not include {selectedBook}{" "}
+              {selectedChapter}.
+            </Text>
+          </View>
+        )}
+
+        {parallelLoading && (
+          <ActivityIndicator color={themeStyles.accentColor} style={styles.parallelLoader} />
+        )}
+
+        {parallelRows.map((row) => (
+          <View
+            key={`parallel-${row.verse}`}
+            style={[styles.parallelRow, { borderBottomColor: themeStyles.borderColor }]}
+            onLayout={(e) => handleVerseLayout(row.verse, e.nativeEvent.layout.y)}
+          >
+            <View style={styles.parallelNumberSpacer}>
+              <Text
+                style={[
+                  styles.verseNumber,
+                  {
+                    color: getBookColor(selectedBook!, readingTheme),
+                    fontSize: fontSizeStyles.verseText - 6,
+                  },
+                ]}
+              >
+                {row.verse}
+              </Text>
+            </View>
+            {tables.map((table) => {
+              const cell = row.cells[table];
+              return (
+                <View key={`parallel-${row.verse}-${table}`} style={styles.parallelCell}>
+                  {cell ? (
+                    <Text
+                      style={{
+                        color: themeStyles.textColor,
+                        fontSize: fontSizeStyles.verseText - (tables.length > 2 ? 4 : 2),
+                        lineHeight: fontSizeStyles.lineHeight - (tables.length > 2 ? 6 : 3),
+                      }}
+                      selectable={true}
+                    >
+                      {cell.text}
+                    </Text>
+                  ) : (
+                    <Text
+                      style={[styles.parallelMissingText, { color: `${themeStyles.textColor}60` }]}
+                    >
+                      —
+                    </Text>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   // Render verses view
   const renderVersesView = () => (
-    <View style={styles.versesSection}>
+    <View
+      style={styles.versesSection}
+      onLayout={(e) => (versesSectionY.current = e.nativeEvent.layout.y)}
+    >
       <View style={styles.versesHeader}>
         <View style={styles.verseNavigation}>
           <TouchableOpacity
@@ -2330,7 +2985,10 @@ export default function BibleScreen() {
       {loading ? (
         <ActivityIndicator color={themeStyles.accentColor} size="large" style={styles.loader} />
       ) : (
-        <View style={styles.versesContent}>
+        <View
+          style={styles.versesContent}
+          onLayout={(e) => (versesContentY.current = e.nativeEvent.layout.y)}
+        >
           <View
             style={[
               styles.verseDivider,
@@ -2338,70 +2996,151 @@ export default function BibleScreen() {
             ]}
           />
 
-          {verses.map((item) => (
-            <View key={`verse-${item.verse}`} style={styles.verseRow}>
-              <View
-                style={[
-                  styles.verseNumberCircle,
-                  {
-                    backgroundColor: isFavorite(selectedBook!, selectedChapter!, item.verse)
-                      ? `${themeStyles.favoriteColor}20`
-                      : `${getBookColor(item.book, readingTheme)}15`,
-                  },
-                ]}
-              >
-                <Text
+          {parallelMode && renderParallelVerses()}
+
+          {!parallelMode &&
+            verses.map((item) => {
+              const verseAnnotations = getVerseAnnotations(item.verse);
+              const highlight = verseAnnotations.find((a) => a.color)?.color;
+              const noted = verseAnnotations.find((a) => a.note || a.tags.length > 0);
+              const verseNumber = parseInt(item.verse);
+              const selected =
+                !!verseSelection &&
+                verseNumber >= verseSelection.start &&
+                verseNumber <= verseSelection.end;
+              const reading = readAloud.currentVerse === item.verse;
+
+              return (
+                <View
+                  key={`verse-${item.verse}`}
                   style={[
-                    styles.verseNumber,
-                    {
-                      color: isFavorite(selectedBook!, selectedChapter!, item.verse)
-                        ? themeStyles.favoriteColor
-                        : getBookColor(item.book, readingTheme),
-                      fontSize: fontSizeStyles.verseText - 4,
+                    styles.verseRow,
+                    highlight && { backgroundColor: `${highlight}40` },
+                    selected && {
+                      backgroundColor: `${themeStyles.accentColor}20`,
+                      borderColor: themeStyles.accentColor,
                     },
-                  ]}
-                >
-                  {item.verse}
-                </Text>
-              </View>
-              <View style={styles.verseTextContainer}>
-                <Text
-                  style={[
-                    styles.verseText,
-                    {
-                      color: themeStyles.textColor,
-                      fontSize: fontSizeStyles.verseText,
-                      lineHeight: fontSizeStyles.lineHeight,
+                    reading && {
+                      backgroundColor: `${themeStyles.accentColor}15`,
+                      borderLeftColor: themeStyles.accentColor,
+                      borderLeftWidth: 3,
                     },
+                    (highlight || selected || reading) && styles.annotatedVerseRow,
                   ]}
-                  selectable={true}
+                  onLayout={(e) => handleVerseLayout(item.verse, e.nativeEvent.layout.y)}
                 >
-                  {item.text}
-                </Text>
-                <Animated.View style={{ transform: [{ scale: favoriteScale }] }}>
                   <TouchableOpacity
                     style={[
-                      styles.favoriteButton,
-                      isFavorite(item.book, item.chapter, item.verse) && {
-                        backgroundColor: `${themeStyles.favoriteColor}20`,
+                      styles.verseNumberCircle,
+                      {
+                        backgroundColor: selected
+                          ? themeStyles.accentColor
+                          : isFavorite(selectedBook!, selectedChapter!, item.verse)
+                            ? `${themeStyles.favoriteColor}20`
+                            : `${getBookColor(item.book, readingTheme)}15`,
                       },
                     ]}
-                    onPress={() => toggleFavorite(item.book, item.chapter, item.verse)}
+                    onPress={() => toggleVerseSelection(item.verse)}
+                    accessibilityLabel={`Select verse ${item.verse}`}
                   >
-                    <Feather
-                      name="heart"
-                      size={16}
-                      color={
-                        isFavorite(item.book, item.chapter, item.verse)
-                          ? themeStyles.favoriteColor
-                          : themeStyles.textColor
-                      }
-                    />
+                    <Text
+                      style={[
+                        styles.verseNumber,
+                        {
+                          color: selected
+                            ? "#FFFFFF"
+                            : isFavorite(selectedBook!, selectedChapter!, item.verse)
+                              ? themeStyles.favoriteColor
+                              : getBookColor(item.book, readingTheme),
+                          fontSize: fontSizeStyles.verseText - 4,
+                        },
+                      ]}
+                    >
+                      {item.verse}
+                    </Text>
                   </TouchableOpacity>
-                </Animated.View>
+                  <View style={styles.verseTextContainer}>
+                    <Text
+                      style={[
+                        styles.verseText,
+                        {
+                          color: themeStyles.textColor,
+                          fontSize: fontSizeStyles.verseText,
+                          lineHeight: fontSizeStyles.lineHeight,
+                        },
+                      ]}
+                      selectable={true}
+                    >
+                      {item.text}
+                    </Text>
+                    {noted && (
+                      <TouchableOpacity
+                        style={styles.favoriteButton}
+                        onPress={() => openAnnotationEditor(noted)}
+                      >
+                        <Feather name="file-text" size={16} color={themeStyles.accentColor} />
+                      </TouchableOpacity>
+                    )}
+                    {verseCrossReferences[item.verse] && (
+                      <TouchableOpacity
+                        style={styles.favoriteButton}
+                        onPress={() => setCrossReferenceVerse(item.verse)}
+                        accessibilityLabel={`Cross-references for verse ${item.verse}`}
+                      >
+                        <Feather name="link-2" size={16} color={themeStyles.accentColor} />
+                      </TouchableOpacity>
+                    )}
+                    <Animated.View style={{ transform: [{ scale: favoriteScale }] }}>
+                      <TouchableOpacity
+                        style={[
+                          styles.favoriteButton,
+                          isFavorite(item.book, item.chapter, item.verse) && {
+                            backgroundColor: `${themeStyles.favoriteColor}20`,
+                          },
+                        ]}
+                        onPress={() => toggleFavorite(item.book, item.chapter, item.verse)}
+                      >
+                        <Feather
+                          name="heart"
+                          size={16}
+                          color={
+                            isFavorite(item.book, item.chapter, item.verse)
+                              ? themeStyles.favoriteColor
+                              : themeStyles.textColor
+                          }
+                        />
+                      </TouchableOpacity>
+                    </Animated.View>
+                  </View>
+                </View>
+              );
+            })}
+
+          {verses.length > 0 && chapterPlanDay && (
+            <View
+              style={[
+                styles.planDayBanner,
+                { backgroundColor: themeStyles.cardColor, borderColor: themeStyles.borderColor },
+              ]}
+            >
+              <Feather name="calendar" size={18} color={themeStyles.accentColor} />
+              <View style={styles.planDayBannerText}>
+                <Text style={[styles.planDayBannerTitle, { color: themeStyles.textColor }]}>
+                  {chapterPlanDay.plan.title}
+                </Text>
+                <Text style={[styles.planDayBannerSubtitle, { color: themeStyles.textColor }]}>
+                  Day {chapterPlanDay.day}:{" "}
+                  {chapterPlanDay.plan.days[chapterPlanDay.day - 1].join("; ")}
+                </Text>
               </View>
+              <TouchableOpacity
+                style={[styles.planDayBannerButton, { backgroundColor: themeStyles.accentColor }]}
+                onPress={completeChapterPlanDay}
+              >
+                <Feather name="check" size={16} color="#FFFFFF" />
+              </TouchableOpacity>
             </View>
-          ))}
+          )}
 
           {verses.length > 0 && (
             <View style={styles.chapterEndNavigationContainer}>
@@ -2481,6 +3220,116 @@ export default function BibleScreen() {
     </View>
   );
 
+  // A selectable chip in the search filter bar
+  const renderSearchChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void,
+    icon?: keyof typeof Feather.glyphMap,
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.searchChip,
+        {
+          backgroundColor: active ? `${themeStyles.accentColor}20` : themeStyles.cardColor,
+          borderColor: active ? themeStyles.accentColor : themeStyles.borderColor,
+        },
+      ]}
+      onPress={onPress}
+    >
+      {icon && (
+        <Feather
+          name={icon}
+          size={12}
+          color={active ? themeStyles.accentColor : themeStyles.textColor}
+          style={styles.searchChipIcon}
+        />
+      )}
+      <Text
+        style={[
+          styles.searchChipText,
+          {
+            color: active ? themeStyles.accentColor : themeStyles.textColor,
+            fontWeight: active ? "600" : "400",
+          },
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const updateSearchFilters = (changes: Partial<SearchFilters>) =>
+    setSearchFilters((prev) => ({ ...prev, ...changes }));
+
+  // Mode, testament, book and category filters for the text search
+  const renderSearchFilters = () => (
+    <View style={styles.searchFilters}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {renderSearchChip("mode-all", "All words", searchMode === "all", () =>
+          setSearchMode("all"),
+        )}
+        {renderSearchChip("mode-phrase", "Exact phrase", searchMode === "phrase", () =>
+          setSearchMode("phrase"),
+        )}
+        <View style={[styles.searchChipDivider, { backgroundColor: themeStyles.borderColor }]} />
+        {(["all", "old", "new"] as const).map((value) =>
+          renderSearchChip(
+            `testament-${value}`,
+            value === "all" ? "Whole Bible" : value === "old" ? "Old Testament" : "New Testament",
+            searchFilters.testament === value && !searchFilters.book,
+            () => updateSearchFilters({ testament: value, book: null }),
+          ),
+        )}
+        {selectedBook &&
+          renderSearchChip(
+            "book",
+            selectedBook,
+            searchFilters.book === selectedBook,
+            () =>
+              updateSearchFilters({
+                book: searchFilters.book === selectedBook ? null : selectedBook,
+              }),
+            "bookmark",
+          )}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.searchFiltersRow}>
+        {renderSearchChip("category-all", "All categories", searchFilters.category === "all", () =>
+          updateSearchFilters({ category: "all", book: null }),
+        )}
+        {BOOK_CATEGORIES.map((category) =>
+          renderSearchChip(
+            `category-${category}`,
+            category.charAt(0).toUpperCase() + category.slice(1),
+            searchFilters.category === category && !searchFilters.book,
+            () => updateSearchFilters({ category, book: null }),
+            categoryIcons[category] as keyof typeof Feather.glyphMap,
+          ),
+        )}
+      </ScrollView>
+    </View>
+  );
+
+  // Verse text with the matched words highlighted
+  const renderSnippet = (snippet: string) =>
+    splitHighlights(snippet).map((segment, index) =>
+      segment.highlighted ? (
+        <Text
+          key={index}
+          style={[
+            styles.searchHighlight,
+            { backgroundColor: `${themeStyles.accentColor}30`, color: themeStyles.textColor },
+          ]}
+        >
+          {segment.text}
+        </Text>
+      ) : (
+        segment.text
+      ),
+    );
+
   // Render search results
   const renderSearchResults = () => (
     <View style={styles.searchResultsContainer}>
@@ -2495,10 +3344,11 @@ export default function BibleScreen() {
       >
         Search Results
       </Text>
+      {renderSearchFilters()}
       {searching ? (
         <ActivityIndicator color={themeStyles.accentColor} />
       ) : (
-        <FlatList<BibleVerse>
+        <FlatList<SearchHit>
           data={searchResults}
           renderItem={({ item }) => (
             <TouchableOpacity
@@ -2560,7 +3410,7 @@ export default function BibleScreen() {
                   },
                 ]}
               >
-                {item.text}
+                {renderSnippet(item.snippet)}
               </Text>
             </TouchableOpacity>
           )}
@@ -2569,6 +3419,25 @@ export default function BibleScreen() {
           }
           contentContainerStyle={styles.searchResultsList}
           scrollEnabled={false}
+          ListEmptyComponent={
+            <Text style={[styles.searchEmptyText, { color: themeStyles.textColor }]}>
+              No verses found for "{activeSearch}"
+            </Text>
+          }
+          ListFooterComponent={
+            loadingMoreResults ? (
+              <ActivityIndicator color={themeStyles.accentColor} />
+            ) : searchCursor ? (
+              <TouchableOpacity
+                style={[styles.searchLoadMoreButton, { borderColor: themeStyles.accentColor }]}
+                onPress={loadMoreSearchResults}
+              >
+                <Text style={[styles.searchLoadMoreText, { color: themeStyles.accentColor }]}>
+                  Load more
+                </Text>
+              </TouchableOpacity>
+            ) : null
+          }
         />
       )}
     </View>
@@ -2613,7 +3482,7 @@ export default function BibleScreen() {
                   LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
                   if (view === "verses") {
                     setView("chapters");
-                  } else if (view === "favorites") {
+                  } else if (view === "favorites" || view === "plans") {
                     setView("books");
                   } else {
                     setView("books");
@@ -2643,8 +3512,10 @@ export default function BibleScreen() {
                 : view === "chapters"
                   ? selectedBook
                   : view === "favorites"
-                    ? "My Bookmarks"
-                    : `${selectedBook} ${selectedChapter}`}
+                    ? "My Notebook"
+                    : view === "plans"
+                      ? "Reading Plans"
+                      : `${selectedBook} ${selectedChapter}`}
             </Text>
 
             <View style={styles.headerButtons}>
@@ -2683,6 +3554,58 @@ export default function BibleScreen() {
                 </Animated.View>
               )}
 
+              {/* Listen mode (read the chapter aloud) */}
+              {view === "verses" && (
+                <TouchableOpacity
+                  style={[
+                    styles.headerButton,
+                    readAloud.listening && [
+                      styles.activeHeaderButton,
+                      {
+                        backgroundColor: `${themeStyles.accentColor}20`,
+                        borderColor: themeStyles.accentColor,
+                      },
+                    ],
+                  ]}
+                  onPress={() =>
+                    readAloud.listening
+                      ? readAloud.close()
+                      : readAloud.play(currentVerseRef.current)
+                  }
+                  accessibilityLabel="Listen to this chapter"
+                >
+                  <Feather
+                    name="headphones"
+                    size={22}
+                    color={readAloud.listening ? themeStyles.accentColor : themeStyles.textColor}
+                  />
+                </TouchableOpacity>
+              )}
+
+              {/* Parallel translations toggle (long press to pick versions) */}
+              {view === "verses" && (
+                <TouchableOpacity
+                  style={[
+                    styles.headerButton,
+                    parallelMode && [
+                      styles.activeHeaderButton,
+                      {
+                        backgroundColor: `${themeStyles.accentColor}20`,
+                        borderColor: themeStyles.accentColor,
+                      },
+                    ],
+                  ]}
+                  onPress={toggleParallelMode}
+                  onLongPress={() => setShowParallelSelector(true)}
+                >
+                  <Feather
+                    name="columns"
+                    size={22}
+                    color={parallelMode ? themeStyles.accentColor : themeStyles.textColor}
+                  />
+                </TouchableOpacity>
+              )}
+
               {/* Favorites Button - Show in all views except favorites view */}
               {view !== "favorites" && (
                 <TouchableOpacity
@@ -2722,6 +3645,43 @@ export default function BibleScreen() {
         {/* Render Modals */}
         {renderModals()}
 
+        {/* Shareable verse image */}
+        {cardPassage && (
+          <VerseCardModal
+            visible
+            onClose={() => setCardPassage(null)}
+            text={cardPassage.text}
+            reference={cardPassage.reference}
+            versionLabel={getVersionLabel(selectedVersion)}
+            bookColors={{
+              paper: getBookColor(cardPassage.book, "paper"),
+              sepia: getBookColor(cardPassage.book, "sepia"),
+              night: getBookColor(cardPassage.book, "night"),
+            }}
+            themeStyles={themeStyles}
+            night={readingTheme === "night"}
+            showFeedback={showFeedback}
+          />
+        )}
+
+        {/* Parallel passages and quotations for a verse */}
+        {crossReferenceVerse && selectedBook && selectedChapter && (
+          <CrossReferenceSheet
+            visible
+            onClose={() => setCrossReferenceVerse(null)}
+            reference={formatPassage({
+              book: selectedBook,
+              startChapter: parseInt(selectedChapter),
+              startVerse: parseInt(crossReferenceVerse),
+            })}
+            crossReferences={verseCrossReferences[crossReferenceVerse] ?? []}
+            versionTable={selectedVersion}
+            themeStyles={themeStyles}
+            night={readingTheme === "night"}
+            onOpenPassage={openCrossReference}
+          />
+        )}
+
         {/* Search Bar (only visible in books view) */}
         {view === "books" && (
           <View
@@ -2751,137 +3711,303 @@ export default function BibleScreen() {
               onSubmitEditing={searchBible}
             />
             {searchText.length > 0 && (
+              <TouchableOpacity style={styles.clearButton} onPress={clearSearch}>
+                <Feather name="x" size={20} color={themeStyles.textColor} />
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {/* Notebook Header with Grouping and Filter Options */}
+        {view === "favorites" && (
+          <View
+            style={[
+              styles.favoritesFilterContainer,
+              {
+                backgroundColor: themeStyles.cardColor,
+                borderColor: themeStyles.borderColor,
+              },
+            ]}
+          >
+            <View style={styles.notebookFilterRow}>
+              <Text style={[styles.favoritesFilterLabel, { color: themeStyles.textColor }]}>
+                Group by:
+              </Text>
+              <View style={styles.favoritesFilterButtons}>
+                {NOTEBOOK_GROUPINGS.map(({ key, label }) => (
+                  <TouchableOpacity
+                    key={key}
+                    style={[
+                      styles.favoritesFilterButton,
+                      favoriteGrouping === key && [
+                        styles.activeFavoritesFilterButton,
+                        { backgroundColor: `${themeStyles.favoriteColor}20` },
+                      ],
+                    ]}
+                    onPress={() => setFavoriteGrouping(key)}
+                  >
+                    <Text
+                      style={[
+                        styles.favoritesFilterButtonText,
+                        {
+                          color:
+                            favoriteGrouping === key
+                              ? themeStyles.favoriteColor
+                              : themeStyles.textColor,
+                        },
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {/* Filter by highlight color */}
+            <View style={styles.notebookFilterRow}>
+              {HIGHLIGHT_COLORS.map((color) => (
+                <TouchableOpacity
+                  key={color.value}
+                  style={[
+                    styles.colorSwatch,
+                    styles.notebookColorFilter,
+                    { backgroundColor: color.value },
+                    notebookFilters.color === color.value && {
+                      borderColor: themeStyles.textColor,
+                    },
+                  ]}
+                  onPress={() =>
+                    setNotebookFilters((prev) => ({
+                      ...prev,
+                      color: prev.color === color.value ? null : color.value,
+                    }))
+                  }
+                  accessibilityLabel={`Show ${color.name.toLowerCase()} highlights`}
+                />
+              ))}
+            </View>
+
+            {/* Filter by tag */}
+            {notebookTags.length > 0 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {notebookTags.map((tag) => (
+                  <TouchableOpacity
+                    key={tag}
+                    style={[
+                      styles.tagChip,
+                      {
+                        backgroundColor:
+                          notebookFilters.tag === tag
+                            ? themeStyles.accentColor
+                            : `${themeStyles.accentColor}15`,
+                      },
+                    ]}
+                    onPress={() =>
+                      setNotebookFilters((prev) => ({
+                        ...prev,
+                        tag: prev.tag === tag ? null : tag,
+                      }))
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.tagChipText,
+                        {
+                          color: notebookFilters.tag === tag ? "#FFFFFF" : themeStyles.accentColor,
+                        },
+                      ]}
+                    >
+                      #{tag}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        )}
+
+        <Animated.ScrollView
+          ref={scrollViewRef}
+          contentContainerStyle={styles.scrollContent}
+          scrollEventThrottle={16}
+          onScroll={Animated.event([{ nativeEvent: { contentOffset: { y: scrollY } } }], {
+            useNativeDriver: false,
+            listener: handleScroll,
+          })}
+          showsVerticalScrollIndicator={false}
+          style={{ opacity: fadeAnim }}
+        >
+          {/* Search Results */}
+          {activeSearch !== null && view === "books" && renderSearchResults()}
+
+          {/* FAVORITES VIEW */}
+          {view === "favorites" && renderFavoritesView()}
+
+          {/* READING PLANS VIEW */}
+          {view === "plans" && (
+            <ReadingPlansView
+              readingPlans={readingPlans}
+              themeStyles={themeStyles}
+              headingSize={fontSizeStyles.headingSize}
+              night={readingTheme === "night"}
+              onOpenReference={openPlanReference}
+              showFeedback={showFeedback}
+            />
+          )}
+
+          {/* BOOKS VIEW */}
+          {view === "books" && activeSearch === null && renderBooksView()}
+
+          {/* CHAPTERS VIEW */}
+          {view === "chapters" && renderChaptersView()}
+
+          {/* VERSES VIEW */}
+          {view === "verses" && renderVersesView()}
+        </Animated.ScrollView>
+
+        {/* Listen mode player */}
+        {view === "verses" && readAloud.listening && (
+          <View
+            style={[
+              styles.selectionBar,
+              {
+                backgroundColor: themeStyles.cardColor,
+                borderColor: themeStyles.borderColor,
+                shadowColor: themeStyles.shadowColor,
+              },
+            ]}
+          >
+            <View style={styles.selectionBarHeader}>
+              <Text style={[styles.selectionBarTitle, { color: themeStyles.textColor }]}>
+                {selectedBook} {selectedChapter}
+                {readAloud.currentVerse ? `:${readAloud.currentVerse}` : ""}
+              </Text>
+              <TouchableOpacity onPress={readAloud.close} accessibilityLabel="Stop listening">
+                <Feather name="x" size={20} color={themeStyles.textColor} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.playerControls}>
+              <TouchableOpacity
+                style={[styles.playerChip, { backgroundColor: `${themeStyles.accentColor}15` }]}
+                onPress={() => readAloud.setRate(cycleOption(SPEECH_RATES, readAloud.rate))}
+                accessibilityLabel="Reading speed"
+              >
+                <Text style={[styles.playerChipText, { color: themeStyles.accentColor }]}>
+                  {readAloud.rate}x
+                </Text>
+              </TouchableOpacity>
+
               <TouchableOpacity
-                style={styles.clearButton}
-                onPress={() => {
-                  setSearchText("");
-                  setSearchResults([]);
-                }}
+                onPress={() => readAloud.skip(-1)}
+                accessibilityLabel="Previous verse"
               >
-                <Feather name="x" size={20} color={themeStyles.textColor} />
+                <Feather name="skip-back" size={24} color={themeStyles.textColor} />
               </TouchableOpacity>
-            )}
+              <TouchableOpacity
+                style={[styles.playButton, { backgroundColor: themeStyles.accentColor }]}
+                onPress={() =>
+                  readAloud.playing
+                    ? readAloud.pause()
+                    : readAloud.play(readAloud.currentVerse ?? currentVerseRef.current)
+                }
+                accessibilityLabel={readAloud.playing ? "Pause" : "Play"}
+              >
+                <Feather name={readAloud.playing ? "pause" : "play"} size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => readAloud.skip(1)} accessibilityLabel="Next verse">
+                <Feather name="skip-forward" size={24} color={themeStyles.textColor} />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[
+                  styles.playerChip,
+                  {
+                    backgroundColor: readAloud.sleepEndsAt
+                      ? themeStyles.accentColor
+                      : `${themeStyles.accentColor}15`,
+                  },
+                ]}
+                onPress={() =>
+                  readAloud.setSleepTimer(cycleOption(SLEEP_TIMER_OPTIONS, readAloud.sleepMinutes))
+                }
+                accessibilityLabel="Sleep timer"
+              >
+                <Feather
+                  name="moon"
+                  size={14}
+                  color={readAloud.sleepEndsAt ? "#FFFFFF" : themeStyles.accentColor}
+                />
+                {readAloud.sleepEndsAt && (
+                  <Text style={[styles.playerChipText, { color: "#FFFFFF", marginLeft: 4 }]}>
+                    {Math.max(1, Math.ceil((readAloud.sleepEndsAt - Date.now()) / 60000))}m
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
           </View>
         )}
 
-        {/* Favorites View Header with Filter Options */}
-        {view === "favorites" && (
+        {/* Selected verses: highlight, tag or write a note */}
+        {view === "verses" && verseSelection && (
           <View
             style={[
-              styles.favoritesFilterContainer,
+              styles.selectionBar,
+              readAloud.listening && styles.raisedSelectionBar,
               {
                 backgroundColor: themeStyles.cardColor,
                 borderColor: themeStyles.borderColor,
+                shadowColor: themeStyles.shadowColor,
               },
             ]}
           >
-            <Text style={[styles.favoritesFilterLabel, { color: themeStyles.textColor }]}>
-              Group by:
-            </Text>
-            <View style={styles.favoritesFilterButtons}>
-              <TouchableOpacity
-                style={[
-                  styles.favoritesFilterButton,
-                  favoriteGrouping === "book" && [
-                    styles.activeFavoritesFilterButton,
-                    { backgroundColor: `${themeStyles.favoriteColor}20` },
-                  ],
-                ]}
-                onPress={() => setFavoriteGrouping("book")}
-              >
-                <Text
-                  style={[
-                    styles.favoritesFilterButtonText,
-                    {
-                      color:
-                        favoriteGrouping === "book"
-                          ? themeStyles.favoriteColor
-                          : themeStyles.textColor,
-                    },
-                  ]}
-                >
-                  Book
-                </Text>
+            <View style={styles.selectionBarHeader}>
+              <Text style={[styles.selectionBarTitle, { color: themeStyles.textColor }]}>
+                {formatAnnotationReference({
+                  book: selectedBook!,
+                  chapter: parseInt(selectedChapter!),
+                  start_verse: verseSelection.start,
+                  end_verse: verseSelection.end,
+                })}
+              </Text>
+              <TouchableOpacity onPress={() => setVerseSelection(null)}>
+                <Feather name="x" size={20} color={themeStyles.textColor} />
               </TouchableOpacity>
-
+            </View>
+            <View style={styles.colorSwatchRow}>
+              {HIGHLIGHT_COLORS.map((color) => (
+                <TouchableOpacity
+                  key={color.value}
+                  style={[styles.colorSwatch, { backgroundColor: color.value }]}
+                  onPress={() => highlightSelection(color.value)}
+                  accessibilityLabel={`${color.name} highlight`}
+                />
+              ))}
               <TouchableOpacity
                 style={[
-                  styles.favoritesFilterButton,
-                  favoriteGrouping === "date" && [
-                    styles.activeFavoritesFilterButton,
-                    { backgroundColor: `${themeStyles.favoriteColor}20` },
-                  ],
+                  styles.selectionNoteButton,
+                  { backgroundColor: `${themeStyles.accentColor}15` },
                 ]}
-                onPress={() => setFavoriteGrouping("date")}
+                onPress={annotateSelection}
               >
-                <Text
-                  style={[
-                    styles.favoritesFilterButtonText,
-                    {
-                      color:
-                        favoriteGrouping === "date"
-                          ? themeStyles.favoriteColor
-                          : themeStyles.textColor,
-                    },
-                  ]}
-                >
-                  Date
+                <Feather name="edit-3" size={16} color={themeStyles.accentColor} />
+                <Text style={[styles.selectionNoteText, { color: themeStyles.accentColor }]}>
+                  Tag & Note
                 </Text>
               </TouchableOpacity>
-
               <TouchableOpacity
                 style={[
-                  styles.favoritesFilterButton,
-                  favoriteGrouping === "none" && [
-                    styles.activeFavoritesFilterButton,
-                    { backgroundColor: `${themeStyles.favoriteColor}20` },
-                  ],
+                  styles.selectionNoteButton,
+                  { backgroundColor: `${themeStyles.accentColor}15`, marginLeft: 8 },
                 ]}
-                onPress={() => setFavoriteGrouping("none")}
+                onPress={createSelectionImage}
+                accessibilityLabel="Create image"
               >
-                <Text
-                  style={[
-                    styles.favoritesFilterButtonText,
-                    {
-                      color:
-                        favoriteGrouping === "none"
-                          ? themeStyles.favoriteColor
-                          : themeStyles.textColor,
-                    },
-                  ]}
-                >
-                  None
-                </Text>
+                <Feather name="image" size={16} color={themeStyles.accentColor} />
               </TouchableOpacity>
             </View>
           </View>
         )}
-
-        <Animated.ScrollView
-          ref={scrollViewRef}
-          contentContainerStyle={styles.scrollContent}
-          scrollEventThrottle={16}
-          onScroll={Animated.event([{ nativeEvent: { contentOffset: { y: scrollY } } }], {
-            useNativeDriver: false,
-          })}
-          showsVerticalScrollIndicator={false}
-          style={{ opacity: fadeAnim }}
-        >
-          {/* Search Results */}
-          {searchResults.length > 0 && view === "books" && renderSearchResults()}
-
-          {/* FAVORITES VIEW */}
-          {view === "favorites" && renderFavoritesView()}
-
-          {/* BOOKS VIEW */}
-          {view === "books" && searchResults.length === 0 && renderBooksView()}
-
-          {/* CHAPTERS VIEW */}
-          {view === "chapters" && renderChaptersView()}
-
-          {/* VERSES VIEW */}
-          {view === "verses" && renderVersesView()}
-        </Animated.ScrollView>
       </View>
     </SafeAreaView>
   );
@@ -3011,6 +4137,98 @@ const styles = StyleSheet.create({
     alignItems: "center",
     position: "relative",
   },
+  parallelOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  parallelOptionText: {
+    fontSize: 15,
+    marginLeft: 12,
+  },
+  parallelHeaderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingBottom: 8,
+    marginBottom: 8,
+    borderBottomWidth: 1,
+  },
+  parallelHeaderText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "700",
+    paddingHorizontal: 6,
+  },
+  parallelNotice: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 10,
+    marginBottom: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  parallelNoticeText: {
+    flex: 1,
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  parallelLoader: {
+    marginVertical: 10,
+  },
+  parallelRow: {
+    flexDirection: "row",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  parallelNumberSpacer: {
+    width: 28,
+    alignItems: "center",
+  },
+  parallelCell: {
+    flex: 1,
+    paddingHorizontal: 6,
+  },
+  parallelMissingText: {
+    fontStyle: "italic",
+  },
+  offlineBadge: {
+    marginTop: 4,
+  },
+  offlineManagerButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 12,
+    marginTop: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  offlineManagerButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  offlinePackRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  offlinePackInfo: {
+    flex: 1,
+  },
+  offlinePackLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  offlinePackDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  offlinePackActions: {
+    flexDirection: "row",
+  },
   searchContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -3049,13 +4267,21 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
   },
   favoritesFilterContainer: {
-    flexDirection: "row",
-    alignItems: "center",
     padding: 10,
     margin: 16,
     borderRadius: 10,
     borderWidth: 1,
   },
+  notebookFilterRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  notebookColorFilter: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+  },
   favoritesFilterLabel: {
     fontSize: 16,
     fontWeight: "bold",
@@ -3083,6 +4309,95 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     marginBottom: 10,
   },
+  planSummarySection: {
+    marginBottom: 16,
+  },
+  planSummaryCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 10,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  planDayBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 20,
+  },
+  planDayBannerText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  planDayBannerTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  planDayBannerSubtitle: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  planDayBannerButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  searchFilters: {
+    marginBottom: 12,
+  },
+  searchFiltersRow: {
+    marginTop: 8,
+  },
+  searchChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+  },
+  searchChipIcon: {
+    marginRight: 4,
+  },
+  searchChipText: {
+    fontSize: 13,
+  },
+  searchChipDivider: {
+    width: 1,
+    marginRight: 8,
+    marginVertical: 4,
+  },
+  searchHighlight: {
+    fontWeight: "700",
+  },
+  searchEmptyText: {
+    textAlign: "center",
+    opacity: 0.7,
+    marginVertical: 24,
+  },
+  searchLoadMoreButton: {
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    marginVertical: 12,
+  },
+  searchLoadMoreText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
   searchResultsList: {
     paddingBottom: 10,
   },
@@ -3467,6 +4782,14 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     marginBottom: 16,
   },
+  annotatedVerseRow: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "transparent",
+    marginHorizontal: -6,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
   verseNumberCircle: {
     width: 28,
     height: 28,
@@ -3505,6 +4828,119 @@ const styles = StyleSheet.create({
     minHeight: 120,
     textAlignVertical: "top",
   },
+  longNoteInput: {
+    minHeight: 180,
+    maxHeight: 320,
+  },
+  colorSwatchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    marginVertical: 12,
+  },
+  colorSwatch: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    marginRight: 10,
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  noColorSwatch: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  tagChipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 6,
+  },
+  tagChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginRight: 6,
+    marginBottom: 6,
+    overflow: "hidden",
+  },
+  tagChipText: {
+    fontSize: 13,
+    fontWeight: "500",
+    marginRight: 4,
+  },
+  tagInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  selectionBar: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    bottom: 24,
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 14,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  raisedSelectionBar: {
+    bottom: 150,
+  },
+  playerControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  playButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  playerChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    minWidth: 52,
+    justifyContent: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  playerChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  selectionBarHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  selectionBarTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  selectionNoteButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 15,
+  },
+  selectionNoteText: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 6,
+  },
   modalButtons: {
     flexDirection: "row",
     justifyContent: "space-between",
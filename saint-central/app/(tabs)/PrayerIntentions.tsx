@@ -22,9 +22,30 @@ import { Feather } from "@expo/vector-icons";
 import { supabase } from "../../supabaseClient";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { LinearGradient } from "expo-linear-gradient";
+import { router } from "expo-router";
 import Toast from "react-native-toast-message";
 import { useNavigation } from "@react-navigation/native";
 import * as Haptics from "expo-haptics";
+import PrayedButton from "@/components/prayer/PrayedButton";
+import PrayerListModal from "@/components/prayer/PrayerListModal";
+import { useIntentionPrayers } from "@/hooks/useIntentionPrayers";
+import IntentionTimelineModal, { TimelineIntention } from "@/components/prayer/IntentionTimelineModal";
+import AnsweredPrayersView from "@/components/prayer/AnsweredPrayersView";
+import IntentionReminderModal from "@/components/prayer/IntentionReminderModal";
+import { useIntentionReminders } from "@/hooks/useIntentionReminders";
+import { ReminderSchedule } from "@/utils/prayer/intentionReminders";
+import { IntentionLifecycleFields } from "@/hooks/useIntentionTimeline";
+import { IntentionStatus } from "@/types/prayer";
+import { getIntentionStatus } from "@/utils/prayer/intentionLifecycle";
+import { useIntentionSync } from "@/hooks/useIntentionSync";
+import {
+  ReplayResult,
+  applyPendingMutations,
+  loadMutationQueue,
+  newIntentionId,
+} from "@/utils/prayer/intentionSync";
+import { usePrayerTeamRequests } from "@/hooks/usePrayerTeam";
+import { PRAYER_TEAM_VISIBILITY, describePrayerTeamStatus } from "@/utils/prayer/prayerTeam";
 
 // Interfaces
 export interface PrayerIntention {
@@ -38,7 +59,18 @@ export interface PrayerIntention {
   selected_groups?: string[];
   selected_friends?: string[];
   completed: boolean;
+  // When it was last marked completed, for the statistics screen
+  completed_at?: string | null;
   favorite: boolean;
+  // Active, updated, answered or closed; completed once answered or closed
+  status?: IntentionStatus;
+  answered_at?: string | null;
+  testimony?: string | null;
+  testimony_post_id?: number | null;
+  // The church whose prayer team receives a "Church Prayer Team" request
+  church_id?: number | null;
+  // Whether the author is hidden from the prayer team
+  anonymous?: boolean;
 }
 
 export interface Group {
@@ -67,9 +99,10 @@ export type IntentionVisibility =
   | "Friends"
   | "Friends & Groups"
   | "Certain Friends"
-  | "Certain Groups";
+  | "Certain Groups"
+  | "Church Prayer Team";
 
-export type IntentionsTabView = "all" | "active" | "completed";
+export type IntentionsTabView = "all" | "active" | "completed" | "answered";
 export type IntentionsSorting = "newest" | "oldest" | "alphabetical";
 export type IntentionsFilter = IntentionType | "all";
 
@@ -327,6 +360,36 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
   const [showIntentionFilterModal, setShowIntentionFilterModal] = useState<boolean>(false);
   const [offlineMode, setOfflineMode] = useState<boolean>(false);
   const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [reminderIntention, setReminderIntention] = useState<PrayerIntention | null>(null);
+  const {
+    getReminder,
+    saveReminder,
+    removeReminder,
+    refresh: refreshReminders,
+  } = useIntentionReminders();
+  // Changes are queued on the device and replayed when online
+  const { pending: pendingChanges, commit: commitChange } = useIntentionSync(
+    (result: ReplayResult) => handleSynced(result),
+  );
+  // Confidential requests sent to a church prayer team
+  const {
+    churches: prayerTeamChurches,
+    getStatus: getPrayerTeamStatus,
+    refresh: refreshPrayerTeam,
+  } = usePrayerTeamRequests(
+    intentions
+      .filter((i) => i.visibility === PRAYER_TEAM_VISIBILITY && i.user_id === currentUserId)
+      .map((i) => i.id),
+  );
+  const [timelineIntention, setTimelineIntention] = useState<
+    (TimelineIntention & { user_id: string }) | null
+  >(null);
+  const [prayerListIntention, setPrayerListIntention] = useState<PrayerIntention | null>(null);
+  // Intentions saved only on this device can't be prayed for
+  const { getCount: getPrayerCount, togglePrayed, loadPrayerList } = useIntentionPrayers(
+    offlineMode ? [] : intentions.map(({ id }) => id),
+  );
 
   // New intention form state - all in one form now
   const [newIntentionTitle, setNewIntentionTitle] = useState<string>("");
@@ -339,6 +402,10 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
   const [newIntentionFavorite, setNewIntentionFavorite] = useState<boolean>(false);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [newIntentionFriends, setNewIntentionFriends] = useState<string[]>([]);
+  const [newIntentionChurchId, setNewIntentionChurchId] = useState<number | null>(null);
+  const [newIntentionAnonymous, setNewIntentionAnonymous] = useState<boolean>(false);
+  // The only church, when the user belongs to just one
+  const selectedChurchId = newIntentionChurchId ?? prayerTeamChurches[0]?.id ?? null;
   const [loadingFriends, setLoadingFriends] = useState(false);
   const [userFriends, setUserFriends] = useState<Friend[]>([]);
 
@@ -630,6 +697,12 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
   const loadIntentions = async () => {
     setIntentionsLoading(true);
     try {
+      // The session saved on the device identifies the user even offline
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      setCurrentUserId(session?.user.id ?? null);
+
       const {
         data: { user },
         error: userError,
@@ -676,13 +749,16 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
       const userGroupIds = userGroups ? userGroups.map((g) => g.group_id) : [];
 
       // Fetch all intentions
-      const { data, error } = await supabase
+      const { data: serverData, error } = await supabase
         .from("intentions")
         .select("*")
         .order("created_at", { ascending: false });
       
       if (error) throw error;
 
+      // Keep changes made on this device that haven't reached the server yet
+      const data = applyPendingMutations(serverData || [], await loadMutationQueue());
+
       // Filter intentions based on visibility
       const filteredData = await Promise.all(
         data.map(async (item) => {
@@ -728,10 +804,18 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
           selected_groups: item.selected_groups || [],
           selected_friends: item.selected_friends || [],
           completed: item.completed || false,
+          completed_at: item.completed_at || null,
           favorite: item.favorite || false,
+          status: getIntentionStatus({ status: item.status, completed: !!item.completed }),
+          answered_at: item.answered_at || null,
+          testimony: item.testimony || null,
+          testimony_post_id: item.testimony_post_id || null,
+          church_id: item.church_id ?? null,
+          anonymous: !!item.anonymous,
         }));
 
       setIntentions(formattedIntentions);
+      setOfflineMode(false);
 
       // Also save to AsyncStorage as backup
       await AsyncStorage.setItem("prayerIntentions", JSON.stringify(formattedIntentions));
@@ -745,6 +829,22 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
     }
   };
 
+  // Reload once queued changes reach the server
+  const handleSynced = (result: ReplayResult) => {
+    loadIntentions();
+    refreshReminders();
+    refreshPrayerTeam();
+    if (result.dropped.length > 0) {
+      showFeedback(
+        result.dropped.length === 1
+          ? "One change to your intentions couldn't be saved and was discarded."
+          : `${result.dropped.length} changes to your intentions couldn't be saved and were discarded.`,
+      );
+    } else if (result.conflicts.length > 0) {
+      showFeedback("Some intentions were also changed on another device. The newest edits were kept.");
+    }
+  };
+
   // Refresh intentions list
   const handleRefresh = () => {
     setRefreshing(true);
@@ -792,20 +892,20 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
         setIsSubmitting(false);
         return;
       }
+      if (newIntentionVisibility === PRAYER_TEAM_VISIBILITY && !selectedChurchId) {
+        showFeedback("Choose the church whose prayer team should receive this");
+        setIsSubmitting(false);
+        return;
+      }
 
+      // Read from the session saved on the device, so this works offline
       const {
-        data: { user },
-        error: userError,
-      } = await supabase.auth.getUser();
-
-      if (userError || !user) {
-        setOfflineMode(true);
-        showFeedback("You're in offline mode. This will be saved locally.");
-      }
+        data: { session },
+      } = await supabase.auth.getSession();
 
       // Prepare data for Supabase
       const intentionData = {
-        user_id: user?.id || "offline-user",
+        user_id: session?.user.id ?? "",
         title: newIntentionTitle,
         description: newIntentionDescription,
         type: newIntentionType,
@@ -813,14 +913,17 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
         visibility: newIntentionVisibility,
         selected_groups: newIntentionVisibility === "Certain Groups" ? newIntentionGroups : [],
         selected_friends: newIntentionVisibility === "Certain Friends" ? newIntentionFriends : [],
+        church_id: newIntentionVisibility === PRAYER_TEAM_VISIBILITY ? selectedChurchId : null,
+        anonymous: newIntentionVisibility === PRAYER_TEAM_VISIBILITY && newIntentionAnonymous,
         completed: newIntentionComplete,
         favorite: newIntentionFavorite,
       };
 
-      // Create new intention object for local state
+      // Create new intention object for local state. Its id is made here so
+      // sending it again after a dropped connection can't create it twice.
       const newIntention: PrayerIntention = {
         ...intentionData,
-        id: Math.random().toString(36).substr(2, 9), // Temporary ID
+        id: newIntentionId(),
         created_at: new Date(),
       };
 
@@ -828,30 +931,14 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
       const updatedIntentions = [newIntention, ...intentions];
       setIntentions(updatedIntentions);
 
-      // If online, save to Supabase
-      if (!offlineMode && user) {
-        const { data, error } = await supabase.from("intentions").insert([intentionData]).select();
-
-        if (error) throw error;
-
-        if (data && data.length > 0) {
-          // Update the local state with the returned ID
-          setIntentions((prev) => {
-            const updated = [...prev];
-            const index = updated.findIndex((i) => i.id === newIntention.id);
-            if (index !== -1) {
-              updated[index] = {
-                ...updated[index],
-                id: data[0].id,
-              };
-            }
-            return updated;
-          });
-        }
-      }
-
-      // Save to AsyncStorage as backup
+      // Save to AsyncStorage, then send to Supabase when online
       await saveIntentionsToStorage(updatedIntentions);
+      await commitChange({
+        kind: "create",
+        intentionId: newIntention.id,
+        fields: intentionData,
+        editedAt: intentionData.created_at,
+      });
 
       // Provide haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -877,6 +964,8 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
     setNewIntentionVisibility("Just Me");
     setNewIntentionGroups([]);
     setNewIntentionFriends([]);
+    setNewIntentionChurchId(null);
+    setNewIntentionAnonymous(false);
     setNewIntentionComplete(false);
     setNewIntentionFavorite(false);
     setIsSubmitting(false);
@@ -890,8 +979,18 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
       if (!intention) return;
 
       // Update state first for responsive UI
+      const completedAt = intention.completed ? null : new Date().toISOString();
       const updatedIntentions = intentions.map((i) =>
-        i.id === id ? { ...i, completed: !i.completed } : i,
+        i.id === id
+          ? {
+              ...i,
+              completed: !i.completed,
+              completed_at: completedAt,
+              status: (i.completed ? "active" : "closed") as IntentionStatus,
+              answered_at: null,
+              testimony: null,
+            }
+          : i,
       );
       setIntentions(updatedIntentions);
 
@@ -899,30 +998,77 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
       animateIntentionFavorite();
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-      if (offlineMode) {
-        // Save to AsyncStorage
-        await saveIntentionsToStorage(updatedIntentions);
-        showFeedback(
-          `Intention marked as ${!intention.completed ? "completed" : "active"} (offline mode)`,
-        );
-        return;
-      }
-
-      // If online, update in Supabase
-      const { error } = await supabase
-        .from("intentions")
-        .update({ completed: !intention.completed })
-        .eq("id", id);
-
-      if (error) throw error;
+      // Save to AsyncStorage, then close or reopen it in Supabase when online
+      await saveIntentionsToStorage(updatedIntentions);
+      await commitChange({
+        kind: "update",
+        intentionId: id,
+        fields: {
+          status: intention.completed ? "active" : "closed",
+          completed: !intention.completed,
+          completed_at: completedAt,
+          answered_at: null,
+          testimony: null,
+        },
+        base: {
+          status: getIntentionStatus(intention),
+          completed: intention.completed,
+          completed_at: intention.completed_at ?? null,
+          answered_at: intention.answered_at ?? null,
+          testimony: intention.testimony ?? null,
+        },
+        editedAt: new Date().toISOString(),
+      });
 
-      showFeedback(`Intention marked as ${!intention.completed ? "completed" : "active"}`);
+      showFeedback(
+        `Intention marked as ${!intention.completed ? "completed" : "active"}${
+          offlineMode ? " (offline mode)" : ""
+        }`,
+      );
     } catch (error) {
       console.error("Error toggling intention completed status:", error);
       showFeedback("Failed to update intention status");
     }
   };
 
+  // Open an intention's timeline of updates and its answer
+  const openTimeline = (intention: PrayerIntention) => {
+    setTimelineIntention({
+      ...intention,
+      status: getIntentionStatus(intention),
+    });
+  };
+
+  // Keep the list and the open timeline in step with lifecycle actions
+  const handleLifecycleChanged = (id: string, fields: Partial<IntentionLifecycleFields>) => {
+    setIntentions((prev) => prev.map((i) => (i.id === id ? { ...i, ...fields } : i)));
+    setTimelineIntention((prev) => (prev && prev.id === id ? { ...prev, ...fields } : prev));
+    if (fields.status) refreshReminders();
+  };
+
+  // Set or change the reminder to pray for an intention
+  const handleSaveReminder = async (schedule: ReminderSchedule) => {
+    if (!reminderIntention) return;
+    try {
+      await saveReminder(reminderIntention, schedule);
+      showFeedback("Reminder set");
+    } catch (error) {
+      console.error("Error saving reminder:", error);
+      showFeedback("Failed to set the reminder");
+    }
+  };
+
+  const handleRemoveReminder = async () => {
+    if (!reminderIntention) return;
+    try {
+      await removeReminder(reminderIntention.id);
+      showFeedback("Reminder turned off");
+    } catch (error) {
+      console.error("Error removing reminder:", error);
+      showFeedback("Failed to turn off the reminder");
+    }
+  };
+
   // Toggle intention favorite status
   const toggleIntentionFavorite = async (id: string) => {
     try {
@@ -940,30 +1086,38 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
       animateIntentionFavorite();
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-      if (offlineMode) {
-        // Save to AsyncStorage
-        await saveIntentionsToStorage(updatedIntentions);
-        showFeedback(
-          `Intention ${!intention.favorite ? "favorited" : "unfavorited"} (offline mode)`,
-        );
-        return;
-      }
-
-      // If online, update in Supabase
-      const { error } = await supabase
-        .from("intentions")
-        .update({ favorite: !intention.favorite })
-        .eq("id", id);
-
-      if (error) throw error;
-
-      showFeedback(`Intention ${!intention.favorite ? "favorited" : "unfavorited"}`);
+      // Save to AsyncStorage, then update in Supabase when online
+      await saveIntentionsToStorage(updatedIntentions);
+      await commitChange({
+        kind: "update",
+        intentionId: id,
+        fields: { favorite: !intention.favorite },
+        base: { favorite: intention.favorite },
+        editedAt: new Date().toISOString(),
+      });
+
+      showFeedback(
+        `Intention ${!intention.favorite ? "favorited" : "unfavorited"}${
+          offlineMode ? " (offline mode)" : ""
+        }`,
+      );
     } catch (error) {
       console.error("Error toggling intention favorite status:", error);
       showFeedback("Failed to update intention favorite status");
     }
   };
 
+  // Record that the user prayed for someone's intention today, or take it back
+  const handlePrayIntention = async (id: string) => {
+    try {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      await togglePrayed(id);
+    } catch (error) {
+      console.error("Error recording prayer:", error);
+      showFeedback("Failed to record your prayer");
+    }
+  };
+
   // Delete intention
   const deleteIntention = async (id: string) => {
     try {
@@ -984,19 +1138,17 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
               // Haptic feedback
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
-              if (offlineMode) {
-                // Save to AsyncStorage
-                await saveIntentionsToStorage(updatedIntentions);
-                showFeedback("Intention deleted (offline mode)");
-                return;
-              }
-
-              // If online, delete from Supabase
-              const { error } = await supabase.from("intentions").delete().eq("id", id);
-
-              if (error) throw error;
-
-              showFeedback("Intention deleted successfully");
+              // Save to AsyncStorage, then delete from Supabase when online
+              await saveIntentionsToStorage(updatedIntentions);
+              await commitChange({
+                kind: "delete",
+                intentionId: id,
+                editedAt: new Date().toISOString(),
+              });
+
+              showFeedback(
+                offlineMode ? "Intention deleted (offline mode)" : "Intention deleted successfully",
+              );
             },
           },
         ],
@@ -1250,6 +1402,7 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
                     "Friends & Groups",
                     "Certain Friends",
                     "Certain Groups",
+                    ...(prayerTeamChurches.length > 0 ? [PRAYER_TEAM_VISIBILITY] : []),
                   ] as IntentionVisibility[]
                 ).map((visibility) => (
                   <TouchableOpacity
@@ -1289,8 +1442,8 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
                               ? "users"
                               : visibility === "Friends & Groups"
                                 ? "globe"
-                                : visibility === "Certain Friends"
-                                  ? "users"
+                                : visibility === PRAYER_TEAM_VISIBILITY
+                                  ? "shield"
                                   : "users"
                         }
                         size={20}
@@ -1332,6 +1485,8 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
                         {visibility === "Certain Friends" &&
                           "Select specific friends to share with"}
                         {visibility === "Certain Groups" && "Select specific groups to share with"}
+                        {visibility === PRAYER_TEAM_VISIBILITY &&
+                          "Only your church's prayer team will see this"}
                       </Text>
                     </View>
                     {newIntentionVisibility === visibility && (
@@ -1430,6 +1585,87 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
                 </View>
               )}
 
+              {/* Church and anonymity (show when Church Prayer Team is selected) */}
+              {newIntentionVisibility === PRAYER_TEAM_VISIBILITY && (
+                <View style={styles.groupSelectionContainer}>
+                  <Text
+                    style={[
+                      styles.formSectionTitle,
+                      { color: themeStyles.textColor, marginTop: 16 },
+                    ]}
+                  >
+                    Prayer Team
+                  </Text>
+                  <View style={styles.groupGrid}>
+                    {prayerTeamChurches.map((church) => (
+                      <TouchableOpacity
+                        key={church.id}
+                        style={[
+                          styles.groupOption,
+                          selectedChurchId === church.id && [
+                            styles.activeGroupOption,
+                            {
+                              backgroundColor: `${themeStyles.accentColor}20`,
+                              borderColor: themeStyles.accentColor,
+                            },
+                          ],
+                          {
+                            backgroundColor: themeStyles.cardColor,
+                            borderColor: themeStyles.borderColor,
+                          },
+                        ]}
+                        onPress={() => setNewIntentionChurchId(church.id)}
+                      >
+                        <View
+                          style={[
+                            styles.groupIconContainer,
+                            {
+                              backgroundColor: `${themeStyles.accentColor}20`,
+                            },
+                          ]}
+                        >
+                          <Feather name="shield" size={20} color={themeStyles.accentColor} />
+                        </View>
+                        <Text
+                          style={[
+                            styles.groupText,
+                            {
+                              color:
+                                selectedChurchId === church.id
+                                  ? themeStyles.accentColor
+                                  : themeStyles.textColor,
+                            },
+                          ]}
+                        >
+                          {church.name}
+                        </Text>
+                        {selectedChurchId === church.id && (
+                          <Feather
+                            name="check"
+                            size={18}
+                            color={themeStyles.accentColor}
+                            style={{ marginLeft: "auto" }}
+                          />
+                        )}
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <TouchableOpacity
+                    style={styles.optionRow}
+                    onPress={() => setNewIntentionAnonymous(!newIntentionAnonymous)}
+                  >
+                    <Text style={[styles.optionText, { color: themeStyles.textColor }]}>
+                      Stay anonymous to the team
+                    </Text>
+                    <Feather
+                      name={newIntentionAnonymous ? "check-circle" : "circle"}
+                      size={24}
+                      color={newIntentionAnonymous ? themeStyles.accentColor : themeStyles.borderColor}
+                    />
+                  </TouchableOpacity>
+                </View>
+              )}
+
               {/* Friend Selection (show when Certain Friends is selected) */}
               {newIntentionVisibility === "Certain Friends" && (
                 <View style={styles.friendSelectionContainer}>
@@ -1818,6 +2054,28 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
             </View>
           </View>
 
+          {/* Today's prayer list */}
+          {!offlineMode && (
+            <TouchableOpacity
+              style={[styles.intentionFilterButton, styles.intentionHeaderButtonSpacing]}
+              onPress={() => router.push("/prayerList")}
+              activeOpacity={0.7}
+            >
+              <Feather name="list" size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
+
+          {/* Prayer team queue, for team members */}
+          {!offlineMode && prayerTeamChurches.some((church) => church.onTeam) && (
+            <TouchableOpacity
+              style={[styles.intentionFilterButton, styles.intentionHeaderButtonSpacing]}
+              onPress={() => router.push("/prayerTeam")}
+              activeOpacity={0.7}
+            >
+              <Feather name="shield" size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
+
           {/* Filter button in header with improved styling */}
           <TouchableOpacity
             style={styles.intentionFilterButton}
@@ -1903,9 +2161,54 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
               Completed
             </Text>
           </TouchableOpacity>
+
+          {!offlineMode && (
+            <TouchableOpacity
+              style={[
+                styles.intentionTab,
+                intentionsTabView === "answered" && [
+                  styles.activeIntentionTab,
+                  { backgroundColor: themeStyles.cardColor },
+                ],
+              ]}
+              onPress={() => setIntentionsTabView("answered")}
+            >
+              <Text
+                style={[
+                  styles.intentionTabText,
+                  {
+                    color: themeStyles.textColor,
+                    opacity: intentionsTabView === "answered" ? 1 : 0.6,
+                  },
+                ]}
+              >
+                Answered
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
-        {intentionsLoading ? (
+        {pendingChanges > 0 && (
+          <View style={styles.pendingChanges}>
+            <Feather name="upload-cloud" size={14} color={themeStyles.textColor} />
+            <Text style={[styles.pendingChangesText, { color: themeStyles.textColor }]}>
+              {pendingChanges === 1
+                ? "1 change waiting to sync"
+                : `${pendingChanges} changes waiting to sync`}
+            </Text>
+          </View>
+        )}
+
+        {intentionsTabView === "answered" && !offlineMode ? (
+          <AnsweredPrayersView
+            userId={currentUserId}
+            onOpen={(prayer) => setTimelineIntention({ ...prayer, status: "answered" })}
+            cardColor={themeStyles.cardColor}
+            borderColor={themeStyles.borderColor}
+            color={themeStyles.accentColor}
+            textColor={themeStyles.textColor}
+          />
+        ) : intentionsLoading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#6A478F" />
             <Text style={[styles.loadingText, { color: themeStyles.textColor }]}>
@@ -2025,7 +2328,12 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
                     />
                   </TouchableOpacity>
 
-                  <View style={styles.intentionTextContent}>
+                  <TouchableOpacity
+                    style={styles.intentionTextContent}
+                    onPress={() => openTimeline(item)}
+                    disabled={offlineMode}
+                    activeOpacity={0.7}
+                  >
                     <Text
                       style={[
                         styles.intentionTitle,
@@ -2048,7 +2356,31 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
                         {item.description}
                       </Text>
                     ) : null}
-                  </View>
+                    {(item.status === "updated" || item.status === "answered") && (
+                      <View style={styles.intentionStatusRow}>
+                        <Feather
+                          name={item.status === "answered" ? "sun" : "message-square"}
+                          size={12}
+                          color={themeStyles.accentColor}
+                        />
+                        <Text
+                          style={[styles.intentionStatusText, { color: themeStyles.accentColor }]}
+                        >
+                          {item.status === "answered" ? "Answered" : "Updated"}
+                        </Text>
+                      </View>
+                    )}
+                    {!!getPrayerTeamStatus(item.id) && (
+                      <View style={styles.intentionStatusRow}>
+                        <Feather name="shield" size={12} color={themeStyles.accentColor} />
+                        <Text
+                          style={[styles.intentionStatusText, { color: themeStyles.accentColor }]}
+                        >
+                          {describePrayerTeamStatus(getPrayerTeamStatus(item.id)!)}
+                        </Text>
+                      </View>
+                    )}
+                  </TouchableOpacity>
                 </View>
 
                 <View style={styles.intentionItemFooter}>
@@ -2068,8 +2400,8 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
                             ? "users"
                             : item.visibility === "Friends & Groups"
                               ? "globe"
-                              : item.visibility === "Certain Friends"
-                                ? "users"
+                              : item.visibility === PRAYER_TEAM_VISIBILITY
+                                ? "shield"
                                 : "users"
                       }
                       size={12}
@@ -2087,6 +2419,38 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
                     </Text>
                   </View>
 
+                  {!offlineMode && (
+                    <PrayedButton
+                      count={getPrayerCount(item.id)}
+                      isAuthor={item.user_id === currentUserId}
+                      onPray={() => handlePrayIntention(item.id)}
+                      onShowList={
+                        item.visibility !== "Just Me"
+                          ? () => setPrayerListIntention(item)
+                          : undefined
+                      }
+                      color={themeStyles.accentColor}
+                      textColor={`${themeStyles.textColor}80`}
+                    />
+                  )}
+
+                  {!offlineMode && !item.completed && (
+                    <TouchableOpacity
+                      style={styles.intentionDeleteButton}
+                      onPress={() => setReminderIntention(item)}
+                    >
+                      <Feather
+                        name="bell"
+                        size={14}
+                        color={
+                          getReminder(item.id)
+                            ? themeStyles.accentColor
+                            : `${themeStyles.textColor}60`
+                        }
+                      />
+                    </TouchableOpacity>
+                  )}
+
                   <TouchableOpacity
                     style={styles.intentionDeleteButton}
                     onPress={() => deleteIntention(item.id)}
@@ -2114,6 +2478,34 @@ const PrayerIntentions: React.FC<IntentionsProps> = ({
         {/* Render Modals */}
         {renderNewIntentionModal()}
         {renderFilterModal()}
+        <PrayerListModal
+          intention={prayerListIntention}
+          loadPrayerList={loadPrayerList}
+          onClose={() => setPrayerListIntention(null)}
+          backgroundColor={themeStyles.cardColor}
+          color={themeStyles.accentColor}
+          textColor={themeStyles.textColor}
+        />
+        <IntentionReminderModal
+          intention={reminderIntention}
+          reminder={reminderIntention ? getReminder(reminderIntention.id) : undefined}
+          onSave={handleSaveReminder}
+          onRemove={handleRemoveReminder}
+          onClose={() => setReminderIntention(null)}
+          backgroundColor={themeStyles.cardColor}
+          color={themeStyles.accentColor}
+          textColor={themeStyles.textColor}
+        />
+        <IntentionTimelineModal
+          intention={timelineIntention}
+          isAuthor={timelineIntention?.user_id === currentUserId}
+          onClose={() => setTimelineIntention(null)}
+          onChanged={handleLifecycleChanged}
+          showFeedback={showFeedback}
+          backgroundColor={themeStyles.cardColor}
+          color={themeStyles.accentColor}
+          textColor={themeStyles.textColor}
+        />
       </View>
     </SafeAreaView>
   );
@@ -2348,6 +2740,17 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: "600",
   },
+  pendingChanges: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    marginBottom: 12,
+    opacity: 0.7,
+  },
+  pendingChangesText: {
+    fontSize: 13,
+  },
 
   // Loading and empty states
   loadingContainer: {
@@ -2453,6 +2856,16 @@ const styles = StyleSheet.create({
   intentionTextContent: {
     flex: 1,
   },
+  intentionStatusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 6,
+  },
+  intentionStatusText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
   intentionTitle: {
     fontSize: 16,
     fontWeight: "600",
@@ -2493,6 +2906,9 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     backgroundColor: "rgba(255, 255, 255, 0.2)",
   },
+  intentionHeaderButtonSpacing: {
+    marginRight: 8,
+  },
 
   // Modal styles
   modalOverlay: {
@@ -0,0 +1,397 @@
+import React, { useMemo } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  Pressable,
+} from "react-native";
+import { router } from "expo-router";
+import { Feather } from "@expo/vector-icons";
+import theme from "../../theme";
+import { useRosary } from "@/hooks/useRosary";
+import {
+  MYSTERY_SETS,
+  MysterySetId,
+  ROSARY_PRAYERS,
+  ROSARY_STEPS,
+  RosaryStep,
+  getMysterySetForDate,
+  getMysteryWeekdays,
+} from "@/utils/prayer/rosary";
+
+const SET_ORDER: MysterySetId[] = ["joyful", "luminous", "sorrowful", "glorious"];
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Decades are announced as e.g. "Third Sorrowful Mystery"
+const ORDINALS = ["First", "Second", "Third", "Fourth", "Fifth"];
+
+// e.g. "Our Father", "Hail Mary 4 of 10"
+const getStepLabel = (step: RosaryStep): string => {
+  const { title } = ROSARY_PRAYERS[step.prayer];
+  return step.bead ? `${title} ${step.bead} of ${step.beadCount}` : title;
+};
+
+export default function RosaryPrayer() {
+  const rosary = useRosary();
+  const { progress, savedProgress, currentStep, completed } = rosary;
+
+  const today = useMemo(() => new Date(), []);
+  const todaysSet = getMysterySetForDate(today);
+
+  const openScripture = (reference: string) => {
+    router.push({ pathname: "/Bible", params: { reference } });
+  };
+
+  // ---------------------
+  // HOME
+  // ---------------------
+  const renderHome = () => (
+    <ScrollView contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <Text style={styles.cardLabel}>{`Today · ${WEEKDAYS[today.getDay()]}`}</Text>
+        <Text style={styles.cardTitle}>{MYSTERY_SETS[todaysSet].title}</Text>
+        {MYSTERY_SETS[todaysSet].mysteries.map((mystery, index) => (
+          <Text key={mystery.title} style={styles.mysteryListItem}>
+            {`${index + 1}. ${mystery.title}`}
+          </Text>
+        ))}
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => rosary.start(todaysSet)}
+          activeOpacity={0.7}
+        >
+          <Feather name="play" size={18} color={theme.textWhite} />
+          <Text style={styles.primaryButtonText}>Pray Today's Rosary</Text>
+        </TouchableOpacity>
+      </View>
+
+      {savedProgress && (
+        <TouchableOpacity style={styles.resumeCard} onPress={rosary.resume} activeOpacity={0.7}>
+          <Feather name="rotate-ccw" size={20} color={theme.tertiary} />
+          <View style={styles.resumeText}>
+            <Text style={styles.resumeTitle}>Resume where you left off</Text>
+            <Text style={styles.resumeSubtitle}>
+              {`${MYSTERY_SETS[savedProgress.mysteries].title} · ${getStepLabel(
+                ROSARY_STEPS[savedProgress.step],
+              )}`}
+            </Text>
+          </View>
+          <Feather name="chevron-right" size={20} color={theme.neutral400} />
+        </TouchableOpacity>
+      )}
+
+      <Text style={styles.sectionTitle}>Choose the Mysteries</Text>
+      {SET_ORDER.map((id) => (
+        <TouchableOpacity
+          key={id}
+          style={styles.setRow}
+          onPress={() => rosary.start(id)}
+          activeOpacity={0.7}
+        >
+          <View>
+            <Text style={styles.setTitle}>{MYSTERY_SETS[id].title}</Text>
+            <Text style={styles.setDays}>
+              {getMysteryWeekdays(id)
+                .map((weekday) => WEEKDAYS[weekday])
+                .join(", ")}
+            </Text>
+          </View>
+          <Feather name="chevron-right" size={20} color={theme.neutral400} />
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  // ---------------------
+  // GUIDED ROSARY
+  // ---------------------
+  const renderBeads = (step: RosaryStep) => {
+    if (!step.beadCount) return null;
+    return (
+      <View style={styles.beadRow}>
+        {Array.from({ length: step.beadCount }, (_, i) => (
+          <View
+            key={i}
+            style={[
+              styles.bead,
+              i < (step.bead ?? 0) && styles.beadPrayed,
+              i === (step.bead ?? 0) - 1 && styles.beadCurrent,
+            ]}
+          />
+        ))}
+      </View>
+    );
+  };
+
+  const renderSession = () => {
+    if (!progress || !currentStep) return null;
+    const set = MYSTERY_SETS[progress.mysteries];
+    const mystery = currentStep.decade ? set.mysteries[currentStep.decade - 1] : null;
+    const prayer = ROSARY_PRAYERS[currentStep.prayer];
+
+    return (
+      <View style={styles.session}>
+        <View style={styles.progressTrack}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${((progress.step + 1) / ROSARY_STEPS.length) * 100}%` },
+            ]}
+          />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {mystery && currentStep.decade && (
+            <View style={styles.card}>
+              <Text style={styles.cardLabel}>
+                {`${ORDINALS[currentStep.decade - 1]} ${set.title.replace(/ies$/, "y")}`}
+              </Text>
+              <Text style={styles.cardTitle}>{mystery.title}</Text>
+              <Text style={styles.fruit}>{`Fruit of the mystery: ${mystery.fruit}`}</Text>
+              {currentStep.prayer === "ourFather" && (
+                <Text style={styles.meditation}>{mystery.meditation}</Text>
+              )}
+              <TouchableOpacity
+                style={styles.scriptureLink}
+                onPress={() => openScripture(mystery.reference)}
+                activeOpacity={0.7}
+              >
+                <Feather name="book-open" size={16} color={theme.tertiary} />
+                <Text style={styles.scriptureLinkText}>{mystery.reference}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <Pressable style={styles.prayerCard} onPress={rosary.advance}>
+            <Text style={styles.prayerTitle}>{getStepLabel(currentStep)}</Text>
+            {currentStep.intention && (
+              <Text style={styles.intention}>{`For ${currentStep.intention}`}</Text>
+            )}
+            <Text style={styles.prayerText}>{prayer.text}</Text>
+            {renderBeads(currentStep)}
+            <Text style={styles.tapHint}>Tap to move to the next bead</Text>
+          </Pressable>
+        </ScrollView>
+
+        <View style={styles.controls}>
+          <TouchableOpacity
+            style={[styles.controlButton, progress.step === 0 && styles.controlDisabled]}
+            onPress={rosary.goBack}
+            disabled={progress.step === 0}
+            activeOpacity={0.7}
+          >
+            <Feather name="chevron-left" size={22} color={theme.neutral50} />
+          </TouchableOpacity>
+          <Text style={styles.controlLabel}>
+            {`${progress.step + 1} of ${ROSARY_STEPS.length}`}
+          </Text>
+          <TouchableOpacity
+            style={[styles.controlButton, styles.controlPrimary]}
+            onPress={rosary.advance}
+            activeOpacity={0.7}
+          >
+            <Feather name="chevron-right" size={22} color={theme.textWhite} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderCompleted = () => (
+    <View style={styles.completed}>
+      <Feather name="check-circle" size={56} color={theme.success} />
+      <Text style={styles.completedTitle}>Rosary Complete</Text>
+      <Text style={styles.completedText}>
+        {progress
+          ? `You prayed the ${MYSTERY_SETS[progress.mysteries].title}. It has been added to your prayer statistics.`
+          : "It has been added to your prayer statistics."}
+      </Text>
+      <TouchableOpacity style={styles.primaryButton} onPress={rosary.close} activeOpacity={0.7}>
+        <Text style={styles.primaryButtonText}>Done</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.scriptureLink}
+        onPress={() => router.push("/statistics")}
+        activeOpacity={0.7}
+      >
+        <Feather name="bar-chart-2" size={16} color={theme.tertiary} />
+        <Text style={styles.scriptureLinkText}>View your statistics</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={progress ? rosary.close : () => router.back()}
+          activeOpacity={0.7}
+        >
+          <Feather name={progress ? "x" : "arrow-left"} size={22} color={theme.neutral50} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>
+          {progress ? MYSTERY_SETS[progress.mysteries].title : "Holy Rosary"}
+        </Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {rosary.loading ? (
+        <ActivityIndicator style={styles.loading} color={theme.tertiary} />
+      ) : completed ? (
+        renderCompleted()
+      ) : progress ? (
+        renderSession()
+      ) : (
+        renderHome()
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.neutral900 },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    paddingTop: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: `${theme.tertiary}33`,
+  },
+  headerButton: { width: 36, height: 36, alignItems: "center", justifyContent: "center" },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "300",
+    color: theme.textWhite,
+    textAlign: "center",
+    letterSpacing: 1,
+  },
+  loading: { marginTop: 48 },
+  content: { padding: 16, paddingBottom: 32 },
+  card: {
+    backgroundColor: theme.neutral800,
+    borderRadius: theme.radiusLarge,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardLabel: {
+    fontSize: 13,
+    color: theme.tertiary,
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  cardTitle: { fontSize: 22, fontWeight: "600", color: theme.textWhite, marginBottom: 8 },
+  mysteryListItem: { fontSize: 15, color: theme.neutral200, marginBottom: 4 },
+  primaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: theme.primary,
+    borderRadius: theme.radiusMedium,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    marginTop: 12,
+    gap: 8,
+  },
+  primaryButtonText: { fontSize: 16, fontWeight: "600", color: theme.textWhite },
+  resumeCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: `${theme.tertiary}22`,
+    borderRadius: theme.radiusLarge,
+    padding: 16,
+    marginBottom: 24,
+  },
+  resumeText: { flex: 1, marginHorizontal: 12 },
+  resumeTitle: { fontSize: 16, fontWeight: "600", color: theme.textWhite },
+  resumeSubtitle: { fontSize: 13, color: theme.neutral300, marginTop: 2 },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "300",
+    color: theme.textWhite,
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  setRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: `${theme.neutral50}14`,
+  },
+  setTitle: { fontSize: 16, color: theme.textWhite },
+  setDays: { fontSize: 13, color: theme.neutral400, marginTop: 2 },
+  session: { flex: 1 },
+  progressTrack: { height: 3, backgroundColor: theme.neutral800 },
+  progressFill: { height: 3, backgroundColor: theme.tertiary },
+  fruit: { fontSize: 14, fontStyle: "italic", color: theme.neutral300, marginBottom: 8 },
+  meditation: { fontSize: 15, lineHeight: 22, color: theme.neutral100, marginBottom: 8 },
+  scriptureLink: { flexDirection: "row", alignItems: "center", gap: 6, marginTop: 4 },
+  scriptureLinkText: { fontSize: 15, color: theme.tertiary, fontWeight: "500" },
+  prayerCard: {
+    backgroundColor: theme.neutral800,
+    borderRadius: theme.radiusLarge,
+    padding: 20,
+    minHeight: 240,
+  },
+  prayerTitle: { fontSize: 20, fontWeight: "600", color: theme.textWhite, marginBottom: 4 },
+  intention: { fontSize: 14, fontStyle: "italic", color: theme.neutral300, marginBottom: 8 },
+  prayerText: { fontSize: 17, lineHeight: 26, color: theme.neutral100, marginTop: 8 },
+  beadRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 24,
+  },
+  bead: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.neutral500,
+  },
+  beadPrayed: { backgroundColor: theme.neutral500 },
+  beadCurrent: { backgroundColor: theme.tertiary, borderColor: theme.tertiary },
+  tapHint: { fontSize: 12, color: theme.neutral500, textAlign: "center", marginTop: 20 },
+  controls: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: `${theme.tertiary}33`,
+  },
+  controlButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: theme.neutral800,
+  },
+  controlPrimary: { backgroundColor: theme.primary },
+  controlDisabled: { opacity: 0.4 },
+  controlLabel: { fontSize: 14, color: theme.neutral400 },
+  completed: { flex: 1, alignItems: "center", justifyContent: "center", padding: 32 },
+  completedTitle: { fontSize: 24, fontWeight: "300", color: theme.textWhite, marginTop: 16 },
+  completedText: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: theme.neutral300,
+    textAlign: "center",
+    marginTop: 8,
+  },
+});
@@ -25,6 +25,32 @@ import DateTimePicker, { DateTimePickerAndroid } from "@react-native-community/d
 import { supabase } from "../../supabaseClient";
 import { Feather, FontAwesome } from "@expo/vector-icons";
 import theme from "../../theme";
+import { useDenomination } from "@/hooks/useDenomination";
+import { useCommentCounts, useComments } from "@/hooks/useComments";
+import { useLikes } from "@/hooks/useLikes";
+import { EngagementTarget } from "@/types/engagement";
+import ChurchChallengesView from "@/components/challenges/ChurchChallengesView";
+import GroupChallengesView from "@/components/challenges/GroupChallengesView";
+import { daysBetween, toDateKey } from "@/utils/liturgy/calendar";
+import {
+  ChallengeSeason,
+  GuideEvent,
+  getAdjacentChallengeSeason,
+  getChallengeSeason,
+  getChallengeSeasons,
+  getSeasonGuide,
+  getSeasonProgress,
+} from "@/utils/liturgy/seasonalChallenges";
+import {
+  OccurrenceExceptions,
+  RecurrenceRule,
+  describeRecurrence,
+  expandOccurrences,
+  getLastOccurrenceDate,
+  getTaskStartDate,
+  shiftSeries,
+  splitSeries,
+} from "@/utils/challenges/recurrence";
 
 // --------------------
 // Data Interfaces
@@ -48,32 +74,12 @@ interface LentTask {
   visibility?: "Friends" | "Certain Groups" | "Just Me" | "Friends & Groups";
   selectedGroups?: (number | string)[];
   completed?: boolean;
-  // recurrence_id now stored as text
-  recurrence_id?: string;
-}
-
-interface Comment {
-  id: string;
-  user_id: string;
-  commentable_id: string;
-  commentable_type: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-  user: {
-    first_name: string;
-    last_name: string;
-    email: string;
-  };
-}
-
-interface Like {
-  id: string;
-  user_id: string;
-  likeable_id: string;
-  likeable_type: string;
-  updated_at: string;
-  created_at: string;
+  // Set on recurring tasks, which are one row for the whole series
+  recurrence?: RecurrenceRule | null;
+  completed_dates?: string[];
+  exceptions?: OccurrenceExceptions;
+  // Set on a single day of a recurring task, see expandOccurrences
+  occurrence_date?: string;
 }
 
 interface Notification {
@@ -90,17 +96,10 @@ interface Group {
 }
 
 type ViewType = "list" | "calendar";
+// "weekly" repeats on the first day's weekday, "weekdays" on the days picked
+type RepeatOption = "daily" | "weekly" | "weekdays";
 type FilterType = "all" | "friends" | "groups";
 
-// --------------------
-// Lent Guide Events
-// --------------------
-interface LentEvent {
-  date: string;
-  title: string;
-  description: string;
-}
-
 const visibilityOptions = [
   {
     label: "Friends",
@@ -135,67 +134,6 @@ const parseSelectedGroups = (selected_groups: any): (number | string)[] => {
   return [];
 };
 
-const lentGuideEvents: LentEvent[] = [
-  {
-    date: "2025-02-17",
-    title: "Daily Goals",
-    description: "Take time to reflect on your spiritual growth and set a personal intention for your daily goals.",
-  },
-  {
-    date: "2025-02-18",
-    title: "Silent Prayer",
-    description: "Dedicate 20 minutes to silent prayer or meditation. Find a quiet space, focus on your breathing, and invite God's presence. Consider using a guided prayer resource if needed.",
-  },
-  {
-    date: "2025-02-19",
-    title: "Group Discussion",
-    description: "Organize a group discussion with friends or family about the significance of daily goals. Share personal goals and support each other in your spiritual journeys.",
-  },
-  {
-    date: "March 5",
-    title: "Ash Wednesday",
-    description:
-      "Attend an Ash Wednesday service to receive ashes on your forehead, symbolizing repentance and mortality. Reflect on areas in your life needing growth and set a personal intention for Lent.",
-  },
-  {
-    date: "March 6",
-    title: "Silent Prayer",
-    description:
-      "Dedicate 20 minutes to silent prayer or meditation. Find a quiet space, focus on your breathing, and invite God's presence. Consider using a guided prayer resource if needed.",
-  },
-  {
-    date: "March 7",
-    title: "Stations of the Cross",
-    description:
-      "Participate in the Stations of the Cross at your local parish. Reflect on each station, contemplating Jesus' journey to the crucifixion and its significance in your life.",
-  },
-  {
-    date: "March 8",
-    title: "Group Discussion",
-    description:
-      "Organize a group discussion with friends or family about the significance of Lent. Share personal goals and support each other in your spiritual journeys.",
-  },
-  {
-    date: "March 9",
-    title: "Meatless Meal",
-    description:
-      "Prepare and share a simple, meatless meal with loved ones. Use this time to discuss the importance of fasting and how it brings you closer to God.",
-  },
-  {
-    date: "March 10",
-    title: "Social Media Fast",
-    description:
-      "Commit to a day without social media. Use the time to read a passage from the Bible, perhaps starting with the Gospels, and reflect on its message.",
-  },
-  {
-    date: "March 11",
-    title: "Charitable Act",
-    description:
-      "Engage in a charitable act, such as volunteering at a local shelter or donating to a food bank. Reflect on how acts of service embody Christ's love.",
-  },
-  // ... add other events as needed
-];
-
 // --------------------
 // Helper Functions for Dates and Calendar
 // --------------------
@@ -213,19 +151,6 @@ const getMonthName = (month: number) => {
   return new Date(0, month).toLocaleString("default", { month: "long" });
 };
 
-const getGuideEventsForDate = (date: Date): LentEvent[] => {
-  const monthName = date.toLocaleString("default", { month: "long" });
-  const day = date.getDate();
-  return lentGuideEvents.filter((event) => {
-    const match = event.date.match(/^(\w+)\s+(\d+)/);
-    if (match) {
-      const [, eventMonth, eventDay] = match;
-      return eventMonth === monthName && Number(eventDay) === day;
-    }
-    return false;
-  });
-};
-
 const formatDateUTC = (dateStr: string): string => {
   const datePart = dateStr.includes("T") ? dateStr.split("T")[0] : dateStr;
   const [year, month, day] = datePart.split("-");
@@ -259,31 +184,6 @@ const formatCommentDate = (dateStr: string): string => {
   }
 };
 
-// --------------------
-// Grouping Helper for Recurring Tasks
-// --------------------
-const groupTasks = (tasks: LentTask[]) => {
-  const groups: { [key: string]: LentTask[] } = {};
-  tasks.forEach((task) => {
-    if (task.recurrence_id) {
-      if (!groups[task.recurrence_id]) {
-        groups[task.recurrence_id] = [];
-      }
-      groups[task.recurrence_id].push(task);
-    } else {
-      groups[task.id] = [task];
-    }
-  });
-  return Object.entries(groups).map(([key, tasks]) => ({
-    key,
-    tasks: tasks.sort((a, b) => {
-      const dateA = new Date(a.date);
-      const dateB = new Date(b.date);
-      return dateA.getTime() - dateB.getTime();
-    }),
-  }));
-};
-
 // --------------------
 // Expanded Day View Component
 // --------------------
@@ -292,13 +192,14 @@ interface ExpandedDayViewProps {
   onClose: () => void;
   onAddTask: () => void;
   dayTasks: LentTask[];
-  guideEvents: LentEvent[];
+  guideEvents: GuideEvent[];
   currentUserId: string;
   friendColors: { [email: string]: string };
   handleLikeToggle: (task: LentTask) => void;
   handleOpenComments: (task: LentTask) => void;
-  showConfirmDelete: (taskId: string) => void;
-  onGuideEventPress: (event: LentEvent) => void;
+  showConfirmDelete: (task: LentTask) => void;
+  handleEditTask: (task: LentTask) => void;
+  onGuideEventPress: (event: GuideEvent) => void;
   handleToggleTaskCompletion: (task: LentTask) => void;
 }
 
@@ -313,6 +214,7 @@ const ExpandedDayView: React.FC<ExpandedDayViewProps> = ({
   handleLikeToggle,
   handleOpenComments,
   showConfirmDelete,
+  handleEditTask,
   onGuideEventPress,
   handleToggleTaskCompletion,
 }) => {
@@ -404,7 +306,7 @@ const ExpandedDayView: React.FC<ExpandedDayViewProps> = ({
             dayTasks.map((task) => {
               const isUserTask = task.user_id === currentUserId;
               return (
-                <View key={task.id} style={styles.expandedDayTask}>
+                <View key={`${task.id}-${task.occurrence_date}`} style={styles.expandedDayTask}>
                   {isUserTask && (
                     <TouchableOpacity
                       onPress={() => handleToggleTaskCompletion(task)}
@@ -434,6 +336,11 @@ const ExpandedDayView: React.FC<ExpandedDayViewProps> = ({
                     >
                       {task.event}
                     </Text>
+                    {task.recurrence && (
+                      <Text style={styles.expandedDayTaskUser}>
+                        {describeRecurrence(task.recurrence, getTaskStartDate(task))}
+                      </Text>
+                    )}
                     {!isUserTask && (
                       <Text style={styles.expandedDayTaskUser}>
                         By {task.user.first_name} {task.user.last_name}
@@ -489,7 +396,20 @@ const ExpandedDayView: React.FC<ExpandedDayViewProps> = ({
                           style={styles.expandedDayTaskAction}
                           onPress={() => {
                             onClose();
-                            showConfirmDelete(task.id);
+                            handleEditTask(task);
+                          }}
+                          activeOpacity={0.7}
+                        >
+                          <Feather name="edit" size={16} color={theme.accent4} />
+                          <Text style={styles.expandedDayTaskEditText}>Edit</Text>
+                        </TouchableOpacity>
+                      )}
+                      {isUserTask && (
+                        <TouchableOpacity
+                          style={styles.expandedDayTaskAction}
+                          onPress={() => {
+                            onClose();
+                            showConfirmDelete(task);
                           }}
                           activeOpacity={0.7}
                         >
@@ -614,29 +534,84 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
 };
 
 // --------------------
-// Render Task Group Card for List View
+// Recurrence Scope Modal Component
+// --------------------
+type RecurrenceScope = "this" | "following" | "all";
+
+const recurrenceScopeOptions: { scope: RecurrenceScope; label: string }[] = [
+  { scope: "this", label: "This occurrence" },
+  { scope: "following", label: "This and following" },
+  { scope: "all", label: "All occurrences" },
+];
+
+interface RecurrenceScopeModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (scope: RecurrenceScope) => void;
+  title: string;
+  message: string;
+}
+
+const RecurrenceScopeModal: React.FC<RecurrenceScopeModalProps> = ({
+  visible,
+  onClose,
+  onSelect,
+  title,
+  message,
+}) => {
+  if (!visible) return null;
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.deleteModalContent, styles.scopeModalContent]}>
+          <View style={[styles.deleteModalHeader, styles.scopeModalHeader]}>
+            <Feather name="repeat" size={28} color={theme.tertiary} />
+            <Text style={styles.deleteModalTitle}>{title}</Text>
+          </View>
+          <Text style={styles.deleteModalMessage}>{message}</Text>
+          {recurrenceScopeOptions.map(({ scope, label }) => (
+            <TouchableOpacity
+              key={scope}
+              style={styles.scopeOption}
+              onPress={() => onSelect(scope)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.scopeOptionText}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+          <View style={styles.deleteModalButtons}>
+            <TouchableOpacity
+              style={styles.deleteModalCancelButton}
+              onPress={onClose}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.deleteModalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+// --------------------
+// Render the User's Own Task Card for List View
 // --------------------
-const renderTaskGroupCard = (
-  group: { key: string; tasks: LentTask[] },
+const renderMyTaskCard = (
+  task: LentTask,
   handleLikeToggle: (task: LentTask) => void,
   handleOpenComments: (task: LentTask) => void,
-  showConfirmDelete: (taskId: string) => void,
-  handleDeleteRecurringGroup: (recurrenceId: string) => void,
-  handleToggleRecurringGroupCompletion: (
-    recurrenceId: string,
-    currentAllCompleted: boolean,
-  ) => void,
-  currentUserId: string,
+  handleEditTask: (task: LentTask) => void,
+  showConfirmDelete: (task: LentTask) => void,
   handleToggleTaskCompletion: (task: LentTask) => void,
-  showCompletionConfirm: (recurrenceId: string, allCompleted: boolean, task: LentTask) => void,
   likeAnimations: { [taskId: string]: Animated.Value },
   heartAnimations: { [taskId: string]: Animated.Value },
 ) => {
-  const task = group.tasks[0];
-  const isRecurring = group.tasks.length > 1;
-  const allCompleted = group.tasks.every((t) => t.completed);
-  const startDate = isRecurring ? formatDateUTC(group.tasks[0].date) : "";
-  const endDate = isRecurring ? formatDateUTC(group.tasks[group.tasks.length - 1].date) : "";
+  // A recurring task is checked off one day at a time, from today's occurrence
+  const today = toDateKey(new Date());
+  const todaysTask = task.recurrence ? expandOccurrences(task, today, today)[0] : task;
+  const lastDate = task.recurrence ? getLastOccurrenceDate(task) : null;
 
   // Initialize animations if needed
   if (!likeAnimations[task.id]) {
@@ -654,46 +629,41 @@ const renderTaskGroupCard = (
   });
 
   return (
-    <View key={group.key} style={styles.taskCard}>
+    <View key={task.id} style={styles.taskCard}>
       <View style={styles.taskHeaderRow}>
-        {isRecurring ? (
+        {todaysTask ? (
           <TouchableOpacity
-            onPress={() => showCompletionConfirm(group.key, allCompleted, task)}
+            onPress={() => handleToggleTaskCompletion(todaysTask)}
             style={styles.checkboxButton}
             activeOpacity={0.7}
           >
             <Feather
-              name={allCompleted ? "check-square" : "square"}
+              name={todaysTask.completed ? "check-square" : "square"}
               size={20}
-              color={allCompleted ? theme.success : theme.neutral400}
+              color={todaysTask.completed ? theme.success : theme.neutral400}
             />
           </TouchableOpacity>
         ) : (
-          <TouchableOpacity
-            onPress={() => handleToggleTaskCompletion(task)}
-            style={styles.checkboxButton}
-            activeOpacity={0.7}
-          >
-            <Feather
-              name={task.completed ? "check-square" : "square"}
-              size={20}
-              color={task.completed ? theme.success : theme.neutral400}
-            />
-          </TouchableOpacity>
+          <View style={styles.checkboxButton}>
+            <Feather name="repeat" size={20} color={theme.neutral400} />
+          </View>
         )}
         <Text
           style={[
             styles.taskTitle,
-            isRecurring && styles.recurringTaskTitle,
-            task.completed && styles.completedTaskTitle,
+            task.recurrence && styles.recurringTaskTitle,
+            todaysTask?.completed && styles.completedTaskTitle,
           ]}
         >
-          {task.event} {isRecurring ? "(Recurring)" : ""}
+          {task.event} {task.recurrence ? "(Recurring)" : ""}
         </Text>
       </View>
-      {isRecurring ? (
+      {task.recurrence ? (
         <Text style={styles.taskDate}>
-          {startDate} - {endDate}
+          {formatDateUTC(task.date)} - {lastDate ? formatDateUTC(lastDate) : "ongoing"}
+          {"\n"}
+          {describeRecurrence(task.recurrence, getTaskStartDate(task))} ·{" "}
+          {(task.completed_dates || []).length} done
         </Text>
       ) : (
         <Text style={styles.taskDate}>{formatDateUTC(task.date)}</Text>
@@ -749,25 +719,22 @@ const renderTaskGroupCard = (
           <Text style={styles.commentButtonText}>{task.comments_count || 0}</Text>
         </TouchableOpacity>
         <View style={styles.taskActions}>
-          {isRecurring ? (
-            <TouchableOpacity
-              style={styles.taskAction}
-              onPress={() => showConfirmDelete(task.recurrence_id ? task.recurrence_id : "")}
-              activeOpacity={0.7}
-            >
-              <Feather name="trash-2" size={16} color={theme.error} />
-              <Text style={styles.deleteActionText}>Delete Group</Text>
-            </TouchableOpacity>
-          ) : (
-            <TouchableOpacity
-              style={styles.taskAction}
-              onPress={() => showConfirmDelete(task.id)}
-              activeOpacity={0.7}
-            >
-              <Feather name="trash-2" size={16} color={theme.error} />
-              <Text style={styles.deleteActionText}>Delete</Text>
-            </TouchableOpacity>
-          )}
+          <TouchableOpacity
+            style={styles.taskAction}
+            onPress={() => handleEditTask(task)}
+            activeOpacity={0.7}
+          >
+            <Feather name="edit" size={16} color={theme.accent4} />
+            <Text style={styles.editActionText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.taskAction}
+            onPress={() => showConfirmDelete(task)}
+            activeOpacity={0.7}
+          >
+            <Feather name="trash-2" size={16} color={theme.error} />
+            <Text style={styles.deleteActionText}>Delete</Text>
+          </TouchableOpacity>
         </View>
       </View>
     </View>
@@ -775,9 +742,9 @@ const renderTaskGroupCard = (
 };
 
 // --------------------
-// Lent2025 Screen Component
+// Seasonal Challenge Screen Component
 // --------------------
-const Lent2025: React.FC = () => {
+const SeasonalChallenge: React.FC = () => {
   const { width } = useWindowDimensions();
   const isIpad = width >= 768;
   const calendarWidth = isIpad ? width - 32 : Math.min(width, 500) - 32;
@@ -790,7 +757,28 @@ const Lent2025: React.FC = () => {
     return `${y}-${m}-${day}`;
   })();
 
-  const [lentTasks, setLentTasks] = useState<LentTask[]>([]);
+  const [fetchedTasks, setFetchedTasks] = useState<LentTask[]>([]);
+  const taskTargets = useMemo(
+    () => fetchedTasks.map((task): EngagementTarget => ({ type: "lent_tasks", id: task.id })),
+    [fetchedTasks],
+  );
+  const { getLikes, toggleLike } = useLikes(taskTargets);
+  const { getCommentCount, commentAdded, commentDeleted } = useCommentCounts(taskTargets);
+  // Tasks with their likes and comment counts
+  const lentTasks = useMemo(
+    () =>
+      fetchedTasks.map((task) => {
+        const target: EngagementTarget = { type: "lent_tasks", id: task.id };
+        const likes = getLikes(target);
+        return {
+          ...task,
+          likes_count: likes.count,
+          liked_by_current_user: likes.liked,
+          comments_count: getCommentCount(target),
+        };
+      }),
+    [fetchedTasks, getLikes, getCommentCount],
+  );
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [newTask, setNewTask] = useState({
     event: "",
@@ -800,7 +788,11 @@ const Lent2025: React.FC = () => {
     selectedGroups: [] as (number | string)[],
   });
   const [isRecurring, setIsRecurring] = useState(false);
+  const [repeatOption, setRepeatOption] = useState<RepeatOption>("daily");
+  const [repeatWeekdays, setRepeatWeekdays] = useState<number[]>([]);
+  const [repeatEnd, setRepeatEnd] = useState<"until" | "count">("until");
   const [recurrenceEndDate, setRecurrenceEndDate] = useState(initialDate);
+  const [recurrenceCount, setRecurrenceCount] = useState("7");
   const [showInlineRecurrenceDatePicker, setShowInlineRecurrenceDatePicker] = useState(false);
 
   const [showTaskModal, setShowTaskModal] = useState(false);
@@ -811,17 +803,27 @@ const Lent2025: React.FC = () => {
   const [view, setView] = useState<ViewType>("calendar");
   const [currentMonth, setCurrentMonth] = useState<number>(new Date().getMonth());
   const [currentYear, setCurrentYear] = useState<number>(new Date().getFullYear());
-  const [selectedGuideEvent, setSelectedGuideEvent] = useState<LentEvent | null>(null);
+  const [selectedGuideEvent, setSelectedGuideEvent] = useState<GuideEvent | null>(null);
+  // The Lent or Advent being followed: the one under way, or the next to begin
+  const denomination = useDenomination();
+  const [season, setSeason] = useState<ChallengeSeason>(() => getChallengeSeason(new Date()));
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [refreshKey, setRefreshKey] = useState(0);
   const [showEditDatePicker, setShowEditDatePicker] = useState(false);
   const [keyboardVisible, setKeyboardVisible] = useState(false);
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
-  const [taskComments, setTaskComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState("");
   const [selectedTaskForComments, setSelectedTaskForComments] = useState<LentTask | null>(null);
+  const {
+    comments: taskComments,
+    loading: commentLoading,
+    addComment,
+    deleteComment,
+  } = useComments(
+    selectedTaskForComments ? { type: "lent_tasks", id: selectedTaskForComments.id } : null,
+    "oldest",
+  );
   const [showCommentModal, setShowCommentModal] = useState(false);
-  const [commentLoading, setCommentLoading] = useState(false);
   const [tasksFilter, setTasksFilter] = useState<FilterType>("all");
   const [showFilterDropdown, setShowFilterDropdown] = useState(false);
   const [userGroups, setUserGroups] = useState<Group[]>([]);
@@ -831,18 +833,16 @@ const Lent2025: React.FC = () => {
   const [showVisibilityDropdownEdit, setShowVisibilityDropdownEdit] = useState<boolean>(false);
 
   const [showDeleteConfirmModal, setShowDeleteConfirmModal] = useState(false);
-  const [showCompletionConfirmModal, setShowCompletionConfirmModal] = useState(false);
   const [deleteInfo, setDeleteInfo] = useState({
     id: "",
-    isRecurring: false,
     title: "",
     message: "",
   });
-  const [completionInfo, setCompletionInfo] = useState({
-    recurrenceId: "",
-    currentAllCompleted: false,
-    taskName: "",
-  });
+  // A change to a day of a recurring task, waiting for the days it applies to
+  const [scopePrompt, setScopePrompt] = useState<{
+    action: "edit" | "delete";
+    task: LentTask;
+  } | null>(null);
 
   // Use refs for animations to persist between renders
   const likeAnimations = useRef<{ [taskId: string]: Animated.Value }>({}).current;
@@ -965,7 +965,15 @@ const Lent2025: React.FC = () => {
   );
 
   const palette = useMemo(
-    () => [theme.tertiary, theme.accent4, theme.accent1, theme.accent2, theme.accent3, theme.secondary, theme.primary],
+    () => [
+      theme.tertiary,
+      theme.accent4,
+      theme.accent1,
+      theme.accent2,
+      theme.accent3,
+      theme.secondary,
+      theme.primary,
+    ],
     [],
   );
 
@@ -1081,7 +1089,7 @@ const Lent2025: React.FC = () => {
         }
       } else if (tasksFilter === "friends") {
         if (uniqueFriendIds.length === 0) {
-          setLentTasks([]);
+          setFetchedTasks([]);
           setIsLoading(false);
           return;
         }
@@ -1089,7 +1097,7 @@ const Lent2025: React.FC = () => {
       } else if (tasksFilter === "groups") {
         const groupIds = userGroups.map((group) => group.id);
         if (groupIds.length === 0) {
-          setLentTasks([]);
+          setFetchedTasks([]);
           setIsLoading(false);
           return;
         }
@@ -1099,7 +1107,7 @@ const Lent2025: React.FC = () => {
           .in("group_id", groupIds);
         if (membersError) throw membersError;
         if (!groupMembers || groupMembers.length === 0) {
-          setLentTasks([]);
+          setFetchedTasks([]);
           setIsLoading(false);
           return;
         }
@@ -1108,32 +1116,13 @@ const Lent2025: React.FC = () => {
       const { data, error } = await supabase
         .from("lent_tasks")
         .select(
-          "*, user:users (first_name, last_name, email), visibility, selected_groups, recurrence_id, completed",
+          "*, user:users (first_name, last_name, email), visibility, selected_groups, recurrence, completed_dates, exceptions, completed",
         )
         .in("user_id", userIdsToFetch)
         .order("created_at", { ascending: false });
       if (error) throw error;
       const tasksWithMetadata = await Promise.all(
         (data || []).map(async (task) => {
-          const [likesResponse, userLikeResponse, commentsResponse] = await Promise.all([
-            supabase
-              .from("likes")
-              .select("*", { count: "exact", head: false })
-              .eq("likeable_id", task.id)
-              .eq("likeable_type", "lent_tasks"),
-            supabase
-              .from("likes")
-              .select("*")
-              .eq("likeable_id", task.id)
-              .eq("likeable_type", "lent_tasks")
-              .eq("user_id", currentUserId)
-              .maybeSingle(),
-            supabase
-              .from("comments")
-              .select("*", { count: "exact", head: false })
-              .eq("commentable_id", task.id)
-              .eq("commentable_type", "lent_tasks"),
-          ]);
           let groupInfo = null;
           if (userGroups.length > 0 && task.user_id !== currentUserId) {
             const isFriend = uniqueFriendIds.includes(task.user_id);
@@ -1168,15 +1157,6 @@ const Lent2025: React.FC = () => {
               }
             }
           }
-          const errors: string[] = [];
-          if (likesResponse.error) errors.push(`Likes error: ${likesResponse.error.message}`);
-          if (userLikeResponse.error)
-            errors.push(`User like error: ${userLikeResponse.error.message}`);
-          if (commentsResponse.error)
-            errors.push(`Comments error: ${commentsResponse.error.message}`);
-          if (errors.length > 0) {
-            console.error("Error fetching task metadata:", errors.join(", "));
-          }
           const selectedGroups = parseSelectedGroups(task.selected_groups);
           if (task.user_id !== currentUserId) {
             switch (task.visibility) {
@@ -1206,16 +1186,13 @@ const Lent2025: React.FC = () => {
           }
           return {
             ...task,
-            likes_count: likesResponse.count || 0,
-            comments_count: commentsResponse.count || 0,
-            liked_by_current_user: !!userLikeResponse.data,
             group_info: groupInfo,
             selectedGroups: selectedGroups,
           };
         }),
       );
       const filteredTasks = tasksWithMetadata.filter((task) => task !== null);
-      setLentTasks(filteredTasks as LentTask[]);
+      setFetchedTasks(filteredTasks as LentTask[]);
     } catch (error) {
       console.error("Error fetching tasks:", error);
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1225,29 +1202,6 @@ const Lent2025: React.FC = () => {
     }
   }, [currentUserId, tasksFilter, userGroups]);
 
-  // Fetch comments for a task
-  const fetchComments = useCallback(async (taskId: string) => {
-    if (!taskId) return;
-    try {
-      setCommentLoading(true);
-      const { data, error } = await supabase
-        .from("comments")
-        .select("*, user:users (first_name, last_name, email)")
-        .eq("commentable_id", taskId)
-        .eq("commentable_type", "lent_tasks")
-        .order("created_at", { ascending: true });
-      if (error) throw error;
-      setTaskComments(data || []);
-    } catch (error) {
-      console.error("Error fetching comments:", error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      showNotification("Error fetching comments: " + errorMessage, "error");
-      setTaskComments([]);
-    } finally {
-      setCommentLoading(false);
-    }
-  }, []);
-
   // Show notification with animation
   const showNotification = useCallback((message: string, type: "error" | "success") => {
     setNotification({ message, type });
@@ -1279,6 +1233,48 @@ const Lent2025: React.FC = () => {
     };
   }, [notification]);
 
+  // Orthodox users keep Great Lent and the Nativity Fast by their own dates
+  useEffect(() => {
+    setSeason(getChallengeSeason(new Date(), denomination));
+  }, [denomination]);
+
+  // Guide events for the seasons of the year on screen, by date
+  const guideEventsByDate = useMemo(() => {
+    const byDate: Record<string, GuideEvent[]> = {};
+    getChallengeSeasons(currentYear, denomination).forEach((s) =>
+      getSeasonGuide(s, denomination).forEach((event) => {
+        (byDate[event.date] ??= []).push(event);
+      }),
+    );
+    return byDate;
+  }, [currentYear, denomination]);
+
+  const getGuideEventsForDate = useCallback(
+    (date: Date): GuideEvent[] => guideEventsByDate[toDateKey(date)] ?? [],
+    [guideEventsByDate],
+  );
+
+  const seasonProgress = useMemo(() => getSeasonProgress(season, new Date()), [season]);
+
+  const seasonSubtitle = (() => {
+    const formatDay = (date: Date) =>
+      date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+    const range = `${formatDay(season.start)} – ${formatDay(season.end)}`;
+    if (seasonProgress.status === "upcoming") {
+      const { daysUntil } = seasonProgress;
+      return `Begins in ${daysUntil} ${daysUntil === 1 ? "day" : "days"} · ${range}`;
+    }
+    if (seasonProgress.status === "past") return range;
+    return `Day ${seasonProgress.day} of ${seasonProgress.totalDays} · ${range}`;
+  })();
+
+  // Move to another season and show the month it starts in
+  const showSeason = useCallback((next: ChallengeSeason) => {
+    setSeason(next);
+    setCurrentMonth(next.start.getMonth());
+    setCurrentYear(next.start.getFullYear());
+  }, []);
+
   // Calendar data calculations
   const daysInMonth = useMemo(
     () => getDaysInMonth(currentMonth, currentYear),
@@ -1370,71 +1366,64 @@ const Lent2025: React.FC = () => {
     return () => clearTimeout(timer);
   }, [scrollToCurrentDay, currentMonth, currentYear, refreshKey, view]);
 
+  // The rule chosen in the create modal
+  const buildRecurrenceRule = (): RecurrenceRule => ({
+    frequency: repeatOption === "daily" ? "daily" : "weekly",
+    interval: 1,
+    weekdays: repeatOption === "weekdays" && repeatWeekdays.length ? repeatWeekdays : undefined,
+    until: repeatEnd === "until" ? recurrenceEndDate : undefined,
+    count: repeatEnd === "count" ? parseInt(recurrenceCount, 10) || undefined : undefined,
+  });
+
+  const toggleRepeatWeekday = (weekday: number) => {
+    setRepeatWeekdays((prev) =>
+      prev.includes(weekday) ? prev.filter((day) => day !== weekday) : [...prev, weekday],
+    );
+  };
+
   // Create a new task
   const handleCreateTask = async () => {
     if (
       !newTask.event.trim() ||
       !newTask.description.trim() ||
       !newTask.date.trim() ||
-      (isRecurring && !recurrenceEndDate.trim())
+      (isRecurring && repeatEnd === "until" && !recurrenceEndDate.trim())
     ) {
       showNotification("Please fill in all fields.", "error");
       return;
     }
+    const recurrence = isRecurring ? buildRecurrenceRule() : null;
+    if (recurrence?.until && recurrence.until < newTask.date) {
+      showNotification("End date cannot be before start date.", "error");
+      return;
+    }
+    if (recurrence && repeatEnd === "count" && !recurrence.count) {
+      showNotification("Please enter how many times the task repeats.", "error");
+      return;
+    }
     try {
       const {
         data: { user },
       } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
-      if (!isRecurring) {
-        const formattedDate = newTask.date + "T00:00:00";
-        const { error } = await supabase.from("lent_tasks").insert([
-          {
-            user_id: user.id,
-            event: newTask.event,
-            description: newTask.description,
-            date: formattedDate,
-            visibility: newTask.visibility,
-            selected_groups: newTask.visibility === "Certain Groups" ? newTask.selectedGroups : [],
-            completed: false,
-          },
-        ]);
-        if (error) throw error;
-      } else {
-        // Generate recurrence_id as a string
-        const recurrenceId = Date.now().toString();
-        const start = new Date(newTask.date);
-        start.setDate(start.getDate() + 1);
-        const end = new Date(recurrenceEndDate);
-        end.setDate(end.getDate() + 1);
-        if (end < start) {
-          showNotification("End date cannot be before start date.", "error");
-          return;
-        }
-        const tasksToInsert = [];
-        for (let dt = new Date(start); dt <= end; dt.setDate(dt.getDate() + 1)) {
-          const y = dt.getFullYear();
-          const m = String(dt.getMonth() + 1).padStart(2, "0");
-          const d = String(dt.getDate()).padStart(2, "0");
-          tasksToInsert.push({
-            user_id: user.id,
-            event: newTask.event,
-            description: newTask.description,
-            date: `${y}-${m}-${d}T00:00:00`,
-            visibility: newTask.visibility,
-            selected_groups: newTask.visibility === "Certain Groups" ? newTask.selectedGroups : [],
-            recurrence_id: recurrenceId,
-            completed: false,
-          });
-        }
-        const { error } = await supabase.from("lent_tasks").insert(tasksToInsert);
-        if (error) throw error;
-      }
+      const { error } = await supabase.from("lent_tasks").insert([
+        {
+          user_id: user.id,
+          event: newTask.event,
+          description: newTask.description,
+          date: newTask.date + "T00:00:00",
+          visibility: newTask.visibility,
+          selected_groups: newTask.visibility === "Certain Groups" ? newTask.selectedGroups : [],
+          recurrence,
+          completed: false,
+        },
+      ]);
+      if (error) throw error;
 
       // First dismiss keyboard and close modal
       Keyboard.dismiss();
       showNotification(
-        isRecurring ? "Recurring tasks created successfully!" : "Task created successfully!",
+        isRecurring ? "Recurring task created successfully!" : "Task created successfully!",
         "success",
       );
       setShowTaskModal(false);
@@ -1450,7 +1439,11 @@ const Lent2025: React.FC = () => {
           selectedGroups: [],
         });
         setIsRecurring(false);
+        setRepeatOption("daily");
+        setRepeatWeekdays([]);
+        setRepeatEnd("until");
         setRecurrenceEndDate(initialDate);
+        setRecurrenceCount("7");
         setShowInlineDatePicker(false);
         setShowVisibilityDropdownNew(false);
         fetchTasks();
@@ -1474,8 +1467,9 @@ const Lent2025: React.FC = () => {
     setEditingTask(editTask);
   }, []);
 
-  // Update task handler
-  const handleUpdateTask = async () => {
+  // Update task handler. Changes to a day of a recurring task first ask which
+  // of its days they apply to.
+  const handleUpdateTask = async (scope?: RecurrenceScope) => {
     if (
       !editingTask ||
       !editingTask.event.trim() ||
@@ -1485,20 +1479,28 @@ const Lent2025: React.FC = () => {
       showNotification("Please fill in all fields.", "error");
       return;
     }
+    if (editingTask.recurrence && editingTask.occurrence_date && !scope) {
+      setScopePrompt({ action: "edit", task: editingTask });
+      return;
+    }
     try {
-      const formattedDate = editingTask.date + "T00:00:00";
-      const { error } = await supabase
-        .from("lent_tasks")
-        .update({
-          event: editingTask.event,
-          description: editingTask.description,
-          date: formattedDate,
-          visibility: editingTask.visibility || "Friends",
-          selected_groups:
-            editingTask.visibility === "Certain Groups" ? editingTask.selectedGroups : [],
-        })
-        .eq("id", editingTask.id);
-      if (error) throw error;
+      if (editingTask.recurrence) {
+        await changeRecurringTask(editingTask, scope ?? "all", editingTask);
+      } else {
+        const formattedDate = editingTask.date + "T00:00:00";
+        const { error } = await supabase
+          .from("lent_tasks")
+          .update({
+            event: editingTask.event,
+            description: editingTask.description,
+            date: formattedDate,
+            visibility: editingTask.visibility || "Friends",
+            selected_groups:
+              editingTask.visibility === "Certain Groups" ? editingTask.selectedGroups : [],
+          })
+          .eq("id", editingTask.id);
+        if (error) throw error;
+      }
 
       // First show notification and close modal
       showNotification("Task updated successfully!", "success");
@@ -1517,28 +1519,111 @@ const Lent2025: React.FC = () => {
     }
   };
 
-  // Show delete confirmation
-  const showConfirmDelete = useCallback(
-    (id: string) => {
-      const isRecurring = lentTasks.some((task) => task.recurrence_id === id);
-      const title = isRecurring ? "Delete Recurring Tasks" : "Delete Task";
-      const message = isRecurring
-        ? "Are you sure you want to delete all tasks in this recurring series? This action cannot be undone."
-        : "Are you sure you want to delete this task? This action cannot be undone.";
-      setDeleteInfo({ id, isRecurring, title, message });
-      setShowDeleteConfirmModal(true);
-    },
-    [lentTasks],
-  );
+  // Edit (or, without an edit, delete) some days of a recurring task: the day
+  // given, that day and the ones after it, or all of them
+  const changeRecurringTask = async (
+    occurrence: LentTask,
+    scope: RecurrenceScope,
+    edit: LentTask | null,
+  ) => {
+    const series = lentTasks.find((t) => t.id === occurrence.id);
+    if (!series) return;
+    const start = getTaskStartDate(series);
+    const occurrenceDate = occurrence.occurrence_date ?? start;
+    // Moving a day moves the days after it by as much
+    const shift = edit ? daysBetween(parseLocalDate(occurrenceDate), parseLocalDate(edit.date)) : 0;
+    const fields = edit && {
+      event: edit.event,
+      description: edit.description,
+      visibility: edit.visibility || "Friends",
+      selected_groups: edit.visibility === "Certain Groups" ? edit.selectedGroups : [],
+    };
+    if (scope === "following" && occurrenceDate <= start) scope = "all";
+
+    if (scope === "this") {
+      const exceptions = { ...series.exceptions };
+      exceptions[occurrenceDate] = edit
+        ? {
+            ...exceptions[occurrenceDate],
+            event: edit.event,
+            description: edit.description,
+            date: edit.date !== occurrenceDate ? edit.date : undefined,
+          }
+        : { ...exceptions[occurrenceDate], skipped: true };
+      const { error } = await supabase
+        .from("lent_tasks")
+        .update({ exceptions })
+        .eq("id", series.id);
+      if (error) throw error;
+    } else if (scope === "following") {
+      const { before, after } = splitSeries(series, occurrenceDate);
+      const { error } = await supabase.from("lent_tasks").update(before).eq("id", series.id);
+      if (error) throw error;
+      if (edit) {
+        const moved = shift ? shiftSeries({ ...series, ...after }, shift) : after;
+        const { error: insertError } = await supabase.from("lent_tasks").insert([
+          {
+            ...fields,
+            ...moved,
+            user_id: series.user_id,
+            date: moved.date + "T00:00:00",
+            completed: false,
+          },
+        ]);
+        if (insertError) throw insertError;
+      }
+    } else if (edit) {
+      const moved = shift ? shiftSeries(series, shift) : null;
+      const { error } = await supabase
+        .from("lent_tasks")
+        .update({ ...fields, ...(moved && { ...moved, date: moved.date + "T00:00:00" }) })
+        .eq("id", series.id);
+      if (error) throw error;
+    } else {
+      const { error } = await supabase.from("lent_tasks").delete().eq("id", series.id);
+      if (error) throw error;
+    }
+  };
+
+  // Apply the pending edit or deletion to the days chosen
+  const handleSelectScope = async (scope: RecurrenceScope) => {
+    if (!scopePrompt) return;
+    const { action, task } = scopePrompt;
+    setScopePrompt(null);
+    if (action === "edit") {
+      await handleUpdateTask(scope);
+      return;
+    }
+    try {
+      await changeRecurringTask(task, scope, null);
+      showNotification("Task deleted successfully!", "success");
+      fetchTasks();
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      showNotification(`Error deleting task: ${errorMessage}`, "error");
+    }
+  };
+
+  // Show delete confirmation, or ask which days to delete for a day of a
+  // recurring task
+  const showConfirmDelete = useCallback((task: LentTask) => {
+    if (task.recurrence && task.occurrence_date) {
+      setScopePrompt({ action: "delete", task });
+      return;
+    }
+    const title = task.recurrence ? "Delete Recurring Task" : "Delete Task";
+    const message = task.recurrence
+      ? "Are you sure you want to delete every day of this recurring task? This action cannot be undone."
+      : "Are you sure you want to delete this task? This action cannot be undone.";
+    setDeleteInfo({ id: task.id, title, message });
+    setShowDeleteConfirmModal(true);
+  }, []);
 
   // Handle delete confirmation
   const handleConfirmDelete = async () => {
     try {
-      if (deleteInfo.isRecurring) {
-        await handleDeleteRecurringGroup(deleteInfo.id);
-      } else {
-        await handleDeleteTask(deleteInfo.id);
-      }
+      await handleDeleteTask(deleteInfo.id);
       setShowDeleteConfirmModal(false);
     } catch (error) {
       console.error("Error during delete:", error);
@@ -1547,27 +1632,6 @@ const Lent2025: React.FC = () => {
     }
   };
 
-  // Handle completion confirmation
-  const handleConfirmCompletion = () => {
-    handleToggleRecurringGroupCompletion(
-      completionInfo.recurrenceId,
-      completionInfo.currentAllCompleted,
-    );
-    setShowCompletionConfirmModal(false);
-  };
-
-  // Handle cancel completion
-  const handleCancelCompletion = () => {
-    setLentTasks((prevTasks) =>
-      prevTasks.map((t) =>
-        t.recurrence_id === completionInfo.recurrenceId
-          ? { ...t, completed: completionInfo.currentAllCompleted }
-          : t,
-      ),
-    );
-    setShowCompletionConfirmModal(false);
-  };
-
   // Delete task handler
   const handleDeleteTask = async (taskId: string) => {
     try {
@@ -1639,51 +1703,15 @@ const Lent2025: React.FC = () => {
   const handleLikeToggle = useCallback(
     async (task: LentTask) => {
       try {
-        const willBeLiked = !task.liked_by_current_user;
-
-        // Optimistically update UI
-        setLentTasks((prevTasks) =>
-          prevTasks.map((t) =>
-            t.id === task.id
-              ? {
-                  ...t,
-                  likes_count: willBeLiked
-                    ? (t.likes_count || 0) + 1
-                    : Math.max(0, (t.likes_count || 0) - 1),
-                  liked_by_current_user: willBeLiked,
-                }
-              : t,
-          ),
-        );
-
-        animateLikeButton(task.id, willBeLiked);
-
-        if (willBeLiked) {
-          const { error } = await supabase.from("likes").insert([
-            {
-              user_id: currentUserId,
-              likeable_id: task.id,
-              likeable_type: "lent_tasks",
-            },
-          ]);
-          if (error) throw error;
-        } else {
-          const { error } = await supabase
-            .from("likes")
-            .delete()
-            .eq("likeable_id", task.id)
-            .eq("likeable_type", "lent_tasks")
-            .eq("user_id", currentUserId);
-          if (error) throw error;
-        }
+        animateLikeButton(task.id, !task.liked_by_current_user);
+        await toggleLike({ type: "lent_tasks", id: task.id });
       } catch (error) {
         console.error("Error toggling like:", error);
         const errorMessage = error instanceof Error ? error.message : String(error);
         showNotification(`Error: ${errorMessage}`, "error");
-        fetchTasks(); // Refresh to correct state
       }
     },
-    [currentUserId, animateLikeButton],
+    [toggleLike, animateLikeButton],
   );
 
   // Open comments modal with sequential state updates to prevent flashing
@@ -1695,52 +1723,21 @@ const Lent2025: React.FC = () => {
         // Small delay before opening comments to ensure smooth transition
         setTimeout(() => {
           setSelectedTaskForComments(task);
-          setTaskComments([]);
-          setCommentLoading(true);
-          fetchComments(task.id);
           setShowCommentModal(true);
         }, 50);
       } else {
         setSelectedTaskForComments(task);
-        setTaskComments([]);
-        setCommentLoading(true);
-        fetchComments(task.id);
         setShowCommentModal(true);
       }
     },
-    [fetchComments, selectedDay],
+    [selectedDay],
   );
 
   // Add comment handler
   const handleAddComment = async () => {
     if (!selectedTaskForComments || !newComment.trim()) return;
     try {
-      const { data, error } = await supabase
-        .from("comments")
-        .insert([
-          {
-            user_id: currentUserId,
-            commentable_id: selectedTaskForComments.id,
-            commentable_type: "lent_tasks",
-            content: newComment.trim(),
-          },
-        ])
-        .select("*, user:users(first_name, last_name, email)");
-      if (error) throw error;
-      if (data && data.length > 0) {
-        // Add new comment with animation
-        const newCommentObj = data[0];
-        setTaskComments((prev) => [...prev, newCommentObj]);
-
-        // Update comment count in tasks list
-        setLentTasks((prevTasks) =>
-          prevTasks.map((t) =>
-            t.id === selectedTaskForComments.id
-              ? { ...t, comments_count: (t.comments_count || 0) + 1 }
-              : t,
-          ),
-        );
-      }
+      commentAdded(await addComment(newComment));
       setNewComment("");
     } catch (error) {
       console.error("Error adding comment:", error);
@@ -1753,21 +1750,9 @@ const Lent2025: React.FC = () => {
   const handleDeleteComment = async (commentId: string) => {
     if (!selectedTaskForComments) return;
     try {
-      const { error } = await supabase.from("comments").delete().eq("id", commentId);
-      if (error) throw error;
-
-      // Remove comment with fade animation
-      setTaskComments((prev) => prev.filter((comment) => comment.id !== commentId));
-
-      // Update task comment count
-      setLentTasks((prev) =>
-        prev.map((t) =>
-          t.id === selectedTaskForComments.id
-            ? { ...t, comments_count: Math.max(0, (t.comments_count || 0) - 1) }
-            : t,
-        ),
-      );
-
+      const comment = taskComments.find(({ id }) => id === commentId);
+      await deleteComment(commentId);
+      if (comment) commentDeleted(comment);
       showNotification("Comment deleted", "success");
     } catch (error) {
       console.error("Error deleting comment:", error);
@@ -1795,19 +1780,20 @@ const Lent2025: React.FC = () => {
     }
   }, [currentMonth]);
 
+  // Each day of the tasks around the month shown, recurring ones included
+  const monthOccurrences = useMemo(() => {
+    const from = toDateKey(new Date(currentYear, currentMonth, -6));
+    const to = toDateKey(new Date(currentYear, currentMonth + 1, 7));
+    return lentTasks.flatMap((task) => expandOccurrences(task, from, to));
+  }, [lentTasks, currentMonth, currentYear]);
+
   // Get tasks for a specific day
   const getTasksForDay = useCallback(
     (date: Date): LentTask[] => {
-      return lentTasks.filter((task) => {
-        const taskDate = parseLocalDate(task.date);
-        return (
-          taskDate.getFullYear() === date.getFullYear() &&
-          taskDate.getMonth() === date.getMonth() &&
-          taskDate.getDate() === date.getDate()
-        );
-      });
+      const key = toDateKey(date);
+      return monthOccurrences.filter((task) => getTaskStartDate(task) === key);
     },
-    [lentTasks],
+    [monthOccurrences],
   );
 
   // Add task for a specific day
@@ -1851,117 +1837,52 @@ const Lent2025: React.FC = () => {
     setHeaderHeight(height);
   }, []);
 
-  // Show completion confirmation
-  const showCompletionConfirm = useCallback(
-    (recurrenceId: string, currentAllCompleted: boolean, task: LentTask) => {
-      // Optimistically update UI
-      setLentTasks((prevTasks) =>
-        prevTasks.map((t) =>
-          t.recurrence_id === recurrenceId ? { ...t, completed: !currentAllCompleted } : t,
-        ),
-      );
-
-      setCompletionInfo({
-        recurrenceId,
-        currentAllCompleted,
-        taskName: task.event,
-      });
-
-      setShowCompletionConfirmModal(true);
-    },
-    [],
-  );
-
-  // Toggle task completion
+  // Toggle task completion. A day of a recurring task is checked off in its
+  // series' completed_dates.
   const handleToggleTaskCompletion = useCallback(
     async (task: LentTask) => {
       if (task.user_id !== currentUserId) return;
 
+      const occurrenceDate = task.recurrence ? task.occurrence_date : undefined;
       const newCompleted = !task.completed;
+      const toggle = (t: LentTask, completed: boolean): LentTask => {
+        if (t.id !== task.id) return t;
+        if (!occurrenceDate) return { ...t, completed };
+        const others = (t.completed_dates || []).filter((date) => date !== occurrenceDate);
+        return { ...t, completed_dates: completed ? [...others, occurrenceDate] : others };
+      };
 
       // Optimistically update UI
-      setLentTasks((prevTasks) =>
-        prevTasks.map((t) => (t.id === task.id ? { ...t, completed: newCompleted } : t)),
-      );
+      const updated = toggle(lentTasks.find((t) => t.id === task.id) || task, newCompleted);
+      setFetchedTasks((prevTasks) => prevTasks.map((t) => toggle(t, newCompleted)));
 
       try {
         const { error } = await supabase
           .from("lent_tasks")
-          .update({ completed: newCompleted })
+          .update(
+            occurrenceDate
+              ? { completed_dates: updated.completed_dates }
+              : { completed: newCompleted },
+          )
           .eq("id", task.id);
         if (error) throw error;
       } catch (error) {
         // Revert on error
-        setLentTasks((prevTasks) =>
-          prevTasks.map((t) => (t.id === task.id ? { ...t, completed: !newCompleted } : t)),
-        );
+        setFetchedTasks((prevTasks) => prevTasks.map((t) => toggle(t, !newCompleted)));
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.error("Error updating task completion:", errorMessage);
         showNotification(`Error updating task: ${errorMessage}`, "error");
       }
     },
-    [currentUserId],
+    [currentUserId, lentTasks],
   );
 
-  // Toggle recurring group completion
-  const handleToggleRecurringGroupCompletion = useCallback(
-    async (recurrenceId: string, currentAllCompleted: boolean) => {
-      const newCompleted = !currentAllCompleted;
-
-      // Optimistically update UI
-      setLentTasks((prevTasks) =>
-        prevTasks.map((t) =>
-          t.recurrence_id === recurrenceId ? { ...t, completed: newCompleted } : t,
-        ),
-      );
-
-      try {
-        const { error } = await supabase
-          .from("lent_tasks")
-          .update({ completed: newCompleted })
-          .eq("recurrence_id", recurrenceId);
-        if (error) throw error;
-      } catch (error) {
-        // Revert on error
-        setLentTasks((prevTasks) =>
-          prevTasks.map((t) =>
-            t.recurrence_id === recurrenceId ? { ...t, completed: !newCompleted } : t,
-          ),
-        );
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error("Error updating recurring tasks completion:", errorMessage);
-        showNotification(`Error updating tasks: ${errorMessage}`, "error");
-      }
-    },
-    [],
-  );
-
-  // Delete recurring group
-  const handleDeleteRecurringGroup = async (recurrenceId: string) => {
-    try {
-      const { error } = await supabase
-        .from("lent_tasks")
-        .delete()
-        .eq("recurrence_id", recurrenceId);
-      if (error) throw error;
-      showNotification("Recurring group deleted successfully!", "success");
-      fetchTasks();
-    } catch (error) {
-      console.error("Error deleting recurring group:", error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      showNotification(`Error deleting recurring group: ${errorMessage}`, "error");
-    }
-  };
-
   // Filter my tasks
   const myTasks = useMemo(
     () => lentTasks.filter((task) => task.user_id === currentUserId),
     [lentTasks, currentUserId],
   );
 
-  // Group my tasks
-  const groupedMyTasks = useMemo(() => groupTasks(myTasks), [myTasks]);
-
   // Render task card for non-recurring tasks
   const renderTaskCard = useCallback(
     (task: LentTask, isUserTask: boolean) => {
@@ -1981,7 +1902,7 @@ const Lent2025: React.FC = () => {
       return (
         <View key={task.id} style={styles.taskCard}>
           <View style={styles.taskHeaderRow}>
-            {isUserTask && (
+            {isUserTask && !task.recurrence && (
               <TouchableOpacity
                 onPress={() => handleToggleTaskCompletion(task)}
                 style={styles.checkboxButton}
@@ -2004,7 +1925,12 @@ const Lent2025: React.FC = () => {
                 By {task.user.first_name} {task.user.last_name}{" "}
               </>
             )}
-            on {formatDateUTC(task.date)}
+            {task.recurrence
+              ? `from ${formatDateUTC(task.date)}, ${describeRecurrence(
+                  task.recurrence,
+                  getTaskStartDate(task),
+                ).toLowerCase()}`
+              : `on ${formatDateUTC(task.date)}`}
           </Text>
           {task.group_info && (
             <View style={styles.groupTag}>
@@ -2070,7 +1996,7 @@ const Lent2025: React.FC = () => {
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.taskAction}
-                  onPress={() => showConfirmDelete(task.id)}
+                  onPress={() => showConfirmDelete(task)}
                   activeOpacity={0.7}
                 >
                   <Feather name="trash-2" size={16} color={theme.error} />
@@ -2130,7 +2056,7 @@ const Lent2025: React.FC = () => {
           >
             <Text
               style={[styles.headerTitle, isIpad && { fontSize: 28 }]}
-            >{`Daily Goals 2025 – ${getHeaderTitle()}`}</Text>
+            >{`${season.title} – ${getHeaderTitle()}`}</Text>
             <View style={styles.headerFilterIndicator}>
               <Feather
                 name={showFilterDropdown ? "chevron-up" : "chevron-down"}
@@ -2220,6 +2146,32 @@ const Lent2025: React.FC = () => {
             </TouchableOpacity>
           </Animated.View>
         )}
+        <View style={styles.seasonBanner}>
+          <TouchableOpacity
+            onPress={() => showSeason(getAdjacentChallengeSeason(season, -1, denomination))}
+            accessibilityLabel="Previous season"
+            style={styles.monthNavButton}
+            activeOpacity={0.7}
+          >
+            <Feather name="chevron-left" size={20} color={theme.neutral50} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.seasonBannerText}
+            onPress={() => showSeason(season)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.seasonTitle}>{season.title}</Text>
+            <Text style={styles.seasonSubtitle}>{seasonSubtitle}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => showSeason(getAdjacentChallengeSeason(season, 1, denomination))}
+            accessibilityLabel="Next season"
+            style={styles.monthNavButton}
+            activeOpacity={0.7}
+          >
+            <Feather name="chevron-right" size={20} color={theme.neutral50} />
+          </TouchableOpacity>
+        </View>
         <View style={styles.viewSwitcher}>
           <TouchableOpacity
             style={[styles.viewButton, view === "calendar" ? styles.activeViewButton : null]}
@@ -2273,21 +2225,24 @@ const Lent2025: React.FC = () => {
               <View style={styles.sectionContainer}>
                 {tasksFilter === "all" && (
                   <>
+                    <ChurchChallengesView
+                      season={season}
+                      onJoined={fetchTasks}
+                      showNotification={showNotification}
+                    />
+                    <GroupChallengesView season={season} showNotification={showNotification} />
                     <Text style={styles.sectionTitle}>My Tasks</Text>
-                    {groupedMyTasks.length === 0 ? (
+                    {myTasks.length === 0 ? (
                       <Text style={styles.emptyText}>You haven't added any tasks yet.</Text>
                     ) : (
-                      groupedMyTasks.map((group) =>
-                        renderTaskGroupCard(
-                          group,
+                      myTasks.map((task) =>
+                        renderMyTaskCard(
+                          task,
                           handleLikeToggle,
                           handleOpenComments,
+                          handleEditTask,
                           showConfirmDelete,
-                          handleDeleteRecurringGroup,
-                          handleToggleRecurringGroupCompletion,
-                          currentUserId,
                           handleToggleTaskCompletion,
-                          showCompletionConfirm,
                           likeAnimations,
                           heartAnimations,
                         ),
@@ -2476,53 +2431,128 @@ const Lent2025: React.FC = () => {
                 </TouchableOpacity>
                 {isRecurring && (
                   <>
-                    <Text style={styles.inputLabel}>End Date</Text>
-                    <TouchableOpacity
-                      style={styles.dateButton}
-                      onPress={() => {
-                        if (Platform.OS === "android") {
-                          DateTimePickerAndroid.open({
-                            value: new Date(recurrenceEndDate + "T00:00:00"),
-                            onChange: (event, date) => {
+                    <Text style={styles.inputLabel}>Repeat</Text>
+                    <View style={styles.groupSelectorList}>
+                      {(
+                        [
+                          { value: "daily", label: "Daily" },
+                          { value: "weekly", label: "Weekly" },
+                          { value: "weekdays", label: "Specific Days" },
+                        ] as { value: RepeatOption; label: string }[]
+                      ).map(({ value, label }) => (
+                        <TouchableOpacity
+                          key={value}
+                          style={[
+                            styles.groupOption,
+                            repeatOption === value && styles.groupOptionSelected,
+                          ]}
+                          onPress={() => setRepeatOption(value)}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={styles.groupOptionText}>{label}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    {repeatOption === "weekdays" && (
+                      <View style={styles.groupSelectorList}>
+                        {weekDays.map((label, weekday) => (
+                          <TouchableOpacity
+                            key={label}
+                            style={[
+                              styles.groupOption,
+                              repeatWeekdays.includes(weekday) && styles.groupOptionSelected,
+                            ]}
+                            onPress={() => toggleRepeatWeekday(weekday)}
+                            activeOpacity={0.7}
+                          >
+                            <Text style={styles.groupOptionText}>{label}</Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    )}
+                    <Text style={styles.inputLabel}>Ends</Text>
+                    <View style={styles.groupSelectorList}>
+                      {(
+                        [
+                          { value: "until", label: "On a Date" },
+                          { value: "count", label: "After a Number of Times" },
+                        ] as { value: "until" | "count"; label: string }[]
+                      ).map(({ value, label }) => (
+                        <TouchableOpacity
+                          key={value}
+                          style={[
+                            styles.groupOption,
+                            repeatEnd === value && styles.groupOptionSelected,
+                          ]}
+                          onPress={() => setRepeatEnd(value)}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={styles.groupOptionText}>{label}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    {repeatEnd === "count" ? (
+                      <>
+                        <Text style={styles.inputLabel}>Times</Text>
+                        <TextInput
+                          style={styles.textInput}
+                          value={recurrenceCount}
+                          onChangeText={(text) => setRecurrenceCount(text.replace(/[^0-9]/g, ""))}
+                          keyboardType="number-pad"
+                          accessibilityLabel="Number of times the task repeats"
+                        />
+                      </>
+                    ) : (
+                      <>
+                        <Text style={styles.inputLabel}>End Date</Text>
+                        <TouchableOpacity
+                          style={styles.dateButton}
+                          onPress={() => {
+                            if (Platform.OS === "android") {
+                              DateTimePickerAndroid.open({
+                                value: new Date(recurrenceEndDate + "T00:00:00"),
+                                onChange: (event, date) => {
+                                  if (date) {
+                                    const y = date.getFullYear();
+                                    const m = String(date.getMonth() + 1).padStart(2, "0");
+                                    const d = String(date.getDate()).padStart(2, "0");
+                                    setRecurrenceEndDate(`${y}-${m}-${d}`);
+                                  }
+                                },
+                                mode: "date",
+                              });
+                            } else {
+                              setShowInlineRecurrenceDatePicker((prev) => !prev);
+                            }
+                          }}
+                          accessibilityLabel={`Select end date, current end date: ${new Date(
+                            recurrenceEndDate + "T00:00:00",
+                          ).toLocaleDateString()}`}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={styles.dateButtonText}>
+                            {new Date(recurrenceEndDate + "T00:00:00").toLocaleDateString()}
+                          </Text>
+                        </TouchableOpacity>
+                        {Platform.OS !== "android" && showInlineRecurrenceDatePicker && (
+                          <DateTimePicker
+                            value={new Date(recurrenceEndDate + "T00:00:00")}
+                            mode="date"
+                            display="spinner"
+                            onChange={(event, date) => {
                               if (date) {
                                 const y = date.getFullYear();
                                 const m = String(date.getMonth() + 1).padStart(2, "0");
                                 const d = String(date.getDate()).padStart(2, "0");
                                 setRecurrenceEndDate(`${y}-${m}-${d}`);
                               }
-                            },
-                            mode: "date",
-                          });
-                        } else {
-                          setShowInlineRecurrenceDatePicker((prev) => !prev);
-                        }
-                      }}
-                      accessibilityLabel={`Select end date, current end date: ${new Date(
-                        recurrenceEndDate + "T00:00:00",
-                      ).toLocaleDateString()}`}
-                      activeOpacity={0.7}
-                    >
-                      <Text style={styles.dateButtonText}>
-                        {new Date(recurrenceEndDate + "T00:00:00").toLocaleDateString()}
-                      </Text>
-                    </TouchableOpacity>
-                    {Platform.OS !== "android" && showInlineRecurrenceDatePicker && (
-                      <DateTimePicker
-                        value={new Date(recurrenceEndDate + "T00:00:00")}
-                        mode="date"
-                        display="spinner"
-                        onChange={(event, date) => {
-                          if (date) {
-                            const y = date.getFullYear();
-                            const m = String(date.getMonth() + 1).padStart(2, "0");
-                            const d = String(date.getDate()).padStart(2, "0");
-                            setRecurrenceEndDate(`${y}-${m}-${d}`);
-                          }
-                        }}
-                        style={{ backgroundColor: theme.neutral900 }}
-                        textColor={theme.textWhite}
-                        themeVariant="dark"
-                      />
+                            }}
+                            style={{ backgroundColor: theme.neutral900 }}
+                            textColor={theme.textWhite}
+                            themeVariant="dark"
+                          />
+                        )}
+                      </>
                     )}
                   </>
                 )}
@@ -2862,7 +2892,7 @@ const Lent2025: React.FC = () => {
                     </TouchableOpacity>
                     <TouchableOpacity
                       style={styles.addButton}
-                      onPress={handleUpdateTask}
+                      onPress={() => handleUpdateTask()}
                       accessibilityLabel="Save changes"
                       activeOpacity={0.7}
                     >
@@ -3068,20 +3098,14 @@ const Lent2025: React.FC = () => {
           confirmText="Delete"
           confirmStyle="warning"
         />
-        <ConfirmationModal
-          visible={showCompletionConfirmModal}
-          onClose={handleCancelCompletion}
-          onConfirm={handleConfirmCompletion}
-          title={`Mark All Tasks as ${
-            !completionInfo.currentAllCompleted ? "Complete" : "Incomplete"
-          }`}
-          message={`This will mark all "${completionInfo.taskName}" tasks as ${
-            !completionInfo.currentAllCompleted ? "complete" : "incomplete"
-          }. To individually check them, use the calendar view.`}
-          confirmText={
-            !completionInfo.currentAllCompleted ? "Mark All Complete" : "Mark All Incomplete"
-          }
-          confirmStyle="success"
+        <RecurrenceScopeModal
+          visible={!!scopePrompt}
+          onClose={() => setScopePrompt(null)}
+          onSelect={handleSelectScope}
+          title={scopePrompt?.action === "edit" ? "Edit Recurring Task" : "Delete Recurring Task"}
+          message={`${
+            scopePrompt?.action === "edit" ? "Save changes to" : "Delete"
+          } which days of "${scopePrompt?.task.event}"?`}
         />
         <Modal
           visible={!!selectedDay}
@@ -3113,7 +3137,8 @@ const Lent2025: React.FC = () => {
                 handleLikeToggle={handleLikeToggle}
                 handleOpenComments={handleOpenComments}
                 showConfirmDelete={showConfirmDelete}
-                onGuideEventPress={(event: LentEvent) => {
+                handleEditTask={handleEditTask}
+                onGuideEventPress={(event: GuideEvent) => {
                   // First close day view
                   setSelectedDay(null);
 
@@ -3217,6 +3242,29 @@ const styles = StyleSheet.create({
     textAlign: "center",
   },
   activeFilterOptionText: { color: theme.tertiary, fontWeight: "600" },
+  seasonBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: `${theme.tertiary}33`,
+  },
+  seasonBannerText: {
+    flex: 1,
+    alignItems: "center",
+  },
+  seasonTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: theme.textWhite,
+  },
+  seasonSubtitle: {
+    fontSize: 13,
+    color: theme.tertiary,
+    marginTop: 2,
+  },
   viewSwitcher: {
     flexDirection: "row",
     justifyContent: "center",
@@ -3897,6 +3945,7 @@ const styles = StyleSheet.create({
   },
   expandedDayTaskActionText: { color: theme.neutral400, marginLeft: 4, fontSize: 13 },
   expandedDayTaskActionTextActive: { color: theme.tertiary },
+  expandedDayTaskEditText: { color: theme.accent4, marginLeft: 4, fontSize: 13 },
   expandedDayTaskDeleteText: { color: theme.error, marginLeft: 4, fontSize: 13 },
   floatingAddTaskButton: {
     position: "absolute",
@@ -4042,6 +4091,18 @@ const styles = StyleSheet.create({
   },
   deleteModalConfirmText: { color: theme.textWhite, fontSize: 16, fontWeight: "600" },
   successConfirmButton: { backgroundColor: theme.success },
+  scopeModalContent: { borderColor: `${theme.tertiary}4D` },
+  scopeModalHeader: { borderBottomColor: `${theme.tertiary}33` },
+  scopeOption: {
+    backgroundColor: `${theme.neutral100}1A`,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: `${theme.neutral100}33`,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 10,
+  },
+  scopeOptionText: { color: theme.textWhite, fontSize: 16, textAlign: "center" },
 });
 
-export default Lent2025;
\ No newline at end of file
+export default SeasonalChallenge;
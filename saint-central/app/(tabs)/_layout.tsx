@@ -221,18 +221,14 @@ export default function TabLayout() {
 
       {/* Hidden screens */}
       <Tabs.Screen name="RosaryPrayer" options={{ tabBarButton: () => null }} />
-      <Tabs.Screen name="RosaryPrayer2" options={{ tabBarButton: () => null }} />
-      <Tabs.Screen name="RosaryPrayer3" options={{ tabBarButton: () => null }} />
-      <Tabs.Screen name="RosaryPrayer4" options={{ tabBarButton: () => null }} />
-      <Tabs.Screen name="RosaryPrayer5" options={{ tabBarButton: () => null }} />
-      <Tabs.Screen name="RosaryPrayer6" options={{ tabBarButton: () => null }} />
-      <Tabs.Screen name="RosaryPrayer7" options={{ tabBarButton: () => null }} />
       <Tabs.Screen name="statistics" options={{ tabBarButton: () => null }} />
+      <Tabs.Screen name="prayerList" options={{ tabBarButton: () => null }} />
+      <Tabs.Screen name="prayerTeam" options={{ tabBarButton: () => null }} />
       <Tabs.Screen name="events" options={{ tabBarButton: () => null }} />
       <Tabs.Screen name="community" options={{ tabBarButton: () => null }} />
       <Tabs.Screen name="church_events" options={{ tabBarButton: () => null }} />
       {/* Removed the bible-detail screen since we're using Bible as a main tab */}
-      <Tabs.Screen name="Lent2025" options={{ tabBarButton: () => null }} />
+      <Tabs.Screen name="SeasonalChallenge" options={{ tabBarButton: () => null }} />
       <Tabs.Screen name="faith/index" options={{ tabBarButton: () => null }} />
       <Tabs.Screen name="faith/[id]" options={{ tabBarButton: () => null }} />
       <Tabs.Screen name="womens-ministry/[id]" options={{ tabBarButton: () => null }} />
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
   View,
   Text,
@@ -26,6 +26,16 @@ import { StatusBar } from "expo-status-bar";
 import { Feather, FontAwesome } from "@expo/vector-icons";
 import { supabase } from "../../supabaseClient";
 import { Link, router } from "expo-router";
+import PrayedButton from "@/components/prayer/PrayedButton";
+import PrayerListModal from "@/components/prayer/PrayerListModal";
+import { useIntentionPrayers } from "@/hooks/useIntentionPrayers";
+import IntentionReminderModal from "@/components/prayer/IntentionReminderModal";
+import { useIntentionReminders } from "@/hooks/useIntentionReminders";
+import { ReminderSchedule } from "@/utils/prayer/intentionReminders";
+import { IntentionPrayerCount } from "@/types/prayer";
+import { useCommentCounts, useComments } from "@/hooks/useComments";
+import { EngagementComment, EngagementTarget } from "@/types/engagement";
+import { formatCommentAuthor } from "@/utils/social/engagement";
 
 // Enable LayoutAnimation for Android
 if (Platform.OS === "android") {
@@ -66,9 +76,7 @@ interface Intention {
   type: IntentionType;
   created_at: string;
   user: UserData;
-  likes_count?: number | null;
   comments_count?: number | null;
-  is_liked?: boolean;
   group_info?: Group | null;
   visibility?: "Friends" | "Certain Groups" | "Just Me" | "Friends & Groups" | "Certain Friends";
   selectedGroups?: (number | string)[];
@@ -127,36 +135,19 @@ interface Friend {
   created_at?: string; // Make created_at optional
 }
 
-interface Like {
-  id: string;
-  user_id: string;
-  likeable_id: string;
-  likeable_type: string;
-  created_at: string;
-}
-
-interface Comment {
-  id: string;
-  user_id: string;
-  commentable_id: string;
-  commentable_type: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-  user: UserData;
-}
-
 interface IntentionCardProps {
   item: Intention;
   currentUserId: string | null;
-  onLike: (id: string, isLiked: boolean) => void;
+  prayerCount: IntentionPrayerCount;
+  onPray: (id: string) => void;
+  onShowPrayerList: (intention: Intention) => void;
+  hasReminder: boolean;
+  onRemind: (intention: Intention) => void;
   onComment: (intentionId: string) => void;
   onEdit: (intention: Intention) => void;
   onDelete: (id: string) => void;
-  likeScaleAnim: Animated.Value;
-  likeOpacityAnim: Animated.Value;
   isCommentsExpanded: boolean;
-  comments: Comment[];
+  comments: EngagementComment[];
   newComment: string;
   setNewComment: (text: string) => void;
   handleAddComment: (intentionId: string) => void;
@@ -232,12 +223,14 @@ const parseSelectedFriends = (selected_friends: any): (number | string)[] => {
 const IntentionCard: React.FC<IntentionCardProps> = ({
   item,
   currentUserId,
-  onLike,
+  prayerCount,
+  onPray,
+  onShowPrayerList,
+  hasReminder,
+  onRemind,
   onComment,
   onEdit,
   onDelete,
-  likeScaleAnim,
-  likeOpacityAnim,
   isCommentsExpanded,
   comments,
   newComment,
@@ -245,16 +238,14 @@ const IntentionCard: React.FC<IntentionCardProps> = ({
   handleAddComment,
   commentsLoading,
 }) => {
-  const renderCommentItem = ({ item: comment }: { item: Comment }) => (
+  const renderCommentItem = ({ item: comment }: { item: EngagementComment }) => (
     <View style={styles.commentItem}>
       <View style={styles.commentHeader}>
         <View style={styles.commentAvatar}>
           <Feather name="user" size={18} color="#FAC898" />
         </View>
         <View style={styles.commentUser}>
-          <Text style={styles.commentUserName}>
-            {comment.user.first_name} {comment.user.last_name}
-          </Text>
+          <Text style={styles.commentUserName}>{formatCommentAuthor(comment.user)}</Text>
           <Text style={styles.commentTime}>
             {new Date(comment.created_at).toLocaleTimeString([], {
               hour: "2-digit",
@@ -329,31 +320,20 @@ const IntentionCard: React.FC<IntentionCardProps> = ({
         <Text style={styles.intentionDescription}>{item.description}</Text>
       </View>
       <View style={styles.intentionActions}>
-        <TouchableOpacity
-          style={[styles.intentionAction, item.is_liked && styles.intentionActionActive]}
-          onPress={() => onLike(item.id, !!item.is_liked)}
-        >
-          <View style={styles.likeButtonContainer}>
-            <Animated.View
-              style={[
-                styles.likeRipple,
-                {
-                  opacity: likeOpacityAnim,
-                  transform: [{ scale: Animated.multiply(likeScaleAnim, 2) }],
-                },
-              ]}
-            />
-            <Animated.View style={{ transform: [{ scale: likeScaleAnim }] }}>
-              <FontAwesome
-                name={item.is_liked ? "heart" : "heart-o"}
-                size={18}
-                color={item.is_liked ? "#E9967A" : "#FAC898"}
-              />
-            </Animated.View>
-          </View>
-          <Text style={[styles.actionText, item.is_liked && styles.actionTextActive]}>
-            {item.is_liked ? "Liked" : "Support"} {item.likes_count ? `(${item.likes_count})` : ""}
-          </Text>
+        <PrayedButton
+          count={prayerCount}
+          isAuthor={item.user_id === currentUserId}
+          onPray={() => onPray(item.id)}
+          onShowList={item.visibility !== "Just Me" ? () => onShowPrayerList(item) : undefined}
+          color="#FAC898"
+          textColor="rgba(255, 255, 255, 0.8)"
+        />
+        <TouchableOpacity style={styles.intentionAction} onPress={() => onRemind(item)}>
+          <Feather
+            name="bell"
+            size={18}
+            color={hasReminder ? "#FAC898" : "rgba(250, 200, 152, 0.5)"}
+          />
         </TouchableOpacity>
         <TouchableOpacity style={styles.intentionAction} onPress={() => onComment(item.id)}>
           <Feather name="message-circle" size={18} color="#FAC898" />
@@ -449,13 +429,34 @@ export default function CommunityScreen() {
     intentionId: string | null;
   }>({ isOpen: false, intentionId: null });
   const [friendRequestCount, setFriendRequestCount] = useState<number>(0);
-  const [comments, setComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState<string>("");
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [commentsLoading, setCommentsLoading] = useState<boolean>(false);
   const [userGroups, setUserGroups] = useState<Group[]>([]);
   const [groupsLoaded, setGroupsLoaded] = useState<boolean>(false);
   const [expandedCommentId, setExpandedCommentId] = useState<string | null>(null);
+  const {
+    comments,
+    loading: commentsLoading,
+    addComment,
+  } = useComments(expandedCommentId ? { type: "intentions", id: expandedCommentId } : null);
+  const intentionTargets = useMemo(
+    () => intentions.map(({ id }): EngagementTarget => ({ type: "intentions", id })),
+    [intentions],
+  );
+  const { getCommentCount, commentAdded } = useCommentCounts(intentionTargets);
+  const [prayerListIntention, setPrayerListIntention] = useState<Intention | null>(null);
+  const {
+    getCount: getPrayerCount,
+    togglePrayed,
+    loadPrayerList,
+  } = useIntentionPrayers(intentions.map(({ id }) => id));
+  const [reminderIntention, setReminderIntention] = useState<Intention | null>(null);
+  const {
+    getReminder,
+    saveReminder,
+    removeReminder,
+    refresh: refreshReminders,
+  } = useIntentionReminders();
   const [showFabMenu, setShowFabMenu] = useState<boolean>(false);
   const [showFilterDropdown, setShowFilterDropdown] = useState<boolean>(false);
   // Visibility dropdown states in modals
@@ -468,8 +469,6 @@ export default function CommunityScreen() {
   const [headerHeight, setHeaderHeight] = useState<number>(0);
   const filterDropdownAnim = useRef(new Animated.Value(0)).current;
   const scrollY = useRef(new Animated.Value(0)).current;
-  const likeScaleAnimations = useRef<Map<string, Animated.Value>>(new Map());
-  const likeOpacityAnimations = useRef<Map<string, Animated.Value>>(new Map());
   const fabMenuAnimation = useRef(new Animated.Value(0)).current;
   const fabRotation = fabMenuAnimation.interpolate({
     inputRange: [0, 1],
@@ -585,10 +584,6 @@ export default function CommunityScreen() {
     }
   }, [notification]);
 
-  useEffect(() => {
-    if (expandedCommentId) fetchComments(expandedCommentId);
-  }, [expandedCommentId]);
-
   // Always render the dropdown, but disable pointer events when hidden.
   useEffect(() => {
     Animated.timing(filterDropdownAnim, {
@@ -599,20 +594,6 @@ export default function CommunityScreen() {
     }).start();
   }, [showFilterDropdown]);
 
-  const getLikeScaleAnimation = (intentionId: string): Animated.Value => {
-    if (!likeScaleAnimations.current.has(intentionId)) {
-      likeScaleAnimations.current.set(intentionId, new Animated.Value(1));
-    }
-    return likeScaleAnimations.current.get(intentionId) as Animated.Value;
-  };
-
-  const getLikeOpacityAnimation = (intentionId: string): Animated.Value => {
-    if (!likeOpacityAnimations.current.has(intentionId)) {
-      likeOpacityAnimations.current.set(intentionId, new Animated.Value(0));
-    }
-    return likeOpacityAnimations.current.get(intentionId) as Animated.Value;
-  };
-
   const isUserFriend = async (currentUserId: string, userId: string): Promise<boolean> => {
     try {
       if (currentUserId === userId) return false;
@@ -853,32 +834,8 @@ export default function CommunityScreen() {
         return false;
       });
 
-      // Get like and comment counts, check if user has liked each intention
-      const intentionsWithCounts = await Promise.all(
+      const intentionsWithGroups = await Promise.all(
         (filteredIntentions || []).map(async (intention: any) => {
-          const { count: likesCount, error: likesError } = await supabase
-            .from("likes")
-            .select("*", { count: "exact", head: false })
-            .eq("likeable_id", intention.id)
-            .eq("likeable_type", "intentions");
-          if (likesError) throw likesError;
-
-          const { count: commentsCount, error: commentsError } = await supabase
-            .from("comments")
-            .select("*", { count: "exact", head: false })
-            .eq("commentable_id", intention.id)
-            .eq("commentable_type", "intentions");
-          if (commentsError) throw commentsError;
-
-          const { data: userLike, error: userLikeError } = await supabase
-            .from("likes")
-            .select("id")
-            .eq("likeable_id", intention.id)
-            .eq("likeable_type", "intentions")
-            .eq("user_id", user.id)
-            .maybeSingle();
-          if (userLikeError) throw userLikeError;
-
           let groupInfo = null;
           if (userGroups.length > 0) {
             const showGroupInfo =
@@ -917,9 +874,6 @@ export default function CommunityScreen() {
 
           return {
             ...intention,
-            likes_count: likesCount,
-            comments_count: commentsCount,
-            is_liked: !!userLike,
             group_info: groupInfo,
             selectedGroups: parseSelectedGroups(intention.selected_groups),
             selectedFriends: parseSelectedFriends(intention.selected_friends),
@@ -927,7 +881,7 @@ export default function CommunityScreen() {
         }),
       );
 
-      setIntentions(intentionsWithCounts || []);
+      setIntentions(intentionsWithGroups || []);
     } catch (error: any) {
       console.error("Error fetching intentions:", error);
       setIntentions([]);
@@ -941,30 +895,6 @@ export default function CommunityScreen() {
     }
   };
 
-  const fetchComments = async (intentionId: string): Promise<void> => {
-    try {
-      setCommentsLoading(true);
-      const { data, error } = await supabase
-        .from("comments")
-        .select(`*, user:users(*)`)
-        .eq("commentable_id", intentionId)
-        .eq("commentable_type", "intentions")
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      setComments(data || []);
-    } catch (error: any) {
-      console.error("Error fetching comments:", error);
-      setComments([]);
-      setNotification({
-        message:
-          "Error fetching comments: " + (error instanceof Error ? error.message : String(error)),
-        type: "error",
-      });
-    } finally {
-      setCommentsLoading(false);
-    }
-  };
-
   const fetchFriendRequests = async (): Promise<void> => {
     try {
       setIsLoading(true);
@@ -1149,104 +1079,14 @@ export default function CommunityScreen() {
     initializeFriends();
   }, []);
 
-  const handleLikeIntention = async (intentionId: string, isLiked: boolean): Promise<void> => {
+  const handlePrayIntention = async (intentionId: string): Promise<void> => {
     try {
       Vibration.vibrate(50);
-      const scaleAnim = getLikeScaleAnimation(intentionId);
-      const opacityAnim = getLikeOpacityAnimation(intentionId);
-      if (!isLiked) {
-        Animated.parallel([
-          Animated.sequence([
-            Animated.timing(scaleAnim, {
-              toValue: 0.8,
-              duration: 100,
-              useNativeDriver: true,
-            }),
-            Animated.spring(scaleAnim, {
-              toValue: 1.5,
-              friction: 3,
-              tension: 40,
-              useNativeDriver: true,
-            }),
-            Animated.spring(scaleAnim, {
-              toValue: 1,
-              friction: 3,
-              useNativeDriver: true,
-            }),
-          ]),
-          Animated.sequence([
-            Animated.timing(opacityAnim, {
-              toValue: 0.6,
-              duration: 100,
-              useNativeDriver: true,
-            }),
-            Animated.timing(opacityAnim, {
-              toValue: 0,
-              duration: 500,
-              useNativeDriver: true,
-            }),
-          ]),
-        ]).start();
-      } else {
-        Animated.sequence([
-          Animated.timing(scaleAnim, {
-            toValue: 0.8,
-            duration: 100,
-            useNativeDriver: true,
-          }),
-          Animated.timing(scaleAnim, {
-            toValue: 1,
-            duration: 100,
-            useNativeDriver: true,
-          }),
-        ]).start();
-      }
-      const {
-        data: { user },
-        error: authError,
-      } = await supabase.auth.getUser();
-      if (authError) throw authError;
-      if (!user) throw new Error("Not authenticated");
-      if (isLiked) {
-        const { error } = await supabase
-          .from("likes")
-          .delete()
-          .eq("likeable_id", intentionId)
-          .eq("likeable_type", "intentions")
-          .eq("user_id", user.id);
-        if (error) throw error;
-      } else {
-        const { data: intentionData, error: intentionError } = await supabase
-          .from("intentions")
-          .select("id")
-          .eq("id", intentionId)
-          .single();
-        if (intentionError) throw intentionError;
-        if (!intentionData) throw new Error("Intention not found");
-        const { error } = await supabase.from("likes").insert({
-          user_id: user.id,
-          likeable_id: intentionId,
-          likeable_type: "intentions",
-        });
-        if (error) throw error;
-      }
-      setIntentions(
-        intentions.map((intention) =>
-          intention.id === intentionId
-            ? {
-                ...intention,
-                is_liked: !isLiked,
-                likes_count: isLiked
-                  ? (intention.likes_count || 1) - 1
-                  : (intention.likes_count || 0) + 1,
-              }
-            : intention,
-        ),
-      );
+      await togglePrayed(intentionId);
     } catch (error: any) {
-      console.error("Error toggling like:", error);
+      console.error("Error recording prayer:", error);
       setNotification({
-        message: `Error ${isLiked ? "unliking" : "liking"} intention: ${
+        message: `Error recording your prayer: ${
           error instanceof Error ? error.message : String(error)
         }`,
         type: "error",
@@ -1254,39 +1094,36 @@ export default function CommunityScreen() {
     }
   };
 
+  const handleSaveReminder = async (schedule: ReminderSchedule): Promise<void> => {
+    if (!reminderIntention) return;
+    try {
+      await saveReminder(reminderIntention, schedule);
+      setNotification({ message: "Reminder set", type: "success" });
+    } catch (error: any) {
+      console.error("Error saving reminder:", error);
+      setNotification({ message: "Failed to set the reminder", type: "error" });
+    }
+  };
+
+  const handleRemoveReminder = async (): Promise<void> => {
+    if (!reminderIntention) return;
+    try {
+      await removeReminder(reminderIntention.id);
+      setNotification({ message: "Reminder turned off", type: "success" });
+    } catch (error: any) {
+      console.error("Error removing reminder:", error);
+      setNotification({ message: "Failed to turn off the reminder", type: "error" });
+    }
+  };
+
   const handleAddComment = async (intentionId: string): Promise<void> => {
     if (!newComment.trim()) {
       setNotification({ message: "Please enter a comment", type: "error" });
       return;
     }
+    if (intentionId !== expandedCommentId) return;
     try {
-      const {
-        data: { user },
-        error: authError,
-      } = await supabase.auth.getUser();
-      if (authError) throw authError;
-      if (!user) throw new Error("Not authenticated");
-      const { data, error } = await supabase
-        .from("comments")
-        .insert({
-          user_id: user.id,
-          commentable_id: intentionId,
-          commentable_type: "intentions",
-          content: newComment,
-        })
-        .select(`*, user:users(*)`);
-      if (error) throw error;
-      if (data && data.length > 0) setComments([...comments, data[0]]);
-      setIntentions(
-        intentions.map((intention) =>
-          intention.id === intentionId
-            ? {
-                ...intention,
-                comments_count: (intention.comments_count || 0) + 1,
-              }
-            : intention,
-        ),
-      );
+      commentAdded(await addComment(newComment));
       setNewComment("");
     } catch (error: any) {
       console.error("Error adding comment:", error);
@@ -1428,6 +1265,7 @@ export default function CommunityScreen() {
       });
       setDeleteModal({ isOpen: false, intentionId: null });
       fetchIntentions();
+      refreshReminders();
     } catch (error: any) {
       console.error("Error deleting intention:", error);
       setNotification({
@@ -1594,7 +1432,7 @@ export default function CommunityScreen() {
         setFriendTab("search");
         break;
       case "lent":
-        router.push("/Lent2025");
+        router.push("/SeasonalChallenge");
         break;
       case "groups":
         router.push("/groups");
@@ -1613,19 +1451,19 @@ export default function CommunityScreen() {
   };
 
   const renderIntentionCard = ({ item }: { item: Intention }): JSX.Element => {
-    const scaleAnim = getLikeScaleAnimation(item.id);
-    const opacityAnim = getLikeOpacityAnimation(item.id);
     const isCommentsExpanded = expandedCommentId === item.id;
     return (
       <IntentionCard
-        item={item}
+        item={{ ...item, comments_count: getCommentCount({ type: "intentions", id: item.id }) }}
         currentUserId={currentUserId}
-        onLike={handleLikeIntention}
+        prayerCount={getPrayerCount(item.id)}
+        onPray={handlePrayIntention}
+        onShowPrayerList={setPrayerListIntention}
+        hasReminder={!!getReminder(item.id)}
+        onRemind={setReminderIntention}
         onComment={handleToggleComments}
         onEdit={handleEditIntention}
         onDelete={handleDeleteClick}
-        likeScaleAnim={scaleAnim}
-        likeOpacityAnim={opacityAnim}
         isCommentsExpanded={isCommentsExpanded}
         comments={comments}
         newComment={newComment}
@@ -2060,7 +1898,7 @@ export default function CommunityScreen() {
             </TouchableOpacity>
             <TouchableOpacity style={styles.fabMenuItem} onPress={() => handleFabOption("lent")}>
               <Feather name="book-open" size={22} color="#FAC898" />
-              <Text style={styles.fabMenuItemText}>Lent 2025</Text>
+              <Text style={styles.fabMenuItemText}>Seasonal Challenge</Text>
             </TouchableOpacity>
             <TouchableOpacity style={styles.fabMenuItem} onPress={() => handleFabOption("groups")}>
               <Feather name="users" size={22} color="#FAC898" />
@@ -2585,6 +2423,24 @@ export default function CommunityScreen() {
             </View>
           </View>
         </Modal>
+        <PrayerListModal
+          intention={prayerListIntention}
+          loadPrayerList={loadPrayerList}
+          onClose={() => setPrayerListIntention(null)}
+          backgroundColor="rgba(20, 18, 17, 0.99)"
+          color="#FAC898"
+          textColor="#FFFFFF"
+        />
+        <IntentionReminderModal
+          intention={reminderIntention}
+          reminder={reminderIntention ? getReminder(reminderIntention.id) : undefined}
+          onSave={handleSaveReminder}
+          onRemove={handleRemoveReminder}
+          onClose={() => setReminderIntention(null)}
+          backgroundColor="rgba(20, 18, 17, 0.99)"
+          color="#FAC898"
+          textColor="#FFFFFF"
+        />
         {isLoading && (
           <View style={styles.loadingOverlay}>
             <ActivityIndicator size="large" color="#FAC898" />
@@ -2719,28 +2575,12 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingVertical: 5,
   },
-  intentionActionActive: { opacity: 1 },
-  likeButtonContainer: {
-    position: "relative",
-    width: 26,
-    height: 26,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  likeRipple: {
-    position: "absolute",
-    width: 26,
-    height: 26,
-    borderRadius: 13,
-    backgroundColor: "rgba(233, 150, 122, 0.3)",
-  },
   actionText: {
     color: "rgba(255, 255, 255, 0.8)",
     fontSize: 12,
     marginLeft: 6,
     fontWeight: "500",
   },
-  actionTextActive: { color: "#E9967A" },
   groupTag: {
     flexDirection: "row",
     alignItems: "center",
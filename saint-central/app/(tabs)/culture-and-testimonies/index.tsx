@@ -181,6 +181,7 @@ const CulturePage: React.FC = () => {
     "Charity",
     "Christ in Work",
     "Apologetics",
+    "Testimonies",
   ];
 
   // Progress bar interpolation
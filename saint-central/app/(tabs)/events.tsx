@@ -76,6 +76,8 @@ function EventsComponent() {
 
   // States
   const [events, setEvents] = useState<Event[]>([]);
+  // Past events the user marked as attended, counted on the statistics screen
+  const [attendedEventIds, setAttendedEventIds] = useState<Set<number>>(new Set());
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
@@ -357,6 +359,18 @@ function EventsComponent() {
       }
 
       setEvents(data || []);
+
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (user) {
+        const { data: attendance, error: attendanceError } = await supabase
+          .from("event_attendance")
+          .select("event_id")
+          .eq("user_id", user.id);
+        if (attendanceError) throw attendanceError;
+        setAttendedEventIds(new Set((attendance || []).map((a) => a.event_id as number)));
+      }
     } catch (error) {
       console.error("Error fetching events:", error);
       Alert.alert("Error", "Failed to load events. Please try again later.");
@@ -653,6 +667,38 @@ function EventsComponent() {
     return { icon: "calendar", color: theme.accent1 };
   };
 
+  const toggleAttendance = async (event: Event) => {
+    const attended = attendedEventIds.has(event.id);
+    const updateIds = (add: boolean) =>
+      setAttendedEventIds((ids) => {
+        const next = new Set(ids);
+        if (add) next.add(event.id);
+        else next.delete(event.id);
+        return next;
+      });
+
+    updateIds(!attended);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not signed in");
+
+      const { error } = attended
+        ? await supabase
+            .from("event_attendance")
+            .delete()
+            .eq("event_id", event.id)
+            .eq("user_id", user.id)
+        : await supabase.from("event_attendance").insert({ event_id: event.id, user_id: user.id });
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error updating attendance:", error);
+      updateIds(attended);
+      Alert.alert("Error", "Failed to update attendance. Please try again.");
+    }
+  };
+
   const openImageViewer = (imageUrl: string) => {
     setSelectedImage(imageUrl);
     setShowImageModal(true);
@@ -699,6 +745,19 @@ function EventsComponent() {
             </Text>
           )}
           <View style={styles.eventActions}>
+            {new Date(event.time) <= new Date() && (
+              <TouchableOpacity
+                style={styles.eventActionButton}
+                onPress={() => toggleAttendance(event)}
+              >
+                <Feather
+                  name={attendedEventIds.has(event.id) ? "check-circle" : "circle"}
+                  size={16}
+                  color={attendedEventIds.has(event.id) ? theme.success : theme.textMedium}
+                />
+                <Text style={styles.actionButtonText}>Attended</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity style={styles.eventActionButton} onPress={() => openEditModal(event)}>
               <Feather name="edit-2" size={16} color={theme.textMedium} />
               <Text style={styles.actionButtonText}>Edit</Text>
@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { router } from "expo-router";
+import { Feather } from "@expo/vector-icons";
+import theme from "../../theme";
+import PrayedButton from "@/components/prayer/PrayedButton";
+import { useIntentionPrayers } from "@/hooks/useIntentionPrayers";
+import { useIntentionReminders } from "@/hooks/useIntentionReminders";
+import { describeReminder, getTodaysPrayerList } from "@/utils/prayer/intentionReminders";
+
+/**
+ * Today's prayer list: every intention the user set a reminder for that is
+ * due today, whether their own or a friend's
+ */
+export default function PrayerList() {
+  const { reminders, loading, refresh } = useIntentionReminders();
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+
+  const today = useMemo(() => new Date(), []);
+  const list = useMemo(() => getTodaysPrayerList(reminders, today), [reminders, today]);
+  const {
+    getCount,
+    togglePrayed,
+    refresh: refreshPrayers,
+  } = useIntentionPrayers(list.map(({ intention_id }) => intention_id));
+
+  // Only others' intentions can be marked prayed for
+  const othersIntentions = list.filter(({ intention, user_id }) => intention?.user_id !== user_id);
+  const prayedCount = othersIntentions.filter(
+    ({ intention_id }) => getCount(intention_id).prayed_today,
+  ).length;
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([refresh(), refreshPrayers()]);
+    setRefreshing(false);
+  };
+
+  const handlePray = async (intentionId: string) => {
+    try {
+      await togglePrayed(intentionId);
+    } catch (error) {
+      console.error("Error praying for intention:", error);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Feather name="arrow-left" size={22} color={theme.neutral50} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Today's Prayer List</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color={theme.tertiary} />
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={theme.tertiary}
+            />
+          }
+        >
+          <Text style={styles.dateText}>
+            {today.toLocaleDateString(undefined, {
+              weekday: "long",
+              month: "long",
+              day: "numeric",
+            })}
+          </Text>
+
+          {list.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Nothing on your list today. Tap the bell on an intention to be reminded to pray for
+              it.
+            </Text>
+          ) : (
+            <>
+              {othersIntentions.length > 0 && (
+                <Text style={styles.progressText}>
+                  Prayed for {prayedCount} of {othersIntentions.length} intentions from others
+                </Text>
+              )}
+              {list.map((reminder) => {
+                const intention = reminder.intention!;
+                const author = intention.user
+                  ? `${intention.user.first_name || ""} ${intention.user.last_name || ""}`.trim()
+                  : "";
+                return (
+                  <View key={reminder.id} style={styles.card}>
+                    <View style={styles.cardHeader}>
+                      <Feather name="bell" size={14} color={theme.tertiary} />
+                      <Text style={styles.reminderText}>{describeReminder(reminder)}</Text>
+                    </View>
+                    <Text style={styles.cardTitle}>{intention.title}</Text>
+                    {!!author && intention.user_id !== reminder.user_id && (
+                      <Text style={styles.authorText}>For {author}</Text>
+                    )}
+                    {!!intention.description && (
+                      <Text style={styles.description} numberOfLines={3}>
+                        {intention.description}
+                      </Text>
+                    )}
+                    <View style={styles.cardFooter}>
+                      <PrayedButton
+                        count={getCount(intention.id)}
+                        isAuthor={intention.user_id === reminder.user_id}
+                        onPray={() => handlePray(intention.id)}
+                        color={theme.tertiary}
+                        textColor={theme.neutral300}
+                      />
+                    </View>
+                  </View>
+                );
+              })}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.neutral900 },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    paddingTop: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: `${theme.tertiary}33`,
+  },
+  headerButton: { width: 36, height: 36, alignItems: "center", justifyContent: "center" },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "300",
+    color: theme.textWhite,
+    textAlign: "center",
+    letterSpacing: 1,
+  },
+  loading: { marginTop: 48 },
+  content: { padding: 16, paddingBottom: 32 },
+  dateText: { fontSize: 15, color: theme.neutral300, marginBottom: 4 },
+  progressText: { fontSize: 13, color: theme.neutral400, marginBottom: 16 },
+  card: {
+    backgroundColor: theme.neutral800,
+    borderRadius: theme.radiusLarge,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: { flexDirection: "row", alignItems: "center", gap: 6, marginBottom: 8 },
+  reminderText: { fontSize: 12, color: theme.tertiary },
+  cardTitle: { fontSize: 18, fontWeight: "600", color: theme.textWhite },
+  authorText: { fontSize: 13, color: theme.neutral400, marginTop: 2 },
+  description: { fontSize: 15, color: theme.neutral200, marginTop: 8, lineHeight: 21 },
+  cardFooter: { flexDirection: "row", marginTop: 12 },
+  emptyText: { fontSize: 15, color: theme.neutral400, textAlign: "center", marginVertical: 32 },
+});
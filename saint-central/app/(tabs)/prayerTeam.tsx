@@ -0,0 +1,244 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from "react-native";
+import { router } from "expo-router";
+import { Feather } from "@expo/vector-icons";
+import theme from "../../theme";
+import { PrayerTeamRequest } from "@/types/prayer";
+import { usePrayerTeamQueue } from "@/hooks/usePrayerTeam";
+
+const STATUS_LABELS = {
+  waiting: "Waiting",
+  claimed: "Claimed",
+  prayed: "Prayed",
+};
+
+/**
+ * The prayer team's queue of confidential requests sent to the church. Team
+ * members claim a request, pray for it and mark it prayed; its author sees
+ * only where it is, never who handled it.
+ */
+export default function PrayerTeam() {
+  const {
+    teamChurches,
+    churchId,
+    setChurchId,
+    queue,
+    loading,
+    refresh,
+    claim,
+    release,
+    markPrayed,
+  } = usePrayerTeamQueue();
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
+
+  const run = async (intentionId: string, action: () => Promise<void>) => {
+    setBusyId(intentionId);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Error updating prayer request:", error);
+      Alert.alert("Error", "Couldn't update this request. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleClaim = (intentionId: string) =>
+    run(intentionId, async () => {
+      if (!(await claim(intentionId))) {
+        Alert.alert("Already claimed", "Another member of the prayer team claimed this request.");
+      }
+    });
+
+  const renderActions = (request: PrayerTeamRequest) => {
+    if (busyId === request.intention_id) {
+      return <ActivityIndicator color={theme.tertiary} />;
+    }
+    if (request.status === "waiting") {
+      return (
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => handleClaim(request.intention_id)}
+        >
+          <Text style={styles.primaryButtonText}>Claim</Text>
+        </TouchableOpacity>
+      );
+    }
+    if (request.status === "claimed" && request.claimed_by_me) {
+      return (
+        <>
+          <TouchableOpacity
+            style={styles.textButton}
+            onPress={() => run(request.intention_id, () => release(request.intention_id))}
+          >
+            <Text style={styles.textButtonText}>Give Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => run(request.intention_id, () => markPrayed(request.intention_id))}
+          >
+            <Text style={styles.primaryButtonText}>Mark Prayed</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Feather name="arrow-left" size={22} color={theme.neutral50} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Prayer Team</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color={theme.tertiary} />
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={theme.tertiary}
+            />
+          }
+        >
+          {teamChurches.length > 1 && (
+            <View style={styles.chips}>
+              {teamChurches.map((church) => (
+                <TouchableOpacity
+                  key={church.id}
+                  style={[styles.chip, church.id === churchId && styles.activeChip]}
+                  onPress={() => setChurchId(church.id)}
+                >
+                  <Text style={styles.chipText}>{church.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {teamChurches.length === 0 ? (
+            <Text style={styles.emptyText}>
+              You aren't on a church prayer team. Your church can add you by giving you the "Prayer
+              Team" role.
+            </Text>
+          ) : queue.length === 0 ? (
+            <Text style={styles.emptyText}>No prayer requests right now.</Text>
+          ) : (
+            queue.map((request) => (
+              <View key={request.intention_id} style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <Feather name="shield" size={14} color={theme.tertiary} />
+                  <Text style={styles.statusText}>
+                    {request.status === "claimed" && request.claimed_by_me
+                      ? "Claimed by you"
+                      : STATUS_LABELS[request.status]}
+                  </Text>
+                  <Text style={styles.dateText}>
+                    {new Date(request.created_at).toLocaleDateString()}
+                  </Text>
+                </View>
+                <Text style={styles.cardTitle}>{request.title}</Text>
+                <Text style={styles.authorText}>{request.author_name || "Anonymous"}</Text>
+                {!!request.description && (
+                  <Text style={styles.description}>{request.description}</Text>
+                )}
+                <View style={styles.cardFooter}>{renderActions(request)}</View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.neutral900 },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    paddingTop: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: `${theme.tertiary}33`,
+  },
+  headerButton: { width: 36, height: 36, alignItems: "center", justifyContent: "center" },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "300",
+    color: theme.textWhite,
+    textAlign: "center",
+    letterSpacing: 1,
+  },
+  loading: { marginTop: 48 },
+  content: { padding: 16, paddingBottom: 32 },
+  chips: { flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 16 },
+  chip: {
+    borderWidth: 1,
+    borderColor: `${theme.tertiary}66`,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  activeChip: { backgroundColor: `${theme.tertiary}33` },
+  chipText: { fontSize: 13, color: theme.neutral50 },
+  card: {
+    backgroundColor: theme.neutral800,
+    borderRadius: theme.radiusLarge,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: { flexDirection: "row", alignItems: "center", gap: 6, marginBottom: 8 },
+  statusText: { fontSize: 12, color: theme.tertiary, flex: 1 },
+  dateText: { fontSize: 12, color: theme.neutral400 },
+  cardTitle: { fontSize: 18, fontWeight: "600", color: theme.textWhite },
+  authorText: { fontSize: 13, color: theme.neutral400, marginTop: 2 },
+  description: { fontSize: 15, color: theme.neutral200, marginTop: 8, lineHeight: 21 },
+  cardFooter: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 12,
+  },
+  textButton: { paddingVertical: 8, paddingHorizontal: 12 },
+  textButtonText: { fontSize: 15, color: theme.neutral300 },
+  primaryButton: {
+    backgroundColor: theme.tertiary,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  primaryButtonText: { color: "#FFFFFF", fontSize: 15, fontWeight: "600" },
+  emptyText: { fontSize: 15, color: theme.neutral400, textAlign: "center", marginVertical: 32 },
+});
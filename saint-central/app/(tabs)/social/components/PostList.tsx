@@ -21,6 +21,11 @@ interface PostListProps {
   isLoading: boolean;
   scrollY?: Animated.Value;
   onCommentPress: (postData: Post) => void;
+  // Infinite scroll: called near the end of the list while more posts remain
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
+  hasMore?: boolean;
+  onRefresh?: () => Promise<void>;
 }
 
 const PostList: React.FC<PostListProps> = ({
@@ -31,6 +36,10 @@ const PostList: React.FC<PostListProps> = ({
   isLoading,
   scrollY = new Animated.Value(0),
   onCommentPress,
+  onLoadMore,
+  isLoadingMore = false,
+  hasMore = false,
+  onRefresh: refreshPosts,
 }) => {
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const insets = useSafeAreaInsets();
@@ -58,13 +67,18 @@ const PostList: React.FC<PostListProps> = ({
     // Handled by navigation in the PostCard component
   };
 
-  const onRefresh = React.useCallback(() => {
+  const onRefresh = React.useCallback(async () => {
     setRefreshing(true);
-    // In a real app, you would refetch the data here
-    setTimeout(() => {
+    try {
+      await refreshPosts?.();
+    } finally {
       setRefreshing(false);
-    }, 1000);
-  }, []);
+    }
+  }, [refreshPosts]);
+
+  const handleEndReached = () => {
+    if (hasMore && !isLoadingMore) onLoadMore?.();
+  };
 
   // Set up the animated scroll event
   const handleScroll = Animated.event([{ nativeEvent: { contentOffset: { y: scrollY } } }], {
@@ -115,6 +129,15 @@ const PostList: React.FC<PostListProps> = ({
       showsVerticalScrollIndicator={false}
       onScroll={handleScroll}
       scrollEventThrottle={16}
+      onEndReached={handleEndReached}
+      onEndReachedThreshold={0.5}
+      ListFooterComponent={
+        isLoadingMore ? (
+          <View style={styles.loadingMore}>
+            <ActivityIndicator size="small" color="#3182CE" />
+          </View>
+        ) : null
+      }
       refreshControl={
         <RefreshControl
           refreshing={refreshing}
@@ -131,6 +154,10 @@ const styles = StyleSheet.create({
   listContainer: {
     paddingTop: 8,
   },
+  loadingMore: {
+    paddingVertical: 20,
+    alignItems: "center",
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: "center",
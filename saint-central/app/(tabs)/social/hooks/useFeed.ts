@@ -1,18 +1,74 @@
-import { useState, useEffect } from "react";
-import { Post, PostType, Comment, Group } from "../types";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Post, PostType } from "../types";
 import { supabase } from "../../../../supabaseClient";
 import { parseSelectedGroups } from "../utils/formatters";
+import { FeedCursor, appendFeedPage, fetchFeedPage } from "../../../../utils/social/feed";
+import { useCommentCounts, useComments } from "../../../../hooks/useComments";
+import { useLikes } from "../../../../hooks/useLikes";
+import { EngagementTarget, LikeSummary } from "../../../../types/engagement";
+import { targetKey } from "../../../../utils/social/engagement";
 
 export default function useFeed() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
   const [filter, setFilter] = useState<"all" | "mine" | "friends" | "groups">("all");
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [expandedPostId, setExpandedPostId] = useState<string | null>(null);
-  const [comments, setComments] = useState<Comment[]>([]);
-  const [commentsLoading, setCommentsLoading] = useState<boolean>(false);
-  const [userGroups, setUserGroups] = useState<Group[]>([]);
-  const [groupsLoaded, setGroupsLoaded] = useState<boolean>(false);
+  const {
+    comments,
+    loading: commentsLoading,
+    addComment,
+  } = useComments(expandedPostId ? { type: "intentions", id: expandedPostId } : null);
+
+  const postTargets = useMemo(
+    () => posts.map(({ id }): EngagementTarget => ({ type: "intentions", id })),
+    [posts],
+  );
+  // The counts that came with each page, kept up to date in realtime
+  const likeSeeds = useMemo(
+    () =>
+      Object.fromEntries(
+        posts.map((post): [string, LikeSummary] => [
+          targetKey({ type: "intentions", id: post.id }),
+          { count: post.likes_count ?? 0, liked: !!post.is_liked },
+        ]),
+      ),
+    [posts],
+  );
+  const commentSeeds = useMemo(
+    () =>
+      Object.fromEntries(
+        posts.map((post) => [
+          targetKey({ type: "intentions", id: post.id }),
+          post.comments_count ?? 0,
+        ]),
+      ),
+    [posts],
+  );
+  const { getLikes, toggleLike } = useLikes(postTargets, likeSeeds);
+  const { getCommentCount, commentAdded } = useCommentCounts(postTargets, commentSeeds);
+  // Posts with their likes and comment counts
+  const postsWithEngagement = useMemo(
+    () =>
+      posts.map((post) => {
+        const target: EngagementTarget = { type: "intentions", id: post.id };
+        const likes = getLikes(target, { count: post.likes_count ?? 0, liked: !!post.is_liked });
+        return {
+          ...post,
+          likes_count: likes.count,
+          is_liked: likes.liked,
+          comments_count: getCommentCount(target, post.comments_count ?? 0),
+        };
+      }),
+    [posts, getLikes, getCommentCount],
+  );
+
+  // Where the next page starts; null once every post is loaded
+  const cursorRef = useRef<FeedCursor | null>(null);
+  const postTypeRef = useRef<PostType | undefined>(undefined);
+  // Responses to an older filter or refresh are dropped
+  const requestRef = useRef<number>(0);
 
   // Get current user
   useEffect(() => {
@@ -27,37 +83,10 @@ export default function useFeed() {
     getCurrentUser();
   }, []);
 
-  // Fetch user groups
-  useEffect(() => {
-    if (currentUserId) fetchUserGroups();
-  }, [currentUserId]);
-
-  const fetchUserGroups = async (): Promise<void> => {
-    try {
-      if (!currentUserId) return;
-      const { data, error } = await supabase
-        .from("group_members")
-        .select("group:groups(*)")
-        .eq("user_id", currentUserId);
-      if (error) throw error;
-      const groups = data.map((item: any) => item.group);
-      setUserGroups(groups || []);
-      setGroupsLoaded(true);
-    } catch (error: any) {
-      console.error("Error fetching user groups:", error);
-    }
-  };
-
   // Fetch posts based on the selected filter
   useEffect(() => {
-    if (filter === "all" && !groupsLoaded) return;
     fetchPosts();
-  }, [filter, groupsLoaded]);
-
-  // Fetch comments when a post is expanded
-  useEffect(() => {
-    if (expandedPostId) fetchComments(expandedPostId);
-  }, [expandedPostId]);
+  }, [filter]);
 
   const getHeaderTitle = (): string => {
     switch (filter) {
@@ -72,321 +101,61 @@ export default function useFeed() {
     }
   };
 
+  const loadPage = async (cursor: FeedCursor | null) => {
+    const page = await fetchFeedPage<Post>(filter, cursor, postTypeRef.current);
+    return {
+      ...page,
+      posts: page.posts.map((post) => ({
+        ...post,
+        selectedGroups: parseSelectedGroups(post.selected_groups),
+      })),
+    };
+  };
+
+  // Load the first page, replacing the posts shown
   const fetchPosts = async (type?: PostType): Promise<void> => {
+    const request = ++requestRef.current;
     try {
       setIsLoading(true);
-      const {
-        data: { user },
-        error: authError,
-      } = await supabase.auth.getUser();
-      if (authError) throw authError;
-      if (!user) throw new Error("Not authenticated");
-
-      // First, fetch all posts with their user data
-      let query = supabase
-        .from("intentions") // Using the same table name as in the original code
-        .select(`*, user:users (*), visibility, selected_groups`)
-        .order("created_at", { ascending: false });
-
-      // Apply filter based on current tab
-      if (type) query = query.eq("type", type);
-
-      // Get all posts first
-      const { data: allPosts, error } = await query;
-      if (error) throw error;
-
-      // Get user's friends
-      const { data: sentFriends, error: sentError } = await supabase
-        .from("friends")
-        .select("user_id_2")
-        .eq("user_id_1", user.id)
-        .eq("status", "accepted");
-      if (sentError) throw sentError;
-
-      const { data: receivedFriends, error: receivedError } = await supabase
-        .from("friends")
-        .select("user_id_1")
-        .eq("user_id_2", user.id)
-        .eq("status", "accepted");
-      if (receivedError) throw receivedError;
-
-      // Create a set of friend IDs
-      const friendIds = new Set<string>();
-      if (sentFriends) {
-        sentFriends.forEach((row: { user_id_2: string }) => {
-          friendIds.add(row.user_id_2);
-        });
-      }
-      if (receivedFriends) {
-        receivedFriends.forEach((row: { user_id_1: string }) => {
-          friendIds.add(row.user_id_1);
-        });
-      }
-
-      // Get user's group memberships and group members
-      const userGroupIds = userGroups.map((group) => group.id);
-      const { data: groupMembers, error: membersError } = await supabase
-        .from("group_members")
-        .select("user_id, group_id")
-        .in("group_id", userGroupIds.length > 0 ? userGroupIds : [""]);
-      if (membersError) throw membersError;
-
-      // Create a map of group ID to member IDs
-      const groupMembersMap = new Map<string, Set<string>>();
-      if (groupMembers) {
-        groupMembers.forEach((member: { user_id: string; group_id: string }) => {
-          if (!groupMembersMap.has(member.group_id)) {
-            groupMembersMap.set(member.group_id, new Set<string>());
-          }
-          groupMembersMap.get(member.group_id)?.add(member.user_id);
-        });
-      }
-
-      // Filter posts based on visibility settings and current filter
-      const filteredPosts = allPosts?.filter((post: any) => {
-        // Parse selected groups
-        const selectedGroups = parseSelectedGroups(post.selected_groups);
-
-        // Current user's own posts always visible
-        if (post.user_id === user.id) {
-          return true;
-        }
-
-        // Apply filter specific filtering
-        if (filter === "mine") {
-          return post.user_id === user.id;
-        } else if (filter === "friends") {
-          // In friends filter, only show posts from friends that are visible to friends
-          return (
-            friendIds.has(post.user_id) &&
-            (post.visibility === "Friends" || post.visibility === "Friends & Groups")
-          );
-        } else if (filter === "groups") {
-          // In groups filter, show only posts from group members that are visible to groups
-          let isInSameGroup = false;
-          // Check if post owner is in any of user's groups
-          for (const groupId of userGroupIds) {
-            const membersOfGroup = groupMembersMap.get(groupId);
-            if (membersOfGroup && membersOfGroup.has(post.user_id)) {
-              isInSameGroup = true;
-              break;
-            }
-          }
-
-          // For "Certain Groups", check if the current user is in one of the selected groups
-          if (post.visibility === "Certain Groups") {
-            // If no groups are selected, don't show the post
-            if (!selectedGroups || selectedGroups.length === 0) return false;
-
-            // Convert all to strings for consistent comparison
-            const userGroupIdsStr = userGroupIds.map((id) => String(id));
-            const selectedGroupsStr = selectedGroups.map((id) => String(id));
-
-            // Check if there's any overlap between user's groups and post's selected groups
-            const isInSelectedGroup = selectedGroupsStr.some((groupId) =>
-              userGroupIdsStr.includes(groupId),
-            );
-
-            return isInSelectedGroup;
-          }
-
-          return (
-            isInSameGroup &&
-            (post.visibility === "Friends & Groups" || post.visibility === "Certain Groups")
-          );
-        } else if (filter === "all") {
-          // In "all" filter, show:
-          // 1. All of the user's own posts
-          // 2. Posts visible to the user based on visibility settings
-
-          switch (post.visibility) {
-            case "Just Me":
-              // Only visible to creator
-              return post.user_id === user.id;
-
-            case "Friends":
-              // Visible to creator and friends
-              return post.user_id === user.id || friendIds.has(post.user_id);
-
-            case "Certain Groups":
-              // Visible to creator and members of selected groups
-              if (post.user_id === user.id) return true;
-
-              // If no groups are selected, only show to creator
-              if (!selectedGroups || selectedGroups.length === 0) return post.user_id === user.id;
-
-              // Convert all to strings for consistent comparison
-              const userGroupIdsStr = userGroupIds.map((id) => String(id));
-              const selectedGroupsStr = selectedGroups.map((id) => String(id));
-
-              // Check if there's any overlap between user's groups and post's selected groups
-              return selectedGroupsStr.some((groupId) => userGroupIdsStr.includes(groupId));
-
-            case "Friends & Groups":
-              // Visible to creator, friends, and group members
-              if (post.user_id === user.id || friendIds.has(post.user_id)) {
-                return true;
-              }
-
-              // Check if user is in same group as post creator
-              for (const groupId of userGroupIds) {
-                const membersOfGroup = groupMembersMap.get(groupId);
-                if (membersOfGroup && membersOfGroup.has(post.user_id)) {
-                  return true;
-                }
-              }
-              return false;
-
-            default:
-              return false;
-          }
-        }
-
-        return false;
-      });
-
-      // Get like and comment counts, check if user has liked each post
-      const postsWithCounts = await Promise.all(
-        (filteredPosts || []).map(async (post: any) => {
-          const { count: likesCount, error: likesError } = await supabase
-            .from("likes")
-            .select("*", { count: "exact", head: false })
-            .eq("likeable_id", post.id)
-            .eq("likeable_type", "intentions");
-          if (likesError) throw likesError;
-
-          const { count: commentsCount, error: commentsError } = await supabase
-            .from("comments")
-            .select("*", { count: "exact", head: false })
-            .eq("commentable_id", post.id)
-            .eq("commentable_type", "intentions");
-          if (commentsError) throw commentsError;
-
-          const { data: userLike, error: userLikeError } = await supabase
-            .from("likes")
-            .select("id")
-            .eq("likeable_id", post.id)
-            .eq("likeable_type", "intentions")
-            .eq("user_id", user.id)
-            .maybeSingle();
-          if (userLikeError) throw userLikeError;
-
-          let groupInfo = null;
-          if (userGroups.length > 0) {
-            const isNotFriend = !friendIds.has(post.user_id);
-            const showGroupInfo =
-              (filter === "groups" && post.user_id !== user.id) ||
-              (post.user_id !== user.id && isNotFriend);
-
-            if (showGroupInfo) {
-              const { data: userGroupData, error: userGroupError } = await supabase
-                .from("group_members")
-                .select("group_id")
-                .eq("user_id", post.user_id);
-              if (userGroupError) throw userGroupError;
-
-              const { data: currentUserGroups, error: currentUserGroupError } = await supabase
-                .from("group_members")
-                .select("group_id")
-                .eq("user_id", user.id);
-              if (currentUserGroupError) throw currentUserGroupError;
-
-              if (userGroupData && currentUserGroups) {
-                const userGroupIds = userGroupData.map((g) => g.group_id);
-                const currentUserGroupIds = currentUserGroups.map((g) => g.group_id);
-                const sharedGroupIds = userGroupIds.filter((id) =>
-                  currentUserGroupIds.includes(id),
-                );
-
-                if (sharedGroupIds.length > 0) {
-                  const { data: groupData, error: groupError } = await supabase
-                    .from("groups")
-                    .select("*")
-                    .eq("id", sharedGroupIds[0])
-                    .single();
-                  if (!groupError && groupData) {
-                    groupInfo = groupData;
-                  }
-                }
-              }
-            }
-          }
-
-          return {
-            ...post,
-            likes_count: likesCount,
-            comments_count: commentsCount,
-            is_liked: !!userLike,
-            group_info: groupInfo,
-            selectedGroups: parseSelectedGroups(post.selected_groups),
-          };
-        }),
-      );
-
-      setPosts(postsWithCounts || []);
+      postTypeRef.current = type;
+      const firstPage = await loadPage(null);
+      if (request !== requestRef.current) return;
+      cursorRef.current = firstPage.nextCursor;
+      setPosts(firstPage.posts);
     } catch (error: any) {
       console.error("Error fetching posts:", error);
-      setPosts([]);
+      if (request === requestRef.current) setPosts([]);
     } finally {
-      setIsLoading(false);
+      if (request === requestRef.current) setIsLoading(false);
     }
   };
 
-  const fetchComments = async (postId: string): Promise<void> => {
+  // Load the page after the posts shown, for infinite scroll
+  const loadMorePosts = async (): Promise<void> => {
+    if (isLoading || isLoadingMore || !cursorRef.current) return;
+
+    const request = requestRef.current;
     try {
-      setCommentsLoading(true);
-      const { data, error } = await supabase
-        .from("comments")
-        .select(`*, user:users(*)`)
-        .eq("commentable_id", postId)
-        .eq("commentable_type", "intentions")
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      setComments(data || []);
+      setIsLoadingMore(true);
+      const nextPage = await loadPage(cursorRef.current);
+      if (request !== requestRef.current) return;
+      cursorRef.current = nextPage.nextCursor;
+      setPosts((prev) => appendFeedPage(prev, nextPage.posts));
     } catch (error: any) {
-      console.error("Error fetching comments:", error);
-      setComments([]);
+      console.error("Error fetching more posts:", error);
     } finally {
-      setCommentsLoading(false);
+      setIsLoadingMore(false);
     }
   };
 
+  const refreshPosts = (): Promise<void> => fetchPosts(postTypeRef.current);
+
   const handleLikePost = async (postId: string, isLiked: boolean): Promise<void> => {
     try {
-      const {
-        data: { user },
-        error: authError,
-      } = await supabase.auth.getUser();
-      if (authError) throw authError;
-      if (!user) throw new Error("Not authenticated");
-
-      if (isLiked) {
-        const { error } = await supabase
-          .from("likes")
-          .delete()
-          .eq("likeable_id", postId)
-          .eq("likeable_type", "intentions")
-          .eq("user_id", user.id);
-        if (error) throw error;
-      } else {
-        const { error } = await supabase.from("likes").insert({
-          user_id: user.id,
-          likeable_id: postId,
-          likeable_type: "intentions",
-        });
-        if (error) throw error;
-      }
-
-      setPosts(
-        posts.map((post) =>
-          post.id === postId
-            ? {
-                ...post,
-                is_liked: !isLiked,
-                likes_count: isLiked ? (post.likes_count || 1) - 1 : (post.likes_count || 0) + 1,
-              }
-            : post,
-        ),
+      const post = posts.find(({ id }) => id === postId);
+      await toggleLike(
+        { type: "intentions", id: postId },
+        { count: post?.likes_count ?? 0, liked: isLiked },
       );
     } catch (error: any) {
       console.error("Error toggling like:", error);
@@ -394,43 +163,10 @@ export default function useFeed() {
   };
 
   const handleAddComment = async (postId: string, commentText: string): Promise<void> => {
-    if (!commentText.trim()) return;
+    if (!commentText.trim() || postId !== expandedPostId) return;
 
     try {
-      const {
-        data: { user },
-        error: authError,
-      } = await supabase.auth.getUser();
-      if (authError) throw authError;
-      if (!user) throw new Error("Not authenticated");
-
-      const { data, error } = await supabase
-        .from("comments")
-        .insert({
-          user_id: user.id,
-          commentable_id: postId,
-          commentable_type: "intentions",
-          content: commentText,
-        })
-        .select(`*, user:users(*)`);
-
-      if (error) throw error;
-
-      if (data && data.length > 0) {
-        setComments([data[0], ...comments]);
-
-        // Update comment count in posts
-        setPosts(
-          posts.map((post) =>
-            post.id === postId
-              ? {
-                  ...post,
-                  comments_count: (post.comments_count || 0) + 1,
-                }
-              : post,
-          ),
-        );
-      }
+      commentAdded(await addComment(commentText));
     } catch (error: any) {
       console.error("Error adding comment:", error);
     }
@@ -441,8 +177,12 @@ export default function useFeed() {
   };
 
   return {
-    posts,
+    posts: postsWithEngagement,
     isLoading,
+    isLoadingMore,
+    hasMorePosts: !!cursorRef.current,
+    loadMorePosts,
+    refreshPosts,
     filter,
     setFilter,
     currentUserId,
@@ -15,18 +15,31 @@ import {
   RefreshControl,
 } from "react-native";
 import { Feather } from "@expo/vector-icons";
-import { Post, Comment } from "../types";
+import { Post } from "../types";
 import Avatar from "../components/ui/Avatar";
 import { formatDateTime } from "../utils/formatters";
 import { supabase } from "../../../../supabaseClient";
 import { useLocalSearchParams, router, useFocusEffect } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useComments } from "../../../../hooks/useComments";
+import { useLikes } from "../../../../hooks/useLikes";
+import { EngagementComment, EngagementTarget } from "../../../../types/engagement";
+import { formatCommentAuthor } from "../../../../utils/social/engagement";
+
+// The post passed in the route params, or null when it can't be read
+const parsePostParam = (postData: string | string[] | undefined): Post | null => {
+  try {
+    return JSON.parse(postData as string);
+  } catch {
+    return null;
+  }
+};
 
 const CommentsScreen = () => {
   const params = useLocalSearchParams();
   const insets = useSafeAreaInsets();
   const [keyboardVisible, setKeyboardVisible] = useState(false);
-  const flatListRef = useRef<FlatList<Comment>>(null);
+  const flatListRef = useRef<FlatList<EngagementComment>>(null);
   const inputRef = useRef(null);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -65,10 +78,17 @@ const CommentsScreen = () => {
   const commentBoxBottom = useRef(new Animated.Value(insets.bottom + navBarOffset)).current;
 
   // Parse the post data from params.
-  let post: Post;
-  try {
-    post = JSON.parse(params.postData as string);
-  } catch (error) {
+  const post = parsePostParam(params.postData);
+  const target: EngagementTarget | null = post ? { type: "intentions", id: String(post.id) } : null;
+  const {
+    comments,
+    loading: isLoading,
+    refresh: refreshComments,
+    addComment,
+  } = useComments(target);
+  const { getLikes } = useLikes(target);
+
+  if (!post) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.header}>
@@ -88,9 +108,7 @@ const CommentsScreen = () => {
     );
   }
 
-  const [comments, setComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState("");
-  const [isLoading, setIsLoading] = useState(true);
   const [isSending, setIsSending] = useState(false);
   const [currentUser, setCurrentUser] = useState(null);
 
@@ -131,11 +149,6 @@ const CommentsScreen = () => {
     };
   }, [commentBoxBottom, insets.bottom]);
 
-  useEffect(() => {
-    setComments([]);
-    fetchComments();
-  }, [post.id]);
-
   useEffect(() => {
     const fetchCurrentUser = async () => {
       try {
@@ -163,51 +176,12 @@ const CommentsScreen = () => {
     Keyboard.dismiss();
   };
 
-  const fetchComments = async () => {
-    try {
-      setIsLoading(true);
-      const postId = String(post.id);
-      const { data, error } = await supabase
-        .from("comments")
-        .select("*, user:users(*)")
-        .eq("commentable_id", postId)
-        .eq("commentable_type", "intentions")
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      setComments(data || []);
-    } catch (error) {
-      console.error("Error fetching comments:", error);
-      setComments([]);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const handleAddComment = async () => {
     if (!newComment.trim()) return;
     try {
       setIsSending(true);
-      const { data: userData } = await supabase.auth.getUser();
-      if (!userData?.user) {
-        console.error("User not authenticated");
-        return;
-      }
-      const postId = String(post.id);
-      const { data, error } = await supabase
-        .from("comments")
-        .insert({
-          user_id: userData.user.id,
-          commentable_id: postId,
-          commentable_type: "intentions",
-          content: newComment,
-        })
-        .select("*, user:users(*)")
-        .single();
-      if (error) throw error;
-      if (data) {
-        setComments((prevComments) => [data, ...prevComments]);
-        setNewComment("");
-      }
+      await addComment(newComment);
+      setNewComment("");
     } catch (error) {
       console.error("Error adding comment:", error);
     } finally {
@@ -217,7 +191,7 @@ const CommentsScreen = () => {
 
   const handleRefresh = async () => {
     setRefreshing(true);
-    await fetchComments();
+    await refreshComments();
     setRefreshing(false);
   };
 
@@ -247,7 +221,10 @@ const CommentsScreen = () => {
             <Text style={styles.statLabel}>Comments</Text>
           </View>
           <View style={styles.statItem}>
-            <Text style={styles.statValue}>{post.likes_count || 0}</Text>
+            <Text style={styles.statValue}>
+              {target &&
+                getLikes(target, { count: post.likes_count || 0, liked: !!post.is_liked }).count}
+            </Text>
             <Text style={styles.statLabel}>Likes</Text>
           </View>
         </View>
@@ -256,17 +233,17 @@ const CommentsScreen = () => {
     );
   };
 
-  const renderCommentItem = ({ item }: { item: Comment }) => (
+  const renderCommentItem = ({ item }: { item: EngagementComment }) => (
     <View style={styles.commentItem}>
       <View style={styles.commentAvatar}>
-        <Avatar size="md" imageUrl={(item.user as any).profile_image} />
+        <Avatar size="md" imageUrl={item.user?.profile_image ?? undefined} />
       </View>
       <View style={styles.commentContent}>
         <View style={styles.commentHeader}>
-          <Text style={styles.commentAuthor}>
-            {item.user.first_name} {item.user.last_name}
-          </Text>
-          <Text style={styles.commentUsername}>@{item.user.first_name.toLowerCase()}</Text>
+          <Text style={styles.commentAuthor}>{formatCommentAuthor(item.user)}</Text>
+          {item.user?.first_name && (
+            <Text style={styles.commentUsername}>@{item.user.first_name.toLowerCase()}</Text>
+          )}
           <Text style={styles.commentTime}>{formatDateTime(item.created_at)}</Text>
         </View>
         <Text style={styles.commentText}>{item.content}</Text>
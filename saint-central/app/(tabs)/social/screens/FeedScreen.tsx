@@ -21,7 +21,17 @@ import { Post } from "../types";
 const SIDEBAR_WIDTH = Dimensions.get("window").width * 0.8;
 
 const FeedScreen: React.FC = () => {
-  const { posts, isLoading, currentUserId, handleLikePost, getHeaderTitle } = useFeed();
+  const {
+    posts,
+    isLoading,
+    isLoadingMore,
+    hasMorePosts,
+    loadMorePosts,
+    refreshPosts,
+    currentUserId,
+    handleLikePost,
+    getHeaderTitle,
+  } = useFeed();
 
   const scrollY = useRef(new Animated.Value(0)).current;
   const insets = useSafeAreaInsets();
@@ -134,16 +144,19 @@ const FeedScreen: React.FC = () => {
           <ScrollView style={styles.sidebarContent} showsVerticalScrollIndicator={false}>
             <Text style={styles.sectionTitle}>Main Menu</Text>
 
-            <TouchableOpacity style={styles.menuItem} onPress={() => navigateToScreen("/Lent2025")}>
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => navigateToScreen("/SeasonalChallenge")}
+            >
               <View style={styles.menuIconContainer}>
                 <Feather name="calendar" size={20} color="#FFFFFF" />
               </View>
-              <Text style={styles.menuItemText}>Lent 2025</Text>
+              <Text style={styles.menuItemText}>Seasonal Challenge</Text>
             </TouchableOpacity>
 
             <TouchableOpacity
               style={styles.menuItem}
-              onPress={() => navigateToScreen("/rosary/screens/RosaryHome")}
+              onPress={() => navigateToScreen("/RosaryPrayer")}
             >
               <View style={[styles.menuIconContainer, { backgroundColor: "#9B82F7" }]}>
                 <Feather name="circle" size={20} color="#FFFFFF" />
@@ -206,6 +219,10 @@ const FeedScreen: React.FC = () => {
         isLoading={isLoading}
         scrollY={scrollY}
         onCommentPress={navigateToComments}
+        onLoadMore={loadMorePosts}
+        isLoadingMore={isLoadingMore}
+        hasMore={hasMorePosts}
+        onRefresh={refreshPosts}
       />
 
       {renderSidebar()}
@@ -29,6 +29,7 @@ export interface Post {
   is_liked?: boolean;
   group_info?: Group | null;
   visibility?: "Friends" | "Certain Groups" | "Just Me" | "Friends & Groups";
+  selected_groups?: string[] | null;
   selectedGroups?: string[];
 }
 
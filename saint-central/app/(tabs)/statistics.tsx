@@ -0,0 +1,357 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  RefreshControl,
+  useWindowDimensions,
+} from "react-native";
+import { router } from "expo-router";
+import { Feather } from "@expo/vector-icons";
+import { BarChart, LineChart } from "react-native-chart-kit";
+import { supabase } from "../../supabaseClient";
+import theme from "../../theme";
+import { useDenomination } from "@/hooks/useDenomination";
+import { ChallengeSeasonId } from "@/utils/liturgy/seasonalChallenges";
+import {
+  ACTIVITY_KINDS,
+  ACTIVITY_LABELS,
+  Activity,
+  ActivityKind,
+  countActivities,
+  fetchActivities,
+  getMonthlyTrend,
+  getSeasonComparisons,
+  getStreak,
+  getWeeklyTrend,
+  totalCount,
+} from "@/utils/prayer/statistics";
+
+// Seasons are compared over this many years
+const COMPARED_YEARS = 3;
+
+const ACTIVITY_ICONS: Record<ActivityKind, keyof typeof Feather.glyphMap> = {
+  task: "check-square",
+  intention: "heart",
+  chapter: "book-open",
+  rosary: "circle",
+  event: "calendar",
+};
+
+const chartConfig = {
+  backgroundGradientFrom: theme.neutral800,
+  backgroundGradientTo: theme.neutral800,
+  decimalPlaces: 0,
+  // theme.tertiary
+  color: (opacity = 1) => `rgba(216, 132, 107, ${opacity})`,
+  // theme.neutral300
+  labelColor: (opacity = 1) => `rgba(199, 185, 173, ${opacity})`,
+  propsForDots: { r: "4" },
+  barPercentage: 0.6,
+};
+
+type TrendRange = "weekly" | "monthly";
+
+export default function Statistics() {
+  const { width } = useWindowDimensions();
+  const chartWidth = width - 32;
+  const denomination = useDenomination();
+
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [trendRange, setTrendRange] = useState<TrendRange>("weekly");
+  const [seasonId, setSeasonId] = useState<ChallengeSeasonId>("lent");
+
+  const today = useMemo(() => new Date(), []);
+
+  const loadActivities = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const since = new Date(today.getFullYear() - COMPARED_YEARS + 1, 0, 1);
+      setActivities(await fetchActivities(user.id, since));
+      setError(null);
+    } catch (err) {
+      console.error("Error loading statistics:", err);
+      setError("Failed to load your statistics. Pull down to try again.");
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [today]);
+
+  useEffect(() => {
+    loadActivities();
+  }, [loadActivities]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadActivities();
+  };
+
+  const streak = useMemo(() => getStreak(activities, today), [activities, today]);
+  const yearCounts = useMemo(
+    () => countActivities(activities, new Date(today.getFullYear(), 0, 1), today),
+    [activities, today],
+  );
+  const trend = useMemo(
+    () =>
+      trendRange === "weekly"
+        ? getWeeklyTrend(activities, today)
+        : getMonthlyTrend(activities, today),
+    [activities, today, trendRange],
+  );
+  const seasons = useMemo(
+    () => getSeasonComparisons(activities, seasonId, today, denomination, COMPARED_YEARS),
+    [activities, seasonId, today, denomination],
+  );
+
+  // ---------------------
+  // RENDER HELPERS
+  // ---------------------
+  const renderToggle = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void,
+  ) => (
+    <View style={styles.toggle}>
+      {options.map(({ value, label }) => (
+        <TouchableOpacity
+          key={value}
+          style={[styles.toggleOption, selected === value && styles.toggleOptionActive]}
+          onPress={() => onSelect(value)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.toggleText, selected === value && styles.toggleTextActive]}>
+            {label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderStreaks = () => (
+    <View style={styles.streakRow}>
+      <View style={styles.streakCard}>
+        <Feather name="zap" size={20} color={theme.tertiary} />
+        <Text style={styles.streakValue}>{streak.current}</Text>
+        <Text style={styles.streakLabel}>Current streak</Text>
+      </View>
+      <View style={styles.streakCard}>
+        <Feather name="award" size={20} color={theme.accent1} />
+        <Text style={styles.streakValue}>{streak.longest}</Text>
+        <Text style={styles.streakLabel}>Longest streak</Text>
+      </View>
+    </View>
+  );
+
+  const renderYear = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>This Year</Text>
+      {ACTIVITY_KINDS.map((kind) => (
+        <View key={kind} style={styles.countRow}>
+          <Feather name={ACTIVITY_ICONS[kind]} size={18} color={theme.tertiary} />
+          <Text style={styles.countLabel}>{ACTIVITY_LABELS[kind]}</Text>
+          <Text style={styles.countValue}>{yearCounts[kind]}</Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderTrend = () => (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Trends</Text>
+        {renderToggle<TrendRange>(
+          [
+            { value: "weekly", label: "Weekly" },
+            { value: "monthly", label: "Monthly" },
+          ],
+          trendRange,
+          setTrendRange,
+        )}
+      </View>
+      <LineChart
+        data={{
+          labels: trend.map(({ label }) => label),
+          datasets: [{ data: trend.map(({ counts }) => totalCount(counts)) }],
+        }}
+        width={chartWidth}
+        height={200}
+        chartConfig={chartConfig}
+        fromZero
+        bezier
+        style={styles.chart}
+      />
+    </View>
+  );
+
+  const renderSeasons = () => (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Year over Year</Text>
+        {renderToggle<ChallengeSeasonId>(
+          [
+            { value: "lent", label: denomination === "orthodox" ? "Great Lent" : "Lent" },
+            { value: "advent", label: denomination === "orthodox" ? "Nativity Fast" : "Advent" },
+          ],
+          seasonId,
+          setSeasonId,
+        )}
+      </View>
+      {seasons.length === 0 ? (
+        <Text style={styles.emptyText}>This season hasn't begun yet.</Text>
+      ) : (
+        <>
+          <BarChart
+            data={{
+              labels: seasons.map(({ season }) => String(season.year)),
+              datasets: [{ data: seasons.map(({ counts }) => totalCount(counts)) }],
+            }}
+            width={chartWidth}
+            height={200}
+            chartConfig={chartConfig}
+            yAxisLabel=""
+            yAxisSuffix=""
+            fromZero
+            showValuesOnTopOfBars
+            style={styles.chart}
+          />
+          {seasons.map(({ season, counts, days }) => (
+            <View key={season.title} style={styles.card}>
+              <Text style={styles.cardTitle}>{season.title}</Text>
+              <Text style={styles.seasonSubtitle}>
+                {`${(totalCount(counts) / days).toFixed(1)} a day over ${days} days`}
+              </Text>
+              {ACTIVITY_KINDS.filter((kind) => counts[kind] > 0).map((kind) => (
+                <View key={kind} style={styles.countRow}>
+                  <Feather name={ACTIVITY_ICONS[kind]} size={16} color={theme.neutral400} />
+                  <Text style={styles.countLabel}>{ACTIVITY_LABELS[kind]}</Text>
+                  <Text style={styles.countValue}>{counts[kind]}</Text>
+                </View>
+              ))}
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Feather name="arrow-left" size={22} color={theme.neutral50} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>My Spiritual Life</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color={theme.tertiary} />
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={theme.tertiary}
+            />
+          }
+        >
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          {renderStreaks()}
+          {renderYear()}
+          {renderTrend()}
+          {renderSeasons()}
+          <Text style={styles.footnote}>
+            Chapters read are counted on this device. Mark the events you attend on the Events
+            screen.
+          </Text>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.neutral900 },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    paddingTop: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: `${theme.tertiary}33`,
+  },
+  headerButton: { width: 36, height: 36, alignItems: "center", justifyContent: "center" },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "300",
+    color: theme.textWhite,
+    textAlign: "center",
+    letterSpacing: 1,
+  },
+  loading: { marginTop: 48 },
+  content: { padding: 16, paddingBottom: 32 },
+  errorText: { fontSize: 14, color: theme.error, marginBottom: 12 },
+  streakRow: { flexDirection: "row", gap: 12, marginBottom: 16 },
+  streakCard: {
+    flex: 1,
+    alignItems: "center",
+    backgroundColor: theme.neutral800,
+    borderRadius: theme.radiusLarge,
+    padding: 16,
+  },
+  streakValue: { fontSize: 32, fontWeight: "600", color: theme.textWhite, marginTop: 4 },
+  streakLabel: { fontSize: 13, color: theme.neutral400 },
+  card: {
+    backgroundColor: theme.neutral800,
+    borderRadius: theme.radiusLarge,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardTitle: { fontSize: 18, fontWeight: "600", color: theme.textWhite, marginBottom: 8 },
+  countRow: { flexDirection: "row", alignItems: "center", paddingVertical: 6 },
+  countLabel: { flex: 1, fontSize: 15, color: theme.neutral200, marginLeft: 12 },
+  countValue: { fontSize: 16, fontWeight: "600", color: theme.textWhite },
+  section: { marginTop: 16 },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  sectionTitle: { fontSize: 18, fontWeight: "300", color: theme.textWhite, letterSpacing: 1 },
+  toggle: {
+    flexDirection: "row",
+    backgroundColor: theme.neutral800,
+    borderRadius: theme.radiusFull,
+    padding: 2,
+  },
+  toggleOption: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: theme.radiusFull },
+  toggleOptionActive: { backgroundColor: theme.primary },
+  toggleText: { fontSize: 13, color: theme.neutral300 },
+  toggleTextActive: { color: theme.textWhite, fontWeight: "600" },
+  chart: { borderRadius: theme.radiusLarge, marginBottom: 12 },
+  seasonSubtitle: { fontSize: 13, color: theme.neutral400, marginBottom: 4 },
+  emptyText: { fontSize: 15, color: theme.neutral400, textAlign: "center", marginVertical: 16 },
+  footnote: { fontSize: 12, color: theme.neutral500, textAlign: "center", marginTop: 16 },
+});
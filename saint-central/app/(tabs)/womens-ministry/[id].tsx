@@ -23,6 +23,10 @@ import { useLocalSearchParams, useRouter } from "expo-router";
 import { supabase } from "../../../supabaseClient";
 import { Feather } from "@expo/vector-icons";
 import { WebView } from "react-native-webview";
+import { useComments } from "@/hooks/useComments";
+import { useLikes } from "@/hooks/useLikes";
+import { EngagementTarget } from "@/types/engagement";
+import { EMPTY_LIKE_SUMMARY, formatCommentAuthor } from "@/utils/social/engagement";
 
 interface Post {
   id: number;
@@ -37,7 +41,7 @@ interface Post {
 }
 
 interface Comment {
-  id: number;
+  id: string;
   content: string;
   author: string;
   date: string;
@@ -63,15 +67,35 @@ const PostPage = () => {
   const [pointerEventsEnabled, setPointerEventsEnabled] = useState(false);
 
   // Likes and comments state
-  const [isLiked, setIsLiked] = useState(false);
-  const [likeCount, setLikeCount] = useState(0);
-  const [comments, setComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState("");
   const [isCommenting, setIsCommenting] = useState(false);
   const [isSubmittingComment, setIsSubmittingComment] = useState(false);
   const [showComments, setShowComments] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [currentUserName, setCurrentUserName] = useState<string | null>(null);
+
+  const engagementTarget: EngagementTarget | null = post
+    ? { type: "womens_ministry_post", id: post.id }
+    : null;
+  const { getLikes, toggleLike: togglePostLike } = useLikes(engagementTarget);
+  const { count: likeCount, liked: isLiked } = engagementTarget
+    ? getLikes(engagementTarget)
+    : EMPTY_LIKE_SUMMARY;
+  const {
+    comments: postComments,
+    addComment,
+    deleteComment: removeComment,
+  } = useComments(engagementTarget);
+  const comments: Comment[] = postComments.map((comment) => ({
+    id: comment.id,
+    content: comment.content,
+    author: formatCommentAuthor(comment.user),
+    date: new Date(comment.created_at).toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    }),
+    isOwnComment: currentUserId === comment.user_id,
+  }));
 
   // Add ref for ScrollView and Comments section
   const scrollViewRef = useRef<ScrollView>(null);
@@ -107,21 +131,6 @@ const PostPage = () => {
         const userId = sessionData?.session?.user?.id;
         setCurrentUserId(userId || null);
 
-        // Get user profile if logged in
-        if (userId) {
-          const { data: userData } = await supabase
-            .from("users")
-            .select("first_name, last_name")
-            .eq("id", userId)
-            .single();
-
-          const fullName = userData
-            ? `${userData.first_name || ""} ${userData.last_name || ""}`.trim()
-            : "Anonymous";
-
-          setCurrentUserName(fullName || "Anonymous");
-        }
-
         // Now fetch the post
         const numericId = parseInt(id as string, 10);
         if (isNaN(numericId)) {
@@ -170,10 +179,6 @@ const PostPage = () => {
           category: data.category,
           isAuthor: userId ? data.user_id === userId : false,
         });
-
-        // Fetch likes and comments after we have the user ID and post data
-        fetchLikes(data.post_id, userId || null);
-        fetchComments(data.post_id);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load post");
       } finally {
@@ -184,95 +189,6 @@ const PostPage = () => {
     initialize();
   }, [id]);
 
-  // Fetch likes for the post
-  const fetchLikes = async (postId: number, userId: string | null) => {
-    try {
-      // Get total likes
-      const { count, error } = await supabase
-        .from("likes")
-        .select("*", { count: "exact" })
-        .eq("likeable_id", postId)
-        .eq("likeable_type", "womens_ministry_post");
-
-      if (error) throw error;
-
-      setLikeCount(count || 0);
-
-      // Check if current user liked the post
-      if (userId) {
-        const { data, error: likedError } = await supabase
-          .from("likes")
-          .select("*")
-          .eq("likeable_id", postId)
-          .eq("likeable_type", "womens_ministry_post")
-          .eq("user_id", userId)
-          .maybeSingle();
-
-        if (likedError) throw likedError;
-
-        setIsLiked(!!data);
-      }
-    } catch (err) {
-      console.error("Error fetching likes:", err);
-    }
-  };
-
-  // Fetch comments for the post
-  const fetchComments = async (postId: number) => {
-    try {
-      const { data, error } = await supabase
-        .from("comments")
-        .select(
-          `
-          id,
-          content,
-          created_at,
-          user_id
-        `,
-        )
-        .eq("commentable_id", postId)
-        .eq("commentable_type", "womens_ministry_post")
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-
-      // Format the comments
-      const formattedComments = data.map(async (comment) => {
-        // Get user name for each comment
-        let authorName = "Anonymous";
-        if (comment.user_id) {
-          const { data: userData } = await supabase
-            .from("users")
-            .select("first_name, last_name")
-            .eq("id", comment.user_id)
-            .single();
-
-          if (userData) {
-            authorName = `${userData.first_name || ""} ${userData.last_name || ""}`.trim();
-            if (!authorName) authorName = "Anonymous";
-          }
-        }
-
-        return {
-          id: comment.id,
-          content: comment.content,
-          author: authorName,
-          date: new Date(comment.created_at).toLocaleDateString("en-US", {
-            month: "long",
-            day: "numeric",
-            year: "numeric",
-          }),
-          isOwnComment: currentUserId === comment.user_id,
-        };
-      });
-
-      const resolvedComments = await Promise.all(formattedComments);
-      setComments(resolvedComments);
-    } catch (err) {
-      console.error("Error fetching comments:", err);
-    }
-  };
-
   // Toggle like for the post
   const toggleLike = async () => {
     if (!currentUserId) {
@@ -280,34 +196,10 @@ const PostPage = () => {
       return;
     }
 
-    try {
-      if (isLiked) {
-        // Remove like
-        const { error } = await supabase
-          .from("likes")
-          .delete()
-          .eq("likeable_id", post?.id)
-          .eq("likeable_type", "womens_ministry_post")
-          .eq("user_id", currentUserId);
-
-        if (error) throw error;
-
-        setIsLiked(false);
-        setLikeCount((prev) => Math.max(0, prev - 1));
-      } else {
-        // Add like
-        const { error } = await supabase.from("likes").insert({
-          user_id: currentUserId,
-          likeable_id: post?.id,
-          likeable_type: "womens_ministry_post",
-          created_at: new Date().toISOString(),
-        });
+    if (!engagementTarget) return;
 
-        if (error) throw error;
-
-        setIsLiked(true);
-        setLikeCount((prev) => prev + 1);
-      }
+    try {
+      await togglePostLike(engagementTarget);
     } catch (err) {
       console.error("Error toggling like:", err);
       Alert.alert("Error", "Failed to update like status.");
@@ -329,34 +221,7 @@ const PostPage = () => {
     try {
       setIsSubmittingComment(true);
       Keyboard.dismiss();
-
-      const { data, error } = await supabase
-        .from("comments")
-        .insert({
-          user_id: currentUserId,
-          commentable_id: post?.id,
-          commentable_type: "womens_ministry_post",
-          content: newComment.trim(),
-          created_at: new Date().toISOString(),
-        })
-        .select();
-
-      if (error) throw error;
-
-      // Add the new comment to the list
-      const newCommentObj: Comment = {
-        id: data[0].id,
-        content: newComment.trim(),
-        author: currentUserName || "Anonymous",
-        date: new Date().toLocaleDateString("en-US", {
-          month: "long",
-          day: "numeric",
-          year: "numeric",
-        }),
-        isOwnComment: true,
-      };
-
-      setComments([newCommentObj, ...comments]);
+      await addComment(newComment);
       setNewComment("");
       setIsCommenting(false);
 
@@ -373,14 +238,9 @@ const PostPage = () => {
   };
 
   // Delete a comment
-  const deleteComment = async (commentId: number) => {
+  const deleteComment = async (commentId: string) => {
     try {
-      const { error } = await supabase.from("comments").delete().eq("id", commentId);
-
-      if (error) throw error;
-
-      // Remove the comment from the list
-      setComments(comments.filter((comment) => comment.id !== commentId));
+      await removeComment(commentId);
     } catch (err) {
       console.error("Error deleting comment:", err);
       Alert.alert("Error", "Failed to delete your comment.");
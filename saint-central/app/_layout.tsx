@@ -18,7 +18,11 @@ import * as Notifications from "expo-notifications";
 
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { supabase } from "../supabaseClient";
-import { registerForPushNotificationsAsync, saveUserPushToken } from "@/utils/notifications";
+import {
+  registerForPushNotificationsAsync,
+  saveUserPushToken,
+  setupPrayerNewsListener,
+} from "@/utils/notifications";
 
 // Prevent the splash screen from auto-hiding until ready
 SplashScreen.preventAutoHideAsync();
@@ -60,6 +64,12 @@ export default function RootLayout() {
       // Handle navigation based on notification data
       if (data.ministryId) {
         router.push(`/(tabs)/ministryDetail?id=${data.ministryId}`);
+      } else if (data.type === "reading_plan") {
+        router.push("/(tabs)/Bible?view=plans");
+      } else if (data.type === "intention_prayers" || data.type === "prayer_news") {
+        router.push("/(tabs)/PrayerIntentions");
+      } else if (data.type === "intention_reminder") {
+        router.push("/(tabs)/prayerList");
       }
     });
 
@@ -78,6 +88,32 @@ export default function RootLayout() {
     };
   }, []);
 
+  // Tell the signed-in user when intentions they prayed for have news
+  useEffect(() => {
+    let listeningFor: string | null = null;
+    let removeListener = () => {};
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      const userId = session?.user.id ?? null;
+      if (userId === listeningFor) return;
+
+      removeListener();
+      listeningFor = userId;
+      if (!userId) {
+        removeListener = () => {};
+        return;
+      }
+      removeListener = setupPrayerNewsListener(userId);
+    });
+
+    return () => {
+      removeListener();
+      subscription.unsubscribe();
+    };
+  }, []);
+
   // Handle app state changes
   const handleAppStateChange = (nextAppState: AppStateStatus) => {
     if (appState.current.match(/inactive|background/) && nextAppState === "active") {
@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { BlurView } from "expo-blur";
+import { ReaderThemeColors } from "@/components/bible/ReadingPlansView";
+import {
+  CROSS_REFERENCE_KINDS,
+  CrossReference,
+  loadPassagePreview,
+} from "@/utils/bible/crossReferences";
+import { Passage, formatPassage } from "@/utils/bible/references";
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  // The verse the links belong to, e.g. "Mark 1:10"
+  reference: string;
+  crossReferences: CrossReference[];
+  versionTable: string;
+  themeStyles: ReaderThemeColors;
+  night: boolean;
+  onOpenPassage: (passage: Passage) => void;
+};
+
+/**
+ * Parallel accounts, quotations and related passages for a verse, with each
+ * passage previewed in the version being read
+ */
+export default function CrossReferenceSheet({
+  visible,
+  onClose,
+  reference,
+  crossReferences,
+  versionTable,
+  themeStyles,
+  night,
+  onOpenPassage,
+}: Props) {
+  // Preview text by formatted passage: missing while loading, empty if the version lacks it
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    setPreviews({});
+
+    crossReferences.forEach(({ to }) => {
+      const key = formatPassage(to);
+      loadPassagePreview(versionTable, to)
+        .then((text) => {
+          if (!cancelled) setPreviews((prev) => ({ ...prev, [key]: text }));
+        })
+        .catch((error) => {
+          console.error("Error loading passage preview:", error);
+          if (!cancelled) setPreviews((prev) => ({ ...prev, [key]: "" }));
+        });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, crossReferences, versionTable]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <BlurView intensity={night ? 20 : 80} tint={night ? "dark" : "light"} style={styles.modal}>
+        <TouchableOpacity style={styles.modalOverlay} onPress={onClose} activeOpacity={1}>
+          <TouchableOpacity
+            activeOpacity={1}
+            style={[
+              styles.sheet,
+              {
+                backgroundColor: themeStyles.cardColor,
+                borderColor: themeStyles.borderColor,
+                shadowColor: themeStyles.shadowColor,
+              },
+            ]}
+          >
+            <View style={styles.sheetHeader}>
+              <Text style={[styles.sheetTitle, { color: themeStyles.textColor }]}>{reference}</Text>
+              <TouchableOpacity onPress={onClose}>
+                <Feather name="x" size={22} color={themeStyles.textColor} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView>
+              {crossReferences.length === 0 && (
+                <Text style={[styles.emptyText, { color: themeStyles.textColor }]}>
+                  No cross-references for this verse.
+                </Text>
+              )}
+
+              {CROSS_REFERENCE_KINDS.map(({ kind, label }) => {
+                const links = crossReferences.filter((link) => link.kind === kind);
+                if (links.length === 0) return null;
+
+                return (
+                  <View key={kind} style={styles.section}>
+                    <Text style={[styles.sectionTitle, { color: themeStyles.accentColor }]}>
+                      {label}
+                    </Text>
+                    {links.map((link) => {
+                      const key = formatPassage(link.to);
+                      const preview = previews[key];
+
+                      return (
+                        <TouchableOpacity
+                          key={key}
+                          style={[
+                            styles.passageRow,
+                            { borderBottomColor: themeStyles.borderColor },
+                          ]}
+                          onPress={() => onOpenPassage(link.to)}
+                        >
+                          <View style={styles.passageText}>
+                            <Text
+                              style={[styles.passageReference, { color: themeStyles.textColor }]}
+                            >
+                              {key}
+                            </Text>
+                            {preview === undefined ? (
+                              <ActivityIndicator
+                                size="small"
+                                color={themeStyles.accentColor}
+                                style={styles.previewLoader}
+                              />
+                            ) : preview ? (
+                              <Text
+                                style={[styles.passagePreview, { color: themeStyles.textColor }]}
+                                numberOfLines={3}
+                              >
+                                {preview}
+                              </Text>
+                            ) : (
+                              <Text
+                                style={[styles.passagePreview, { color: themeStyles.textColor }]}
+                              >
+                                Not in this version
+                              </Text>
+                            )}
+                          </View>
+                          <Feather name="chevron-right" size={18} color={themeStyles.accentColor} />
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                );
+              })}
+            </ScrollView>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </BlurView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    maxHeight: "75%",
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 32,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  section: {
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: 4,
+  },
+  passageRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  passageText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  passageReference: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  passagePreview: {
+    fontSize: 14,
+    lineHeight: 20,
+    opacity: 0.75,
+    marginTop: 2,
+  },
+  previewLoader: {
+    alignSelf: "flex-start",
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 15,
+    opacity: 0.7,
+    marginVertical: 12,
+  },
+});
@@ -0,0 +1,883 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { BlurView } from "expo-blur";
+import { GroupReadingPlan, ReadingPlan, ReadingPlanEnrollment } from "@/types/bible";
+import { useReadingPlans } from "@/hooks/useReadingPlans";
+import {
+  fetchGroupProgress,
+  getMissedDays,
+  getNextPlanDay,
+  getPlanProgress,
+  getTodaysReading,
+} from "@/utils/bible/readingPlans";
+import { toDateKey } from "@/utils/liturgy/calendar";
+
+// Colors from the reader's current theme
+export interface ReaderThemeColors {
+  textColor: string;
+  accentColor: string;
+  cardColor: string;
+  borderColor: string;
+  shadowColor: string;
+  favoriteColor: string;
+}
+
+type Props = {
+  readingPlans: ReturnType<typeof useReadingPlans>;
+  themeStyles: ReaderThemeColors;
+  headingSize: number;
+  night: boolean;
+  onOpenReference: (reference: string) => void;
+  showFeedback: (message: string) => void;
+};
+
+const REMINDER_TIMES = ["06:00", "07:00", "08:00", "12:00", "18:00", "21:00"];
+
+// "07:00" -> "7:00 AM"
+const formatReminderTime = (time: string): string => {
+  const [hour, minute] = time.split(":").map(Number);
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12}:${String(minute).padStart(2, "0")} ${suffix}`;
+};
+
+type MemberProgress = Awaited<ReturnType<typeof fetchGroupProgress>>[number];
+
+export default function ReadingPlansView({
+  readingPlans,
+  themeStyles,
+  headingSize,
+  night,
+  onOpenReference,
+  showFeedback,
+}: Props) {
+  const {
+    plans,
+    enrollments,
+    groups,
+    groupPlans,
+    adminChurches,
+    loading,
+    getPlan,
+    enroll,
+    completeDay,
+    shiftSchedule,
+    setReminder,
+    leave,
+    publishPlan,
+    startWithGroup,
+  } = readingPlans;
+
+  const [selectedPlan, setSelectedPlan] = useState<ReadingPlan | null>(null);
+  const [reminderEnrollment, setReminderEnrollment] = useState<ReadingPlanEnrollment | null>(null);
+  const [progressGroup, setProgressGroup] = useState<{ name: string; plan: ReadingPlan } | null>(
+    null,
+  );
+  const [groupProgress, setGroupProgress] = useState<MemberProgress[]>([]);
+  const [progressLoading, setProgressLoading] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  // Plan authoring (church admins)
+  const [showCreatePlan, setShowCreatePlan] = useState<boolean>(false);
+  const [newPlan, setNewPlan] = useState({ title: "", description: "", days: "" });
+  const [newPlanChurchId, setNewPlanChurchId] = useState<number | null>(null);
+
+  const enrolledPlanIds = new Set(enrollments.map((e) => e.plan_id));
+  const adminGroups = groups.filter((g) => g.role === "admin");
+  const getGroupName = (groupId: string | null) => groups.find((g) => g.id === groupId)?.name;
+
+  // Group plans the user hasn't joined yet
+  const openGroupPlans = groupPlans.filter(
+    (gp) => !enrollments.some((e) => e.group_id === gp.group_id && e.plan_id === gp.plan_id),
+  );
+
+  const runAction = async (action: () => Promise<unknown>, errorMessage: string) => {
+    setSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Error updating reading plan:", error);
+      showFeedback(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCompleteDay = (enrollment: ReadingPlanEnrollment, day: number, plan: ReadingPlan) =>
+    runAction(async () => {
+      const updated = await completeDay(enrollment, day);
+      if (getNextPlanDay(updated, plan) === null) {
+        showFeedback(`You finished "${plan.title}"!`);
+      }
+    }, "Failed to save your progress.");
+
+  const handleLeave = (enrollment: ReadingPlanEnrollment, plan: ReadingPlan) => {
+    Alert.alert("Leave Plan", `Stop following "${plan.title}"? Your progress will be lost.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Leave",
+        style: "destructive",
+        onPress: () => runAction(() => leave(enrollment), "Failed to leave the plan."),
+      },
+    ]);
+  };
+
+  const handleStart = (plan: ReadingPlan, groupPlan?: GroupReadingPlan) =>
+    runAction(async () => {
+      await enroll(plan, groupPlan);
+      setSelectedPlan(null);
+      showFeedback(`Started "${plan.title}"`);
+    }, "Failed to start the plan.");
+
+  const handleStartWithGroup = (plan: ReadingPlan, groupId: string) =>
+    runAction(async () => {
+      await startWithGroup(plan, groupId, toDateKey(new Date()));
+      setSelectedPlan(null);
+      showFeedback(`Your group is now reading "${plan.title}"`);
+    }, "Failed to start the plan with your group.");
+
+  const handleSetReminder = (time: string | null) => {
+    const enrollment = reminderEnrollment;
+    if (!enrollment) return;
+    setReminderEnrollment(null);
+    runAction(async () => {
+      await setReminder(enrollment, time);
+      showFeedback(time ? `Reminder set for ${formatReminderTime(time)}` : "Reminder turned off");
+    }, "Failed to update the reminder.");
+  };
+
+  const openGroupProgress = async (groupId: string, groupName: string, plan: ReadingPlan) => {
+    setProgressGroup({ name: groupName, plan });
+    setProgressLoading(true);
+    try {
+      setGroupProgress(await fetchGroupProgress(groupId, plan.id));
+    } catch (error) {
+      console.error("Error loading group progress:", error);
+      setGroupProgress([]);
+    } finally {
+      setProgressLoading(false);
+    }
+  };
+
+  const handlePublish = () =>
+    runAction(async () => {
+      const churchId = newPlanChurchId ?? adminChurches[0].id;
+      const error = await publishPlan(churchId, newPlan.title, newPlan.description, newPlan.days);
+      if (error) {
+        showFeedback(error);
+        return;
+      }
+      setShowCreatePlan(false);
+      setNewPlan({ title: "", description: "", days: "" });
+      showFeedback("Plan published to your church");
+    }, "Failed to publish the plan.");
+
+  // ---------------------
+  // RENDER HELPERS
+  // ---------------------
+  const renderReferences = (references: string[]) => (
+    <View style={styles.referenceList}>
+      {references.map((reference) => (
+        <TouchableOpacity
+          key={reference}
+          style={[styles.referenceChip, { borderColor: themeStyles.accentColor }]}
+          onPress={() => onOpenReference(reference)}
+        >
+          <Feather name="book-open" size={12} color={themeStyles.accentColor} />
+          <Text style={[styles.referenceText, { color: themeStyles.accentColor }]}>
+            {reference}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderDayRow = (
+    label: string,
+    day: number,
+    plan: ReadingPlan,
+    enrollment: ReadingPlanEnrollment,
+  ) => (
+    <View key={`${label}-${day}`} style={styles.dayRow}>
+      <View style={styles.dayRowHeader}>
+        <Text style={[styles.dayLabel, { color: themeStyles.textColor }]}>
+          {label} · Day {day}
+        </Text>
+        <TouchableOpacity
+          style={[styles.smallButton, { backgroundColor: `${themeStyles.accentColor}20` }]}
+          onPress={() => handleCompleteDay(enrollment, day, plan)}
+          disabled={saving}
+        >
+          <Feather name="check" size={14} color={themeStyles.accentColor} />
+          <Text style={[styles.smallButtonText, { color: themeStyles.accentColor }]}>
+            Mark read
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {renderReferences(plan.days[day - 1])}
+    </View>
+  );
+
+  const renderEnrollment = (enrollment: ReadingPlanEnrollment) => {
+    const plan = getPlan(enrollment.plan_id);
+    if (!plan) return null;
+
+    const progress = getPlanProgress(enrollment, plan);
+    const nextDay = getNextPlanDay(enrollment, plan);
+    const missed = getMissedDays(enrollment, plan);
+    const { day, catchUpDays } = getTodaysReading(enrollment, plan);
+    const groupName = getGroupName(enrollment.group_id);
+
+    return (
+      <View
+        key={enrollment.id}
+        style={[
+          styles.card,
+          {
+            backgroundColor: themeStyles.cardColor,
+            borderColor: themeStyles.borderColor,
+            shadowColor: themeStyles.shadowColor,
+          },
+        ]}
+      >
+        <View style={styles.cardHeader}>
+          <View style={styles.cardTitleContainer}>
+            <Text style={[styles.cardTitle, { color: themeStyles.textColor }]}>{plan.title}</Text>
+            {groupName && (
+              <TouchableOpacity
+                onPress={() => openGroupProgress(enrollment.group_id!, groupName, plan)}
+              >
+                <Text style={[styles.groupLabel, { color: themeStyles.accentColor }]}>
+                  <Feather name="users" size={12} /> With {groupName} · See progress
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => setReminderEnrollment(enrollment)}
+          >
+            <Feather
+              name={enrollment.reminder_time ? "bell" : "bell-off"}
+              size={18}
+              color={enrollment.reminder_time ? themeStyles.accentColor : themeStyles.textColor}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleLeave(enrollment, plan)}>
+            <Feather name="x" size={18} color={themeStyles.textColor} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.progressTrack, { backgroundColor: themeStyles.borderColor }]}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${Math.round(progress * 100)}%`, backgroundColor: themeStyles.accentColor },
+            ]}
+          />
+        </View>
+        <Text style={[styles.progressText, { color: themeStyles.textColor }]}>
+          {Math.round(progress * 100)}% · {enrollment.completed_days.length} of {plan.days.length}{" "}
+          days
+          {enrollment.reminder_time &&
+            ` · Reminder at ${formatReminderTime(enrollment.reminder_time)}`}
+        </Text>
+
+        {nextDay === null ? (
+          <Text style={[styles.finishedText, { color: themeStyles.accentColor }]}>
+            Plan complete. Well done!
+          </Text>
+        ) : (
+          <>
+            {day !== null && renderDayRow("Today", day, plan, enrollment)}
+
+            {missed.length > 0 && (
+              <View style={[styles.catchUpBox, { borderColor: themeStyles.favoriteColor }]}>
+                <Text style={[styles.catchUpText, { color: themeStyles.textColor }]}>
+                  You're {missed.length} {missed.length === 1 ? "day" : "days"} behind. Read a
+                  little extra each day to catch up, or shift your schedule.
+                </Text>
+                {catchUpDays.map((catchUpDay) =>
+                  renderDayRow("Catch up", catchUpDay, plan, enrollment),
+                )}
+                <TouchableOpacity
+                  style={[styles.smallButton, { borderColor: themeStyles.favoriteColor }]}
+                  onPress={() =>
+                    runAction(() => shiftSchedule(enrollment), "Failed to shift the schedule.")
+                  }
+                  disabled={saving || enrollment.group_id !== null}
+                >
+                  <Feather name="calendar" size={14} color={themeStyles.favoriteColor} />
+                  <Text style={[styles.smallButtonText, { color: themeStyles.favoriteColor }]}>
+                    {enrollment.group_id
+                      ? "Group plans keep the group's schedule"
+                      : `Restart from day ${nextDay} today`}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {day === null && missed.length === 0 && (
+              <Text style={[styles.progressText, { color: themeStyles.textColor }]}>
+                You're all caught up. Next up: day {nextDay}.
+              </Text>
+            )}
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const renderPlanCard = (plan: ReadingPlan, groupPlan?: GroupReadingPlan) => (
+    <TouchableOpacity
+      key={groupPlan ? `group-${groupPlan.id}` : plan.id}
+      style={[
+        styles.card,
+        {
+          backgroundColor: themeStyles.cardColor,
+          borderColor: themeStyles.borderColor,
+          shadowColor: themeStyles.shadowColor,
+        },
+      ]}
+      onPress={() => (groupPlan ? handleStart(plan, groupPlan) : setSelectedPlan(plan))}
+    >
+      <View style={styles.cardHeader}>
+        <View style={styles.cardTitleContainer}>
+          <Text style={[styles.cardTitle, { color: themeStyles.textColor }]}>{plan.title}</Text>
+          <Text style={[styles.cardSubtitle, { color: themeStyles.textColor }]}>
+            {groupPlan
+              ? `${getGroupName(groupPlan.group_id)} · started ${groupPlan.start_date}`
+              : `${plan.days.length} days${plan.builtin ? "" : " · from your church"}`}
+          </Text>
+        </View>
+        <Feather
+          name={groupPlan ? "user-plus" : "chevron-right"}
+          size={20}
+          color={themeStyles.accentColor}
+        />
+      </View>
+      {!groupPlan && plan.description ? (
+        <Text style={[styles.cardDescription, { color: themeStyles.textColor }]}>
+          {plan.description}
+        </Text>
+      ) : null}
+    </TouchableOpacity>
+  );
+
+  const renderModal = (visible: boolean, onClose: () => void, children: React.ReactNode) => (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <BlurView intensity={night ? 20 : 80} tint={night ? "dark" : "light"} style={styles.modal}>
+        <TouchableOpacity style={styles.modalOverlay} onPress={onClose} activeOpacity={1}>
+          <TouchableOpacity
+            activeOpacity={1}
+            style={[
+              styles.modalContent,
+              {
+                backgroundColor: themeStyles.cardColor,
+                borderColor: themeStyles.borderColor,
+                shadowColor: themeStyles.shadowColor,
+              },
+            ]}
+          >
+            {children}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </BlurView>
+    </Modal>
+  );
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loading} color={themeStyles.accentColor} />;
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* My plans */}
+      <Text style={[styles.sectionTitle, { color: themeStyles.textColor, fontSize: headingSize }]}>
+        My Plans
+      </Text>
+      {enrollments.length === 0 ? (
+        <Text style={[styles.emptyText, { color: themeStyles.textColor }]}>
+          You're not following a plan yet. Pick one below to get started.
+        </Text>
+      ) : (
+        enrollments.map(renderEnrollment)
+      )}
+
+      {/* Plans shared by the user's groups */}
+      {openGroupPlans.length > 0 && (
+        <>
+          <Text
+            style={[styles.sectionTitle, { color: themeStyles.textColor, fontSize: headingSize }]}
+          >
+            Group Plans
+          </Text>
+          {openGroupPlans.map((groupPlan) => {
+            const plan = getPlan(groupPlan.plan_id);
+            return plan ? renderPlanCard(plan, groupPlan) : null;
+          })}
+        </>
+      )}
+
+      {/* Every plan the user can start */}
+      <View style={styles.sectionHeader}>
+        <Text
+          style={[styles.sectionTitle, { color: themeStyles.textColor, fontSize: headingSize }]}
+        >
+          Browse Plans
+        </Text>
+        {adminChurches.length > 0 && (
+          <TouchableOpacity
+            style={[styles.smallButton, { borderColor: themeStyles.accentColor }]}
+            onPress={() => setShowCreatePlan(true)}
+          >
+            <Feather name="plus" size={14} color={themeStyles.accentColor} />
+            <Text style={[styles.smallButtonText, { color: themeStyles.accentColor }]}>
+              Create Plan
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {plans.filter((plan) => !enrolledPlanIds.has(plan.id)).map((plan) => renderPlanCard(plan))}
+
+      {/* Plan details */}
+      {renderModal(
+        selectedPlan !== null,
+        () => setSelectedPlan(null),
+        selectedPlan && (
+          <>
+            <Text style={[styles.modalTitle, { color: themeStyles.textColor }]}>
+              {selectedPlan.title}
+            </Text>
+            <Text style={[styles.cardDescription, { color: themeStyles.textColor }]}>
+              {selectedPlan.description}
+            </Text>
+            <ScrollView style={styles.dayPreview}>
+              {selectedPlan.days.slice(0, 7).map((references, index) => (
+                <Text key={index} style={[styles.dayPreviewText, { color: themeStyles.textColor }]}>
+                  Day {index + 1}: {references.join("; ")}
+                </Text>
+              ))}
+              {selectedPlan.days.length > 7 && (
+                <Text style={[styles.dayPreviewText, { color: themeStyles.textColor }]}>
+                  … and {selectedPlan.days.length - 7} more days
+                </Text>
+              )}
+            </ScrollView>
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: themeStyles.accentColor }]}
+              onPress={() => handleStart(selectedPlan)}
+              disabled={saving}
+            >
+              <Text style={styles.primaryButtonText}>Start Today</Text>
+            </TouchableOpacity>
+            {adminGroups.map((group) => (
+              <TouchableOpacity
+                key={group.id}
+                style={[styles.secondaryButton, { borderColor: themeStyles.accentColor }]}
+                onPress={() => handleStartWithGroup(selectedPlan, group.id)}
+                disabled={saving}
+              >
+                <Feather name="users" size={14} color={themeStyles.accentColor} />
+                <Text style={[styles.secondaryButtonText, { color: themeStyles.accentColor }]}>
+                  Read with {group.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </>
+        ),
+      )}
+
+      {/* Reminder time */}
+      {renderModal(
+        reminderEnrollment !== null,
+        () => setReminderEnrollment(null),
+        <>
+          <Text style={[styles.modalTitle, { color: themeStyles.textColor }]}>Daily Reminder</Text>
+          {REMINDER_TIMES.map((time) => (
+            <TouchableOpacity
+              key={time}
+              style={[styles.optionRow, { borderBottomColor: themeStyles.borderColor }]}
+              onPress={() => handleSetReminder(time)}
+            >
+              <Text style={[styles.optionText, { color: themeStyles.textColor }]}>
+                {formatReminderTime(time)}
+              </Text>
+              {reminderEnrollment?.reminder_time === time && (
+                <Feather name="check" size={18} color={themeStyles.accentColor} />
+              )}
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.optionRow} onPress={() => handleSetReminder(null)}>
+            <Text style={[styles.optionText, { color: themeStyles.favoriteColor }]}>
+              No reminder
+            </Text>
+          </TouchableOpacity>
+        </>,
+      )}
+
+      {/* Group progress */}
+      {renderModal(
+        progressGroup !== null,
+        () => setProgressGroup(null),
+        progressGroup && (
+          <>
+            <Text style={[styles.modalTitle, { color: themeStyles.textColor }]}>
+              {progressGroup.name}
+            </Text>
+            <Text style={[styles.cardSubtitle, { color: themeStyles.textColor }]}>
+              {progressGroup.plan.title}
+            </Text>
+            {progressLoading ? (
+              <ActivityIndicator color={themeStyles.accentColor} />
+            ) : (
+              [...groupProgress]
+                .sort((a, b) => b.completed_days.length - a.completed_days.length)
+                .map((member) => {
+                  const memberProgress = getPlanProgress(member, progressGroup.plan);
+                  return (
+                    <View key={member.id} style={styles.memberRow}>
+                      <Text style={[styles.optionText, { color: themeStyles.textColor }]}>
+                        {member.user
+                          ? `${member.user.first_name} ${member.user.last_name}`
+                          : "Member"}
+                      </Text>
+                      <View
+                        style={[
+                          styles.progressTrack,
+                          styles.memberTrack,
+                          { backgroundColor: themeStyles.borderColor },
+                        ]}
+                      >
+                        <View
+                          style={[
+                            styles.progressFill,
+                            {
+                              width: `${Math.round(memberProgress * 100)}%`,
+                              backgroundColor: themeStyles.accentColor,
+                            },
+                          ]}
+                        />
+                      </View>
+                    </View>
+                  );
+                })
+            )}
+          </>
+        ),
+      )}
+
+      {/* Plan authoring */}
+      {renderModal(
+        showCreatePlan,
+        () => setShowCreatePlan(false),
+        <>
+          <Text style={[styles.modalTitle, { color: themeStyles.textColor }]}>Create Plan</Text>
+          <Text style={[styles.cardSubtitle, { color: themeStyles.textColor }]}>
+            Members of your church will see this plan under Browse Plans.
+          </Text>
+          <TextInput
+            style={[
+              styles.input,
+              { color: themeStyles.textColor, borderColor: themeStyles.borderColor },
+            ]}
+            placeholder="Title"
+            placeholderTextColor={night ? "rgba(255, 255, 255, 0.5)" : "rgba(0, 0, 0, 0.5)"}
+            value={newPlan.title}
+            onChangeText={(title) => setNewPlan((prev) => ({ ...prev, title }))}
+          />
+          <TextInput
+            style={[
+              styles.input,
+              { color: themeStyles.textColor, borderColor: themeStyles.borderColor },
+            ]}
+            placeholder="Description"
+            placeholderTextColor={night ? "rgba(255, 255, 255, 0.5)" : "rgba(0, 0, 0, 0.5)"}
+            value={newPlan.description}
+            onChangeText={(description) => setNewPlan((prev) => ({ ...prev, description }))}
+          />
+          <TextInput
+            style={[
+              styles.input,
+              styles.daysInput,
+              { color: themeStyles.textColor, borderColor: themeStyles.borderColor },
+            ]}
+            placeholder={"One day per line, e.g.\nJohn 1; Psalm 1\nJohn 2-3"}
+            placeholderTextColor={night ? "rgba(255, 255, 255, 0.5)" : "rgba(0, 0, 0, 0.5)"}
+            multiline
+            value={newPlan.days}
+            onChangeText={(days) => setNewPlan((prev) => ({ ...prev, days }))}
+          />
+          {adminChurches.length > 1 && (
+            <View style={styles.referenceList}>
+              {adminChurches.map((church) => {
+                const active = (newPlanChurchId ?? adminChurches[0].id) === church.id;
+                return (
+                  <TouchableOpacity
+                    key={church.id}
+                    style={[
+                      styles.referenceChip,
+                      {
+                        borderColor: themeStyles.accentColor,
+                        backgroundColor: active ? `${themeStyles.accentColor}20` : "transparent",
+                      },
+                    ]}
+                    onPress={() => setNewPlanChurchId(church.id)}
+                  >
+                    <Text style={[styles.referenceText, { color: themeStyles.accentColor }]}>
+                      {church.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: themeStyles.accentColor }]}
+            onPress={handlePublish}
+            disabled={saving}
+          >
+            <Text style={styles.primaryButtonText}>Publish</Text>
+          </TouchableOpacity>
+        </>,
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingBottom: 40,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  sectionTitle: {
+    fontWeight: "700",
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  emptyText: {
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  cardTitleContainer: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  cardDescription: {
+    fontSize: 14,
+    opacity: 0.8,
+    marginTop: 8,
+  },
+  groupLabel: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+    marginTop: 12,
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  progressText: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 6,
+  },
+  finishedText: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginTop: 12,
+  },
+  dayRow: {
+    marginTop: 12,
+  },
+  dayRowHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  dayLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  referenceList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 6,
+  },
+  referenceChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  referenceText: {
+    fontSize: 13,
+    marginLeft: 4,
+  },
+  smallButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "transparent",
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    marginTop: 8,
+  },
+  smallButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginLeft: 4,
+  },
+  catchUpBox: {
+    borderLeftWidth: 3,
+    paddingLeft: 10,
+    marginTop: 12,
+  },
+  catchUpText: {
+    fontSize: 13,
+    opacity: 0.8,
+  },
+  modal: {
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContent: {
+    width: "90%",
+    maxHeight: "80%",
+    padding: 20,
+    borderRadius: 10,
+    borderWidth: 1,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 10,
+  },
+  dayPreview: {
+    maxHeight: 200,
+    marginVertical: 12,
+  },
+  dayPreviewText: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  primaryButton: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginLeft: 6,
+  },
+  optionRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "transparent",
+  },
+  optionText: {
+    fontSize: 16,
+  },
+  memberRow: {
+    paddingVertical: 8,
+  },
+  memberTrack: {
+    marginTop: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginBottom: 10,
+  },
+  daysInput: {
+    minHeight: 120,
+    textAlignVertical: "top",
+  },
+});
@@ -0,0 +1,132 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { ReaderThemeColors } from "@/components/bible/ReadingPlansView";
+import { READING_LABELS, getDailyReadings } from "@/utils/liturgy/lectionary";
+
+type Props = {
+  themeStyles: ReaderThemeColors;
+  headingSize: number;
+  // Lectionary reference, e.g. "Isa 2:1-5"
+  onOpenReading: (reference: string) => void;
+};
+
+/**
+ * The day's Mass readings from the lectionary, each opening in the reader
+ */
+export default function TodaysReadingsCard({ themeStyles, headingSize, onOpenReading }: Props) {
+  // Worked out when the book list is shown
+  const { day, sundayCycle, weekdayCycle, readings } = useMemo(
+    () => getDailyReadings(new Date()),
+    [],
+  );
+
+  return (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: themeStyles.textColor, fontSize: headingSize }]}>
+        Today's Readings
+      </Text>
+
+      <View
+        style={[
+          styles.card,
+          {
+            backgroundColor: themeStyles.cardColor,
+            borderColor: themeStyles.borderColor,
+            shadowColor: themeStyles.shadowColor,
+          },
+        ]}
+      >
+        <Text style={[styles.dayTitle, { color: themeStyles.textColor }]}>{day.title}</Text>
+        <Text style={[styles.cycle, { color: themeStyles.accentColor }]}>
+          Year {sundayCycle} · Weekday Cycle {weekdayCycle}
+        </Text>
+
+        {readings ? (
+          READING_LABELS.map(({ key, label }) => {
+            const reference = readings[key];
+            if (!reference) return null;
+
+            return (
+              <TouchableOpacity
+                key={key}
+                style={[styles.readingRow, { borderTopColor: themeStyles.borderColor }]}
+                onPress={() => onOpenReading(reference)}
+              >
+                <View style={styles.readingText}>
+                  <Text style={[styles.readingLabel, { color: themeStyles.textColor }]}>
+                    {label}
+                  </Text>
+                  <Text style={[styles.readingReference, { color: themeStyles.textColor }]}>
+                    {reference}
+                  </Text>
+                </View>
+                <Feather name="chevron-right" size={18} color={themeStyles.accentColor} />
+              </TouchableOpacity>
+            );
+          })
+        ) : (
+          <Text style={[styles.emptyText, { color: themeStyles.textColor }]}>
+            Readings for this weekday aren't included in the app yet.
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: "bold",
+    marginBottom: 10,
+  },
+  card: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  cycle: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginTop: 2,
+    marginBottom: 6,
+  },
+  readingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  readingText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  readingLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    opacity: 0.6,
+  },
+  readingReference: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 8,
+  },
+});
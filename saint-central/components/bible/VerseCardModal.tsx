@@ -0,0 +1,423 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Dimensions,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { BlurView } from "expo-blur";
+import Svg, { Defs, LinearGradient, Line, Rect, Stop, Text as SvgText } from "react-native-svg";
+import { supabase } from "@/supabaseClient";
+import { ReaderThemeColors } from "@/components/bible/ReadingPlansView";
+import {
+  CARD_SIZE,
+  CardMinistry,
+  CardTemplate,
+  CardTheme,
+  fetchCardMinistries,
+  getCardTemplates,
+  layoutCardText,
+  saveCardToDevice,
+  sendCardToMinistry,
+  shareCard,
+} from "@/utils/bible/verseCards";
+
+const { width } = Dimensions.get("window");
+const PREVIEW_SIZE = Math.min(width * 0.8, 360);
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  text: string;
+  reference: string;
+  versionLabel: string;
+  // The book's color in each reader theme
+  bookColors: Record<CardTheme, string>;
+  themeStyles: ReaderThemeColors;
+  night: boolean;
+  showFeedback: (message: string) => void;
+};
+
+type CardProps = {
+  size: number;
+  template: CardTemplate;
+  text: string;
+  reference: string;
+  versionLabel: string;
+};
+
+// The card itself, drawn on a CARD_SIZE square and scaled to fit
+const VerseCard = React.forwardRef<Svg, CardProps>(
+  ({ template, text, reference, versionLabel, size }, ref) => {
+    const { fontSize, lineHeight, lines } = useMemo(() => layoutCardText(text), [text]);
+    // Center the block of text above the footer
+    const textTop = (CARD_SIZE - 200 - lines.length * lineHeight) / 2 + fontSize;
+
+    return (
+      <Svg ref={ref} width={size} height={size} viewBox={`0 0 ${CARD_SIZE} ${CARD_SIZE}`}>
+        <Defs>
+          <LinearGradient id="cardBackground" x1="0" y1="0" x2="1" y2="1">
+            <Stop offset="0" stopColor={template.background} />
+            <Stop offset="1" stopColor={template.backgroundEnd} />
+          </LinearGradient>
+        </Defs>
+        <Rect x="0" y="0" width={CARD_SIZE} height={CARD_SIZE} fill="url(#cardBackground)" />
+        <Rect
+          x="40"
+          y="40"
+          width={CARD_SIZE - 80}
+          height={CARD_SIZE - 80}
+          rx="24"
+          fill="none"
+          stroke={template.accentColor}
+          strokeOpacity={0.35}
+          strokeWidth="3"
+        />
+        <SvgText
+          x="110"
+          y="200"
+          fontSize="180"
+          fontFamily="Georgia"
+          fill={template.accentColor}
+          fillOpacity={0.25}
+        >
+          “
+        </SvgText>
+
+        {lines.map((line, i) => (
+          <SvgText
+            key={i}
+            x={CARD_SIZE / 2}
+            y={textTop + i * lineHeight}
+            fontSize={fontSize}
+            fontFamily="Georgia"
+            fill={template.textColor}
+            textAnchor="middle"
+          >
+            {line}
+          </SvgText>
+        ))}
+
+        <Line
+          x1={CARD_SIZE / 2 - 60}
+          y1={CARD_SIZE - 220}
+          x2={CARD_SIZE / 2 + 60}
+          y2={CARD_SIZE - 220}
+          stroke={template.accentColor}
+          strokeWidth="4"
+        />
+        <SvgText
+          x={CARD_SIZE / 2}
+          y={CARD_SIZE - 150}
+          fontSize="44"
+          fontWeight="bold"
+          fill={template.accentColor}
+          textAnchor="middle"
+        >
+          {reference}
+        </SvgText>
+        <SvgText
+          x={CARD_SIZE / 2}
+          y={CARD_SIZE - 95}
+          fontSize="28"
+          fill={template.textColor}
+          fillOpacity={0.6}
+          textAnchor="middle"
+          letterSpacing="4"
+        >
+          {versionLabel.toUpperCase()}
+        </SvgText>
+      </Svg>
+    );
+  },
+);
+VerseCard.displayName = "VerseCard";
+
+/**
+ * Preview a verse as an image card, pick a background and save or send it
+ */
+export default function VerseCardModal({
+  visible,
+  onClose,
+  text,
+  reference,
+  versionLabel,
+  bookColors,
+  themeStyles,
+  night,
+  showFeedback,
+}: Props) {
+  const templates = useMemo(() => getCardTemplates(bookColors), [bookColors]);
+  const [templateId, setTemplateId] = useState<string>(night ? "night" : "paper");
+  const [busy, setBusy] = useState<boolean>(false);
+  const [ministries, setMinistries] = useState<CardMinistry[] | null>(null);
+  const cardRef = useRef<Svg>(null);
+
+  const template = templates.find((t) => t.id === templateId) ?? templates[0];
+
+  useEffect(() => {
+    if (!visible) setMinistries(null);
+  }, [visible]);
+
+  // Render the card at full size as a base64 PNG
+  const exportCard = () =>
+    new Promise<string>((resolve, reject) => {
+      if (!cardRef.current) return reject(new Error("Card is not ready"));
+      cardRef.current.toDataURL(resolve, { width: CARD_SIZE, height: CARD_SIZE });
+    });
+
+  const runAction = async (action: (base64: string) => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action(await exportCard());
+    } catch (error) {
+      console.error("Error exporting verse card:", error);
+      showFeedback(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () =>
+    runAction(async (base64) => {
+      const saved = await saveCardToDevice(base64);
+      showFeedback(saved ? "Image saved to your photos" : "Allow photo access to save images");
+    }, "Couldn't save the image");
+
+  const handleShare = () =>
+    runAction((base64) => shareCard(base64, reference), "Couldn't share the image");
+
+  const showMinistries = async () => {
+    setBusy(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        showFeedback("Sign in to send to a ministry");
+        return;
+      }
+      setMinistries(await fetchCardMinistries(user.id));
+    } catch (error) {
+      console.error("Error loading ministries:", error);
+      showFeedback("Couldn't load your ministries");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSendToMinistry = (ministry: CardMinistry) =>
+    runAction(async (base64) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not signed in");
+      await sendCardToMinistry(base64, ministry.id, user.id, reference);
+      showFeedback(`Sent to ${ministry.name}`);
+      onClose();
+    }, "Couldn't send the image");
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <BlurView intensity={night ? 20 : 80} tint={night ? "dark" : "light"} style={styles.modal}>
+        <TouchableOpacity style={styles.modalOverlay} onPress={onClose} activeOpacity={1}>
+          <TouchableOpacity
+            activeOpacity={1}
+            style={[
+              styles.modalContent,
+              {
+                backgroundColor: themeStyles.cardColor,
+                borderColor: themeStyles.borderColor,
+                shadowColor: themeStyles.shadowColor,
+              },
+            ]}
+          >
+            <Text style={[styles.modalTitle, { color: themeStyles.textColor }]}>Create Image</Text>
+
+            <View style={styles.preview}>
+              <VerseCard
+                ref={cardRef}
+                size={PREVIEW_SIZE}
+                template={template}
+                text={text}
+                reference={reference}
+                versionLabel={versionLabel}
+              />
+            </View>
+
+            {/* Background templates */}
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {templates.map((t) => (
+                <TouchableOpacity
+                  key={t.id}
+                  style={styles.templateOption}
+                  onPress={() => setTemplateId(t.id)}
+                >
+                  <View
+                    style={[
+                      styles.templateSwatch,
+                      { backgroundColor: t.background, borderColor: t.accentColor },
+                      t.id === template.id && {
+                        borderColor: themeStyles.accentColor,
+                        borderWidth: 3,
+                      },
+                    ]}
+                  >
+                    <Text style={{ color: t.textColor, fontWeight: "bold" }}>Aa</Text>
+                  </View>
+                  <Text style={[styles.templateName, { color: themeStyles.textColor }]}>
+                    {t.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            {busy ? (
+              <ActivityIndicator style={styles.busy} color={themeStyles.accentColor} />
+            ) : ministries ? (
+              <ScrollView style={styles.ministryList}>
+                {ministries.length === 0 ? (
+                  <Text style={[styles.emptyText, { color: themeStyles.textColor }]}>
+                    You haven't joined any ministries yet.
+                  </Text>
+                ) : (
+                  ministries.map((ministry) => (
+                    <TouchableOpacity
+                      key={ministry.id}
+                      style={[styles.ministryRow, { borderBottomColor: themeStyles.borderColor }]}
+                      onPress={() => handleSendToMinistry(ministry)}
+                    >
+                      <Feather name="message-circle" size={18} color={themeStyles.accentColor} />
+                      <Text style={[styles.ministryName, { color: themeStyles.textColor }]}>
+                        {ministry.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))
+                )}
+              </ScrollView>
+            ) : (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={[styles.actionButton, { backgroundColor: themeStyles.accentColor }]}
+                  onPress={handleSave}
+                >
+                  <Feather name="download" size={18} color="#FFFFFF" />
+                  <Text style={styles.actionText}>Save</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, { backgroundColor: themeStyles.accentColor }]}
+                  onPress={handleShare}
+                >
+                  <Feather name="share" size={18} color="#FFFFFF" />
+                  <Text style={styles.actionText}>Share</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, { backgroundColor: themeStyles.favoriteColor }]}
+                  onPress={showMinistries}
+                >
+                  <Feather name="users" size={18} color="#FFFFFF" />
+                  <Text style={styles.actionText}>Ministry</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </BlurView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContent: {
+    width: "90%",
+    maxHeight: "90%",
+    padding: 20,
+    borderRadius: 10,
+    borderWidth: 1,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 12,
+  },
+  preview: {
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  templateOption: {
+    alignItems: "center",
+    marginRight: 12,
+  },
+  templateSwatch: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    borderWidth: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  templateName: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  busy: {
+    marginVertical: 20,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginHorizontal: 4,
+  },
+  actionText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+    marginLeft: 6,
+  },
+  ministryList: {
+    maxHeight: 200,
+    marginTop: 12,
+  },
+  ministryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  ministryName: {
+    fontSize: 16,
+    marginLeft: 10,
+  },
+  emptyText: {
+    fontSize: 15,
+    opacity: 0.7,
+    marginVertical: 12,
+  },
+});
@@ -0,0 +1,568 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import theme from "../../theme";
+import { ChallengeTemplate, ChallengeTemplateTask } from "@/types/challenges";
+import { useChallengeTemplates } from "@/hooks/useChallengeTemplates";
+import { ChallengeSeason } from "@/utils/liturgy/seasonalChallenges";
+import { ChallengeStats, getCompletionRate, toTemplateTask } from "@/utils/challenges/templates";
+
+type Props = {
+  season: ChallengeSeason;
+  // Called once joining a challenge has added its tasks
+  onJoined: () => void;
+  showNotification: (message: string, type: "error" | "success") => void;
+};
+
+type Repeat = "once" | "daily" | "weekly";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const EMPTY_TASK = {
+  event: "",
+  description: "",
+  repeat: "daily" as Repeat,
+  weekdays: [] as number[],
+  day: "1",
+};
+
+const formatRate = (stats: { due: number; completed: number }) =>
+  `${Math.round(getCompletionRate(stats) * 100)}%`;
+
+// "Daily", "Weekly on Fri from day 3", "Day 40"
+const describeTemplateTask = ({ recurrence, start_offset }: ChallengeTemplateTask): string => {
+  if (!recurrence) return `Day ${start_offset + 1}`;
+  const days = recurrence.weekdays?.length
+    ? ` on ${recurrence.weekdays.map((day) => WEEKDAYS[day]).join(", ")}`
+    : "";
+  const from = start_offset > 0 ? ` from day ${start_offset + 1}` : "";
+  return `${recurrence.frequency === "daily" ? "Daily" : `Weekly${days}`}${from}`;
+};
+
+/**
+ * Seasonal challenges published by the user's churches, joined with one tap.
+ * Church admins can publish challenges, see how their members are doing and
+ * bring back a challenge from an earlier year.
+ */
+export default function ChurchChallengesView({ season, onJoined, showNotification }: Props) {
+  const {
+    churches,
+    adminChurches,
+    currentTemplates,
+    pastTemplates,
+    loading,
+    getChurch,
+    hasJoined,
+    join,
+    publish,
+    clone,
+    getStats,
+  } = useChallengeTemplates(season);
+
+  const [saving, setSaving] = useState<boolean>(false);
+  const [statsTemplate, setStatsTemplate] = useState<ChallengeTemplate | null>(null);
+  const [stats, setStats] = useState<ChallengeStats | null>(null);
+
+  // Challenge authoring (church admins)
+  const [showPublish, setShowPublish] = useState<boolean>(false);
+  const [newChallenge, setNewChallenge] = useState({ title: "", description: "" });
+  const [newChurchId, setNewChurchId] = useState<number | null>(null);
+  const [newTasks, setNewTasks] = useState<ChallengeTemplateTask[]>([]);
+  const [taskDraft, setTaskDraft] = useState(EMPTY_TASK);
+
+  // The admin's earlier challenges that haven't been brought back since
+  const clonable = pastTemplates.filter(
+    (template) =>
+      getChurch(template.church_id)?.isAdmin &&
+      ![...currentTemplates, ...pastTemplates].some(
+        ({ cloned_from }) => cloned_from === template.id,
+      ),
+  );
+
+  const runAction = async (
+    action: () => Promise<unknown>,
+    success: string,
+    errorMessage: string,
+  ) => {
+    setSaving(true);
+    try {
+      await action();
+      showNotification(success, "success");
+    } catch (error) {
+      console.error("Error updating church challenge:", error);
+      showNotification(errorMessage, "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleJoin = (template: ChallengeTemplate) =>
+    runAction(
+      async () => {
+        await join(template);
+        onJoined();
+      },
+      `Joined "${template.title}". Its tasks are now in your list.`,
+      "Failed to join the challenge.",
+    );
+
+  const handleOpenStats = async (template: ChallengeTemplate) => {
+    setStatsTemplate(template);
+    setStats(null);
+    try {
+      setStats(await getStats(template));
+    } catch (error) {
+      console.error("Error loading challenge participation:", error);
+      showNotification("Failed to load participation.", "error");
+      setStatsTemplate(null);
+    }
+  };
+
+  const handleAddTask = () => {
+    if (!taskDraft.event.trim()) {
+      showNotification("Please name the task.", "error");
+      return;
+    }
+    setNewTasks((prev) => [
+      ...prev,
+      toTemplateTask(
+        taskDraft.event,
+        taskDraft.description,
+        taskDraft.repeat,
+        taskDraft.weekdays,
+        parseInt(taskDraft.day, 10) || 1,
+      ),
+    ]);
+    setTaskDraft(EMPTY_TASK);
+  };
+
+  const toggleDraftWeekday = (weekday: number) =>
+    setTaskDraft((prev) => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(weekday)
+        ? prev.weekdays.filter((day) => day !== weekday)
+        : [...prev.weekdays, weekday],
+    }));
+
+  const handlePublish = () => {
+    if (!newChallenge.title.trim()) {
+      showNotification("Please give the challenge a title.", "error");
+      return;
+    }
+    if (newTasks.length === 0) {
+      showNotification("Add at least one task.", "error");
+      return;
+    }
+    runAction(
+      async () => {
+        await publish(
+          newChurchId ?? adminChurches[0].id,
+          newChallenge.title,
+          newChallenge.description,
+          newTasks,
+        );
+        setShowPublish(false);
+        setNewChallenge({ title: "", description: "" });
+        setNewTasks([]);
+        setTaskDraft(EMPTY_TASK);
+      },
+      "Challenge published!",
+      "Failed to publish the challenge.",
+    );
+  };
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loading} color={theme.tertiary} />;
+  }
+  if (churches.length === 0 || (currentTemplates.length === 0 && adminChurches.length === 0)) {
+    return null;
+  }
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={styles.chipText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderTemplateCard = (template: ChallengeTemplate) => {
+    const church = getChurch(template.church_id);
+    const joined = hasJoined(template);
+    return (
+      <View key={template.id} style={styles.card}>
+        <Text style={styles.cardTitle}>{template.title}</Text>
+        <Text style={styles.cardChurch}>{church?.name}</Text>
+        {!!template.description && (
+          <Text style={styles.cardDescription}>{template.description}</Text>
+        )}
+        {template.tasks.map((task, index) => (
+          <View key={index} style={styles.taskRow}>
+            <Feather name="check-circle" size={14} color={theme.accent4} />
+            <Text style={styles.taskText}>
+              {task.event} <Text style={styles.taskSchedule}>· {describeTemplateTask(task)}</Text>
+            </Text>
+          </View>
+        ))}
+        <View style={styles.cardActions}>
+          {church?.isAdmin && (
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => handleOpenStats(template)}
+              activeOpacity={0.7}
+            >
+              <Feather name="bar-chart-2" size={14} color={theme.accent4} />
+              <Text style={styles.secondaryButtonText}>Participation</Text>
+            </TouchableOpacity>
+          )}
+          {joined ? (
+            <View style={styles.joinedBadge}>
+              <Feather name="check" size={14} color={theme.success} />
+              <Text style={styles.joinedText}>Joined</Text>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => handleJoin(template)}
+              disabled={saving}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.primaryButtonText}>Join</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderModal = (visible: boolean, onClose: () => void, children: React.ReactNode) => (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <ScrollView keyboardShouldPersistTaps="handled">{children}</ScrollView>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.7}>
+            <Text style={styles.closeButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Parish Challenges</Text>
+        {adminChurches.length > 0 && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setShowPublish(true)}
+            activeOpacity={0.7}
+          >
+            <Feather name="plus" size={14} color={theme.accent4} />
+            <Text style={styles.secondaryButtonText}>Publish</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {currentTemplates.length === 0 ? (
+        <Text style={styles.emptyText}>
+          Your church hasn't published a challenge for {season.title} yet.
+        </Text>
+      ) : (
+        currentTemplates.map(renderTemplateCard)
+      )}
+      {clonable.map((template) => (
+        <TouchableOpacity
+          key={template.id}
+          style={styles.cloneRow}
+          onPress={() =>
+            runAction(
+              () => clone(template),
+              `"${template.title}" is published for ${season.year}.`,
+              "Failed to bring back the challenge.",
+            )
+          }
+          disabled={saving}
+          activeOpacity={0.7}
+        >
+          <Feather name="copy" size={14} color={theme.accent4} />
+          <Text style={styles.cloneText}>
+            Bring back "{template.title}" from {template.year}
+          </Text>
+        </TouchableOpacity>
+      ))}
+
+      {/* Anonymous participation (church admins) */}
+      {renderModal(
+        statsTemplate !== null,
+        () => setStatsTemplate(null),
+        statsTemplate && (
+          <>
+            <Text style={styles.modalTitle}>{statsTemplate.title}</Text>
+            {!stats ? (
+              <ActivityIndicator style={styles.loading} color={theme.tertiary} />
+            ) : (
+              <>
+                <View style={styles.statsRow}>
+                  <View style={styles.statBox}>
+                    <Text style={styles.statValue}>{stats.participants}</Text>
+                    <Text style={styles.statLabel}>Participants</Text>
+                  </View>
+                  <View style={styles.statBox}>
+                    <Text style={styles.statValue}>{formatRate(stats)}</Text>
+                    <Text style={styles.statLabel}>Completed so far</Text>
+                  </View>
+                </View>
+                {stats.tasks.map((task, index) => (
+                  <View key={index} style={styles.statTaskRow}>
+                    <Text style={styles.taskText}>{task.event}</Text>
+                    <Text style={styles.statTaskRate}>
+                      {formatRate(task)} of {task.due}
+                    </Text>
+                  </View>
+                ))}
+                <Text style={styles.footnote}>
+                  Participation is anonymous: you see totals, not who took part.
+                </Text>
+              </>
+            )}
+          </>
+        ),
+      )}
+
+      {/* Publishing (church admins) */}
+      {renderModal(
+        showPublish,
+        () => setShowPublish(false),
+        <>
+          <Text style={styles.modalTitle}>Publish a Challenge for {season.title}</Text>
+          {adminChurches.length > 1 && (
+            <View style={styles.chipList}>
+              {adminChurches.map((church) =>
+                renderChip(church.name, (newChurchId ?? adminChurches[0].id) === church.id, () =>
+                  setNewChurchId(church.id),
+                ),
+              )}
+            </View>
+          )}
+          <TextInput
+            style={styles.input}
+            placeholder={`Title, e.g. "${season.title}: Examen and Fasting"`}
+            placeholderTextColor={theme.neutral500}
+            value={newChallenge.title}
+            onChangeText={(title) => setNewChallenge((prev) => ({ ...prev, title }))}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Description"
+            placeholderTextColor={theme.neutral500}
+            value={newChallenge.description}
+            onChangeText={(description) => setNewChallenge((prev) => ({ ...prev, description }))}
+          />
+          {newTasks.map((task, index) => (
+            <View key={index} style={styles.taskRow}>
+              <Text style={styles.taskText}>
+                {task.event} <Text style={styles.taskSchedule}>· {describeTemplateTask(task)}</Text>
+              </Text>
+              <TouchableOpacity
+                onPress={() => setNewTasks((prev) => prev.filter((_, i) => i !== index))}
+                accessibilityLabel={`Remove ${task.event}`}
+              >
+                <Feather name="x" size={16} color={theme.error} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <Text style={styles.inputLabel}>Add a Task</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Task, e.g. Daily Examen"
+            placeholderTextColor={theme.neutral500}
+            value={taskDraft.event}
+            onChangeText={(event) => setTaskDraft((prev) => ({ ...prev, event }))}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Details"
+            placeholderTextColor={theme.neutral500}
+            value={taskDraft.description}
+            onChangeText={(description) => setTaskDraft((prev) => ({ ...prev, description }))}
+          />
+          <View style={styles.chipList}>
+            {(["once", "daily", "weekly"] as Repeat[]).map((repeat) =>
+              renderChip(
+                repeat === "once" ? "One Day" : repeat === "daily" ? "Daily" : "Weekly",
+                taskDraft.repeat === repeat,
+                () => setTaskDraft((prev) => ({ ...prev, repeat })),
+              ),
+            )}
+          </View>
+          {taskDraft.repeat === "weekly" && (
+            <View style={styles.chipList}>
+              {WEEKDAYS.map((label, weekday) =>
+                renderChip(label, taskDraft.weekdays.includes(weekday), () =>
+                  toggleDraftWeekday(weekday),
+                ),
+              )}
+            </View>
+          )}
+          <View style={styles.dayRow}>
+            <Text style={styles.inputLabel}>
+              {taskDraft.repeat === "once" ? "On day" : "Starting on day"}
+            </Text>
+            <TextInput
+              style={[styles.input, styles.dayInput]}
+              keyboardType="number-pad"
+              value={taskDraft.day}
+              onChangeText={(day) =>
+                setTaskDraft((prev) => ({ ...prev, day: day.replace(/[^0-9]/g, "") }))
+              }
+              accessibilityLabel="Day of the season"
+            />
+            <Text style={styles.inputLabel}>of the season</Text>
+          </View>
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleAddTask}>
+            <Feather name="plus" size={14} color={theme.accent4} />
+            <Text style={styles.secondaryButtonText}>Add Task</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.publishButton]}
+            onPress={handlePublish}
+            disabled={saving}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.primaryButtonText}>Publish</Text>
+          </TouchableOpacity>
+        </>,
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 8 },
+  loading: { marginVertical: 16 },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: "300",
+    color: theme.textWhite,
+    letterSpacing: 1,
+  },
+  emptyText: { color: theme.neutral400, fontStyle: "italic", marginBottom: 12 },
+  card: {
+    backgroundColor: `${theme.neutral100}1A`,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: `${theme.tertiary}4D`,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardTitle: { fontSize: 18, fontWeight: "500", color: theme.textWhite, letterSpacing: 0.5 },
+  cardChurch: { fontSize: 13, color: theme.tertiary, marginTop: 2, marginBottom: 8 },
+  cardDescription: { fontSize: 15, color: theme.neutral200, marginBottom: 8 },
+  taskRow: { flexDirection: "row", alignItems: "center", gap: 8, paddingVertical: 4 },
+  taskText: { flex: 1, fontSize: 15, color: theme.textWhite },
+  taskSchedule: { color: theme.neutral400 },
+  cardActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "center",
+    gap: 12,
+    marginTop: 12,
+  },
+  primaryButton: {
+    backgroundColor: theme.tertiary,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    alignItems: "center",
+  },
+  primaryButtonText: { color: theme.textWhite, fontSize: 15, fontWeight: "600" },
+  publishButton: { marginTop: 16 },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 4,
+    borderWidth: 1,
+    borderColor: `${theme.accent4}66`,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  secondaryButtonText: { color: theme.accent4, fontSize: 14 },
+  joinedBadge: { flexDirection: "row", alignItems: "center", gap: 4 },
+  joinedText: { color: theme.success, fontSize: 15, fontWeight: "500" },
+  cloneRow: { flexDirection: "row", alignItems: "center", gap: 8, paddingVertical: 8 },
+  cloneText: { color: theme.accent4, fontSize: 14 },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: theme.neutral900,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: `${theme.tertiary}4D`,
+    padding: 20,
+    maxHeight: "85%",
+  },
+  modalTitle: { fontSize: 20, fontWeight: "600", color: theme.textWhite, marginBottom: 16 },
+  closeButton: { alignSelf: "flex-end", paddingVertical: 8, paddingHorizontal: 12, marginTop: 8 },
+  closeButtonText: { color: theme.neutral300, fontSize: 16 },
+  input: {
+    backgroundColor: `${theme.neutral100}1A`,
+    borderWidth: 1,
+    borderColor: `${theme.neutral100}33`,
+    borderRadius: 10,
+    padding: 12,
+    color: theme.textWhite,
+    fontSize: 15,
+    marginBottom: 10,
+  },
+  inputLabel: { color: theme.textWhite, fontSize: 15, marginTop: 8, marginBottom: 6 },
+  dayRow: { flexDirection: "row", alignItems: "center", gap: 8, marginBottom: 8 },
+  dayInput: { width: 56, marginBottom: 0, textAlign: "center" },
+  chipList: { flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 10 },
+  chip: {
+    backgroundColor: `${theme.neutral100}1A`,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: `${theme.neutral100}33`,
+  },
+  chipActive: { backgroundColor: `${theme.tertiary}33`, borderColor: `${theme.tertiary}66` },
+  chipText: { color: theme.textWhite, fontSize: 14 },
+  statsRow: { flexDirection: "row", gap: 12, marginBottom: 16 },
+  statBox: {
+    flex: 1,
+    alignItems: "center",
+    backgroundColor: `${theme.neutral100}1A`,
+    borderRadius: 10,
+    padding: 12,
+  },
+  statValue: { fontSize: 26, fontWeight: "600", color: theme.textWhite },
+  statLabel: { fontSize: 13, color: theme.neutral400 },
+  statTaskRow: { flexDirection: "row", alignItems: "center", paddingVertical: 6 },
+  statTaskRate: { fontSize: 14, color: theme.neutral300 },
+  footnote: { fontSize: 12, color: theme.neutral500, marginTop: 12 },
+});
@@ -0,0 +1,653 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Switch,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import Svg, { Circle } from "react-native-svg";
+import theme from "../../theme";
+import { GroupChallenge } from "@/types/challenges";
+import { useGroupChallenges } from "@/hooks/useGroupChallenges";
+import { ChallengeSeason } from "@/utils/liturgy/seasonalChallenges";
+import { daysBetween, toDateKey } from "@/utils/liturgy/calendar";
+import {
+  NUDGE_THRESHOLD,
+  getCheckinsBehind,
+  getGroupChallengeStatus,
+  getGroupProgress,
+  getLeaderboard,
+  summarizeGroupChallenge,
+} from "@/utils/challenges/groupChallenges";
+
+type Props = {
+  season: ChallengeSeason;
+  showNotification: (message: string, type: "error" | "success") => void;
+};
+
+type StartOption = "season" | "today";
+
+const RING_SIZE = 88;
+const RING_STROKE = 8;
+
+// Ended challenges stay on screen with their summary for this long
+const SUMMARY_DAYS = 30;
+
+function ProgressRing({ progress }: { progress: number }) {
+  const radius = (RING_SIZE - RING_STROKE) / 2;
+  const circumference = 2 * Math.PI * radius;
+  return (
+    <View style={styles.ring}>
+      <Svg width={RING_SIZE} height={RING_SIZE}>
+        <Circle
+          cx={RING_SIZE / 2}
+          cy={RING_SIZE / 2}
+          r={radius}
+          stroke={`${theme.neutral100}26`}
+          strokeWidth={RING_STROKE}
+          fill="none"
+        />
+        <Circle
+          cx={RING_SIZE / 2}
+          cy={RING_SIZE / 2}
+          r={radius}
+          stroke={theme.tertiary}
+          strokeWidth={RING_STROKE}
+          strokeLinecap="round"
+          strokeDasharray={`${circumference} ${circumference}`}
+          strokeDashoffset={circumference * (1 - progress)}
+          fill="none"
+          transform={`rotate(-90 ${RING_SIZE / 2} ${RING_SIZE / 2})`}
+        />
+      </Svg>
+      <Text style={styles.ringText}>{Math.round(progress * 100)}%</Text>
+    </View>
+  );
+}
+
+/**
+ * Challenges the user's groups take on together: a daily check-in, the group's
+ * progress toward its target, an opt-in leaderboard and, once the challenge is
+ * over, a look back at what the group did. Group admins start challenges.
+ */
+export default function GroupChallengesView({ season, showNotification }: Props) {
+  const {
+    userId,
+    groups,
+    adminGroups,
+    challenges,
+    checkins,
+    standings,
+    loading,
+    getGroup,
+    getMembership,
+    hasCheckedInToday,
+    start,
+    join,
+    setOnLeaderboard,
+    toggleCheckIn,
+  } = useGroupChallenges();
+
+  const [saving, setSaving] = useState<boolean>(false);
+  const [joining, setJoining] = useState<GroupChallenge | null>(null);
+  const [joinOnLeaderboard, setJoinOnLeaderboard] = useState<boolean>(false);
+
+  // Starting a challenge (group admins)
+  const seasonLength = daysBetween(season.start, season.end) + 1;
+  const [showStart, setShowStart] = useState<boolean>(false);
+  const [newChallenge, setNewChallenge] = useState({ title: "", description: "" });
+  const [newGroupId, setNewGroupId] = useState<string | null>(null);
+  const [newTarget, setNewTarget] = useState<string>(String(seasonLength));
+  const [startOption, setStartOption] = useState<StartOption>("season");
+
+  const today = new Date();
+  const visibleChallenges = challenges.filter((challenge) => {
+    if (getGroupChallengeStatus(challenge, today) !== "ended") return true;
+    return (
+      !!getMembership(challenge) &&
+      daysBetween(new Date(`${challenge.end_date}T00:00:00`), today) <= SUMMARY_DAYS
+    );
+  });
+
+  const runAction = async (
+    action: () => Promise<unknown>,
+    success: string | null,
+    errorMessage: string,
+  ) => {
+    setSaving(true);
+    try {
+      await action();
+      if (success) showNotification(success, "success");
+    } catch (error) {
+      console.error("Error updating group challenge:", error);
+      showNotification(errorMessage, "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleJoin = () => {
+    if (!joining) return;
+    const challenge = joining;
+    runAction(
+      async () => {
+        await join(challenge, joinOnLeaderboard);
+        setJoining(null);
+        setJoinOnLeaderboard(false);
+      },
+      `Joined "${challenge.title}". Check in each day to help your group!`,
+      "Failed to join the challenge.",
+    );
+  };
+
+  const handleStart = () => {
+    const target = parseInt(newTarget, 10);
+    if (!newChallenge.title.trim()) {
+      showNotification("Please give the challenge a title.", "error");
+      return;
+    }
+    if (!target || target < 1) {
+      showNotification("Please set a target of at least one check-in.", "error");
+      return;
+    }
+    const startDate =
+      startOption === "today" && today > season.start ? toDateKey(today) : toDateKey(season.start);
+    runAction(
+      async () => {
+        await start({
+          group_id: newGroupId ?? adminGroups[0].id,
+          title: newChallenge.title,
+          description: newChallenge.description,
+          target,
+          start_date: startDate,
+          end_date: toDateKey(season.end),
+        });
+        setShowStart(false);
+        setNewChallenge({ title: "", description: "" });
+        setNewTarget(String(seasonLength));
+        setStartOption("season");
+      },
+      "Challenge started! Your group can join it now.",
+      "Failed to start the challenge.",
+    );
+  };
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loading} color={theme.tertiary} />;
+  }
+  if (groups.length === 0 || (visibleChallenges.length === 0 && adminGroups.length === 0)) {
+    return null;
+  }
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={styles.chipText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderSummary = (challenge: GroupChallenge) => {
+    const summary = summarizeGroupChallenge(
+      challenge,
+      standings[challenge.id] || [],
+      checkins[challenge.id] || [],
+    );
+    return (
+      <View style={styles.summary}>
+        <Text style={styles.summaryTitle}>
+          {summary.progress >= 1 ? "Your group reached its goal!" : "Well done, everyone!"}
+        </Text>
+        <View style={styles.statsRow}>
+          <View style={styles.statBox}>
+            <Text style={styles.statValue}>{summary.total}</Text>
+            <Text style={styles.statLabel}>Group check-ins</Text>
+          </View>
+          <View style={styles.statBox}>
+            <Text style={styles.statValue}>
+              {summary.finishers}/{summary.participants}
+            </Text>
+            <Text style={styles.statLabel}>Reached the target</Text>
+          </View>
+        </View>
+        <View style={styles.statsRow}>
+          <View style={styles.statBox}>
+            <Text style={styles.statValue}>{summary.checkins}</Text>
+            <Text style={styles.statLabel}>Your check-ins</Text>
+          </View>
+          <View style={styles.statBox}>
+            <Text style={styles.statValue}>{summary.longestStreak}</Text>
+            <Text style={styles.statLabel}>Your longest streak</Text>
+          </View>
+        </View>
+        {summary.leaders.map((entry) => (
+          <View key={`${entry.rank}-${entry.name}`} style={styles.leaderRow}>
+            <Feather name="award" size={14} color={theme.accent4} />
+            <Text style={styles.leaderName}>{entry.name}</Text>
+            <Text style={styles.leaderCount}>{entry.checkins}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderChallengeCard = (challenge: GroupChallenge) => {
+    const membership = getMembership(challenge);
+    const status = getGroupChallengeStatus(challenge, today);
+    const myCheckins = (checkins[challenge.id] || []).length;
+    const challengeStandings = standings[challenge.id] || [];
+    const { total, goal, progress } = getGroupProgress(challenge, challengeStandings);
+    const leaderboard = getLeaderboard(challengeStandings);
+    const behind = getCheckinsBehind(challenge, myCheckins, today);
+    const checkedIn = hasCheckedInToday(challenge);
+
+    return (
+      <View key={challenge.id} style={styles.card}>
+        <Text style={styles.cardTitle}>{challenge.title}</Text>
+        <Text style={styles.cardGroup}>{getGroup(challenge.group_id)?.name}</Text>
+        {!!challenge.description && (
+          <Text style={styles.cardDescription}>{challenge.description}</Text>
+        )}
+
+        {!membership ? (
+          <View style={styles.cardActions}>
+            <Text style={styles.targetText}>
+              {challenge.target} check-ins ·{" "}
+              {status === "upcoming"
+                ? `starts ${challenge.start_date}`
+                : `ends ${challenge.end_date}`}
+            </Text>
+            {status !== "ended" && (
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={() => setJoining(challenge)}
+                disabled={saving}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.primaryButtonText}>Join</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : status === "ended" ? (
+          renderSummary(challenge)
+        ) : (
+          <>
+            <View style={styles.progressRow}>
+              <ProgressRing progress={progress} />
+              <View style={styles.progressDetails}>
+                <Text style={styles.progressText}>
+                  {total} of {goal} group check-ins
+                </Text>
+                <Text style={styles.targetText}>
+                  You: {myCheckins} of {challenge.target}
+                </Text>
+                {status === "active" ? (
+                  <TouchableOpacity
+                    style={[styles.checkInButton, checkedIn && styles.checkedInButton]}
+                    onPress={() =>
+                      runAction(() => toggleCheckIn(challenge), null, "Failed to check in.")
+                    }
+                    disabled={saving}
+                    activeOpacity={0.7}
+                  >
+                    <Feather
+                      name={checkedIn ? "check-circle" : "circle"}
+                      size={16}
+                      color={checkedIn ? theme.success : theme.textWhite}
+                    />
+                    <Text style={styles.checkInText}>
+                      {checkedIn ? "Checked in today" : "Check in for today"}
+                    </Text>
+                  </TouchableOpacity>
+                ) : (
+                  <Text style={styles.targetText}>Starts {challenge.start_date}</Text>
+                )}
+              </View>
+            </View>
+
+            {status === "active" && behind >= NUDGE_THRESHOLD && (
+              <View style={styles.nudge}>
+                <Feather name="heart" size={14} color={theme.accent4} />
+                <Text style={styles.nudgeText}>
+                  You're {behind} check-ins behind, but there's still time. Your group is praying
+                  with you!
+                </Text>
+              </View>
+            )}
+
+            {leaderboard.length > 0 && (
+              <View style={styles.leaderboard}>
+                <Text style={styles.inputLabel}>Leaderboard</Text>
+                {leaderboard.map((entry) => (
+                  <View key={`${entry.rank}-${entry.name}`} style={styles.leaderRow}>
+                    <Text style={styles.leaderRank}>{entry.rank}</Text>
+                    <Text style={[styles.leaderName, entry.user_id === userId && styles.leaderMe]}>
+                      {entry.name}
+                    </Text>
+                    <Text style={styles.leaderCount}>{entry.checkins}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Show me on the leaderboard</Text>
+              <Switch
+                value={membership.show_on_leaderboard}
+                onValueChange={(value) =>
+                  runAction(
+                    () => setOnLeaderboard(challenge, value),
+                    null,
+                    "Failed to update the leaderboard.",
+                  )
+                }
+                disabled={saving}
+                trackColor={{ false: theme.neutral600, true: theme.tertiary }}
+              />
+            </View>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const renderModal = (visible: boolean, onClose: () => void, children: React.ReactNode) => (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <ScrollView keyboardShouldPersistTaps="handled">{children}</ScrollView>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.7}>
+            <Text style={styles.closeButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Group Challenges</Text>
+        {adminGroups.length > 0 && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setShowStart(true)}
+            activeOpacity={0.7}
+          >
+            <Feather name="plus" size={14} color={theme.accent4} />
+            <Text style={styles.secondaryButtonText}>Start</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {visibleChallenges.length === 0 ? (
+        <Text style={styles.emptyText}>None of your groups has started a challenge yet.</Text>
+      ) : (
+        visibleChallenges.map(renderChallengeCard)
+      )}
+
+      {/* Joining */}
+      {renderModal(
+        joining !== null,
+        () => setJoining(null),
+        joining && (
+          <>
+            <Text style={styles.modalTitle}>Join "{joining.title}"</Text>
+            <Text style={styles.cardDescription}>
+              Aim for {joining.target} check-ins by {joining.end_date}. Your check-ins count toward
+              your group's goal.
+            </Text>
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Show me on the leaderboard</Text>
+              <Switch
+                value={joinOnLeaderboard}
+                onValueChange={setJoinOnLeaderboard}
+                trackColor={{ false: theme.neutral600, true: theme.tertiary }}
+              />
+            </View>
+            <Text style={styles.footnote}>
+              Off the leaderboard, your group sees your check-ins only in its total.
+            </Text>
+            <TouchableOpacity
+              style={[styles.primaryButton, styles.modalButton]}
+              onPress={handleJoin}
+              disabled={saving}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.primaryButtonText}>Join</Text>
+            </TouchableOpacity>
+          </>
+        ),
+      )}
+
+      {/* Starting a challenge (group admins) */}
+      {renderModal(
+        showStart,
+        () => setShowStart(false),
+        <>
+          <Text style={styles.modalTitle}>Start a Group Challenge</Text>
+          {adminGroups.length > 1 && (
+            <View style={styles.chipList}>
+              {adminGroups.map((group) =>
+                renderChip(group.name, (newGroupId ?? adminGroups[0].id) === group.id, () =>
+                  setNewGroupId(group.id),
+                ),
+              )}
+            </View>
+          )}
+          <TextInput
+            style={styles.input}
+            placeholder='Title, e.g. "A Decade of the Rosary Every Day"'
+            placeholderTextColor={theme.neutral500}
+            value={newChallenge.title}
+            onChangeText={(title) => setNewChallenge((prev) => ({ ...prev, title }))}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Description"
+            placeholderTextColor={theme.neutral500}
+            value={newChallenge.description}
+            onChangeText={(description) => setNewChallenge((prev) => ({ ...prev, description }))}
+          />
+          <Text style={styles.inputLabel}>Runs</Text>
+          <View style={styles.chipList}>
+            {renderChip(`All of ${season.title}`, startOption === "season", () =>
+              setStartOption("season"),
+            )}
+            {today > season.start &&
+              renderChip("From today", startOption === "today", () => setStartOption("today"))}
+          </View>
+          <View style={styles.targetRow}>
+            <Text style={styles.inputLabel}>Each member aims for</Text>
+            <TextInput
+              style={[styles.input, styles.targetInput]}
+              keyboardType="number-pad"
+              value={newTarget}
+              onChangeText={(target) => setNewTarget(target.replace(/[^0-9]/g, ""))}
+              accessibilityLabel="Target check-ins"
+            />
+            <Text style={styles.inputLabel}>check-ins</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.modalButton]}
+            onPress={handleStart}
+            disabled={saving}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.primaryButtonText}>Start Challenge</Text>
+          </TouchableOpacity>
+        </>,
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 8 },
+  loading: { marginVertical: 16 },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: "300",
+    color: theme.textWhite,
+    letterSpacing: 1,
+  },
+  emptyText: { color: theme.neutral400, fontStyle: "italic", marginBottom: 12 },
+  card: {
+    backgroundColor: `${theme.neutral100}1A`,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: `${theme.tertiary}4D`,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardTitle: { fontSize: 18, fontWeight: "500", color: theme.textWhite, letterSpacing: 0.5 },
+  cardGroup: { fontSize: 13, color: theme.tertiary, marginTop: 2, marginBottom: 8 },
+  cardDescription: { fontSize: 15, color: theme.neutral200, marginBottom: 8 },
+  cardActions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 12,
+    marginTop: 8,
+  },
+  targetText: { flexShrink: 1, fontSize: 14, color: theme.neutral300 },
+  progressRow: { flexDirection: "row", alignItems: "center", gap: 16, marginTop: 8 },
+  progressDetails: { flex: 1, gap: 6 },
+  progressText: { fontSize: 15, color: theme.textWhite, fontWeight: "500" },
+  ring: { width: RING_SIZE, height: RING_SIZE, alignItems: "center", justifyContent: "center" },
+  ringText: { position: "absolute", fontSize: 18, fontWeight: "600", color: theme.textWhite },
+  checkInButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    backgroundColor: theme.tertiary,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  checkedInButton: {
+    backgroundColor: `${theme.success}26`,
+    borderWidth: 1,
+    borderColor: `${theme.success}66`,
+  },
+  checkInText: { color: theme.textWhite, fontSize: 14, fontWeight: "600" },
+  nudge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: `${theme.accent4}1A`,
+    borderRadius: 10,
+    padding: 10,
+    marginTop: 12,
+  },
+  nudgeText: { flex: 1, fontSize: 14, color: theme.neutral200 },
+  leaderboard: { marginTop: 12 },
+  leaderRow: { flexDirection: "row", alignItems: "center", gap: 8, paddingVertical: 4 },
+  leaderRank: { width: 20, fontSize: 14, color: theme.neutral400, textAlign: "center" },
+  leaderName: { flex: 1, fontSize: 15, color: theme.textWhite },
+  leaderMe: { color: theme.tertiary, fontWeight: "600" },
+  leaderCount: { fontSize: 15, color: theme.neutral300 },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  switchLabel: { fontSize: 14, color: theme.neutral200 },
+  summary: { marginTop: 8 },
+  summaryTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: theme.accent4,
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  statsRow: { flexDirection: "row", gap: 12, marginBottom: 12 },
+  statBox: {
+    flex: 1,
+    alignItems: "center",
+    backgroundColor: `${theme.neutral100}1A`,
+    borderRadius: 10,
+    padding: 12,
+  },
+  statValue: { fontSize: 26, fontWeight: "600", color: theme.textWhite },
+  statLabel: { fontSize: 13, color: theme.neutral400 },
+  primaryButton: {
+    backgroundColor: theme.tertiary,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    alignItems: "center",
+  },
+  primaryButtonText: { color: theme.textWhite, fontSize: 15, fontWeight: "600" },
+  modalButton: { marginTop: 16 },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 4,
+    borderWidth: 1,
+    borderColor: `${theme.accent4}66`,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  secondaryButtonText: { color: theme.accent4, fontSize: 14 },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: theme.neutral900,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: `${theme.tertiary}4D`,
+    padding: 20,
+    maxHeight: "85%",
+  },
+  modalTitle: { fontSize: 20, fontWeight: "600", color: theme.textWhite, marginBottom: 16 },
+  closeButton: { alignSelf: "flex-end", paddingVertical: 8, paddingHorizontal: 12, marginTop: 8 },
+  closeButtonText: { color: theme.neutral300, fontSize: 16 },
+  input: {
+    backgroundColor: `${theme.neutral100}1A`,
+    borderWidth: 1,
+    borderColor: `${theme.neutral100}33`,
+    borderRadius: 10,
+    padding: 12,
+    color: theme.textWhite,
+    fontSize: 15,
+    marginBottom: 10,
+  },
+  inputLabel: { color: theme.textWhite, fontSize: 15, marginTop: 8, marginBottom: 6 },
+  targetRow: { flexDirection: "row", alignItems: "center", gap: 8, marginBottom: 8 },
+  targetInput: { width: 64, marginBottom: 0, textAlign: "center" },
+  chipList: { flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 10 },
+  chip: {
+    backgroundColor: `${theme.neutral100}1A`,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: `${theme.neutral100}33`,
+  },
+  chipActive: { backgroundColor: `${theme.tertiary}33`, borderColor: `${theme.tertiary}66` },
+  chipText: { color: theme.textWhite, fontSize: 14 },
+  footnote: { fontSize: 12, color: theme.neutral500, marginTop: 12 },
+});
@@ -169,8 +169,11 @@ export default function ChurchSidebar({
 
           {/* Menu Items */}
           <ScrollView style={styles.menuContainer} showsVerticalScrollIndicator={false}>
-            {/* Lent 2025 Section */}
-            <TouchableOpacity style={styles.menuItem} onPress={() => navigateTo("Lent2025")}>
+            {/* Seasonal Challenge Section */}
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => navigateTo("SeasonalChallenge")}
+            >
               <View style={styles.menuIconContainer}>
                 <LinearGradient
                   colors={[theme.secondary, theme.accent2]}
@@ -187,10 +190,7 @@ export default function ChurchSidebar({
             </TouchableOpacity>
 
             {/* Rosary Section */}
-            <TouchableOpacity
-              style={styles.menuItem}
-              onPress={() => navigateTo("rosary/screens/RosaryHome")}
-            >
+            <TouchableOpacity style={styles.menuItem} onPress={() => navigateTo("RosaryPrayer")}>
               <View style={styles.menuIconContainer}>
                 <LinearGradient
                   colors={[theme.tertiary, theme.accent2]}
@@ -206,6 +206,23 @@ export default function ChurchSidebar({
               <MaterialCommunityIcons name="chevron-right" size={24} color={theme.textLight} />
             </TouchableOpacity>
 
+            {/* Statistics Section */}
+            <TouchableOpacity style={styles.menuItem} onPress={() => navigateTo("statistics")}>
+              <View style={styles.menuIconContainer}>
+                <LinearGradient
+                  colors={[theme.accent3, theme.accent1]}
+                  style={[styles.iconGradient, styles.muted]}
+                >
+                  <FontAwesome5 name="chart-line" size={22} color={theme.textWhite} />
+                </LinearGradient>
+              </View>
+              <View style={styles.menuTextContainer}>
+                <Text style={styles.menuTitle}>Statistics</Text>
+                <Text style={styles.menuDescription}>Streaks, trends and seasons</Text>
+              </View>
+              <MaterialCommunityIcons name="chevron-right" size={24} color={theme.textLight} />
+            </TouchableOpacity>
+
             {/* Events Section */}
             <TouchableOpacity style={styles.menuItem} onPress={() => navigateTo("events")}>
               <View style={styles.menuIconContainer}>
@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { AnsweredPrayer } from "@/types/prayer";
+import { fetchAnsweredPrayers } from "@/utils/prayer/intentionLifecycle";
+
+type Props = {
+  userId: string | null;
+  // Opens an answered intention's timeline
+  onOpen: (prayer: AnsweredPrayer) => void;
+  cardColor: string;
+  borderColor: string;
+  color: string;
+  textColor: string;
+};
+
+/**
+ * Answered prayers from the user, their friends and their groups, with the
+ * testimonies their authors shared
+ */
+export default function AnsweredPrayersView({
+  userId,
+  onOpen,
+  cardColor,
+  borderColor,
+  color,
+  textColor,
+}: Props) {
+  const [prayers, setPrayers] = useState<AnsweredPrayer[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setPrayers(await fetchAnsweredPrayers(userId));
+    } catch (error) {
+      console.error("Error loading answered prayers:", error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loading} size="large" color={color} />;
+  }
+
+  if (prayers.length === 0) {
+    return (
+      <View style={styles.empty}>
+        <Feather name="sun" size={56} color={`${textColor}40`} />
+        <Text style={[styles.emptyText, { color: textColor }]}>No answered prayers yet</Text>
+        <Text style={[styles.emptySubtext, { color: `${textColor}80` }]}>
+          When you, your friends or your groups mark a prayer answered, it will appear here
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      data={prayers}
+      keyExtractor={(item) => item.id}
+      contentContainerStyle={styles.list}
+      showsVerticalScrollIndicator={false}
+      refreshing={refreshing}
+      onRefresh={() => {
+        setRefreshing(true);
+        refresh();
+      }}
+      renderItem={({ item }) => {
+        const authorName =
+          item.user_id === userId
+            ? "You"
+            : `${item.user?.first_name || ""} ${item.user?.last_name || ""}`.trim() || "Anonymous";
+
+        return (
+          <TouchableOpacity
+            style={[styles.card, { backgroundColor: cardColor, borderColor }]}
+            onPress={() => onOpen(item)}
+            activeOpacity={0.8}
+          >
+            <View style={styles.cardHeader}>
+              <View style={[styles.answeredTag, { backgroundColor: `${color}1A` }]}>
+                <Feather name="sun" size={12} color={color} />
+                <Text style={[styles.answeredTagText, { color }]}>Answered</Text>
+              </View>
+              <Text style={[styles.date, { color: `${textColor}80` }]}>
+                {new Date(item.answered_at).toLocaleDateString()}
+              </Text>
+            </View>
+            <Text style={[styles.author, { color: `${textColor}99` }]}>{authorName}</Text>
+            <Text style={[styles.title, { color: textColor }]}>{item.title}</Text>
+            {!!item.testimony && (
+              <Text style={[styles.testimony, { color: `${textColor}CC` }]} numberOfLines={4}>
+                “{item.testimony}”
+              </Text>
+            )}
+            {!!item.testimony_post_id && (
+              <TouchableOpacity
+                style={styles.linkRow}
+                onPress={() =>
+                  router.push({
+                    pathname: "/culture-and-testimonies/[id]",
+                    params: { id: String(item.testimony_post_id) },
+                  })
+                }
+              >
+                <Feather name="external-link" size={13} color={color} />
+                <Text style={[styles.linkText, { color }]}>Read the testimony</Text>
+              </TouchableOpacity>
+            )}
+          </TouchableOpacity>
+        );
+      }}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: { marginTop: 40 },
+  list: { paddingHorizontal: 16, paddingBottom: 100 },
+  empty: { alignItems: "center", paddingHorizontal: 32, paddingTop: 60 },
+  emptyText: { fontSize: 18, fontWeight: "600", marginTop: 16 },
+  emptySubtext: { fontSize: 14, textAlign: "center", marginTop: 8, lineHeight: 20 },
+  card: { borderRadius: 12, borderWidth: 1, padding: 16, marginBottom: 12 },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  answeredTag: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  answeredTagText: { fontSize: 12, fontWeight: "600" },
+  date: { fontSize: 12 },
+  author: { fontSize: 13, marginBottom: 2 },
+  title: { fontSize: 17, fontWeight: "600" },
+  testimony: { fontSize: 15, fontStyle: "italic", marginTop: 8, lineHeight: 21 },
+  linkRow: { flexDirection: "row", alignItems: "center", gap: 6, marginTop: 10 },
+  linkText: { fontSize: 13, fontWeight: "500" },
+});
@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import DateTimePicker, { DateTimePickerAndroid } from "@react-native-community/datetimepicker";
+import { IntentionReminderKind } from "@/types/prayer";
+import { addDays, toDateKey } from "@/utils/liturgy/calendar";
+import {
+  ReminderSchedule,
+  WEEKDAY_LABELS,
+  describeReminder,
+  formatReminderTime,
+} from "@/utils/prayer/intentionReminders";
+
+type Props = {
+  // The intention being scheduled, or null when closed
+  intention: { id: string; title: string } | null;
+  // Its current reminder, if any
+  reminder?: ReminderSchedule;
+  onSave: (schedule: ReminderSchedule) => Promise<void>;
+  onRemove: () => Promise<void>;
+  onClose: () => void;
+  backgroundColor: string;
+  color: string;
+  textColor: string;
+};
+
+const KIND_OPTIONS: { kind: IntentionReminderKind; label: string }[] = [
+  { kind: "once", label: "Once" },
+  { kind: "daily", label: "Every day" },
+  { kind: "weekdays", label: "Weekdays" },
+  { kind: "until", label: "Until a date" },
+];
+
+type Picker = "time" | "date" | null;
+
+const defaultSchedule = (): ReminderSchedule => ({
+  kind: "daily",
+  remind_time: "07:00",
+  remind_on: toDateKey(addDays(new Date(), 1)),
+  weekdays: [new Date().getDay()],
+  until_date: toDateKey(addDays(new Date(), 6)),
+});
+
+const toTime = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+
+const fromTime = (time: string): Date => {
+  const [hour, minute] = time.split(":").map(Number);
+  const date = new Date();
+  date.setHours(hour, minute, 0, 0);
+  return date;
+};
+
+/**
+ * Choose when to be reminded to pray for an intention: once, every day, on
+ * certain weekdays or every day until a date
+ */
+export default function IntentionReminderModal({
+  intention,
+  reminder,
+  onSave,
+  onRemove,
+  onClose,
+  backgroundColor,
+  color,
+  textColor,
+}: Props) {
+  const [schedule, setSchedule] = useState<ReminderSchedule>(defaultSchedule);
+  const [picker, setPicker] = useState<Picker>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!intention) return;
+    const defaults = defaultSchedule();
+    setSchedule(
+      reminder
+        ? {
+            kind: reminder.kind,
+            remind_time: reminder.remind_time,
+            remind_on: reminder.remind_on ?? defaults.remind_on,
+            weekdays: reminder.weekdays ?? defaults.weekdays,
+            until_date: reminder.until_date ?? defaults.until_date,
+          }
+        : defaults,
+    );
+    setPicker(null);
+  }, [intention, reminder]);
+
+  if (!intention) return null;
+
+  // The day a "once" or "until" reminder is set by
+  const dateField = schedule.kind === "once" ? "remind_on" : "until_date";
+  const dateValue = schedule[dateField];
+
+  const openPicker = (mode: "time" | "date") => {
+    const value =
+      mode === "time"
+        ? fromTime(schedule.remind_time)
+        : new Date((dateValue || toDateKey(new Date())) + "T00:00:00");
+    const onPick = (date?: Date) => {
+      if (!date) return;
+      setSchedule((prev) =>
+        mode === "time"
+          ? { ...prev, remind_time: toTime(date) }
+          : { ...prev, [dateField]: toDateKey(date) },
+      );
+    };
+
+    if (Platform.OS === "android") {
+      DateTimePickerAndroid.open({
+        value,
+        mode,
+        minimumDate: mode === "date" ? new Date() : undefined,
+        onChange: (event, date) => onPick(date),
+      });
+    } else {
+      setPicker((prev) => (prev === mode ? null : mode));
+    }
+  };
+
+  const toggleWeekday = (weekday: number) =>
+    setSchedule((prev) => {
+      const weekdays = prev.weekdays || [];
+      return {
+        ...prev,
+        weekdays: weekdays.includes(weekday)
+          ? weekdays.filter((d) => d !== weekday)
+          : [...weekdays, weekday],
+      };
+    });
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canSave = schedule.kind !== "weekdays" || (schedule.weekdays || []).length > 0;
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor, borderColor: `${color}4D` }]}>
+          <Text style={[styles.title, { color: textColor }]}>Prayer Reminder</Text>
+          <Text style={[styles.subtitle, { color: `${textColor}99` }]} numberOfLines={2}>
+            {intention.title}
+          </Text>
+
+          <View style={styles.chips}>
+            {KIND_OPTIONS.map(({ kind, label }) => (
+              <TouchableOpacity
+                key={kind}
+                style={[
+                  styles.chip,
+                  { borderColor: `${color}66` },
+                  schedule.kind === kind && { backgroundColor: color },
+                ]}
+                onPress={() => setSchedule((prev) => ({ ...prev, kind }))}
+              >
+                <Text
+                  style={[styles.chipText, { color: schedule.kind === kind ? "#FFFFFF" : color }]}
+                >
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {schedule.kind === "weekdays" && (
+            <View style={styles.chips}>
+              {WEEKDAY_LABELS.map((label, weekday) => {
+                const selected = (schedule.weekdays || []).includes(weekday);
+                return (
+                  <TouchableOpacity
+                    key={label}
+                    style={[
+                      styles.dayChip,
+                      { borderColor: `${color}66` },
+                      selected && { backgroundColor: color },
+                    ]}
+                    onPress={() => toggleWeekday(weekday)}
+                  >
+                    <Text style={[styles.chipText, { color: selected ? "#FFFFFF" : color }]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.fieldRow, { borderBottomColor: `${textColor}1A` }]}
+            onPress={() => openPicker("time")}
+          >
+            <Text style={[styles.fieldLabel, { color: textColor }]}>Time</Text>
+            <Text style={[styles.fieldValue, { color }]}>
+              {formatReminderTime(schedule.remind_time)}
+            </Text>
+          </TouchableOpacity>
+
+          {(schedule.kind === "once" || schedule.kind === "until") && (
+            <TouchableOpacity
+              style={[styles.fieldRow, { borderBottomColor: `${textColor}1A` }]}
+              onPress={() => openPicker("date")}
+            >
+              <Text style={[styles.fieldLabel, { color: textColor }]}>
+                {schedule.kind === "once" ? "Day" : "Until"}
+              </Text>
+              <Text style={[styles.fieldValue, { color }]}>
+                {dateValue ? new Date(dateValue + "T00:00:00").toLocaleDateString() : "Choose"}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {Platform.OS !== "android" && picker && (
+            <DateTimePicker
+              value={
+                picker === "time"
+                  ? fromTime(schedule.remind_time)
+                  : new Date((dateValue || toDateKey(new Date())) + "T00:00:00")
+              }
+              mode={picker}
+              display="spinner"
+              minimumDate={picker === "date" ? new Date() : undefined}
+              onChange={(event, date) => {
+                if (!date) return;
+                setSchedule((prev) =>
+                  picker === "time"
+                    ? { ...prev, remind_time: toTime(date) }
+                    : { ...prev, [dateField]: toDateKey(date) },
+                );
+              }}
+              textColor={textColor}
+            />
+          )}
+
+          <Text style={[styles.summary, { color: `${textColor}99` }]}>
+            {describeReminder(schedule)}
+          </Text>
+
+          {saving ? (
+            <ActivityIndicator color={color} />
+          ) : (
+            <View style={styles.actions}>
+              {reminder && (
+                <TouchableOpacity style={styles.textButton} onPress={() => run(onRemove)}>
+                  <Text style={[styles.textButtonText, { color: `${textColor}99` }]}>Turn Off</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.textButton} onPress={onClose}>
+                <Text style={[styles.textButtonText, { color: `${textColor}99` }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: color, opacity: canSave ? 1 : 0.5 }]}
+                onPress={() => run(() => onSave(schedule))}
+                disabled={!canSave}
+              >
+                <Text style={styles.saveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: 20,
+  },
+  content: { borderRadius: 15, borderWidth: 1, padding: 20 },
+  title: { fontSize: 20, fontWeight: "600" },
+  subtitle: { fontSize: 14, marginTop: 4, marginBottom: 16 },
+  chips: { flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 12 },
+  chip: { borderWidth: 1, borderRadius: 16, paddingVertical: 6, paddingHorizontal: 12 },
+  dayChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    width: 42,
+    paddingVertical: 6,
+    alignItems: "center",
+  },
+  chipText: { fontSize: 13, fontWeight: "500" },
+  fieldRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  fieldLabel: { fontSize: 15 },
+  fieldValue: { fontSize: 15, fontWeight: "600" },
+  summary: { fontSize: 13, marginTop: 12, marginBottom: 16 },
+  actions: { flexDirection: "row", justifyContent: "flex-end", alignItems: "center", gap: 8 },
+  textButton: { paddingVertical: 8, paddingHorizontal: 12 },
+  textButtonText: { fontSize: 15 },
+  saveButton: { borderRadius: 8, paddingVertical: 8, paddingHorizontal: 20 },
+  saveButtonText: { color: "#FFFFFF", fontSize: 15, fontWeight: "600" },
+});
@@ -0,0 +1,355 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Switch,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { IntentionStatus } from "@/types/prayer";
+import { IntentionLifecycleFields, useIntentionTimeline } from "@/hooks/useIntentionTimeline";
+import { buildTimeline, isIntentionOpen, TimelineEntry } from "@/utils/prayer/intentionLifecycle";
+
+export interface TimelineIntention {
+  id: string;
+  title: string;
+  description?: string;
+  created_at: string | Date;
+  status: IntentionStatus;
+  completed_at?: string | null;
+  answered_at?: string | null;
+  testimony?: string | null;
+  testimony_post_id?: number | null;
+}
+
+type Props = {
+  // The intention whose timeline is open, or null when closed
+  intention: TimelineIntention | null;
+  isAuthor: boolean;
+  onClose: () => void;
+  // Called with the fields an action changed
+  onChanged: (intentionId: string, fields: Partial<IntentionLifecycleFields>) => void;
+  showFeedback: (message: string) => void;
+  backgroundColor: string;
+  color: string;
+  textColor: string;
+};
+
+const ENTRY_ICONS: Record<TimelineEntry["kind"], keyof typeof Feather.glyphMap> = {
+  created: "edit-3",
+  update: "message-square",
+  answered: "sun",
+  closed: "archive",
+};
+
+const ENTRY_LABELS: Record<TimelineEntry["kind"], string> = {
+  created: "Shared",
+  update: "Update",
+  answered: "Answered",
+  closed: "Closed",
+};
+
+/**
+ * An intention's timeline from when it was shared to how it was answered.
+ * Its author can post updates, mark it answered with a testimony (and share
+ * that in Culture & Testimonies) or close it.
+ */
+export default function IntentionTimelineModal({
+  intention,
+  isAuthor,
+  onClose,
+  onChanged,
+  showFeedback,
+  backgroundColor,
+  color,
+  textColor,
+}: Props) {
+  const { updates, loading, postUpdate, answer, share, setClosed } =
+    useIntentionTimeline(intention);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [updateText, setUpdateText] = useState<string>("");
+  const [answering, setAnswering] = useState<boolean>(false);
+  const [testimony, setTestimony] = useState<string>("");
+  const [shareTestimony, setShareTestimony] = useState<boolean>(false);
+
+  const handleClose = () => {
+    setUpdateText("");
+    setAnswering(false);
+    setTestimony("");
+    setShareTestimony(false);
+    onClose();
+  };
+
+  const runAction = async (
+    action: () => Promise<Partial<IntentionLifecycleFields>>,
+    success: string,
+    errorMessage: string,
+  ) => {
+    if (!intention) return;
+    setSaving(true);
+    try {
+      onChanged(intention.id, await action());
+      showFeedback(success);
+    } catch (error) {
+      console.error("Error updating intention:", error);
+      showFeedback(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePostUpdate = () => {
+    if (!updateText.trim()) return;
+    runAction(
+      async () => {
+        const fields = await postUpdate(updateText);
+        setUpdateText("");
+        return fields;
+      },
+      "Update posted. Everyone who prayed will hear about it.",
+      "Failed to post the update",
+    );
+  };
+
+  const handleAnswer = () =>
+    runAction(
+      async () => {
+        const fields = await answer(testimony, shareTestimony);
+        setAnswering(false);
+        return fields;
+      },
+      "Praise God! Everyone who prayed will hear the good news.",
+      "Failed to mark the intention answered",
+    );
+
+  if (!intention) return null;
+
+  const timeline = buildTimeline(intention, updates);
+  const open = isIntentionOpen(intention.status);
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor, borderColor: `${color}4D` }]}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={[styles.title, { color: textColor }]}>{intention.title}</Text>
+
+            {loading ? (
+              <ActivityIndicator style={styles.loading} color={color} />
+            ) : (
+              timeline.map((entry, index) => (
+                <View key={`${entry.kind}-${entry.date}`} style={styles.entry}>
+                  <View style={styles.entryRail}>
+                    <View style={[styles.entryIcon, { backgroundColor: `${color}26` }]}>
+                      <Feather name={ENTRY_ICONS[entry.kind]} size={14} color={color} />
+                    </View>
+                    {index < timeline.length - 1 && (
+                      <View style={[styles.entryLine, { backgroundColor: `${color}33` }]} />
+                    )}
+                  </View>
+                  <View style={styles.entryBody}>
+                    <Text style={[styles.entryLabel, { color }]}>
+                      {ENTRY_LABELS[entry.kind]} · {new Date(entry.date).toLocaleDateString()}
+                    </Text>
+                    {!!entry.text && (
+                      <Text style={[styles.entryText, { color: textColor }]}>{entry.text}</Text>
+                    )}
+                  </View>
+                </View>
+              ))
+            )}
+
+            {intention.status === "answered" && !!intention.testimony_post_id && (
+              <TouchableOpacity
+                style={styles.linkRow}
+                onPress={() => {
+                  handleClose();
+                  router.push({
+                    pathname: "/culture-and-testimonies/[id]",
+                    params: { id: String(intention.testimony_post_id) },
+                  });
+                }}
+              >
+                <Feather name="external-link" size={14} color={color} />
+                <Text style={[styles.linkText, { color }]}>Shared in Culture & Testimonies</Text>
+              </TouchableOpacity>
+            )}
+
+            {isAuthor && open && !answering && (
+              <>
+                <TextInput
+                  style={[styles.input, { color: textColor, borderColor: `${textColor}33` }]}
+                  placeholder="Share an update with everyone praying"
+                  placeholderTextColor={`${textColor}66`}
+                  value={updateText}
+                  onChangeText={setUpdateText}
+                  multiline
+                />
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    style={[styles.primaryButton, { backgroundColor: color }]}
+                    onPress={handlePostUpdate}
+                    disabled={saving || !updateText.trim()}
+                  >
+                    <Text style={styles.primaryButtonText}>Post Update</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.secondaryButton, { borderColor: `${color}66` }]}
+                    onPress={() => setAnswering(true)}
+                    disabled={saving}
+                  >
+                    <Text style={[styles.secondaryButtonText, { color }]}>Mark Answered</Text>
+                  </TouchableOpacity>
+                </View>
+                <TouchableOpacity
+                  style={styles.linkRow}
+                  onPress={() =>
+                    runAction(() => setClosed(true), "Intention closed", "Failed to close")
+                  }
+                  disabled={saving}
+                >
+                  <Feather name="archive" size={14} color={`${textColor}99`} />
+                  <Text style={[styles.linkText, { color: `${textColor}99` }]}>
+                    Close without an answer
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            {isAuthor && answering && (
+              <>
+                <TextInput
+                  style={[styles.input, { color: textColor, borderColor: `${textColor}33` }]}
+                  placeholder="How was your prayer answered? (optional)"
+                  placeholderTextColor={`${textColor}66`}
+                  value={testimony}
+                  onChangeText={setTestimony}
+                  multiline
+                />
+                <View style={styles.switchRow}>
+                  <Text style={[styles.switchLabel, { color: textColor }]}>
+                    Share in Culture & Testimonies
+                  </Text>
+                  <Switch
+                    value={shareTestimony}
+                    onValueChange={setShareTestimony}
+                    disabled={!testimony.trim()}
+                    trackColor={{ false: `${textColor}33`, true: color }}
+                  />
+                </View>
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    style={[styles.primaryButton, { backgroundColor: color }]}
+                    onPress={handleAnswer}
+                    disabled={saving}
+                  >
+                    <Text style={styles.primaryButtonText}>Prayer Answered</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.secondaryButton, { borderColor: `${color}66` }]}
+                    onPress={() => setAnswering(false)}
+                  >
+                    <Text style={[styles.secondaryButtonText, { color }]}>Back</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+
+            {isAuthor &&
+              intention.status === "answered" &&
+              !!intention.testimony &&
+              !intention.testimony_post_id && (
+                <TouchableOpacity
+                  style={styles.linkRow}
+                  onPress={() =>
+                    runAction(
+                      () => share(intention.testimony || ""),
+                      "Your testimony is shared in Culture & Testimonies",
+                      "Failed to share your testimony",
+                    )
+                  }
+                  disabled={saving}
+                >
+                  <Feather name="share-2" size={14} color={color} />
+                  <Text style={[styles.linkText, { color }]}>Share in Culture & Testimonies</Text>
+                </TouchableOpacity>
+              )}
+
+            {isAuthor && intention.status === "closed" && (
+              <TouchableOpacity
+                style={styles.linkRow}
+                onPress={() =>
+                  runAction(() => setClosed(false), "Intention reopened", "Failed to reopen")
+                }
+                disabled={saving}
+              >
+                <Feather name="rotate-ccw" size={14} color={color} />
+                <Text style={[styles.linkText, { color }]}>Reopen</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+          <TouchableOpacity style={styles.closeButton} onPress={handleClose} activeOpacity={0.7}>
+            <Text style={[styles.closeText, { color }]}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: 20,
+  },
+  content: { borderRadius: 15, borderWidth: 1, padding: 20, maxHeight: "85%" },
+  title: { fontSize: 20, fontWeight: "600", marginBottom: 16 },
+  loading: { marginVertical: 16 },
+  entry: { flexDirection: "row", gap: 12 },
+  entryRail: { alignItems: "center", width: 28 },
+  entryIcon: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  entryLine: { flex: 1, width: 2, marginVertical: 2 },
+  entryBody: { flex: 1, paddingBottom: 16 },
+  entryLabel: { fontSize: 13, fontWeight: "600", marginTop: 5 },
+  entryText: { fontSize: 15, marginTop: 4, lineHeight: 21 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 15,
+    minHeight: 64,
+    marginTop: 8,
+    marginBottom: 10,
+    textAlignVertical: "top",
+  },
+  actions: { flexDirection: "row", gap: 10, marginBottom: 8 },
+  primaryButton: { borderRadius: 8, paddingVertical: 8, paddingHorizontal: 16 },
+  primaryButtonText: { color: "#FFFFFF", fontSize: 14, fontWeight: "600" },
+  secondaryButton: { borderWidth: 1, borderRadius: 8, paddingVertical: 8, paddingHorizontal: 16 },
+  secondaryButtonText: { fontSize: 14, fontWeight: "600" },
+  linkRow: { flexDirection: "row", alignItems: "center", gap: 6, paddingVertical: 8 },
+  linkText: { fontSize: 14 },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  switchLabel: { fontSize: 14 },
+  closeButton: { alignSelf: "flex-end", paddingVertical: 8, paddingHorizontal: 12, marginTop: 8 },
+  closeText: { fontSize: 16 },
+});
@@ -0,0 +1,77 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { FontAwesome } from "@expo/vector-icons";
+import { IntentionPrayerCount } from "@/types/prayer";
+import { formatPrayedCount } from "@/utils/prayer/intentionPrayers";
+
+type Props = {
+  count: IntentionPrayerCount;
+  // The intention's author sees the count rather than praying for their own intention
+  isAuthor: boolean;
+  onPray: () => void;
+  // Opens the list of who prayed; left out when the intention isn't shared
+  onShowList?: () => void;
+  color: string;
+  textColor: string;
+};
+
+/**
+ * The "I prayed" action on an intention, with how many people prayed for it
+ */
+export default function PrayedButton({
+  count,
+  isAuthor,
+  onPray,
+  onShowList,
+  color,
+  textColor,
+}: Props) {
+  const countText = count.people > 0 ? formatPrayedCount(count.people) : null;
+
+  return (
+    <View style={styles.container}>
+      {!isAuthor && (
+        <TouchableOpacity
+          style={[
+            styles.button,
+            { borderColor: `${color}66` },
+            count.prayed_today && { backgroundColor: `${color}26` },
+          ]}
+          onPress={onPray}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityState={{ selected: count.prayed_today }}
+        >
+          <FontAwesome name="hand-paper-o" size={14} color={color} />
+          <Text style={[styles.buttonText, { color }]}>
+            {count.prayed_today ? "Prayed today" : "I prayed"}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {countText &&
+        (isAuthor && onShowList ? (
+          <TouchableOpacity onPress={onShowList} activeOpacity={0.7}>
+            <Text style={[styles.countText, styles.countLink, { color }]}>{countText}</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={[styles.countText, { color: textColor }]}>{countText}</Text>
+        ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flexDirection: "row", alignItems: "center", gap: 10 },
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 5,
+    paddingHorizontal: 12,
+  },
+  buttonText: { fontSize: 13, fontWeight: "600" },
+  countText: { fontSize: 13 },
+  countLink: { textDecorationLine: "underline" },
+});
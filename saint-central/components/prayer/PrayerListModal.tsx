@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  FlatList,
+  ActivityIndicator,
+} from "react-native";
+import { IntentionPrayerPerson } from "@/types/prayer";
+
+type Props = {
+  // The intention whose list is open, or null when closed
+  intention: { id: string; title: string } | null;
+  loadPrayerList: (intentionId: string) => Promise<IntentionPrayerPerson[]>;
+  onClose: () => void;
+  backgroundColor: string;
+  color: string;
+  textColor: string;
+};
+
+/**
+ * Who prayed for one of the user's intentions, and when they last did
+ */
+export default function PrayerListModal({
+  intention,
+  loadPrayerList,
+  onClose,
+  backgroundColor,
+  color,
+  textColor,
+}: Props) {
+  const [people, setPeople] = useState<IntentionPrayerPerson[] | null>(null);
+
+  useEffect(() => {
+    if (!intention) return;
+    setPeople(null);
+    loadPrayerList(intention.id)
+      .then(setPeople)
+      .catch((error) => {
+        console.error("Error loading who prayed:", error);
+        setPeople([]);
+      });
+  }, [intention, loadPrayerList]);
+
+  return (
+    <Modal visible={intention !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor, borderColor: `${color}4D` }]}>
+          <Text style={[styles.title, { color: textColor }]}>Praying for "{intention?.title}"</Text>
+          {!people ? (
+            <ActivityIndicator style={styles.loading} color={color} />
+          ) : (
+            <FlatList
+              data={people}
+              keyExtractor={(person) => person.user_id}
+              renderItem={({ item: person }) => (
+                <View style={styles.row}>
+                  <Text style={[styles.name, { color: textColor }]}>
+                    {[person.first_name, person.last_name].filter(Boolean).join(" ") || "Someone"}
+                  </Text>
+                  <Text style={[styles.when, { color: `${textColor}99` }]}>
+                    {new Date(person.last_prayed_at).toLocaleDateString()}
+                    {person.times > 1 ? ` · ${person.times} times` : ""}
+                  </Text>
+                </View>
+              )}
+              ListEmptyComponent={
+                <Text style={[styles.when, { color: `${textColor}99` }]}>
+                  No one has prayed for this yet.
+                </Text>
+              }
+            />
+          )}
+          <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.7}>
+            <Text style={[styles.closeText, { color }]}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: 20,
+  },
+  content: { borderRadius: 15, borderWidth: 1, padding: 20, maxHeight: "75%" },
+  title: { fontSize: 18, fontWeight: "600", marginBottom: 12 },
+  loading: { marginVertical: 16 },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  name: { fontSize: 15, flex: 1 },
+  when: { fontSize: 13 },
+  closeButton: { alignSelf: "flex-end", paddingVertical: 8, paddingHorizontal: 12, marginTop: 8 },
+  closeText: { fontSize: 16 },
+});
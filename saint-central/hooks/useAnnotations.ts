@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import NetInfo from "@react-native-community/netinfo";
+import { supabase } from "@/supabaseClient";
+import { Annotation } from "@/types/bible";
+import {
+  AnnotationChanges,
+  createAnnotation,
+  editAnnotation,
+  loadLocalAnnotations,
+  mergeAnnotationLists,
+  migrateLegacyFavorites,
+  saveLocalAnnotations,
+  syncAnnotations,
+} from "@/utils/bible/annotations";
+
+// Wait for a burst of edits to settle before syncing
+const SYNC_DELAY_MS = 2000;
+
+/**
+ * The user's highlights, tags and notes. Edits are saved on the device first and merged
+ * with the server whenever a connection is available.
+ */
+export function useAnnotations(bibleVersion: string) {
+  // Includes deleted annotations, which are kept so deletions reach other devices
+  const [allAnnotations, setAllAnnotations] = useState<Annotation[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [syncing, setSyncing] = useState<boolean>(false);
+  const [offline, setOffline] = useState<boolean>(false);
+  const annotationsRef = useRef<Annotation[]>([]);
+  const syncTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // One sync at a time; a sync asked for meanwhile runs once the current one ends
+  const syncInFlight = useRef<boolean>(false);
+  const syncAgain = useRef<boolean>(false);
+  // Legacy favorites are converted once, in the version open when the screen loads
+  const bibleVersionRef = useRef<string>(bibleVersion);
+  bibleVersionRef.current = bibleVersion;
+
+  const apply = useCallback((next: Annotation[]) => {
+    annotationsRef.current = next;
+    setAllAnnotations(next);
+  }, []);
+
+  const sync = useCallback(async () => {
+    if (syncInFlight.current) {
+      syncAgain.current = true;
+      return;
+    }
+
+    const { isConnected } = await NetInfo.fetch();
+    if (!isConnected) {
+      setOffline(true);
+      return;
+    }
+
+    syncInFlight.current = true;
+    setSyncing(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const sent = annotationsRef.current;
+      const synced = await syncAnnotations(user.id, sent);
+      // Keep edits made while waiting on the server; the sync each of them asked
+      // for uploads them once this one ends
+      const merged =
+        annotationsRef.current === sent
+          ? synced
+          : mergeAnnotationLists(annotationsRef.current, synced).merged;
+      apply(merged);
+      await saveLocalAnnotations(merged);
+      setOffline(false);
+    } catch (error) {
+      console.error("Error syncing annotations:", error);
+      setOffline(true);
+    } finally {
+      syncInFlight.current = false;
+      setSyncing(false);
+      if (syncAgain.current) {
+        syncAgain.current = false;
+        sync();
+      }
+    }
+  }, [apply]);
+
+  // Load once; switching versions only changes which annotations are shown,
+  // so it mustn't replace edits not yet saved with the stored list
+  useEffect(() => {
+    const load = async () => {
+      const [stored, migrated] = await Promise.all([
+        loadLocalAnnotations(),
+        migrateLegacyFavorites(bibleVersionRef.current),
+      ]);
+      const local = [...stored, ...migrated];
+      if (migrated.length > 0) await saveLocalAnnotations(local);
+      apply(local);
+      setLoading(false);
+      await sync();
+    };
+    load();
+  }, [apply, sync]);
+
+  // Sync offline edits as soon as the connection comes back
+  useEffect(() => {
+    let wasConnected = true;
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      const connected = !!state.isConnected;
+      if (connected && !wasConnected) sync();
+      wasConnected = connected;
+    });
+    return () => {
+      unsubscribe();
+      if (syncTimer.current) clearTimeout(syncTimer.current);
+    };
+  }, [sync]);
+
+  const commit = (next: Annotation[]) => {
+    apply(next);
+    saveLocalAnnotations(next);
+    if (syncTimer.current) clearTimeout(syncTimer.current);
+    syncTimer.current = setTimeout(sync, SYNC_DELAY_MS);
+  };
+
+  const addAnnotation = (fields: Omit<Parameters<typeof createAnnotation>[0], "bibleVersion">) => {
+    const annotation = createAnnotation({ ...fields, bibleVersion });
+    commit([...annotationsRef.current, annotation]);
+    return annotation;
+  };
+
+  const updateAnnotation = (id: string, changes: AnnotationChanges) => {
+    let updated: Annotation | undefined;
+    commit(
+      annotationsRef.current.map((annotation) => {
+        if (annotation.id !== id) return annotation;
+        updated = editAnnotation(annotation, changes);
+        return updated;
+      }),
+    );
+    return updated;
+  };
+
+  const removeAnnotation = (id: string) => updateAnnotation(id, { deleted: true });
+
+  const annotations = useMemo(
+    () => allAnnotations.filter((annotation) => !annotation.deleted),
+    [allAnnotations],
+  );
+
+  return {
+    annotations,
+    loading,
+    syncing,
+    offline,
+    sync,
+    addAnnotation,
+    updateAnnotation,
+    removeAnnotation,
+  };
+}
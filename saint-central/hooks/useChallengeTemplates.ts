@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/supabaseClient";
+import { ChallengeParticipant, ChallengeTemplate, ChallengeTemplateTask } from "@/types/challenges";
+import { ChallengeSeason } from "@/utils/liturgy/seasonalChallenges";
+import {
+  ChallengeStats,
+  cloneChallengeTemplate,
+  createChallengeTemplate,
+  fetchChallengeParticipation,
+  fetchChallengeTemplates,
+  fetchParticipations,
+  joinChallenge,
+  summarizeChallenge,
+} from "@/utils/challenges/templates";
+
+const ADMIN_ROLES = ["admin", "owner"];
+
+export interface ChallengeChurch {
+  id: number;
+  name: string;
+  isAdmin: boolean;
+}
+
+/**
+ * The challenges the user's churches published for a season, which of them the
+ * user joined, and publishing for church admins
+ */
+export function useChallengeTemplates(season: ChallengeSeason) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [churches, setChurches] = useState<ChallengeChurch[]>([]);
+  // This season's challenges and the same season's in earlier years
+  const [templates, setTemplates] = useState<ChallengeTemplate[]>([]);
+  const [participations, setParticipations] = useState<ChallengeParticipant[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const { data: memberships, error } = await supabase
+        .from("church_members")
+        .select("church_id, role, church:churches(name)")
+        .eq("user_id", user.id);
+      if (error) throw error;
+
+      const userChurches: ChallengeChurch[] = (memberships || []).map((m: any) => ({
+        id: m.church_id,
+        name: m.church?.name ?? "My Church",
+        isAdmin: ADMIN_ROLES.includes(String(m.role).toLowerCase()),
+      }));
+      setChurches(userChurches);
+
+      const [seasonTemplates, userParticipations] = await Promise.all([
+        fetchChallengeTemplates(
+          userChurches.map((c) => c.id),
+          season.id,
+        ),
+        fetchParticipations(user.id),
+      ]);
+      setTemplates(seasonTemplates.filter(({ year }) => year <= season.year));
+      setParticipations(userParticipations);
+    } catch (error) {
+      console.error("Error loading church challenges:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [season.id, season.year]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getChurch = useCallback(
+    (churchId: number) => churches.find((church) => church.id === churchId),
+    [churches],
+  );
+
+  const hasJoined = useCallback(
+    (template: ChallengeTemplate) => participations.some((p) => p.template_id === template.id),
+    [participations],
+  );
+
+  const join = async (template: ChallengeTemplate) => {
+    if (!userId) return;
+    const participation = await joinChallenge(template, season, userId);
+    setParticipations((prev) => [...prev, participation]);
+  };
+
+  const publish = async (
+    churchId: number,
+    title: string,
+    description: string,
+    tasks: ChallengeTemplateTask[],
+  ) => {
+    if (!userId) return;
+    const template = await createChallengeTemplate({
+      church_id: churchId,
+      season_id: season.id,
+      year: season.year,
+      title: title.trim(),
+      description: description.trim(),
+      tasks,
+      created_by: userId,
+    });
+    setTemplates((prev) => [template, ...prev]);
+  };
+
+  // Publish an earlier year's challenge for this season
+  const clone = async (template: ChallengeTemplate) => {
+    if (!userId) return;
+    const cloned = await cloneChallengeTemplate(template, season.year, userId);
+    setTemplates((prev) => [cloned, ...prev]);
+  };
+
+  const getStats = async (template: ChallengeTemplate): Promise<ChallengeStats> => {
+    const { participants, tasks } = await fetchChallengeParticipation(
+      template.id,
+      season,
+      new Date(),
+    );
+    return summarizeChallenge(template, participants, tasks);
+  };
+
+  return {
+    churches,
+    adminChurches: churches.filter(({ isAdmin }) => isAdmin),
+    currentTemplates: templates.filter(({ year }) => year === season.year),
+    pastTemplates: templates.filter(({ year }) => year < season.year),
+    loading,
+    refresh,
+    getChurch,
+    hasJoined,
+    join,
+    publish,
+    clone,
+    getStats,
+  };
+}
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/supabaseClient";
+import { CommentOrder, EngagementComment, EngagementTarget } from "@/types/engagement";
+import {
+  addComment as saveComment,
+  applyCommentChange,
+  deleteComment as removeComment,
+  fetchCommentCounts,
+  fetchComments,
+  subscribeToEngagement,
+  targetKey,
+} from "@/utils/social/engagement";
+import { useEngagementCounts } from "./useEngagementCounts";
+
+const NO_SEEDS: Record<string, number> = {};
+
+// The key of the item a comment is on
+const commentTargetKey = (comment: EngagementComment): string =>
+  `${comment.commentable_type}:${comment.commentable_id}`;
+
+/**
+ * The comments on one item, with their authors, kept up to date in realtime.
+ * Pass null while there's nothing to show comments for.
+ */
+export function useComments(target: EngagementTarget | null, order: CommentOrder = "newest") {
+  const [comments, setComments] = useState<EngagementComment[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  // Responses for an item no longer shown are dropped
+  const requestRef = useRef<number>(0);
+  const type = target?.type;
+  const id = target?.id;
+
+  const refresh = useCallback(async () => {
+    const request = ++requestRef.current;
+    if (!type || id === undefined) {
+      setComments([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      const loaded = await fetchComments({ type, id } as EngagementTarget, order);
+      if (request === requestRef.current) setComments(loaded);
+    } catch (error) {
+      console.error("Error loading comments:", error);
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [type, id, order]);
+
+  // Only a change of item shows as loading, not realtime refreshes
+  useEffect(() => {
+    setComments([]);
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  // Removed comments are taken off the list; other changes to this item's
+  // comments reload it
+  useEffect(() => {
+    if (!type || id === undefined) return;
+    const key = targetKey({ type, id } as EngagementTarget);
+    return subscribeToEngagement("comments", type, (change) => {
+      if (change.event === "DELETE") {
+        setComments((prev) => prev.filter((comment) => comment.id !== change.id));
+      } else if (change.key === key) {
+        refresh();
+      }
+    });
+  }, [type, id, refresh]);
+
+  // Comment as the user; returns the saved comment
+  const addComment = async (content: string): Promise<EngagementComment> => {
+    if (!target) throw new Error("Nothing to comment on");
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+
+    const comment = await saveComment(target, user.id, content);
+    setComments((prev) => (order === "newest" ? [comment, ...prev] : [...prev, comment]));
+    return comment;
+  };
+
+  const deleteComment = async (commentId: string) => {
+    await removeComment(commentId);
+    setComments((prev) => prev.filter((comment) => comment.id !== commentId));
+  };
+
+  return { comments, count: comments.length, loading, refresh, addComment, deleteComment };
+}
+
+/**
+ * How many comments each item in a list has, for showing on cards without
+ * loading the comments themselves. Pass the counts that came with the items,
+ * keyed by targetKey, as seeds so they aren't fetched again.
+ */
+export function useCommentCounts(
+  targets: EngagementTarget[],
+  seeds: Record<string, number> = NO_SEEDS,
+) {
+  const {
+    values: counts,
+    handleChange,
+    refresh,
+  } = useEngagementCounts("comments", targets, seeds, 0, fetchCommentCounts, applyCommentChange);
+
+  /**
+   * The comment count for an item. Until counts load, the fallback is shown,
+   * such as a count that came with the item itself.
+   */
+  const getCommentCount = useCallback(
+    (target: EngagementTarget, fallback = 0): number => counts[targetKey(target)] ?? fallback,
+    [counts],
+  );
+
+  // Count a comment the user added or deleted without waiting for realtime
+  const commentAdded = useCallback(
+    (comment: EngagementComment) =>
+      handleChange({
+        event: "INSERT",
+        id: comment.id,
+        key: commentTargetKey(comment),
+        userId: comment.user_id,
+      }),
+    [handleChange],
+  );
+  const commentDeleted = useCallback(
+    (comment: EngagementComment) =>
+      handleChange({
+        event: "DELETE",
+        id: comment.id,
+        key: commentTargetKey(comment),
+        userId: comment.user_id,
+      }),
+    [handleChange],
+  );
+
+  return { getCommentCount, commentAdded, commentDeleted, refresh };
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/supabaseClient";
+
+/**
+ * The signed-in user's denomination id ("catholic", "orthodox", ...), as chosen in
+ * selectDenomination. null while loading or when none is set.
+ */
+export function useDenomination(): string | null {
+  const [denomination, setDenomination] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const { data, error } = await supabase
+          .from("users")
+          .select("denomination")
+          .eq("id", user.id)
+          .single();
+
+        if (error) throw error;
+        if (!cancelled) setDenomination(data?.denomination ?? null);
+      } catch (error) {
+        console.error("Error loading denomination:", error);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return denomination;
+}
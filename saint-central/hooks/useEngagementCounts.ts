@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/supabaseClient";
+import {
+  EngagementChange,
+  EngagementTarget,
+  EngagementTargetType,
+  TrackedEngagementRow,
+} from "@/types/engagement";
+import {
+  groupTargetsKey,
+  subscribeToEngagement,
+  targetsKey,
+  trackEngagementChange,
+} from "@/utils/social/engagement";
+
+/**
+ * Like or comment counts for a list of items, behind useLikes and
+ * useCommentCounts. Items that came with their counts (seeds, keyed by
+ * targetKey) aren't fetched, and a seed replaces what's shown only when it
+ * changes. The rest are counted by the database. Realtime changes then adjust
+ * the one item they belong to.
+ *
+ * fetchCounts, applyChange and empty must not change between renders.
+ */
+export function useEngagementCounts<T>(
+  table: "likes" | "comments",
+  targets: EngagementTarget[],
+  seeds: Record<string, T>,
+  empty: T,
+  fetchCounts: (type: EngagementTargetType, ids: string[]) => Promise<Record<string, T>>,
+  applyChange: (value: T, added: boolean, mine: boolean) => T,
+) {
+  const [values, setValues] = useState<Record<string, T>>({});
+  const key = targetsKey(targets);
+  const types = [...groupTargetsKey(key).keys()].join(",");
+  // Keys fetched or being fetched, and the seeds last shown
+  const requestedRef = useRef(new Set<string>());
+  const seededRef = useRef<Record<string, string>>({});
+  const rowsRef = useRef(new Map<string, TrackedEngagementRow>());
+  const shownRef = useRef(new Set<string>());
+  const userIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      userIdRef.current = session?.user.id ?? null;
+    });
+  }, []);
+
+  // Count the items in a targets key
+  const load = useCallback(
+    async (wanted: string) => {
+      try {
+        const loaded: Record<string, T> = {};
+        for (const [type, ids] of groupTargetsKey(wanted)) {
+          const byId = await fetchCounts(type, ids);
+          for (const id of ids) loaded[`${type}:${id}`] = byId[id] ?? empty;
+        }
+        setValues((prev) => ({ ...prev, ...loaded }));
+      } catch (error) {
+        console.error(`Error loading ${table}:`, error);
+      }
+    },
+    [table, empty, fetchCounts],
+  );
+
+  useEffect(() => {
+    const changed = Object.entries(seeds).filter(
+      ([seedKey, seed]) => seededRef.current[seedKey] !== JSON.stringify(seed),
+    );
+    if (changed.length === 0) return;
+    changed.forEach(([seedKey, seed]) => (seededRef.current[seedKey] = JSON.stringify(seed)));
+    setValues((prev) => ({ ...prev, ...Object.fromEntries(changed) }));
+  }, [seeds]);
+
+  // Only items shown for the first time without a seed are fetched
+  useEffect(() => {
+    shownRef.current = new Set(key ? key.split(",") : []);
+    const missing = [...shownRef.current].filter(
+      (shown) => !(shown in seeds) && !requestedRef.current.has(shown),
+    );
+    if (missing.length === 0) return;
+    missing.forEach((shown) => requestedRef.current.add(shown));
+    load(missing.join(","));
+  }, [key, seeds, load]);
+
+  const handleChange = useCallback(
+    (change: EngagementChange) => {
+      const counted = trackEngagementChange(
+        rowsRef.current,
+        change,
+        userIdRef.current,
+        shownRef.current,
+      );
+      if (!counted) return;
+      setValues((prev) =>
+        counted.key in prev
+          ? { ...prev, [counted.key]: applyChange(prev[counted.key], counted.added, counted.mine) }
+          : prev,
+      );
+    },
+    [applyChange],
+  );
+
+  // One subscription per type of item, whatever the items are
+  useEffect(() => {
+    const unsubscribes = types
+      ? types
+          .split(",")
+          .map((type) => subscribeToEngagement(table, type as EngagementTargetType, handleChange))
+      : [];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [table, types, handleChange]);
+
+  // Count every item shown again
+  const refresh = useCallback(() => load(key), [load, key]);
+
+  return { values, setValues, handleChange, refresh };
+}
@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/supabaseClient";
+import { ChallengeStanding, GroupChallenge, GroupChallengeMember } from "@/types/challenges";
+import { toDateKey } from "@/utils/liturgy/calendar";
+import {
+  NUDGE_THRESHOLD,
+  cancelChallengeNudge,
+  createGroupChallenge,
+  fetchChallengeMemberships,
+  fetchCheckins,
+  fetchGroupChallenges,
+  fetchStandings,
+  getCheckinsBehind,
+  getGroupChallengeStatus,
+  joinGroupChallenge,
+  scheduleChallengeNudge,
+  setCheckedIn,
+  setLeaderboardOptIn,
+} from "@/utils/challenges/groupChallenges";
+
+export interface ChallengeGroup {
+  id: string;
+  name: string;
+  isAdmin: boolean;
+}
+
+/**
+ * The challenges the user's groups are taking on, the user's check-ins and
+ * each joined challenge's standings
+ */
+export function useGroupChallenges() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [groups, setGroups] = useState<ChallengeGroup[]>([]);
+  const [challenges, setChallenges] = useState<GroupChallenge[]>([]);
+  const [memberships, setMemberships] = useState<GroupChallengeMember[]>([]);
+  // Days the user checked in, by challenge
+  const [checkins, setCheckins] = useState<Record<string, string[]>>({});
+  const [standings, setStandings] = useState<Record<string, ChallengeStanding[]>>({});
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const loadStandings = useCallback(async (challengeId: string) => {
+    const challengeStandings = await fetchStandings(challengeId);
+    setStandings((prev) => ({ ...prev, [challengeId]: challengeStandings }));
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const { data: groupMemberships, error } = await supabase
+        .from("group_members")
+        .select("role, group:groups(id, name)")
+        .eq("user_id", user.id);
+      if (error) throw error;
+
+      const userGroups: ChallengeGroup[] = (groupMemberships || [])
+        .filter((m: any) => m.group)
+        .map((m: any) => ({ id: m.group.id, name: m.group.name, isAdmin: m.role === "admin" }));
+      setGroups(userGroups);
+
+      const [groupChallenges, userMemberships] = await Promise.all([
+        fetchGroupChallenges(userGroups.map((g) => g.id)),
+        fetchChallengeMemberships(user.id),
+      ]);
+      const joinedIds = userMemberships
+        .map(({ challenge_id }) => challenge_id)
+        .filter((id) => groupChallenges.some((challenge) => challenge.id === id));
+
+      const [userCheckins, joinedStandings] = await Promise.all([
+        fetchCheckins(user.id, joinedIds),
+        Promise.all(joinedIds.map(fetchStandings)),
+      ]);
+
+      setChallenges(groupChallenges);
+      setMemberships(userMemberships);
+      setCheckins(userCheckins);
+      setStandings(Object.fromEntries(joinedIds.map((id, i) => [id, joinedStandings[i]])));
+
+      // Nudge members who have fallen behind in a running challenge
+      const now = new Date();
+      await Promise.all(
+        groupChallenges
+          .filter(({ id }) => joinedIds.includes(id))
+          .map((challenge) => {
+            const behind = getCheckinsBehind(
+              challenge,
+              (userCheckins[challenge.id] || []).length,
+              now,
+            );
+            return getGroupChallengeStatus(challenge, now) === "active" && behind >= NUDGE_THRESHOLD
+              ? scheduleChallengeNudge(challenge, behind, now)
+              : cancelChallengeNudge(challenge.id);
+          }),
+      );
+    } catch (error) {
+      console.error("Error loading group challenges:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getGroup = useCallback(
+    (groupId: string) => groups.find((group) => group.id === groupId),
+    [groups],
+  );
+
+  const getMembership = useCallback(
+    (challenge: GroupChallenge) => memberships.find((m) => m.challenge_id === challenge.id),
+    [memberships],
+  );
+
+  const start = async (
+    challenge: Pick<
+      GroupChallenge,
+      "group_id" | "title" | "description" | "target" | "start_date" | "end_date"
+    >,
+  ) => {
+    if (!userId) return;
+    const created = await createGroupChallenge({
+      ...challenge,
+      title: challenge.title.trim(),
+      description: challenge.description.trim(),
+      created_by: userId,
+    });
+    setChallenges((prev) => [created, ...prev]);
+  };
+
+  const join = async (challenge: GroupChallenge, showOnLeaderboard: boolean) => {
+    if (!userId) return;
+    const membership = await joinGroupChallenge(challenge.id, userId, showOnLeaderboard);
+    setMemberships((prev) => [...prev, membership]);
+    await loadStandings(challenge.id);
+  };
+
+  const setOnLeaderboard = async (challenge: GroupChallenge, showOnLeaderboard: boolean) => {
+    const membership = getMembership(challenge);
+    if (!membership) return;
+    const updated = await setLeaderboardOptIn(membership.id, showOnLeaderboard);
+    setMemberships((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+    await loadStandings(challenge.id);
+  };
+
+  const hasCheckedInToday = useCallback(
+    (challenge: GroupChallenge) => (checkins[challenge.id] || []).includes(toDateKey(new Date())),
+    [checkins],
+  );
+
+  // Check in for today, or undo today's check-in
+  const toggleCheckIn = async (challenge: GroupChallenge) => {
+    if (!userId) return;
+    const today = toDateKey(new Date());
+    const checkedIn = !hasCheckedInToday(challenge);
+    await setCheckedIn(challenge.id, userId, today, checkedIn);
+
+    const days = checkedIn
+      ? [...(checkins[challenge.id] || []), today]
+      : (checkins[challenge.id] || []).filter((day) => day !== today);
+    setCheckins((prev) => ({ ...prev, [challenge.id]: days }));
+
+    const behind = getCheckinsBehind(challenge, days.length, new Date());
+    if (behind < NUDGE_THRESHOLD) await cancelChallengeNudge(challenge.id);
+    await loadStandings(challenge.id);
+  };
+
+  return {
+    userId,
+    groups,
+    adminGroups: groups.filter(({ isAdmin }) => isAdmin),
+    challenges,
+    checkins,
+    standings,
+    loading,
+    refresh,
+    getGroup,
+    getMembership,
+    hasCheckedInToday,
+    start,
+    join,
+    setOnLeaderboard,
+    toggleCheckIn,
+  };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/supabaseClient";
+import { IntentionPrayerCount } from "@/types/prayer";
+import {
+  fetchPrayerCounts,
+  fetchPrayerList,
+  setPrayedToday,
+} from "@/utils/prayer/intentionPrayers";
+
+/**
+ * "I prayed" acknowledgements for a list of intentions: how many people prayed
+ * for each, whether the user did today, and who prayed (for the author)
+ */
+export function useIntentionPrayers(intentionIds: string[]) {
+  const [counts, setCounts] = useState<Record<string, IntentionPrayerCount>>({});
+  // A stable dependency for the list of ids
+  const idsKey = [...intentionIds].sort().join(",");
+
+  const refresh = useCallback(async () => {
+    try {
+      setCounts(await fetchPrayerCounts(idsKey ? idsKey.split(",") : []));
+    } catch (error) {
+      console.error("Error loading prayer counts:", error);
+    }
+  }, [idsKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getCount = useCallback(
+    (intentionId: string): IntentionPrayerCount =>
+      counts[intentionId] ?? { intention_id: intentionId, people: 0, prayed_today: false },
+    [counts],
+  );
+
+  // Pray for an intention today, or take back today's prayer
+  const togglePrayed = async (intentionId: string) => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+
+    const prayed = !getCount(intentionId).prayed_today;
+    await setPrayedToday(intentionId, user.id, prayed);
+    // The count is of people, so only a first prayer moves it
+    const people = (await fetchPrayerCounts([intentionId]))[intentionId]?.people ?? 0;
+    setCounts((prev) => ({
+      ...prev,
+      [intentionId]: { intention_id: intentionId, people, prayed_today: prayed },
+    }));
+  };
+
+  return { getCount, refresh, togglePrayed, loadPrayerList: fetchPrayerList };
+}
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/supabaseClient";
+import {
+  ReminderSchedule,
+  ReminderWithIntention,
+  cancelIntentionReminder,
+  deleteIntentionReminder,
+  fetchIntentionReminders,
+  saveIntentionReminder,
+  scheduleIntentionReminder,
+  syncIntentionReminders,
+} from "@/utils/prayer/intentionReminders";
+
+/**
+ * The user's prayer reminders, kept in step with the notifications scheduled
+ * on this device. Call refresh after an intention is completed, answered or
+ * deleted so its reminders stop.
+ */
+export function useIntentionReminders() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [reminders, setReminders] = useState<ReminderWithIntention[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const userReminders = await fetchIntentionReminders(user.id);
+      setReminders(userReminders);
+      await syncIntentionReminders(userReminders, new Date());
+    } catch (error) {
+      console.error("Error loading prayer reminders:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getReminder = useCallback(
+    (intentionId: string): ReminderWithIntention | undefined =>
+      reminders.find((reminder) => reminder.intention_id === intentionId),
+    [reminders],
+  );
+
+  const saveReminder = async (
+    intention: { id: string; title: string },
+    schedule: ReminderSchedule,
+  ) => {
+    if (!userId) throw new Error("Not authenticated");
+    const saved = await saveIntentionReminder(userId, intention.id, schedule);
+    await scheduleIntentionReminder(saved, intention.title, new Date());
+    // Reload for the joined intention
+    await refresh();
+  };
+
+  const removeReminder = async (intentionId: string) => {
+    if (!userId) throw new Error("Not authenticated");
+    await deleteIntentionReminder(userId, intentionId);
+    await cancelIntentionReminder(intentionId);
+    setReminders((prev) => prev.filter((reminder) => reminder.intention_id !== intentionId));
+  };
+
+  return { reminders, loading, refresh, getReminder, saveReminder, removeReminder };
+}
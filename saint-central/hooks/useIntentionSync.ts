@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import NetInfo from "@react-native-community/netinfo";
+import { supabase } from "@/supabaseClient";
+import {
+  IntentionMutation,
+  ReplayResult,
+  loadMutationQueue,
+  queueMutation,
+  replayMutationQueue,
+} from "@/utils/prayer/intentionSync";
+
+/**
+ * Changes to prayer intentions, saved on the device first and sent to the
+ * server whenever a connection is available. onSynced is called after queued
+ * changes reach the server, so the screen can reload and report conflicts.
+ */
+export function useIntentionSync(onSynced: (result: ReplayResult) => void) {
+  const [pending, setPending] = useState<number>(0);
+  const [syncing, setSyncing] = useState<boolean>(false);
+  const [offline, setOffline] = useState<boolean>(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const sync = useCallback(async () => {
+    const { isConnected } = await NetInfo.fetch();
+    if (!isConnected) {
+      setOffline(true);
+      return;
+    }
+    setOffline(false);
+
+    const queued = await loadMutationQueue();
+    setPending(queued.length);
+    if (queued.length === 0) return;
+
+    setSyncing(true);
+    try {
+      // Changes wait in the queue until someone is signed in
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const result = await replayMutationQueue(session.user.id);
+      setPending(result.remaining);
+      if (result.replayed > 0) onSyncedRef.current(result);
+    } catch (error) {
+      console.error("Error syncing intentions:", error);
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    sync();
+  }, [sync]);
+
+  // Send offline changes as soon as the connection comes back
+  useEffect(() => {
+    let wasConnected = true;
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      const connected = !!state.isConnected;
+      setOffline(!connected);
+      if (connected && !wasConnected) sync();
+      wasConnected = connected;
+    });
+    return unsubscribe;
+  }, [sync]);
+
+  // Queue a change and send it right away if the device is online
+  const commit = async (mutation: IntentionMutation) => {
+    setPending(await queueMutation(mutation));
+    await sync();
+  };
+
+  return { pending, syncing, offline, sync, commit };
+}
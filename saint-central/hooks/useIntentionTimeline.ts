@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/supabaseClient";
+import { IntentionStatus, IntentionUpdate } from "@/types/prayer";
+import {
+  fetchIntentionUpdates,
+  markIntentionAnswered,
+  postIntentionUpdate,
+  promoteTestimony,
+  setIntentionClosed,
+} from "@/utils/prayer/intentionLifecycle";
+
+// The parts of an intention its lifecycle changes
+export interface IntentionLifecycleFields {
+  status: IntentionStatus;
+  completed: boolean;
+  completed_at: string | null;
+  answered_at: string | null;
+  testimony: string | null;
+  testimony_post_id: number | null;
+}
+
+/**
+ * An intention's updates, and the author's actions on it: posting news,
+ * marking it answered or closed, and sharing the testimony. Each action
+ * resolves to the fields it changed so the screen can update its copy.
+ */
+export function useIntentionTimeline(intention: { id: string; title: string } | null) {
+  const [updates, setUpdates] = useState<IntentionUpdate[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const intentionId = intention?.id ?? null;
+
+  const refresh = useCallback(async () => {
+    if (!intentionId) return;
+    setLoading(true);
+    try {
+      setUpdates(await fetchIntentionUpdates(intentionId));
+    } catch (error) {
+      console.error("Error loading intention updates:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [intentionId]);
+
+  useEffect(() => {
+    setUpdates([]);
+    refresh();
+  }, [refresh]);
+
+  const getUser = async () => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+    return user;
+  };
+
+  const postUpdate = async (content: string): Promise<Partial<IntentionLifecycleFields>> => {
+    if (!intentionId) return {};
+    const user = await getUser();
+    const update = await postIntentionUpdate(intentionId, user.id, content);
+    setUpdates((prev) => [...prev, update]);
+    return { status: "updated" };
+  };
+
+  const share = async (testimony: string): Promise<Partial<IntentionLifecycleFields>> => {
+    if (!intention) return {};
+    const user = await getUser();
+    const { data: profile } = await supabase
+      .from("users")
+      .select("first_name, last_name")
+      .eq("id", user.id)
+      .single();
+    const authorName =
+      `${profile?.first_name || ""} ${profile?.last_name || ""}`.trim() || "Anonymous";
+
+    const postId = await promoteTestimony(intention, testimony, user.id, authorName);
+    return { testimony_post_id: postId };
+  };
+
+  const answer = async (
+    testimony: string,
+    shareTestimony: boolean,
+  ): Promise<Partial<IntentionLifecycleFields>> => {
+    if (!intentionId) return {};
+    const { answered_at } = await markIntentionAnswered(intentionId, testimony);
+    const fields: Partial<IntentionLifecycleFields> = {
+      status: "answered",
+      completed: true,
+      completed_at: answered_at,
+      answered_at,
+      testimony: testimony.trim() || null,
+    };
+    return shareTestimony && testimony.trim() ? { ...fields, ...(await share(testimony)) } : fields;
+  };
+
+  // Close without an answer, or reopen
+  const setClosed = async (closed: boolean): Promise<Partial<IntentionLifecycleFields>> => {
+    if (!intentionId) return {};
+    await setIntentionClosed(intentionId, closed);
+    return {
+      status: closed ? "closed" : "active",
+      completed: closed,
+      completed_at: closed ? new Date().toISOString() : null,
+      answered_at: null,
+      testimony: null,
+    };
+  };
+
+  return { updates, loading, refresh, postUpdate, answer, share, setClosed };
+}
@@ -0,0 +1,72 @@
+import { useCallback } from "react";
+import { supabase } from "@/supabaseClient";
+import { EngagementTarget, LikeSummary } from "@/types/engagement";
+import {
+  EMPTY_LIKE_SUMMARY,
+  applyLikeChange,
+  fetchLikeSummaries,
+  setLiked,
+  targetKey,
+  toggleLikeSummary,
+} from "@/utils/social/engagement";
+import { useEngagementCounts } from "./useEngagementCounts";
+
+const NO_SEEDS: Record<string, LikeSummary> = {};
+
+/**
+ * Likes on one item or a list of them: how many people liked each and whether
+ * the user did. Pass the summaries that came with the items, keyed by
+ * targetKey, as seeds so they aren't fetched again. Toggling shows the new
+ * state straight away and puts it back if saving fails. Likes by others
+ * arrive in realtime.
+ */
+export function useLikes(
+  targets: EngagementTarget | EngagementTarget[] | null,
+  seeds: Record<string, LikeSummary> = NO_SEEDS,
+) {
+  const {
+    values: summaries,
+    setValues: setSummaries,
+    refresh,
+  } = useEngagementCounts(
+    "likes",
+    targets ? ([] as EngagementTarget[]).concat(targets) : [],
+    seeds,
+    EMPTY_LIKE_SUMMARY,
+    fetchLikeSummaries,
+    applyLikeChange,
+  );
+
+  /**
+   * The likes on an item. Until they load, the fallback is shown, such as
+   * counts that came with the item itself.
+   */
+  const getLikes = useCallback(
+    (target: EngagementTarget, fallback: LikeSummary = EMPTY_LIKE_SUMMARY): LikeSummary =>
+      summaries[targetKey(target)] ?? fallback,
+    [summaries],
+  );
+
+  // Like an item, or take the like back
+  const toggleLike = useCallback(
+    async (target: EngagementTarget, fallback?: LikeSummary) => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const before = getLikes(target, fallback);
+      const after = toggleLikeSummary(before);
+      setSummaries((prev) => ({ ...prev, [targetKey(target)]: after }));
+      try {
+        await setLiked(target, user.id, after.liked);
+      } catch (error) {
+        setSummaries((prev) => ({ ...prev, [targetKey(target)]: before }));
+        throw error;
+      }
+    },
+    [getLikes, setSummaries],
+  );
+
+  return { getLikes, toggleLike, refresh };
+}
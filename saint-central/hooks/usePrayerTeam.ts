@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/supabaseClient";
+import { PrayerTeamRequest, PrayerTeamStatus } from "@/types/prayer";
+import {
+  PrayerTeamChurch,
+  claimPrayerRequest,
+  fetchPrayerTeamChurches,
+  fetchPrayerTeamQueue,
+  fetchPrayerTeamStatuses,
+  markPrayerRequestPrayed,
+  releasePrayerRequest,
+} from "@/utils/prayer/prayerTeam";
+
+/**
+ * The user's churches, for sending a confidential request to one's prayer
+ * team, and where the user's own requests (the given intentions) are with it
+ */
+export function usePrayerTeamRequests(intentionIds: string[]) {
+  const [churches, setChurches] = useState<PrayerTeamChurch[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, PrayerTeamStatus>>({});
+  // A stable dependency for the list of ids
+  const idsKey = [...intentionIds].sort().join(",");
+
+  const refresh = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const [userChurches, requestStatuses] = await Promise.all([
+        fetchPrayerTeamChurches(user.id),
+        fetchPrayerTeamStatuses(idsKey ? idsKey.split(",") : []),
+      ]);
+      setChurches(userChurches);
+      setStatuses(requestStatuses);
+    } catch (error) {
+      console.error("Error loading prayer team requests:", error);
+    }
+  }, [idsKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getStatus = useCallback(
+    (intentionId: string): PrayerTeamStatus | undefined => statuses[intentionId],
+    [statuses],
+  );
+
+  return { churches, getStatus, refresh };
+}
+
+/**
+ * The prayer team's queue for the churches where the user is on the team:
+ * claim a request, give it back, and mark it prayed for
+ */
+export function usePrayerTeamQueue() {
+  const [teamChurches, setTeamChurches] = useState<PrayerTeamChurch[]>([]);
+  const [churchId, setChurchId] = useState<number | null>(null);
+  const [queue, setQueue] = useState<PrayerTeamRequest[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const churches = (await fetchPrayerTeamChurches(user.id)).filter(({ onTeam }) => onTeam);
+      setTeamChurches(churches);
+
+      const selected = churches.find(({ id }) => id === churchId) ?? churches[0];
+      if (!selected) {
+        setQueue([]);
+        return;
+      }
+      if (selected.id !== churchId) setChurchId(selected.id);
+      setQueue(await fetchPrayerTeamQueue(selected.id));
+    } catch (error) {
+      console.error("Error loading prayer team queue:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [churchId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Returns false if another team member claimed it first
+  const claim = async (intentionId: string): Promise<boolean> => {
+    const claimed = await claimPrayerRequest(intentionId);
+    await refresh();
+    return claimed;
+  };
+
+  const release = async (intentionId: string) => {
+    await releasePrayerRequest(intentionId);
+    await refresh();
+  };
+
+  const markPrayed = async (intentionId: string) => {
+    await markPrayerRequestPrayed(intentionId);
+    await refresh();
+  };
+
+  return {
+    teamChurches,
+    churchId,
+    setChurchId,
+    queue,
+    loading,
+    refresh,
+    claim,
+    release,
+    markPrayed,
+  };
+}
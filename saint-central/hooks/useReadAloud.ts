@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as Speech from "expo-speech";
+import { BibleVerse } from "@/types/bible";
+import {
+  SPEECH_RATES,
+  findVerseIndex,
+  getSpeechLanguage,
+  pickVoice,
+  prepareVerseText,
+  splitForSpeech,
+} from "@/utils/bible/readAloud";
+
+interface ReadAloudOptions {
+  verses: BibleVerse[];
+  versionTable: string;
+  // Open the next chapter; returns false when there is none
+  onChapterEnd: () => boolean;
+}
+
+/**
+ * Reads the open chapter aloud verse by verse with on-device text-to-speech,
+ * continuing into the next chapter until paused or the sleep timer runs out.
+ */
+export function useReadAloud({ verses, versionTable, onChapterEnd }: ReadAloudOptions) {
+  const [listening, setListening] = useState<boolean>(false);
+  const [playing, setPlaying] = useState<boolean>(false);
+  const [currentVerse, setCurrentVerse] = useState<string | null>(null);
+  const [rate, setRateState] = useState<number>(SPEECH_RATES[1]);
+  const [sleepMinutes, setSleepMinutes] = useState<number>(0);
+  const [sleepEndsAt, setSleepEndsAt] = useState<number | null>(null);
+
+  // Speech callbacks outlive renders, so they read everything through refs
+  const versesRef = useRef<BibleVerse[]>(verses);
+  const optionsRef = useRef({ versionTable, rate, onChapterEnd });
+  optionsRef.current = { versionTable, rate, onChapterEnd };
+  const voicesRef = useRef<Speech.Voice[]>([]);
+  // Bumped on every start and stop so callbacks from an old utterance are ignored
+  const sessionRef = useRef<number>(0);
+  const awaitingChapter = useRef<boolean>(false);
+  const sleepTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    Speech.getAvailableVoicesAsync()
+      .then((voices) => (voicesRef.current = voices))
+      .catch((error) => console.error("Error loading voices:", error));
+
+    const sessions = sessionRef;
+    const timer = sleepTimer;
+    return () => {
+      sessions.current++;
+      Speech.stop();
+      if (timer.current) clearTimeout(timer.current);
+    };
+  }, []);
+
+  const speakFrom = useCallback((index: number, session: number) => {
+    if (session !== sessionRef.current) return;
+
+    const verse = versesRef.current[index];
+    if (!verse) {
+      // End of the chapter: carry on once the next one has loaded
+      if (optionsRef.current.onChapterEnd()) {
+        awaitingChapter.current = true;
+      } else {
+        setPlaying(false);
+        setCurrentVerse(null);
+      }
+      return;
+    }
+
+    setCurrentVerse(verse.verse);
+    const language = getSpeechLanguage(optionsRef.current.versionTable);
+    const parts = splitForSpeech(prepareVerseText(verse.text));
+
+    parts.forEach((part, i) =>
+      Speech.speak(part, {
+        language,
+        voice: pickVoice(voicesRef.current, language),
+        rate: optionsRef.current.rate,
+        onDone: i === parts.length - 1 ? () => speakFrom(index + 1, session) : undefined,
+        onError: (error) => {
+          console.error("Error reading verse aloud:", error);
+          if (session === sessionRef.current) setPlaying(false);
+        },
+      }),
+    );
+  }, []);
+
+  // Start reading at a verse (or where reading last stopped)
+  const play = useCallback(
+    (fromVerse?: string | null) => {
+      const session = ++sessionRef.current;
+      awaitingChapter.current = false;
+      Speech.stop();
+      setListening(true);
+      setPlaying(true);
+      speakFrom(findVerseIndex(versesRef.current, fromVerse ?? null), session);
+    },
+    [speakFrom],
+  );
+
+  const pause = useCallback(() => {
+    sessionRef.current++;
+    awaitingChapter.current = false;
+    Speech.stop();
+    setPlaying(false);
+  }, []);
+
+  const setSleepTimer = useCallback(
+    (minutes: number) => {
+      if (sleepTimer.current) clearTimeout(sleepTimer.current);
+      sleepTimer.current = null;
+      setSleepMinutes(Math.max(0, minutes));
+
+      if (minutes <= 0) {
+        setSleepEndsAt(null);
+        return;
+      }
+      setSleepEndsAt(Date.now() + minutes * 60 * 1000);
+      sleepTimer.current = setTimeout(
+        () => {
+          pause();
+          setSleepMinutes(0);
+          setSleepEndsAt(null);
+        },
+        minutes * 60 * 1000,
+      );
+    },
+    [pause],
+  );
+
+  // Leave listen mode entirely
+  const close = useCallback(() => {
+    pause();
+    setSleepTimer(0);
+    setListening(false);
+    setCurrentVerse(null);
+  }, [pause, setSleepTimer]);
+
+  const setRate = (next: number) => {
+    setRateState(next);
+    optionsRef.current.rate = next;
+    // Restart the current verse so the new speed is heard straight away
+    if (playing) play(currentVerse);
+  };
+
+  // Skip to the previous or next verse
+  const skip = (offset: number) => {
+    const index = findVerseIndex(versesRef.current, currentVerse) + offset;
+    const verse = versesRef.current[Math.max(0, index)];
+    if (!verse) return;
+    if (playing) {
+      play(verse.verse);
+    } else {
+      setCurrentVerse(verse.verse);
+    }
+  };
+
+  // A new chapter arrived: keep going if it was requested by reading on,
+  // otherwise the reader navigated away and reading stops
+  useEffect(() => {
+    versesRef.current = verses;
+    if (verses.length === 0) return;
+
+    if (awaitingChapter.current) {
+      play(verses[0].verse);
+    } else {
+      pause();
+      setCurrentVerse(null);
+    }
+  }, [verses, play, pause]);
+
+  return {
+    listening,
+    playing,
+    currentVerse,
+    rate,
+    sleepMinutes,
+    sleepEndsAt,
+    play,
+    pause,
+    close,
+    skip,
+    setRate,
+    setSleepTimer,
+  };
+}
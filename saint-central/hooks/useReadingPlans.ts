@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/supabaseClient";
+import { GroupReadingPlan, ReadingPlan, ReadingPlanEnrollment } from "@/types/bible";
+import {
+  createReadingPlan,
+  enrollInPlan,
+  fetchEnrollments,
+  fetchGroupPlans,
+  fetchReadingPlans,
+  getShiftedStartDate,
+  leavePlan,
+  parsePlanDays,
+  scheduleReadingReminder,
+  cancelReadingReminder,
+  setPlanDayCompleted,
+  startGroupPlan,
+  syncReadingReminders,
+  updateEnrollment,
+} from "@/utils/bible/readingPlans";
+import { toDateKey } from "@/utils/liturgy/calendar";
+
+const ADMIN_ROLES = ["admin", "owner"];
+
+export interface PlanGroup {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export interface PlanChurch {
+  id: number;
+  name: string;
+}
+
+/**
+ * Reading plans, the current user's enrollments and the groups they can read with
+ */
+export function useReadingPlans() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [plans, setPlans] = useState<ReadingPlan[]>([]);
+  const [enrollments, setEnrollments] = useState<ReadingPlanEnrollment[]>([]);
+  const [groups, setGroups] = useState<PlanGroup[]>([]);
+  const [groupPlans, setGroupPlans] = useState<GroupReadingPlan[]>([]);
+  // Churches where the user may publish plans
+  const [adminChurches, setAdminChurches] = useState<PlanChurch[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const [{ data: memberships }, { data: groupMemberships }] = await Promise.all([
+        supabase
+          .from("church_members")
+          .select("church_id, role, church:churches(name)")
+          .eq("user_id", user.id),
+        supabase
+          .from("group_members")
+          .select("role, group:groups(id, name)")
+          .eq("user_id", user.id),
+      ]);
+
+      const churchIds = (memberships || []).map((m: any) => m.church_id as number);
+      setAdminChurches(
+        (memberships || [])
+          .filter((m: any) => ADMIN_ROLES.includes(String(m.role).toLowerCase()))
+          .map((m: any) => ({ id: m.church_id, name: m.church?.name ?? "My Church" })),
+      );
+
+      const userGroups: PlanGroup[] = (groupMemberships || [])
+        .filter((m: any) => m.group)
+        .map((m: any) => ({ id: m.group.id, name: m.group.name, role: m.role }));
+      setGroups(userGroups);
+
+      const [allPlans, userEnrollments, sharedPlans] = await Promise.all([
+        fetchReadingPlans(churchIds),
+        fetchEnrollments(user.id),
+        fetchGroupPlans(userGroups.map((g) => g.id)),
+      ]);
+
+      setPlans(allPlans);
+      setEnrollments(userEnrollments);
+      setGroupPlans(sharedPlans);
+
+      await syncReadingReminders(userEnrollments, allPlans);
+    } catch (error) {
+      console.error("Error loading reading plans:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getPlan = useCallback(
+    (planId: string): ReadingPlan | undefined => plans.find((plan) => plan.id === planId),
+    [plans],
+  );
+
+  const replaceEnrollment = (updated: ReadingPlanEnrollment) =>
+    setEnrollments((prev) => prev.map((e) => (e.id === updated.id ? updated : e)));
+
+  const enroll = async (plan: ReadingPlan, groupPlan?: GroupReadingPlan) => {
+    if (!userId) return null;
+    const enrollment = await enrollInPlan(
+      userId,
+      plan.id,
+      groupPlan ? groupPlan.start_date : toDateKey(new Date()),
+      groupPlan ? groupPlan.group_id : null,
+    );
+    setEnrollments((prev) => [enrollment, ...prev]);
+    return enrollment;
+  };
+
+  const completeDay = async (
+    enrollment: ReadingPlanEnrollment,
+    day: number,
+    completed: boolean = true,
+  ) => {
+    const updated = await setPlanDayCompleted(enrollment, day, completed);
+    replaceEnrollment(updated);
+    return updated;
+  };
+
+  // Move the schedule so the first unread day is today
+  const shiftSchedule = async (enrollment: ReadingPlanEnrollment) => {
+    const plan = getPlan(enrollment.plan_id);
+    if (!plan) return;
+    const updated = await updateEnrollment(enrollment.id, {
+      start_date: getShiftedStartDate(enrollment, plan),
+    });
+    replaceEnrollment(updated);
+  };
+
+  const setReminder = async (enrollment: ReadingPlanEnrollment, time: string | null) => {
+    const updated = await updateEnrollment(enrollment.id, { reminder_time: time });
+    replaceEnrollment(updated);
+
+    const plan = getPlan(enrollment.plan_id);
+    if (time && plan) {
+      await scheduleReadingReminder(updated, plan);
+    } else {
+      await cancelReadingReminder(enrollment.id);
+    }
+  };
+
+  const leave = async (enrollment: ReadingPlanEnrollment) => {
+    await leavePlan(enrollment.id);
+    setEnrollments((prev) => prev.filter((e) => e.id !== enrollment.id));
+  };
+
+  // Returns an error message for the author, or null once the plan is published
+  const publishPlan = async (
+    churchId: number,
+    title: string,
+    description: string,
+    daysText: string,
+  ): Promise<string | null> => {
+    if (!userId) return "You must be signed in to publish a plan.";
+    if (!title.trim()) return "Please give the plan a title.";
+
+    const parsed = parsePlanDays(daysText);
+    if ("invalidLine" in parsed) {
+      return `Day ${parsed.invalidLine} isn't a valid scripture reference.`;
+    }
+    if (parsed.days.length === 0) return "Add at least one day of readings.";
+
+    const plan = await createReadingPlan({
+      title: title.trim(),
+      description: description.trim(),
+      days: parsed.days,
+      church_id: churchId,
+      created_by: userId,
+    });
+    setPlans((prev) => [...prev, plan]);
+    return null;
+  };
+
+  // Start a plan for a whole group and enroll the current user in it
+  const startWithGroup = async (plan: ReadingPlan, groupId: string, startDate: string) => {
+    if (!userId) return;
+    const groupPlan = await startGroupPlan(groupId, plan.id, startDate, userId);
+    setGroupPlans((prev) => [groupPlan, ...prev]);
+    await enroll(plan, groupPlan);
+  };
+
+  return {
+    userId,
+    plans,
+    enrollments,
+    groups,
+    groupPlans,
+    adminChurches,
+    loading,
+    refresh,
+    getPlan,
+    enroll,
+    completeDay,
+    shiftSchedule,
+    setReminder,
+    leave,
+    publishPlan,
+    startWithGroup,
+  };
+}
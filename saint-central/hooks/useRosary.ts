@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from "react";
+import { Platform } from "react-native";
+import * as Haptics from "expo-haptics";
+import { supabase } from "@/supabaseClient";
+import { recordPrayerSession } from "@/utils/prayer/prayerSessions";
+import {
+  MysterySetId,
+  ROSARY_STEPS,
+  RosaryProgress,
+  clearRosaryProgress,
+  loadRosaryProgress,
+  saveRosaryProgress,
+} from "@/utils/prayer/rosary";
+
+// A light tap for each Hail Mary, a firmer one for the prayers between decades
+const beadHaptic = (hailMary: boolean) => {
+  if (Platform.OS === "web") return;
+  Haptics.impactAsync(
+    hailMary ? Haptics.ImpactFeedbackStyle.Light : Haptics.ImpactFeedbackStyle.Medium,
+  );
+};
+
+/**
+ * A guided Rosary, one bead at a time. Progress is saved on every step so an
+ * interrupted Rosary can be resumed, and a finished one is recorded as a
+ * prayer session.
+ */
+export function useRosary() {
+  const [progress, setProgress] = useState<RosaryProgress | null>(null);
+  // The saved Rosary, offered for resuming while none is open
+  const [savedProgress, setSavedProgress] = useState<RosaryProgress | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [completed, setCompleted] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadRosaryProgress().then((saved) => {
+      setSavedProgress(saved);
+      setLoading(false);
+    });
+  }, []);
+
+  const update = useCallback((next: RosaryProgress) => {
+    setProgress(next);
+    setSavedProgress(next);
+    saveRosaryProgress(next);
+  }, []);
+
+  const start = useCallback(
+    (mysteries: MysterySetId) => {
+      const now = new Date().toISOString();
+      setCompleted(false);
+      update({ mysteries, step: 0, startedAt: now, updatedAt: now });
+    },
+    [update],
+  );
+
+  const resume = useCallback(() => {
+    if (!savedProgress) return;
+    setCompleted(false);
+    setProgress(savedProgress);
+  }, [savedProgress]);
+
+  // Leave the Rosary, keeping it to resume later
+  const close = useCallback(() => {
+    setProgress(null);
+    setCompleted(false);
+  }, []);
+
+  const finish = useCallback(async (finished: RosaryProgress) => {
+    setCompleted(true);
+    setSavedProgress(null);
+    await clearRosaryProgress();
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      await recordPrayerSession(user.id, "rosary", finished.startedAt, {
+        mysteries: finished.mysteries,
+      });
+    } catch (error) {
+      console.error("Error recording rosary:", error);
+    }
+  }, []);
+
+  const advance = useCallback(() => {
+    if (!progress || completed) return;
+    if (progress.step >= ROSARY_STEPS.length - 1) {
+      finish(progress);
+      return;
+    }
+
+    const step = progress.step + 1;
+    beadHaptic(ROSARY_STEPS[step].prayer === "hailMary");
+    update({ ...progress, step, updatedAt: new Date().toISOString() });
+  }, [progress, completed, finish, update]);
+
+  const goBack = useCallback(() => {
+    if (!progress || completed || progress.step === 0) return;
+    update({ ...progress, step: progress.step - 1, updatedAt: new Date().toISOString() });
+  }, [progress, completed, update]);
+
+  return {
+    loading,
+    progress,
+    savedProgress,
+    completed,
+    currentStep: progress ? ROSARY_STEPS[progress.step] : null,
+    start,
+    resume,
+    close,
+    advance,
+    goBack,
+  };
+}
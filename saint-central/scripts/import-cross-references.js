@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+
+/**
+ * Converts the OpenBible.info cross-reference file (cross_references.txt, from
+ * https://www.openbible.info/labs/cross-references/) into a CSV for the
+ * cross_references table, with book names as stored in the Bible tables.
+ *
+ *   node scripts/import-cross-references.js cross_references.txt > cross_references.csv
+ *   psql "$DATABASE_URL" -c "\copy public.cross_references (from_book, from_chapter, from_verse, to_book, to_start_chapter, to_start_verse, to_end_chapter, to_end_verse, votes) from 'cross_references.csv' csv"
+ */
+
+const fs = require("fs");
+
+// OSIS book abbreviations used by the dataset
+const BOOKS = {
+  Gen: "Genesis",
+  Exod: "Exodus",
+  Lev: "Leviticus",
+  Num: "Numbers",
+  Deut: "Deuteronomy",
+  Josh: "Joshua",
+  Judg: "Judges",
+  Ruth: "Ruth",
+  "1Sam": "I Samuel",
+  "2Sam": "II Samuel",
+  "1Kgs": "I Kings",
+  "2Kgs": "II Kings",
+  "1Chr": "I Chronicles",
+  "2Chr": "II Chronicles",
+  Ezra: "Ezra",
+  Neh: "Nehemiah",
+  Esth: "Esther",
+  Job: "Job",
+  Ps: "Psalms",
+  Prov: "Proverbs",
+  Eccl: "Ecclesiastes",
+  Song: "Song of Solomon",
+  Isa: "Isaiah",
+  Jer: "Jeremiah",
+  Lam: "Lamentations",
+  Ezek: "Ezekiel",
+  Dan: "Daniel",
+  Hos: "Hosea",
+  Joel: "Joel",
+  Amos: "Amos",
+  Obad: "Obadiah",
+  Jonah: "Jonah",
+  Mic: "Micah",
+  Nah: "Nahum",
+  Hab: "Habakkuk",
+  Zeph: "Zephaniah",
+  Hag: "Haggai",
+  Zech: "Zechariah",
+  Mal: "Malachi",
+  Matt: "Matthew",
+  Mark: "Mark",
+  Luke: "Luke",
+  John: "John",
+  Acts: "Acts",
+  Rom: "Romans",
+  "1Cor": "I Corinthians",
+  "2Cor": "II Corinthians",
+  Gal: "Galatians",
+  Eph: "Ephesians",
+  Phil: "Philippians",
+  Col: "Colossians",
+  "1Thess": "I Thessalonians",
+  "2Thess": "II Thessalonians",
+  "1Tim": "I Timothy",
+  "2Tim": "II Timothy",
+  Titus: "Titus",
+  Phlm: "Philemon",
+  Heb: "Hebrews",
+  Jas: "James",
+  "1Pet": "I Peter",
+  "2Pet": "II Peter",
+  "1John": "I John",
+  "2John": "II John",
+  "3John": "III John",
+  Jude: "Jude",
+  Rev: "Revelation of John",
+};
+
+// "Gen.1.1" -> ["Genesis", 1, 1]
+function parseVerse(osis) {
+  const [book, chapter, verse] = osis.split(".");
+  if (!BOOKS[book]) throw new Error(`Unknown book: ${book}`);
+  return [BOOKS[book], parseInt(chapter, 10), parseInt(verse, 10)];
+}
+
+const quote = (value) => (typeof value === "string" ? `"${value}"` : String(value));
+
+const file = process.argv[2];
+if (!file) {
+  console.error("Usage: node scripts/import-cross-references.js cross_references.txt");
+  process.exit(1);
+}
+
+const lines = fs.readFileSync(file, "utf8").split("\n");
+
+// The first line is a header: From Verse, To Verse, Votes, ...
+lines.slice(1).forEach((line) => {
+  if (!line.trim()) return;
+  const [from, to, votes] = line.split("\t");
+  const [start, end = start] = to.split("-");
+
+  const [fromBook, fromChapter, fromVerse] = parseVerse(from);
+  const [toBook, toStartChapter, toStartVerse] = parseVerse(start);
+  const [, toEndChapter, toEndVerse] = parseVerse(end);
+
+  const row = [
+    fromBook,
+    fromChapter,
+    fromVerse,
+    toBook,
+    toStartChapter,
+    toStartVerse,
+    toEndChapter,
+    toEndVerse,
+    parseInt(votes, 10) || 0,
+  ];
+  process.stdout.write(`${row.map(quote).join(",")}\n`);
+});
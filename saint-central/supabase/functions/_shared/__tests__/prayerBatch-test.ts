@@ -0,0 +1,32 @@
+import { summarizePrayerBatch, UnnotifiedPrayer } from "../prayerBatch";
+
+const prayer = (id: string, intentionId: string, userId: string, title = "Mom's surgery") =>
+  ({
+    id,
+    intention_id: intentionId,
+    user_id: userId,
+    intention: { title },
+  }) as UnnotifiedPrayer;
+
+describe("prayer acknowledgement batches", () => {
+  it("announces a batch in one notification", () => {
+    expect(summarizePrayerBatch([])).toBeNull();
+
+    expect(summarizePrayerBatch([prayer("1", "a", "ann")])?.body).toBe(
+      `Someone prayed for "Mom's surgery".`,
+    );
+
+    // Praying twice counts once
+    expect(
+      summarizePrayerBatch([
+        prayer("1", "a", "ann"),
+        prayer("2", "a", "ben"),
+        prayer("3", "a", "ann"),
+      ])?.body,
+    ).toBe(`2 people prayed for "Mom's surgery".`);
+
+    expect(
+      summarizePrayerBatch([prayer("1", "a", "ann"), prayer("2", "b", "ben", "New job")])?.body,
+    ).toBe("2 people prayed for 2 of your intentions.");
+  });
+});
@@ -0,0 +1,36 @@
+// Shared by the prayer-acknowledgements function and its tests, so it has no
+// imports
+
+// An acknowledgement the author hasn't been told about yet
+export interface UnnotifiedPrayer {
+  id: string;
+  intention_id: string;
+  user_id: string;
+  intention: { title: string } | null;
+}
+
+/**
+ * One notification for a batch of acknowledgements, or null when there are none.
+ * Counts people rather than taps, so praying twice doesn't inflate the number.
+ */
+export function summarizePrayerBatch(
+  prayers: UnnotifiedPrayer[],
+): { title: string; body: string } | null {
+  if (prayers.length === 0) return null;
+
+  const people = new Set(prayers.map(({ user_id }) => user_id)).size;
+  const intentions = [...new Set(prayers.map(({ intention_id }) => intention_id))];
+  const who = people === 1 ? "Someone" : `${people} people`;
+
+  if (intentions.length === 1) {
+    const title = prayers[0].intention?.title;
+    return {
+      title: "You're being prayed for",
+      body: title ? `${who} prayed for "${title}".` : `${who} prayed for your intention.`,
+    };
+  }
+  return {
+    title: "You're being prayed for",
+    body: `${who} prayed for ${intentions.length} of your intentions.`,
+  };
+}
@@ -0,0 +1,174 @@
+/* eslint-disable import/no-unresolved */
+// /supabase/functions/prayer-acknowledgements/index.ts
+// @ts-ignore
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+// @ts-ignore
+import { summarizePrayerBatch, UnnotifiedPrayer } from "../_shared/prayerBatch.ts";
+
+declare global {
+  var Deno: any;
+}
+
+// "I prayed" acknowledgements are gathered for this long before the author is told
+const BATCH_DELAY_MS = 10 * 60 * 1000;
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+// Expo accepts up to 100 messages per request
+const EXPO_PUSH_CHUNK = 100;
+
+// Acknowledgements read per query, and ids per filter so request URLs stay
+// short however large a backlog gets
+const PAGE_SIZE = 500;
+const ID_CHUNK = 100;
+
+type PendingPrayer = UnnotifiedPrayer & { author_id: string; prayed_at: string };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, (i + 1) * size),
+  );
+
+/**
+ * The push messages for a page of acknowledgements, and the ids to mark
+ * notified once they are sent. Authors whose first acknowledgement hasn't
+ * waited BATCH_DELAY_MS are left for a later run.
+ */
+async function preparePage(
+  supabaseAdmin: any,
+  prayers: PendingPrayer[],
+): Promise<{ messages: Record<string, unknown>[]; doneIds: string[] }> {
+  // Praying for your own intention isn't news
+  const doneIds = prayers.filter((p) => p.user_id === p.author_id).map(({ id }) => id);
+
+  // An author's batch goes out once its first acknowledgement has waited long enough
+  const cutoff = Date.now() - BATCH_DELAY_MS;
+  const batches = new Map<string, PendingPrayer[]>();
+  prayers
+    .filter((p) => p.user_id !== p.author_id)
+    .forEach((prayer) => {
+      batches.set(prayer.author_id, [...(batches.get(prayer.author_id) ?? []), prayer]);
+    });
+  batches.forEach((batch, authorId) => {
+    if (new Date(batch[0].prayed_at).getTime() > cutoff) batches.delete(authorId);
+  });
+
+  const authorIds = [...batches.keys()];
+  const messages: Record<string, unknown>[] = [];
+  if (authorIds.length === 0) return { messages, doneIds };
+
+  const tokens: { user_id: string; token: string }[] = [];
+  // Authors who turned prayer notifications off aren't told, but their
+  // acknowledgements are still marked so they don't pile up
+  const mutedIds = new Set<string>();
+  for (const ids of chunk(authorIds, ID_CHUNK)) {
+    const [tokenRows, preferences] = await Promise.all([
+      supabaseAdmin.from("user_push_tokens").select("user_id, token").in("user_id", ids),
+      supabaseAdmin
+        .from("user_preferences")
+        .select("user_id, notification_preferences")
+        .in("user_id", ids),
+    ]);
+    if (tokenRows.error) throw tokenRows.error;
+    if (preferences.error) throw preferences.error;
+
+    tokens.push(...(tokenRows.data || []));
+    (preferences.data || [])
+      .filter((p: any) => p.notification_preferences?.prayerRequests === false)
+      .forEach((p: any) => mutedIds.add(p.user_id));
+  }
+
+  batches.forEach((batch, authorId) => {
+    doneIds.push(...batch.map(({ id }) => id));
+    const summary = summarizePrayerBatch(batch);
+    if (!summary || mutedIds.has(authorId)) return;
+
+    tokens
+      .filter((t) => t.user_id === authorId)
+      .forEach((t) =>
+        messages.push({
+          to: t.token,
+          title: summary.title,
+          body: summary.body,
+          sound: "default",
+          data: {
+            type: "intention_prayers",
+            intentionIds: [...new Set(batch.map(({ intention_id }) => intention_id))],
+          },
+        }),
+      );
+  });
+
+  return { messages, doneIds };
+}
+
+// Called by the prayer-acknowledgements cron job (see migration
+// 20261020020000_intention_prayer_push.sql). Sends each author one push
+// notification for the acknowledgements waiting since at least BATCH_DELAY_MS,
+// then marks them notified. Works through the backlog a page at a time,
+// oldest first, until a page has nothing ready to send.
+serve(async (req: any) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: "Not allowed" }, 401);
+  }
+
+  // Create supabase client with admin privileges
+  const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  let sent = 0;
+  let notified = 0;
+  try {
+    for (;;) {
+      const { data, error } = await supabaseAdmin
+        .from("intention_prayers")
+        .select("id, intention_id, user_id, author_id, prayed_at, intention:intentions(title)")
+        .is("notified_at", null)
+        .order("prayed_at", { ascending: true })
+        .limit(PAGE_SIZE);
+      if (error) throw error;
+
+      const prayers = (data || []) as PendingPrayer[];
+      const { messages, doneIds } = await preparePage(supabaseAdmin, prayers);
+
+      // Nothing is marked until every message is handed to Expo, so a failed
+      // run is retried by the next one
+      for (const batch of chunk(messages, EXPO_PUSH_CHUNK)) {
+        const response = await fetch(EXPO_PUSH_URL, {
+          method: "POST",
+          headers: { Accept: "application/json", "Content-Type": "application/json" },
+          body: JSON.stringify(batch),
+        });
+        if (!response.ok) {
+          return json({ error: `Expo push failed with ${response.status}`, sent, notified }, 502);
+        }
+      }
+      sent += messages.length;
+
+      for (const ids of chunk(doneIds, ID_CHUNK)) {
+        const { error: markError } = await supabaseAdmin
+          .from("intention_prayers")
+          .update({ notified_at: new Date().toISOString() })
+          .in("id", ids);
+        if (markError) throw markError;
+        notified += ids.length;
+      }
+
+      // The rest are still waiting for their batch to be ready
+      if (prayers.length < PAGE_SIZE || doneIds.length === 0) break;
+    }
+  } catch (error: any) {
+    return json({ error: error?.message ?? String(error), sent, notified }, 500);
+  }
+
+  return json({ sent, notified });
+});
@@ -0,0 +1,446 @@
+-- The schema the later migrations start from: every table the app used
+-- before its changes were kept in supabase/migrations. With it, a fresh local
+-- database (`supabase db reset`, `supabase test db`) can apply every
+-- migration.
+--
+-- The hosted project already has these tables. Record this migration as
+-- applied there instead of running it:
+--
+--   supabase migration repair --status applied 20261019000000
+--
+-- Row-level security on intentions, lent_tasks, likes and comments comes
+-- from 20261020010000_visibility_policies.sql.
+
+-- ---------------------
+-- PEOPLE
+-- ---------------------
+
+-- Profiles, created by the app when someone signs up
+create table if not exists public.users (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text,
+  first_name text,
+  last_name text,
+  profile_image text,
+  denomination text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- user_id_1 sent the request to user_id_2
+create table if not exists public.friends (
+  id uuid primary key default gen_random_uuid(),
+  user_id_1 uuid not null references public.users (id) on delete cascade,
+  user_id_2 uuid not null references public.users (id) on delete cascade,
+  status text not null default 'pending',
+  created_at timestamptz not null default now(),
+  unique (user_id_1, user_id_2)
+);
+
+create index if not exists friends_user_id_2_idx on public.friends (user_id_2);
+
+create table if not exists public.groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text not null default '',
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.group_members (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  role text not null default 'member',
+  joined_at timestamptz not null default now(),
+  unique (group_id, user_id)
+);
+
+create index if not exists group_members_user_id_idx on public.group_members (user_id);
+
+create table if not exists public.user_preferences (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  notification_preferences jsonb not null default '{}',
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.user_push_tokens (
+  id serial primary key,
+  user_id uuid references auth.users (id) on delete cascade,
+  token text not null,
+  device_type text not null,
+  created_at timestamptz default now(),
+  last_used timestamptz default now()
+);
+
+create index if not exists user_push_tokens_user_id_idx on public.user_push_tokens (user_id);
+
+-- ---------------------
+-- CHURCHES
+-- ---------------------
+
+create table if not exists public.churches (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  category text,
+  description text,
+  founded text,
+  phone text,
+  email text,
+  mass_schedule text,
+  website text,
+  image text,
+  address text,
+  lat double precision,
+  lng double precision,
+  created_at timestamptz not null default now()
+);
+
+-- Registrations waiting for review before they become churches
+create table if not exists public.pending_churches (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  address text,
+  denomination text,
+  description text,
+  founded text,
+  phone text,
+  email text,
+  mass_schedule text,
+  website text,
+  image text,
+  submitted_by uuid references auth.users (id) on delete set null,
+  status text not null default 'pending',
+  submitted_at timestamptz not null default now()
+);
+
+-- role is 'member', 'admin', 'owner' or 'prayer team'
+create table if not exists public.church_members (
+  id bigint generated by default as identity primary key,
+  church_id bigint not null references public.churches (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member',
+  joined_at timestamptz not null default now(),
+  unique (church_id, user_id)
+);
+
+create index if not exists church_members_user_id_idx on public.church_members (user_id);
+
+create table if not exists public.church_events (
+  id bigint generated by default as identity primary key,
+  church_id bigint references public.churches (id) on delete cascade,
+  title text not null,
+  excerpt text not null default '',
+  image_url text,
+  video_link text,
+  event_date timestamptz,
+  time timestamptz not null,
+  event_location text,
+  author_name text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  is_deleted boolean not null default false,
+  is_recurring boolean not null default false,
+  recurrence_type text,
+  recurrence_interval integer,
+  recurrence_days_of_week integer[],
+  recurrence_end_date timestamptz
+);
+
+create index if not exists church_events_church_id_idx on public.church_events (church_id, time);
+
+create table if not exists public.ministries (
+  id bigint generated by default as identity primary key,
+  church_id bigint references public.churches (id) on delete cascade,
+  name text not null,
+  description text not null default '',
+  image_url text,
+  is_system_generated boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.ministry_members (
+  id bigint generated by default as identity primary key,
+  ministry_id bigint not null references public.ministries (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  church_id bigint references public.churches (id) on delete cascade,
+  role text not null default 'member',
+  member_status text,
+  joined_at timestamptz not null default now(),
+  unique (ministry_id, user_id)
+);
+
+create index if not exists ministry_members_user_id_idx on public.ministry_members (user_id);
+
+create table if not exists public.ministry_messages (
+  id uuid primary key default gen_random_uuid(),
+  ministry_id bigint not null references public.ministries (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete set null,
+  message_text text not null default '',
+  attachment_url text,
+  sent_at timestamptz not null default now(),
+  push_sent boolean not null default false
+);
+
+create index if not exists ministry_messages_ministry_id_idx
+  on public.ministry_messages (ministry_id, sent_at);
+
+create table if not exists public.ministry_notifications (
+  id serial primary key,
+  ministry_id bigint references public.ministries (id) on delete cascade,
+  sender_id uuid references auth.users (id) on delete set null,
+  title text not null,
+  message text not null,
+  created_at timestamptz default now(),
+  delivered boolean default false,
+  push_sent boolean not null default false
+);
+
+create table if not exists public.volunteer (
+  id bigint generated by default as identity primary key,
+  church_id bigint not null references public.churches (id) on delete cascade,
+  time timestamptz not null,
+  location text,
+  host text,
+  description text not null default '',
+  image_url text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.volunteer_enrollment (
+  id bigint generated by default as identity primary key,
+  volunteer_id bigint not null references public.volunteer (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  enrollment_date timestamptz not null default now(),
+  hide_email boolean not null default true,
+  hide_phone boolean not null default true,
+  hide_name boolean not null default false,
+  unique (volunteer_id, user_id)
+);
+
+create table if not exists public.courses (
+  id bigint generated by default as identity primary key,
+  church_id bigint not null references public.churches (id) on delete cascade,
+  time timestamptz not null,
+  location text,
+  host text,
+  description text not null default '',
+  image_url text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.course_enrollment (
+  id bigint generated by default as identity primary key,
+  course_id bigint not null references public.courses (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  enrollment_date timestamptz not null default now(),
+  hide_email boolean not null default true,
+  hide_phone boolean not null default true,
+  hide_name boolean not null default false,
+  unique (course_id, user_id)
+);
+
+create table if not exists public.service_times (
+  id bigint generated by default as identity primary key,
+  church_id bigint not null references public.churches (id) on delete cascade,
+  date text not null,
+  time text not null,
+  image text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.bible_study_times (
+  id bigint generated by default as identity primary key,
+  church_id bigint not null references public.churches (id) on delete cascade,
+  title text not null default '',
+  description text not null default '',
+  date text not null,
+  time text not null,
+  location text,
+  image text,
+  is_recurring boolean not null default false,
+  recurring_type text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.youth_group_times (
+  id bigint generated by default as identity primary key,
+  church_id bigint not null references public.churches (id) on delete cascade,
+  title text not null default '',
+  description text not null default '',
+  date text not null,
+  time text not null,
+  location text,
+  image text,
+  is_recurring boolean not null default false,
+  recurring_type text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- ---------------------
+-- INTENTIONS & TASKS
+-- ---------------------
+
+-- selected_groups and selected_friends hold ids as a JSON array (older
+-- clients wrote a string)
+create table if not exists public.intentions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  title text not null,
+  description text not null default '',
+  type text not null,
+  visibility text not null default 'Friends',
+  selected_groups jsonb not null default '[]',
+  selected_friends jsonb not null default '[]',
+  completed boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists intentions_user_id_idx on public.intentions (user_id);
+
+-- Seasonal challenge tasks. Repeating tasks were one row per day, sharing a
+-- recurrence_id.
+create table if not exists public.lent_tasks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event text not null,
+  description text not null default '',
+  date timestamp not null,
+  visibility text not null default 'Friends',
+  selected_groups jsonb not null default '[]',
+  completed boolean not null default false,
+  recurrence_id uuid,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lent_tasks_user_id_idx on public.lent_tasks (user_id, date);
+
+-- Likes and comments on anything: likeable_type / commentable_type names the
+-- kind of item (see types/engagement.ts) and the id is stored as text
+create table if not exists public.likes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  likeable_id text not null,
+  likeable_type text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, likeable_type, likeable_id)
+);
+
+create table if not exists public.comments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  commentable_id text not null,
+  commentable_type text not null,
+  content text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- ---------------------
+-- EVENTS & POSTS
+-- ---------------------
+
+create table if not exists public.events (
+  id bigint generated by default as identity primary key,
+  title text not null,
+  excerpt text not null default '',
+  time timestamptz not null,
+  user_id uuid references auth.users (id) on delete set null,
+  image_url text,
+  video_link text,
+  author_name text,
+  is_recurring boolean not null default false,
+  recurrence_type text,
+  recurrence_interval integer,
+  recurrence_days_of_week integer[],
+  recurrence_end_date timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.faith_posts (
+  post_id bigint generated by default as identity primary key,
+  user_id uuid references auth.users (id) on delete set null,
+  title text not null,
+  excerpt text not null default '',
+  image_url text,
+  video_link text,
+  category text,
+  author_name text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.culture_posts (
+  post_id bigint generated by default as identity primary key,
+  user_id uuid references auth.users (id) on delete set null,
+  title text not null,
+  excerpt text not null default '',
+  image_url text,
+  video_link text,
+  category text,
+  author_name text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.womens_ministry_posts (
+  post_id bigint generated by default as identity primary key,
+  user_id uuid references auth.users (id) on delete set null,
+  title text not null,
+  excerpt text not null default '',
+  image_url text,
+  video_link text,
+  category text,
+  author_name text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.news_posts (
+  post_id bigint generated by default as identity primary key,
+  user_id uuid references auth.users (id) on delete set null,
+  title text not null,
+  excerpt text not null default '',
+  image_url text,
+  video_link text,
+  author_name text,
+  created_at timestamptz not null default now()
+);
+
+-- ---------------------
+-- BIBLE
+-- ---------------------
+
+-- One table per version, each with the same columns and indexes
+create table if not exists public."KJV_bible" (
+  id bigint generated by default as identity primary key,
+  book text not null,
+  chapter text not null,
+  verse text not null,
+  text text not null
+);
+
+create index if not exists "KJV_bible_chapter_idx" on public."KJV_bible" (book, chapter);
+
+create table if not exists public."ASV_bible" (like public."KJV_bible" including all);
+create table if not exists public."Alb_bible" (like public."KJV_bible" including all);
+create table if not exists public."CPDV_bible" (like public."KJV_bible" including all);
+create table if not exists public."Haitian_bible" (like public."KJV_bible" including all);
+create table if not exists public."JapBungo_bible" (like public."KJV_bible" including all);
+create table if not exists public."ThaiKJV_bible" (like public."KJV_bible" including all);
+create table if not exists public."SpaRV_bible" (like public."KJV_bible" including all);
+
+-- Saved verses, replaced by annotations in 20261019120000_annotations.sql.
+-- verse '0' bookmarks the whole chapter.
+create table if not exists public.favorites (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  bible_version text,
+  book text not null,
+  chapter text not null,
+  verse text not null default '',
+  note text,
+  color text,
+  date_added timestamptz default now()
+);
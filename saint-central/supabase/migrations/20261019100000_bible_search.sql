@@ -0,0 +1,126 @@
+-- Ranked, paginated full-text search over the Bible version tables.
+--
+-- Every version lives in its own table (KJV_bible, ASV_bible, ...) with the columns
+-- id, book, chapter, verse and text. search_bible() runs one query against the
+-- requested table and pages through results with a (rank, id) keyset cursor.
+
+-- Text search configuration for each version's language
+create or replace function public.bible_search_config(version_table text)
+returns regconfig
+language sql
+immutable
+as $$
+  select case version_table
+    when 'KJV_bible' then 'english'
+    when 'ASV_bible' then 'english'
+    when 'CPDV_bible' then 'english'
+    when 'SpaRV_bible' then 'spanish'
+    else 'simple'
+  end::regconfig;
+$$;
+
+-- Expression indexes matching the to_tsvector() calls in search_bible()
+create index if not exists "KJV_bible_text_search_idx"
+  on public."KJV_bible" using gin (to_tsvector('english'::regconfig, text));
+create index if not exists "ASV_bible_text_search_idx"
+  on public."ASV_bible" using gin (to_tsvector('english'::regconfig, text));
+create index if not exists "CPDV_bible_text_search_idx"
+  on public."CPDV_bible" using gin (to_tsvector('english'::regconfig, text));
+create index if not exists "SpaRV_bible_text_search_idx"
+  on public."SpaRV_bible" using gin (to_tsvector('spanish'::regconfig, text));
+create index if not exists "Alb_bible_text_search_idx"
+  on public."Alb_bible" using gin (to_tsvector('simple'::regconfig, text));
+create index if not exists "Haitian_bible_text_search_idx"
+  on public."Haitian_bible" using gin (to_tsvector('simple'::regconfig, text));
+create index if not exists "JapBungo_bible_text_search_idx"
+  on public."JapBungo_bible" using gin (to_tsvector('simple'::regconfig, text));
+create index if not exists "ThaiKJV_bible_text_search_idx"
+  on public."ThaiKJV_bible" using gin (to_tsvector('simple'::regconfig, text));
+
+-- search_mode: 'all' matches every word in any order, 'phrase' the words in order.
+-- book_filter: null searches every book.
+-- after_rank / after_id: the last hit of the previous page, null for the first page.
+-- Snippets mark matches with [[ and ]].
+create or replace function public.search_bible(
+  version_table text,
+  search_query text,
+  search_mode text default 'all',
+  book_filter text[] default null,
+  after_rank numeric default null,
+  after_id bigint default null,
+  page_size integer default 25
+)
+returns table (
+  id bigint,
+  book text,
+  chapter text,
+  verse text,
+  text text,
+  rank numeric,
+  snippet text
+)
+language plpgsql
+stable
+security invoker
+as $$
+declare
+  config regconfig := public.bible_search_config(version_table);
+  query tsquery;
+begin
+  if version_table not in (
+    'KJV_bible', 'ASV_bible', 'Alb_bible', 'CPDV_bible',
+    'Haitian_bible', 'JapBungo_bible', 'ThaiKJV_bible', 'SpaRV_bible'
+  ) then
+    raise exception 'Unknown Bible version: %', version_table;
+  end if;
+
+  if search_mode = 'phrase' then
+    query := phraseto_tsquery(config, search_query);
+  else
+    query := plainto_tsquery(config, search_query);
+  end if;
+
+  -- Only stop words, nothing to match
+  if numnode(query) = 0 then
+    return;
+  end if;
+
+  return query execute format(
+    $sql$
+      select
+        hits.id,
+        hits.book,
+        hits.chapter,
+        hits.verse,
+        hits.text,
+        hits.rank,
+        ts_headline(%2$L::regconfig, hits.text, $1,
+          'StartSel=[[, StopSel=]], HighlightAll=true') as snippet
+      from (
+        select
+          v.id::bigint as id,
+          v.book::text as book,
+          v.chapter::text as chapter,
+          v.verse::text as verse,
+          v.text::text as text,
+          round(ts_rank_cd(to_tsvector(%2$L::regconfig, v.text), $1)::numeric, 6) as rank
+        from public.%1$I v
+        where to_tsvector(%2$L::regconfig, v.text) @@ $1
+          and ($2::text[] is null or v.book = any($2))
+      ) hits
+      where $3::numeric is null
+        or hits.rank < $3
+        or (hits.rank = $3 and hits.id > $4)
+      order by hits.rank desc, hits.id asc
+      limit $5
+    $sql$,
+    version_table,
+    config
+  )
+  using query, book_filter, after_rank, after_id, least(greatest(page_size, 1), 100);
+end;
+$$;
+
+grant execute on function public.bible_search_config(text) to anon, authenticated;
+grant execute on function public.search_bible(text, text, text, text[], numeric, bigint, integer)
+  to anon, authenticated;
@@ -0,0 +1,155 @@
+-- Reading plans: church-authored day-by-day plans, per-user enrollment and group plans.
+-- Built-in plans ship with the app and are referenced by their "builtin-*" ids, so
+-- plan_id columns are text rather than a foreign key.
+
+create table if not exists public.reading_plans (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text not null default '',
+  -- One array of scripture references per day, e.g. [["Genesis 1-3"], ["Genesis 4-6"]]
+  days jsonb not null,
+  church_id bigint references public.churches (id) on delete cascade,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reading_plans_church_id_idx on public.reading_plans (church_id);
+
+create table if not exists public.reading_plan_enrollments (
+  id uuid primary key default gen_random_uuid(),
+  plan_id text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  group_id uuid references public.groups (id) on delete set null,
+  start_date date not null default current_date,
+  completed_days integer[] not null default '{}',
+  reminder_time text check (reminder_time ~ '^\d{2}:\d{2}$'),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reading_plan_enrollments_user_id_idx
+  on public.reading_plan_enrollments (user_id);
+create index if not exists reading_plan_enrollments_group_idx
+  on public.reading_plan_enrollments (group_id, plan_id);
+
+create table if not exists public.group_reading_plans (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  plan_id text not null,
+  start_date date not null default current_date,
+  created_by uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (group_id, plan_id)
+);
+
+alter table public.reading_plans enable row level security;
+alter table public.reading_plan_enrollments enable row level security;
+alter table public.group_reading_plans enable row level security;
+
+-- Members see their church's plans; church admins and owners publish them
+create policy "Church members can read plans"
+  on public.reading_plans for select
+  using (
+    exists (
+      select 1 from public.church_members m
+      where m.church_id = reading_plans.church_id and m.user_id = auth.uid()
+    )
+  );
+
+create policy "Church admins can publish plans"
+  on public.reading_plans for insert
+  with check (
+    created_by = auth.uid()
+    and exists (
+      select 1 from public.church_members m
+      where m.church_id = reading_plans.church_id
+        and m.user_id = auth.uid()
+        and lower(m.role) in ('admin', 'owner')
+    )
+  );
+
+create policy "Church admins can edit plans"
+  on public.reading_plans for update
+  using (
+    exists (
+      select 1 from public.church_members m
+      where m.church_id = reading_plans.church_id
+        and m.user_id = auth.uid()
+        and lower(m.role) in ('admin', 'owner')
+    )
+  );
+
+create policy "Church admins can delete plans"
+  on public.reading_plans for delete
+  using (
+    exists (
+      select 1 from public.church_members m
+      where m.church_id = reading_plans.church_id
+        and m.user_id = auth.uid()
+        and lower(m.role) in ('admin', 'owner')
+    )
+  );
+
+-- Users manage their own enrollments; group members can see each other's progress
+create policy "Users can read their own and their groups' enrollments"
+  on public.reading_plan_enrollments for select
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from public.group_members gm
+      where gm.group_id = reading_plan_enrollments.group_id and gm.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can enroll themselves"
+  on public.reading_plan_enrollments for insert
+  with check (
+    user_id = auth.uid()
+    and (
+      group_id is null
+      or exists (
+        select 1 from public.group_members gm
+        where gm.group_id = reading_plan_enrollments.group_id and gm.user_id = auth.uid()
+      )
+    )
+  );
+
+create policy "Users can update their own enrollments"
+  on public.reading_plan_enrollments for update
+  using (user_id = auth.uid());
+
+create policy "Users can leave their own plans"
+  on public.reading_plan_enrollments for delete
+  using (user_id = auth.uid());
+
+-- Group members see their group's plans; group admins start them
+create policy "Group members can read group plans"
+  on public.group_reading_plans for select
+  using (
+    exists (
+      select 1 from public.group_members gm
+      where gm.group_id = group_reading_plans.group_id and gm.user_id = auth.uid()
+    )
+  );
+
+create policy "Group admins can start group plans"
+  on public.group_reading_plans for insert
+  with check (
+    created_by = auth.uid()
+    and exists (
+      select 1 from public.group_members gm
+      where gm.group_id = group_reading_plans.group_id
+        and gm.user_id = auth.uid()
+        and gm.role = 'admin'
+    )
+  );
+
+create policy "Group admins can end group plans"
+  on public.group_reading_plans for delete
+  using (
+    exists (
+      select 1 from public.group_members gm
+      where gm.group_id = group_reading_plans.group_id
+        and gm.user_id = auth.uid()
+        and gm.role = 'admin'
+    )
+  );
@@ -0,0 +1,69 @@
+-- Annotations: highlights, tags and notes on a verse range, replacing the single-verse
+-- favorites table. Every field carries the time of its last edit (field_clock, tag_clock)
+-- so offline edits from several devices are merged by the app instead of overwritten.
+-- Deleted annotations are kept with deleted = true so the deletion reaches other devices.
+
+create table if not exists public.annotations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  bible_version text not null,
+  book text not null,
+  chapter integer not null,
+  -- 0..0 bookmarks the whole chapter
+  start_verse integer not null default 0,
+  end_verse integer not null default 0,
+  color text,
+  tags text[] not null default '{}',
+  -- { "<tag>": { "added": true, "at": "<iso time>" } }
+  tag_clock jsonb not null default '{}',
+  note text not null default '',
+  deleted boolean not null default false,
+  -- { "range" | "color" | "note" | "deleted": "<iso time>" }
+  field_clock jsonb not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (start_verse <= end_verse)
+);
+
+create index if not exists annotations_user_id_idx on public.annotations (user_id);
+create index if not exists annotations_tags_idx on public.annotations using gin (tags);
+
+alter table public.annotations enable row level security;
+
+create policy "Users can read their own annotations"
+  on public.annotations for select
+  using (user_id = auth.uid());
+
+create policy "Users can add their own annotations"
+  on public.annotations for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can edit their own annotations"
+  on public.annotations for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Carry existing favorites over (verse "0" was a chapter bookmark)
+insert into public.annotations (
+  user_id, bible_version, book, chapter, start_verse, end_verse, color, note,
+  field_clock, created_at, updated_at
+)
+select
+  f.user_id,
+  coalesce(f.bible_version, 'KJV_bible'),
+  f.book,
+  f.chapter::integer,
+  coalesce(nullif(f.verse, '')::integer, 0),
+  coalesce(nullif(f.verse, '')::integer, 0),
+  f.color,
+  coalesce(f.note, ''),
+  jsonb_build_object(
+    'range', to_char(coalesce(f.date_added, now()) at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    'color', to_char(coalesce(f.date_added, now()) at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    'note', to_char(coalesce(f.date_added, now()) at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    'deleted', to_char(coalesce(f.date_added, now()) at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+  ),
+  coalesce(f.date_added, now()),
+  coalesce(f.date_added, now())
+from public.favorites f
+where f.user_id is not null;
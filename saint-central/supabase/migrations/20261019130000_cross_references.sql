@@ -0,0 +1,29 @@
+-- Cross-references between verses, shown from the reader's verse sheet.
+--
+-- Each row links one verse to a passage. "related" rows come from the OpenBible.info
+-- cross-reference dataset (CC-BY), loaded with scripts/import-cross-references.js;
+-- votes is that dataset's helpfulness score and can be negative. Gospel parallels
+-- and Old Testament quotations are also bundled with the app, so they work offline.
+
+create table if not exists public.cross_references (
+  id bigserial primary key,
+  from_book text not null,
+  from_chapter integer not null,
+  from_verse integer not null,
+  to_book text not null,
+  to_start_chapter integer not null,
+  to_start_verse integer not null,
+  to_end_chapter integer not null,
+  to_end_verse integer not null,
+  kind text not null default 'related' check (kind in ('parallel', 'quotation', 'related')),
+  votes integer not null default 0
+);
+
+create index if not exists cross_references_from_idx
+  on public.cross_references (from_book, from_chapter);
+
+alter table public.cross_references enable row level security;
+
+create policy "Anyone can read cross-references"
+  on public.cross_references for select
+  using (true);
@@ -0,0 +1,26 @@
+-- Prayer sessions: one row for each completed devotion (a full Rosary, for now),
+-- read back by the prayer statistics screen. details holds what was prayed,
+-- e.g. { "mysteries": "joyful" } for a Rosary.
+
+create table if not exists public.prayer_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('rosary')),
+  details jsonb not null default '{}',
+  started_at timestamptz not null,
+  completed_at timestamptz not null default now(),
+  check (started_at <= completed_at)
+);
+
+create index if not exists prayer_sessions_user_id_idx
+  on public.prayer_sessions (user_id, completed_at desc);
+
+alter table public.prayer_sessions enable row level security;
+
+create policy "Users can read their own prayer sessions"
+  on public.prayer_sessions for select
+  using (user_id = auth.uid());
+
+create policy "Users can add their own prayer sessions"
+  on public.prayer_sessions for insert
+  with check (user_id = auth.uid());
@@ -0,0 +1,35 @@
+-- Sources for the statistics screen that weren't recorded before.
+--
+-- intentions.completed_at dates a completed intention; intentions completed
+-- before this migration are dated by when they were created.
+-- event_attendance records the events a user marked as attended.
+
+alter table public.intentions add column if not exists completed_at timestamptz;
+
+update public.intentions
+  set completed_at = created_at
+  where completed and completed_at is null;
+
+create table if not exists public.event_attendance (
+  id uuid primary key default gen_random_uuid(),
+  event_id bigint not null references public.events (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (event_id, user_id)
+);
+
+create index if not exists event_attendance_user_id_idx on public.event_attendance (user_id);
+
+alter table public.event_attendance enable row level security;
+
+create policy "Users can read their own attendance"
+  on public.event_attendance for select
+  using (user_id = auth.uid());
+
+create policy "Users can mark their own attendance"
+  on public.event_attendance for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can remove their own attendance"
+  on public.event_attendance for delete
+  using (user_id = auth.uid());
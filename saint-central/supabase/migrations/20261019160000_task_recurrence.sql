@@ -0,0 +1,100 @@
+-- Recurring challenge tasks are stored as one row with a rule instead of a row
+-- per day.
+--
+-- recurrence holds the rule ({frequency, interval, weekdays?, until?, count?})
+-- and is null for single tasks. completed_dates lists the original dates of the
+-- completed occurrences; exceptions maps an occurrence's original date to its
+-- changes ({skipped?, date?, event?, description?}).
+--
+-- Series created before this migration (rows sharing a recurrence_id) become a
+-- daily rule on their first row, with the days missing from them skipped.
+-- Their likes and comments move to that row, one like per user.
+
+alter table public.lent_tasks
+  add column if not exists recurrence jsonb,
+  add column if not exists completed_dates text[] not null default '{}',
+  add column if not exists exceptions jsonb not null default '{}';
+
+create temporary table old_series_rows as
+  select
+    id,
+    left(date::text, 10)::date as day,
+    completed,
+    first_value(id) over (
+      partition by user_id, recurrence_id
+      order by left(date::text, 10), id
+    ) as series_id
+  from public.lent_tasks
+  where (user_id, recurrence_id) in (
+    select user_id, recurrence_id
+    from public.lent_tasks
+    where recurrence_id is not null
+    group by user_id, recurrence_id
+    having count(*) > 1
+  );
+
+with series as (
+  select
+    series_id,
+    min(day) as first_day,
+    max(day) as last_day,
+    array_agg(distinct day) as days,
+    array_agg(distinct day::text) filter (where completed) as completed_days
+  from old_series_rows
+  group by series_id
+)
+update public.lent_tasks t
+  set
+    recurrence = jsonb_build_object(
+      'frequency', 'daily',
+      'interval', 1,
+      'until', s.last_day::text
+    ),
+    completed_dates = coalesce(s.completed_days, '{}'),
+    exceptions = coalesce(
+      (
+        select jsonb_object_agg(gap::date::text, jsonb_build_object('skipped', true))
+        from generate_series(s.first_day, s.last_day, interval '1 day') as gap
+        where gap::date <> all (s.days)
+      ),
+      '{}'
+    ),
+    completed = false
+  from series s
+  where t.id = s.series_id;
+
+update public.comments c
+  set commentable_id = r.series_id
+  from old_series_rows r
+  where c.commentable_type = 'lent_tasks'
+    and c.commentable_id::text = r.id::text
+    and r.id <> r.series_id;
+
+-- Keep one like per user in each series
+delete from public.likes l
+  using old_series_rows r
+  where l.likeable_type = 'lent_tasks'
+    and l.likeable_id::text = r.id::text
+    and exists (
+      select 1
+      from public.likes other
+      join old_series_rows other_row on other.likeable_id::text = other_row.id::text
+      where other.likeable_type = 'lent_tasks'
+        and other.user_id = l.user_id
+        and other_row.series_id = r.series_id
+        and other.id::text < l.id::text
+    );
+
+update public.likes l
+  set likeable_id = r.series_id
+  from old_series_rows r
+  where l.likeable_type = 'lent_tasks'
+    and l.likeable_id::text = r.id::text
+    and r.id <> r.series_id;
+
+delete from public.lent_tasks t
+  using old_series_rows r
+  where t.id = r.id
+    and r.id <> r.series_id;
+
+drop table old_series_rows;
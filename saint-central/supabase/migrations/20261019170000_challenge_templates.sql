@@ -0,0 +1,242 @@
+-- Seasonal challenges published by a church for its members to join.
+--
+-- A template's tasks ([{event, description, start_offset, recurrence}]) are
+-- dated relative to the season, so a template can be cloned into later years.
+-- Joining adds the tasks to the member's lent_tasks, linked back to the
+-- template by template_id and template_task (the index of the task).
+--
+-- Church staff see participation only through the functions below, which
+-- count participants and their due and completed tasks, never the tasks
+-- themselves.
+
+create table if not exists public.challenge_templates (
+  id uuid primary key default gen_random_uuid(),
+  church_id bigint not null references public.churches (id) on delete cascade,
+  season_id text not null check (season_id in ('lent', 'advent')),
+  year integer not null,
+  title text not null,
+  description text not null default '',
+  tasks jsonb not null default '[]',
+  cloned_from uuid references public.challenge_templates (id) on delete set null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists challenge_templates_church_idx
+  on public.challenge_templates (church_id, season_id, year);
+
+create table if not exists public.challenge_participants (
+  id uuid primary key default gen_random_uuid(),
+  template_id uuid not null references public.challenge_templates (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  unique (template_id, user_id)
+);
+
+create index if not exists challenge_participants_user_id_idx
+  on public.challenge_participants (user_id);
+
+alter table public.lent_tasks
+  add column if not exists template_id uuid
+    references public.challenge_templates (id) on delete set null,
+  add column if not exists template_task integer;
+
+create index if not exists lent_tasks_template_id_idx on public.lent_tasks (template_id);
+
+alter table public.challenge_templates enable row level security;
+alter table public.challenge_participants enable row level security;
+
+-- Members see their church's challenges; church admins and owners publish them
+create policy "Church members can read challenges"
+  on public.challenge_templates for select
+  using (
+    exists (
+      select 1 from public.church_members m
+      where m.church_id = challenge_templates.church_id and m.user_id = auth.uid()
+    )
+  );
+
+create policy "Church admins can publish challenges"
+  on public.challenge_templates for insert
+  with check (
+    created_by = auth.uid()
+    and exists (
+      select 1 from public.church_members m
+      where m.church_id = challenge_templates.church_id
+        and m.user_id = auth.uid()
+        and lower(m.role) in ('admin', 'owner')
+    )
+  );
+
+create policy "Church admins can edit challenges"
+  on public.challenge_templates for update
+  using (
+    exists (
+      select 1 from public.church_members m
+      where m.church_id = challenge_templates.church_id
+        and m.user_id = auth.uid()
+        and lower(m.role) in ('admin', 'owner')
+    )
+  );
+
+create policy "Church admins can delete challenges"
+  on public.challenge_templates for delete
+  using (
+    exists (
+      select 1 from public.church_members m
+      where m.church_id = challenge_templates.church_id
+        and m.user_id = auth.uid()
+        and lower(m.role) in ('admin', 'owner')
+    )
+  );
+
+-- Users see and manage only their own participation
+create policy "Users can read their own participation"
+  on public.challenge_participants for select
+  using (user_id = auth.uid());
+
+create policy "Church members can join challenges"
+  on public.challenge_participants for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1
+      from public.challenge_templates t
+      join public.church_members m on m.church_id = t.church_id
+      where t.id = challenge_participants.template_id and m.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can leave challenges"
+  on public.challenge_participants for delete
+  using (user_id = auth.uid());
+
+-- Whether the current user is an admin or owner of the church behind a template
+create or replace function public.is_challenge_admin(p_template_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from challenge_templates t
+    join church_members m on m.church_id = t.church_id
+    where t.id = p_template_id
+      and m.user_id = auth.uid()
+      and lower(m.role) in ('admin', 'owner')
+  );
+$$;
+
+create or replace function public.challenge_participant_count(p_template_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::integer
+  from challenge_participants
+  where template_id = p_template_id
+    and is_challenge_admin(p_template_id);
+$$;
+
+-- Due and completed occurrences of each of a challenge's tasks between two
+-- days, summed over its participants. Series expand as in
+-- utils/challenges/recurrence.ts: skipped occurrences aren't due, and moved
+-- ones are due on the day they were moved to.
+create or replace function public.challenge_task_stats(
+  p_template_id uuid,
+  p_from date,
+  p_through date
+)
+returns table (
+  template_task integer,
+  due integer,
+  completed integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with tasks as (
+    select
+      t.id,
+      t.template_task as task_index,
+      left(t.date::text, 10)::date as first_day,
+      t.recurrence as rule,
+      coalesce(t.completed, false) as done,
+      coalesce(t.completed_dates, '{}') as done_dates,
+      coalesce(t.exceptions, '{}') as changes
+    from lent_tasks t
+    where t.template_id = p_template_id
+      and t.template_task is not null
+      and is_challenge_admin(p_template_id)
+  ),
+  -- Original dates of each series' occurrences through p_through
+  series as (
+    select
+      s.id,
+      day::date as original,
+      row_number() over (partition by s.id order by day) as n,
+      coalesce((s.rule ->> 'count')::integer, 1000) as max_count
+    from tasks s
+    cross join generate_series(
+      s.first_day,
+      least(p_through, coalesce((s.rule ->> 'until')::date, p_through)),
+      interval '1 day'
+    ) as day
+    where s.rule is not null
+      and case
+        when s.rule ->> 'frequency' = 'daily' then
+          (day::date - s.first_day)
+            % greatest(coalesce((s.rule ->> 'interval')::integer, 1), 1) = 0
+        else
+          -- Weekly, on the listed weekdays or the first day's
+          case
+            when jsonb_typeof(s.rule -> 'weekdays') = 'array'
+              and jsonb_array_length(s.rule -> 'weekdays') > 0
+            then s.rule -> 'weekdays'
+            else jsonb_build_array(extract(dow from s.first_day)::integer)
+          end @> to_jsonb(extract(dow from day)::integer)
+          and ((day::date - (s.first_day - extract(dow from s.first_day)::integer)) / 7)
+            % greatest(coalesce((s.rule ->> 'interval')::integer, 1), 1) = 0
+      end
+  ),
+  originals as (
+    select id, original from series where n <= max_count
+    union
+    -- Occurrences moved back from after p_through
+    select s.id, e.key::date
+    from tasks s
+    cross join jsonb_each(s.changes) as e
+    where s.rule is not null
+      and e.key::date > p_through
+      and (e.value ->> 'date')::date <= p_through
+  ),
+  occurrences as (
+    select s.task_index, s.first_day as day, s.done
+    from tasks s
+    where s.rule is null
+    union all
+    select
+      s.task_index,
+      coalesce((s.changes -> to_char(o.original, 'YYYY-MM-DD') ->> 'date')::date, o.original),
+      to_char(o.original, 'YYYY-MM-DD') = any(s.done_dates)
+    from originals o
+    join tasks s on s.id = o.id
+    where not coalesce(
+      (s.changes -> to_char(o.original, 'YYYY-MM-DD') ->> 'skipped')::boolean,
+      false
+    )
+  )
+  select
+    o.task_index,
+    count(*)::integer,
+    count(*) filter (where o.done)::integer
+  from occurrences o
+  where o.day between p_from and p_through
+  group by o.task_index;
+$$;
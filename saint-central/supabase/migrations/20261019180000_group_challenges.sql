@@ -0,0 +1,171 @@
+-- Challenges a group takes on together.
+--
+-- A group admin starts a challenge with a target: the number of daily
+-- check-ins each member aims for between start_date and end_date. Members
+-- join, check in at most once a day, and choose whether their name appears on
+-- the group's leaderboard.
+--
+-- Check-ins are private to their owner; the group sees them only through
+-- group_challenge_standings, which leaves out members who stayed off the
+-- leaderboard except as counts toward the group's progress.
+
+create table if not exists public.group_challenges (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  title text not null,
+  description text not null default '',
+  target integer not null check (target > 0),
+  start_date date not null,
+  end_date date not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index if not exists group_challenges_group_id_idx
+  on public.group_challenges (group_id, start_date);
+
+create table if not exists public.group_challenge_members (
+  id uuid primary key default gen_random_uuid(),
+  challenge_id uuid not null references public.group_challenges (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  show_on_leaderboard boolean not null default false,
+  joined_at timestamptz not null default now(),
+  unique (challenge_id, user_id)
+);
+
+create index if not exists group_challenge_members_user_id_idx
+  on public.group_challenge_members (user_id);
+
+create table if not exists public.group_challenge_checkins (
+  id uuid primary key default gen_random_uuid(),
+  challenge_id uuid not null references public.group_challenges (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  day date not null,
+  created_at timestamptz not null default now(),
+  unique (challenge_id, user_id, day)
+);
+
+create index if not exists group_challenge_checkins_user_id_idx
+  on public.group_challenge_checkins (user_id, challenge_id);
+
+alter table public.group_challenges enable row level security;
+alter table public.group_challenge_members enable row level security;
+alter table public.group_challenge_checkins enable row level security;
+
+-- Group members see their groups' challenges; group admins start them
+create policy "Group members can read challenges"
+  on public.group_challenges for select
+  using (
+    exists (
+      select 1 from public.group_members gm
+      where gm.group_id = group_challenges.group_id and gm.user_id = auth.uid()
+    )
+  );
+
+create policy "Group admins can start challenges"
+  on public.group_challenges for insert
+  with check (
+    created_by = auth.uid()
+    and exists (
+      select 1 from public.group_members gm
+      where gm.group_id = group_challenges.group_id
+        and gm.user_id = auth.uid()
+        and gm.role = 'admin'
+    )
+  );
+
+create policy "Group admins can delete challenges"
+  on public.group_challenges for delete
+  using (
+    exists (
+      select 1 from public.group_members gm
+      where gm.group_id = group_challenges.group_id
+        and gm.user_id = auth.uid()
+        and gm.role = 'admin'
+    )
+  );
+
+-- Users manage only their own membership and check-ins
+create policy "Users can read their own challenge membership"
+  on public.group_challenge_members for select
+  using (user_id = auth.uid());
+
+create policy "Group members can join challenges"
+  on public.group_challenge_members for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1
+      from public.group_challenges c
+      join public.group_members gm on gm.group_id = c.group_id
+      where c.id = group_challenge_members.challenge_id and gm.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can update their own challenge membership"
+  on public.group_challenge_members for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can leave challenges"
+  on public.group_challenge_members for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read their own check-ins"
+  on public.group_challenge_checkins for select
+  using (user_id = auth.uid());
+
+create policy "Participants can check in"
+  on public.group_challenge_checkins for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1
+      from public.group_challenge_members m
+      join public.group_challenges c on c.id = m.challenge_id
+      where m.challenge_id = group_challenge_checkins.challenge_id
+        and m.user_id = auth.uid()
+        and group_challenge_checkins.day between c.start_date and c.end_date
+    )
+  );
+
+create policy "Users can undo their own check-ins"
+  on public.group_challenge_checkins for delete
+  using (user_id = auth.uid());
+
+-- Every participant's check-in count, for members of the challenge's group.
+-- Names and ids are returned only for participants on the leaderboard and for
+-- the caller.
+create or replace function public.group_challenge_standings(p_challenge_id uuid)
+returns table (
+  user_id uuid,
+  first_name text,
+  last_name text,
+  checkins integer,
+  on_leaderboard boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    case when m.show_on_leaderboard or m.user_id = auth.uid() then m.user_id end,
+    case when m.show_on_leaderboard or m.user_id = auth.uid() then u.first_name end,
+    case when m.show_on_leaderboard or m.user_id = auth.uid() then u.last_name end,
+    (
+      select count(*)::integer
+      from group_challenge_checkins ci
+      where ci.challenge_id = m.challenge_id and ci.user_id = m.user_id
+    ),
+    m.show_on_leaderboard
+  from group_challenge_members m
+  join group_challenges c on c.id = m.challenge_id
+  left join users u on u.id = m.user_id
+  where m.challenge_id = p_challenge_id
+    and exists (
+      select 1 from group_members gm
+      where gm.group_id = c.group_id and gm.user_id = auth.uid()
+    );
+$$;
@@ -0,0 +1,105 @@
+-- "I prayed for this" acknowledgements on prayer intentions.
+--
+-- Each row records that someone prayed for an intention on a given day; a
+-- person can pray for the same intention again on another day. author_id is
+-- copied from the intention so its author can be notified (and can subscribe
+-- to new rows) without a join.
+--
+-- notified_at stays null until the author has been told, so acknowledgements
+-- can be announced in batches rather than one notification per tap.
+
+create table if not exists public.intention_prayers (
+  id uuid primary key default gen_random_uuid(),
+  intention_id uuid not null references public.intentions (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  author_id uuid not null references auth.users (id) on delete cascade,
+  prayed_on date not null default current_date,
+  prayed_at timestamptz not null default now(),
+  notified_at timestamptz,
+  unique (intention_id, user_id, prayed_on)
+);
+
+create index if not exists intention_prayers_intention_id_idx
+  on public.intention_prayers (intention_id);
+create index if not exists intention_prayers_unnotified_idx
+  on public.intention_prayers (author_id)
+  where notified_at is null;
+
+create or replace function public.set_intention_prayer_author()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select i.user_id into new.author_id from intentions i where i.id = new.intention_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_intention_prayer_author on public.intention_prayers;
+create trigger set_intention_prayer_author
+  before insert on public.intention_prayers
+  for each row execute function public.set_intention_prayer_author();
+
+alter table public.intention_prayers enable row level security;
+
+-- People see their own prayers; authors see who prayed for their intentions
+create policy "Users can read their own and their intentions' prayers"
+  on public.intention_prayers for select
+  using (user_id = auth.uid() or author_id = auth.uid());
+
+create policy "Users can record their own prayers"
+  on public.intention_prayers for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can undo their own prayers"
+  on public.intention_prayers for delete
+  using (user_id = auth.uid());
+
+-- Authors mark acknowledgements as announced
+create policy "Authors can mark prayers as notified"
+  on public.intention_prayers for update
+  using (author_id = auth.uid())
+  with check (author_id = auth.uid());
+
+-- How many people prayed for each intention, and whether the caller did on
+-- p_today (the caller's local date)
+create or replace function public.intention_prayer_counts(p_intention_ids uuid[], p_today date)
+returns table (intention_id uuid, people integer, prayed_today boolean)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p.intention_id,
+    count(distinct p.user_id)::integer,
+    bool_or(p.user_id = auth.uid() and p.prayed_on = p_today)
+  from intention_prayers p
+  where p.intention_id = any (p_intention_ids)
+  group by p.intention_id;
+$$;
+
+-- Who prayed for an intention and when they last did, for its author only
+create or replace function public.intention_prayer_list(p_intention_id uuid)
+returns table (
+  user_id uuid,
+  first_name text,
+  last_name text,
+  last_prayed_at timestamptz,
+  times integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.user_id, u.first_name, u.last_name, max(p.prayed_at), count(*)::integer
+  from intention_prayers p
+  left join users u on u.id = p.user_id
+  where p.intention_id = p_intention_id
+    and p.author_id = auth.uid()
+  group by p.user_id, u.first_name, u.last_name
+  order by max(p.prayed_at) desc;
+$$;
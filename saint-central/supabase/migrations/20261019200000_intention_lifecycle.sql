@@ -0,0 +1,134 @@
+-- The life of a prayer intention: active, then updated as the author posts
+-- news, and finally answered (with a short testimony) or closed.
+--
+-- intentions.completed is kept for older clients and the statistics screen:
+-- it is true once an intention is answered or closed. Intentions completed
+-- before this migration become closed.
+--
+-- Everyone who prayed for an intention (see intention_prayers) gets a
+-- prayer_notifications row when the author posts an update or marks it
+-- answered. The app announces and then marks them, like the acknowledgements.
+
+alter table public.intentions
+  add column if not exists status text not null default 'active'
+    check (status in ('active', 'updated', 'answered', 'closed')),
+  add column if not exists answered_at timestamptz,
+  add column if not exists testimony text,
+  add column if not exists testimony_post_id bigint
+    references public.culture_posts (post_id) on delete set null;
+
+update public.intentions
+set status = 'closed'
+where completed and status = 'active';
+
+create index if not exists intentions_answered_idx
+  on public.intentions (answered_at desc)
+  where status = 'answered';
+
+create table if not exists public.intention_updates (
+  id uuid primary key default gen_random_uuid(),
+  intention_id uuid not null references public.intentions (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  content text not null check (length(trim(content)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists intention_updates_intention_id_idx
+  on public.intention_updates (intention_id, created_at);
+
+create table if not exists public.prayer_notifications (
+  id uuid primary key default gen_random_uuid(),
+  -- The person who prayed
+  user_id uuid not null references auth.users (id) on delete cascade,
+  intention_id uuid not null references public.intentions (id) on delete cascade,
+  kind text not null check (kind in ('update', 'answered')),
+  created_at timestamptz not null default now(),
+  notified_at timestamptz
+);
+
+create index if not exists prayer_notifications_unnotified_idx
+  on public.prayer_notifications (user_id)
+  where notified_at is null;
+
+alter table public.intention_updates enable row level security;
+alter table public.prayer_notifications enable row level security;
+
+-- Updates are as visible as the intention they belong to
+create policy "Users can read updates on intentions they can see"
+  on public.intention_updates for select
+  using (
+    exists (select 1 from public.intentions i where i.id = intention_updates.intention_id)
+  );
+
+create policy "Authors can post updates"
+  on public.intention_updates for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.intentions i
+      where i.id = intention_updates.intention_id and i.user_id = auth.uid()
+    )
+  );
+
+create policy "Authors can delete their updates"
+  on public.intention_updates for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read their own prayer notifications"
+  on public.prayer_notifications for select
+  using (user_id = auth.uid());
+
+create policy "Users can mark their own prayer notifications"
+  on public.prayer_notifications for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Queue a notification for everyone (but the author) who prayed for an intention
+create or replace function public.notify_intention_prayers(p_intention_id uuid, p_kind text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into prayer_notifications (user_id, intention_id, kind)
+  select distinct p.user_id, p.intention_id, p_kind
+  from intention_prayers p
+  where p.intention_id = p_intention_id
+    and p.user_id <> p.author_id;
+$$;
+
+create or replace function public.on_intention_update_posted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform notify_intention_prayers(new.intention_id, 'update');
+  return new;
+end;
+$$;
+
+drop trigger if exists on_intention_update_posted on public.intention_updates;
+create trigger on_intention_update_posted
+  after insert on public.intention_updates
+  for each row execute function public.on_intention_update_posted();
+
+create or replace function public.on_intention_answered()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'answered' and old.status is distinct from 'answered' then
+    perform notify_intention_prayers(new.id, 'answered');
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_intention_answered on public.intentions;
+create trigger on_intention_answered
+  after update of status on public.intentions
+  for each row execute function public.on_intention_answered();
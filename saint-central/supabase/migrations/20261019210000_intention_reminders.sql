@@ -0,0 +1,53 @@
+-- Reminders to pray for an intention: the user's own or one a friend shared
+-- with them. Each user keeps at most one schedule per intention:
+--
+--   once      on remind_on at remind_time
+--   daily     every day at remind_time
+--   weekdays  on the given weekdays (0 = Sunday) at remind_time
+--   until     every day at remind_time through until_date
+--
+-- The schedule is stored here so it follows the user to other devices; the
+-- notifications themselves are scheduled locally by the app. Deleting an
+-- intention deletes its reminders.
+
+create table if not exists public.intention_reminders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  intention_id uuid not null references public.intentions (id) on delete cascade,
+  kind text not null check (kind in ('once', 'daily', 'weekdays', 'until')),
+  remind_time text not null check (remind_time ~ '^\d{2}:\d{2}$'),
+  remind_on date,
+  weekdays smallint[],
+  until_date date,
+  created_at timestamptz not null default now(),
+  unique (user_id, intention_id),
+  check (kind <> 'once' or remind_on is not null),
+  check (kind <> 'weekdays' or cardinality(weekdays) > 0),
+  check (kind <> 'until' or until_date is not null)
+);
+
+create index if not exists intention_reminders_intention_id_idx
+  on public.intention_reminders (intention_id);
+
+alter table public.intention_reminders enable row level security;
+
+create policy "Users can read their own reminders"
+  on public.intention_reminders for select
+  using (user_id = auth.uid());
+
+-- Only for intentions the user can see
+create policy "Users can set reminders"
+  on public.intention_reminders for insert
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.intentions i where i.id = intention_reminders.intention_id)
+  );
+
+create policy "Users can change their own reminders"
+  on public.intention_reminders for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can delete their own reminders"
+  on public.intention_reminders for delete
+  using (user_id = auth.uid());
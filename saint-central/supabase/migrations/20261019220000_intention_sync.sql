@@ -0,0 +1,28 @@
+-- Offline edits to prayer intentions are queued on the device and replayed
+-- when it reconnects. updated_at tells the app whether an intention was
+-- edited elsewhere after the queued edit was made, so it can resolve the
+-- conflict field by field rather than overwrite the newer change.
+--
+-- New intentions get their id on the device, so replaying a create that
+-- already reached the server is harmless.
+
+alter table public.intentions
+  add column if not exists updated_at timestamptz not null default now();
+
+update public.intentions
+set updated_at = coalesce(answered_at, completed_at, created_at::timestamptz, now());
+
+create or replace function public.set_intention_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists set_intention_updated_at on public.intentions;
+create trigger set_intention_updated_at
+  before update on public.intentions
+  for each row execute function public.set_intention_updated_at();
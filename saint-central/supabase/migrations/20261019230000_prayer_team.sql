@@ -0,0 +1,172 @@
+-- Confidential prayer requests sent to a church's prayer team.
+--
+-- An intention with visibility 'Church Prayer Team' goes only to the church in
+-- church_id, to the members whose church_members role is 'prayer team'. The
+-- author can stay anonymous to the team.
+--
+-- A team member claims a request and marks it prayed for. Assignments are
+-- read and written only through the functions below: team members see the
+-- queue (without the author when anonymous), and authors see only where
+-- their request is, never who handled it.
+
+alter table public.intentions
+  add column if not exists church_id bigint references public.churches (id) on delete set null,
+  add column if not exists anonymous boolean not null default false;
+
+create index if not exists intentions_prayer_team_idx
+  on public.intentions (church_id)
+  where visibility = 'Church Prayer Team';
+
+create table if not exists public.prayer_team_assignments (
+  intention_id uuid primary key references public.intentions (id) on delete cascade,
+  church_id bigint not null references public.churches (id) on delete cascade,
+  claimed_by uuid references auth.users (id) on delete set null,
+  claimed_at timestamptz not null default now(),
+  prayed_at timestamptz
+);
+
+create index if not exists prayer_team_assignments_church_id_idx
+  on public.prayer_team_assignments (church_id);
+
+-- No policies: assignments are only reachable through the functions below
+alter table public.prayer_team_assignments enable row level security;
+
+-- Whether the current user is on a church's prayer team
+create or replace function public.is_prayer_team_member(p_church_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from church_members m
+    where m.church_id = p_church_id
+      and m.user_id = auth.uid()
+      and lower(m.role) = 'prayer team'
+  );
+$$;
+
+create or replace function public.prayer_team_queue(p_church_id bigint)
+returns table (
+  intention_id uuid,
+  title text,
+  description text,
+  type text,
+  created_at timestamptz,
+  -- Null when the author asked to stay anonymous
+  author_name text,
+  status text,
+  claimed_by_me boolean,
+  prayed_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    i.id,
+    i.title::text,
+    i.description::text,
+    i.type::text,
+    i.created_at::timestamptz,
+    case
+      when i.anonymous then null
+      else nullif(trim(coalesce(u.first_name, '') || ' ' || coalesce(u.last_name, '')), '')
+    end,
+    case
+      when a.prayed_at is not null then 'prayed'
+      when a.intention_id is not null then 'claimed'
+      else 'waiting'
+    end,
+    coalesce(a.claimed_by = auth.uid(), false),
+    a.prayed_at
+  from intentions i
+  left join users u on u.id = i.user_id
+  left join prayer_team_assignments a on a.intention_id = i.id
+  where i.church_id = p_church_id
+    and i.visibility = 'Church Prayer Team'
+    and coalesce(i.status, 'active') <> 'closed'
+    and is_prayer_team_member(p_church_id)
+  order by i.created_at;
+$$;
+
+-- Claim a request nobody on the team has claimed yet. Returns whether the
+-- current user now holds it.
+create or replace function public.claim_prayer_request(p_intention_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_church_id bigint;
+begin
+  select i.church_id into v_church_id
+  from intentions i
+  where i.id = p_intention_id and i.visibility = 'Church Prayer Team';
+
+  if v_church_id is null or not is_prayer_team_member(v_church_id) then
+    raise exception 'Not on this church''s prayer team';
+  end if;
+
+  insert into prayer_team_assignments (intention_id, church_id, claimed_by)
+  values (p_intention_id, v_church_id, auth.uid())
+  on conflict (intention_id) do nothing;
+
+  return exists (
+    select 1 from prayer_team_assignments a
+    where a.intention_id = p_intention_id and a.claimed_by = auth.uid()
+  );
+end;
+$$;
+
+-- Give a claimed request back to the team
+create or replace function public.release_prayer_request(p_intention_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from prayer_team_assignments
+  where intention_id = p_intention_id
+    and claimed_by = auth.uid()
+    and prayed_at is null;
+$$;
+
+create or replace function public.mark_prayer_request_prayed(p_intention_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update prayer_team_assignments
+  set prayed_at = now()
+  where intention_id = p_intention_id
+    and claimed_by = auth.uid()
+    and prayed_at is null;
+$$;
+
+-- Where the current user's own requests are with the team
+create or replace function public.prayer_team_request_status(p_intention_ids uuid[])
+returns table (intention_id uuid, status text, prayed_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    i.id,
+    case
+      when a.prayed_at is not null then 'prayed'
+      when a.intention_id is not null then 'claimed'
+      else 'waiting'
+    end,
+    a.prayed_at
+  from intentions i
+  left join prayer_team_assignments a on a.intention_id = i.id
+  where i.id = any (p_intention_ids)
+    and i.user_id = auth.uid()
+    and i.visibility = 'Church Prayer Team';
+$$;
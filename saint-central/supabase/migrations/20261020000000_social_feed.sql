@@ -0,0 +1,164 @@
+-- The social feed in one query: a page of intentions the current user may
+-- see, with like and comment counts, whether the user liked each, and a group
+-- the user shares with the author.
+--
+-- Pages are ordered newest first and continue from the last row of the
+-- previous page (its created_at and id), so rows added while scrolling don't
+-- shift later pages.
+--
+-- Visibility follows the feed's filters:
+--   all      the user's own posts; "Friends" from friends; "Certain Groups"
+--            aimed at one of the user's groups; "Friends & Groups" from
+--            friends or people in a group with the user
+--   mine     the user's own posts
+--   friends  the user's own posts, and "Friends" or "Friends & Groups" from
+--            friends
+--   groups   the user's own posts, "Certain Groups" aimed at one of the
+--            user's groups, and "Friends & Groups" from people in a group
+--            with the user
+
+create index if not exists intentions_feed_idx
+  on public.intentions (created_at desc, id desc);
+
+create index if not exists likes_likeable_idx
+  on public.likes (likeable_type, (likeable_id::text));
+
+create index if not exists comments_commentable_idx
+  on public.comments (commentable_type, (commentable_id::text));
+
+-- selected_groups and selected_friends were written as arrays by newer
+-- clients and as JSON or comma-separated strings by older ones
+create or replace function public.as_id_list(p_value jsonb)
+returns text[]
+language sql
+immutable
+as $$
+  select case jsonb_typeof(p_value)
+    when 'array' then array(select jsonb_array_elements_text(p_value))
+    when 'string' then array(
+      select trim(both ' "' from item)
+      from unnest(string_to_array(translate(p_value #>> '{}', '[]{}', ''), ',')) as item
+      where trim(both ' "' from item) <> ''
+    )
+    else '{}'::text[]
+  end;
+$$;
+
+create or replace function public.social_feed(
+  p_filter text default 'all',
+  p_type text default null,
+  p_before_created_at timestamptz default null,
+  p_before_id uuid default null,
+  p_limit integer default 20
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  type text,
+  created_at timestamptz,
+  visibility text,
+  selected_groups text[],
+  "user" jsonb,
+  likes_count integer,
+  comments_count integer,
+  is_liked boolean,
+  group_info jsonb
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with friend_ids as (
+    select f.user_id_2 as friend_id
+    from friends f
+    where f.user_id_1 = auth.uid() and f.status = 'accepted'
+    union
+    select f.user_id_1
+    from friends f
+    where f.user_id_2 = auth.uid() and f.status = 'accepted'
+  ),
+  my_groups as (
+    select gm.group_id::text as group_id
+    from group_members gm
+    where gm.user_id = auth.uid()
+  ),
+  candidates as (
+    select
+      i.*,
+      i.user_id = auth.uid() as is_mine,
+      exists (select 1 from friend_ids f where f.friend_id = i.user_id) as is_friend,
+      exists (
+        select 1 from group_members gm
+        join my_groups mg on mg.group_id = gm.group_id::text
+        where gm.user_id = i.user_id
+      ) as shares_group,
+      as_id_list(to_jsonb(i.selected_groups)) && array(select group_id from my_groups)
+        as in_selected_group
+    from intentions i
+    where (p_type is null or i.type::text = p_type)
+      and (
+        p_before_created_at is null
+        or (i.created_at, i.id) < (p_before_created_at, p_before_id)
+      )
+  ),
+  page as (
+    select c.*
+    from candidates c
+    where c.is_mine
+      or case p_filter
+        when 'mine' then false
+        when 'friends' then
+          c.is_friend and c.visibility in ('Friends', 'Friends & Groups')
+        when 'groups' then
+          (c.visibility = 'Certain Groups' and c.in_selected_group)
+          or (c.visibility = 'Friends & Groups' and c.shares_group)
+        else
+          (c.visibility = 'Friends' and c.is_friend)
+          or (c.visibility = 'Certain Groups' and c.in_selected_group)
+          or (c.visibility = 'Friends & Groups' and (c.is_friend or c.shares_group))
+      end
+    order by c.created_at desc, c.id desc
+    limit greatest(least(p_limit, 50), 1)
+  )
+  select
+    p.id,
+    p.user_id,
+    p.title::text,
+    p.description::text,
+    p.type::text,
+    p.created_at::timestamptz,
+    p.visibility::text,
+    as_id_list(to_jsonb(p.selected_groups)),
+    to_jsonb(u),
+    (
+      select count(*)::integer from likes l
+      where l.likeable_type = 'intentions' and l.likeable_id::text = p.id::text
+    ),
+    (
+      select count(*)::integer from comments cm
+      where cm.commentable_type = 'intentions' and cm.commentable_id::text = p.id::text
+    ),
+    exists (
+      select 1 from likes l
+      where l.likeable_type = 'intentions'
+        and l.likeable_id::text = p.id::text
+        and l.user_id = auth.uid()
+    ),
+    case
+      when not p.is_mine and (p_filter = 'groups' or not p.is_friend) then (
+        select to_jsonb(g)
+        from group_members gm
+        join my_groups mg on mg.group_id = gm.group_id::text
+        join groups g on g.id::text = gm.group_id::text
+        where gm.user_id = p.user_id
+        order by g.created_at
+        limit 1
+      )
+    end
+  from page p
+  left join users u on u.id = p.user_id
+  order by p.created_at desc, p.id desc;
+$$;
@@ -0,0 +1,211 @@
+-- Who can see an intention or a seasonal challenge task, enforced by the
+-- database instead of by each screen after fetching.
+--
+-- Both tables carry the same sharing options:
+--   Just Me           only the author
+--   Friends           the author's accepted friends
+--   Certain Friends   the friends listed in selected_friends
+--   Certain Groups    members of a group listed in selected_groups
+--   Friends & Groups  friends, and anyone in a group with the author
+-- Any other value (such as 'Church Prayer Team') is seen by the author only;
+-- those rows reach anyone else through security definer functions.
+--
+-- Likes and comments on an intention or task are as visible as the item.
+-- Likes and comments on other kinds of posts stay open to signed-in users.
+--
+-- Existing policies on these tables are replaced, so this file is the one
+-- place their rules live. Tests are in supabase/tests/visibility_test.sql.
+
+do $$
+declare
+  p record;
+begin
+  for p in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public'
+      and tablename in ('intentions', 'lent_tasks', 'likes', 'comments')
+  loop
+    execute format('drop policy %I on public.%I', p.policyname, p.tablename);
+  end loop;
+end;
+$$;
+
+-- ---------------------
+-- HELPERS
+-- ---------------------
+
+create or replace function public.is_friend_of(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from friends f
+    where f.status = 'accepted'
+      and (
+        (f.user_id_1 = auth.uid() and f.user_id_2 = p_user_id)
+        or (f.user_id_2 = auth.uid() and f.user_id_1 = p_user_id)
+      )
+  );
+$$;
+
+create or replace function public.shares_group_with(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from group_members mine
+    join group_members theirs on theirs.group_id = mine.group_id
+    where mine.user_id = auth.uid() and theirs.user_id = p_user_id
+  );
+$$;
+
+create or replace function public.in_any_group(p_group_ids text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from group_members gm
+    where gm.user_id = auth.uid() and gm.group_id::text = any (p_group_ids)
+  );
+$$;
+
+-- Whether the current user may see a shared item, given its author and its
+-- row as jsonb (for selected_friends and selected_groups, which not every
+-- table has)
+create or replace function public.can_see_shared(
+  p_owner_id uuid,
+  p_visibility text,
+  p_row jsonb
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    auth.uid() is not null
+    and (
+      p_owner_id = auth.uid()
+      or case p_visibility
+        when 'Friends' then is_friend_of(p_owner_id)
+        when 'Certain Friends' then
+          auth.uid()::text = any (as_id_list(p_row -> 'selected_friends'))
+        when 'Certain Groups' then in_any_group(as_id_list(p_row -> 'selected_groups'))
+        when 'Friends & Groups' then is_friend_of(p_owner_id) or shares_group_with(p_owner_id)
+        else false
+      end
+    );
+$$;
+
+-- Whether the current user may see the item a like or comment belongs to
+create or replace function public.can_see_engagement_target(p_type text, p_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_type
+    when 'intentions' then exists (
+      select 1 from intentions i
+      where i.id::text = p_id and can_see_shared(i.user_id, i.visibility, to_jsonb(i))
+    )
+    when 'lent_tasks' then exists (
+      select 1 from lent_tasks t
+      where t.id::text = p_id and can_see_shared(t.user_id, t.visibility, to_jsonb(t))
+    )
+    else auth.uid() is not null
+  end;
+$$;
+
+-- ---------------------
+-- INTENTIONS & TASKS
+-- ---------------------
+
+alter table public.intentions enable row level security;
+alter table public.lent_tasks enable row level security;
+
+create policy "Users can read intentions shared with them"
+  on public.intentions for select
+  using (can_see_shared(user_id, visibility, to_jsonb(intentions)));
+
+create policy "Users can create their own intentions"
+  on public.intentions for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can edit their own intentions"
+  on public.intentions for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can delete their own intentions"
+  on public.intentions for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read tasks shared with them"
+  on public.lent_tasks for select
+  using (can_see_shared(user_id, visibility, to_jsonb(lent_tasks)));
+
+create policy "Users can create their own tasks"
+  on public.lent_tasks for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can edit their own tasks"
+  on public.lent_tasks for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can delete their own tasks"
+  on public.lent_tasks for delete
+  using (user_id = auth.uid());
+
+-- ---------------------
+-- LIKES & COMMENTS
+-- ---------------------
+
+alter table public.likes enable row level security;
+alter table public.comments enable row level security;
+
+create policy "Users can read likes on what they can see"
+  on public.likes for select
+  using (can_see_engagement_target(likeable_type, likeable_id::text));
+
+create policy "Users can like what they can see"
+  on public.likes for insert
+  with check (
+    user_id = auth.uid() and can_see_engagement_target(likeable_type, likeable_id::text)
+  );
+
+create policy "Users can take back their likes"
+  on public.likes for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read comments on what they can see"
+  on public.comments for select
+  using (can_see_engagement_target(commentable_type, commentable_id::text));
+
+create policy "Users can comment on what they can see"
+  on public.comments for insert
+  with check (
+    user_id = auth.uid() and can_see_engagement_target(commentable_type, commentable_id::text)
+  );
+
+create policy "Users can edit their comments"
+  on public.comments for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can delete their comments"
+  on public.comments for delete
+  using (user_id = auth.uid());
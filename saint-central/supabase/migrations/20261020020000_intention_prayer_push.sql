@@ -0,0 +1,60 @@
+-- "I prayed" acknowledgements are announced from the server, so authors hear
+-- about them even when the app is closed.
+--
+-- Every five minutes the prayer-acknowledgements job calls the edge function
+-- of the same name, which pushes one notification per author for the
+-- acknowledgements still waiting (notified_at is null) and marks them
+-- notified. The job reads the project URL and service role key from Vault:
+--
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+--
+-- Recording a prayer now also requires being able to see the intention.
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net with schema extensions;
+
+-- ---------------------
+-- POLICIES
+-- ---------------------
+
+-- Prayer team requests are left out on purpose: the team prays through
+-- prayer_team_assignments and stays anonymous to the author
+drop policy if exists "Users can record their own prayers" on public.intention_prayers;
+create policy "Users can record prayers for intentions they can see"
+  on public.intention_prayers for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.intentions i
+      where i.id = intention_prayers.intention_id
+        and can_see_shared(i.user_id, i.visibility, to_jsonb(i))
+    )
+  );
+
+-- Only the edge function marks acknowledgements as announced
+drop policy if exists "Authors can mark prayers as notified" on public.intention_prayers;
+
+-- ---------------------
+-- SCHEDULE
+-- ---------------------
+
+select cron.unschedule(jobid) from cron.job where jobname = 'prayer-acknowledgements';
+
+select cron.schedule(
+  'prayer-acknowledgements',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/prayer-acknowledgements',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
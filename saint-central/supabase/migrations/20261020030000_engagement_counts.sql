@@ -0,0 +1,33 @@
+-- Like and comment counts for a list of items, counted by the database so
+-- screens don't download every like and comment to count them.
+--
+-- Both run as the caller, so likes and comments hidden from them (see
+-- 20261020010000_visibility_policies.sql) aren't counted. Items nobody liked
+-- or commented on are left out.
+
+-- How many people liked each item, and whether the current user did
+create or replace function public.like_summaries(p_type text, p_ids text[])
+returns table (target_id text, likes integer, liked boolean)
+language sql
+stable
+set search_path = public
+as $$
+  select l.likeable_id::text, count(*)::integer, bool_or(l.user_id = auth.uid())
+  from likes l
+  where l.likeable_type = p_type
+    and l.likeable_id::text = any (p_ids)
+  group by l.likeable_id::text;
+$$;
+
+create or replace function public.comment_counts(p_type text, p_ids text[])
+returns table (target_id text, comments integer)
+language sql
+stable
+set search_path = public
+as $$
+  select c.commentable_id::text, count(*)::integer
+  from comments c
+  where c.commentable_type = p_type
+    and c.commentable_id::text = any (p_ids)
+  group by c.commentable_id::text;
+$$;
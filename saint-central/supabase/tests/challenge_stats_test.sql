@@ -0,0 +1,162 @@
+-- Participation counts church staff see for a challenge
+-- (challenge_task_stats in migration 20261019170000_challenge_templates.sql).
+--
+-- Runs against the local database with `supabase test db`. Everything happens
+-- in one transaction that is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+-- Insert only the given columns, letting jsonb_populate_record convert each
+-- value to its column's type
+create function pg_temp.insert_row(p_table text, p_values jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_columns text := (
+    select string_agg(quote_ident(key), ', ') from jsonb_object_keys(p_values) as key
+  );
+begin
+  execute format(
+    'insert into %s (%s) select %s from jsonb_populate_record(null::%s, $1) on conflict do nothing',
+    p_table, v_columns, v_columns, p_table
+  ) using p_values;
+end;
+$$;
+
+-- ---------------------
+-- FIXTURES
+-- ---------------------
+
+-- Olive runs the church's Advent challenge; Ann and Ben joined it
+select pg_temp.insert_row('auth.users', jsonb_build_object('id', id, 'email', email))
+from (values
+  ('00000000-0000-0000-0000-0000000000a1'::uuid, 'olive@example.com'),
+  ('00000000-0000-0000-0000-0000000000a2'::uuid, 'ann@example.com'),
+  ('00000000-0000-0000-0000-0000000000a3'::uuid, 'ben@example.com')
+) as u (id, email);
+
+select pg_temp.insert_row('public.churches', jsonb_build_object('name', 'stats test church'));
+
+select pg_temp.insert_row('public.church_members', jsonb_build_object(
+  'church_id', (select id from public.churches where name = 'stats test church'),
+  'user_id', '00000000-0000-0000-0000-0000000000a1',
+  'role', 'admin'
+));
+
+select pg_temp.insert_row('public.challenge_templates', jsonb_build_object(
+  'id', '20000000-0000-0000-0000-000000000001',
+  'church_id', (select id from public.churches where name = 'stats test church'),
+  'season_id', 'advent',
+  'year', 2026,
+  'title', 'Advent 2026',
+  'tasks', '[]'::jsonb
+));
+
+select pg_temp.insert_row('public.challenge_participants', jsonb_build_object(
+  'template_id', '20000000-0000-0000-0000-000000000001',
+  'user_id', user_id
+))
+from (values
+  ('00000000-0000-0000-0000-0000000000a2'),
+  ('00000000-0000-0000-0000-0000000000a3')
+) as p (user_id);
+
+-- A daily examen, a Friday fast and one confession each. Ann did the examen
+-- on the first two days; Ben did it on the first and skipped the second.
+select pg_temp.insert_row('public.lent_tasks', jsonb_build_object(
+  'user_id', user_id,
+  'event', event,
+  'description', '',
+  'date', date,
+  'visibility', 'Just Me',
+  'selected_groups', '[]'::jsonb,
+  'completed', false,
+  'recurrence', recurrence,
+  'completed_dates', completed_dates,
+  'exceptions', exceptions,
+  'template_id', '20000000-0000-0000-0000-000000000001',
+  'template_task', template_task
+))
+from (values
+  (
+    '00000000-0000-0000-0000-0000000000a2', 'Daily Examen', '2026-11-29T00:00:00', 0,
+    '{"frequency": "daily", "interval": 1, "until": "2026-12-24"}'::jsonb,
+    array['2026-11-29', '2026-11-30'], '{}'::jsonb
+  ),
+  (
+    '00000000-0000-0000-0000-0000000000a3', 'Daily Examen', '2026-11-29T00:00:00', 0,
+    '{"frequency": "daily", "interval": 1, "until": "2026-12-24"}'::jsonb,
+    array['2026-11-29'], '{"2026-11-30": {"skipped": true}}'::jsonb
+  ),
+  (
+    '00000000-0000-0000-0000-0000000000a2', 'Fast', '2026-11-29T00:00:00', 1,
+    '{"frequency": "weekly", "interval": 1, "weekdays": [5], "until": "2026-12-24"}'::jsonb,
+    array[]::text[], '{}'::jsonb
+  ),
+  (
+    '00000000-0000-0000-0000-0000000000a3', 'Fast', '2026-11-29T00:00:00', 1,
+    '{"frequency": "weekly", "interval": 1, "weekdays": [5], "until": "2026-12-24"}'::jsonb,
+    array[]::text[], '{}'::jsonb
+  ),
+  (
+    '00000000-0000-0000-0000-0000000000a2', 'Confession', '2026-12-18T00:00:00', 2,
+    null, array[]::text[], '{}'::jsonb
+  ),
+  (
+    '00000000-0000-0000-0000-0000000000a3', 'Confession', '2026-12-18T00:00:00', 2,
+    null, array[]::text[], '{}'::jsonb
+  )
+) as t (user_id, event, date, template_task, recurrence, completed_dates, exceptions);
+
+-- ---------------------
+-- COUNTING
+-- ---------------------
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-0000000000a1"}';
+
+select is(
+  public.challenge_participant_count('20000000-0000-0000-0000-000000000001'),
+  2,
+  'admins count the participants'
+);
+
+select results_eq(
+  $$select template_task, due, completed
+    from public.challenge_task_stats(
+      '20000000-0000-0000-0000-000000000001', '2026-11-29', '2026-12-01'
+    )
+    order by template_task$$,
+  $$values (0, 5, 3)$$,
+  'three days in, skipped days are not due and nothing else has come up'
+);
+
+select results_eq(
+  $$select template_task, due, completed
+    from public.challenge_task_stats(
+      '20000000-0000-0000-0000-000000000001', '2026-11-29', '2026-12-24'
+    )
+    order by template_task$$,
+  $$values (0, 51, 3), (1, 6, 0), (2, 2, 0)$$,
+  'by the end of the season every day is due'
+);
+
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-0000000000a2"}';
+
+select is_empty(
+  $$select * from public.challenge_task_stats(
+    '20000000-0000-0000-0000-000000000001', '2026-11-29', '2026-12-24'
+  )$$,
+  'participants do not see the counts'
+);
+
+select * from finish();
+
+rollback;
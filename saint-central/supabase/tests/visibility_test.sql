@@ -0,0 +1,345 @@
+-- Visibility rules for intentions, seasonal challenge tasks and their likes
+-- and comments (migration 20261020010000_visibility_policies.sql), for
+-- praying for an intention (20261020020000_intention_prayer_push.sql), and for
+-- counting likes and comments (20261020030000_engagement_counts.sql).
+--
+-- Runs against the local database with `supabase test db`. Everything happens
+-- in one transaction that is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(23);
+
+-- Insert only the given columns, letting jsonb_populate_record convert each
+-- value to its column's type
+create function pg_temp.insert_row(p_table text, p_values jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_columns text := (
+    select string_agg(quote_ident(key), ', ') from jsonb_object_keys(p_values) as key
+  );
+begin
+  execute format(
+    'insert into %s (%s) select %s from jsonb_populate_record(null::%s, $1) on conflict do nothing',
+    p_table, v_columns, v_columns, p_table
+  ) using p_values;
+end;
+$$;
+
+-- ---------------------
+-- FIXTURES
+-- ---------------------
+
+-- Ann writes everything; Fred is her friend, Gail is in her group, Carl is
+-- chosen by name without being a friend, and Sam knows none of them
+select pg_temp.insert_row('auth.users', jsonb_build_object('id', id, 'email', email))
+from (values
+  ('00000000-0000-0000-0000-00000000000a'::uuid, 'ann@example.com'),
+  ('00000000-0000-0000-0000-00000000000f'::uuid, 'fred@example.com'),
+  ('00000000-0000-0000-0000-000000000009'::uuid, 'gail@example.com'),
+  ('00000000-0000-0000-0000-00000000000c'::uuid, 'carl@example.com'),
+  ('00000000-0000-0000-0000-000000000005'::uuid, 'sam@example.com')
+) as u (id, email);
+
+select pg_temp.insert_row(
+  'public.users',
+  jsonb_build_object('id', id, 'email', email, 'first_name', split_part(email, '@', 1))
+)
+from auth.users
+where email like '%@example.com';
+
+select pg_temp.insert_row('public.friends', jsonb_build_object(
+  'user_id_1', '00000000-0000-0000-0000-00000000000a',
+  'user_id_2', '00000000-0000-0000-0000-00000000000f',
+  'status', 'accepted'
+));
+select pg_temp.insert_row('public.friends', jsonb_build_object(
+  'user_id_1', '00000000-0000-0000-0000-00000000000a',
+  'user_id_2', '00000000-0000-0000-0000-00000000000c',
+  'status', 'pending'
+));
+
+select pg_temp.insert_row('public.groups', jsonb_build_object(
+  'name', name,
+  'description', '',
+  'created_by', created_by
+))
+from (values
+  ('rls parish group', '00000000-0000-0000-0000-00000000000a'),
+  ('rls other group', '00000000-0000-0000-0000-000000000005')
+) as g (name, created_by);
+
+select pg_temp.insert_row(
+  'public.group_members',
+  jsonb_build_object('group_id', g.id, 'user_id', m.user_id)
+)
+from (values
+  ('rls parish group', '00000000-0000-0000-0000-00000000000a'),
+  ('rls parish group', '00000000-0000-0000-0000-000000000009'),
+  ('rls other group', '00000000-0000-0000-0000-000000000005')
+) as m (group_name, user_id)
+join public.groups g on g.name = m.group_name;
+
+select pg_temp.insert_row('public.intentions', jsonb_build_object(
+  'id', id,
+  'user_id', '00000000-0000-0000-0000-00000000000a',
+  'title', title,
+  'description', '',
+  'type', 'prayer',
+  'visibility', visibility,
+  'selected_friends', case
+    when visibility = 'Certain Friends'
+    then jsonb_build_array('00000000-0000-0000-0000-00000000000c')
+    else '[]'::jsonb
+  end,
+  'selected_groups', case
+    when visibility = 'Certain Groups'
+    then (select jsonb_build_array(g.id::text) from public.groups g where g.name = 'rls parish group')
+    else '[]'::jsonb
+  end
+))
+from (values
+  ('10000000-0000-0000-0000-000000000001'::uuid, 'rls just me', 'Just Me'),
+  ('10000000-0000-0000-0000-000000000002'::uuid, 'rls friends', 'Friends'),
+  ('10000000-0000-0000-0000-000000000003'::uuid, 'rls certain friends', 'Certain Friends'),
+  ('10000000-0000-0000-0000-000000000004'::uuid, 'rls certain groups', 'Certain Groups'),
+  ('10000000-0000-0000-0000-000000000005'::uuid, 'rls friends & groups', 'Friends & Groups'),
+  ('10000000-0000-0000-0000-000000000006'::uuid, 'rls prayer team', 'Church Prayer Team')
+) as i (id, title, visibility);
+
+select pg_temp.insert_row('public.lent_tasks', jsonb_build_object(
+  'user_id', '00000000-0000-0000-0000-00000000000a',
+  'event', event,
+  'description', '',
+  'date', '2026-02-18T00:00:00',
+  'visibility', visibility,
+  'selected_groups', case
+    when visibility = 'Certain Groups'
+    then (select jsonb_build_array(g.id::text) from public.groups g where g.name = 'rls parish group')
+    else '[]'::jsonb
+  end,
+  'completed', false
+))
+from (values
+  ('rls task just me', 'Just Me'),
+  ('rls task friends', 'Friends'),
+  ('rls task certain groups', 'Certain Groups'),
+  ('rls task friends & groups', 'Friends & Groups')
+) as t (event, visibility);
+
+-- Fred liked and commented on the "Just Me" and "Friends" intentions before
+-- they were hidden from him
+select pg_temp.insert_row('public.likes', jsonb_build_object(
+  'user_id', '00000000-0000-0000-0000-00000000000f',
+  'likeable_id', id,
+  'likeable_type', 'intentions'
+))
+from (values
+  ('10000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000002')
+) as i (id);
+
+select pg_temp.insert_row('public.comments', jsonb_build_object(
+  'user_id', '00000000-0000-0000-0000-00000000000a',
+  'commentable_id', id,
+  'commentable_type', 'intentions',
+  'content', 'Thank you for praying'
+))
+from (values
+  ('10000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000002')
+) as i (id);
+
+-- ---------------------
+-- READING
+-- ---------------------
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+
+select is(
+  (select count(*)::integer from public.intentions where title like 'rls %'),
+  6,
+  'authors see all their intentions'
+);
+
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000f"}';
+
+select is(
+  array(select title from public.intentions where title like 'rls %' order by title),
+  array['rls friends', 'rls friends & groups'],
+  'friends see "Friends" and "Friends & Groups" intentions'
+);
+
+select is(
+  array(select event from public.lent_tasks where event like 'rls %' order by event),
+  array['rls task friends', 'rls task friends & groups'],
+  'friends see "Friends" and "Friends & Groups" tasks'
+);
+
+select is(
+  (select count(*)::integer from public.likes where likeable_type = 'intentions'
+    and likeable_id::text like '10000000-%'),
+  1,
+  'likes on hidden intentions are hidden'
+);
+
+select is(
+  (select count(*)::integer from public.comments where commentable_type = 'intentions'
+    and commentable_id::text like '10000000-%'),
+  1,
+  'comments on hidden intentions are hidden'
+);
+
+select results_eq(
+  $$ select target_id, likes, liked from public.like_summaries('intentions', array[
+       '10000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000002'
+     ]) $$,
+  $$ values ('10000000-0000-0000-0000-000000000002', 1, true) $$,
+  'like counts leave out hidden intentions'
+);
+
+select results_eq(
+  $$ select target_id, comments from public.comment_counts('intentions', array[
+       '10000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000002'
+     ]) $$,
+  $$ values ('10000000-0000-0000-0000-000000000002', 1) $$,
+  'comment counts leave out hidden intentions'
+);
+
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000009"}';
+
+select is(
+  array(select title from public.intentions where title like 'rls %' order by title),
+  array['rls certain groups', 'rls friends & groups'],
+  'group members see "Certain Groups" and "Friends & Groups" intentions'
+);
+
+select is(
+  array(select event from public.lent_tasks where event like 'rls %' order by event),
+  array['rls task certain groups', 'rls task friends & groups'],
+  'group members see "Certain Groups" and "Friends & Groups" tasks'
+);
+
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000c"}';
+
+select is(
+  array(select title from public.intentions where title like 'rls %' order by title),
+  array['rls certain friends'],
+  'chosen friends see "Certain Friends" intentions, even without a friendship'
+);
+
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000005"}';
+
+select is_empty(
+  $$ select id from public.intentions where title like 'rls %' $$,
+  'strangers see no intentions'
+);
+
+select is_empty(
+  $$ select id from public.lent_tasks where event like 'rls %' $$,
+  'strangers see no tasks'
+);
+
+select is_empty(
+  $$ select id from public.comments where commentable_id::text like '10000000-%' $$,
+  'strangers see no comments'
+);
+
+reset role;
+set local role anon;
+set local request.jwt.claims = '{}';
+
+select is_empty(
+  $$ select id from public.intentions where title like 'rls %' $$,
+  'signed-out users see no intentions'
+);
+
+-- ---------------------
+-- WRITING
+-- ---------------------
+
+reset role;
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000f"}';
+
+select is_empty(
+  $$ update public.intentions set title = 'rls edited' where title = 'rls friends' returning id $$,
+  'friends cannot edit an intention they can see'
+);
+
+select is_empty(
+  $$ delete from public.lent_tasks where event = 'rls task friends' returning id $$,
+  'friends cannot delete a task they can see'
+);
+
+select throws_ok(
+  $$ insert into public.intentions (user_id, title, description, type, visibility)
+     values ('00000000-0000-0000-0000-00000000000a', 'rls forged', '', 'prayer', 'Just Me') $$,
+  '42501',
+  null,
+  'users cannot write intentions as someone else'
+);
+
+select lives_ok(
+  $$ insert into public.comments (user_id, commentable_id, commentable_type, content)
+     values ('00000000-0000-0000-0000-00000000000f', '10000000-0000-0000-0000-000000000002',
+       'intentions', 'Praying for you') $$,
+  'friends can comment on an intention they can see'
+);
+
+select throws_ok(
+  $$ insert into public.likes (user_id, likeable_id, likeable_type)
+     values ('00000000-0000-0000-0000-00000000000f', '10000000-0000-0000-0000-000000000003',
+       'intentions') $$,
+  '42501',
+  null,
+  'users cannot like an intention hidden from them'
+);
+
+select throws_ok(
+  $$ insert into public.comments (user_id, commentable_id, commentable_type, content)
+     values ('00000000-0000-0000-0000-00000000000f', '10000000-0000-0000-0000-000000000006',
+       'intentions', 'Hello') $$,
+  '42501',
+  null,
+  'users cannot comment on a prayer team request'
+);
+
+select lives_ok(
+  $$ insert into public.intention_prayers (intention_id, user_id)
+     values ('10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-00000000000f') $$,
+  'friends can pray for an intention they can see'
+);
+
+select throws_ok(
+  $$ insert into public.intention_prayers (intention_id, user_id)
+     values ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000f') $$,
+  '42501',
+  null,
+  'users cannot pray for an intention hidden from them'
+);
+
+reset role;
+
+select is(
+  (select title from public.intentions where id = '10000000-0000-0000-0000-000000000002'),
+  'rls friends',
+  'the blocked edit left the intention unchanged'
+);
+
+select * from finish();
+
+rollback;
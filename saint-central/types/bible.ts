@@ -0,0 +1,81 @@
+// Verse row shape shared by every per-version Bible table (KJV_bible, CPDV_bible, ...)
+export interface BibleVerse {
+  id: number;
+  book: string;
+  chapter: string;
+  verse: string;
+  text: string;
+}
+
+// Metadata for a Bible version that has been downloaded for offline reading
+export interface OfflinePackInfo {
+  table: string;
+  verseCount: number;
+  sizeBytes: number;
+  downloadedAt: string;
+  books: Record<string, string[]>;
+}
+
+// A day-by-day reading plan, either built into the app or authored by a church admin
+export interface ReadingPlan {
+  id: string;
+  title: string;
+  description: string;
+  // Scripture references to read on each day, e.g. [["Genesis 1-3"], ["Genesis 4-6"]]
+  days: string[][];
+  church_id: number | null;
+  created_by: string | null;
+  created_at?: string;
+  builtin?: boolean;
+}
+
+// A user's progress through a plan, optionally as part of a group
+export interface ReadingPlanEnrollment {
+  id: string;
+  plan_id: string;
+  user_id: string;
+  group_id: string | null;
+  // Local date (YYYY-MM-DD) on which day 1 is scheduled
+  start_date: string;
+  // 1-based day numbers the user has marked as read
+  completed_days: number[];
+  // Daily reminder time as "HH:MM", or null for no reminder
+  reminder_time: string | null;
+  created_at?: string;
+}
+
+// A plan a group has chosen to read together, with a shared start date
+export interface GroupReadingPlan {
+  id: string;
+  group_id: string;
+  plan_id: string;
+  start_date: string;
+  created_by: string;
+  created_at?: string;
+}
+
+// Fields of an annotation that are merged independently when two devices edit it
+export type AnnotationField = "range" | "color" | "note" | "deleted";
+
+// A highlight, tag set and/or note on a contiguous range of verses in one chapter.
+// start_verse 0 marks a bookmark on the whole chapter.
+export interface Annotation {
+  // Generated on the device so annotations made offline keep their identity when synced
+  id: string;
+  book: string;
+  chapter: number;
+  start_verse: number;
+  end_verse: number;
+  bible_version: string;
+  color: string | null;
+  // Tags currently applied (derived from tag_clock)
+  tags: string[];
+  note: string;
+  deleted: boolean;
+  created_at: string;
+  updated_at: string;
+  // When each field was last edited, for field-level last-writer-wins merges
+  field_clock: Record<AnnotationField, string>;
+  // When each tag was last added or removed, so tags added on two devices both survive
+  tag_clock: Record<string, { added: boolean; at: string }>;
+}
@@ -0,0 +1,80 @@
+import { RecurrenceRule } from "@/utils/challenges/recurrence";
+import { ChallengeSeasonId } from "@/utils/liturgy/seasonalChallenges";
+
+// One task of a church challenge. Its dates are relative to the season, so the
+// same template works in any year.
+export interface ChallengeTemplateTask {
+  event: string;
+  description: string;
+  // Days after the season's first day on which the task starts
+  start_offset: number;
+  // Repeats until the season's last day; null for a single day
+  recurrence: Pick<RecurrenceRule, "frequency" | "interval" | "weekdays"> | null;
+}
+
+// A seasonal challenge a church publishes for its members to join
+export interface ChallengeTemplate {
+  id: string;
+  church_id: number;
+  season_id: ChallengeSeasonId;
+  year: number;
+  title: string;
+  description: string;
+  tasks: ChallengeTemplateTask[];
+  // The template from an earlier year this one was cloned from
+  cloned_from: string | null;
+  created_by: string | null;
+  created_at?: string;
+}
+
+// A member who joined a church challenge
+export interface ChallengeParticipant {
+  id: string;
+  template_id: string;
+  user_id: string;
+  joined_at: string;
+}
+
+// How one template task went across all participants, as church staff see it
+// (a row of challenge_task_stats)
+export interface ChallengeTaskCount {
+  // Index of the template task
+  template_task: number;
+  due: number;
+  completed: number;
+}
+
+// A goal a group works toward together: each member aims for `target`
+// check-ins between the start and end dates
+export interface GroupChallenge {
+  id: string;
+  group_id: string;
+  title: string;
+  description: string;
+  target: number;
+  // Local dates, "YYYY-MM-DD"
+  start_date: string;
+  end_date: string;
+  created_by: string;
+  created_at?: string;
+}
+
+// A member taking part in a group challenge
+export interface GroupChallengeMember {
+  id: string;
+  challenge_id: string;
+  user_id: string;
+  // Whether the member's name and count appear on the group's leaderboard
+  show_on_leaderboard: boolean;
+  joined_at: string;
+}
+
+// One member's check-ins. Members who stay off the leaderboard are counted
+// without their name; the current user always sees their own.
+export interface ChallengeStanding {
+  user_id: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  checkins: number;
+  on_leaderboard: boolean;
+}
@@ -0,0 +1,57 @@
+// Everything that can be liked and commented on. The type is stored with each
+// like and comment as likeable_type / commentable_type.
+export type EngagementTarget =
+  | { type: "intentions"; id: string }
+  | { type: "lent_tasks"; id: string }
+  | { type: "faith_post"; id: number }
+  | { type: "womens_ministry_post"; id: number }
+  | { type: "culture_post"; id: number };
+
+export type EngagementTargetType = EngagementTarget["type"];
+
+// How many people liked something, and whether the user is one of them
+export interface LikeSummary {
+  count: number;
+  liked: boolean;
+}
+
+/**
+ * A like or comment added, edited or removed, as realtime reports it. key is
+ * the item's targetKey. Realtime only gives the id of a removed row, so
+ * removals the app makes itself pass along what it knows.
+ */
+export type EngagementChange =
+  | { event: "INSERT" | "UPDATE"; id: string; key: string; userId: string }
+  | { event: "DELETE"; id: string; key?: string; userId?: string };
+
+// A like or comment counted while its item was shown, kept after its removal
+// so neither is counted twice
+export interface TrackedEngagementRow {
+  key: string;
+  mine: boolean;
+  removed: boolean;
+}
+
+// A commenter, as joined from users
+export interface CommentAuthor {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email?: string | null;
+  profile_image?: string | null;
+}
+
+export interface EngagementComment {
+  id: string;
+  user_id: string;
+  commentable_id: string;
+  commentable_type: EngagementTargetType;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  // Null when the commenter's profile can't be read
+  user: CommentAuthor | null;
+}
+
+// Oldest first reads like a conversation; newest first like a feed
+export type CommentOrder = "oldest" | "newest";
@@ -0,0 +1,119 @@
+// Devotions that are recorded when completed
+export type PrayerSessionKind = "rosary";
+
+// A completed devotion, counted in the user's prayer statistics
+export interface PrayerSession {
+  id: string;
+  user_id: string;
+  kind: PrayerSessionKind;
+  // What was prayed, e.g. { mysteries: "joyful" }
+  details: Record<string, unknown>;
+  started_at: string;
+  completed_at: string;
+}
+
+// Someone praying for an intention on a given day
+export interface IntentionPrayer {
+  id: string;
+  intention_id: string;
+  user_id: string;
+  author_id: string;
+  // Local date, "YYYY-MM-DD"
+  prayed_on: string;
+  prayed_at: string;
+  // When the author was told; null until then
+  notified_at: string | null;
+}
+
+// How many people prayed for an intention, and whether the user did today
+export interface IntentionPrayerCount {
+  intention_id: string;
+  people: number;
+  prayed_today: boolean;
+}
+
+// One person who prayed for an intention, as its author sees it
+export interface IntentionPrayerPerson {
+  user_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  last_prayed_at: string;
+  times: number;
+}
+
+// Where an intention is in its life: prayed for, with news from its author,
+// and finally answered or closed
+export type IntentionStatus = "active" | "updated" | "answered" | "closed";
+
+// News the author posts on an intention
+export interface IntentionUpdate {
+  id: string;
+  intention_id: string;
+  user_id: string;
+  content: string;
+  created_at: string;
+}
+
+// An answered intention as it appears in the answered prayers view
+export interface AnsweredPrayer {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string;
+  type: string;
+  visibility: string;
+  selected_friends: string[] | null;
+  selected_groups: string[] | null;
+  created_at: string;
+  answered_at: string;
+  testimony: string | null;
+  testimony_post_id: number | null;
+  user: { first_name: string | null; last_name: string | null } | null;
+}
+
+// Telling someone who prayed that an intention has news
+export interface PrayerNotification {
+  id: string;
+  user_id: string;
+  intention_id: string;
+  kind: "update" | "answered";
+  created_at: string;
+  notified_at: string | null;
+}
+
+// How often to be reminded to pray for an intention
+export type IntentionReminderKind = "once" | "daily" | "weekdays" | "until";
+
+// A user's reminder schedule for one intention
+export interface IntentionReminder {
+  id: string;
+  user_id: string;
+  intention_id: string;
+  kind: IntentionReminderKind;
+  // "HH:MM", local time
+  remind_time: string;
+  // "YYYY-MM-DD"; the day of a "once" reminder
+  remind_on: string | null;
+  // 0 = Sunday; the days of a "weekdays" reminder
+  weekdays: number[] | null;
+  // "YYYY-MM-DD"; the last day of an "until" reminder
+  until_date: string | null;
+  created_at: string;
+}
+
+// Where a confidential request is with the church prayer team
+export type PrayerTeamStatus = "waiting" | "claimed" | "prayed";
+
+// A request in the prayer team's queue
+export interface PrayerTeamRequest {
+  intention_id: string;
+  title: string;
+  description: string;
+  type: string;
+  created_at: string;
+  // Null when the author asked to stay anonymous
+  author_name: string | null;
+  status: PrayerTeamStatus;
+  claimed_by_me: boolean;
+  prayed_at: string | null;
+}
@@ -0,0 +1,146 @@
+import {
+  annotationCovers,
+  createAnnotation,
+  editAnnotation,
+  filterAnnotations,
+  formatAnnotationReference,
+  groupAnnotations,
+  mergeAnnotationLists,
+  mergeAnnotations,
+} from "../annotations";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+jest.mock("expo-crypto", () => {
+  let count = 0;
+  return { randomUUID: () => `annotation-${++count}` };
+});
+
+const at = (minute: number) => new Date(Date.UTC(2026, 9, 19, 9, minute));
+
+const base = createAnnotation(
+  {
+    book: "John",
+    chapter: 3,
+    startVerse: 16,
+    endVerse: 18,
+    bibleVersion: "KJV_bible",
+    color: "#F9D66B",
+    tags: ["Love"],
+  },
+  at(0),
+);
+
+describe("createAnnotation and editAnnotation", () => {
+  it("orders the range and normalizes tags", () => {
+    const reversed = createAnnotation(
+      { book: "John", chapter: 3, startVerse: 18, endVerse: 16, bibleVersion: "KJV_bible" },
+      at(0),
+    );
+    expect([reversed.start_verse, reversed.end_verse]).toEqual([16, 18]);
+    expect(base.tags).toEqual(["love"]);
+  });
+
+  it("stamps only the fields that changed", () => {
+    const edited = editAnnotation(
+      base,
+      { note: "For God so loved", tags: ["love", "gospel"] },
+      at(5),
+    );
+    expect(edited.note).toBe("For God so loved");
+    expect(edited.tags).toEqual(["gospel", "love"]);
+    expect(edited.field_clock.note).toBe(at(5).toISOString());
+    expect(edited.field_clock.color).toBe(at(0).toISOString());
+    expect(edited.tag_clock.love.at).toBe(at(0).toISOString());
+  });
+});
+
+describe("mergeAnnotations", () => {
+  it("keeps the latest edit of each field from either device", () => {
+    const phone = editAnnotation(base, { note: "Written on the phone" }, at(10));
+    const tablet = editAnnotation(base, { color: "#8BD3A4", range: [16, 21] }, at(5));
+
+    const merged = mergeAnnotations(phone, tablet);
+    expect(merged.note).toBe("Written on the phone");
+    expect(merged.color).toBe("#8BD3A4");
+    expect([merged.start_verse, merged.end_verse]).toEqual([16, 21]);
+    expect(merged.updated_at).toBe(at(10).toISOString());
+  });
+
+  it("combines tags added and removed on different devices", () => {
+    const phone = editAnnotation(base, { tags: ["love", "hope"] }, at(10));
+    const tablet = editAnnotation(base, { tags: ["faith"] }, at(5));
+
+    expect(mergeAnnotations(phone, tablet).tags).toEqual(["faith", "hope"]);
+  });
+
+  it("gives the same result in either order, even for simultaneous edits", () => {
+    const phone = editAnnotation(base, { note: "phone", tags: ["a"] }, at(7));
+    const tablet = editAnnotation(base, { note: "tablet", tags: [] }, at(7));
+
+    expect(mergeAnnotations(phone, tablet)).toEqual(mergeAnnotations(tablet, phone));
+  });
+
+  it("keeps a deletion unless the annotation was edited afterwards", () => {
+    const deleted = editAnnotation(base, { deleted: true }, at(5));
+    expect(mergeAnnotations(base, deleted).deleted).toBe(true);
+
+    const restored = editAnnotation(deleted, { deleted: false }, at(9));
+    expect(mergeAnnotations(deleted, restored).deleted).toBe(false);
+  });
+});
+
+describe("mergeAnnotationLists", () => {
+  it("uploads local-only and changed annotations", () => {
+    const extra = createAnnotation(
+      { book: "Psalms", chapter: 23, startVerse: 1, endVerse: 1, bibleVersion: "KJV_bible" },
+      at(1),
+    );
+    const edited = editAnnotation(base, { note: "offline note" }, at(8));
+    const unchanged = createAnnotation(
+      { book: "Mark", chapter: 1, startVerse: 0, endVerse: 0, bibleVersion: "KJV_bible" },
+      at(2),
+    );
+
+    const { merged, toUpload } = mergeAnnotationLists(
+      [edited, extra, unchanged],
+      [base, unchanged],
+    );
+    expect(merged).toHaveLength(3);
+    expect(toUpload.map((a) => a.id).sort()).toEqual([base.id, extra.id].sort());
+    expect(merged.find((a) => a.id === base.id)!.note).toBe("offline note");
+  });
+});
+
+describe("notebook helpers", () => {
+  const bookmark = createAnnotation(
+    { book: "John", chapter: 3, startVerse: 0, endVerse: 0, bibleVersion: "KJV_bible" },
+    at(3),
+  );
+  const tagged = editAnnotation(base, { tags: ["love", "gospel"] }, at(4));
+
+  it("formats references and checks coverage", () => {
+    expect(formatAnnotationReference(base)).toBe("John 3:16-18");
+    expect(formatAnnotationReference(bookmark)).toBe("John 3");
+    expect(annotationCovers(base, "John", 3, 17)).toBe(true);
+    expect(annotationCovers(base, "John", 3, 19)).toBe(false);
+    expect(annotationCovers(bookmark, "John", 3, 1)).toBe(false);
+  });
+
+  it("groups by tag, listing an annotation under each of its tags", () => {
+    const grouped = groupAnnotations([tagged, bookmark], "tag");
+    expect(Object.keys(grouped).sort()).toEqual(["#gospel", "#love", "Untagged"]);
+    expect(grouped["#love"]).toEqual([tagged]);
+  });
+
+  it("filters by tag and color", () => {
+    expect(
+      filterAnnotations([tagged, bookmark], { tag: "gospel", color: null, book: null }),
+    ).toEqual([tagged]);
+    expect(
+      filterAnnotations([tagged, bookmark], { tag: null, color: "#F9D66B", book: null }),
+    ).toEqual([tagged]);
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  getChapterCount,
+  getChapters,
+  getVerseCount,
+  getVersionBooks,
+  isBookInVersion,
+  mapPassage,
+  mapVerse,
+} from "../canon";
+import { BOOK_CHAPTER_COUNTS, NEW_TESTAMENT_BOOKS, OLD_TESTAMENT_BOOKS } from "../books";
+
+const psalm = (chapter: number, verse: number) => ({ book: "Psalms", chapter, verse });
+
+describe("canon metadata", () => {
+  it("has a verse count for every KJV chapter", () => {
+    let total = 0;
+    [...OLD_TESTAMENT_BOOKS, ...NEW_TESTAMENT_BOOKS].forEach(({ name }) => {
+      for (let chapter = 1; chapter <= BOOK_CHAPTER_COUNTS[name]; chapter++) {
+        const count = getVerseCount("KJV_bible", name, chapter);
+        expect(count).toBeGreaterThan(0);
+        total += count!;
+      }
+      expect(getVerseCount("KJV_bible", name, BOOK_CHAPTER_COUNTS[name] + 1)).toBeNull();
+    });
+    expect(total).toBe(31102);
+  });
+
+  it("lists deuterocanonical books only in versions that have them", () => {
+    expect(getVersionBooks("CPDV_bible", "old")).toContain("Tobit");
+    expect(getVersionBooks("KJV_bible")).not.toContain("Tobit");
+    expect(getVersionBooks("KJV_bible", "new")[0]).toBe("Matthew");
+    expect(isBookInVersion("KJV_bible", "Sirach")).toBe(false);
+    expect(getChapters("CPDV_bible", "Sirach")).toHaveLength(51);
+  });
+
+  it("counts chapters in each version's own division", () => {
+    expect(getChapterCount("KJV_bible", "Daniel")).toBe(12);
+    expect(getChapterCount("CPDV_bible", "Daniel")).toBe(14);
+    expect(getChapters("ASV_bible", "Jude")).toEqual(["1"]);
+    expect(getVerseCount("CPDV_bible", "Psalms", 50)).toBeNull();
+    expect(getVerseCount("CPDV_bible", "John", 3)).toBe(36);
+  });
+});
+
+describe("mapVerse", () => {
+  it("renumbers the Psalms between the KJV and the Vulgate", () => {
+    expect(mapVerse(psalm(51, 1), "KJV_bible", "CPDV_bible")).toEqual(psalm(50, 1));
+    expect(mapVerse(psalm(10, 1), "KJV_bible", "CPDV_bible")).toEqual(psalm(9, 22));
+    expect(mapVerse(psalm(116, 10), "KJV_bible", "CPDV_bible")).toEqual(psalm(115, 1));
+    expect(mapVerse(psalm(147, 12), "KJV_bible", "CPDV_bible")).toEqual(psalm(147, 1));
+    expect(mapVerse(psalm(23, 1), "ASV_bible", "KJV_bible")).toEqual(psalm(23, 1));
+  });
+
+  it("round-trips every KJV psalm verse through the Vulgate", () => {
+    for (let chapter = 1; chapter <= 150; chapter++) {
+      const verses = getVerseCount("KJV_bible", "Psalms", chapter)!;
+      for (let verse = 1; verse <= verses; verse++) {
+        const vulgate = mapVerse(psalm(chapter, verse), "KJV_bible", "CPDV_bible");
+        expect(mapVerse(vulgate, "CPDV_bible", "KJV_bible")).toEqual(psalm(chapter, verse));
+      }
+    }
+  });
+
+  it("moves Daniel 3-4 around the Song of the Three", () => {
+    const daniel = (chapter: number, verse: number) => ({ book: "Daniel", chapter, verse });
+    expect(mapVerse(daniel(3, 24), "KJV_bible", "CPDV_bible")).toEqual(daniel(3, 91));
+    expect(mapVerse(daniel(4, 1), "KJV_bible", "CPDV_bible")).toEqual(daniel(3, 98));
+    expect(mapVerse(daniel(4, 4), "KJV_bible", "CPDV_bible")).toEqual(daniel(4, 1));
+    expect(mapVerse(daniel(3, 50), "CPDV_bible", "KJV_bible")).toEqual(daniel(3, 23));
+    expect(mapVerse(daniel(14, 3), "CPDV_bible", "KJV_bible")).toEqual(daniel(12, 1));
+  });
+
+  it("maps whole passages and chapters", () => {
+    expect(
+      mapPassage(
+        { book: "Psalms", startChapter: 22, startVerse: 1, endChapter: 22, endVerse: 5 },
+        "KJV_bible",
+        "CPDV_bible",
+      ),
+    ).toEqual({ book: "Psalms", startChapter: 21, startVerse: 1, endChapter: 21, endVerse: 5 });
+    expect(mapPassage({ book: "Psalms", startChapter: 9 }, "CPDV_bible", "KJV_bible")).toEqual({
+      book: "Psalms",
+      startChapter: 9,
+      endChapter: 9,
+    });
+
+    const john = { book: "John", startChapter: 3 };
+    expect(mapPassage(john, "ASV_bible", "KJV_bible")).toBe(john);
+  });
+});
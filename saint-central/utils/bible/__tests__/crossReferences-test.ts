@@ -0,0 +1,68 @@
+import {
+  CrossReference,
+  getBundledCrossReferences,
+  getVerseCrossReferences,
+} from "../crossReferences";
+import { formatPassage } from "../references";
+
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+jest.mock("../offlinePacks", () => ({ getPackVerses: jest.fn() }));
+
+const targets = (links: CrossReference[]) => links.map((link) => formatPassage(link.to));
+
+describe("bundled cross-references", () => {
+  it("links each Gospel account to the parallel accounts", () => {
+    const links = getBundledCrossReferences("Mark", 1);
+    expect(targets(getVerseCrossReferences(links, "Mark", 1, 10))).toEqual([
+      "Matthew 3:13-17",
+      "Luke 3:21-22",
+      "John 1:29-34",
+    ]);
+  });
+
+  it("links quotations in both directions", () => {
+    const quoting = getVerseCrossReferences(
+      getBundledCrossReferences("Matthew", 2),
+      "Matthew",
+      2,
+      15,
+    );
+    expect(quoting.find((link) => link.kind === "quotation")?.to).toMatchObject({
+      book: "Hosea",
+      startChapter: 11,
+    });
+
+    const quoted = getBundledCrossReferences("Hosea", 11);
+    expect(targets(getVerseCrossReferences(quoted, "Hosea", 11, 1))).toEqual(["Matthew 2:15"]);
+  });
+
+  it("includes parallels that run across a chapter break", () => {
+    const links = getBundledCrossReferences("Mark", 9);
+    expect(targets(getVerseCrossReferences(links, "Mark", 9, 1))).toContain("Luke 9:22-27");
+  });
+});
+
+describe("getVerseCrossReferences", () => {
+  const from = { book: "John", startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 16 };
+  const link = (kind: CrossReference["kind"], to: string, votes: number): CrossReference => ({
+    kind,
+    from,
+    to: { book: to, startChapter: 1, startVerse: 1, endChapter: 1, endVerse: 1 },
+    votes,
+  });
+
+  it("orders by kind then votes and lists each passage once", () => {
+    const links = [
+      link("related", "Romans", 10),
+      link("related", "Titus", 90),
+      link("quotation", "Romans", 0),
+      link("parallel", "Matthew", 0),
+    ];
+    expect(targets(getVerseCrossReferences(links, "John", 3, 16))).toEqual([
+      "Matthew 1:1",
+      "Romans 1:1",
+      "Titus 1:1",
+    ]);
+    expect(getVerseCrossReferences(links, "John", 3, 17)).toEqual([]);
+  });
+});
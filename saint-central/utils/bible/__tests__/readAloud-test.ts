@@ -0,0 +1,75 @@
+import * as Speech from "expo-speech";
+import {
+  cycleOption,
+  findVerseIndex,
+  getSpeechLanguage,
+  pickVoice,
+  prepareVerseText,
+  splitForSpeech,
+} from "../readAloud";
+
+jest.mock("expo-speech", () => ({
+  maxSpeechInputLength: 4000,
+  VoiceQuality: { Default: "Default", Enhanced: "Enhanced" },
+}));
+
+const voice = (identifier: string, language: string, quality = Speech.VoiceQuality.Default) => ({
+  identifier,
+  name: identifier,
+  language,
+  quality,
+});
+
+describe("getSpeechLanguage", () => {
+  it("reads each version in its own language", () => {
+    expect(getSpeechLanguage("SpaRV_bible")).toBe("es-ES");
+    expect(getSpeechLanguage("JapBungo_bible")).toBe("ja-JP");
+    expect(getSpeechLanguage("Unknown_bible")).toBe("en-US");
+  });
+});
+
+describe("pickVoice", () => {
+  it("prefers the exact locale, then enhanced voices, within the language", () => {
+    const voices = [
+      voice("fr", "fr-FR", Speech.VoiceQuality.Enhanced),
+      voice("es-mx", "es-MX", Speech.VoiceQuality.Enhanced),
+      voice("es-es", "es-ES"),
+    ];
+    expect(pickVoice(voices, "es-ES")).toBe("es-es");
+    expect(pickVoice(voices, "es-AR")).toBe("es-mx");
+    expect(pickVoice(voices, "th-TH")).toBeUndefined();
+  });
+});
+
+describe("verse text", () => {
+  it("drops marks that shouldn't be read aloud", () => {
+    expect(prepareVerseText("¶ In the beginning  [was] the Word")).toBe(
+      "In the beginning was the Word",
+    );
+  });
+
+  it("splits long text at clause breaks", () => {
+    expect(splitForSpeech("one, two. three four", 12)).toEqual(["one, two.", "three four"]);
+    expect(splitForSpeech("one two three", 8)).toEqual(["one two", "three"]);
+    expect(splitForSpeech("short", 10)).toEqual(["short"]);
+  });
+
+  it("finds the verse to start from", () => {
+    const verses = ["1", "2", "3"].map((verse, id) => ({
+      id,
+      book: "John",
+      chapter: "1",
+      verse,
+      text: "",
+    }));
+    expect(findVerseIndex(verses, "2")).toBe(1);
+    expect(findVerseIndex(verses, null)).toBe(0);
+  });
+});
+
+describe("cycleOption", () => {
+  it("wraps around to the first option", () => {
+    expect(cycleOption([0.75, 1, 1.5], 1)).toBe(1.5);
+    expect(cycleOption([0.75, 1, 1.5], 1.5)).toBe(0.75);
+  });
+});
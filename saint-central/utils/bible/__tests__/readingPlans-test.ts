@@ -0,0 +1,139 @@
+import { ReadingPlan, ReadingPlanEnrollment } from "@/types/bible";
+import {
+  BUILT_IN_PLANS,
+  findPlanDayForChapter,
+  generatePlanDays,
+  getMissedDays,
+  getNextPlanDay,
+  getPlanProgress,
+  getScheduledDay,
+  getShiftedStartDate,
+  getTodaysReading,
+  parsePlanDays,
+} from "../readingPlans";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+jest.mock("../../notifications", () => ({ scheduleLocalNotification: jest.fn() }));
+jest.mock("expo-notifications", () => ({
+  cancelScheduledNotificationAsync: jest.fn(),
+  SchedulableTriggerInputTypes: { DAILY: "daily" },
+}));
+
+const plan: ReadingPlan = {
+  id: "test",
+  title: "Test Plan",
+  description: "",
+  days: generatePlanDays(["Mark"], 8),
+  church_id: null,
+  created_by: null,
+};
+
+const enrollment = (overrides: Partial<ReadingPlanEnrollment> = {}): ReadingPlanEnrollment => ({
+  id: "e1",
+  plan_id: "test",
+  user_id: "u1",
+  group_id: null,
+  start_date: "2026-03-01",
+  completed_days: [],
+  reminder_time: null,
+  ...overrides,
+});
+
+// Local dates, like the ones the app passes in
+const on = (year: number, month: number, day: number) => new Date(year, month - 1, day, 9, 30);
+
+describe("generatePlanDays", () => {
+  it("spreads chapters evenly and joins runs within a book", () => {
+    expect(plan.days).toEqual([
+      ["Mark 1-2"],
+      ["Mark 3-4"],
+      ["Mark 5-6"],
+      ["Mark 7-8"],
+      ["Mark 9-10"],
+      ["Mark 11-12"],
+      ["Mark 13-14"],
+      ["Mark 15-16"],
+    ]);
+  });
+
+  it("splits a day across books and names one-chapter books on their own", () => {
+    expect(generatePlanDays(["III John", "Jude", "Revelation of John"], 4)[0]).toEqual([
+      "III John",
+      "Jude",
+      "Revelation of John 1-4",
+    ]);
+  });
+
+  it("ships built-in plans of the expected length", () => {
+    const year = BUILT_IN_PLANS.find((p) => p.id === "builtin-bible-in-a-year")!;
+    expect(year.days).toHaveLength(365);
+    expect(year.days[0][0]).toBe("Genesis 1-3");
+    expect(year.days[364].slice(-1)[0]).toBe("Revelation of John 19-22");
+  });
+});
+
+describe("schedule and catch-up", () => {
+  it("maps dates to plan days, clamped to the plan", () => {
+    expect(getScheduledDay(enrollment(), plan, on(2026, 2, 28))).toBe(0);
+    expect(getScheduledDay(enrollment(), plan, on(2026, 3, 1))).toBe(1);
+    expect(getScheduledDay(enrollment(), plan, on(2026, 3, 4))).toBe(4);
+    expect(getScheduledDay(enrollment(), plan, on(2026, 4, 1))).toBe(8);
+  });
+
+  it("lists unread days before today as missed", () => {
+    const e = enrollment({ completed_days: [1, 3] });
+    expect(getMissedDays(e, plan, on(2026, 3, 5))).toEqual([2, 4]);
+    expect(getMissedDays(e, plan, on(2026, 3, 1))).toEqual([]);
+    expect(getMissedDays(e, plan, on(2026, 5, 1))).toEqual([2, 4, 5, 6, 7, 8]);
+  });
+
+  it("adds a share of missed days to today's reading", () => {
+    const e = enrollment({ completed_days: [1] });
+    expect(getTodaysReading(e, plan, on(2026, 3, 2))).toEqual({ day: 2, catchUpDays: [] });
+    expect(getTodaysReading(e, plan, on(2026, 3, 4))).toEqual({ day: 4, catchUpDays: [2] });
+    expect(getTodaysReading(enrollment({ completed_days: [4] }), plan, on(2026, 3, 4))).toEqual({
+      day: null,
+      catchUpDays: [1],
+    });
+  });
+
+  it("shifts the start date so the next unread day is today", () => {
+    const e = enrollment({ completed_days: [1, 2] });
+    const shifted = getShiftedStartDate(e, plan, on(2026, 3, 10));
+    expect(shifted).toBe("2026-03-08");
+    expect(getScheduledDay({ ...e, start_date: shifted }, plan, on(2026, 3, 10))).toBe(3);
+    expect(getMissedDays({ ...e, start_date: shifted }, plan, on(2026, 3, 10))).toEqual([]);
+  });
+
+  it("tracks progress and the next day", () => {
+    const e = enrollment({ completed_days: [1, 2, 4] });
+    expect(getPlanProgress(e, plan)).toBe(3 / 8);
+    expect(getNextPlanDay(e, plan)).toBe(3);
+    expect(
+      getNextPlanDay(enrollment({ completed_days: [1, 2, 3, 4, 5, 6, 7, 8] }), plan),
+    ).toBeNull();
+  });
+});
+
+describe("findPlanDayForChapter", () => {
+  it("finds the first unread day containing a chapter", () => {
+    expect(findPlanDayForChapter(enrollment(), plan, "Mark", 4)).toBe(2);
+    expect(findPlanDayForChapter(enrollment({ completed_days: [2] }), plan, "Mark", 4)).toBeNull();
+    expect(findPlanDayForChapter(enrollment(), plan, "Luke", 4)).toBeNull();
+  });
+});
+
+describe("parsePlanDays", () => {
+  it("reads one day per line with references separated by semicolons", () => {
+    expect(parsePlanDays("John 1; Ps 1\n\n  Jn 2-3 \n")).toEqual({
+      days: [["John 1", "Ps 1"], ["Jn 2-3"]],
+    });
+  });
+
+  it("reports the first invalid line", () => {
+    expect(parsePlanDays("John 1\nlove one another\nJohn 3")).toEqual({ invalidLine: 2 });
+  });
+});
@@ -0,0 +1,242 @@
+import { findBook, getLocalizedBookName } from "../books";
+import { formatPassage, formatPassages, parseReference, passageIncludes } from "../references";
+
+describe("findBook", () => {
+  it("resolves full names, abbreviations and accents", () => {
+    expect(findBook("Genesis")).toBe("Genesis");
+    expect(findBook("gen")).toBe("Genesis");
+    expect(findBook("Gn.")).toBe("Genesis");
+    expect(findBook("Génesis")).toBe("Genesis");
+    expect(findBook("Jn")).toBe("John");
+    expect(findBook("Ps")).toBe("Psalms");
+    expect(findBook("Song of Songs")).toBe("Song of Solomon");
+    expect(findBook("Rev")).toBe("Revelation of John");
+    expect(findBook("Apocalipsis")).toBe("Revelation of John");
+  });
+
+  it("maps Arabic numerals, Roman numerals and ordinals to the table names", () => {
+    expect(findBook("1 Samuel")).toBe("I Samuel");
+    expect(findBook("I Samuel")).toBe("I Samuel");
+    expect(findBook("1st Samuel")).toBe("I Samuel");
+    expect(findBook("Second Kings")).toBe("II Kings");
+    expect(findBook("2 Kgs")).toBe("II Kings");
+    expect(findBook("1cor")).toBe("I Corinthians");
+    expect(findBook("III John")).toBe("III John");
+    expect(findBook("3 Jn")).toBe("III John");
+    expect(findBook("1 Mac")).toBe("I Maccabees");
+  });
+
+  it("resolves Spanish book names", () => {
+    expect(findBook("Juan")).toBe("John");
+    expect(findBook("1 Corintios")).toBe("I Corinthians");
+    expect(findBook("Salmos")).toBe("Psalms");
+    expect(findBook("Hechos")).toBe("Acts");
+    expect(findBook("Santiago")).toBe("James");
+    expect(findBook("2 Reyes")).toBe("II Kings");
+    expect(findBook("Primera de Corintios")).toBeNull();
+  });
+
+  it("returns null for unknown names", () => {
+    expect(findBook("Hezekiah")).toBeNull();
+    expect(findBook("")).toBeNull();
+  });
+});
+
+describe("parseReference", () => {
+  it("parses a whole book", () => {
+    expect(parseReference("Genesis")).toEqual([{ book: "Genesis" }]);
+    expect(parseReference("  romans ")).toEqual([{ book: "Romans" }]);
+  });
+
+  it("parses whole chapters and chapter ranges", () => {
+    expect(parseReference("1 Cor 13")).toEqual([
+      { book: "I Corinthians", startChapter: 13, endChapter: 13 },
+    ]);
+    expect(parseReference("Gen 1-3")).toEqual([
+      { book: "Genesis", startChapter: 1, endChapter: 3 },
+    ]);
+  });
+
+  it("parses single verses and verse ranges", () => {
+    expect(parseReference("John 3:16")).toEqual([
+      { book: "John", startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 16 },
+    ]);
+    expect(parseReference("Jn 3:16-18")).toEqual([
+      { book: "John", startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 18 },
+    ]);
+    expect(parseReference("Jn. 3.16")).toEqual([
+      { book: "John", startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 16 },
+    ]);
+    expect(parseReference("jn3:16")).toEqual([
+      { book: "John", startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 16 },
+    ]);
+  });
+
+  it("parses ranges across chapters", () => {
+    expect(parseReference("John 3:16-4:2")).toEqual([
+      { book: "John", startChapter: 3, startVerse: 16, endChapter: 4, endVerse: 2 },
+    ]);
+  });
+
+  it("accepts en and em dashes", () => {
+    expect(parseReference("Rom 12:1–2")).toEqual([
+      { book: "Romans", startChapter: 12, startVerse: 1, endChapter: 12, endVerse: 2 },
+    ]);
+    expect(parseReference("Gen 1—2")).toEqual([
+      { book: "Genesis", startChapter: 1, endChapter: 2 },
+    ]);
+  });
+
+  it("ignores verse part letters", () => {
+    expect(parseReference("Mk 1:15b")).toEqual([
+      { book: "Mark", startChapter: 1, startVerse: 15, endChapter: 1, endVerse: 15 },
+    ]);
+  });
+
+  it("keeps reading the old search box's 'Book chapter verse' form", () => {
+    expect(parseReference("Genesis 1 2")).toEqual([
+      { book: "Genesis", startChapter: 1, startVerse: 2, endChapter: 1, endVerse: 2 },
+    ]);
+  });
+
+  it("carries the book across a semicolon list", () => {
+    expect(parseReference("Rom 8:28; 12:1-2")).toEqual([
+      { book: "Romans", startChapter: 8, startVerse: 28, endChapter: 8, endVerse: 28 },
+      { book: "Romans", startChapter: 12, startVerse: 1, endChapter: 12, endVerse: 2 },
+    ]);
+  });
+
+  it("treats bare numbers after a semicolon as chapters", () => {
+    expect(parseReference("Rom 8:28; 12")).toEqual([
+      { book: "Romans", startChapter: 8, startVerse: 28, endChapter: 8, endVerse: 28 },
+      { book: "Romans", startChapter: 12, endChapter: 12 },
+    ]);
+  });
+
+  it("treats bare numbers after a comma as verses of the current chapter", () => {
+    expect(parseReference("Gen 1:1, 3, 5-7")).toEqual([
+      { book: "Genesis", startChapter: 1, startVerse: 1, endChapter: 1, endVerse: 1 },
+      { book: "Genesis", startChapter: 1, startVerse: 3, endChapter: 1, endVerse: 3 },
+      { book: "Genesis", startChapter: 1, startVerse: 5, endChapter: 1, endVerse: 7 },
+    ]);
+  });
+
+  it("treats comma-separated numbers without verses as chapters", () => {
+    expect(parseReference("Ps 23, 91")).toEqual([
+      { book: "Psalms", startChapter: 23, endChapter: 23 },
+      { book: "Psalms", startChapter: 91, endChapter: 91 },
+    ]);
+  });
+
+  it("switches books inside a list", () => {
+    expect(parseReference("Jn 3:16, 1 Jn 4:8; Rom 5:8")).toEqual([
+      { book: "John", startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 16 },
+      { book: "I John", startChapter: 4, startVerse: 8, endChapter: 4, endVerse: 8 },
+      { book: "Romans", startChapter: 5, startVerse: 8, endChapter: 5, endVerse: 8 },
+    ]);
+  });
+
+  it("reads numbers in one-chapter books as verses", () => {
+    expect(parseReference("Jude 5")).toEqual([
+      { book: "Jude", startChapter: 1, startVerse: 5, endChapter: 1, endVerse: 5 },
+    ]);
+    expect(parseReference("Philemon 4-6")).toEqual([
+      { book: "Philemon", startChapter: 1, startVerse: 4, endChapter: 1, endVerse: 6 },
+    ]);
+    expect(parseReference("3 John 1:4")).toEqual([
+      { book: "III John", startChapter: 1, startVerse: 4, endChapter: 1, endVerse: 4 },
+    ]);
+  });
+
+  it("parses Spanish references", () => {
+    expect(parseReference("Juan 3:16")).toEqual([
+      { book: "John", startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 16 },
+    ]);
+    expect(parseReference("1 Corintios 13:4-7")).toEqual([
+      { book: "I Corinthians", startChapter: 13, startVerse: 4, endChapter: 13, endVerse: 7 },
+    ]);
+    expect(parseReference("Éxodo 20")).toEqual([
+      { book: "Exodus", startChapter: 20, endChapter: 20 },
+    ]);
+  });
+
+  it("parses Roman numeral and ordinal book names", () => {
+    expect(parseReference("I Samuel 3")).toEqual([
+      { book: "I Samuel", startChapter: 3, endChapter: 3 },
+    ]);
+    expect(parseReference("2nd Timothy 3:16")).toEqual([
+      { book: "II Timothy", startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 16 },
+    ]);
+  });
+
+  it("does not confuse Isaiah with a sentence starting with 'is'", () => {
+    expect(parseReference("Is 53:5")).toEqual([
+      { book: "Isaiah", startChapter: 53, startVerse: 5, endChapter: 53, endVerse: 5 },
+    ]);
+    expect(parseReference("isn't it 5")).toEqual([]);
+  });
+
+  it("returns nothing for plain search text", () => {
+    expect(parseReference("love one another")).toEqual([]);
+    expect(parseReference("am I my brother's keeper")).toEqual([]);
+    expect(parseReference("")).toEqual([]);
+    expect(parseReference("3:16")).toEqual([]);
+  });
+
+  it("rejects backwards and zero ranges", () => {
+    expect(parseReference("Jn 3:18-16")).toEqual([]);
+    expect(parseReference("Gen 3-1")).toEqual([]);
+    expect(parseReference("Gen 0")).toEqual([]);
+    expect(parseReference("Gen 1:0")).toEqual([]);
+  });
+
+  it("rejects lists with empty items or stray text", () => {
+    expect(parseReference("Rom 8:28;; 12")).toEqual([]);
+    expect(parseReference("Rom 8:28; Hezekiah 3")).toEqual([]);
+    expect(parseReference("Rom 8:28;")).toHaveLength(1);
+  });
+});
+
+describe("formatPassage", () => {
+  it("round-trips the common shapes", () => {
+    const cases: [string, string][] = [
+      ["Genesis", "Genesis"],
+      ["1 cor 13", "I Corinthians 13"],
+      ["gen 1-3", "Genesis 1-3"],
+      ["jn 3:16", "John 3:16"],
+      ["jn 3:16-18", "John 3:16-18"],
+      ["jn 3:16-4:2", "John 3:16-4:2"],
+    ];
+    cases.forEach(([input, expected]) => {
+      expect(formatPassage(parseReference(input)[0])).toBe(expected);
+    });
+  });
+
+  it("formats in Spanish", () => {
+    expect(formatPassage(parseReference("1 Cor 13:4")[0], "es")).toBe("1 Corintios 13:4");
+    expect(getLocalizedBookName("Revelation of John", "es")).toBe("Apocalipsis");
+  });
+
+  it("joins lists", () => {
+    expect(formatPassages(parseReference("Rom 8:28; 12:1-2"))).toBe("Romans 8:28; Romans 12:1-2");
+  });
+});
+
+describe("passageIncludes", () => {
+  const [passage] = parseReference("John 3:16-4:2");
+
+  it("checks book, chapter and verse bounds", () => {
+    expect(passageIncludes(passage, "John", 3, 16)).toBe(true);
+    expect(passageIncludes(passage, "John", 3, 36)).toBe(true);
+    expect(passageIncludes(passage, "John", 4, 2)).toBe(true);
+    expect(passageIncludes(passage, "John", 3, 15)).toBe(false);
+    expect(passageIncludes(passage, "John", 4, 3)).toBe(false);
+    expect(passageIncludes(passage, "John", 5)).toBe(false);
+    expect(passageIncludes(passage, "Luke", 3, 16)).toBe(false);
+  });
+
+  it("treats chapters and whole books as fully included", () => {
+    expect(passageIncludes(passage, "John", 4)).toBe(true);
+    expect(passageIncludes({ book: "Jude" }, "Jude", 1, 25)).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+import { BibleVerse } from "@/types/bible";
+import { DEFAULT_SEARCH_FILTERS, getSearchBooks, rankVerses, splitHighlights } from "../search";
+
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+jest.mock("../offlinePacks", () => ({ getPackBooksVerses: jest.fn() }));
+
+const verse = (id: number, book: string, text: string): BibleVerse => ({
+  id,
+  book,
+  chapter: "1",
+  verse: String(id),
+  text,
+});
+
+const verses = [
+  verse(1, "John", "For God so loved the world, that he gave his only begotten Son"),
+  verse(2, "I John", "Beloved, let us love one another: for love is of God"),
+  verse(3, "Genesis", "In the beginning God created the heaven and the earth."),
+  verse(4, "Romans", "Owe no man any thing, but to love one another"),
+];
+
+describe("getSearchBooks", () => {
+  it("searches every book without filters", () => {
+    expect(getSearchBooks(DEFAULT_SEARCH_FILTERS)).toBeNull();
+  });
+
+  it("narrows by testament and category", () => {
+    const gospels = getSearchBooks({ ...DEFAULT_SEARCH_FILTERS, category: "gospels" });
+    expect(gospels).toEqual(["Matthew", "Mark", "Luke", "John", "Acts"]);
+
+    const oldTestament = getSearchBooks({ ...DEFAULT_SEARCH_FILTERS, testament: "old" })!;
+    expect(oldTestament).toContain("Genesis");
+    expect(oldTestament).toContain("Sirach");
+    expect(oldTestament).not.toContain("John");
+
+    expect(
+      getSearchBooks({ ...DEFAULT_SEARCH_FILTERS, testament: "new", category: "law" }),
+    ).toEqual([]);
+  });
+
+  it("lets a single book override the other filters", () => {
+    expect(getSearchBooks({ testament: "old", category: "law", book: "Romans" })).toEqual([
+      "Romans",
+    ]);
+  });
+});
+
+describe("rankVerses", () => {
+  it("requires every word in all-words mode", () => {
+    const hits = rankVerses(verses, "love another", "all");
+    expect(hits.map((h) => h.id).sort()).toEqual([2, 4]);
+  });
+
+  it("requires the words in order in phrase mode", () => {
+    expect(
+      rankVerses(verses, "one another", "phrase")
+        .map((h) => h.id)
+        .sort(),
+    ).toEqual([2, 4]);
+    expect(rankVerses(verses, "another one", "phrase")).toEqual([]);
+  });
+
+  it("ranks denser matches first and breaks ties by id", () => {
+    const hits = rankVerses(verses, "love", "all");
+    expect(hits[0].id).toBe(2);
+    expect(hits.map((h) => h.id)).toEqual([2, 4, 1]);
+  });
+
+  it("ignores case, accents and punctuation in the query", () => {
+    expect(
+      rankVerses(verses, "GÓD!", "all")
+        .map((h) => h.id)
+        .sort(),
+    ).toEqual([1, 2, 3]);
+    expect(rankVerses(verses, "  ", "all")).toEqual([]);
+  });
+
+  it("highlights the matches", () => {
+    const [hit] = rankVerses([verses[3]], "one another", "phrase");
+    expect(hit.snippet).toBe("Owe no man any thing, but to love [[one]] [[another]]");
+  });
+
+  it("finds words in alphabets other than Latin", () => {
+    const russian = [verse(1, "John", "Ибо так возлюбил Бог мир"), verse(2, "John", "Богатство")];
+    const hits = rankVerses(russian, "бог", "phrase");
+    expect(hits.map((h) => h.id)).toEqual([1]);
+    expect(hits[0].snippet).toBe("Ибо так возлюбил [[Бог]] мир");
+  });
+
+  it("finds text in scripts written without spaces", () => {
+    const japanese = verse(1, "Genesis", "はじめに神は天と地とを創造された。");
+    const thai = verse(2, "Genesis", "ในปฐมกาลพระเจ้าทรงเนรมิตสร้างฟ้าและแผ่นดินโลก");
+
+    const [japaneseHit] = rankVerses([japanese, thai], "神は", "all");
+    expect(japaneseHit.id).toBe(1);
+    expect(japaneseHit.snippet).toBe("はじめに[[神は]]天と地とを創造された。");
+
+    const thaiHits = rankVerses([japanese, thai], "พระเจ้า", "phrase");
+    expect(thaiHits.map((h) => h.id)).toEqual([2]);
+    expect(thaiHits[0].snippet).toBe("ในปฐมกาล[[พระเจ้า]]ทรงเนรมิตสร้างฟ้าและแผ่นดินโลก");
+
+    expect(rankVerses([japanese, thai], "創造された", "all").map((h) => h.id)).toEqual([1]);
+  });
+});
+
+describe("splitHighlights", () => {
+  it("splits a snippet into plain and highlighted segments", () => {
+    expect(splitHighlights("For [[God]] so [[loved]]")).toEqual([
+      { text: "For ", highlighted: false },
+      { text: "God", highlighted: true },
+      { text: " so ", highlighted: false },
+      { text: "loved", highlighted: true },
+    ]);
+    expect(splitHighlights("plain")).toEqual([{ text: "plain", highlighted: false }]);
+  });
+});
@@ -0,0 +1,37 @@
+import { getCardTemplates, layoutCardText, wrapText } from "../verseCards";
+
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+jest.mock("expo-file-system", () => ({ cacheDirectory: "file:///cache/" }));
+jest.mock("expo-media-library", () => ({}));
+jest.mock("expo-sharing", () => ({}));
+
+describe("getCardTemplates", () => {
+  it("accents each reader theme with the book color and adds a book-colored card", () => {
+    const templates = getCardTemplates({ paper: "#6A478F", sepia: "#7A503E", night: "#8F8CB3" });
+    expect(templates.map((t) => t.id)).toEqual(["paper", "sepia", "night", "book"]);
+    expect(templates[2]).toMatchObject({ background: "#262626", accentColor: "#8F8CB3" });
+    expect(templates[3]).toMatchObject({ background: "#6A478F", textColor: "#FFFFFF" });
+  });
+});
+
+describe("card text layout", () => {
+  it("wraps at spaces without exceeding the line length", () => {
+    expect(wrapText("For God so loved the world", 12)).toEqual([
+      "For God so",
+      "loved the",
+      "world",
+    ]);
+  });
+
+  it("uses large type for short verses and smaller type for long passages", () => {
+    const short = layoutCardText("Jesus wept.");
+    const long = layoutCardText("In the beginning was the Word. ".repeat(12));
+    expect(short.fontSize).toBe(64);
+    expect(long.fontSize).toBeLessThan(short.fontSize);
+  });
+
+  it("cuts passages that cannot fit with an ellipsis", () => {
+    const { lines } = layoutCardText("word ".repeat(2000));
+    expect(lines[lines.length - 1].endsWith("…")).toBe(true);
+  });
+});
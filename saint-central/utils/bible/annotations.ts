@@ -0,0 +1,429 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import { supabase } from "../../supabaseClient";
+import { Annotation, AnnotationField } from "@/types/bible";
+import { formatPassage } from "./references";
+
+// Storage keys
+const ANNOTATIONS_KEY = "bibleAppAnnotations";
+const LEGACY_FAVORITES_KEY = "bibleAppFavorites";
+const LEGACY_MIGRATED_KEY = "bibleAppFavoritesMigrated";
+
+export const HIGHLIGHT_COLORS: { name: string; value: string }[] = [
+  { name: "Yellow", value: "#F9D66B" },
+  { name: "Green", value: "#8BD3A4" },
+  { name: "Blue", value: "#8EC5F2" },
+  { name: "Pink", value: "#F2A7C3" },
+  { name: "Orange", value: "#F5B971" },
+  { name: "Purple", value: "#C3A6E8" },
+];
+
+export type AnnotationGrouping = "tag" | "book" | "color" | "date";
+
+export interface AnnotationFilters {
+  tag: string | null;
+  color: string | null;
+  book: string | null;
+}
+
+export const DEFAULT_ANNOTATION_FILTERS: AnnotationFilters = {
+  tag: null,
+  color: null,
+  book: null,
+};
+
+export interface AnnotationChanges {
+  range?: [number, number];
+  color?: string | null;
+  note?: string;
+  tags?: string[];
+  deleted?: boolean;
+}
+
+/**
+ * Tags are compared without case or extra spaces, so "Hope" and " hope" are one tag
+ */
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, " ").toLowerCase();
+
+const liveTags = (tagClock: Annotation["tag_clock"]): string[] =>
+  Object.keys(tagClock)
+    .filter((tag) => tagClock[tag].added)
+    .sort();
+
+/**
+ * A new annotation on verses start..end of a chapter (0..0 bookmarks the chapter)
+ */
+export function createAnnotation(
+  fields: {
+    book: string;
+    chapter: number;
+    startVerse: number;
+    endVerse: number;
+    bibleVersion: string;
+    color?: string | null;
+    note?: string;
+    tags?: string[];
+  },
+  now: Date = new Date(),
+): Annotation {
+  const at = now.toISOString();
+  const tagClock: Annotation["tag_clock"] = {};
+  (fields.tags ?? []).map(normalizeTag).forEach((tag) => {
+    if (tag) tagClock[tag] = { added: true, at };
+  });
+
+  return {
+    id: Crypto.randomUUID(),
+    book: fields.book,
+    chapter: fields.chapter,
+    start_verse: Math.min(fields.startVerse, fields.endVerse),
+    end_verse: Math.max(fields.startVerse, fields.endVerse),
+    bible_version: fields.bibleVersion,
+    color: fields.color ?? null,
+    tags: liveTags(tagClock),
+    note: fields.note ?? "",
+    deleted: false,
+    created_at: at,
+    updated_at: at,
+    field_clock: { range: at, color: at, note: at, deleted: at },
+    tag_clock: tagClock,
+  };
+}
+
+/**
+ * Apply an edit, stamping each changed field so it can be merged with edits from other devices
+ */
+export function editAnnotation(
+  annotation: Annotation,
+  changes: AnnotationChanges,
+  now: Date = new Date(),
+): Annotation {
+  const at = now.toISOString();
+  const next: Annotation = {
+    ...annotation,
+    field_clock: { ...annotation.field_clock },
+    tag_clock: { ...annotation.tag_clock },
+    updated_at: at,
+  };
+
+  if (changes.range) {
+    next.start_verse = Math.min(...changes.range);
+    next.end_verse = Math.max(...changes.range);
+    next.field_clock.range = at;
+  }
+  if (changes.color !== undefined) {
+    next.color = changes.color;
+    next.field_clock.color = at;
+  }
+  if (changes.note !== undefined) {
+    next.note = changes.note;
+    next.field_clock.note = at;
+  }
+  if (changes.deleted !== undefined) {
+    next.deleted = changes.deleted;
+    next.field_clock.deleted = at;
+  }
+  if (changes.tags) {
+    const wanted = new Set(changes.tags.map(normalizeTag).filter((tag) => tag.length > 0));
+    const current = new Set(annotation.tags);
+
+    wanted.forEach((tag) => {
+      if (!current.has(tag)) next.tag_clock[tag] = { added: true, at };
+    });
+    current.forEach((tag) => {
+      if (!wanted.has(tag)) next.tag_clock[tag] = { added: false, at };
+    });
+    next.tags = liveTags(next.tag_clock);
+  }
+
+  return next;
+}
+
+// Pick the later of two edits; ties go to the larger value so both devices agree
+function laterEdit<T>(a: { value: T; at: string }, b: { value: T; at: string }) {
+  if (a.at !== b.at) return a.at > b.at ? a : b;
+  return JSON.stringify(a.value) >= JSON.stringify(b.value) ? a : b;
+}
+
+const FIELD_VALUES: Record<AnnotationField, (a: Annotation) => Partial<Annotation>> = {
+  range: (a) => ({ start_verse: a.start_verse, end_verse: a.end_verse }),
+  color: (a) => ({ color: a.color }),
+  note: (a) => ({ note: a.note }),
+  deleted: (a) => ({ deleted: a.deleted }),
+};
+
+/**
+ * Merge two copies of the same annotation edited on different devices. Each field keeps its
+ * latest edit and tags added or removed on either side are combined, so the result is the
+ * same whichever copy is merged into which.
+ */
+export function mergeAnnotations(a: Annotation, b: Annotation): Annotation {
+  const merged: Annotation = {
+    ...a,
+    created_at: a.created_at < b.created_at ? a.created_at : b.created_at,
+    updated_at: a.updated_at > b.updated_at ? a.updated_at : b.updated_at,
+    field_clock: { ...a.field_clock },
+    tag_clock: {},
+  };
+
+  (Object.keys(FIELD_VALUES) as AnnotationField[]).forEach((field) => {
+    const winner = laterEdit(
+      { value: FIELD_VALUES[field](a), at: a.field_clock[field] },
+      { value: FIELD_VALUES[field](b), at: b.field_clock[field] },
+    );
+    Object.assign(merged, winner.value);
+    merged.field_clock[field] = winner.at;
+  });
+
+  const tags = new Set([...Object.keys(a.tag_clock), ...Object.keys(b.tag_clock)]);
+  tags.forEach((tag) => {
+    const left = a.tag_clock[tag];
+    const right = b.tag_clock[tag];
+    if (!left || !right) {
+      merged.tag_clock[tag] = left ?? right;
+      return;
+    }
+    const winner = laterEdit(
+      { value: left.added, at: left.at },
+      { value: right.added, at: right.at },
+    );
+    merged.tag_clock[tag] = { added: winner.value, at: winner.at };
+  });
+  merged.tags = liveTags(merged.tag_clock);
+
+  return merged;
+}
+
+// Whether merging in b changes nothing about a
+const alreadyHas = (a: Annotation, b: Annotation): boolean =>
+  JSON.stringify(mergeAnnotations(a, b)) === JSON.stringify(mergeAnnotations(a, a));
+
+/**
+ * Merge the local and server copies of every annotation.
+ * Returns the merged list and the annotations the server is missing or has out of date.
+ */
+export function mergeAnnotationLists(
+  local: Annotation[],
+  remote: Annotation[],
+): { merged: Annotation[]; toUpload: Annotation[] } {
+  const remoteById = new Map(remote.map((annotation) => [annotation.id, annotation]));
+  const mergedById = new Map(remoteById);
+  const toUpload: Annotation[] = [];
+
+  local.forEach((annotation) => {
+    const server = remoteById.get(annotation.id);
+    if (!server) {
+      mergedById.set(annotation.id, annotation);
+      toUpload.push(annotation);
+      return;
+    }
+
+    const merged = mergeAnnotations(annotation, server);
+    mergedById.set(annotation.id, merged);
+    if (!alreadyHas(server, merged)) toUpload.push(merged);
+  });
+
+  return { merged: Array.from(mergedById.values()), toUpload };
+}
+
+// ---------------------
+// QUERIES
+// ---------------------
+
+/**
+ * Whether an annotation covers a verse (chapter bookmarks cover none)
+ */
+export const annotationCovers = (
+  annotation: Annotation,
+  book: string,
+  chapter: number,
+  verse: number,
+): boolean =>
+  !annotation.deleted &&
+  annotation.book === book &&
+  annotation.chapter === chapter &&
+  annotation.start_verse > 0 &&
+  verse >= annotation.start_verse &&
+  verse <= annotation.end_verse;
+
+/**
+ * Display reference for an annotation, e.g. "John 3:16-18" or "John 3"
+ */
+export const formatAnnotationReference = (
+  annotation: Pick<Annotation, "book" | "chapter" | "start_verse" | "end_verse">,
+): string =>
+  annotation.start_verse === 0
+    ? formatPassage({ book: annotation.book, startChapter: annotation.chapter })
+    : formatPassage({
+        book: annotation.book,
+        startChapter: annotation.chapter,
+        startVerse: annotation.start_verse,
+        endChapter: annotation.chapter,
+        endVerse: annotation.end_verse,
+      });
+
+/**
+ * Every tag in use, most used first
+ */
+export function getAllTags(annotations: Annotation[]): string[] {
+  const counts = new Map<string, number>();
+  annotations
+    .filter((a) => !a.deleted)
+    .forEach((a) => a.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+
+  return Array.from(counts.keys()).sort(
+    (a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b),
+  );
+}
+
+/**
+ * Live annotations matching every filter that is set, newest first
+ */
+export const filterAnnotations = (
+  annotations: Annotation[],
+  filters: AnnotationFilters,
+): Annotation[] =>
+  annotations
+    .filter(
+      (a) =>
+        !a.deleted &&
+        (!filters.tag || a.tags.includes(filters.tag)) &&
+        (!filters.color || a.color === filters.color) &&
+        (!filters.book || a.book === filters.book),
+    )
+    .sort((a, b) => (a.created_at < b.created_at ? 1 : -1));
+
+/**
+ * Group annotations for the notebook. An annotation with several tags appears under each.
+ */
+export function groupAnnotations(
+  annotations: Annotation[],
+  grouping: AnnotationGrouping,
+): Record<string, Annotation[]> {
+  const grouped: Record<string, Annotation[]> = {};
+  const add = (key: string, annotation: Annotation) => {
+    if (!grouped[key]) grouped[key] = [];
+    grouped[key].push(annotation);
+  };
+
+  annotations.forEach((annotation) => {
+    switch (grouping) {
+      case "tag":
+        if (annotation.tags.length === 0) add("Untagged", annotation);
+        annotation.tags.forEach((tag) => add(`#${tag}`, annotation));
+        break;
+      case "color":
+        add(
+          HIGHLIGHT_COLORS.find((c) => c.value === annotation.color)?.name ??
+            (annotation.start_verse === 0 ? "Chapter Bookmarks" : "No Highlight"),
+          annotation,
+        );
+        break;
+      case "date": {
+        const date = new Date(annotation.created_at);
+        add(
+          `${date.toLocaleString("default", { month: "long" })} ${date.getFullYear()}`,
+          annotation,
+        );
+        break;
+      }
+      case "book":
+      default:
+        add(annotation.book, annotation);
+    }
+  });
+
+  return grouped;
+}
+
+// ---------------------
+// STORAGE & SYNC
+// ---------------------
+
+/**
+ * Annotations saved on this device, including deletions not yet synced
+ */
+export async function loadLocalAnnotations(): Promise<Annotation[]> {
+  try {
+    const stored = await AsyncStorage.getItem(ANNOTATIONS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error loading annotations from storage:", error);
+    return [];
+  }
+}
+
+export async function saveLocalAnnotations(annotations: Annotation[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(ANNOTATIONS_KEY, JSON.stringify(annotations));
+  } catch (error) {
+    console.error("Error saving annotations to storage:", error);
+  }
+}
+
+/**
+ * Convert bookmarks kept by the old favorites screen that never reached the server.
+ * Favorites that were saved online are converted by the database migration instead.
+ */
+export async function migrateLegacyFavorites(bibleVersion: string): Promise<Annotation[]> {
+  try {
+    if (await AsyncStorage.getItem(LEGACY_MIGRATED_KEY)) return [];
+
+    const stored = await AsyncStorage.getItem(LEGACY_FAVORITES_KEY);
+    const favorites: any[] = stored ? JSON.parse(stored) : [];
+
+    const converted = favorites
+      .filter((fav) => !fav.id && fav.book && fav.chapter)
+      .map((fav) =>
+        createAnnotation(
+          {
+            book: fav.book,
+            chapter: parseInt(fav.chapter),
+            startVerse: parseInt(fav.verse) || 0,
+            endVerse: parseInt(fav.verse) || 0,
+            bibleVersion,
+            color: fav.color ?? null,
+            note: fav.note ?? "",
+          },
+          fav.dateAdded ? new Date(fav.dateAdded) : new Date(),
+        ),
+      );
+
+    await AsyncStorage.setItem(LEGACY_MIGRATED_KEY, "true");
+    return converted;
+  } catch (error) {
+    console.error("Error migrating favorites:", error);
+    return [];
+  }
+}
+
+/**
+ * Merge this device's annotations with the server's copy and upload whatever the server
+ * is missing. Returns the merged list; saving it locally is left to the caller, which
+ * may have newer edits to merge in first.
+ */
+export async function syncAnnotations(userId: string, local: Annotation[]): Promise<Annotation[]> {
+  const { data, error } = await supabase.from("annotations").select("*").eq("user_id", userId);
+
+  if (error) throw error;
+
+  // Postgres returns timestamps as "+00:00"; use the app's ISO format so copies compare equal
+  const remote = (data || []).map(
+    ({ user_id, ...annotation }): Annotation => ({
+      ...(annotation as Annotation),
+      created_at: new Date(annotation.created_at).toISOString(),
+      updated_at: new Date(annotation.updated_at).toISOString(),
+    }),
+  );
+  const { merged, toUpload } = mergeAnnotationLists(local, remote);
+
+  if (toUpload.length > 0) {
+    const { error: upsertError } = await supabase
+      .from("annotations")
+      .upsert(toUpload.map((annotation) => ({ ...annotation, user_id: userId })));
+
+    if (upsertError) throw upsertError;
+  }
+
+  return merged;
+}
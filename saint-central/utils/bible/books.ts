@@ -0,0 +1,388 @@
+// Book names and abbreviations used to recognise scripture references.
+// Canonical names match the `book` column of the per-version Bible tables.
+
+export type BookLocale = "en" | "es";
+
+export interface BookNameInfo {
+  // Name as stored in the Bible tables, e.g. "I Corinthians"
+  name: string;
+  // Display names per locale
+  names: Record<BookLocale, string>;
+  // Lowercase abbreviations and alternate names, without any leading number
+  aliases: string[];
+  // Numbered books ("I Samuel", "II Kings", ...) share a base alias list
+  number?: 1 | 2 | 3;
+}
+
+const unnumbered = (name: string, es: string, aliases: string[]): BookNameInfo => ({
+  name,
+  names: { en: name, es },
+  aliases: [name.toLowerCase(), es.toLowerCase(), ...aliases],
+});
+
+const numbered = (
+  number: 1 | 2 | 3,
+  base: string,
+  esBase: string,
+  aliases: string[],
+): BookNameInfo => {
+  const roman = ["I", "II", "III"][number - 1];
+  return {
+    name: `${roman} ${base}`,
+    names: { en: `${roman} ${base}`, es: `${number} ${esBase}` },
+    aliases: [base.toLowerCase(), esBase.toLowerCase(), ...aliases],
+    number,
+  };
+};
+
+const SAMUEL = ["sam", "sa", "sm", "s"];
+const KINGS = ["kgs", "kg", "ki", "kin", "rey", "re", "r"];
+const CHRONICLES = ["chron", "chr", "ch", "cron", "cro", "cr", "paralipomenon", "par"];
+const MACCABEES = ["macc", "mac", "mc", "mach"];
+const CORINTHIANS = ["cor", "co"];
+const THESSALONIANS = ["thess", "thes", "th", "tes", "ts"];
+const TIMOTHY = ["tim", "tm", "ti"];
+const PETER = ["pet", "pt", "pe", "ped"];
+const JOHN_LETTERS = ["jn", "jhn", "joh", "jo"];
+
+export const OLD_TESTAMENT_BOOKS: BookNameInfo[] = [
+  unnumbered("Genesis", "Génesis", ["gen", "ge", "gn"]),
+  unnumbered("Exodus", "Éxodo", ["exod", "exo", "ex"]),
+  unnumbered("Leviticus", "Levítico", ["lev", "le", "lv"]),
+  unnumbered("Numbers", "Números", ["num", "nu", "nm", "nb"]),
+  unnumbered("Deuteronomy", "Deuteronomio", ["deut", "deu", "de", "dt"]),
+  unnumbered("Joshua", "Josué", ["josh", "jos", "jsh"]),
+  unnumbered("Judges", "Jueces", ["judg", "jdg", "jg", "jue"]),
+  unnumbered("Ruth", "Rut", ["ru", "rt"]),
+  numbered(1, "Samuel", "Samuel", SAMUEL),
+  numbered(2, "Samuel", "Samuel", SAMUEL),
+  numbered(1, "Kings", "Reyes", KINGS),
+  numbered(2, "Kings", "Reyes", KINGS),
+  numbered(1, "Chronicles", "Crónicas", CHRONICLES),
+  numbered(2, "Chronicles", "Crónicas", CHRONICLES),
+  unnumbered("Ezra", "Esdras", ["ezr", "esd"]),
+  unnumbered("Nehemiah", "Nehemías", ["neh", "ne"]),
+  unnumbered("Esther", "Ester", ["esth", "est", "es"]),
+  unnumbered("Job", "Job", ["jb"]),
+  unnumbered("Psalms", "Salmos", ["psalm", "psa", "pss", "ps", "psm", "salmo", "sal"]),
+  unnumbered("Proverbs", "Proverbios", ["prov", "prv", "pro", "pr"]),
+  unnumbered("Ecclesiastes", "Eclesiastés", [
+    "eccles",
+    "eccl",
+    "ecc",
+    "qoh",
+    "qoheleth",
+    "ecl",
+    "ec",
+  ]),
+  unnumbered("Song of Solomon", "Cantares", [
+    "song of songs",
+    "song",
+    "sos",
+    "canticle of canticles",
+    "canticles",
+    "cant",
+    "cnt",
+    "cantar de los cantares",
+  ]),
+  unnumbered("Isaiah", "Isaías", ["isa", "is"]),
+  unnumbered("Jeremiah", "Jeremías", ["jer", "je", "jr"]),
+  unnumbered("Lamentations", "Lamentaciones", ["lam", "la", "lm"]),
+  unnumbered("Ezekiel", "Ezequiel", ["ezek", "eze", "ezk", "ez"]),
+  unnumbered("Daniel", "Daniel", ["dan", "da", "dn"]),
+  unnumbered("Hosea", "Oseas", ["hos", "ho", "os"]),
+  unnumbered("Joel", "Joel", ["jl"]),
+  unnumbered("Amos", "Amós", ["am"]),
+  unnumbered("Obadiah", "Abdías", ["obad", "ob", "abd"]),
+  unnumbered("Jonah", "Jonás", ["jon", "jnh"]),
+  unnumbered("Micah", "Miqueas", ["mic", "mi", "miq"]),
+  unnumbered("Nahum", "Nahúm", ["nah", "na"]),
+  unnumbered("Habakkuk", "Habacuc", ["hab", "hb"]),
+  unnumbered("Zephaniah", "Sofonías", ["zeph", "zep", "zp", "sof"]),
+  unnumbered("Haggai", "Hageo", ["hag", "hg", "ag"]),
+  unnumbered("Zechariah", "Zacarías", ["zech", "zec", "zc", "zac"]),
+  unnumbered("Malachi", "Malaquías", ["mal", "ml"]),
+];
+
+export const DEUTEROCANONICAL_BOOKS: BookNameInfo[] = [
+  unnumbered("Tobit", "Tobías", ["tob", "tb"]),
+  unnumbered("Judith", "Judit", ["jdt", "jdth"]),
+  unnumbered("Wisdom", "Sabiduría", ["wisdom of solomon", "wis", "ws", "sab", "sb"]),
+  unnumbered("Sirach", "Eclesiástico", ["ecclesiasticus", "ecclus", "sir", "eclo"]),
+  unnumbered("Baruch", "Baruc", ["bar", "ba"]),
+  numbered(1, "Maccabees", "Macabeos", MACCABEES),
+  numbered(2, "Maccabees", "Macabeos", MACCABEES),
+];
+
+export const NEW_TESTAMENT_BOOKS: BookNameInfo[] = [
+  unnumbered("Matthew", "Mateo", ["matt", "mat", "mt"]),
+  unnumbered("Mark", "Marcos", ["mrk", "mar", "mk", "mr", "mc"]),
+  unnumbered("Luke", "Lucas", ["luk", "lk", "lc"]),
+  unnumbered("John", "Juan", ["jhn", "joh", "jn"]),
+  unnumbered("Acts", "Hechos", ["acts of the apostles", "act", "ac", "hch", "hech"]),
+  unnumbered("Romans", "Romanos", ["rom", "ro", "rm"]),
+  numbered(1, "Corinthians", "Corintios", CORINTHIANS),
+  numbered(2, "Corinthians", "Corintios", CORINTHIANS),
+  unnumbered("Galatians", "Gálatas", ["gal", "ga"]),
+  unnumbered("Ephesians", "Efesios", ["eph", "ephes", "ef"]),
+  unnumbered("Philippians", "Filipenses", ["phil", "php", "pp", "fil", "flp"]),
+  unnumbered("Colossians", "Colosenses", ["col"]),
+  numbered(1, "Thessalonians", "Tesalonicenses", THESSALONIANS),
+  numbered(2, "Thessalonians", "Tesalonicenses", THESSALONIANS),
+  numbered(1, "Timothy", "Timoteo", TIMOTHY),
+  numbered(2, "Timothy", "Timoteo", TIMOTHY),
+  unnumbered("Titus", "Tito", ["tit", "tt"]),
+  unnumbered("Philemon", "Filemón", ["philem", "phlm", "phm", "flm"]),
+  unnumbered("Hebrews", "Hebreos", ["heb"]),
+  unnumbered("James", "Santiago", ["jas", "jm", "stg", "sant"]),
+  numbered(1, "Peter", "Pedro", PETER),
+  numbered(2, "Peter", "Pedro", PETER),
+  numbered(1, "John", "Juan", JOHN_LETTERS),
+  numbered(2, "John", "Juan", JOHN_LETTERS),
+  numbered(3, "John", "Juan", JOHN_LETTERS),
+  unnumbered("Jude", "Judas", ["jud", "jd"]),
+  unnumbered("Revelation of John", "Apocalipsis", [
+    "revelation",
+    "revelations",
+    "rev",
+    "re",
+    "rv",
+    "apocalypse",
+    "apoc",
+    "apo",
+    "ap",
+  ]),
+];
+
+export const ALL_BOOK_NAMES: BookNameInfo[] = [
+  ...OLD_TESTAMENT_BOOKS,
+  ...DEUTEROCANONICAL_BOOKS,
+  ...NEW_TESTAMENT_BOOKS,
+];
+
+// Books with a single chapter, where "Jude 5" means verse 5 rather than chapter 5
+export const SINGLE_CHAPTER_BOOKS = new Set(["Obadiah", "Philemon", "II John", "III John", "Jude"]);
+
+// Ways of writing the number in front of a numbered book
+const NUMBER_PREFIXES: Record<1 | 2 | 3, string[]> = {
+  1: ["1", "i", "1st", "first", "primera", "primero", "1a", "1o"],
+  2: ["2", "ii", "2nd", "second", "segunda", "segundo", "2a", "2o"],
+  3: ["3", "iii", "3rd", "third", "tercera", "tercero", "3a", "3o"],
+};
+
+/**
+ * Lowercase, strip accents and tidy whitespace so "Génesis" and "genesis" compare equal
+ */
+export const normalizeBookText = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+let aliasIndex: { alias: string; book: string }[] | null = null;
+
+/**
+ * Every recognised alias paired with its canonical book, longest first so that
+ * "song of songs" wins over "song" and "1 john" over "john".
+ */
+export function getBookAliasIndex(): { alias: string; book: string }[] {
+  if (aliasIndex) return aliasIndex;
+
+  const entries = new Map<string, string>();
+
+  ALL_BOOK_NAMES.forEach((info) => {
+    const aliases = info.aliases.map(normalizeBookText);
+
+    if (!info.number) {
+      aliases.forEach((alias) => {
+        if (!entries.has(alias)) entries.set(alias, info.name);
+      });
+      return;
+    }
+
+    NUMBER_PREFIXES[info.number].forEach((prefix) => {
+      aliases.forEach((alias) => {
+        entries.set(`${prefix} ${alias}`, info.name);
+        // "1cor" and "2sam" are common in notes and chat; only digits may be joined
+        if (/^\d/.test(prefix)) entries.set(`${prefix}${alias}`, info.name);
+      });
+    });
+  });
+
+  aliasIndex = Array.from(entries.entries())
+    .map(([alias, book]) => ({ alias, book }))
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+  return aliasIndex;
+}
+
+/**
+ * Resolve a book name or abbreviation ("Jn", "1 Cor", "Génesis") to its canonical name
+ */
+export function findBook(text: string): string | null {
+  const normalized = normalizeBookText(text).replace(/\.$/, "");
+  const match = getBookAliasIndex().find((entry) => entry.alias === normalized);
+  return match ? match.book : null;
+}
+
+/**
+ * Display name of a book in the given locale, falling back to the canonical name
+ */
+export function getLocalizedBookName(book: string, locale: BookLocale = "en"): string {
+  const info = ALL_BOOK_NAMES.find((b) => b.name === book);
+  return info ? info.names[locale] : book;
+}
+
+export type BookCategory = "law" | "history" | "wisdom" | "prophets" | "gospels" | "letters";
+
+export const BOOK_CATEGORIES: BookCategory[] = [
+  "law",
+  "history",
+  "wisdom",
+  "prophets",
+  "gospels",
+  "letters",
+];
+
+// Get book category
+export const getBookCategory = (book: string): BookCategory => {
+  const lawBooks = ["Genesis", "Exodus", "Leviticus", "Numbers", "Deuteronomy"];
+  const historyBooks = [
+    "Joshua",
+    "Judges",
+    "Ruth",
+    "I Samuel",
+    "II Samuel",
+    "I Kings",
+    "II Kings",
+    "I Chronicles",
+    "II Chronicles",
+    "Ezra",
+    "Nehemiah",
+    "Esther",
+    // Historical deuterocanonical books
+    "Tobit",
+    "Judith",
+    "1 Maccabees",
+    "2 Maccabees",
+    "Additions to Esther",
+  ];
+  const wisdomBooks = [
+    "Job",
+    "Psalms",
+    "Proverbs",
+    "Ecclesiastes",
+    "Song of Solomon",
+    // Wisdom deuterocanonical books
+    "Wisdom",
+    "Sirach",
+  ];
+  const prophetBooks = [
+    "Isaiah",
+    "Jeremiah",
+    "Lamentations",
+    "Ezekiel",
+    "Daniel",
+    "Hosea",
+    "Joel",
+    "Amos",
+    "Obadiah",
+    "Jonah",
+    "Micah",
+    "Nahum",
+    "Habakkuk",
+    "Zephaniah",
+    "Haggai",
+    "Zechariah",
+    "Malachi",
+    // Prophetic deuterocanonical books
+    "Baruch",
+  ];
+  const gospelsAndActs = ["Matthew", "Mark", "Luke", "John", "Acts"];
+
+  if (lawBooks.includes(book)) return "law";
+  if (historyBooks.includes(book)) return "history";
+  if (wisdomBooks.includes(book)) return "wisdom";
+  if (prophetBooks.includes(book)) return "prophets";
+  if (gospelsAndActs.includes(book)) return "gospels";
+  return "letters";
+};
+
+// Chapters per book, as divided in the KJV (Catholic books as in the CPDV)
+export const BOOK_CHAPTER_COUNTS: Record<string, number> = {
+  Genesis: 50,
+  Exodus: 40,
+  Leviticus: 27,
+  Numbers: 36,
+  Deuteronomy: 34,
+  Joshua: 24,
+  Judges: 21,
+  Ruth: 4,
+  "I Samuel": 31,
+  "II Samuel": 24,
+  "I Kings": 22,
+  "II Kings": 25,
+  "I Chronicles": 29,
+  "II Chronicles": 36,
+  Ezra: 10,
+  Nehemiah: 13,
+  Esther: 10,
+  Job: 42,
+  Psalms: 150,
+  Proverbs: 31,
+  Ecclesiastes: 12,
+  "Song of Solomon": 8,
+  Isaiah: 66,
+  Jeremiah: 52,
+  Lamentations: 5,
+  Ezekiel: 48,
+  Daniel: 12,
+  Hosea: 14,
+  Joel: 3,
+  Amos: 9,
+  Obadiah: 1,
+  Jonah: 4,
+  Micah: 7,
+  Nahum: 3,
+  Habakkuk: 3,
+  Zephaniah: 3,
+  Haggai: 2,
+  Zechariah: 14,
+  Malachi: 4,
+  Tobit: 14,
+  Judith: 16,
+  Wisdom: 19,
+  Sirach: 51,
+  Baruch: 6,
+  "I Maccabees": 16,
+  "II Maccabees": 15,
+  Matthew: 28,
+  Mark: 16,
+  Luke: 24,
+  John: 21,
+  Acts: 28,
+  Romans: 16,
+  "I Corinthians": 16,
+  "II Corinthians": 13,
+  Galatians: 6,
+  Ephesians: 6,
+  Philippians: 4,
+  Colossians: 4,
+  "I Thessalonians": 5,
+  "II Thessalonians": 3,
+  "I Timothy": 6,
+  "II Timothy": 4,
+  Titus: 3,
+  Philemon: 1,
+  Hebrews: 13,
+  James: 5,
+  "I Peter": 5,
+  "II Peter": 3,
+  "I John": 5,
+  "II John": 1,
+  "III John": 1,
+  Jude: 1,
+  "Revelation of John": 22,
+};
@@ -0,0 +1,275 @@
+import { supabase } from "../../supabaseClient";
+import { BibleVerse } from "@/types/bible";
+import { mapPassage } from "./canon";
+import { getPackVerses } from "./offlinePacks";
+import { Passage, formatPassage, parseReference, passageIncludes } from "./references";
+
+// parallel: the same event in another Gospel (or another history)
+// quotation: an Old Testament passage quoted in the New, or the verse quoting it
+// related: any other link from the cross_references table
+export type CrossReferenceKind = "parallel" | "quotation" | "related";
+
+export interface CrossReference {
+  kind: CrossReferenceKind;
+  // The verses in the open chapter that the link belongs to
+  from: Passage;
+  to: Passage;
+  // Readers' votes for the link (OpenBible.info); bundled links have none
+  votes: number;
+}
+
+// Links are stored with KJV chapter and verse numbers
+export const CROSS_REFERENCE_VERSION = "KJV_bible";
+
+export const CROSS_REFERENCE_KINDS: { kind: CrossReferenceKind; label: string }[] = [
+  { kind: "parallel", label: "Parallel Accounts" },
+  { kind: "quotation", label: "Quotations" },
+  { kind: "related", label: "Related Passages" },
+];
+
+// Related links below this many votes are mostly noise
+const MIN_RELATED_VOTES = 5;
+const MAX_RELATED_PER_VERSE = 15;
+
+// Accounts of the same event, grouped by pericope
+const GOSPEL_PARALLELS: string[][] = [
+  ["Matt 1:1-17", "Luke 3:23-38"],
+  ["Matt 1:18-25", "Luke 2:1-7"],
+  ["Matt 3:1-12", "Mark 1:1-8", "Luke 3:1-18", "John 1:19-28"],
+  ["Matt 3:13-17", "Mark 1:9-11", "Luke 3:21-22", "John 1:29-34"],
+  ["Matt 4:1-11", "Mark 1:12-13", "Luke 4:1-13"],
+  ["Matt 4:18-22", "Mark 1:16-20", "Luke 5:1-11"],
+  ["Matt 5:3-12", "Luke 6:20-23"],
+  ["Matt 6:9-13", "Luke 11:2-4"],
+  ["Matt 8:1-4", "Mark 1:40-45", "Luke 5:12-16"],
+  ["Matt 8:5-13", "Luke 7:1-10"],
+  ["Matt 8:23-27", "Mark 4:35-41", "Luke 8:22-25"],
+  ["Matt 8:28-34", "Mark 5:1-20", "Luke 8:26-39"],
+  ["Matt 9:1-8", "Mark 2:1-12", "Luke 5:17-26"],
+  ["Matt 9:9-13", "Mark 2:13-17", "Luke 5:27-32"],
+  ["Matt 9:18-26", "Mark 5:21-43", "Luke 8:40-56"],
+  ["Matt 10:1-15", "Mark 6:7-13", "Luke 9:1-6"],
+  ["Matt 12:1-8", "Mark 2:23-28", "Luke 6:1-5"],
+  ["Matt 13:1-23", "Mark 4:1-20", "Luke 8:4-15"],
+  ["Matt 13:31-32", "Mark 4:30-32", "Luke 13:18-19"],
+  ["Matt 14:1-12", "Mark 6:14-29", "Luke 9:7-9"],
+  ["Matt 14:13-21", "Mark 6:30-44", "Luke 9:10-17", "John 6:1-14"],
+  ["Matt 14:22-33", "Mark 6:45-52", "John 6:16-21"],
+  ["Matt 16:13-20", "Mark 8:27-30", "Luke 9:18-21"],
+  ["Matt 16:21-28", "Mark 8:31-9:1", "Luke 9:22-27"],
+  ["Matt 17:1-8", "Mark 9:2-8", "Luke 9:28-36"],
+  ["Matt 17:14-20", "Mark 9:14-29", "Luke 9:37-43"],
+  ["Matt 19:16-30", "Mark 10:17-31", "Luke 18:18-30"],
+  ["Matt 20:29-34", "Mark 10:46-52", "Luke 18:35-43"],
+  ["Matt 21:1-11", "Mark 11:1-11", "Luke 19:28-40", "John 12:12-19"],
+  ["Matt 21:12-17", "Mark 11:15-19", "Luke 19:45-48", "John 2:13-22"],
+  ["Matt 21:33-46", "Mark 12:1-12", "Luke 20:9-19"],
+  ["Matt 22:15-22", "Mark 12:13-17", "Luke 20:20-26"],
+  ["Matt 22:34-40", "Mark 12:28-34", "Luke 10:25-28"],
+  ["Matt 24:1-36", "Mark 13:1-37", "Luke 21:5-36"],
+  ["Matt 26:6-13", "Mark 14:3-9", "John 12:1-8"],
+  ["Matt 26:26-29", "Mark 14:22-25", "Luke 22:14-20", "1 Cor 11:23-26"],
+  ["Matt 26:36-46", "Mark 14:32-42", "Luke 22:39-46"],
+  ["Matt 26:47-56", "Mark 14:43-50", "Luke 22:47-53", "John 18:1-11"],
+  ["Matt 26:69-75", "Mark 14:66-72", "Luke 22:54-62", "John 18:15-27"],
+  ["Matt 27:11-26", "Mark 15:1-15", "Luke 23:1-25", "John 18:28-19:16"],
+  ["Matt 27:32-44", "Mark 15:21-32", "Luke 23:26-43", "John 19:17-27"],
+  ["Matt 27:45-56", "Mark 15:33-41", "Luke 23:44-49", "John 19:28-37"],
+  ["Matt 27:57-61", "Mark 15:42-47", "Luke 23:50-56", "John 19:38-42"],
+  ["Matt 28:1-10", "Mark 16:1-8", "Luke 24:1-12", "John 20:1-10"],
+  ["Matt 28:16-20", "Mark 16:14-18", "Luke 24:44-49"],
+];
+
+// New Testament passages and the Old Testament passages they quote
+const OLD_TESTAMENT_QUOTATIONS: [string, string][] = [
+  ["Matt 1:23", "Isa 7:14"],
+  ["Matt 2:6", "Mic 5:2"],
+  ["Matt 2:15", "Hos 11:1"],
+  ["Matt 2:18", "Jer 31:15"],
+  ["Matt 3:3", "Isa 40:3"],
+  ["Mark 1:2", "Mal 3:1"],
+  ["Mark 1:3", "Isa 40:3"],
+  ["Luke 3:4-6", "Isa 40:3-5"],
+  ["John 1:23", "Isa 40:3"],
+  ["Matt 4:4", "Deut 8:3"],
+  ["Matt 4:6", "Ps 91:11-12"],
+  ["Matt 4:7", "Deut 6:16"],
+  ["Matt 4:10", "Deut 6:13"],
+  ["Matt 4:15-16", "Isa 9:1-2"],
+  ["Luke 4:18-19", "Isa 61:1-2"],
+  ["Matt 8:17", "Isa 53:4"],
+  ["Matt 12:18-21", "Isa 42:1-4"],
+  ["Matt 13:14-15", "Isa 6:9-10"],
+  ["Matt 21:5", "Zech 9:9"],
+  ["John 12:15", "Zech 9:9"],
+  ["Matt 21:9", "Ps 118:26"],
+  ["Mark 11:9", "Ps 118:26"],
+  ["Matt 21:13", "Isa 56:7"],
+  ["Matt 21:13", "Jer 7:11"],
+  ["Matt 21:42", "Ps 118:22-23"],
+  ["Matt 22:37", "Deut 6:5"],
+  ["Matt 22:39", "Lev 19:18"],
+  ["Matt 22:44", "Ps 110:1"],
+  ["Matt 26:31", "Zech 13:7"],
+  ["Matt 27:46", "Ps 22:1"],
+  ["Mark 15:34", "Ps 22:1"],
+  ["Luke 23:46", "Ps 31:5"],
+  ["John 19:24", "Ps 22:18"],
+  ["John 19:36", "Exod 12:46"],
+  ["John 19:37", "Zech 12:10"],
+  ["Acts 2:17-21", "Joel 2:28-32"],
+  ["Acts 2:25-28", "Ps 16:8-11"],
+  ["Rom 1:17", "Hab 2:4"],
+  ["Heb 1:5", "Ps 2:7"],
+];
+
+let bundledLinks: CrossReference[] | null = null;
+
+// Expand the bundled tables into links in both directions, parsed once
+function getBundledLinks(): CrossReference[] {
+  if (bundledLinks) return bundledLinks;
+
+  const parse = (reference: string) => parseReference(reference)[0];
+  const links: CrossReference[] = [];
+
+  GOSPEL_PARALLELS.forEach((group) => {
+    const passages = group.map(parse);
+    passages.forEach((from) =>
+      passages
+        .filter((to) => to !== from)
+        .forEach((to) => links.push({ kind: "parallel", from, to, votes: 0 })),
+    );
+  });
+
+  OLD_TESTAMENT_QUOTATIONS.forEach(([quoting, quoted]) => {
+    const from = parse(quoting);
+    const to = parse(quoted);
+    links.push({ kind: "quotation", from, to, votes: 0 });
+    links.push({ kind: "quotation", from: to, to: from, votes: 0 });
+  });
+
+  bundledLinks = links;
+  return links;
+}
+
+const touchesChapter = (passage: Passage, book: string, chapter: number): boolean =>
+  passage.book === book &&
+  passage.startChapter !== undefined &&
+  chapter >= passage.startChapter &&
+  chapter <= (passage.endChapter ?? passage.startChapter);
+
+/**
+ * Bundled parallels and quotations for any verse of a chapter
+ */
+export const getBundledCrossReferences = (book: string, chapter: number): CrossReference[] =>
+  getBundledLinks().filter((link) => touchesChapter(link.from, book, chapter));
+
+/**
+ * Cross-references for a chapter from the cross_references table
+ */
+export async function fetchCrossReferences(
+  book: string,
+  chapter: number,
+): Promise<CrossReference[]> {
+  const { data, error } = await supabase
+    .from("cross_references")
+    .select(
+      "from_verse, to_book, to_start_chapter, to_start_verse, to_end_chapter, to_end_verse, kind, votes",
+    )
+    .eq("from_book", book)
+    .eq("from_chapter", chapter)
+    .or(`kind.neq.related,votes.gte.${MIN_RELATED_VOTES}`);
+
+  if (error) throw error;
+
+  return (data || []).map((row: any) => ({
+    kind: row.kind,
+    from: {
+      book,
+      startChapter: chapter,
+      startVerse: row.from_verse,
+      endChapter: chapter,
+      endVerse: row.from_verse,
+    },
+    to: {
+      book: row.to_book,
+      startChapter: row.to_start_chapter,
+      startVerse: row.to_start_verse,
+      endChapter: row.to_end_chapter,
+      endVerse: row.to_end_verse,
+    },
+    votes: row.votes,
+  }));
+}
+
+/**
+ * Every cross-reference for a chapter: the bundled links, plus the full dataset when
+ * it can be reached. Offline, the bundled parallels and quotations still show.
+ */
+export async function loadChapterCrossReferences(
+  book: string,
+  chapter: number,
+): Promise<CrossReference[]> {
+  const bundled = getBundledCrossReferences(book, chapter);
+  try {
+    return [...bundled, ...(await fetchCrossReferences(book, chapter))];
+  } catch (error) {
+    console.error("Error fetching cross-references:", error);
+    return bundled;
+  }
+}
+
+/**
+ * The links for one verse: parallels first, then quotations, then related passages by votes.
+ * A passage linked more than once is listed once, under its strongest kind.
+ */
+export function getVerseCrossReferences(
+  links: CrossReference[],
+  book: string,
+  chapter: number,
+  verse: number,
+): CrossReference[] {
+  const order = CROSS_REFERENCE_KINDS.map((k) => k.kind);
+  const seen = new Set<string>();
+  let related = 0;
+
+  return links
+    .filter((link) => passageIncludes(link.from, book, chapter, verse))
+    .sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind) || b.votes - a.votes)
+    .filter((link) => {
+      const key = formatPassage(link.to);
+      if (seen.has(key)) return false;
+      if (link.kind === "related" && ++related > MAX_RELATED_PER_VERSE) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * The text of a linked passage in a version, for previews. Passages running into a
+ * later chapter are previewed from their first chapter only.
+ */
+export async function loadPassagePreview(table: string, link: Passage): Promise<string> {
+  const passage = mapPassage(link, CROSS_REFERENCE_VERSION, table);
+  if (passage.startChapter === undefined) return "";
+
+  const chapter = passage.startChapter;
+  let verses = await getPackVerses(table, passage.book, String(chapter));
+
+  if (!verses) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq("book", passage.book)
+      .eq("chapter", String(chapter));
+
+    if (error) throw error;
+    verses = (data || []) as BibleVerse[];
+  }
+
+  return verses
+    .filter((v) => passageIncludes(passage, passage.book, chapter, parseInt(v.verse)))
+    .sort((a, b) => (parseInt(a.verse) || 0) - (parseInt(b.verse) || 0))
+    .map((v) => v.text.trim())
+    .join(" ");
+}
@@ -0,0 +1,235 @@
+import * as FileSystem from "expo-file-system";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "../../supabaseClient";
+import { BibleVerse, OfflinePackInfo } from "@/types/bible";
+
+// Storage keys
+const OFFLINE_PACKS_KEY = "bibleAppOfflinePacks";
+
+// Supabase caps a single select at 1000 rows, so packs are downloaded page by page
+const PAGE_SIZE = 1000;
+
+const PACKS_DIRECTORY = `${FileSystem.documentDirectory}bible-packs/`;
+
+// Parsed book files, so moving between chapters doesn't re-read the same JSON
+const bookCache = new Map<string, BibleVerse[]>();
+
+const getPackDirectory = (table: string): string => `${PACKS_DIRECTORY}${table}/`;
+
+// Where a pack is written while it downloads, so a failed download leaves any
+// installed copy untouched
+const getDownloadDirectory = (table: string): string => `${PACKS_DIRECTORY}.download-${table}/`;
+
+const getBookFile = (table: string, book: string, directory = getPackDirectory(table)): string =>
+  `${directory}${encodeURIComponent(book)}.json`;
+
+const sortByVerse = (a: BibleVerse, b: BibleVerse): number =>
+  (parseInt(a.chapter) || 0) - (parseInt(b.chapter) || 0) ||
+  (parseInt(a.verse) || 0) - (parseInt(b.verse) || 0);
+
+/**
+ * Get every pack installed on this device, keyed by version table
+ */
+export async function getInstalledPacks(): Promise<Record<string, OfflinePackInfo>> {
+  try {
+    const stored = await AsyncStorage.getItem(OFFLINE_PACKS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Error loading offline packs:", error);
+    return {};
+  }
+}
+
+async function savePackInfo(table: string, info: OfflinePackInfo | null): Promise<void> {
+  const packs = await getInstalledPacks();
+  if (info) {
+    packs[table] = info;
+  } else {
+    delete packs[table];
+  }
+  await AsyncStorage.setItem(OFFLINE_PACKS_KEY, JSON.stringify(packs));
+}
+
+/**
+ * Check whether a version has been downloaded
+ */
+export async function isPackInstalled(table: string): Promise<boolean> {
+  const packs = await getInstalledPacks();
+  return !!packs[table];
+}
+
+/**
+ * Download a whole Bible version table and store it on the device, one file per book.
+ * Progress is reported as a fraction between 0 and 1.
+ */
+export async function downloadPack(
+  table: string,
+  onProgress?: (progress: number) => void,
+): Promise<OfflinePackInfo> {
+  const directory = getPackDirectory(table);
+  const downloadDirectory = getDownloadDirectory(table);
+  // Set once the installed copy has been removed to make way for this one
+  let replacing = false;
+
+  try {
+    const { count, error: countError } = await supabase
+      .from(table)
+      .select("*", { count: "exact", head: true });
+
+    if (countError) throw countError;
+
+    const total = count ?? 0;
+    const byBook: Record<string, BibleVerse[]> = {};
+    let fetched = 0;
+
+    // Page through the table in a stable order until a short page comes back
+    while (true) {
+      const { data, error } = await supabase
+        .from(table)
+        .select("*")
+        .order("id", { ascending: true })
+        .range(fetched, fetched + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      const rows = (data || []) as BibleVerse[];
+      rows.forEach((row) => {
+        if (!row.book) return;
+        if (!byBook[row.book]) byBook[row.book] = [];
+        byBook[row.book].push({
+          id: row.id,
+          book: row.book,
+          chapter: String(row.chapter),
+          verse: String(row.verse),
+          text: row.text,
+        });
+      });
+
+      fetched += rows.length;
+      if (total > 0) onProgress?.(Math.min(fetched / total, 0.99));
+
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    await FileSystem.deleteAsync(downloadDirectory, { idempotent: true });
+    await FileSystem.makeDirectoryAsync(downloadDirectory, { intermediates: true });
+
+    const books: Record<string, string[]> = {};
+    let sizeBytes = 0;
+
+    for (const [book, verses] of Object.entries(byBook)) {
+      verses.sort(sortByVerse);
+      books[book] = Array.from(new Set(verses.map((v) => v.chapter)));
+
+      const contents = JSON.stringify(verses);
+      await FileSystem.writeAsStringAsync(getBookFile(table, book, downloadDirectory), contents);
+      sizeBytes += contents.length;
+    }
+
+    // Only now replace any previous copy of this pack
+    replacing = true;
+    await FileSystem.deleteAsync(directory, { idempotent: true });
+    await FileSystem.moveAsync({ from: downloadDirectory, to: directory });
+    Array.from(bookCache.keys())
+      .filter((key) => key.startsWith(`${table}/`))
+      .forEach((key) => bookCache.delete(key));
+
+    const info: OfflinePackInfo = {
+      table,
+      verseCount: fetched,
+      sizeBytes,
+      downloadedAt: new Date().toISOString(),
+      books,
+    };
+
+    await savePackInfo(table, info);
+    onProgress?.(1);
+
+    return info;
+  } catch (error) {
+    // Don't leave a half-written pack behind; an installed copy stays as it was
+    await FileSystem.deleteAsync(downloadDirectory, { idempotent: true }).catch(() => {});
+    // Unless it failed while swapping copies, which leaves nothing installed
+    if (replacing) await savePackInfo(table, null).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Remove a downloaded version from the device
+ */
+export async function deletePack(table: string): Promise<void> {
+  await FileSystem.deleteAsync(getPackDirectory(table), { idempotent: true });
+  await savePackInfo(table, null);
+
+  Array.from(bookCache.keys())
+    .filter((key) => key.startsWith(`${table}/`))
+    .forEach((key) => bookCache.delete(key));
+}
+
+async function readBook(table: string, book: string): Promise<BibleVerse[] | null> {
+  const cacheKey = `${table}/${book}`;
+  const cached = bookCache.get(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const file = getBookFile(table, book);
+    const info = await FileSystem.getInfoAsync(file);
+    if (!info.exists) return null;
+
+    const verses: BibleVerse[] = JSON.parse(await FileSystem.readAsStringAsync(file));
+    bookCache.set(cacheKey, verses);
+    return verses;
+  } catch (error) {
+    console.error("Error reading offline pack:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the verses of a chapter from the local pack, or null when the version isn't downloaded
+ */
+export async function getPackVerses(
+  table: string,
+  book: string,
+  chapter: string,
+): Promise<BibleVerse[] | null> {
+  if (!(await isPackInstalled(table))) return null;
+
+  const verses = await readBook(table, book);
+  if (!verses) return null;
+
+  return verses.filter((v) => v.chapter === String(chapter));
+}
+
+/**
+ * Get every verse of the given books (or the whole pack) from a downloaded version,
+ * or null when it isn't downloaded
+ */
+export async function getPackBooksVerses(
+  table: string,
+  books: string[] | null = null,
+): Promise<BibleVerse[] | null> {
+  const packs = await getInstalledPacks();
+  const pack = packs[table];
+  if (!pack) return null;
+
+  const results: BibleVerse[] = [];
+  for (const book of Object.keys(pack.books)) {
+    if (books && !books.includes(book)) continue;
+
+    const verses = await readBook(table, book);
+    if (verses) results.push(...verses);
+  }
+
+  return results;
+}
+
+/**
+ * Human readable size for a pack, e.g. "4.6 MB"
+ */
+export const formatPackSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,42 @@
+import { BibleVerse } from "@/types/bible";
+
+// The reader shows the selected version plus up to two others side by side
+export const MAX_PARALLEL_VERSIONS = 3;
+
+// One verse number across every version shown; null where a version has no such verse
+export interface ParallelRow {
+  verse: string;
+  cells: Record<string, BibleVerse | null>;
+}
+
+/**
+ * Line up the verses of several versions of the same chapter by verse number.
+ * Rows cover the union of verse numbers, so a verse missing from one version
+ * still gets a row with an empty cell for that version.
+ */
+export function alignParallelVerses(
+  versions: string[],
+  versesByVersion: Record<string, BibleVerse[]>,
+): ParallelRow[] {
+  const verseNumbers = new Set<string>();
+  const lookup: Record<string, Map<string, BibleVerse>> = {};
+
+  versions.forEach((version) => {
+    lookup[version] = new Map();
+    (versesByVersion[version] || []).forEach((verse) => {
+      const key = String(verse.verse);
+      verseNumbers.add(key);
+      lookup[version].set(key, verse);
+    });
+  });
+
+  return Array.from(verseNumbers)
+    .sort((a, b) => (parseInt(a) || 0) - (parseInt(b) || 0))
+    .map((verse) => {
+      const cells: Record<string, BibleVerse | null> = {};
+      versions.forEach((version) => {
+        cells[version] = lookup[version].get(verse) ?? null;
+      });
+      return { verse, cells };
+    });
+}
@@ -0,0 +1,88 @@
+import * as Speech from "expo-speech";
+import { BibleVerse } from "@/types/bible";
+
+// Speech language for each version table (BCP-47)
+export const VERSION_LANGUAGES: Record<string, string> = {
+  KJV_bible: "en-US",
+  ASV_bible: "en-US",
+  CPDV_bible: "en-US",
+  Alb_bible: "sq-AL",
+  Haitian_bible: "ht-HT",
+  JapBungo_bible: "ja-JP",
+  ThaiKJV_bible: "th-TH",
+  SpaRV_bible: "es-ES",
+};
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5];
+
+// Sleep timer choices in minutes (0 turns the timer off)
+export const SLEEP_TIMER_OPTIONS = [0, 15, 30, 60];
+
+/**
+ * Language to read a version in, falling back to English
+ */
+export const getSpeechLanguage = (versionTable: string): string =>
+  VERSION_LANGUAGES[versionTable] ?? "en-US";
+
+/**
+ * Pick the best installed voice for a language, if the device has one.
+ * Enhanced voices are preferred; an exact locale beats the same language elsewhere.
+ */
+export function pickVoice(voices: Speech.Voice[], language: string): string | undefined {
+  const base = language.split("-")[0].toLowerCase();
+  const score = (voice: Speech.Voice) =>
+    (voice.language.toLowerCase() === language.toLowerCase() ? 2 : 0) +
+    (voice.quality === Speech.VoiceQuality.Enhanced ? 1 : 0);
+
+  return voices
+    .filter((voice) => voice.language.toLowerCase().split(/[-_]/)[0] === base)
+    .sort((a, b) => score(b) - score(a))[0]?.identifier;
+}
+
+/**
+ * Verse text as it should be spoken: no paragraph marks, brackets or repeated spaces
+ */
+export const prepareVerseText = (text: string): string =>
+  text
+    .replace(/[¶[\]{}<>]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Split text that is longer than the engine accepts, preferring sentence and clause breaks
+ */
+export function splitForSpeech(
+  text: string,
+  maxLength: number = Speech.maxSpeechInputLength,
+): string[] {
+  if (text.length <= maxLength) return [text];
+
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength);
+    const breakAt =
+      [". ", "; ", ", ", " "].map((sep) => window.lastIndexOf(sep)).find((i) => i > 0) ?? -1;
+    const cut = breakAt > 0 ? breakAt + 1 : maxLength;
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Index of the verse to start reading from, or the first verse if it isn't in the chapter
+ */
+export const findVerseIndex = (verses: BibleVerse[], verse: string | null): number =>
+  Math.max(
+    0,
+    verses.findIndex((v) => v.verse === verse),
+  );
+
+/**
+ * The next value in a list of options, wrapping around
+ */
+export function cycleOption<T>(options: T[], current: T): T {
+  return options[(options.indexOf(current) + 1) % options.length];
+}
@@ -0,0 +1,42 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { toDateKey } from "../liturgy/calendar";
+
+// Storage keys
+const READING_LOG_KEY = "bibleAppReadingLog";
+
+// A chapter opened on a day. Recently read only keeps the last five chapters,
+// so the statistics screen counts from this log.
+export interface ChapterRead {
+  book: string;
+  chapter: string;
+  // "YYYY-MM-DD"
+  date: string;
+}
+
+export async function loadReadingLog(): Promise<ChapterRead[]> {
+  try {
+    const saved = await AsyncStorage.getItem(READING_LOG_KEY);
+    return saved ? (JSON.parse(saved) as ChapterRead[]) : [];
+  } catch (error) {
+    console.error("Error loading reading log:", error);
+    return [];
+  }
+}
+
+/**
+ * Log a chapter as read today, once per day
+ */
+export async function logChapterRead(book: string, chapter: string): Promise<void> {
+  try {
+    const log = await loadReadingLog();
+    const date = toDateKey(new Date());
+    if (
+      log.some((entry) => entry.book === book && entry.chapter === chapter && entry.date === date)
+    ) {
+      return;
+    }
+    await AsyncStorage.setItem(READING_LOG_KEY, JSON.stringify([...log, { book, chapter, date }]));
+  } catch (error) {
+    console.error("Error saving reading log:", error);
+  }
+}
@@ -0,0 +1,500 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import { supabase } from "../../supabaseClient";
+import { scheduleLocalNotification } from "../notifications";
+import { GroupReadingPlan, ReadingPlan, ReadingPlanEnrollment } from "@/types/bible";
+import {
+  BOOK_CHAPTER_COUNTS,
+  NEW_TESTAMENT_BOOKS,
+  OLD_TESTAMENT_BOOKS,
+  SINGLE_CHAPTER_BOOKS,
+} from "./books";
+import { parseReference, passageIncludes } from "./references";
+import { daysBetween, fromDateKey, toDateKey } from "../liturgy/calendar";
+
+// Storage keys
+const PLAN_REMINDERS_KEY = "bibleAppPlanReminders";
+
+// Missed days are spread over this many days when catching up
+export const CATCH_UP_DAYS = 7;
+
+// ---------------------
+// BUILT-IN PLANS
+// ---------------------
+
+// Join consecutive chapters of one book into a reference, e.g. "Genesis 1-3"
+const formatChapterRun = (book: string, first: number, last: number): string => {
+  if (SINGLE_CHAPTER_BOOKS.has(book)) return book;
+  return first === last ? `${book} ${first}` : `${book} ${first}-${last}`;
+};
+
+/**
+ * Spread every chapter of the given books as evenly as possible over a number of days
+ */
+export function generatePlanDays(books: string[], dayCount: number): string[][] {
+  const chapters = books.flatMap((book) =>
+    Array.from({ length: BOOK_CHAPTER_COUNTS[book] ?? 0 }, (_, i) => ({ book, chapter: i + 1 })),
+  );
+
+  return Array.from({ length: dayCount }, (_, day) => {
+    const start = Math.floor((day * chapters.length) / dayCount);
+    const end = Math.floor(((day + 1) * chapters.length) / dayCount);
+    const references: string[] = [];
+
+    let runStart = start;
+    for (let i = start; i < end; i++) {
+      const isRunEnd = i === end - 1 || chapters[i + 1].book !== chapters[i].book;
+      if (isRunEnd) {
+        references.push(
+          formatChapterRun(chapters[i].book, chapters[runStart].chapter, chapters[i].chapter),
+        );
+        runStart = i + 1;
+      }
+    }
+    return references;
+  }).filter((references) => references.length > 0);
+}
+
+const builtinPlan = (
+  id: string,
+  title: string,
+  description: string,
+  books: string[],
+  dayCount: number,
+): ReadingPlan => ({
+  id: `builtin-${id}`,
+  title,
+  description,
+  days: generatePlanDays(books, dayCount),
+  church_id: null,
+  created_by: null,
+  builtin: true,
+});
+
+const oldTestamentNames = OLD_TESTAMENT_BOOKS.map((b) => b.name);
+const newTestamentNames = NEW_TESTAMENT_BOOKS.map((b) => b.name);
+
+export const BUILT_IN_PLANS: ReadingPlan[] = [
+  builtinPlan(
+    "bible-in-a-year",
+    "Bible in a Year",
+    "Read the whole Bible, Genesis to Revelation, in 365 days.",
+    [...oldTestamentNames, ...newTestamentNames],
+    365,
+  ),
+  builtinPlan(
+    "gospels-30",
+    "Gospels in 30 Days",
+    "Walk with Jesus through Matthew, Mark, Luke and John in a month.",
+    ["Matthew", "Mark", "Luke", "John"],
+    30,
+  ),
+  builtinPlan(
+    "new-testament-90",
+    "New Testament in 90 Days",
+    "The Gospels, Acts, the letters and Revelation in three months.",
+    newTestamentNames,
+    90,
+  ),
+  builtinPlan(
+    "psalms-30",
+    "Psalms in 30 Days",
+    "Pray through all 150 psalms in a month.",
+    ["Psalms"],
+    30,
+  ),
+];
+
+// ---------------------
+// SCHEDULE & CATCH-UP
+// ---------------------
+
+/**
+ * The plan day scheduled for a date: 0 before the plan starts, capped at the last day
+ */
+export function getScheduledDay(
+  enrollment: ReadingPlanEnrollment,
+  plan: ReadingPlan,
+  today: Date = new Date(),
+): number {
+  const day = daysBetween(fromDateKey(enrollment.start_date), today) + 1;
+  return Math.max(0, Math.min(day, plan.days.length));
+}
+
+/**
+ * Days scheduled before today that haven't been read, oldest first
+ */
+export function getMissedDays(
+  enrollment: ReadingPlanEnrollment,
+  plan: ReadingPlan,
+  today: Date = new Date(),
+): number[] {
+  const completed = new Set(enrollment.completed_days);
+  // Days 1..elapsed fell before today
+  const elapsed = daysBetween(fromDateKey(enrollment.start_date), today);
+  const lastDue = Math.max(0, Math.min(elapsed, plan.days.length));
+
+  return Array.from({ length: lastDue }, (_, i) => i + 1).filter((day) => !completed.has(day));
+}
+
+/**
+ * The earliest day not yet read, or null once the plan is finished
+ */
+export function getNextPlanDay(
+  enrollment: ReadingPlanEnrollment,
+  plan: ReadingPlan,
+): number | null {
+  const completed = new Set(enrollment.completed_days);
+  for (let day = 1; day <= plan.days.length; day++) {
+    if (!completed.has(day)) return day;
+  }
+  return null;
+}
+
+/**
+ * What to read today: the scheduled day plus a share of any missed days, so a reader who
+ * fell behind is back on track within CATCH_UP_DAYS days
+ */
+export function getTodaysReading(
+  enrollment: ReadingPlanEnrollment,
+  plan: ReadingPlan,
+  today: Date = new Date(),
+): { day: number | null; catchUpDays: number[] } {
+  const scheduled = getScheduledDay(enrollment, plan, today);
+  const completed = new Set(enrollment.completed_days);
+  const missed = getMissedDays(enrollment, plan, today);
+
+  const day = scheduled > 0 && !completed.has(scheduled) ? scheduled : null;
+  const perDay = Math.ceil(missed.length / CATCH_UP_DAYS);
+
+  return { day, catchUpDays: missed.slice(0, perDay) };
+}
+
+/**
+ * A new start date that moves the first unread day to today, for readers who would
+ * rather shift the whole schedule than double up
+ */
+export function getShiftedStartDate(
+  enrollment: ReadingPlanEnrollment,
+  plan: ReadingPlan,
+  today: Date = new Date(),
+): string {
+  const next = getNextPlanDay(enrollment, plan) ?? plan.days.length;
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (next - 1));
+  return toDateKey(start);
+}
+
+/**
+ * Share of the plan read so far, between 0 and 1
+ */
+export const getPlanProgress = (enrollment: ReadingPlanEnrollment, plan: ReadingPlan): number =>
+  plan.days.length > 0
+    ? enrollment.completed_days.filter((day) => day <= plan.days.length).length / plan.days.length
+    : 0;
+
+/**
+ * The earliest unread day that includes a chapter, so the reader can offer to mark it done
+ */
+export function findPlanDayForChapter(
+  enrollment: ReadingPlanEnrollment,
+  plan: ReadingPlan,
+  book: string,
+  chapter: number,
+): number | null {
+  const completed = new Set(enrollment.completed_days);
+
+  for (let day = 1; day <= plan.days.length; day++) {
+    if (completed.has(day)) continue;
+    const passages = plan.days[day - 1].flatMap((ref) => parseReference(ref));
+    if (passages.some((passage) => passageIncludes(passage, book, chapter))) return day;
+  }
+  return null;
+}
+
+/**
+ * Parse an admin-authored plan, one day per line with references separated by ";".
+ * Returns the days, or the 1-based number of the first line that isn't a valid reference.
+ */
+export function parsePlanDays(text: string): { days: string[][] } | { invalidLine: number } {
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const days: string[][] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const references = lines[i]
+      .split(";")
+      .map((ref) => ref.trim())
+      .filter((ref) => ref.length > 0);
+
+    if (references.length === 0 || references.some((ref) => parseReference(ref).length === 0)) {
+      return { invalidLine: i + 1 };
+    }
+    days.push(references);
+  }
+
+  return { days };
+}
+
+// ---------------------
+// PLANS, ENROLLMENT & GROUPS
+// ---------------------
+
+/**
+ * Built-in plans followed by the plans published by the given churches
+ */
+export async function fetchReadingPlans(churchIds: number[]): Promise<ReadingPlan[]> {
+  if (churchIds.length === 0) return BUILT_IN_PLANS;
+
+  const { data, error } = await supabase
+    .from("reading_plans")
+    .select("*")
+    .in("church_id", churchIds)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return [...BUILT_IN_PLANS, ...((data || []) as ReadingPlan[])];
+}
+
+/**
+ * Look up a single plan, built-in or from the database
+ */
+export async function fetchReadingPlan(planId: string): Promise<ReadingPlan | null> {
+  const builtin = BUILT_IN_PLANS.find((plan) => plan.id === planId);
+  if (builtin) return builtin;
+
+  const { data, error } = await supabase
+    .from("reading_plans")
+    .select("*")
+    .eq("id", planId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ReadingPlan | null;
+}
+
+/**
+ * Publish a plan for a church's members (church admins only)
+ */
+export async function createReadingPlan(
+  plan: Pick<ReadingPlan, "title" | "description" | "days" | "church_id" | "created_by">,
+): Promise<ReadingPlan> {
+  const { data, error } = await supabase.from("reading_plans").insert(plan).select().single();
+
+  if (error) throw error;
+  return data as ReadingPlan;
+}
+
+/**
+ * Every plan the user is enrolled in
+ */
+export async function fetchEnrollments(userId: string): Promise<ReadingPlanEnrollment[]> {
+  const { data, error } = await supabase
+    .from("reading_plan_enrollments")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ReadingPlanEnrollment[];
+}
+
+/**
+ * Start a plan, on its own or alongside a group
+ */
+export async function enrollInPlan(
+  userId: string,
+  planId: string,
+  startDate: string,
+  groupId: string | null = null,
+): Promise<ReadingPlanEnrollment> {
+  const { data, error } = await supabase
+    .from("reading_plan_enrollments")
+    .insert({
+      user_id: userId,
+      plan_id: planId,
+      group_id: groupId,
+      start_date: startDate,
+      completed_days: [],
+      reminder_time: null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ReadingPlanEnrollment;
+}
+
+/**
+ * Save changes to an enrollment (progress, start date or reminder time)
+ */
+export async function updateEnrollment(
+  enrollmentId: string,
+  changes: Partial<Pick<ReadingPlanEnrollment, "completed_days" | "start_date" | "reminder_time">>,
+): Promise<ReadingPlanEnrollment> {
+  const { data, error } = await supabase
+    .from("reading_plan_enrollments")
+    .update(changes)
+    .eq("id", enrollmentId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ReadingPlanEnrollment;
+}
+
+/**
+ * Mark a day as read (or unread again)
+ */
+export async function setPlanDayCompleted(
+  enrollment: ReadingPlanEnrollment,
+  day: number,
+  completed: boolean = true,
+): Promise<ReadingPlanEnrollment> {
+  const days = new Set(enrollment.completed_days);
+  if (completed) {
+    days.add(day);
+  } else {
+    days.delete(day);
+  }
+
+  return updateEnrollment(enrollment.id, {
+    completed_days: Array.from(days).sort((a, b) => a - b),
+  });
+}
+
+/**
+ * Stop following a plan and cancel its reminder
+ */
+export async function leavePlan(enrollmentId: string): Promise<void> {
+  const { error } = await supabase.from("reading_plan_enrollments").delete().eq("id", enrollmentId);
+
+  if (error) throw error;
+  await cancelReadingReminder(enrollmentId);
+}
+
+/**
+ * Plans being read together by any of the given groups
+ */
+export async function fetchGroupPlans(groupIds: string[]): Promise<GroupReadingPlan[]> {
+  if (groupIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("group_reading_plans")
+    .select("*")
+    .in("group_id", groupIds)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as GroupReadingPlan[];
+}
+
+/**
+ * Have a group follow a plan from a shared start date
+ */
+export async function startGroupPlan(
+  groupId: string,
+  planId: string,
+  startDate: string,
+  userId: string,
+): Promise<GroupReadingPlan> {
+  const { data, error } = await supabase
+    .from("group_reading_plans")
+    .insert({ group_id: groupId, plan_id: planId, start_date: startDate, created_by: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as GroupReadingPlan;
+}
+
+/**
+ * How far each member of a group has read in the group's plan
+ */
+export async function fetchGroupProgress(
+  groupId: string,
+  planId: string,
+): Promise<(ReadingPlanEnrollment & { user: { first_name: string; last_name: string } })[]> {
+  const { data, error } = await supabase
+    .from("reading_plan_enrollments")
+    .select("*, user:users(first_name, last_name)")
+    .eq("group_id", groupId)
+    .eq("plan_id", planId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// ---------------------
+// REMINDERS
+// ---------------------
+
+async function getReminderIds(): Promise<Record<string, string>> {
+  try {
+    const stored = await AsyncStorage.getItem(PLAN_REMINDERS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Error loading plan reminders:", error);
+    return {};
+  }
+}
+
+/**
+ * Cancel the daily reminder for an enrollment, if one is scheduled on this device
+ */
+export async function cancelReadingReminder(enrollmentId: string): Promise<void> {
+  const reminders = await getReminderIds();
+  const notificationId = reminders[enrollmentId];
+  if (!notificationId) return;
+
+  await Notifications.cancelScheduledNotificationAsync(notificationId).catch(() => {});
+  delete reminders[enrollmentId];
+  await AsyncStorage.setItem(PLAN_REMINDERS_KEY, JSON.stringify(reminders));
+}
+
+/**
+ * Schedule (or replace) the daily reminder for an enrollment at its reminder time
+ */
+export async function scheduleReadingReminder(
+  enrollment: ReadingPlanEnrollment,
+  plan: ReadingPlan,
+): Promise<void> {
+  await cancelReadingReminder(enrollment.id);
+  if (!enrollment.reminder_time) return;
+
+  const [hour, minute] = enrollment.reminder_time.split(":").map(Number);
+  const notificationId = await scheduleLocalNotification(
+    "Today's reading",
+    `It's time for today's reading in "${plan.title}".`,
+    { type: "reading_plan", planId: plan.id, enrollmentId: enrollment.id },
+    { type: Notifications.SchedulableTriggerInputTypes.DAILY, hour, minute },
+  );
+
+  const reminders = await getReminderIds();
+  reminders[enrollment.id] = notificationId;
+  await AsyncStorage.setItem(PLAN_REMINDERS_KEY, JSON.stringify(reminders));
+}
+
+/**
+ * Re-create reminders after signing in on a new device, or drop ones for plans the
+ * user left elsewhere
+ */
+export async function syncReadingReminders(
+  enrollments: ReadingPlanEnrollment[],
+  plans: ReadingPlan[],
+): Promise<void> {
+  const reminders = await getReminderIds();
+  const activeIds = new Set(enrollments.map((e) => e.id));
+
+  for (const enrollmentId of Object.keys(reminders)) {
+    if (!activeIds.has(enrollmentId)) await cancelReadingReminder(enrollmentId);
+  }
+
+  for (const enrollment of enrollments) {
+    const plan = plans.find((p) => p.id === enrollment.plan_id);
+    if (plan && enrollment.reminder_time && !reminders[enrollment.id]) {
+      await scheduleReadingReminder(enrollment, plan);
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import {
+  BookLocale,
+  getBookAliasIndex,
+  getLocalizedBookName,
+  normalizeBookText,
+  SINGLE_CHAPTER_BOOKS,
+} from "./books";
+
+/**
+ * A contiguous stretch of scripture within one book.
+ * - Only `book`: the whole book ("Genesis")
+ * - Chapters without verses: whole chapters ("1 Cor 13", "Gen 1-3")
+ * - Chapters with verses: a verse range, possibly across chapters ("Jn 3:16-4:2")
+ */
+export interface Passage {
+  book: string;
+  startChapter?: number;
+  startVerse?: number;
+  endChapter?: number;
+  endVerse?: number;
+}
+
+// Where a reference stands while reading a list like "Rom 8:28, 31; 12:1-2"
+interface ParseContext {
+  book: string | null;
+  chapter: number | null;
+  // After "8:28", a bare "31" is a verse in chapter 8 rather than chapter 31
+  inVerses: boolean;
+}
+
+const CHAPTER_VERSE = /^(\d+)\s*[:.]\s*(\d+)[a-z]?(?:\s*-\s*(?:(\d+)\s*[:.]\s*)?(\d+)[a-z]?)?$/;
+const CHAPTER_SPACE_VERSE = /^(\d+)\s+(\d+)[a-z]?(?:\s*-\s*(\d+)[a-z]?)?$/;
+const NUMBER_RANGE = /^(\d+)[a-z]?(?:\s*-\s*(\d+)[a-z]?)?$/;
+
+// Match the longest book alias at the start of the text
+function matchBookPrefix(text: string): { book: string; rest: string } | null {
+  for (const { alias, book } of getBookAliasIndex()) {
+    if (!text.startsWith(alias)) continue;
+
+    // "is" must not match the start of "isn't", nor "jo" the start of "joy"
+    const next = text.charAt(alias.length);
+    if (next && /[a-z]/.test(next)) continue;
+
+    return { book, rest: text.slice(alias.length).replace(/^[.\s]+/, "") };
+  }
+  return null;
+}
+
+const isValidRange = (
+  startChapter: number,
+  startVerse: number | undefined,
+  endChapter: number,
+  endVerse: number | undefined,
+): boolean => {
+  if (startChapter < 1 || endChapter < startChapter) return false;
+  if (startVerse === undefined || endVerse === undefined) return true;
+  if (startVerse < 1 || endVerse < 1) return false;
+  return endChapter > startChapter || endVerse >= startVerse;
+};
+
+// Parse the chapter/verse part of one comma- or semicolon-separated item
+function parseLocation(text: string, context: ParseContext): Passage | null {
+  const book = context.book!;
+  const singleChapter = SINGLE_CHAPTER_BOOKS.has(book);
+
+  let match = text.match(CHAPTER_VERSE);
+  if (match) {
+    const startChapter = parseInt(match[1]);
+    const startVerse = parseInt(match[2]);
+    const endChapter = match[3] ? parseInt(match[3]) : startChapter;
+    const endVerse = match[4] ? parseInt(match[4]) : startVerse;
+
+    if (!isValidRange(startChapter, startVerse, endChapter, endVerse)) return null;
+
+    context.chapter = endChapter;
+    context.inVerses = true;
+    return { book, startChapter, startVerse, endChapter, endVerse };
+  }
+
+  // "Genesis 1 2" was accepted by the old search box, so keep reading it as 1:2
+  match = text.match(CHAPTER_SPACE_VERSE);
+  if (match) {
+    const chapter = parseInt(match[1]);
+    const startVerse = parseInt(match[2]);
+    const endVerse = match[3] ? parseInt(match[3]) : startVerse;
+
+    if (!isValidRange(chapter, startVerse, chapter, endVerse)) return null;
+
+    context.chapter = chapter;
+    context.inVerses = true;
+    return { book, startChapter: chapter, startVerse, endChapter: chapter, endVerse };
+  }
+
+  match = text.match(NUMBER_RANGE);
+  if (match) {
+    const start = parseInt(match[1]);
+    const end = match[2] ? parseInt(match[2]) : start;
+
+    // Bare numbers are verses when following a verse, or in a one-chapter book
+    if ((context.inVerses && context.chapter !== null) || singleChapter) {
+      const chapter = context.inVerses && context.chapter !== null ? context.chapter : 1;
+      if (!isValidRange(chapter, start, chapter, end)) return null;
+
+      context.chapter = chapter;
+      context.inVerses = true;
+      return { book, startChapter: chapter, startVerse: start, endChapter: chapter, endVerse: end };
+    }
+
+    if (!isValidRange(start, undefined, end, undefined)) return null;
+
+    context.chapter = end;
+    return { book, startChapter: start, endChapter: end };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a scripture reference such as "Jn 3:16-18", "1 Cor 13", "Rom 8:28; 12:1-2",
+ * "I Samuel 3" or "Juan 3:16" into passages with canonical book names.
+ * Returns an empty array when the text isn't entirely a reference, so callers can
+ * fall back to a text search.
+ */
+export function parseReference(input: string): Passage[] {
+  const text = normalizeBookText(input).replace(/[\u2010-\u2015]/g, "-");
+  if (!text) return [];
+
+  const context: ParseContext = { book: null, chapter: null, inVerses: false };
+  const passages: Passage[] = [];
+
+  // Keep the separators: ";" starts a new chapter context, "," continues the current one
+  const tokens = text.split(/([;,])/);
+
+  for (let i = 0; i < tokens.length; i += 2) {
+    const item = tokens[i].trim();
+    const separator = i > 0 ? tokens[i - 1] : null;
+
+    if (!item) {
+      // Allow a trailing separator, but not empty items in the middle
+      if (i === tokens.length - 1 && passages.length > 0) break;
+      return [];
+    }
+
+    if (separator === ";") context.inVerses = false;
+
+    let rest = item;
+    const bookMatch = matchBookPrefix(item);
+    if (bookMatch) {
+      context.book = bookMatch.book;
+      context.chapter = null;
+      context.inVerses = false;
+      rest = bookMatch.rest;
+    } else if (!context.book) {
+      return [];
+    }
+
+    if (!rest) {
+      // A bare book name is only meaningful on its own
+      if (!bookMatch) return [];
+      passages.push({ book: context.book });
+      continue;
+    }
+
+    const passage = parseLocation(rest, context);
+    if (!passage) return [];
+    passages.push(passage);
+  }
+
+  return passages;
+}
+
+/**
+ * Format a passage for display, e.g. "John 3:16-18" or "I Corinthians 13"
+ */
+export function formatPassage(passage: Passage, locale: BookLocale = "en"): string {
+  const name = getLocalizedBookName(passage.book, locale);
+  const { startChapter, startVerse, endChapter, endVerse } = passage;
+
+  if (startChapter === undefined) return name;
+
+  const lastChapter = endChapter ?? startChapter;
+
+  if (startVerse === undefined) {
+    return lastChapter !== startChapter
+      ? `${name} ${startChapter}-${lastChapter}`
+      : `${name} ${startChapter}`;
+  }
+
+  const lastVerse = endVerse ?? startVerse;
+  if (lastChapter !== startChapter) {
+    return `${name} ${startChapter}:${startVerse}-${lastChapter}:${lastVerse}`;
+  }
+  return lastVerse !== startVerse
+    ? `${name} ${startChapter}:${startVerse}-${lastVerse}`
+    : `${name} ${startChapter}:${startVerse}`;
+}
+
+/**
+ * Format several passages as one reference string, e.g. "Romans 8:28; Romans 12:1-2"
+ */
+export const formatPassages = (passages: Passage[], locale: BookLocale = "en"): string =>
+  passages.map((p) => formatPassage(p, locale)).join("; ");
+
+/**
+ * Check whether a chapter (and optionally a verse) falls inside a passage
+ */
+export function passageIncludes(
+  passage: Passage,
+  book: string,
+  chapter: number,
+  verse?: number,
+): boolean {
+  if (passage.book !== book) return false;
+  if (passage.startChapter === undefined) return true;
+
+  const endChapter = passage.endChapter ?? passage.startChapter;
+  if (chapter < passage.startChapter || chapter > endChapter) return false;
+  if (verse === undefined || passage.startVerse === undefined) return true;
+
+  const endVerse = passage.endVerse ?? passage.startVerse;
+  if (chapter === passage.startChapter && verse < passage.startVerse) return false;
+  if (chapter === endChapter && verse > endVerse) return false;
+  return true;
+}
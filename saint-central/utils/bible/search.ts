@@ -0,0 +1,275 @@
+import { supabase } from "../../supabaseClient";
+import { BibleVerse } from "@/types/bible";
+import {
+  BookCategory,
+  DEUTEROCANONICAL_BOOKS,
+  getBookCategory,
+  NEW_TESTAMENT_BOOKS,
+  normalizeBookText,
+  OLD_TESTAMENT_BOOKS,
+} from "./books";
+import { getPackBooksVerses } from "./offlinePacks";
+
+// "all" matches verses containing every word, "phrase" the words in order
+export type SearchMode = "all" | "phrase";
+
+export interface SearchFilters {
+  testament: "all" | "old" | "new";
+  category: BookCategory | "all";
+  book: string | null;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  testament: "all",
+  category: "all",
+  book: null,
+};
+
+// Keyset cursor: the rank and id of the last hit on the previous page
+export interface SearchCursor {
+  rank: number;
+  id: number;
+}
+
+export interface SearchHit extends BibleVerse {
+  rank: number;
+  // Verse text with matches wrapped in HIGHLIGHT_START / HIGHLIGHT_END
+  snippet: string;
+}
+
+export interface SearchPage {
+  hits: SearchHit[];
+  nextCursor: SearchCursor | null;
+}
+
+export const SEARCH_PAGE_SIZE = 25;
+
+const HIGHLIGHT_START = "[[";
+const HIGHLIGHT_END = "]]";
+
+/**
+ * Turn filters into the list of books to search, or null when every book is allowed
+ */
+export function getSearchBooks(filters: SearchFilters): string[] | null {
+  if (filters.book) return [filters.book];
+  if (filters.testament === "all" && filters.category === "all") return null;
+
+  const oldTestament = [...OLD_TESTAMENT_BOOKS, ...DEUTEROCANONICAL_BOOKS].map((b) => b.name);
+  const newTestament = NEW_TESTAMENT_BOOKS.map((b) => b.name);
+
+  const books =
+    filters.testament === "old"
+      ? oldTestament
+      : filters.testament === "new"
+        ? newTestament
+        : [...oldTestament, ...newTestament];
+
+  return filters.category === "all"
+    ? books
+    : books.filter((book) => getBookCategory(book) === filters.category);
+}
+
+/**
+ * Ranked, paginated search of one Bible version on the server
+ */
+export async function searchBibleRemote(
+  table: string,
+  query: string,
+  mode: SearchMode,
+  filters: SearchFilters,
+  cursor: SearchCursor | null = null,
+  pageSize = SEARCH_PAGE_SIZE,
+): Promise<SearchPage> {
+  const { data, error } = await supabase.rpc("search_bible", {
+    version_table: table,
+    search_query: query,
+    search_mode: mode,
+    book_filter: getSearchBooks(filters),
+    after_rank: cursor?.rank ?? null,
+    after_id: cursor?.id ?? null,
+    page_size: pageSize,
+  });
+
+  if (error) throw error;
+
+  const hits: SearchHit[] = (data || []).map((row: any) => ({
+    id: row.id,
+    book: row.book,
+    chapter: String(row.chapter),
+    verse: String(row.verse),
+    text: row.text,
+    rank: Number(row.rank),
+    snippet: row.snippet || row.text,
+  }));
+
+  return { hits, nextCursor: getNextCursor(hits, pageSize) };
+}
+
+const getNextCursor = (hits: SearchHit[], pageSize: number): SearchCursor | null => {
+  if (hits.length < pageSize) return null;
+  const last = hits[hits.length - 1];
+  return { rank: last.rank, id: last.id };
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Scripts written without spaces between words, where a match can start
+// anywhere in the text
+const UNSPACED_SCRIPT =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+const isUnspaced = (term: string): boolean => UNSPACED_SCRIPT.test(term);
+
+// Word boundaries that know about every alphabet, unlike \b which only knows ASCII.
+// Combining marks count as part of a word.
+const WORD_START = "(?<![\\p{L}\\p{M}\\p{N}])";
+const WORD_END = "(?![\\p{L}\\p{M}\\p{N}])";
+
+const termStart = (term: string): string => (isUnspaced(term) ? "" : WORD_START);
+const termEnd = (term: string): string => (isUnspaced(term) ? "" : WORD_END);
+
+// The terms in order, separated by anything but letters and digits
+const phraseSource = (terms: string[]): string =>
+  terms
+    .map((term, i) => {
+      if (i === 0) return escapeRegExp(term);
+      const separator =
+        isUnspaced(terms[i - 1]) || isUnspaced(term)
+          ? "[^\\p{L}\\p{M}\\p{N}]*"
+          : "[^\\p{L}\\p{M}\\p{N}]+";
+      return separator + escapeRegExp(term);
+    })
+    .join("");
+
+const getSearchTerms = (query: string): string[] =>
+  normalizeBookText(query)
+    .replace(/[^\p{L}\p{M}\p{N}\s']/gu, " ")
+    .split(" ")
+    .filter((term) => term.length > 0);
+
+/**
+ * Rank verses against a query the same way the server does, as closely as a
+ * plain JS scan allows: every word (or the exact phrase) must appear, and verses
+ * with more, denser matches come first.
+ */
+export function rankVerses(verses: BibleVerse[], query: string, mode: SearchMode): SearchHit[] {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  const patterns =
+    mode === "phrase"
+      ? [
+          new RegExp(
+            `${termStart(terms[0])}${phraseSource(terms)}${termEnd(terms[terms.length - 1])}`,
+            "giu",
+          ),
+        ]
+      : terms.map((term) => new RegExp(`${termStart(term)}${escapeRegExp(term)}`, "giu"));
+
+  const hits: SearchHit[] = [];
+
+  verses.forEach((verse) => {
+    const text = normalizeBookText(verse.text);
+    let occurrences = 0;
+
+    for (const pattern of patterns) {
+      const matches = text.match(pattern);
+      if (!matches) return;
+      occurrences += matches.length;
+    }
+
+    // Round like the server so cursors compare exactly
+    const rank = Math.round((occurrences / (1 + text.length / 100)) * 1e6) / 1e6;
+    hits.push({ ...verse, rank, snippet: highlightTerms(verse.text, terms, mode) });
+  });
+
+  return hits.sort((a, b) => b.rank - a.rank || a.id - b.id);
+}
+
+const highlight = (text: string): string => `${HIGHLIGHT_START}${text}${HIGHLIGHT_END}`;
+
+// Wrap matched words in highlight markers, ignoring case and accents
+function highlightTerms(text: string, terms: string[], mode: SearchMode): string {
+  // Without spaces there are no words to mark, so mark the matched text itself.
+  // These scripts have no case or stripped accents, so the terms match as typed.
+  if (terms.some(isUnspaced)) {
+    const source =
+      mode === "phrase"
+        ? phraseSource(terms.map((term) => term.normalize("NFC")))
+        : terms.map((term) => escapeRegExp(term.normalize("NFC"))).join("|");
+    return text.replace(new RegExp(source, "giu"), highlight);
+  }
+
+  const words = text.split(/(\s+)/);
+  const normalized = words.map((w) => normalizeBookText(w).replace(/[^\p{L}\p{M}\p{N}']/gu, ""));
+
+  if (mode === "all") {
+    return words
+      .map((word, i) =>
+        terms.some((term) => normalized[i].startsWith(term)) ? highlight(word) : word,
+      )
+      .join("");
+  }
+
+  // Phrase mode: highlight each run of consecutive words matching the phrase
+  const marked = new Set<number>();
+  const wordIndexes = words.map((_, i) => i).filter((i) => normalized[i].length > 0);
+
+  for (let start = 0; start + terms.length <= wordIndexes.length; start++) {
+    const run = wordIndexes.slice(start, start + terms.length);
+    if (run.every((index, t) => normalized[index] === terms[t])) {
+      run.forEach((index) => marked.add(index));
+    }
+  }
+
+  return words.map((word, i) => (marked.has(i) ? highlight(word) : word)).join("");
+}
+
+/**
+ * Ranked, paginated search of a downloaded version, or null when it isn't downloaded
+ */
+export async function searchBibleLocal(
+  table: string,
+  query: string,
+  mode: SearchMode,
+  filters: SearchFilters,
+  cursor: SearchCursor | null = null,
+  pageSize = SEARCH_PAGE_SIZE,
+): Promise<SearchPage | null> {
+  const verses = await getPackBooksVerses(table, getSearchBooks(filters));
+  if (!verses) return null;
+
+  const ranked = rankVerses(verses, query, mode);
+  const start = cursor
+    ? ranked.findIndex(
+        (hit) => hit.rank < cursor.rank || (hit.rank === cursor.rank && hit.id > cursor.id),
+      )
+    : 0;
+
+  const hits = start < 0 ? [] : ranked.slice(start, start + pageSize);
+  return { hits, nextCursor: getNextCursor(hits, pageSize) };
+}
+
+/**
+ * Split a highlighted snippet into plain and highlighted segments for rendering
+ */
+export function splitHighlights(snippet: string): { text: string; highlighted: boolean }[] {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  const pattern = /\[\[(.*?)\]\]/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(snippet)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: snippet.slice(lastIndex, match.index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < snippet.length) {
+    segments.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+
+  return segments;
+}
@@ -0,0 +1,196 @@
+import * as FileSystem from "expo-file-system";
+import * as MediaLibrary from "expo-media-library";
+import * as Sharing from "expo-sharing";
+import { supabase } from "../../supabaseClient";
+
+// Cards are drawn on a square canvas and exported at this size
+export const CARD_SIZE = 1080;
+const CARD_PADDING = 110;
+// Room left for the text once the reference and version footer are drawn
+const CARD_TEXT_HEIGHT = 700;
+
+// Average glyph width relative to the font size, for estimating line breaks
+const GLYPH_WIDTH = 0.5;
+const LINE_HEIGHT = 1.4;
+const FONT_SIZES = [64, 56, 50, 44, 40, 36, 32, 28];
+
+export type CardTheme = "paper" | "sepia" | "night";
+
+export interface CardTemplate {
+  id: string;
+  name: string;
+  background: string;
+  backgroundEnd: string;
+  textColor: string;
+  accentColor: string;
+}
+
+// The reader's paper, sepia and night palettes
+const THEME_PALETTES: Record<CardTheme, Omit<CardTemplate, "id" | "name" | "accentColor">> = {
+  paper: { background: "#FFFFFF", backgroundEnd: "#F0F0F0", textColor: "#333333" },
+  sepia: { background: "#F8F1E3", backgroundEnd: "#EADDCC", textColor: "#5B4636" },
+  night: { background: "#262626", backgroundEnd: "#121212", textColor: "#E1E1E1" },
+};
+
+export interface CardMinistry {
+  id: number;
+  name: string;
+}
+
+/**
+ * Card backgrounds for a book: each reader theme accented with the book's color,
+ * plus a bold card filled with the book color itself.
+ * bookColors holds the book's color in each theme (see getBookColor).
+ */
+export function getCardTemplates(bookColors: Record<CardTheme, string>): CardTemplate[] {
+  const themed = (Object.keys(THEME_PALETTES) as CardTheme[]).map((theme) => ({
+    id: theme,
+    name: theme.charAt(0).toUpperCase() + theme.slice(1),
+    ...THEME_PALETTES[theme],
+    accentColor: bookColors[theme],
+  }));
+
+  return [
+    ...themed,
+    {
+      id: "book",
+      name: "Book",
+      background: bookColors.paper,
+      backgroundEnd: bookColors.sepia,
+      textColor: "#FFFFFF",
+      accentColor: "#FFFFFF",
+    },
+  ];
+}
+
+/**
+ * Break text into lines of at most maxChars characters, splitting only at spaces
+ */
+export function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  text
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((word) => {
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    });
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * The largest font size at which the verse fits on the card, with its lines.
+ * Very long passages are cut short with an ellipsis at the smallest size.
+ */
+export function layoutCardText(text: string): {
+  fontSize: number;
+  lineHeight: number;
+  lines: string[];
+} {
+  const width = CARD_SIZE - CARD_PADDING * 2;
+
+  for (const fontSize of FONT_SIZES) {
+    const lines = wrapText(text, Math.floor(width / (fontSize * GLYPH_WIDTH)));
+    if (lines.length * fontSize * LINE_HEIGHT <= CARD_TEXT_HEIGHT) {
+      return { fontSize, lineHeight: fontSize * LINE_HEIGHT, lines };
+    }
+  }
+
+  const fontSize = FONT_SIZES[FONT_SIZES.length - 1];
+  const maxLines = Math.floor(CARD_TEXT_HEIGHT / (fontSize * LINE_HEIGHT));
+  const lines = wrapText(text, Math.floor(width / (fontSize * GLYPH_WIDTH))).slice(0, maxLines);
+  lines[lines.length - 1] = `${lines[lines.length - 1].replace(/[\s,;:.]+$/, "")}…`;
+  return { fontSize, lineHeight: fontSize * LINE_HEIGHT, lines };
+}
+
+// ---------------------
+// EXPORT
+// ---------------------
+
+/**
+ * Write a rendered card (base64 PNG) to a temporary file and return its uri
+ */
+export async function writeCardFile(base64: string): Promise<string> {
+  const uri = `${FileSystem.cacheDirectory}verse-card-${Date.now()}.png`;
+  await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+  return uri;
+}
+
+/**
+ * Save a card to the photo library. Returns false if the user declined access.
+ */
+export async function saveCardToDevice(base64: string): Promise<boolean> {
+  const { granted } = await MediaLibrary.requestPermissionsAsync(true);
+  if (!granted) return false;
+
+  await MediaLibrary.saveToLibraryAsync(await writeCardFile(base64));
+  return true;
+}
+
+/**
+ * Open the system share sheet (messages, social apps) with the card
+ */
+export async function shareCard(base64: string, reference: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+
+  await Sharing.shareAsync(await writeCardFile(base64), {
+    mimeType: "image/png",
+    dialogTitle: reference,
+    UTI: "public.png",
+  });
+}
+
+/**
+ * Ministries the user can post to
+ */
+export async function fetchCardMinistries(userId: string): Promise<CardMinistry[]> {
+  const { data, error } = await supabase
+    .from("ministry_members")
+    .select("ministry:ministries(id, name)")
+    .eq("user_id", userId)
+    .eq("role", "member");
+
+  if (error) throw error;
+  return (data || []).map((m: any) => m.ministry).filter(Boolean);
+}
+
+/**
+ * Post a card to a ministry chat as an image message captioned with the reference
+ */
+export async function sendCardToMinistry(
+  base64: string,
+  ministryId: number,
+  userId: string,
+  reference: string,
+): Promise<void> {
+  const filePath = `ministry_attachments/${ministryId}/${userId}-${Date.now()}-verse.png`;
+  const blob = await (await fetch(await writeCardFile(base64))).blob();
+
+  const { error: uploadError } = await supabase.storage
+    .from("attachments")
+    .upload(filePath, blob, { contentType: "image/png" });
+
+  if (uploadError) throw uploadError;
+
+  const { data: urlData } = supabase.storage.from("attachments").getPublicUrl(filePath);
+
+  const { error } = await supabase.from("ministry_messages").insert({
+    ministry_id: ministryId,
+    user_id: userId,
+    message_text: reference,
+    sent_at: new Date().toISOString(),
+    attachment_url: urlData.publicUrl,
+    push_sent: false,
+  });
+
+  if (error) throw error;
+}
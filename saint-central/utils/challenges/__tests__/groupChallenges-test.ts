@@ -0,0 +1,95 @@
+import { ChallengeStanding, GroupChallenge } from "@/types/challenges";
+import {
+  getCheckinsBehind,
+  getExpectedCheckins,
+  getGroupChallengeStatus,
+  getGroupProgress,
+  getLeaderboard,
+  summarizeGroupChallenge,
+} from "../groupChallenges";
+
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+
+// Twenty check-ins over Advent 2026's 26 days
+const challenge: GroupChallenge = {
+  id: "challenge-1",
+  group_id: "group-1",
+  title: "Advent Rosary",
+  description: "",
+  target: 20,
+  start_date: "2026-11-29",
+  end_date: "2026-12-24",
+  created_by: "admin",
+};
+
+const standing = (
+  name: string | null,
+  checkins: number,
+  onLeaderboard = true,
+): ChallengeStanding => ({
+  user_id: name && `${name}-id`,
+  first_name: name,
+  last_name: null,
+  checkins,
+  on_leaderboard: onLeaderboard,
+});
+
+describe("group challenges", () => {
+  it("knows when a challenge is running", () => {
+    expect(getGroupChallengeStatus(challenge, new Date(2026, 10, 28))).toBe("upcoming");
+    expect(getGroupChallengeStatus(challenge, new Date(2026, 10, 29))).toBe("active");
+    expect(getGroupChallengeStatus(challenge, new Date(2026, 11, 24))).toBe("active");
+    expect(getGroupChallengeStatus(challenge, new Date(2026, 11, 25))).toBe("ended");
+  });
+
+  it("paces check-ins toward the target", () => {
+    expect(getExpectedCheckins(challenge, new Date(2026, 10, 20))).toBe(0);
+    // Thirteen of 26 days in
+    expect(getExpectedCheckins(challenge, new Date(2026, 11, 11))).toBe(10);
+    expect(getExpectedCheckins(challenge, new Date(2027, 0, 6))).toBe(20);
+
+    // Today doesn't count against a member until it's over
+    expect(getCheckinsBehind(challenge, 7, new Date(2026, 11, 12))).toBe(3);
+    expect(getCheckinsBehind(challenge, 12, new Date(2026, 11, 12))).toBe(0);
+  });
+
+  it("adds up the group's progress and ranks the leaderboard", () => {
+    const standings = [
+      standing("Anna", 12),
+      standing(null, 20, false),
+      standing("Ben", 15),
+      standing("Cara", 12),
+    ];
+
+    const { total, goal, progress } = getGroupProgress(challenge, standings);
+    expect(total).toBe(59);
+    expect(goal).toBe(80);
+    expect(progress).toBeCloseTo(59 / 80);
+
+    expect(getLeaderboard(standings)).toEqual([
+      { rank: 1, name: "Ben", user_id: "Ben-id", checkins: 15 },
+      { rank: 2, name: "Anna", user_id: "Anna-id", checkins: 12 },
+      { rank: 2, name: "Cara", user_id: "Cara-id", checkins: 12 },
+    ]);
+  });
+
+  it("summarizes the season", () => {
+    const summary = summarizeGroupChallenge(
+      challenge,
+      [standing("Anna", 4), standing(null, 20, false), standing("Ben", 21)],
+      ["2026-12-03", "2026-12-01", "2026-12-02", "2026-12-05"],
+    );
+
+    expect(summary).toMatchObject({
+      total: 45,
+      participants: 3,
+      finishers: 2,
+      checkins: 4,
+      longestStreak: 3,
+    });
+    expect(summary.leaders.map(({ name }) => name)).toEqual(["Ben", "Anna"]);
+  });
+});
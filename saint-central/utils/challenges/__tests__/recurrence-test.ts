@@ -0,0 +1,159 @@
+import {
+  RecurringTask,
+  describeRecurrence,
+  expandOccurrences,
+  getLastOccurrenceDate,
+  getOccurrenceDates,
+  shiftSeries,
+  splitSeries,
+} from "../recurrence";
+
+const series = (overrides: Partial<RecurringTask> = {}): RecurringTask => ({
+  date: "2026-02-18T00:00:00",
+  event: "Fast",
+  description: "No meat",
+  recurrence: { frequency: "daily", interval: 1, until: "2026-04-04" },
+  completed_dates: [],
+  exceptions: {},
+  ...overrides,
+});
+
+describe("recurrence", () => {
+  it("expands daily and weekly rules", () => {
+    expect(
+      getOccurrenceDates("2026-02-18", { frequency: "daily", interval: 2, count: 3 }, "2026-12-31"),
+    ).toEqual(["2026-02-18", "2026-02-20", "2026-02-22"]);
+
+    // Fridays of Lent 2026, starting from Ash Wednesday
+    const fridays = getOccurrenceDates(
+      "2026-02-18",
+      { frequency: "weekly", interval: 1, weekdays: [5], until: "2026-04-04" },
+      "2026-12-31",
+    );
+    expect(fridays).toHaveLength(7);
+    expect(fridays[0]).toBe("2026-02-20");
+    expect(fridays[6]).toBe("2026-04-03");
+
+    // Every other week on the first day's weekday, a Wednesday
+    expect(
+      getOccurrenceDates("2026-02-18", { frequency: "weekly", interval: 2 }, "2026-03-20"),
+    ).toEqual(["2026-02-18", "2026-03-04", "2026-03-18"]);
+  });
+
+  it("finds the last occurrence of a series", () => {
+    expect(getLastOccurrenceDate(series())).toBe("2026-04-04");
+    expect(
+      getLastOccurrenceDate(
+        series({ recurrence: { frequency: "weekly", interval: 1, weekdays: [0, 3], count: 4 } }),
+      ),
+    ).toBe("2026-03-01");
+    expect(
+      getLastOccurrenceDate(series({ recurrence: { frequency: "daily", interval: 1 } })),
+    ).toBeNull();
+    expect(getLastOccurrenceDate(series({ recurrence: null }))).toBe("2026-02-18");
+  });
+
+  it("applies completions and exceptions to occurrences", () => {
+    const task = series({
+      completed_dates: ["2026-02-19"],
+      exceptions: {
+        "2026-02-20": { skipped: true },
+        "2026-02-21": { event: "Fast and pray" },
+        "2026-02-22": { date: "2026-02-10" },
+        "2026-02-28": { date: "2026-02-23" },
+      },
+    });
+
+    const occurrences = expandOccurrences(task, "2026-02-18", "2026-02-23");
+    expect(occurrences.map(({ date }) => date)).toEqual([
+      "2026-02-18",
+      "2026-02-19",
+      "2026-02-21",
+      "2026-02-23",
+      "2026-02-23",
+    ]);
+    expect(occurrences.map(({ occurrence_date }) => occurrence_date)).toEqual([
+      "2026-02-18",
+      "2026-02-19",
+      "2026-02-21",
+      "2026-02-23",
+      "2026-02-28",
+    ]);
+    expect(occurrences[1].completed).toBe(true);
+    expect(occurrences[0].completed).toBe(false);
+    expect(occurrences[2].event).toBe("Fast and pray");
+    expect(occurrences[2].description).toBe("No meat");
+  });
+
+  it("expands a task without a rule to its own day", () => {
+    const task = series({ recurrence: null, completed: true });
+    expect(expandOccurrences(task, "2026-02-01", "2026-02-28")).toEqual([
+      { ...task, occurrence_date: "2026-02-18" },
+    ]);
+    expect(expandOccurrences(task, "2026-03-01", "2026-03-31")).toEqual([]);
+  });
+
+  it("describes rules", () => {
+    expect(describeRecurrence(series().recurrence!, "2026-02-18")).toBe("Every day until 4/4/2026");
+    expect(
+      describeRecurrence(
+        { frequency: "weekly", interval: 2, weekdays: [4, 1], count: 10 },
+        "2026-02-18",
+      ),
+    ).toBe("Every 2 weeks on Mon, Thu, 10 times");
+    expect(describeRecurrence({ frequency: "weekly", interval: 1 }, "2026-02-18")).toBe(
+      "Every week on Wed",
+    );
+  });
+
+  it("splits a series for this and following changes", () => {
+    const task = series({
+      recurrence: { frequency: "weekly", interval: 1, count: 6 },
+      completed_dates: ["2026-02-18", "2026-03-04"],
+      exceptions: { "2026-02-25": { skipped: true }, "2026-03-11": { event: "Fast and pray" } },
+    });
+
+    const { before, after } = splitSeries(task, "2026-03-04");
+    expect(before.recurrence).toEqual({
+      frequency: "weekly",
+      interval: 1,
+      until: "2026-03-03",
+      count: 2,
+    });
+    expect(before.completed_dates).toEqual(["2026-02-18"]);
+    expect(before.exceptions).toEqual({ "2026-02-25": { skipped: true } });
+
+    expect(after.date).toBe("2026-03-04");
+    expect(after.recurrence).toEqual({
+      frequency: "weekly",
+      interval: 1,
+      weekdays: [3],
+      count: 4,
+    });
+    expect(after.completed_dates).toEqual(["2026-03-04"]);
+    expect(after.exceptions).toEqual({ "2026-03-11": { event: "Fast and pray" } });
+
+    // Together the halves cover the original occurrences
+    const dates = [before, after].flatMap((half) =>
+      expandOccurrences({ ...task, ...half }, "2026-01-01", "2026-12-31").map(
+        ({ occurrence_date }) => occurrence_date,
+      ),
+    );
+    expect(dates).toEqual(["2026-02-18", "2026-03-04", "2026-03-11", "2026-03-18", "2026-03-25"]);
+  });
+
+  it("shifts a whole series", () => {
+    const task = series({
+      recurrence: { frequency: "weekly", interval: 1, weekdays: [5, 6], until: "2026-03-01" },
+      completed_dates: ["2026-02-20"],
+      exceptions: { "2026-02-21": { date: "2026-02-22" } },
+    });
+
+    expect(shiftSeries(task, 2)).toEqual({
+      date: "2026-02-20",
+      recurrence: { frequency: "weekly", interval: 1, weekdays: [0, 1], until: "2026-03-03" },
+      completed_dates: ["2026-02-22"],
+      exceptions: { "2026-02-23": { date: "2026-02-24" } },
+    });
+  });
+});
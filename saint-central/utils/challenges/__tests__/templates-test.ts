@@ -0,0 +1,93 @@
+import { ChallengeTemplate } from "@/types/challenges";
+import { getChallengeSeasons } from "../../liturgy/seasonalChallenges";
+import {
+  buildChallengeTasks,
+  getChallengeDueRange,
+  getCompletionRate,
+  summarizeChallenge,
+  toTemplateTask,
+} from "../templates";
+
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+
+// Advent 2026 runs from Sunday, November 29 to Thursday, December 24
+const advent = getChallengeSeasons(2026).find(({ id }) => id === "advent")!;
+
+const template: ChallengeTemplate = {
+  id: "template-1",
+  church_id: 7,
+  season_id: "advent",
+  year: 2026,
+  title: "Advent 2026",
+  description: "",
+  tasks: [
+    toTemplateTask("Daily Examen", "", "daily", [], 1),
+    toTemplateTask("Fast", "No meat", "weekly", [5], 1),
+    toTemplateTask("Confession", "", "once", [], 20),
+  ],
+  cloned_from: null,
+  created_by: "admin",
+};
+
+describe("challenge templates", () => {
+  it("builds template tasks from the authoring form", () => {
+    expect(template.tasks[1]).toEqual({
+      event: "Fast",
+      description: "No meat",
+      start_offset: 0,
+      recurrence: { frequency: "weekly", interval: 1, weekdays: [5] },
+    });
+    expect(template.tasks[2].recurrence).toBeNull();
+    expect(template.tasks[2].start_offset).toBe(19);
+  });
+
+  it("generates a member's tasks for the season", () => {
+    const tasks = buildChallengeTasks(template, advent, "user-1", new Date(2026, 9, 19));
+    expect(tasks).toHaveLength(3);
+    expect(tasks[0]).toMatchObject({
+      user_id: "user-1",
+      event: "Daily Examen",
+      date: "2026-11-29T00:00:00",
+      recurrence: { frequency: "daily", interval: 1, until: "2026-12-24" },
+      template_id: "template-1",
+      template_task: 0,
+    });
+    expect(tasks[2]).toMatchObject({ date: "2026-12-18T00:00:00", recurrence: null });
+  });
+
+  it("starts recurring tasks on the day a late member joins", () => {
+    const tasks = buildChallengeTasks(template, advent, "user-1", new Date(2026, 11, 10));
+    expect(tasks.map(({ date }) => date.slice(0, 10))).toEqual([
+      "2026-12-10",
+      "2026-12-10",
+      "2026-12-18",
+    ]);
+    // Still on Fridays
+    expect(tasks[1].recurrence?.weekdays).toEqual([5]);
+  });
+
+  it("counts the season's days so far", () => {
+    expect(getChallengeDueRange(advent, new Date(2026, 11, 1))).toEqual({
+      from: "2026-11-29",
+      through: "2026-12-01",
+    });
+    // After the season, everything is due
+    expect(getChallengeDueRange(advent, new Date(2027, 0, 6)).through).toBe("2026-12-24");
+  });
+
+  it("summarizes participation from each task's counts", () => {
+    const stats = summarizeChallenge(template, 2, [{ template_task: 0, due: 6, completed: 4 }]);
+    expect(stats).toEqual({
+      participants: 2,
+      due: 6,
+      completed: 4,
+      tasks: [
+        { event: "Daily Examen", due: 6, completed: 4 },
+        { event: "Fast", due: 0, completed: 0 },
+        { event: "Confession", due: 0, completed: 0 },
+      ],
+    });
+    expect(getCompletionRate(stats)).toBeCloseTo(2 / 3);
+    expect(getCompletionRate(summarizeChallenge(template, 0, []))).toBe(0);
+  });
+});
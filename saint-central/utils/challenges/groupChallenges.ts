@@ -0,0 +1,323 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import { supabase } from "../../supabaseClient";
+import { scheduleLocalNotification } from "../notifications";
+import { ChallengeStanding, GroupChallenge, GroupChallengeMember } from "@/types/challenges";
+import { addDays, daysBetween, fromDateKey, toDateKey } from "../liturgy/calendar";
+
+// Storage keys
+const NUDGES_KEY = "groupChallengeNudges";
+
+// Members this many check-ins behind the pace are nudged
+export const NUDGE_THRESHOLD = 2;
+
+// Nudges arrive in the evening, when there is still time to check in
+const NUDGE_HOUR = 19;
+
+// ---------------------
+// PROGRESS
+// ---------------------
+
+export type GroupChallengeStatus = "upcoming" | "active" | "ended";
+
+export function getGroupChallengeStatus(
+  challenge: GroupChallenge,
+  today: Date,
+): GroupChallengeStatus {
+  const key = toDateKey(today);
+  if (key < challenge.start_date) return "upcoming";
+  return key > challenge.end_date ? "ended" : "active";
+}
+
+export const getChallengeLength = (challenge: GroupChallenge): number =>
+  daysBetween(fromDateKey(challenge.start_date), fromDateKey(challenge.end_date)) + 1;
+
+/**
+ * Check-ins a member should have by the end of today to reach the target on time
+ */
+export function getExpectedCheckins(challenge: GroupChallenge, today: Date): number {
+  const elapsed = Math.min(
+    Math.max(daysBetween(fromDateKey(challenge.start_date), today) + 1, 0),
+    getChallengeLength(challenge),
+  );
+  return Math.floor((challenge.target * elapsed) / getChallengeLength(challenge));
+}
+
+/**
+ * How many check-ins a member is behind the pace, counting today as still open
+ */
+export function getCheckinsBehind(
+  challenge: GroupChallenge,
+  checkins: number,
+  today: Date,
+): number {
+  const expectedByYesterday = getExpectedCheckins(challenge, addDays(today, -1));
+  return Math.max(expectedByYesterday - checkins, 0);
+}
+
+/**
+ * The group's check-ins as a share of its target (every member's target added up)
+ */
+export function getGroupProgress(challenge: GroupChallenge, standings: ChallengeStanding[]) {
+  const total = standings.reduce((sum, { checkins }) => sum + checkins, 0);
+  const goal = challenge.target * standings.length;
+  return { total, goal, progress: goal === 0 ? 0 : Math.min(total / goal, 1) };
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  name: string;
+  user_id: string | null;
+  checkins: number;
+}
+
+/**
+ * Members who opted in to the leaderboard, most check-ins first. Ties share a rank.
+ */
+export function getLeaderboard(standings: ChallengeStanding[]): LeaderboardEntry[] {
+  const sorted = standings
+    .filter(({ on_leaderboard }) => on_leaderboard)
+    .sort((a, b) => b.checkins - a.checkins);
+
+  return sorted.map((standing) => ({
+    rank: sorted.findIndex(({ checkins }) => checkins === standing.checkins) + 1,
+    name: [standing.first_name, standing.last_name].filter(Boolean).join(" ") || "Member",
+    user_id: standing.user_id,
+    checkins: standing.checkins,
+  }));
+}
+
+export interface GroupChallengeSummary {
+  total: number;
+  progress: number;
+  participants: number;
+  // Members who reached the target
+  finishers: number;
+  checkins: number;
+  longestStreak: number;
+  leaders: LeaderboardEntry[];
+}
+
+/**
+ * The end-of-season look back at a challenge, for the group and the user
+ */
+export function summarizeGroupChallenge(
+  challenge: GroupChallenge,
+  standings: ChallengeStanding[],
+  checkinDays: string[],
+): GroupChallengeSummary {
+  const { total, progress } = getGroupProgress(challenge, standings);
+
+  let longestStreak = 0;
+  let run = 0;
+  let previous: string | null = null;
+  [...new Set(checkinDays)].sort().forEach((day) => {
+    run = previous && toDateKey(addDays(fromDateKey(previous), 1)) === day ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previous = day;
+  });
+
+  return {
+    total,
+    progress,
+    participants: standings.length,
+    finishers: standings.filter(({ checkins }) => checkins >= challenge.target).length,
+    checkins: checkinDays.length,
+    longestStreak,
+    leaders: getLeaderboard(standings).slice(0, 3),
+  };
+}
+
+// ---------------------
+// CHALLENGES & CHECK-INS
+// ---------------------
+
+/**
+ * Challenges started by any of the given groups, newest first
+ */
+export async function fetchGroupChallenges(groupIds: string[]): Promise<GroupChallenge[]> {
+  if (groupIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("group_challenges")
+    .select("*")
+    .in("group_id", groupIds)
+    .order("start_date", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as GroupChallenge[];
+}
+
+/**
+ * Start a challenge for a group (group admins only)
+ */
+export async function createGroupChallenge(
+  challenge: Pick<
+    GroupChallenge,
+    "group_id" | "title" | "description" | "target" | "start_date" | "end_date" | "created_by"
+  >,
+): Promise<GroupChallenge> {
+  const { data, error } = await supabase
+    .from("group_challenges")
+    .insert(challenge)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as GroupChallenge;
+}
+
+/**
+ * The group challenges the user has joined
+ */
+export async function fetchChallengeMemberships(userId: string): Promise<GroupChallengeMember[]> {
+  const { data, error } = await supabase
+    .from("group_challenge_members")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+  return (data || []) as GroupChallengeMember[];
+}
+
+export async function joinGroupChallenge(
+  challengeId: string,
+  userId: string,
+  showOnLeaderboard: boolean,
+): Promise<GroupChallengeMember> {
+  const { data, error } = await supabase
+    .from("group_challenge_members")
+    .insert({ challenge_id: challengeId, user_id: userId, show_on_leaderboard: showOnLeaderboard })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as GroupChallengeMember;
+}
+
+/**
+ * Show or hide the user on a challenge's leaderboard
+ */
+export async function setLeaderboardOptIn(
+  memberId: string,
+  showOnLeaderboard: boolean,
+): Promise<GroupChallengeMember> {
+  const { data, error } = await supabase
+    .from("group_challenge_members")
+    .update({ show_on_leaderboard: showOnLeaderboard })
+    .eq("id", memberId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as GroupChallengeMember;
+}
+
+/**
+ * The days the user checked in, by challenge
+ */
+export async function fetchCheckins(
+  userId: string,
+  challengeIds: string[],
+): Promise<Record<string, string[]>> {
+  if (challengeIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("group_challenge_checkins")
+    .select("challenge_id, day")
+    .eq("user_id", userId)
+    .in("challenge_id", challengeIds);
+
+  if (error) throw error;
+  const checkins: Record<string, string[]> = {};
+  (data || []).forEach(({ challenge_id, day }: { challenge_id: string; day: string }) => {
+    (checkins[challenge_id] ??= []).push(day);
+  });
+  return checkins;
+}
+
+export async function setCheckedIn(
+  challengeId: string,
+  userId: string,
+  day: string,
+  checkedIn: boolean,
+): Promise<void> {
+  const { error } = checkedIn
+    ? await supabase
+        .from("group_challenge_checkins")
+        .insert({ challenge_id: challengeId, user_id: userId, day })
+    : await supabase
+        .from("group_challenge_checkins")
+        .delete()
+        .eq("challenge_id", challengeId)
+        .eq("user_id", userId)
+        .eq("day", day);
+
+  if (error) throw error;
+}
+
+/**
+ * Every participant's check-ins, named only for members on the leaderboard
+ */
+export async function fetchStandings(challengeId: string): Promise<ChallengeStanding[]> {
+  const { data, error } = await supabase.rpc("group_challenge_standings", {
+    p_challenge_id: challengeId,
+  });
+
+  if (error) throw error;
+  return (data || []) as ChallengeStanding[];
+}
+
+// ---------------------
+// NUDGES
+// ---------------------
+
+async function getNudgeIds(): Promise<Record<string, string>> {
+  try {
+    const stored = await AsyncStorage.getItem(NUDGES_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Error loading challenge nudges:", error);
+    return {};
+  }
+}
+
+/**
+ * Cancel the pending nudge for a challenge, if one is scheduled on this device
+ */
+export async function cancelChallengeNudge(challengeId: string): Promise<void> {
+  const nudges = await getNudgeIds();
+  const notificationId = nudges[challengeId];
+  if (!notificationId) return;
+
+  await Notifications.cancelScheduledNotificationAsync(notificationId).catch(() => {});
+  delete nudges[challengeId];
+  await AsyncStorage.setItem(NUDGES_KEY, JSON.stringify(nudges));
+}
+
+/**
+ * Encourage a member who has fallen behind with a notification this evening
+ * (or tomorrow evening, once it's late), replacing any earlier nudge
+ */
+export async function scheduleChallengeNudge(
+  challenge: GroupChallenge,
+  behind: number,
+  now: Date,
+): Promise<void> {
+  await cancelChallengeNudge(challenge.id);
+
+  const at = new Date(now.getFullYear(), now.getMonth(), now.getDate(), NUDGE_HOUR);
+  if (at <= now) at.setDate(at.getDate() + 1);
+  if (toDateKey(at) > challenge.end_date) return;
+
+  const notificationId = await scheduleLocalNotification(
+    challenge.title,
+    `You're ${behind} check-ins behind, and your group is cheering you on. Every day counts!`,
+    { type: "group_challenge", challengeId: challenge.id },
+    { type: Notifications.SchedulableTriggerInputTypes.DATE, date: at },
+  );
+
+  const nudges = await getNudgeIds();
+  nudges[challenge.id] = notificationId;
+  await AsyncStorage.setItem(NUDGES_KEY, JSON.stringify(nudges));
+}
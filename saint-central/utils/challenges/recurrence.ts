@@ -0,0 +1,234 @@
+import { addDays, daysBetween, fromDateKey, toDateKey } from "../liturgy/calendar";
+
+export type RecurrenceFrequency = "daily" | "weekly";
+
+// How a recurring task repeats from its first day, the task's date
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Every n days or weeks
+  interval: number;
+  // Weekly only, 0 = Sunday. Defaults to the first day's weekday.
+  weekdays?: number[];
+  // "YYYY-MM-DD", the last day an occurrence may fall on
+  until?: string;
+  // Number of occurrences, skipped ones included
+  count?: number;
+}
+
+// A change to one occurrence, keyed by the occurrence's original date
+export interface OccurrenceException {
+  skipped?: boolean;
+  // Moved to another day, "YYYY-MM-DD"
+  date?: string;
+  event?: string;
+  description?: string;
+}
+
+export type OccurrenceExceptions = Record<string, OccurrenceException>;
+
+// The columns of a lent_tasks row that recurrence depends on
+export interface RecurringTask {
+  // "YYYY-MM-DD" or "YYYY-MM-DDT00:00:00"
+  date: string;
+  event: string;
+  description: string;
+  completed?: boolean;
+  recurrence?: RecurrenceRule | null;
+  // Original dates of the completed occurrences
+  completed_dates?: string[] | null;
+  exceptions?: OccurrenceExceptions | null;
+}
+
+// One day of a task, with its exception applied
+export type TaskOccurrence<T extends RecurringTask> = T & {
+  // The original date, which identifies the occurrence within its series
+  occurrence_date: string;
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Rules without an end are expanded no further than this
+const MAX_OCCURRENCES = 1000;
+
+export const getTaskStartDate = (task: Pick<RecurringTask, "date">): string =>
+  task.date.slice(0, 10);
+
+const getWeekdays = (rule: RecurrenceRule, first: Date): number[] =>
+  rule.frequency === "weekly" && rule.weekdays?.length ? rule.weekdays : [first.getDay()];
+
+/**
+ * The original dates of a rule's occurrences, from its first day up to and
+ * including `to`
+ */
+export function getOccurrenceDates(start: string, rule: RecurrenceRule, to: string): string[] {
+  const first = fromDateKey(start);
+  const firstWeek = addDays(first, -first.getDay());
+  const last = rule.until && rule.until < to ? rule.until : to;
+  const limit = rule.count ?? MAX_OCCURRENCES;
+  const interval = Math.max(rule.interval || 1, 1);
+  const weekdays = getWeekdays(rule, first);
+
+  const dates: string[] = [];
+  for (let day = first; dates.length < limit; day = addDays(day, 1)) {
+    const key = toDateKey(day);
+    if (key > last) break;
+
+    const matches =
+      rule.frequency === "daily"
+        ? daysBetween(first, day) % interval === 0
+        : weekdays.includes(day.getDay()) &&
+          Math.floor(daysBetween(firstWeek, day) / 7) % interval === 0;
+    if (matches) dates.push(key);
+  }
+  return dates;
+}
+
+/**
+ * The original date of a series' last occurrence, or null when it never ends
+ */
+export function getLastOccurrenceDate(task: RecurringTask): string | null {
+  const start = getTaskStartDate(task);
+  if (!task.recurrence) return start;
+  if (!task.recurrence.until && !task.recurrence.count) return null;
+
+  const dates = getOccurrenceDates(start, task.recurrence, task.recurrence.until ?? "9999-12-31");
+  return dates[dates.length - 1] ?? null;
+}
+
+/**
+ * A task's occurrences between two days (inclusive), with exceptions applied
+ * and skipped occurrences left out. A task without a rule has one occurrence.
+ */
+export function expandOccurrences<T extends RecurringTask>(
+  task: T,
+  from: string,
+  to: string,
+): TaskOccurrence<T>[] {
+  const start = getTaskStartDate(task);
+  if (!task.recurrence) {
+    return start >= from && start <= to ? [{ ...task, occurrence_date: start }] : [];
+  }
+
+  const exceptions = task.exceptions ?? {};
+  const completed = new Set(task.completed_dates ?? []);
+  const dates = getOccurrenceDates(start, task.recurrence, to);
+  // Occurrences moved back into the range from after it
+  Object.entries(exceptions).forEach(([key, exception]) => {
+    if (key > to && exception.date && exception.date <= to) dates.push(key);
+  });
+
+  return dates
+    .filter((key) => !exceptions[key]?.skipped)
+    .map((key) => {
+      const exception = exceptions[key] ?? {};
+      const date = exception.date ?? key;
+      return {
+        ...task,
+        event: exception.event ?? task.event,
+        description: exception.description ?? task.description,
+        date,
+        completed: completed.has(key),
+        occurrence_date: key,
+      };
+    })
+    .filter(({ date }) => date >= from && date <= to);
+}
+
+/**
+ * "Every day until 4/2/2026", "Every 2 weeks on Mon, Thu, 10 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule, start: string): string {
+  const interval = Math.max(rule.interval || 1, 1);
+  const unit = rule.frequency === "daily" ? "day" : "week";
+  let description = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === "weekly") {
+    const weekdays = [...getWeekdays(rule, fromDateKey(start))].sort();
+    description += ` on ${weekdays.map((day) => WEEKDAYS[day]).join(", ")}`;
+  }
+  if (rule.until) {
+    const until = fromDateKey(rule.until);
+    description += ` until ${until.getMonth() + 1}/${until.getDate()}/${until.getFullYear()}`;
+  }
+  if (rule.count) {
+    description += rule.count === 1 ? ", once" : `, ${rule.count} times`;
+  }
+  return description;
+}
+
+// ---------------------
+// EDITING SERIES
+// ---------------------
+
+export type SeriesFields = Pick<
+  RecurringTask,
+  "date" | "recurrence" | "completed_dates" | "exceptions"
+>;
+
+const pickExceptions = (
+  exceptions: OccurrenceExceptions,
+  keep: (key: string) => boolean,
+): OccurrenceExceptions =>
+  Object.fromEntries(Object.entries(exceptions).filter(([key]) => keep(key)));
+
+/**
+ * Split a series at one of its occurrences, for "this and following" changes.
+ * `before` ends the series the day before the occurrence; `after` is a new
+ * series starting on it, keeping the completions and exceptions from then on.
+ */
+export function splitSeries(
+  task: RecurringTask,
+  occurrenceDate: string,
+): { before: SeriesFields; after: SeriesFields } {
+  const rule = task.recurrence!;
+  const start = getTaskStartDate(task);
+  const dayBefore = toDateKey(addDays(fromDateKey(occurrenceDate), -1));
+  const earlier = getOccurrenceDates(start, rule, dayBefore).length;
+  const completed = task.completed_dates ?? [];
+  const exceptions = task.exceptions ?? {};
+  // Weekly rules keep the weekday the series was created on
+  const weekdays = rule.frequency === "weekly" ? getWeekdays(rule, fromDateKey(start)) : undefined;
+
+  return {
+    before: {
+      date: task.date,
+      recurrence: { ...rule, until: dayBefore, count: rule.count ? earlier : undefined },
+      completed_dates: completed.filter((key) => key < occurrenceDate),
+      exceptions: pickExceptions(exceptions, (key) => key < occurrenceDate),
+    },
+    after: {
+      date: occurrenceDate,
+      recurrence: { ...rule, weekdays, count: rule.count ? rule.count - earlier : undefined },
+      completed_dates: completed.filter((key) => key >= occurrenceDate),
+      exceptions: pickExceptions(exceptions, (key) => key >= occurrenceDate),
+    },
+  };
+}
+
+/**
+ * Move a whole series by a number of days, for "all occurrences" date changes
+ */
+export function shiftSeries(task: RecurringTask, days: number): SeriesFields {
+  const rule = task.recurrence!;
+  const shift = (key: string) => toDateKey(addDays(fromDateKey(key), days));
+  const start = getTaskStartDate(task);
+
+  return {
+    date: shift(start),
+    recurrence: {
+      ...rule,
+      weekdays:
+        rule.frequency === "weekly"
+          ? getWeekdays(rule, fromDateKey(start)).map((day) => (((day + days) % 7) + 7) % 7)
+          : undefined,
+      until: rule.until ? shift(rule.until) : undefined,
+    },
+    completed_dates: (task.completed_dates ?? []).map(shift),
+    exceptions: Object.fromEntries(
+      Object.entries(task.exceptions ?? {}).map(([key, exception]) => [
+        shift(key),
+        exception.date ? { ...exception, date: shift(exception.date) } : exception,
+      ]),
+    ),
+  };
+}
@@ -0,0 +1,269 @@
+import { supabase } from "../../supabaseClient";
+import {
+  ChallengeParticipant,
+  ChallengeTaskCount,
+  ChallengeTemplate,
+  ChallengeTemplateTask,
+} from "@/types/challenges";
+import { addDays, toDateKey } from "../liturgy/calendar";
+import { ChallengeSeason, ChallengeSeasonId } from "../liturgy/seasonalChallenges";
+
+// ---------------------
+// JOINING
+// ---------------------
+
+/**
+ * The lent_tasks rows a member gets on joining a challenge. Recurring tasks run
+ * to the end of the season, starting no earlier than the day the member joins.
+ */
+export function buildChallengeTasks(
+  template: ChallengeTemplate,
+  season: ChallengeSeason,
+  userId: string,
+  today: Date,
+) {
+  const seasonEnd = toDateKey(season.end);
+  const joined = toDateKey(today);
+
+  return template.tasks
+    .map((task, index) => {
+      const first = addDays(season.start, task.start_offset);
+      let date = toDateKey(first);
+      if (task.recurrence && date < joined) date = joined;
+
+      return {
+        user_id: userId,
+        event: task.event,
+        description: task.description,
+        date: date + "T00:00:00",
+        visibility: "Friends",
+        selected_groups: [],
+        completed: false,
+        // Weekly tasks keep the weekday they were planned for
+        recurrence: task.recurrence && {
+          ...task.recurrence,
+          weekdays:
+            task.recurrence.frequency === "weekly"
+              ? task.recurrence.weekdays?.length
+                ? task.recurrence.weekdays
+                : [first.getDay()]
+              : undefined,
+          until: seasonEnd,
+        },
+        template_id: template.id,
+        template_task: index,
+      };
+    })
+    .filter(({ date }) => date.slice(0, 10) <= seasonEnd);
+}
+
+// ---------------------
+// PARTICIPATION
+// ---------------------
+
+export interface ChallengeTaskStats {
+  event: string;
+  // Occurrences up to today (or the end of the season)
+  due: number;
+  completed: number;
+}
+
+export interface ChallengeStats {
+  participants: number;
+  due: number;
+  completed: number;
+  tasks: ChallengeTaskStats[];
+}
+
+export const getCompletionRate = ({ due, completed }: { due: number; completed: number }) =>
+  due === 0 ? 0 : completed / due;
+
+/**
+ * The days of a season whose tasks are due so far: its first day through
+ * today, or through its last day once it's over
+ */
+export const getChallengeDueRange = (season: ChallengeSeason, today: Date) => ({
+  from: toDateKey(season.start),
+  through: toDateKey(today < season.end ? today : season.end),
+});
+
+/**
+ * Participation in a challenge so far, from the counts for each of its tasks.
+ * Tasks nobody has had due yet count as zero.
+ */
+export function summarizeChallenge(
+  template: ChallengeTemplate,
+  participants: number,
+  counts: ChallengeTaskCount[],
+): ChallengeStats {
+  const tasks: ChallengeTaskStats[] = template.tasks.map(({ event }, index) => {
+    const count = counts.find(({ template_task }) => template_task === index);
+    return { event, due: count?.due ?? 0, completed: count?.completed ?? 0 };
+  });
+
+  return {
+    participants,
+    due: tasks.reduce((sum, { due }) => sum + due, 0),
+    completed: tasks.reduce((sum, { completed }) => sum + completed, 0),
+    tasks,
+  };
+}
+
+// ---------------------
+// TEMPLATES
+// ---------------------
+
+/**
+ * Challenges published by the given churches for a season, every year's
+ */
+export async function fetchChallengeTemplates(
+  churchIds: number[],
+  seasonId: ChallengeSeasonId,
+): Promise<ChallengeTemplate[]> {
+  if (churchIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("challenge_templates")
+    .select("*")
+    .in("church_id", churchIds)
+    .eq("season_id", seasonId)
+    .order("year", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ChallengeTemplate[];
+}
+
+/**
+ * Publish a challenge for a church's members (church admins only)
+ */
+export async function createChallengeTemplate(
+  template: Pick<
+    ChallengeTemplate,
+    "church_id" | "season_id" | "year" | "title" | "description" | "tasks" | "created_by"
+  > &
+    Partial<Pick<ChallengeTemplate, "cloned_from">>,
+): Promise<ChallengeTemplate> {
+  const { data, error } = await supabase
+    .from("challenge_templates")
+    .insert(template)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ChallengeTemplate;
+}
+
+/**
+ * Publish an earlier year's challenge again for another year. A year in the
+ * title is updated, e.g. "Advent 2026" becomes "Advent 2027".
+ */
+export function cloneChallengeTemplate(
+  template: ChallengeTemplate,
+  year: number,
+  userId: string,
+): Promise<ChallengeTemplate> {
+  return createChallengeTemplate({
+    church_id: template.church_id,
+    season_id: template.season_id,
+    year,
+    title: template.title.replace(String(template.year), String(year)),
+    description: template.description,
+    tasks: template.tasks,
+    created_by: userId,
+    cloned_from: template.id,
+  });
+}
+
+/**
+ * The challenges the user has joined
+ */
+export async function fetchParticipations(userId: string): Promise<ChallengeParticipant[]> {
+  const { data, error } = await supabase
+    .from("challenge_participants")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+  return (data || []) as ChallengeParticipant[];
+}
+
+/**
+ * Join a challenge, adding its tasks to the user's own
+ */
+export async function joinChallenge(
+  template: ChallengeTemplate,
+  season: ChallengeSeason,
+  userId: string,
+): Promise<ChallengeParticipant> {
+  const { data, error } = await supabase
+    .from("challenge_participants")
+    .insert({ template_id: template.id, user_id: userId })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const tasks = buildChallengeTasks(template, season, userId, new Date());
+  if (tasks.length > 0) {
+    const { error: tasksError } = await supabase.from("lent_tasks").insert(tasks);
+    if (tasksError) throw tasksError;
+  }
+  return data as ChallengeParticipant;
+}
+
+/**
+ * How many members joined a challenge, and how many of each task's days were
+ * due and completed so far across all of them (church admins only)
+ */
+export async function fetchChallengeParticipation(
+  templateId: string,
+  season: ChallengeSeason,
+  today: Date,
+): Promise<{ participants: number; tasks: ChallengeTaskCount[] }> {
+  const { from, through } = getChallengeDueRange(season, today);
+  const [participants, tasks] = await Promise.all([
+    supabase.rpc("challenge_participant_count", { p_template_id: templateId }),
+    supabase.rpc("challenge_task_stats", {
+      p_template_id: templateId,
+      p_from: from,
+      p_through: through,
+    }),
+  ]);
+
+  const error = participants.error || tasks.error;
+  if (error) throw error;
+  return {
+    participants: (participants.data as number) ?? 0,
+    tasks: (tasks.data || []) as ChallengeTaskCount[],
+  };
+}
+
+// ---------------------
+// AUTHORING
+// ---------------------
+
+/**
+ * A template task from the authoring form. `day` is the 1-based day of the
+ * season the task starts on.
+ */
+export function toTemplateTask(
+  event: string,
+  description: string,
+  repeat: "once" | "daily" | "weekly",
+  weekdays: number[],
+  day: number,
+): ChallengeTemplateTask {
+  return {
+    event: event.trim(),
+    description: description.trim(),
+    start_offset: Math.max(day - 1, 0),
+    recurrence:
+      repeat === "once"
+        ? null
+        : {
+            frequency: repeat,
+            interval: 1,
+            weekdays: repeat === "weekly" && weekdays.length ? [...weekdays].sort() : undefined,
+          },
+  };
+}
@@ -0,0 +1,170 @@
+import {
+  getCelebrations,
+  getFirstSundayOfAdvent,
+  getLiturgicalDay,
+  getLiturgicalSeasons,
+  getLiturgicalYear,
+  getOrthodoxEaster,
+  getWesternEaster,
+  ordinal,
+} from "../calendar";
+
+const ymd = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate(),
+  ).padStart(2, "0")}`;
+
+// Months are 1-based here to keep the expectations readable
+const day = (year: number, month: number, date: number) =>
+  getLiturgicalDay(new Date(year, month - 1, date));
+
+describe("liturgical calendar", () => {
+  it("computes Western Easter", () => {
+    expect(ymd(getWesternEaster(2008))).toBe("2008-03-23");
+    expect(ymd(getWesternEaster(2019))).toBe("2019-04-21");
+    expect(ymd(getWesternEaster(2024))).toBe("2024-03-31");
+    expect(ymd(getWesternEaster(2025))).toBe("2025-04-20");
+    expect(ymd(getWesternEaster(2026))).toBe("2026-04-05");
+    expect(ymd(getWesternEaster(2038))).toBe("2038-04-25");
+  });
+
+  it("computes Orthodox Pascha", () => {
+    expect(ymd(getOrthodoxEaster(2023))).toBe("2023-04-16");
+    expect(ymd(getOrthodoxEaster(2024))).toBe("2024-05-05");
+    expect(ymd(getOrthodoxEaster(2025))).toBe("2025-04-20");
+    expect(ymd(getOrthodoxEaster(2026))).toBe("2026-04-12");
+  });
+
+  it("starts the liturgical year on the first Sunday of Advent", () => {
+    expect(ymd(getFirstSundayOfAdvent(2023))).toBe("2023-12-03");
+    expect(ymd(getFirstSundayOfAdvent(2025))).toBe("2025-11-30");
+    expect(ymd(getFirstSundayOfAdvent(2026))).toBe("2026-11-29");
+    expect(getLiturgicalYear(new Date(2025, 10, 29))).toBe(2025);
+    expect(getLiturgicalYear(new Date(2025, 10, 30))).toBe(2026);
+  });
+
+  it("names Sundays and weekdays by season and week", () => {
+    expect(day(2025, 11, 30)).toMatchObject({ key: "advent-1-sun", season: "advent", week: 1 });
+    expect(day(2025, 12, 17).key).toBe("advent-3-wed");
+    expect(day(2026, 1, 18)).toMatchObject({
+      key: "ordinary-2-sun",
+      title: "2nd Sunday in Ordinary Time",
+    });
+    expect(day(2026, 2, 19).title).toBe("Thursday after Ash Wednesday");
+    expect(day(2026, 3, 8).key).toBe("lent-3-sun");
+    expect(day(2026, 4, 14)).toMatchObject({
+      key: "easter-2-tue",
+      title: "Tuesday of the 2nd Week of Easter",
+    });
+    expect(day(2026, 10, 18).key).toBe("ordinary-29-sun");
+  });
+
+  it("places the movable feasts", () => {
+    expect(day(2026, 2, 18).key).toBe("ash-wednesday");
+    expect(day(2026, 3, 29).key).toBe("palm-sunday");
+    expect(day(2026, 4, 2)).toMatchObject({ key: "holy-thursday", season: "triduum" });
+    expect(day(2026, 4, 5).key).toBe("easter-sunday");
+    expect(day(2026, 4, 6).key).toBe("easter-1-mon");
+    expect(day(2026, 5, 17).key).toBe("ascension");
+    expect(day(2026, 5, 24).key).toBe("pentecost");
+    expect(day(2026, 5, 25)).toMatchObject({ key: "ordinary-8-mon", season: "ordinary" });
+    expect(day(2026, 5, 31).key).toBe("trinity");
+    expect(day(2026, 6, 7).key).toBe("corpus-christi");
+    expect(day(2026, 11, 22)).toMatchObject({ key: "christ-the-king", week: 34 });
+  });
+
+  it("follows Christmas Time into the new year", () => {
+    expect(day(2025, 12, 25).key).toBe("christmas");
+    expect(day(2025, 12, 28).key).toBe("holy-family");
+    // With no Sunday in the octave, the Holy Family moves to December 30
+    expect(day(2022, 12, 30).key).toBe("holy-family");
+    expect(day(2025, 12, 29).key).toBe("christmas-12-29");
+    expect(day(2026, 1, 1).key).toBe("mary-mother-of-god");
+    expect(day(2026, 1, 4).key).toBe("epiphany");
+    expect(day(2026, 1, 11).key).toBe("baptism");
+    expect(day(2026, 1, 12).key).toBe("ordinary-1-mon");
+    // Epiphany on January 8 moves the Baptism to Monday
+    expect(day(2023, 1, 8).key).toBe("epiphany");
+    expect(day(2023, 1, 9).key).toBe("baptism");
+    expect(day(2023, 1, 15).key).toBe("ordinary-2-sun");
+  });
+
+  it("lets solemnities take the place of Sundays and weekdays", () => {
+    expect(day(2026, 11, 1)).toMatchObject({
+      key: "all-saints",
+      title: "All Saints",
+      season: "ordinary",
+      week: 31,
+    });
+    expect(day(2025, 6, 29).key).toBe("peter-and-paul");
+    expect(day(2026, 8, 15).key).toBe("assumption");
+    expect(day(2026, 6, 12).key).toBe("sacred-heart");
+    expect(day(2025, 12, 8).key).toBe("immaculate-conception");
+    // Moved off a Sunday of Lent and out of Holy Week
+    expect(day(2023, 3, 19).key).toBe("lent-4-sun");
+    expect(day(2023, 3, 20).key).toBe("st-joseph");
+    expect(day(2024, 3, 25).key).toBe("holy-week-mon");
+    expect(day(2024, 4, 8).key).toBe("annunciation");
+  });
+
+  it("divides the liturgical year into seasons without gaps", () => {
+    const seasons = getLiturgicalSeasons(2026);
+    expect(seasons.map((s) => s.season)).toEqual([
+      "advent",
+      "christmas",
+      "ordinary",
+      "lent",
+      "triduum",
+      "easter",
+      "ordinary",
+    ]);
+    expect(ymd(seasons[0].start)).toBe("2025-11-30");
+    expect(ymd(seasons[3].start)).toBe("2026-02-18");
+    expect(ymd(seasons[6].end)).toBe("2026-11-28");
+    seasons.slice(1).forEach((season, i) => {
+      const dayAfter = new Date(seasons[i].end);
+      dayAfter.setDate(dayAfter.getDate() + 1);
+      expect(ymd(season.start)).toBe(ymd(dayAfter));
+    });
+  });
+
+  it("lists celebrations by denomination", () => {
+    const find = (year: number, denomination: string, key: string) =>
+      getCelebrations(year, denomination).find((c) => c.key === key);
+
+    expect(ymd(find(2026, "catholic", "sacred-heart")!.date)).toBe("2026-06-12");
+    expect(find(2025, "catholic", "assumption")!.holyDayOfObligation).toBe(true);
+    expect(find(2026, "catholic", "assumption")!.holyDayOfObligation).toBe(false);
+    // Not a day of obligation on a Saturday (2026) or Monday (2027)
+    expect(find(2027, "catholic", "all-saints")!.holyDayOfObligation).toBe(false);
+    // The Annunciation falls in Holy Week in 2024 and moves after the Easter octave
+    expect(ymd(find(2024, "catholic", "annunciation")!.date)).toBe("2024-04-08");
+    // Saint Joseph on a Sunday of Lent moves to Monday
+    expect(ymd(find(2023, "catholic", "st-joseph")!.date)).toBe("2023-03-20");
+    expect(ymd(find(2024, "catholic", "immaculate-conception")!.date)).toBe("2024-12-09");
+
+    expect(ymd(find(2024, "orthodox", "pascha")!.date)).toBe("2024-05-05");
+    expect(ymd(find(2024, "orthodox", "clean-monday")!.date)).toBe("2024-03-18");
+    expect(find(2026, "lutheran", "reformation")).toBeDefined();
+    expect(find(2026, "baptist", "reformation")).toBeUndefined();
+    expect(ymd(find(2026, "baptist", "ascension")!.date)).toBe("2026-05-14");
+
+    const dates = getCelebrations(2026, "catholic").map((c) => c.date.getTime());
+    expect(dates).toEqual([...dates].sort((a, b) => a - b));
+  });
+
+  it("formats ordinals", () => {
+    expect([1, 2, 3, 4, 11, 12, 13, 21, 22, 33].map(ordinal)).toEqual([
+      "1st",
+      "2nd",
+      "3rd",
+      "4th",
+      "11th",
+      "12th",
+      "13th",
+      "21st",
+      "22nd",
+      "33rd",
+    ]);
+  });
+});
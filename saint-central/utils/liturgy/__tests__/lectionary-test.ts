@@ -0,0 +1,112 @@
+import { getVerseCount } from "../../bible/canon";
+import { parseReference } from "../../bible/references";
+import {
+  getDailyReadings,
+  getReadingPassage,
+  getSundayCycle,
+  getWeekdayCycle,
+} from "../lectionary";
+import { LECTIONARY } from "../lectionaryReadings";
+
+describe("lectionary", () => {
+  it("computes the Sunday and weekday cycles", () => {
+    expect([2023, 2024, 2025, 2026].map(getSundayCycle)).toEqual(["A", "B", "C", "A"]);
+    expect([2025, 2026].map(getWeekdayCycle)).toEqual(["I", "II"]);
+
+    // Advent 2025 begins Year A and weekday cycle II
+    const advent = getDailyReadings(new Date(2025, 10, 30));
+    expect(advent.sundayCycle).toBe("A");
+    expect(advent.weekdayCycle).toBe("II");
+    expect(advent.readings?.gospel).toBe("Matt 24:37-44");
+
+    const lastSunday = getDailyReadings(new Date(2025, 10, 23));
+    expect(lastSunday.sundayCycle).toBe("C");
+    expect(lastSunday.readings?.gospel).toBe("Luke 23:35-43");
+  });
+
+  it("bundles every Sunday for all three cycles", () => {
+    const sundays = [
+      ...[1, 2, 3, 4].map((week) => `advent-${week}-sun`),
+      ...[1, 2, 3, 4, 5].map((week) => `lent-${week}-sun`),
+      ...[2, 3, 4, 5, 6].map((week) => `easter-${week}-sun`),
+      ...Array.from({ length: 32 }, (_, i) => `ordinary-${i + 2}-sun`),
+    ];
+    sundays.forEach((key) => {
+      const entry = LECTIONARY[key];
+      expect(entry.A?.secondReading ?? entry.all?.secondReading).toBeTruthy();
+      expect(entry.B ?? entry.all).toBeTruthy();
+      expect(entry.C ?? entry.all).toBeTruthy();
+    });
+  });
+
+  it("bundles the weekdays of both cycles", () => {
+    // Monday of the 29th Week in Ordinary Time, Year II
+    const monday = getDailyReadings(new Date(2026, 9, 19));
+    expect(monday.weekdayCycle).toBe("II");
+    expect(monday.readings).toEqual({
+      firstReading: "Eph 2:1-10",
+      psalm: "Ps 100",
+      gospel: "Luke 12:13-21",
+    });
+    expect(getDailyReadings(new Date(2025, 9, 20)).readings?.firstReading).toBe("Rom 4:20-25");
+
+    // Late Advent by date, and the weekdays after Epiphany by weekday
+    expect(getDailyReadings(new Date(2025, 11, 17)).readings?.gospel).toBe("Matt 1:1-17");
+    expect(getDailyReadings(new Date(2022, 10, 28)).readings?.gospel).toBe("Matt 8:5-11");
+    expect(getDailyReadings(new Date(2026, 0, 2)).readings?.gospel).toBe("John 1:19-28");
+    expect(getDailyReadings(new Date(2026, 0, 5)).readings?.gospel).toBe("Matt 4:12-17, 23-25");
+
+    // Every day has readings but Holy Saturday, whose Mass is the Easter Vigil
+    const missing: string[] = [];
+    for (let date = new Date(2025, 0, 1); date.getFullYear() < 2028; ) {
+      const { day, readings } = getDailyReadings(date);
+      if (!readings) missing.push(day.key);
+      date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+    }
+    expect([...new Set(missing)]).toEqual(["holy-saturday"]);
+  });
+
+  it("reads the solemnity when it falls on a Sunday", () => {
+    const allSaints = getDailyReadings(new Date(2026, 10, 1));
+    expect(allSaints.day.key).toBe("all-saints");
+    expect(allSaints.readings?.gospel).toBe("Matt 5:1-12");
+    expect(getDailyReadings(new Date(2025, 5, 29)).readings?.gospel).toBe("Matt 16:13-19");
+  });
+
+  it("uses readable references that exist in the KJV", () => {
+    Object.values(LECTIONARY).forEach((entry) =>
+      Object.values(entry).forEach((readings) =>
+        Object.values(readings!).forEach((reference) => {
+          const passages = parseReference(reference as string);
+          expect(passages.length).toBeGreaterThan(0);
+          passages.forEach(({ book, startChapter, endChapter, endVerse }) => {
+            const verses = getVerseCount("KJV_bible", book, endChapter ?? startChapter!);
+            // Deuterocanonical books and the Song of the Three have no KJV counts
+            if (verses !== null && book !== "Daniel") {
+              expect(endVerse ?? 1).toBeLessThanOrEqual(verses);
+            }
+          });
+        }),
+      ),
+    );
+  });
+
+  it("opens readings in the version's numbering", () => {
+    expect(getReadingPassage("Ps 23", "CPDV_bible")).toMatchObject({
+      book: "Psalms",
+      startChapter: 22,
+    });
+    expect(getReadingPassage("Ps 23", "KJV_bible")).toMatchObject({ startChapter: 23 });
+    expect(getReadingPassage("Dan 3:52-55", "CPDV_bible")).toMatchObject({
+      startChapter: 3,
+      startVerse: 52,
+    });
+    expect(getReadingPassage("Gen 2:7-9; 3:1-7", "KJV_bible")).toEqual({
+      book: "Genesis",
+      startChapter: 2,
+      startVerse: 7,
+      endChapter: 2,
+      endVerse: 9,
+    });
+  });
+});
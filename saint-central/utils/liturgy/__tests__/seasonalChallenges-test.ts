@@ -0,0 +1,63 @@
+import {
+  getAdjacentChallengeSeason,
+  getChallengeSeason,
+  getSeasonGuide,
+  getSeasonProgress,
+} from "../seasonalChallenges";
+import { toDateKey } from "../calendar";
+
+describe("seasonal challenges", () => {
+  it("follows the season under way, then the next one", () => {
+    const lent = getChallengeSeason(new Date(2026, 2, 1), "catholic");
+    expect(lent.title).toBe("Lent 2026");
+    expect(toDateKey(lent.start)).toBe("2026-02-18");
+    expect(toDateKey(lent.end)).toBe("2026-04-04");
+
+    const advent = getChallengeSeason(new Date(2026, 4, 1), "catholic");
+    expect(advent.title).toBe("Advent 2026");
+    expect(toDateKey(advent.start)).toBe("2026-11-29");
+
+    // After Christmas Eve the next Lent is already ahead
+    expect(getChallengeSeason(new Date(2026, 11, 26)).title).toBe("Lent 2027");
+  });
+
+  it("keeps Great Lent and the Nativity Fast for the Orthodox", () => {
+    const lent = getChallengeSeason(new Date(2024, 2, 1), "orthodox");
+    expect(lent.title).toBe("Great Lent 2024");
+    expect(toDateKey(lent.start)).toBe("2024-03-18");
+    expect(toDateKey(lent.end)).toBe("2024-05-04");
+
+    const fast = getAdjacentChallengeSeason(lent, 1, "orthodox");
+    expect(fast.title).toBe("Nativity Fast 2024");
+    expect(toDateKey(fast.start)).toBe("2024-11-15");
+  });
+
+  it("steps between seasons across years", () => {
+    const lent = getChallengeSeason(new Date(2026, 2, 1));
+    expect(getAdjacentChallengeSeason(lent, -1).title).toBe("Advent 2025");
+    expect(getAdjacentChallengeSeason(lent, 1).title).toBe("Advent 2026");
+  });
+
+  it("reports progress through a season", () => {
+    const lent = getChallengeSeason(new Date(2026, 2, 1));
+    expect(getSeasonProgress(lent, new Date(2026, 1, 18))).toMatchObject({
+      status: "current",
+      day: 1,
+      totalDays: 46,
+    });
+    expect(getSeasonProgress(lent, new Date(2026, 1, 8))).toMatchObject({
+      status: "upcoming",
+      daysUntil: 10,
+    });
+    expect(getSeasonProgress(lent, new Date(2026, 3, 5)).status).toBe("past");
+  });
+
+  it("dates the guide from the season and its celebrations", () => {
+    const guide = getSeasonGuide(getChallengeSeason(new Date(2027, 0, 10), "catholic"), "catholic");
+    const ashWednesday = guide.find((event) => event.title === "Ash Wednesday");
+    expect(ashWednesday?.date).toBe("2027-02-10");
+    expect(guide.find((event) => event.title === "Silent Prayer")?.date).toBe("2027-02-11");
+    expect(guide.some((event) => event.title.startsWith("Good Friday"))).toBe(true);
+    expect(guide.map((event) => event.date)).toEqual([...guide.map((e) => e.date)].sort());
+  });
+});
@@ -0,0 +1,717 @@
+// The church year. Liturgical days follow the Roman calendar as celebrated in the United
+// States: Epiphany, the Ascension and Corpus Christi are kept on the following Sunday.
+// Celebrations are listed per denomination (the ids chosen in selectDenomination).
+// A Roman solemnity takes the place of the Sunday or weekday it falls on.
+
+export type LiturgicalSeason = "advent" | "christmas" | "lent" | "triduum" | "easter" | "ordinary";
+
+export interface LiturgicalDay {
+  // Lectionary key, e.g. "advent-1-sun", "ordinary-14-wed" or "pentecost"
+  key: string;
+  title: string;
+  season: LiturgicalSeason;
+  // Week of the season; 0 for the days after Ash Wednesday and in Christmas Time
+  week: number;
+  // The calendar year in which the liturgical year ends (Advent 2025 begins 2026)
+  liturgicalYear: number;
+}
+
+export const WEEKDAY_KEYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// "Jan", "Feb", ...
+export const SHORT_MONTH_NAMES = MONTH_NAMES.map((name) => name.slice(0, 3));
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// "YYYY-MM-DD" in local time
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate(),
+  ).padStart(2, "0")}`;
+
+// The local date a "YYYY-MM-DD" key stands for
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Whole days from a to b, unaffected by daylight saving changes
+export const daysBetween = (a: Date, b: Date): number =>
+  Math.round(
+    (Date.UTC(b.getFullYear(), b.getMonth(), b.getDate()) -
+      Date.UTC(a.getFullYear(), a.getMonth(), a.getDate())) /
+      MS_PER_DAY,
+  );
+
+/**
+ * "1st", "2nd", "23rd", "11th"
+ */
+export function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+}
+
+/**
+ * Easter Sunday in the Gregorian calendar (the anonymous Gregorian algorithm)
+ */
+export function getWesternEaster(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Orthodox Pascha: the Julian computus, moved onto the Gregorian calendar
+ */
+export function getOrthodoxEaster(year: number): Date {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+  // The Julian calendar runs 13 days behind from 1900 to 2099
+  const offset = Math.floor(year / 100) - Math.floor(year / 400) - 2;
+  return new Date(year, month - 1, day + offset);
+}
+
+/**
+ * Easter Sunday as kept by a denomination
+ */
+export const getEaster = (year: number, denomination?: string | null): Date =>
+  denomination === "orthodox" ? getOrthodoxEaster(year) : getWesternEaster(year);
+
+/**
+ * The first Sunday of Advent: the fourth Sunday before Christmas
+ */
+export function getFirstSundayOfAdvent(year: number): Date {
+  const christmas = new Date(year, 11, 25);
+  return addDays(christmas, -(christmas.getDay() || 7) - 21);
+}
+
+/**
+ * Epiphany: the Sunday between January 2 and 8
+ */
+export function getEpiphany(year: number): Date {
+  const jan2 = new Date(year, 0, 2);
+  return addDays(jan2, (7 - jan2.getDay()) % 7);
+}
+
+/**
+ * The Baptism of the Lord: the Sunday after Epiphany, or the Monday after
+ * when Epiphany falls on January 7 or 8
+ */
+export function getBaptismOfTheLord(year: number): Date {
+  const epiphany = getEpiphany(year);
+  return addDays(epiphany, epiphany.getDate() >= 7 ? 1 : 7);
+}
+
+/**
+ * The year in which the liturgical year containing a date ends
+ */
+export function getLiturgicalYear(date: Date): number {
+  const year = date.getFullYear();
+  return startOfDay(date) >= getFirstSundayOfAdvent(year) ? year + 1 : year;
+}
+
+// A day known by its week and weekday, e.g. "Monday of the 2nd Week of Easter"
+const weekDay = (
+  season: LiturgicalSeason,
+  seasonName: string,
+  week: number,
+  date: Date,
+  liturgicalYear: number,
+): LiturgicalDay => {
+  const weekday = date.getDay();
+  return {
+    key: `${season}-${week}-${WEEKDAY_KEYS[weekday]}`,
+    title:
+      weekday === 0
+        ? `${ordinal(week)} Sunday ${seasonName}`
+        : `${WEEKDAY_NAMES[weekday]} of the ${ordinal(week)} Week ${seasonName}`,
+    season,
+    week,
+    liturgicalYear,
+  };
+};
+
+const feast = (
+  key: string,
+  title: string,
+  season: LiturgicalSeason,
+  week: number,
+  liturgicalYear: number,
+): LiturgicalDay => ({ key, title, season, week, liturgicalYear });
+
+/**
+ * The liturgical day for a date: its season, week and lectionary key
+ */
+export function getLiturgicalDay(input: Date): LiturgicalDay {
+  const day = getSeasonalDay(input);
+  // The Roman calendar already moves solemnities off the days that outrank them
+  const solemnity = getCelebrationsOn(startOfDay(input), "catholic").find(
+    (celebration) => celebration.rank === "solemnity",
+  );
+  if (!solemnity || solemnity.key === day.key) return day;
+  return { ...day, key: solemnity.key, title: solemnity.title };
+}
+
+// The day of the season a date falls on, before any solemnity
+function getSeasonalDay(input: Date): LiturgicalDay {
+  const date = startOfDay(input);
+  const year = date.getFullYear();
+  const weekday = date.getDay();
+  const liturgicalYear = getLiturgicalYear(date);
+
+  const advent = getFirstSundayOfAdvent(year);
+  const christmas = new Date(year, 11, 25);
+
+  // Advent and the Christmas days in December
+  if (date >= advent && date < christmas) {
+    return weekDay(
+      "advent",
+      "of Advent",
+      Math.floor(daysBetween(advent, date) / 7) + 1,
+      date,
+      liturgicalYear,
+    );
+  }
+  if (date >= christmas) {
+    if (daysBetween(christmas, date) === 0) {
+      return feast(
+        "christmas",
+        "The Nativity of the Lord (Christmas)",
+        "christmas",
+        0,
+        liturgicalYear,
+      );
+    }
+    // The Sunday in the octave, or December 30 when Christmas is a Sunday
+    const holyFamily =
+      christmas.getDay() === 0
+        ? new Date(year, 11, 30)
+        : addDays(christmas, 7 - christmas.getDay());
+    if (daysBetween(holyFamily, date) === 0) {
+      return feast(
+        "holy-family",
+        "The Holy Family of Jesus, Mary and Joseph",
+        "christmas",
+        0,
+        liturgicalYear,
+      );
+    }
+    return christmasWeekday(date, liturgicalYear);
+  }
+
+  // Christmas Time in January
+  const epiphany = getEpiphany(year);
+  const baptism = getBaptismOfTheLord(year);
+  if (date.getMonth() === 0 && date.getDate() === 1) {
+    return feast(
+      "mary-mother-of-god",
+      "Mary, the Holy Mother of God",
+      "christmas",
+      0,
+      liturgicalYear,
+    );
+  }
+  if (daysBetween(epiphany, date) === 0) {
+    return feast("epiphany", "The Epiphany of the Lord", "christmas", 0, liturgicalYear);
+  }
+  if (daysBetween(baptism, date) === 0) {
+    return feast("baptism", "The Baptism of the Lord", "christmas", 0, liturgicalYear);
+  }
+  if (date < baptism) return christmasWeekday(date, liturgicalYear);
+
+  const easter = getWesternEaster(year);
+  const ashWednesday = addDays(easter, -46);
+  const pentecost = addDays(easter, 49);
+
+  // Ordinary Time before Lent; the week of the Baptism is the first week
+  if (date < ashWednesday) {
+    const firstSunday = addDays(baptism, -baptism.getDay());
+    const week = Math.floor(daysBetween(firstSunday, date) / 7) + 1;
+    return weekDay("ordinary", "in Ordinary Time", week, date, liturgicalYear);
+  }
+
+  // Lent, Holy Week and the Triduum
+  const fromEaster = daysBetween(easter, date);
+  if (fromEaster < 0) {
+    if (fromEaster === -46) {
+      return feast("ash-wednesday", "Ash Wednesday", "lent", 0, liturgicalYear);
+    }
+    if (fromEaster < -42) {
+      return feast(
+        `lent-0-${WEEKDAY_KEYS[weekday]}`,
+        `${WEEKDAY_NAMES[weekday]} after Ash Wednesday`,
+        "lent",
+        0,
+        liturgicalYear,
+      );
+    }
+    if (fromEaster === -7) {
+      return feast(
+        "palm-sunday",
+        "Palm Sunday of the Passion of the Lord",
+        "lent",
+        6,
+        liturgicalYear,
+      );
+    }
+    if (fromEaster > -7 && fromEaster < -3) {
+      return feast(
+        `holy-week-${WEEKDAY_KEYS[weekday]}`,
+        `${WEEKDAY_NAMES[weekday]} of Holy Week`,
+        "lent",
+        6,
+        liturgicalYear,
+      );
+    }
+    if (fromEaster === -3) {
+      return feast("holy-thursday", "Holy Thursday", "triduum", 0, liturgicalYear);
+    }
+    if (fromEaster === -2) {
+      return feast(
+        "good-friday",
+        "Good Friday of the Passion of the Lord",
+        "triduum",
+        0,
+        liturgicalYear,
+      );
+    }
+    if (fromEaster === -1) {
+      return feast("holy-saturday", "Holy Saturday", "triduum", 0, liturgicalYear);
+    }
+    const week = Math.floor((fromEaster + 42) / 7) + 1;
+    return weekDay("lent", "of Lent", week, date, liturgicalYear);
+  }
+
+  // Easter Time
+  if (fromEaster === 0) {
+    return feast(
+      "easter-sunday",
+      "Easter Sunday of the Resurrection of the Lord",
+      "easter",
+      1,
+      liturgicalYear,
+    );
+  }
+  if (fromEaster === 42) {
+    return feast("ascension", "The Ascension of the Lord", "easter", 7, liturgicalYear);
+  }
+  if (fromEaster === 49) {
+    return feast("pentecost", "Pentecost Sunday", "easter", 8, liturgicalYear);
+  }
+  if (fromEaster < 49) {
+    const week = Math.floor(fromEaster / 7) + 1;
+    if (week === 1) {
+      return feast(
+        `easter-1-${WEEKDAY_KEYS[weekday]}`,
+        `${WEEKDAY_NAMES[weekday]} within the Octave of Easter`,
+        "easter",
+        1,
+        liturgicalYear,
+      );
+    }
+    return weekDay("easter", "of Easter", week, date, liturgicalYear);
+  }
+
+  // Ordinary Time after Pentecost, counted back from Christ the King in the 34th week
+  const christTheKing = addDays(advent, -7);
+  const week = 34 - daysBetween(addDays(date, -weekday), christTheKing) / 7;
+  const sincePentecost = daysBetween(pentecost, date);
+  if (sincePentecost === 7) {
+    return feast("trinity", "The Most Holy Trinity", "ordinary", week, liturgicalYear);
+  }
+  if (sincePentecost === 14) {
+    return feast(
+      "corpus-christi",
+      "The Most Holy Body and Blood of Christ",
+      "ordinary",
+      week,
+      liturgicalYear,
+    );
+  }
+  if (daysBetween(christTheKing, date) === 0) {
+    return feast(
+      "christ-the-king",
+      "Our Lord Jesus Christ, King of the Universe",
+      "ordinary",
+      34,
+      liturgicalYear,
+    );
+  }
+  return weekDay("ordinary", "in Ordinary Time", week, date, liturgicalYear);
+}
+
+// Weekdays of Christmas Time are known by their date, e.g. "christmas-12-29"
+const christmasWeekday = (date: Date, liturgicalYear: number): LiturgicalDay =>
+  feast(
+    `christmas-${date.getMonth() + 1}-${date.getDate()}`,
+    `${MONTH_NAMES[date.getMonth()]} ${date.getDate()}`,
+    "christmas",
+    0,
+    liturgicalYear,
+  );
+
+// ---------------------
+// SEASONS
+// ---------------------
+
+export interface SeasonSpan {
+  season: LiturgicalSeason;
+  // First and last day, inclusive
+  start: Date;
+  end: Date;
+}
+
+/**
+ * The seasons of a liturgical year in order, from Advent to the last week of
+ * Ordinary Time. Easter Time runs through Pentecost.
+ */
+export function getLiturgicalSeasons(liturgicalYear: number): SeasonSpan[] {
+  const advent = getFirstSundayOfAdvent(liturgicalYear - 1);
+  const christmas = new Date(liturgicalYear - 1, 11, 25);
+  const baptism = getBaptismOfTheLord(liturgicalYear);
+  const easter = getWesternEaster(liturgicalYear);
+  const nextAdvent = getFirstSundayOfAdvent(liturgicalYear);
+
+  return [
+    { season: "advent", start: advent, end: addDays(christmas, -1) },
+    { season: "christmas", start: christmas, end: baptism },
+    { season: "ordinary", start: addDays(baptism, 1), end: addDays(easter, -47) },
+    { season: "lent", start: addDays(easter, -46), end: addDays(easter, -4) },
+    { season: "triduum", start: addDays(easter, -3), end: addDays(easter, -1) },
+    { season: "easter", start: easter, end: addDays(easter, 49) },
+    { season: "ordinary", start: addDays(easter, 50), end: addDays(nextAdvent, -1) },
+  ];
+}
+
+// ---------------------
+// CELEBRATIONS
+// ---------------------
+
+export type CelebrationRank = "solemnity" | "feast" | "observance";
+
+export interface Celebration {
+  key: string;
+  title: string;
+  date: Date;
+  rank: CelebrationRank;
+  holyDayOfObligation?: boolean;
+}
+
+// Protestant traditions that keep the fuller church year
+const LITURGICAL_PROTESTANT = new Set(["anglican", "lutheran", "methodist", "presbyterian"]);
+
+const isSunday = (date: Date) => date.getDay() === 0;
+const sameDay = (a: Date, b: Date) => daysBetween(a, b) === 0;
+
+// Roman solemnities move off the Sundays of Lent, Holy Week and the Octave of Easter
+function transferSolemnity(date: Date, easter: Date, holyWeekTo: Date): Date {
+  const fromEaster = daysBetween(easter, date);
+  if (fromEaster >= -7 && fromEaster <= 7) return holyWeekTo;
+  if (fromEaster > -46 && fromEaster < -7 && isSunday(date)) return addDays(date, 1);
+  return date;
+}
+
+// In the United States the obligation lapses when these fall on a Saturday or Monday
+const usObligation = (date: Date) => date.getDay() !== 1 && date.getDay() !== 6;
+
+function getCatholicCelebrations(year: number): Celebration[] {
+  const easter = getWesternEaster(year);
+  const advent = getFirstSundayOfAdvent(year);
+  const pentecost = addDays(easter, 49);
+  const maryMother = new Date(year, 0, 1);
+  const assumption = new Date(year, 7, 15);
+  const allSaints = new Date(year, 10, 1);
+  const immaculate = new Date(year, 11, 8);
+
+  return [
+    {
+      key: "mary-mother-of-god",
+      title: "Mary, the Holy Mother of God",
+      date: maryMother,
+      rank: "solemnity",
+      holyDayOfObligation: usObligation(maryMother),
+    },
+    {
+      key: "epiphany",
+      title: "The Epiphany of the Lord",
+      date: getEpiphany(year),
+      rank: "solemnity",
+    },
+    {
+      key: "baptism",
+      title: "The Baptism of the Lord",
+      date: getBaptismOfTheLord(year),
+      rank: "feast",
+    },
+    {
+      key: "ash-wednesday",
+      title: "Ash Wednesday",
+      date: addDays(easter, -46),
+      rank: "observance",
+    },
+    {
+      key: "st-joseph",
+      title: "Saint Joseph, Spouse of the Blessed Virgin Mary",
+      date: transferSolemnity(new Date(year, 2, 19), easter, addDays(easter, -8)),
+      rank: "solemnity",
+    },
+    {
+      key: "annunciation",
+      title: "The Annunciation of the Lord",
+      date: transferSolemnity(new Date(year, 2, 25), easter, addDays(easter, 8)),
+      rank: "solemnity",
+    },
+    {
+      key: "palm-sunday",
+      title: "Palm Sunday of the Passion of the Lord",
+      date: addDays(easter, -7),
+      rank: "observance",
+    },
+    { key: "holy-thursday", title: "Holy Thursday", date: addDays(easter, -3), rank: "observance" },
+    {
+      key: "good-friday",
+      title: "Good Friday of the Passion of the Lord",
+      date: addDays(easter, -2),
+      rank: "observance",
+    },
+    {
+      key: "easter-sunday",
+      title: "Easter Sunday of the Resurrection of the Lord",
+      date: easter,
+      rank: "solemnity",
+      holyDayOfObligation: true,
+    },
+    {
+      key: "ascension",
+      title: "The Ascension of the Lord",
+      date: addDays(easter, 42),
+      rank: "solemnity",
+    },
+    { key: "pentecost", title: "Pentecost Sunday", date: pentecost, rank: "solemnity" },
+    {
+      key: "trinity",
+      title: "The Most Holy Trinity",
+      date: addDays(pentecost, 7),
+      rank: "solemnity",
+    },
+    {
+      key: "corpus-christi",
+      title: "The Most Holy Body and Blood of Christ",
+      date: addDays(pentecost, 14),
+      rank: "solemnity",
+    },
+    {
+      key: "sacred-heart",
+      title: "The Most Sacred Heart of Jesus",
+      date: addDays(pentecost, 19),
+      rank: "solemnity",
+    },
+    {
+      key: "john-the-baptist",
+      title: "The Nativity of Saint John the Baptist",
+      date: new Date(year, 5, 24),
+      rank: "solemnity",
+    },
+    {
+      key: "peter-and-paul",
+      title: "Saints Peter and Paul, Apostles",
+      date: new Date(year, 5, 29),
+      rank: "solemnity",
+    },
+    {
+      key: "assumption",
+      title: "The Assumption of the Blessed Virgin Mary",
+      date: assumption,
+      rank: "solemnity",
+      holyDayOfObligation: usObligation(assumption),
+    },
+    {
+      key: "all-saints",
+      title: "All Saints",
+      date: allSaints,
+      rank: "solemnity",
+      holyDayOfObligation: usObligation(allSaints),
+    },
+    {
+      key: "christ-the-king",
+      title: "Our Lord Jesus Christ, King of the Universe",
+      date: addDays(advent, -7),
+      rank: "solemnity",
+    },
+    { key: "advent", title: "First Sunday of Advent", date: advent, rank: "observance" },
+    {
+      key: "immaculate-conception",
+      title: "The Immaculate Conception of the Blessed Virgin Mary",
+      // Moved to Monday when it falls on a Sunday of Advent
+      date: isSunday(immaculate) ? new Date(year, 11, 9) : immaculate,
+      rank: "solemnity",
+      holyDayOfObligation: true,
+    },
+    {
+      key: "christmas",
+      title: "The Nativity of the Lord (Christmas)",
+      date: new Date(year, 11, 25),
+      rank: "solemnity",
+      holyDayOfObligation: true,
+    },
+  ];
+}
+
+// Fixed feasts follow the Revised Julian (new) calendar
+function getOrthodoxCelebrations(year: number): Celebration[] {
+  const pascha = getOrthodoxEaster(year);
+  const greatFeast = (key: string, title: string, date: Date): Celebration => ({
+    key,
+    title,
+    date,
+    rank: "feast",
+  });
+
+  return [
+    greatFeast("theophany", "Theophany", new Date(year, 0, 6)),
+    greatFeast("meeting-of-the-lord", "The Meeting of the Lord", new Date(year, 1, 2)),
+    { key: "clean-monday", title: "Clean Monday", date: addDays(pascha, -48), rank: "observance" },
+    greatFeast("annunciation", "The Annunciation", new Date(year, 2, 25)),
+    greatFeast("palm-sunday", "Entry of the Lord into Jerusalem", addDays(pascha, -7)),
+    {
+      key: "good-friday",
+      title: "Great and Holy Friday",
+      date: addDays(pascha, -2),
+      rank: "observance",
+    },
+    { key: "pascha", title: "Pascha", date: pascha, rank: "solemnity" },
+    greatFeast("ascension", "The Ascension", addDays(pascha, 39)),
+    greatFeast("pentecost", "Pentecost", addDays(pascha, 49)),
+    greatFeast("transfiguration", "The Transfiguration", new Date(year, 7, 6)),
+    greatFeast("dormition", "The Dormition of the Theotokos", new Date(year, 7, 15)),
+    greatFeast("nativity-of-the-theotokos", "The Nativity of the Theotokos", new Date(year, 8, 8)),
+    greatFeast("exaltation-of-the-cross", "The Exaltation of the Cross", new Date(year, 8, 14)),
+    greatFeast("entry-of-the-theotokos", "The Entry of the Theotokos", new Date(year, 10, 21)),
+    greatFeast("nativity", "The Nativity of Christ", new Date(year, 11, 25)),
+  ];
+}
+
+function getProtestantCelebrations(year: number, denomination?: string | null): Celebration[] {
+  const easter = getWesternEaster(year);
+  const pentecost = addDays(easter, 49);
+  const liturgical = !!denomination && LITURGICAL_PROTESTANT.has(denomination);
+
+  const celebrations: Celebration[] = [
+    { key: "epiphany", title: "Epiphany", date: new Date(year, 0, 6), rank: "feast" },
+    {
+      key: "ash-wednesday",
+      title: "Ash Wednesday",
+      date: addDays(easter, -46),
+      rank: "observance",
+    },
+    { key: "palm-sunday", title: "Palm Sunday", date: addDays(easter, -7), rank: "observance" },
+    {
+      key: "holy-thursday",
+      title: "Maundy Thursday",
+      date: addDays(easter, -3),
+      rank: "observance",
+    },
+    { key: "good-friday", title: "Good Friday", date: addDays(easter, -2), rank: "observance" },
+    { key: "easter-sunday", title: "Easter Sunday", date: easter, rank: "solemnity" },
+    { key: "ascension", title: "Ascension Day", date: addDays(easter, 39), rank: "feast" },
+    { key: "pentecost", title: "Pentecost", date: pentecost, rank: "solemnity" },
+    { key: "trinity", title: "Trinity Sunday", date: addDays(pentecost, 7), rank: "feast" },
+    {
+      key: "advent",
+      title: "First Sunday of Advent",
+      date: getFirstSundayOfAdvent(year),
+      rank: "observance",
+    },
+    { key: "christmas", title: "Christmas Day", date: new Date(year, 11, 25), rank: "solemnity" },
+  ];
+
+  if (denomination === "lutheran") {
+    celebrations.push({
+      key: "reformation",
+      title: "Reformation Day",
+      date: new Date(year, 9, 31),
+      rank: "observance",
+    });
+  }
+  if (liturgical) {
+    celebrations.push(
+      { key: "all-saints", title: "All Saints' Day", date: new Date(year, 10, 1), rank: "feast" },
+      {
+        key: "christ-the-king",
+        title: "Christ the King",
+        date: addDays(getFirstSundayOfAdvent(year), -7),
+        rank: "feast",
+      },
+    );
+  }
+  return celebrations;
+}
+
+/**
+ * The year's solemnities, feasts and holy days for a denomination, in date order.
+ * Catholics get the Roman calendar, the Orthodox the Great Feasts around Pascha,
+ * and everyone else the principal days of the Western church year.
+ */
+export function getCelebrations(year: number, denomination?: string | null): Celebration[] {
+  const celebrations =
+    denomination === "catholic"
+      ? getCatholicCelebrations(year)
+      : denomination === "orthodox"
+        ? getOrthodoxCelebrations(year)
+        : getProtestantCelebrations(year, denomination);
+
+  return celebrations.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Celebrations falling on a date
+ */
+export const getCelebrationsOn = (date: Date, denomination?: string | null): Celebration[] =>
+  getCelebrations(date.getFullYear(), denomination).filter((c) => sameDay(c.date, date));
@@ -0,0 +1,109 @@
+import { getVerseCount, mapPassage } from "../bible/canon";
+import { Passage, parseReference } from "../bible/references";
+import {
+  LiturgicalDay,
+  WEEKDAY_KEYS,
+  daysBetween,
+  getEpiphany,
+  getLiturgicalDay,
+} from "./calendar";
+import { LECTIONARY } from "./lectionaryReadings";
+
+// The lectionary is numbered as in the KJV (so psalms carry their Hebrew numbers)
+export const LECTIONARY_VERSION = "KJV_bible";
+
+export type SundayCycle = "A" | "B" | "C";
+export type WeekdayCycle = "I" | "II";
+
+export interface MassReadings {
+  firstReading: string;
+  // The responsorial psalm or canticle
+  psalm: string;
+  // Sundays and solemnities only
+  secondReading?: string;
+  gospel: string;
+}
+
+// A day's readings: the same every year, or one set per Sunday or weekday cycle
+export type LectionaryEntry = Partial<Record<SundayCycle | WeekdayCycle | "all", MassReadings>>;
+
+export interface DailyReadings {
+  day: LiturgicalDay;
+  sundayCycle: SundayCycle;
+  weekdayCycle: WeekdayCycle;
+  // null when the day's readings aren't bundled
+  readings: MassReadings | null;
+}
+
+export const READING_LABELS: { key: keyof MassReadings; label: string }[] = [
+  { key: "firstReading", label: "First Reading" },
+  { key: "psalm", label: "Responsorial Psalm" },
+  { key: "secondReading", label: "Second Reading" },
+  { key: "gospel", label: "Gospel" },
+];
+
+/**
+ * The Sunday cycle of a liturgical year: Year A when the year ending in it
+ * is divisible by 3 with remainder 1 (2026, 2029), then B and C
+ */
+export const getSundayCycle = (liturgicalYear: number): SundayCycle =>
+  (["C", "A", "B"] as const)[liturgicalYear % 3];
+
+/**
+ * The weekday cycle of a liturgical year: I in odd years, II in even years
+ */
+export const getWeekdayCycle = (liturgicalYear: number): WeekdayCycle =>
+  liturgicalYear % 2 === 1 ? "I" : "II";
+
+/**
+ * The lectionary entry for a day. Weekdays of Advent from December 17 have
+ * readings by date, and weekdays after Epiphany by weekday rather than by date.
+ */
+function getLectionaryKey(day: LiturgicalDay, date: Date): string {
+  const lateAdvent = date.getMonth() === 11 && date.getDate() >= 17;
+  if (day.key.startsWith("advent-") && !day.key.endsWith("-sun") && lateAdvent) {
+    return `advent-12-${date.getDate()}`;
+  }
+  if (
+    day.key.startsWith("christmas-1-") &&
+    daysBetween(getEpiphany(date.getFullYear()), date) > 0
+  ) {
+    return `epiphany-${WEEKDAY_KEYS[date.getDay()]}`;
+  }
+  return day.key;
+}
+
+/**
+ * The Mass readings for a date, picked from the bundled lectionary by the
+ * day's cycle
+ */
+export function getDailyReadings(date: Date): DailyReadings {
+  const day = getLiturgicalDay(date);
+  const sundayCycle = getSundayCycle(day.liturgicalYear);
+  const weekdayCycle = getWeekdayCycle(day.liturgicalYear);
+  const entry = LECTIONARY[getLectionaryKey(day, date)];
+
+  return {
+    day,
+    sundayCycle,
+    weekdayCycle,
+    readings: entry?.[sundayCycle] ?? entry?.[weekdayCycle] ?? entry?.all ?? null,
+  };
+}
+
+/**
+ * Where to open a lectionary reading in a Bible version: the first passage of
+ * the reference, in that version's numbering. Verses past the end of a KJV
+ * chapter (the Song of the Three in Daniel 3) are already numbered as in the Vulgate.
+ */
+export function getReadingPassage(reference: string, version: string): Passage | null {
+  const [passage] = parseReference(reference);
+  if (!passage) return null;
+
+  const { book, startChapter, startVerse } = passage;
+  if (startChapter !== undefined && startVerse !== undefined) {
+    const kjvVerses = getVerseCount(LECTIONARY_VERSION, book, startChapter);
+    if (kjvVerses !== null && startVerse > kjvVerses) return passage;
+  }
+  return mapPassage(passage, LECTIONARY_VERSION, version);
+}
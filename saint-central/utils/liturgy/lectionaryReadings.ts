@@ -0,0 +1,1218 @@
+import type { LectionaryEntry, MassReadings } from "./lectionary";
+
+// The Lectionary for Mass (United States), keyed by liturgical day (see getLiturgicalDay).
+// References use KJV numbering, so a few Old Testament readings differ from the printed
+// lectionary by a verse or chapter (Malachi 3:19 is Malachi 4:1 here). Deuterocanonical
+// readings keep the lectionary's numbering. Where the lectionary offers a choice, the
+// first option is listed.
+//
+// Every Sunday and solemnity is bundled for all three cycles, and every weekday for
+// both weekday cycles. Feasts and memorials of the saints aren't; those days show the
+// weekday's readings.
+
+const sunday = (
+  firstReading: string,
+  psalm: string,
+  secondReading: string,
+  gospel: string,
+): MassReadings => ({ firstReading, psalm, secondReading, gospel });
+
+const weekday = (firstReading: string, psalm: string, gospel: string): MassReadings => ({
+  firstReading,
+  psalm,
+  gospel,
+});
+
+// A weekday in Ordinary Time: a first reading and psalm for each weekday cycle, one Gospel
+const cycles = (
+  yearI: [string, string],
+  yearII: [string, string],
+  gospel: string,
+): LectionaryEntry => ({
+  I: weekday(yearI[0], yearI[1], gospel),
+  II: weekday(yearII[0], yearII[1], gospel),
+});
+
+export const LECTIONARY: Record<string, LectionaryEntry> = {
+  // ---------------------
+  // ADVENT
+  // ---------------------
+  "advent-1-sun": {
+    A: sunday("Isa 2:1-5", "Ps 122", "Rom 13:11-14", "Matt 24:37-44"),
+    B: sunday("Isa 63:16-17; 64:1, 3-8", "Ps 80", "1 Cor 1:3-9", "Mark 13:33-37"),
+    C: sunday("Jer 33:14-16", "Ps 25", "1 Thess 3:12-4:2", "Luke 21:25-28, 34-36"),
+  },
+  "advent-2-sun": {
+    A: sunday("Isa 11:1-10", "Ps 72", "Rom 15:4-9", "Matt 3:1-12"),
+    B: sunday("Isa 40:1-5, 9-11", "Ps 85", "2 Pet 3:8-14", "Mark 1:1-8"),
+    C: sunday("Bar 5:1-9", "Ps 126", "Phil 1:4-6, 8-11", "Luke 3:1-6"),
+  },
+  "advent-3-sun": {
+    A: sunday("Isa 35:1-6, 10", "Ps 146", "Jas 5:7-10", "Matt 11:2-11"),
+    B: sunday("Isa 61:1-2, 10-11", "Luke 1:46-54", "1 Thess 5:16-24", "John 1:6-8, 19-28"),
+    C: sunday("Zeph 3:14-18", "Isa 12:2-6", "Phil 4:4-7", "Luke 3:10-18"),
+  },
+  "advent-4-sun": {
+    A: sunday("Isa 7:10-14", "Ps 24", "Rom 1:1-7", "Matt 1:18-24"),
+    B: sunday("2 Sam 7:1-5, 8-12, 14, 16", "Ps 89", "Rom 16:25-27", "Luke 1:26-38"),
+    C: sunday("Mic 5:2-5", "Ps 80", "Heb 10:5-10", "Luke 1:39-45"),
+  },
+  "advent-1-mon": { all: weekday("Isa 2:1-5", "Ps 122", "Matt 8:5-11") },
+  "advent-1-tue": { all: weekday("Isa 11:1-10", "Ps 72", "Luke 10:21-24") },
+  "advent-1-wed": { all: weekday("Isa 25:6-10", "Ps 23", "Matt 15:29-37") },
+  "advent-1-thu": { all: weekday("Isa 26:1-6", "Ps 118", "Matt 7:21, 24-27") },
+  "advent-1-fri": { all: weekday("Isa 29:17-24", "Ps 27", "Matt 9:27-31") },
+  "advent-1-sat": { all: weekday("Isa 30:19-21, 23-26", "Ps 147", "Matt 9:35-10:1, 5-8") },
+  "advent-2-mon": { all: weekday("Isa 35:1-10", "Ps 85", "Luke 5:17-26") },
+  "advent-2-tue": { all: weekday("Isa 40:1-11", "Ps 96", "Matt 18:12-14") },
+  "advent-2-wed": { all: weekday("Isa 40:25-31", "Ps 103", "Matt 11:28-30") },
+  "advent-2-thu": { all: weekday("Isa 41:13-20", "Ps 145", "Matt 11:11-15") },
+  "advent-2-fri": { all: weekday("Isa 48:17-19", "Ps 1", "Matt 11:16-19") },
+  "advent-2-sat": { all: weekday("Sir 48:1-4, 9-11", "Ps 80", "Matt 17:9-13") },
+  "advent-3-mon": { all: weekday("Num 24:2-7, 15-17", "Ps 25", "Matt 21:23-27") },
+  "advent-3-tue": { all: weekday("Zeph 3:1-2, 9-13", "Ps 34", "Matt 21:28-32") },
+  "advent-3-wed": { all: weekday("Isa 45:6-8, 18, 21-25", "Ps 85", "Luke 7:18-23") },
+  "advent-3-thu": { all: weekday("Isa 54:1-10", "Ps 30", "Luke 7:24-30") },
+  "advent-3-fri": { all: weekday("Isa 56:1-3, 6-8", "Ps 67", "John 5:33-36") },
+
+  // From December 17 the weekdays of Advent have readings by date
+  "advent-12-17": { all: weekday("Gen 49:2, 8-10", "Ps 72", "Matt 1:1-17") },
+  "advent-12-18": { all: weekday("Jer 23:5-8", "Ps 72", "Matt 1:18-25") },
+  "advent-12-19": { all: weekday("Judg 13:2-7, 24-25", "Ps 71", "Luke 1:5-25") },
+  "advent-12-20": { all: weekday("Isa 7:10-14", "Ps 24", "Luke 1:26-38") },
+  "advent-12-21": { all: weekday("Song 2:8-14", "Ps 33", "Luke 1:39-45") },
+  "advent-12-22": { all: weekday("1 Sam 1:24-28", "1 Sam 2:1, 4-8", "Luke 1:46-56") },
+  "advent-12-23": { all: weekday("Mal 3:1-4; 4:5-6", "Ps 25", "Luke 1:57-66") },
+  "advent-12-24": { all: weekday("2 Sam 7:1-5, 8-12, 14, 16", "Ps 89", "Luke 1:67-79") },
+
+  // ---------------------
+  // CHRISTMAS
+  // ---------------------
+  christmas: {
+    all: sunday("Isa 52:7-10", "Ps 98", "Heb 1:1-6", "John 1:1-18"),
+  },
+  "holy-family": {
+    A: sunday("Sir 3:2-6, 12-14", "Ps 128", "Col 3:12-21", "Matt 2:13-15, 19-23"),
+    B: sunday("Sir 3:2-6, 12-14", "Ps 128", "Col 3:12-21", "Luke 2:22-40"),
+    C: sunday("Sir 3:2-6, 12-14", "Ps 128", "Col 3:12-21", "Luke 2:41-52"),
+  },
+  "mary-mother-of-god": {
+    all: sunday("Num 6:22-27", "Ps 67", "Gal 4:4-7", "Luke 2:16-21"),
+  },
+  epiphany: {
+    all: sunday("Isa 60:1-6", "Ps 72", "Eph 3:2-3, 5-6", "Matt 2:1-12"),
+  },
+  baptism: {
+    A: sunday("Isa 42:1-4, 6-7", "Ps 29", "Acts 10:34-38", "Matt 3:13-17"),
+    B: sunday("Isa 42:1-4, 6-7", "Ps 29", "Acts 10:34-38", "Mark 1:7-11"),
+    C: sunday("Isa 42:1-4, 6-7", "Ps 29", "Acts 10:34-38", "Luke 3:15-16, 21-22"),
+  },
+
+  // Weekdays of Christmas Time, by date until Epiphany
+  "christmas-12-26": { all: weekday("Acts 6:8-10; 7:54-59", "Ps 31", "Matt 10:17-22") },
+  "christmas-12-27": { all: weekday("1 John 1:1-4", "Ps 97", "John 20:2-8") },
+  "christmas-12-28": { all: weekday("1 John 1:5-2:2", "Ps 124", "Matt 2:13-18") },
+  "christmas-12-29": { all: weekday("1 John 2:3-11", "Ps 96", "Luke 2:22-35") },
+  "christmas-12-30": { all: weekday("1 John 2:12-17", "Ps 96", "Luke 2:36-40") },
+  "christmas-12-31": { all: weekday("1 John 2:18-21", "Ps 96", "John 1:1-18") },
+  "christmas-1-2": { all: weekday("1 John 2:22-28", "Ps 98", "John 1:19-28") },
+  "christmas-1-3": { all: weekday("1 John 2:29-3:6", "Ps 98", "John 1:29-34") },
+  "christmas-1-4": { all: weekday("1 John 3:7-10", "Ps 98", "John 1:35-42") },
+  "christmas-1-5": { all: weekday("1 John 3:11-21", "Ps 100", "John 1:43-51") },
+  "christmas-1-6": { all: weekday("1 John 5:5-13", "Ps 147", "Mark 1:7-11") },
+  "christmas-1-7": { all: weekday("1 John 5:14-21", "Ps 149", "John 2:1-11") },
+
+  // then by weekday until the Baptism of the Lord
+  "epiphany-mon": { all: weekday("1 John 3:22-4:6", "Ps 2", "Matt 4:12-17, 23-25") },
+  "epiphany-tue": { all: weekday("1 John 4:7-10", "Ps 72", "Mark 6:34-44") },
+  "epiphany-wed": { all: weekday("1 John 4:11-18", "Ps 72", "Mark 6:45-52") },
+  "epiphany-thu": { all: weekday("1 John 4:19-5:4", "Ps 72", "Luke 4:14-22") },
+  "epiphany-fri": { all: weekday("1 John 5:5-13", "Ps 147", "Luke 5:12-16") },
+  "epiphany-sat": { all: weekday("1 John 5:14-21", "Ps 149", "John 3:22-30") },
+
+  // ---------------------
+  // LENT
+  // ---------------------
+  "ash-wednesday": {
+    all: sunday("Joel 2:12-18", "Ps 51", "2 Cor 5:20-6:2", "Matt 6:1-6, 16-18"),
+  },
+  "lent-0-thu": { all: weekday("Deut 30:15-20", "Ps 1", "Luke 9:22-25") },
+  "lent-0-fri": { all: weekday("Isa 58:1-9", "Ps 51", "Matt 9:14-15") },
+  "lent-0-sat": { all: weekday("Isa 58:9-14", "Ps 86", "Luke 5:27-32") },
+  "lent-1-sun": {
+    A: sunday("Gen 2:7-9; 3:1-7", "Ps 51", "Rom 5:12-19", "Matt 4:1-11"),
+    B: sunday("Gen 9:8-15", "Ps 25", "1 Pet 3:18-22", "Mark 1:12-15"),
+    C: sunday("Deut 26:4-10", "Ps 91", "Rom 10:8-13", "Luke 4:1-13"),
+  },
+  "lent-2-sun": {
+    A: sunday("Gen 12:1-4", "Ps 33", "2 Tim 1:8-10", "Matt 17:1-9"),
+    B: sunday("Gen 22:1-2, 9-13, 15-18", "Ps 116", "Rom 8:31-34", "Mark 9:2-10"),
+    C: sunday("Gen 15:5-12, 17-18", "Ps 27", "Phil 3:17-4:1", "Luke 9:28-36"),
+  },
+  "lent-3-sun": {
+    A: sunday("Exod 17:3-7", "Ps 95", "Rom 5:1-2, 5-8", "John 4:5-42"),
+    B: sunday("Exod 20:1-17", "Ps 19", "1 Cor 1:22-25", "John 2:13-25"),
+    C: sunday("Exod 3:1-8, 13-15", "Ps 103", "1 Cor 10:1-6, 10-12", "Luke 13:1-9"),
+  },
+  "lent-4-sun": {
+    A: sunday("1 Sam 16:1, 6-7, 10-13", "Ps 23", "Eph 5:8-14", "John 9:1-41"),
+    B: sunday("2 Chr 36:14-16, 19-23", "Ps 137", "Eph 2:4-10", "John 3:14-21"),
+    C: sunday("Josh 5:9-12", "Ps 34", "2 Cor 5:17-21", "Luke 15:1-3, 11-32"),
+  },
+  "lent-5-sun": {
+    A: sunday("Ezek 37:12-14", "Ps 130", "Rom 8:8-11", "John 11:1-45"),
+    B: sunday("Jer 31:31-34", "Ps 51", "Heb 5:7-9", "John 12:20-33"),
+    C: sunday("Isa 43:16-21", "Ps 126", "Phil 3:8-14", "John 8:1-11"),
+  },
+  "lent-1-mon": { all: weekday("Lev 19:1-2, 11-18", "Ps 19", "Matt 25:31-46") },
+  "lent-1-tue": { all: weekday("Isa 55:10-11", "Ps 34", "Matt 6:7-15") },
+  "lent-1-wed": { all: weekday("Jonah 3:1-10", "Ps 51", "Luke 11:29-32") },
+  "lent-1-thu": { all: weekday("Esth 14:1, 3-5, 12-14", "Ps 138", "Matt 7:7-12") },
+  "lent-1-fri": { all: weekday("Ezek 18:21-28", "Ps 130", "Matt 5:20-26") },
+  "lent-1-sat": { all: weekday("Deut 26:16-19", "Ps 119", "Matt 5:43-48") },
+  "lent-2-mon": { all: weekday("Dan 9:4-10", "Ps 79", "Luke 6:36-38") },
+  "lent-2-tue": { all: weekday("Isa 1:10, 16-20", "Ps 50", "Matt 23:1-12") },
+  "lent-2-wed": { all: weekday("Jer 18:18-20", "Ps 31", "Matt 20:17-28") },
+  "lent-2-thu": { all: weekday("Jer 17:5-10", "Ps 1", "Luke 16:19-31") },
+  "lent-2-fri": { all: weekday("Gen 37:3-4, 12-13, 17-28", "Ps 105", "Matt 21:33-43, 45-46") },
+  "lent-2-sat": { all: weekday("Mic 7:14-15, 18-20", "Ps 103", "Luke 15:1-3, 11-32") },
+  "lent-3-mon": { all: weekday("2 Kgs 5:1-15", "Ps 42", "Luke 4:24-30") },
+  "lent-3-tue": { all: weekday("Dan 3:25, 34-43", "Ps 25", "Matt 18:21-35") },
+  "lent-3-wed": { all: weekday("Deut 4:1, 5-9", "Ps 147", "Matt 5:17-19") },
+  "lent-3-thu": { all: weekday("Jer 7:23-28", "Ps 95", "Luke 11:14-23") },
+  "lent-3-fri": { all: weekday("Hos 14:1-9", "Ps 81", "Mark 12:28-34") },
+  "lent-3-sat": { all: weekday("Hos 6:1-6", "Ps 51", "Luke 18:9-14") },
+  "lent-4-mon": { all: weekday("Isa 65:17-21", "Ps 30", "John 4:43-54") },
+  "lent-4-tue": { all: weekday("Ezek 47:1-9, 12", "Ps 46", "John 5:1-16") },
+  "lent-4-wed": { all: weekday("Isa 49:8-15", "Ps 145", "John 5:17-30") },
+  "lent-4-thu": { all: weekday("Exod 32:7-14", "Ps 106", "John 5:31-47") },
+  "lent-4-fri": { all: weekday("Wis 2:1, 12-22", "Ps 34", "John 7:1-2, 10, 25-30") },
+  "lent-4-sat": { all: weekday("Jer 11:18-20", "Ps 7", "John 7:40-53") },
+  "lent-5-mon": { all: weekday("Dan 13:1-9, 15-17, 19-30, 33-62", "Ps 23", "John 8:1-11") },
+  "lent-5-tue": { all: weekday("Num 21:4-9", "Ps 102", "John 8:21-30") },
+  "lent-5-wed": { all: weekday("Dan 3:14-20, 91-92, 95", "Dan 3:52-56", "John 8:31-42") },
+  "lent-5-thu": { all: weekday("Gen 17:3-9", "Ps 105", "John 8:51-59") },
+  "lent-5-fri": { all: weekday("Jer 20:10-13", "Ps 18", "John 10:31-42") },
+  "lent-5-sat": { all: weekday("Ezek 37:21-28", "Jer 31:10-13", "John 11:45-56") },
+  "palm-sunday": {
+    A: sunday("Isa 50:4-7", "Ps 22", "Phil 2:6-11", "Matt 26:14-27:66"),
+    B: sunday("Isa 50:4-7", "Ps 22", "Phil 2:6-11", "Mark 14:1-15:47"),
+    C: sunday("Isa 50:4-7", "Ps 22", "Phil 2:6-11", "Luke 22:14-23:56"),
+  },
+  "holy-week-mon": { all: weekday("Isa 42:1-7", "Ps 27", "John 12:1-11") },
+  "holy-week-tue": { all: weekday("Isa 49:1-6", "Ps 71", "John 13:21-33, 36-38") },
+  "holy-week-wed": { all: weekday("Isa 50:4-9", "Ps 69", "Matt 26:14-25") },
+
+  // ---------------------
+  // TRIDUUM AND EASTER
+  // ---------------------
+  "holy-thursday": {
+    all: sunday("Exod 12:1-8, 11-14", "Ps 116", "1 Cor 11:23-26", "John 13:1-15"),
+  },
+  "good-friday": {
+    all: sunday("Isa 52:13-53:12", "Ps 31", "Heb 4:14-16; 5:7-9", "John 18:1-19:42"),
+  },
+  "easter-sunday": {
+    all: sunday("Acts 10:34, 37-43", "Ps 118", "Col 3:1-4", "John 20:1-9"),
+  },
+  "easter-1-mon": { all: weekday("Acts 2:14, 22-33", "Ps 16", "Matt 28:8-15") },
+  "easter-1-tue": { all: weekday("Acts 2:36-41", "Ps 33", "John 20:11-18") },
+  "easter-1-wed": { all: weekday("Acts 3:1-10", "Ps 105", "Luke 24:13-35") },
+  "easter-1-thu": { all: weekday("Acts 3:11-26", "Ps 8", "Luke 24:35-48") },
+  "easter-1-fri": { all: weekday("Acts 4:1-12", "Ps 118", "John 21:1-14") },
+  "easter-1-sat": { all: weekday("Acts 4:13-21", "Ps 118", "Mark 16:9-15") },
+  "easter-2-sun": {
+    A: sunday("Acts 2:42-47", "Ps 118", "1 Pet 1:3-9", "John 20:19-31"),
+    B: sunday("Acts 4:32-35", "Ps 118", "1 John 5:1-6", "John 20:19-31"),
+    C: sunday("Acts 5:12-16", "Ps 118", "Rev 1:9-13, 17-19", "John 20:19-31"),
+  },
+  "easter-3-sun": {
+    A: sunday("Acts 2:14, 22-33", "Ps 16", "1 Pet 1:17-21", "Luke 24:13-35"),
+    B: sunday("Acts 3:13-15, 17-19", "Ps 4", "1 John 2:1-5", "Luke 24:35-48"),
+    C: sunday("Acts 5:27-32, 40-41", "Ps 30", "Rev 5:11-14", "John 21:1-19"),
+  },
+  "easter-4-sun": {
+    A: sunday("Acts 2:14, 36-41", "Ps 23", "1 Pet 2:20-25", "John 10:1-10"),
+    B: sunday("Acts 4:8-12", "Ps 118", "1 John 3:1-2", "John 10:11-18"),
+    C: sunday("Acts 13:14, 43-52", "Ps 100", "Rev 7:9, 14-17", "John 10:27-30"),
+  },
+  "easter-5-sun": {
+    A: sunday("Acts 6:1-7", "Ps 33", "1 Pet 2:4-9", "John 14:1-12"),
+    B: sunday("Acts 9:26-31", "Ps 22", "1 John 3:18-24", "John 15:1-8"),
+    C: sunday("Acts 14:21-27", "Ps 145", "Rev 21:1-5", "John 13:31-35"),
+  },
+  "easter-6-sun": {
+    A: sunday("Acts 8:5-8, 14-17", "Ps 66", "1 Pet 3:15-18", "John 14:15-21"),
+    B: sunday("Acts 10:25-26, 34-35, 44-48", "Ps 98", "1 John 4:7-10", "John 15:9-17"),
+    C: sunday("Acts 15:1-2, 22-29", "Ps 67", "Rev 21:10-14, 22-23", "John 14:23-29"),
+  },
+  "easter-2-mon": { all: weekday("Acts 4:23-31", "Ps 2", "John 3:1-8") },
+  "easter-2-tue": { all: weekday("Acts 4:32-37", "Ps 93", "John 3:7-15") },
+  "easter-2-wed": { all: weekday("Acts 5:17-26", "Ps 34", "John 3:16-21") },
+  "easter-2-thu": { all: weekday("Acts 5:27-33", "Ps 34", "John 3:31-36") },
+  "easter-2-fri": { all: weekday("Acts 5:34-42", "Ps 27", "John 6:1-15") },
+  "easter-2-sat": { all: weekday("Acts 6:1-7", "Ps 33", "John 6:16-21") },
+  "easter-3-mon": { all: weekday("Acts 6:8-15", "Ps 119", "John 6:22-29") },
+  "easter-3-tue": { all: weekday("Acts 7:51-8:1", "Ps 31", "John 6:30-35") },
+  "easter-3-wed": { all: weekday("Acts 8:1-8", "Ps 66", "John 6:35-40") },
+  "easter-3-thu": { all: weekday("Acts 8:26-40", "Ps 66", "John 6:44-51") },
+  "easter-3-fri": { all: weekday("Acts 9:1-20", "Ps 117", "John 6:52-59") },
+  "easter-3-sat": { all: weekday("Acts 9:31-42", "Ps 116", "John 6:60-69") },
+  "easter-4-mon": { all: weekday("Acts 11:1-18", "Ps 42", "John 10:1-10") },
+  "easter-4-tue": { all: weekday("Acts 11:19-26", "Ps 87", "John 10:22-30") },
+  "easter-4-wed": { all: weekday("Acts 12:24-13:5", "Ps 67", "John 12:44-50") },
+  "easter-4-thu": { all: weekday("Acts 13:13-25", "Ps 89", "John 13:16-20") },
+  "easter-4-fri": { all: weekday("Acts 13:26-33", "Ps 2", "John 14:1-6") },
+  "easter-4-sat": { all: weekday("Acts 13:44-52", "Ps 98", "John 14:7-14") },
+  "easter-5-mon": { all: weekday("Acts 14:5-18", "Ps 115", "John 14:21-26") },
+  "easter-5-tue": { all: weekday("Acts 14:19-28", "Ps 145", "John 14:27-31") },
+  "easter-5-wed": { all: weekday("Acts 15:1-6", "Ps 122", "John 15:1-8") },
+  "easter-5-thu": { all: weekday("Acts 15:7-21", "Ps 96", "John 15:9-11") },
+  "easter-5-fri": { all: weekday("Acts 15:22-31", "Ps 57", "John 15:12-17") },
+  "easter-5-sat": { all: weekday("Acts 16:1-10", "Ps 100", "John 15:18-21") },
+  "easter-6-mon": { all: weekday("Acts 16:11-15", "Ps 149", "John 15:26-16:4") },
+  "easter-6-tue": { all: weekday("Acts 16:22-34", "Ps 138", "John 16:5-11") },
+  "easter-6-wed": { all: weekday("Acts 17:15, 22-34; 18:1", "Ps 148", "John 16:12-15") },
+  "easter-6-thu": { all: weekday("Acts 18:1-8", "Ps 98", "John 16:16-20") },
+  "easter-6-fri": { all: weekday("Acts 18:9-18", "Ps 47", "John 16:20-23") },
+  "easter-6-sat": { all: weekday("Acts 18:23-28", "Ps 47", "John 16:23-28") },
+  "easter-7-mon": { all: weekday("Acts 19:1-8", "Ps 68", "John 16:29-33") },
+  "easter-7-tue": { all: weekday("Acts 20:17-27", "Ps 68", "John 17:1-11") },
+  "easter-7-wed": { all: weekday("Acts 20:28-38", "Ps 68", "John 17:11-19") },
+  "easter-7-thu": { all: weekday("Acts 22:30; 23:6-11", "Ps 16", "John 17:20-26") },
+  "easter-7-fri": { all: weekday("Acts 25:13-21", "Ps 103", "John 21:15-19") },
+  "easter-7-sat": { all: weekday("Acts 28:16-20, 30-31", "Ps 11", "John 21:20-25") },
+  ascension: {
+    A: sunday("Acts 1:1-11", "Ps 47", "Eph 1:17-23", "Matt 28:16-20"),
+    B: sunday("Acts 1:1-11", "Ps 47", "Eph 1:17-23", "Mark 16:15-20"),
+    C: sunday("Acts 1:1-11", "Ps 47", "Eph 1:17-23", "Luke 24:46-53"),
+  },
+  pentecost: {
+    all: sunday("Acts 2:1-11", "Ps 104", "1 Cor 12:3-7, 12-13", "John 20:19-23"),
+  },
+
+  // ---------------------
+  // SOLEMNITIES OF THE LORD IN ORDINARY TIME
+  // ---------------------
+  trinity: {
+    A: sunday("Exod 34:4-6, 8-9", "Dan 3:52-55", "2 Cor 13:11-14", "John 3:16-18"),
+    B: sunday("Deut 4:32-34, 39-40", "Ps 33", "Rom 8:14-17", "Matt 28:16-20"),
+    C: sunday("Prov 8:22-31", "Ps 8", "Rom 5:1-5", "John 16:12-15"),
+  },
+  "corpus-christi": {
+    A: sunday("Deut 8:2-3, 14-16", "Ps 147", "1 Cor 10:16-17", "John 6:51-58"),
+    B: sunday("Exod 24:3-8", "Ps 116", "Heb 9:11-15", "Mark 14:12-16, 22-26"),
+    C: sunday("Gen 14:18-20", "Ps 110", "1 Cor 11:23-26", "Luke 9:11-17"),
+  },
+  "sacred-heart": {
+    A: sunday("Deut 7:6-11", "Ps 103", "1 John 4:7-16", "Matt 11:25-30"),
+    B: sunday("Hos 11:1, 3-4, 8-9", "Isa 12:2-6", "Eph 3:8-12, 14-19", "John 19:31-37"),
+    C: sunday("Ezek 34:11-16", "Ps 23", "Rom 5:5-11", "Luke 15:3-7"),
+  },
+  "christ-the-king": {
+    A: sunday("Ezek 34:11-12, 15-17", "Ps 23", "1 Cor 15:20-26, 28", "Matt 25:31-46"),
+    B: sunday("Dan 7:13-14", "Ps 93", "Rev 1:5-8", "John 18:33-37"),
+    C: sunday("2 Sam 5:1-3", "Ps 122", "Col 1:12-20", "Luke 23:35-43"),
+  },
+
+  // ---------------------
+  // SOLEMNITIES ON FIXED DATES
+  // ---------------------
+  "st-joseph": {
+    all: sunday("2 Sam 7:4-5, 12-14, 16", "Ps 89", "Rom 4:13, 16-18, 22", "Matt 1:16, 18-21, 24"),
+  },
+  annunciation: {
+    all: sunday("Isa 7:10-14; 8:10", "Ps 40", "Heb 10:4-10", "Luke 1:26-38"),
+  },
+  "john-the-baptist": {
+    all: sunday("Isa 49:1-6", "Ps 139", "Acts 13:22-26", "Luke 1:57-66, 80"),
+  },
+  "peter-and-paul": {
+    all: sunday("Acts 12:1-11", "Ps 34", "2 Tim 4:6-8, 17-18", "Matt 16:13-19"),
+  },
+  assumption: {
+    all: sunday("Rev 11:19; 12:1-6, 10", "Ps 45", "1 Cor 15:20-27", "Luke 1:39-56"),
+  },
+  "all-saints": {
+    all: sunday("Rev 7:2-4, 9-14", "Ps 24", "1 John 3:1-3", "Matt 5:1-12"),
+  },
+  "immaculate-conception": {
+    all: sunday("Gen 3:9-15, 20", "Ps 98", "Eph 1:3-6, 11-12", "Luke 1:26-38"),
+  },
+
+  // ---------------------
+  // SUNDAYS IN ORDINARY TIME
+  // ---------------------
+  "ordinary-2-sun": {
+    A: sunday("Isa 49:3, 5-6", "Ps 40", "1 Cor 1:1-3", "John 1:29-34"),
+    B: sunday("1 Sam 3:3-10, 19", "Ps 40", "1 Cor 6:13-15, 17-20", "John 1:35-42"),
+    C: sunday("Isa 62:1-5", "Ps 96", "1 Cor 12:4-11", "John 2:1-11"),
+  },
+  "ordinary-3-sun": {
+    A: sunday("Isa 9:1-4", "Ps 27", "1 Cor 1:10-13, 17", "Matt 4:12-23"),
+    B: sunday("Jonah 3:1-5, 10", "Ps 25", "1 Cor 7:29-31", "Mark 1:14-20"),
+    C: sunday("Neh 8:2-6, 8-10", "Ps 19", "1 Cor 12:12-30", "Luke 1:1-4; 4:14-21"),
+  },
+  "ordinary-4-sun": {
+    A: sunday("Zeph 2:3; 3:12-13", "Ps 146", "1 Cor 1:26-31", "Matt 5:1-12"),
+    B: sunday("Deut 18:15-20", "Ps 95", "1 Cor 7:32-35", "Mark 1:21-28"),
+    C: sunday("Jer 1:4-5, 17-19", "Ps 71", "1 Cor 12:31-13:13", "Luke 4:21-30"),
+  },
+  "ordinary-5-sun": {
+    A: sunday("Isa 58:7-10", "Ps 112", "1 Cor 2:1-5", "Matt 5:13-16"),
+    B: sunday("Job 7:1-4, 6-7", "Ps 147", "1 Cor 9:16-19, 22-23", "Mark 1:29-39"),
+    C: sunday("Isa 6:1-8", "Ps 138", "1 Cor 15:1-11", "Luke 5:1-11"),
+  },
+  "ordinary-6-sun": {
+    A: sunday("Sir 15:15-20", "Ps 119", "1 Cor 2:6-10", "Matt 5:17-37"),
+    B: sunday("Lev 13:1-2, 44-46", "Ps 32", "1 Cor 10:31-11:1", "Mark 1:40-45"),
+    C: sunday("Jer 17:5-8", "Ps 1", "1 Cor 15:12, 16-20", "Luke 6:17, 20-26"),
+  },
+  "ordinary-7-sun": {
+    A: sunday("Lev 19:1-2, 17-18", "Ps 103", "1 Cor 3:16-23", "Matt 5:38-48"),
+    B: sunday("Isa 43:18-19, 21-22, 24-25", "Ps 41", "2 Cor 1:18-22", "Mark 2:1-12"),
+    C: sunday("1 Sam 26:2, 7-9, 12-13, 22-23", "Ps 103", "1 Cor 15:45-49", "Luke 6:27-38"),
+  },
+  "ordinary-8-sun": {
+    A: sunday("Isa 49:14-15", "Ps 62", "1 Cor 4:1-5", "Matt 6:24-34"),
+    B: sunday("Hos 2:14-15, 19-20", "Ps 103", "2 Cor 3:1-6", "Mark 2:18-22"),
+    C: sunday("Sir 27:4-7", "Ps 92", "1 Cor 15:54-58", "Luke 6:39-45"),
+  },
+  "ordinary-9-sun": {
+    A: sunday("Deut 11:18, 26-28, 32", "Ps 31", "Rom 3:21-25, 28", "Matt 7:21-27"),
+    B: sunday("Deut 5:12-15", "Ps 81", "2 Cor 4:6-11", "Mark 2:23-3:6"),
+    C: sunday("1 Kgs 8:41-43", "Ps 117", "Gal 1:1-2, 6-10", "Luke 7:1-10"),
+  },
+  "ordinary-10-sun": {
+    A: sunday("Hos 6:3-6", "Ps 50", "Rom 4:18-25", "Matt 9:9-13"),
+    B: sunday("Gen 3:9-15", "Ps 130", "2 Cor 4:13-5:1", "Mark 3:20-35"),
+    C: sunday("1 Kgs 17:17-24", "Ps 30", "Gal 1:11-19", "Luke 7:11-17"),
+  },
+  "ordinary-11-sun": {
+    A: sunday("Exod 19:2-6", "Ps 100", "Rom 5:6-11", "Matt 9:36-10:8"),
+    B: sunday("Ezek 17:22-24", "Ps 92", "2 Cor 5:6-10", "Mark 4:26-34"),
+    C: sunday("2 Sam 12:7-10, 13", "Ps 32", "Gal 2:16, 19-21", "Luke 7:36-8:3"),
+  },
+  "ordinary-12-sun": {
+    A: sunday("Jer 20:10-13", "Ps 69", "Rom 5:12-15", "Matt 10:26-33"),
+    B: sunday("Job 38:1, 8-11", "Ps 107", "2 Cor 5:14-17", "Mark 4:35-41"),
+    C: sunday("Zech 12:10-11; 13:1", "Ps 63", "Gal 3:26-29", "Luke 9:18-24"),
+  },
+  "ordinary-13-sun": {
+    A: sunday("2 Kgs 4:8-11, 14-16", "Ps 89", "Rom 6:3-4, 8-11", "Matt 10:37-42"),
+    B: sunday("Wis 1:13-15; 2:23-24", "Ps 30", "2 Cor 8:7, 9, 13-15", "Mark 5:21-43"),
+    C: sunday("1 Kgs 19:16, 19-21", "Ps 16", "Gal 5:1, 13-18", "Luke 9:51-62"),
+  },
+  "ordinary-14-sun": {
+    A: sunday("Zech 9:9-10", "Ps 145", "Rom 8:9, 11-13", "Matt 11:25-30"),
+    B: sunday("Ezek 2:2-5", "Ps 123", "2 Cor 12:7-10", "Mark 6:1-6"),
+    C: sunday("Isa 66:10-14", "Ps 66", "Gal 6:14-18", "Luke 10:1-12, 17-20"),
+  },
+  "ordinary-15-sun": {
+    A: sunday("Isa 55:10-11", "Ps 65", "Rom 8:18-23", "Matt 13:1-23"),
+    B: sunday("Amos 7:12-15", "Ps 85", "Eph 1:3-14", "Mark 6:7-13"),
+    C: sunday("Deut 30:10-14", "Ps 69", "Col 1:15-20", "Luke 10:25-37"),
+  },
+  "ordinary-16-sun": {
+    A: sunday("Wis 12:13, 16-19", "Ps 86", "Rom 8:26-27", "Matt 13:24-43"),
+    B: sunday("Jer 23:1-6", "Ps 23", "Eph 2:13-18", "Mark 6:30-34"),
+    C: sunday("Gen 18:1-10", "Ps 15", "Col 1:24-28", "Luke 10:38-42"),
+  },
+  "ordinary-17-sun": {
+    A: sunday("1 Kgs 3:5, 7-12", "Ps 119", "Rom 8:28-30", "Matt 13:44-52"),
+    B: sunday("2 Kgs 4:42-44", "Ps 145", "Eph 4:1-6", "John 6:1-15"),
+    C: sunday("Gen 18:20-32", "Ps 138", "Col 2:12-14", "Luke 11:1-13"),
+  },
+  "ordinary-18-sun": {
+    A: sunday("Isa 55:1-3", "Ps 145", "Rom 8:35, 37-39", "Matt 14:13-21"),
+    B: sunday("Exod 16:2-4, 12-15", "Ps 78", "Eph 4:17, 20-24", "John 6:24-35"),
+    C: sunday("Eccl 1:2; 2:21-23", "Ps 90", "Col 3:1-5, 9-11", "Luke 12:13-21"),
+  },
+  "ordinary-19-sun": {
+    A: sunday("1 Kgs 19:9, 11-13", "Ps 85", "Rom 9:1-5", "Matt 14:22-33"),
+    B: sunday("1 Kgs 19:4-8", "Ps 34", "Eph 4:30-5:2", "John 6:41-51"),
+    C: sunday("Wis 18:6-9", "Ps 33", "Heb 11:1-2, 8-19", "Luke 12:32-48"),
+  },
+  "ordinary-20-sun": {
+    A: sunday("Isa 56:1, 6-7", "Ps 67", "Rom 11:13-15, 29-32", "Matt 15:21-28"),
+    B: sunday("Prov 9:1-6", "Ps 34", "Eph 5:15-20", "John 6:51-58"),
+    C: sunday("Jer 38:4-6, 8-10", "Ps 40", "Heb 12:1-4", "Luke 12:49-53"),
+  },
+  "ordinary-21-sun": {
+    A: sunday("Isa 22:19-23", "Ps 138", "Rom 11:33-36", "Matt 16:13-20"),
+    B: sunday("Josh 24:1-2, 15-17, 18", "Ps 34", "Eph 5:21-32", "John 6:60-69"),
+    C: sunday("Isa 66:18-21", "Ps 117", "Heb 12:5-7, 11-13", "Luke 13:22-30"),
+  },
+  "ordinary-22-sun": {
+    A: sunday("Jer 20:7-9", "Ps 63", "Rom 12:1-2", "Matt 16:21-27"),
+    B: sunday("Deut 4:1-2, 6-8", "Ps 15", "Jas 1:17-18, 21-22, 27", "Mark 7:1-8, 14-15, 21-23"),
+    C: sunday("Sir 3:17-18, 20, 28-29", "Ps 68", "Heb 12:18-19, 22-24", "Luke 14:1, 7-14"),
+  },
+  "ordinary-23-sun": {
+    A: sunday("Ezek 33:7-9", "Ps 95", "Rom 13:8-10", "Matt 18:15-20"),
+    B: sunday("Isa 35:4-7", "Ps 146", "Jas 2:1-5", "Mark 7:31-37"),
+    C: sunday("Wis 9:13-18", "Ps 90", "Phlm 9-10, 12-17", "Luke 14:25-33"),
+  },
+  "ordinary-24-sun": {
+    A: sunday("Sir 27:30-28:7", "Ps 103", "Rom 14:7-9", "Matt 18:21-35"),
+    B: sunday("Isa 50:5-9", "Ps 116", "Jas 2:14-18", "Mark 8:27-35"),
+    C: sunday("Exod 32:7-11, 13-14", "Ps 51", "1 Tim 1:12-17", "Luke 15:1-32"),
+  },
+  "ordinary-25-sun": {
+    A: sunday("Isa 55:6-9", "Ps 145", "Phil 1:20-24, 27", "Matt 20:1-16"),
+    B: sunday("Wis 2:12, 17-20", "Ps 54", "Jas 3:16-4:3", "Mark 9:30-37"),
+    C: sunday("Amos 8:4-7", "Ps 113", "1 Tim 2:1-8", "Luke 16:1-13"),
+  },
+  "ordinary-26-sun": {
+    A: sunday("Ezek 18:25-28", "Ps 25", "Phil 2:1-11", "Matt 21:28-32"),
+    B: sunday("Num 11:25-29", "Ps 19", "Jas 5:1-6", "Mark 9:38-43, 45, 47-48"),
+    C: sunday("Amos 6:1, 4-7", "Ps 146", "1 Tim 6:11-16", "Luke 16:19-31"),
+  },
+  "ordinary-27-sun": {
+    A: sunday("Isa 5:1-7", "Ps 80", "Phil 4:6-9", "Matt 21:33-43"),
+    B: sunday("Gen 2:18-24", "Ps 128", "Heb 2:9-11", "Mark 10:2-16"),
+    C: sunday("Hab 1:2-3; 2:2-4", "Ps 95", "2 Tim 1:6-8, 13-14", "Luke 17:5-10"),
+  },
+  "ordinary-28-sun": {
+    A: sunday("Isa 25:6-10", "Ps 23", "Phil 4:12-14, 19-20", "Matt 22:1-14"),
+    B: sunday("Wis 7:7-11", "Ps 90", "Heb 4:12-13", "Mark 10:17-30"),
+    C: sunday("2 Kgs 5:14-17", "Ps 98", "2 Tim 2:8-13", "Luke 17:11-19"),
+  },
+  "ordinary-29-sun": {
+    A: sunday("Isa 45:1, 4-6", "Ps 96", "1 Thess 1:1-5", "Matt 22:15-21"),
+    B: sunday("Isa 53:10-11", "Ps 33", "Heb 4:14-16", "Mark 10:35-45"),
+    C: sunday("Exod 17:8-13", "Ps 121", "2 Tim 3:14-4:2", "Luke 18:1-8"),
+  },
+  "ordinary-30-sun": {
+    A: sunday("Exod 22:21-27", "Ps 18", "1 Thess 1:5-10", "Matt 22:34-40"),
+    B: sunday("Jer 31:7-9", "Ps 126", "Heb 5:1-6", "Mark 10:46-52"),
+    C: sunday("Sir 35:12-14, 16-18", "Ps 34", "2 Tim 4:6-8, 16-18", "Luke 18:9-14"),
+  },
+  "ordinary-31-sun": {
+    A: sunday("Mal 1:14-2:2, 8-10", "Ps 131", "1 Thess 2:7-9, 13", "Matt 23:1-12"),
+    B: sunday("Deut 6:2-6", "Ps 18", "Heb 7:23-28", "Mark 12:28-34"),
+    C: sunday("Wis 11:22-12:2", "Ps 145", "2 Thess 1:11-2:2", "Luke 19:1-10"),
+  },
+  "ordinary-32-sun": {
+    A: sunday("Wis 6:12-16", "Ps 63", "1 Thess 4:13-18", "Matt 25:1-13"),
+    B: sunday("1 Kgs 17:10-16", "Ps 146", "Heb 9:24-28", "Mark 12:38-44"),
+    C: sunday("2 Macc 7:1-2, 9-14", "Ps 17", "2 Thess 2:16-3:5", "Luke 20:27-38"),
+  },
+  "ordinary-33-sun": {
+    A: sunday("Prov 31:10-13, 19-20, 30-31", "Ps 128", "1 Thess 5:1-6", "Matt 25:14-30"),
+    B: sunday("Dan 12:1-3", "Ps 16", "Heb 10:11-14, 18", "Mark 13:24-32"),
+    C: sunday("Mal 4:1-2", "Ps 98", "2 Thess 3:7-12", "Luke 21:5-19"),
+  },
+
+  // ---------------------
+  // WEEKDAYS IN ORDINARY TIME
+  // ---------------------
+  "ordinary-1-mon": cycles(["Heb 1:1-6", "Ps 97"], ["1 Sam 1:1-8", "Ps 116"], "Mark 1:14-20"),
+  "ordinary-1-tue": cycles(
+    ["Heb 2:5-12", "Ps 8"],
+    ["1 Sam 1:9-20", "1 Sam 2:1, 4-8"],
+    "Mark 1:21-28",
+  ),
+  "ordinary-1-wed": cycles(
+    ["Heb 2:14-18", "Ps 105"],
+    ["1 Sam 3:1-10, 19-20", "Ps 40"],
+    "Mark 1:29-39",
+  ),
+  "ordinary-1-thu": cycles(["Heb 3:7-14", "Ps 95"], ["1 Sam 4:1-11", "Ps 44"], "Mark 1:40-45"),
+  "ordinary-1-fri": cycles(
+    ["Heb 4:1-5, 11", "Ps 78"],
+    ["1 Sam 8:4-7, 10-22", "Ps 89"],
+    "Mark 2:1-12",
+  ),
+  "ordinary-1-sat": cycles(
+    ["Heb 4:12-16", "Ps 19"],
+    ["1 Sam 9:1-4, 17-19; 10:1", "Ps 21"],
+    "Mark 2:13-17",
+  ),
+  "ordinary-2-mon": cycles(["Heb 5:1-10", "Ps 110"], ["1 Sam 15:16-23", "Ps 50"], "Mark 2:18-22"),
+  "ordinary-2-tue": cycles(["Heb 6:10-20", "Ps 111"], ["1 Sam 16:1-13", "Ps 89"], "Mark 2:23-28"),
+  "ordinary-2-wed": cycles(
+    ["Heb 7:1-3, 15-17", "Ps 110"],
+    ["1 Sam 17:32-33, 37, 40-51", "Ps 144"],
+    "Mark 3:1-6",
+  ),
+  "ordinary-2-thu": cycles(
+    ["Heb 7:25-8:6", "Ps 40"],
+    ["1 Sam 18:6-9; 19:1-7", "Ps 56"],
+    "Mark 3:7-12",
+  ),
+  "ordinary-2-fri": cycles(["Heb 8:6-13", "Ps 85"], ["1 Sam 24:2-20", "Ps 57"], "Mark 3:13-19"),
+  "ordinary-2-sat": cycles(
+    ["Heb 9:2-3, 11-14", "Ps 47"],
+    ["2 Sam 1:1-4, 11-12, 19, 23-27", "Ps 80"],
+    "Mark 3:20-21",
+  ),
+  "ordinary-3-mon": cycles(
+    ["Heb 9:15, 24-28", "Ps 98"],
+    ["2 Sam 5:1-7, 10", "Ps 89"],
+    "Mark 3:22-30",
+  ),
+  "ordinary-3-tue": cycles(
+    ["Heb 10:1-10", "Ps 40"],
+    ["2 Sam 6:12-15, 17-19", "Ps 24"],
+    "Mark 3:31-35",
+  ),
+  "ordinary-3-wed": cycles(["Heb 10:11-18", "Ps 110"], ["2 Sam 7:4-17", "Ps 89"], "Mark 4:1-20"),
+  "ordinary-3-thu": cycles(
+    ["Heb 10:19-25", "Ps 24"],
+    ["2 Sam 7:18-19, 24-29", "Ps 132"],
+    "Mark 4:21-25",
+  ),
+  "ordinary-3-fri": cycles(
+    ["Heb 10:32-39", "Ps 37"],
+    ["2 Sam 11:1-10, 13-17", "Ps 51"],
+    "Mark 4:26-34",
+  ),
+  "ordinary-3-sat": cycles(
+    ["Heb 11:1-2, 8-19", "Luke 1:69-75"],
+    ["2 Sam 12:1-7, 10-17", "Ps 51"],
+    "Mark 4:35-41",
+  ),
+  "ordinary-4-mon": cycles(
+    ["Heb 11:32-40", "Ps 31"],
+    ["2 Sam 15:13-14, 30; 16:5-13", "Ps 3"],
+    "Mark 5:1-20",
+  ),
+  "ordinary-4-tue": cycles(
+    ["Heb 12:1-4", "Ps 22"],
+    ["2 Sam 18:9-10, 14, 24-25, 30-33", "Ps 86"],
+    "Mark 5:21-43",
+  ),
+  "ordinary-4-wed": cycles(
+    ["Heb 12:4-7, 11-15", "Ps 103"],
+    ["2 Sam 24:2, 9-17", "Ps 32"],
+    "Mark 6:1-6",
+  ),
+  "ordinary-4-thu": cycles(
+    ["Heb 12:18-19, 21-24", "Ps 48"],
+    ["1 Kgs 2:1-4, 10-12", "1 Chr 29:10-12"],
+    "Mark 6:7-13",
+  ),
+  "ordinary-4-fri": cycles(["Heb 13:1-8", "Ps 27"], ["Sir 47:2-11", "Ps 18"], "Mark 6:14-29"),
+  "ordinary-4-sat": cycles(
+    ["Heb 13:15-17, 20-21", "Ps 23"],
+    ["1 Kgs 3:4-13", "Ps 119"],
+    "Mark 6:30-34",
+  ),
+  "ordinary-5-mon": cycles(
+    ["Gen 1:1-19", "Ps 104"],
+    ["1 Kgs 8:1-7, 9-13", "Ps 132"],
+    "Mark 6:53-56",
+  ),
+  "ordinary-5-tue": cycles(
+    ["Gen 1:20-2:4", "Ps 8"],
+    ["1 Kgs 8:22-23, 27-30", "Ps 84"],
+    "Mark 7:1-13",
+  ),
+  "ordinary-5-wed": cycles(
+    ["Gen 2:4-9, 15-17", "Ps 104"],
+    ["1 Kgs 10:1-10", "Ps 37"],
+    "Mark 7:14-23",
+  ),
+  "ordinary-5-thu": cycles(["Gen 2:18-25", "Ps 128"], ["1 Kgs 11:4-13", "Ps 106"], "Mark 7:24-30"),
+  "ordinary-5-fri": cycles(
+    ["Gen 3:1-8", "Ps 32"],
+    ["1 Kgs 11:29-32; 12:19", "Ps 81"],
+    "Mark 7:31-37",
+  ),
+  "ordinary-5-sat": cycles(
+    ["Gen 3:9-24", "Ps 90"],
+    ["1 Kgs 12:26-32; 13:33-34", "Ps 106"],
+    "Mark 8:1-10",
+  ),
+  "ordinary-6-mon": cycles(["Gen 4:1-15, 25", "Ps 50"], ["Jas 1:1-11", "Ps 119"], "Mark 8:11-13"),
+  "ordinary-6-tue": cycles(
+    ["Gen 6:5-8; 7:1-5, 10", "Ps 29"],
+    ["Jas 1:12-18", "Ps 94"],
+    "Mark 8:14-21",
+  ),
+  "ordinary-6-wed": cycles(
+    ["Gen 8:6-13, 20-22", "Ps 116"],
+    ["Jas 1:19-27", "Ps 15"],
+    "Mark 8:22-26",
+  ),
+  "ordinary-6-thu": cycles(["Gen 9:1-13", "Ps 102"], ["Jas 2:1-9", "Ps 34"], "Mark 8:27-33"),
+  "ordinary-6-fri": cycles(["Gen 11:1-9", "Ps 33"], ["Jas 2:14-24, 26", "Ps 112"], "Mark 8:34-9:1"),
+  "ordinary-6-sat": cycles(["Heb 11:1-7", "Ps 145"], ["Jas 3:1-10", "Ps 12"], "Mark 9:2-13"),
+  "ordinary-7-mon": cycles(["Sir 1:1-10", "Ps 93"], ["Jas 3:13-18", "Ps 19"], "Mark 9:14-29"),
+  "ordinary-7-tue": cycles(["Sir 2:1-11", "Ps 37"], ["Jas 4:1-10", "Ps 55"], "Mark 9:30-37"),
+  "ordinary-7-wed": cycles(["Sir 4:11-19", "Ps 119"], ["Jas 4:13-17", "Ps 49"], "Mark 9:38-40"),
+  "ordinary-7-thu": cycles(["Sir 5:1-8", "Ps 1"], ["Jas 5:1-6", "Ps 49"], "Mark 9:41-50"),
+  "ordinary-7-fri": cycles(["Sir 6:5-17", "Ps 119"], ["Jas 5:9-12", "Ps 103"], "Mark 10:1-12"),
+  "ordinary-7-sat": cycles(["Sir 17:1-15", "Ps 103"], ["Jas 5:13-20", "Ps 141"], "Mark 10:13-16"),
+  "ordinary-8-mon": cycles(["Sir 17:20-24", "Ps 32"], ["1 Pet 1:3-9", "Ps 111"], "Mark 10:17-27"),
+  "ordinary-8-tue": cycles(["Sir 35:1-12", "Ps 50"], ["1 Pet 1:10-16", "Ps 98"], "Mark 10:28-31"),
+  "ordinary-8-wed": cycles(
+    ["Sir 36:1, 4-5, 10-17", "Ps 79"],
+    ["1 Pet 1:18-25", "Ps 147"],
+    "Mark 10:32-45",
+  ),
+  "ordinary-8-thu": cycles(
+    ["Sir 42:15-25", "Ps 33"],
+    ["1 Pet 2:2-5, 9-12", "Ps 100"],
+    "Mark 10:46-52",
+  ),
+  "ordinary-8-fri": cycles(
+    ["Sir 44:1, 9-13", "Ps 149"],
+    ["1 Pet 4:7-13", "Ps 96"],
+    "Mark 11:11-26",
+  ),
+  "ordinary-8-sat": cycles(["Sir 51:12-20", "Ps 19"], ["Jude 17, 20-25", "Ps 63"], "Mark 11:27-33"),
+  "ordinary-9-mon": cycles(["Tob 1:3; 2:1-8", "Ps 112"], ["2 Pet 1:2-7", "Ps 91"], "Mark 12:1-12"),
+  "ordinary-9-tue": cycles(
+    ["Tob 2:9-14", "Ps 112"],
+    ["2 Pet 3:12-15, 17-18", "Ps 90"],
+    "Mark 12:13-17",
+  ),
+  "ordinary-9-wed": cycles(
+    ["Tob 3:1-11, 16-17", "Ps 25"],
+    ["2 Tim 1:1-3, 6-12", "Ps 123"],
+    "Mark 12:18-27",
+  ),
+  "ordinary-9-thu": cycles(
+    ["Tob 6:10-11; 7:1, 9-17; 8:4-9", "Ps 128"],
+    ["2 Tim 2:8-15", "Ps 25"],
+    "Mark 12:28-34",
+  ),
+  "ordinary-9-fri": cycles(["Tob 11:5-17", "Ps 146"], ["2 Tim 3:10-17", "Ps 119"], "Mark 12:35-37"),
+  "ordinary-9-sat": cycles(
+    ["Tob 12:1, 5-15, 20", "Tob 13:2, 6"],
+    ["2 Tim 4:1-8", "Ps 71"],
+    "Mark 12:38-44",
+  ),
+  "ordinary-10-mon": cycles(["2 Cor 1:1-7", "Ps 34"], ["1 Kgs 17:1-6", "Ps 121"], "Matt 5:1-12"),
+  "ordinary-10-tue": cycles(["2 Cor 1:18-22", "Ps 119"], ["1 Kgs 17:7-16", "Ps 4"], "Matt 5:13-16"),
+  "ordinary-10-wed": cycles(["2 Cor 3:4-11", "Ps 99"], ["1 Kgs 18:20-39", "Ps 16"], "Matt 5:17-19"),
+  "ordinary-10-thu": cycles(
+    ["2 Cor 3:15-4:1, 3-6", "Ps 85"],
+    ["1 Kgs 18:41-46", "Ps 65"],
+    "Matt 5:20-26",
+  ),
+  "ordinary-10-fri": cycles(
+    ["2 Cor 4:7-15", "Ps 116"],
+    ["1 Kgs 19:9, 11-16", "Ps 27"],
+    "Matt 5:27-32",
+  ),
+  "ordinary-10-sat": cycles(
+    ["2 Cor 5:14-21", "Ps 103"],
+    ["1 Kgs 19:16, 19-21", "Ps 16"],
+    "Matt 5:33-37",
+  ),
+  "ordinary-11-mon": cycles(["2 Cor 6:1-10", "Ps 98"], ["1 Kgs 21:1-16", "Ps 5"], "Matt 5:38-42"),
+  "ordinary-11-tue": cycles(["2 Cor 8:1-9", "Ps 146"], ["1 Kgs 21:17-29", "Ps 51"], "Matt 5:43-48"),
+  "ordinary-11-wed": cycles(
+    ["2 Cor 9:6-11", "Ps 112"],
+    ["2 Kgs 2:1, 6-14", "Ps 31"],
+    "Matt 6:1-6, 16-18",
+  ),
+  "ordinary-11-thu": cycles(["2 Cor 11:1-11", "Ps 111"], ["Sir 48:1-14", "Ps 97"], "Matt 6:7-15"),
+  "ordinary-11-fri": cycles(
+    ["2 Cor 11:18, 21-30", "Ps 34"],
+    ["2 Kgs 11:1-4, 9-18, 20", "Ps 132"],
+    "Matt 6:19-23",
+  ),
+  "ordinary-11-sat": cycles(
+    ["2 Cor 12:1-10", "Ps 34"],
+    ["2 Chr 24:17-25", "Ps 89"],
+    "Matt 6:24-34",
+  ),
+  "ordinary-12-mon": cycles(
+    ["Gen 12:1-9", "Ps 33"],
+    ["2 Kgs 17:5-8, 13-15, 18", "Ps 60"],
+    "Matt 7:1-5",
+  ),
+  "ordinary-12-tue": cycles(
+    ["Gen 13:2, 5-18", "Ps 15"],
+    ["2 Kgs 19:9-11, 14-21, 31-36", "Ps 48"],
+    "Matt 7:6, 12-14",
+  ),
+  "ordinary-12-wed": cycles(
+    ["Gen 15:1-12, 17-18", "Ps 105"],
+    ["2 Kgs 22:8-13; 23:1-3", "Ps 119"],
+    "Matt 7:15-20",
+  ),
+  "ordinary-12-thu": cycles(
+    ["Gen 16:1-12, 15-16", "Ps 106"],
+    ["2 Kgs 24:8-17", "Ps 79"],
+    "Matt 7:21-29",
+  ),
+  "ordinary-12-fri": cycles(
+    ["Gen 17:1, 9-10, 15-22", "Ps 128"],
+    ["2 Kgs 25:1-12", "Ps 137"],
+    "Matt 8:1-4",
+  ),
+  "ordinary-12-sat": cycles(
+    ["Gen 18:1-15", "Luke 1:46-55"],
+    ["Lam 2:2, 10-14, 18-19", "Ps 74"],
+    "Matt 8:5-17",
+  ),
+  "ordinary-13-mon": cycles(
+    ["Gen 18:16-33", "Ps 103"],
+    ["Amos 2:6-10, 13-16", "Ps 50"],
+    "Matt 8:18-22",
+  ),
+  "ordinary-13-tue": cycles(
+    ["Gen 19:15-29", "Ps 26"],
+    ["Amos 3:1-8; 4:11-12", "Ps 5"],
+    "Matt 8:23-27",
+  ),
+  "ordinary-13-wed": cycles(
+    ["Gen 21:5, 8-20", "Ps 34"],
+    ["Amos 5:14-15, 21-24", "Ps 50"],
+    "Matt 8:28-34",
+  ),
+  "ordinary-13-thu": cycles(["Gen 22:1-19", "Ps 115"], ["Amos 7:10-17", "Ps 19"], "Matt 9:1-8"),
+  "ordinary-13-fri": cycles(
+    ["Gen 23:1-4, 19; 24:1-8, 62-67", "Ps 106"],
+    ["Amos 8:4-6, 9-12", "Ps 119"],
+    "Matt 9:9-13",
+  ),
+  "ordinary-13-sat": cycles(
+    ["Gen 27:1-5, 15-29", "Ps 135"],
+    ["Amos 9:11-15", "Ps 85"],
+    "Matt 9:14-17",
+  ),
+  "ordinary-14-mon": cycles(
+    ["Gen 28:10-22", "Ps 91"],
+    ["Hos 2:14-16, 19-20", "Ps 145"],
+    "Matt 9:18-26",
+  ),
+  "ordinary-14-tue": cycles(
+    ["Gen 32:22-32", "Ps 17"],
+    ["Hos 8:4-7, 11-13", "Ps 115"],
+    "Matt 9:32-38",
+  ),
+  "ordinary-14-wed": cycles(
+    ["Gen 41:55-57; 42:5-7, 17-24", "Ps 33"],
+    ["Hos 10:1-3, 7-8, 12", "Ps 105"],
+    "Matt 10:1-7",
+  ),
+  "ordinary-14-thu": cycles(
+    ["Gen 44:18-21, 23-29; 45:1-5", "Ps 105"],
+    ["Hos 11:1-4, 8-9", "Ps 80"],
+    "Matt 10:7-15",
+  ),
+  "ordinary-14-fri": cycles(
+    ["Gen 46:1-7, 28-30", "Ps 37"],
+    ["Hos 14:1-9", "Ps 51"],
+    "Matt 10:16-23",
+  ),
+  "ordinary-14-sat": cycles(
+    ["Gen 49:29-32; 50:15-26", "Ps 105"],
+    ["Isa 6:1-8", "Ps 93"],
+    "Matt 10:24-33",
+  ),
+  "ordinary-15-mon": cycles(
+    ["Exod 1:8-14, 22", "Ps 124"],
+    ["Isa 1:10-17", "Ps 50"],
+    "Matt 10:34-11:1",
+  ),
+  "ordinary-15-tue": cycles(["Exod 2:1-15", "Ps 69"], ["Isa 7:1-9", "Ps 48"], "Matt 11:20-24"),
+  "ordinary-15-wed": cycles(
+    ["Exod 3:1-6, 9-12", "Ps 103"],
+    ["Isa 10:5-7, 13-16", "Ps 94"],
+    "Matt 11:25-27",
+  ),
+  "ordinary-15-thu": cycles(
+    ["Exod 3:13-20", "Ps 105"],
+    ["Isa 26:7-9, 12, 16-19", "Ps 102"],
+    "Matt 11:28-30",
+  ),
+  "ordinary-15-fri": cycles(
+    ["Exod 11:10-12:14", "Ps 116"],
+    ["Isa 38:1-8, 21-22", "Isa 38:10-12, 16"],
+    "Matt 12:1-8",
+  ),
+  "ordinary-15-sat": cycles(["Exod 12:37-42", "Ps 136"], ["Mic 2:1-5", "Ps 10"], "Matt 12:14-21"),
+  "ordinary-16-mon": cycles(
+    ["Exod 14:5-18", "Exod 15:1-6"],
+    ["Mic 6:1-4, 6-8", "Ps 50"],
+    "Matt 12:38-42",
+  ),
+  "ordinary-16-tue": cycles(
+    ["Exod 14:21-15:1", "Exod 15:8-10, 12, 17"],
+    ["Mic 7:14-15, 18-20", "Ps 85"],
+    "Matt 12:46-50",
+  ),
+  "ordinary-16-wed": cycles(
+    ["Exod 16:1-5, 9-15", "Ps 78"],
+    ["Jer 1:1, 4-10", "Ps 71"],
+    "Matt 13:1-9",
+  ),
+  "ordinary-16-thu": cycles(
+    ["Exod 19:1-2, 9-11, 16-20", "Dan 3:52-56"],
+    ["Jer 2:1-3, 7-8, 12-13", "Ps 36"],
+    "Matt 13:10-17",
+  ),
+  "ordinary-16-fri": cycles(
+    ["Exod 20:1-17", "Ps 19"],
+    ["Jer 3:14-17", "Jer 31:10-13"],
+    "Matt 13:18-23",
+  ),
+  "ordinary-16-sat": cycles(["Exod 24:3-8", "Ps 50"], ["Jer 7:1-11", "Ps 84"], "Matt 13:24-30"),
+  "ordinary-17-mon": cycles(
+    ["Exod 32:15-24, 30-34", "Ps 106"],
+    ["Jer 13:1-11", "Deut 32:18-21"],
+    "Matt 13:31-35",
+  ),
+  "ordinary-17-tue": cycles(
+    ["Exod 33:7-11; 34:5-9, 28", "Ps 103"],
+    ["Jer 14:17-22", "Ps 79"],
+    "Matt 13:36-43",
+  ),
+  "ordinary-17-wed": cycles(
+    ["Exod 34:29-35", "Ps 99"],
+    ["Jer 15:10, 16-21", "Ps 59"],
+    "Matt 13:44-46",
+  ),
+  "ordinary-17-thu": cycles(
+    ["Exod 40:16-21, 34-38", "Ps 84"],
+    ["Jer 18:1-6", "Ps 146"],
+    "Matt 13:47-53",
+  ),
+  "ordinary-17-fri": cycles(
+    ["Lev 23:1, 4-11, 15-16, 27, 34-37", "Ps 81"],
+    ["Jer 26:1-9", "Ps 69"],
+    "Matt 13:54-58",
+  ),
+  "ordinary-17-sat": cycles(
+    ["Lev 25:1, 8-17", "Ps 67"],
+    ["Jer 26:11-16, 24", "Ps 69"],
+    "Matt 14:1-12",
+  ),
+  "ordinary-18-mon": cycles(["Num 11:4-15", "Ps 81"], ["Jer 28:1-17", "Ps 119"], "Matt 14:13-21"),
+  "ordinary-18-tue": cycles(
+    ["Num 12:1-13", "Ps 51"],
+    ["Jer 30:1-2, 12-15, 18-22", "Ps 102"],
+    "Matt 14:22-36",
+  ),
+  "ordinary-18-wed": cycles(
+    ["Num 13:1-2, 25-33; 14:1, 26-29, 34-35", "Ps 106"],
+    ["Jer 31:1-7", "Jer 31:10-13"],
+    "Matt 15:21-28",
+  ),
+  "ordinary-18-thu": cycles(["Num 20:1-13", "Ps 95"], ["Jer 31:31-34", "Ps 51"], "Matt 16:13-23"),
+  "ordinary-18-fri": cycles(
+    ["Deut 4:32-40", "Ps 77"],
+    ["Nah 1:15; 2:2; 3:1-3, 6-7", "Deut 32:35-36, 39, 41"],
+    "Matt 16:24-28",
+  ),
+  "ordinary-18-sat": cycles(["Deut 6:4-13", "Ps 18"], ["Hab 1:12-2:4", "Ps 9"], "Matt 17:14-20"),
+  "ordinary-19-mon": cycles(
+    ["Deut 10:12-22", "Ps 147"],
+    ["Ezek 1:2-5, 24-28", "Ps 148"],
+    "Matt 17:22-27",
+  ),
+  "ordinary-19-tue": cycles(
+    ["Deut 31:1-8", "Deut 32:3-4, 7-9, 12"],
+    ["Ezek 2:8-3:4", "Ps 119"],
+    "Matt 18:1-5, 10, 12-14",
+  ),
+  "ordinary-19-wed": cycles(
+    ["Deut 34:1-12", "Ps 66"],
+    ["Ezek 9:1-7; 10:18-22", "Ps 113"],
+    "Matt 18:15-20",
+  ),
+  "ordinary-19-thu": cycles(
+    ["Josh 3:7-11, 13-17", "Ps 114"],
+    ["Ezek 12:1-12", "Ps 78"],
+    "Matt 18:21-19:1",
+  ),
+  "ordinary-19-fri": cycles(
+    ["Josh 24:1-13", "Ps 136"],
+    ["Ezek 16:1-15, 60, 63", "Isa 12:2-6"],
+    "Matt 19:3-12",
+  ),
+  "ordinary-19-sat": cycles(
+    ["Josh 24:14-29", "Ps 16"],
+    ["Ezek 18:1-10, 13, 30-32", "Ps 51"],
+    "Matt 19:13-15",
+  ),
+  "ordinary-20-mon": cycles(
+    ["Judg 2:11-19", "Ps 106"],
+    ["Ezek 24:15-23", "Deut 32:18-21"],
+    "Matt 19:16-22",
+  ),
+  "ordinary-20-tue": cycles(
+    ["Judg 6:11-24", "Ps 85"],
+    ["Ezek 28:1-10", "Deut 32:26-28, 30, 35-36"],
+    "Matt 19:23-30",
+  ),
+  "ordinary-20-wed": cycles(["Judg 9:6-15", "Ps 21"], ["Ezek 34:1-11", "Ps 23"], "Matt 20:1-16"),
+  "ordinary-20-thu": cycles(["Judg 11:29-39", "Ps 40"], ["Ezek 36:23-28", "Ps 51"], "Matt 22:1-14"),
+  "ordinary-20-fri": cycles(
+    ["Ruth 1:1, 3-6, 14-16, 22", "Ps 146"],
+    ["Ezek 37:1-14", "Ps 107"],
+    "Matt 22:34-40",
+  ),
+  "ordinary-20-sat": cycles(
+    ["Ruth 2:1-3, 8-11; 4:13-17", "Ps 128"],
+    ["Ezek 43:1-7", "Ps 85"],
+    "Matt 23:1-12",
+  ),
+  "ordinary-21-mon": cycles(
+    ["1 Thess 1:1-5, 8-10", "Ps 149"],
+    ["2 Thess 1:1-5, 11-12", "Ps 96"],
+    "Matt 23:13-22",
+  ),
+  "ordinary-21-tue": cycles(
+    ["1 Thess 2:1-8", "Ps 139"],
+    ["2 Thess 2:1-3, 14-17", "Ps 96"],
+    "Matt 23:23-26",
+  ),
+  "ordinary-21-wed": cycles(
+    ["1 Thess 2:9-13", "Ps 139"],
+    ["2 Thess 3:6-10, 16-18", "Ps 128"],
+    "Matt 23:27-32",
+  ),
+  "ordinary-21-thu": cycles(
+    ["1 Thess 3:7-13", "Ps 90"],
+    ["1 Cor 1:1-9", "Ps 145"],
+    "Matt 24:42-51",
+  ),
+  "ordinary-21-fri": cycles(["1 Thess 4:1-8", "Ps 97"], ["1 Cor 1:17-25", "Ps 33"], "Matt 25:1-13"),
+  "ordinary-21-sat": cycles(
+    ["1 Thess 4:9-11", "Ps 98"],
+    ["1 Cor 1:26-31", "Ps 33"],
+    "Matt 25:14-30",
+  ),
+  "ordinary-22-mon": cycles(
+    ["1 Thess 4:13-18", "Ps 96"],
+    ["1 Cor 2:1-5", "Ps 119"],
+    "Luke 4:16-30",
+  ),
+  "ordinary-22-tue": cycles(
+    ["1 Thess 5:1-6, 9-11", "Ps 27"],
+    ["1 Cor 2:10-16", "Ps 145"],
+    "Luke 4:31-37",
+  ),
+  "ordinary-22-wed": cycles(["Col 1:1-8", "Ps 52"], ["1 Cor 3:1-9", "Ps 33"], "Luke 4:38-44"),
+  "ordinary-22-thu": cycles(["Col 1:9-14", "Ps 98"], ["1 Cor 3:18-23", "Ps 24"], "Luke 5:1-11"),
+  "ordinary-22-fri": cycles(["Col 1:15-20", "Ps 100"], ["1 Cor 4:1-5", "Ps 37"], "Luke 5:33-39"),
+  "ordinary-22-sat": cycles(["Col 1:21-23", "Ps 54"], ["1 Cor 4:6-15", "Ps 145"], "Luke 6:1-5"),
+  "ordinary-23-mon": cycles(["Col 1:24-2:3", "Ps 62"], ["1 Cor 5:1-8", "Ps 5"], "Luke 6:6-11"),
+  "ordinary-23-tue": cycles(["Col 2:6-15", "Ps 145"], ["1 Cor 6:1-11", "Ps 149"], "Luke 6:12-19"),
+  "ordinary-23-wed": cycles(["Col 3:1-11", "Ps 145"], ["1 Cor 7:25-31", "Ps 45"], "Luke 6:20-26"),
+  "ordinary-23-thu": cycles(
+    ["Col 3:12-17", "Ps 150"],
+    ["1 Cor 8:1-7, 11-13", "Ps 139"],
+    "Luke 6:27-38",
+  ),
+  "ordinary-23-fri": cycles(
+    ["1 Tim 1:1-2, 12-14", "Ps 16"],
+    ["1 Cor 9:16-19, 22-27", "Ps 84"],
+    "Luke 6:39-42",
+  ),
+  "ordinary-23-sat": cycles(
+    ["1 Tim 1:15-17", "Ps 113"],
+    ["1 Cor 10:14-22", "Ps 116"],
+    "Luke 6:43-49",
+  ),
+  "ordinary-24-mon": cycles(
+    ["1 Tim 2:1-8", "Ps 28"],
+    ["1 Cor 11:17-26, 33", "Ps 40"],
+    "Luke 7:1-10",
+  ),
+  "ordinary-24-tue": cycles(
+    ["1 Tim 3:1-13", "Ps 101"],
+    ["1 Cor 12:12-14, 27-31", "Ps 100"],
+    "Luke 7:11-17",
+  ),
+  "ordinary-24-wed": cycles(
+    ["1 Tim 3:14-16", "Ps 111"],
+    ["1 Cor 12:31-13:13", "Ps 33"],
+    "Luke 7:31-35",
+  ),
+  "ordinary-24-thu": cycles(
+    ["1 Tim 4:12-16", "Ps 111"],
+    ["1 Cor 15:1-11", "Ps 118"],
+    "Luke 7:36-50",
+  ),
+  "ordinary-24-fri": cycles(["1 Tim 6:2-12", "Ps 49"], ["1 Cor 15:12-20", "Ps 17"], "Luke 8:1-3"),
+  "ordinary-24-sat": cycles(
+    ["1 Tim 6:13-16", "Ps 100"],
+    ["1 Cor 15:35-37, 42-49", "Ps 56"],
+    "Luke 8:4-15",
+  ),
+  "ordinary-25-mon": cycles(["Ezra 1:1-6", "Ps 126"], ["Prov 3:27-34", "Ps 15"], "Luke 8:16-18"),
+  "ordinary-25-tue": cycles(
+    ["Ezra 6:7-8, 12, 14-20", "Ps 122"],
+    ["Prov 21:1-6, 10-13", "Ps 119"],
+    "Luke 8:19-21",
+  ),
+  "ordinary-25-wed": cycles(
+    ["Ezra 9:5-9", "Tob 13:2-4, 7-8"],
+    ["Prov 30:5-9", "Ps 119"],
+    "Luke 9:1-6",
+  ),
+  "ordinary-25-thu": cycles(["Hag 1:1-8", "Ps 149"], ["Eccl 1:2-11", "Ps 90"], "Luke 9:7-9"),
+  "ordinary-25-fri": cycles(["Hag 2:1-9", "Ps 43"], ["Eccl 3:1-11", "Ps 144"], "Luke 9:18-22"),
+  "ordinary-25-sat": cycles(
+    ["Zech 2:1-5, 10-11", "Jer 31:10-13"],
+    ["Eccl 11:9-12:8", "Ps 90"],
+    "Luke 9:43-45",
+  ),
+  "ordinary-26-mon": cycles(["Zech 8:1-8", "Ps 102"], ["Job 1:6-22", "Ps 17"], "Luke 9:46-50"),
+  "ordinary-26-tue": cycles(
+    ["Zech 8:20-23", "Ps 87"],
+    ["Job 3:1-3, 11-17, 20-23", "Ps 88"],
+    "Luke 9:51-56",
+  ),
+  "ordinary-26-wed": cycles(
+    ["Neh 2:1-8", "Ps 137"],
+    ["Job 9:1-12, 14-16", "Ps 88"],
+    "Luke 9:57-62",
+  ),
+  "ordinary-26-thu": cycles(["Neh 8:1-12", "Ps 19"], ["Job 19:21-27", "Ps 27"], "Luke 10:1-12"),
+  "ordinary-26-fri": cycles(
+    ["Bar 1:15-22", "Ps 79"],
+    ["Job 38:1, 12-21; 40:3-5", "Ps 139"],
+    "Luke 10:13-16",
+  ),
+  "ordinary-26-sat": cycles(
+    ["Bar 4:5-12, 27-29", "Ps 69"],
+    ["Job 42:1-3, 5-6, 12-17", "Ps 119"],
+    "Luke 10:17-24",
+  ),
+  "ordinary-27-mon": cycles(
+    ["Jonah 1:1-17; 2:10", "Jonah 2:2-4, 7"],
+    ["Gal 1:6-12", "Ps 111"],
+    "Luke 10:25-37",
+  ),
+  "ordinary-27-tue": cycles(["Jonah 3:1-10", "Ps 130"], ["Gal 1:13-24", "Ps 139"], "Luke 10:38-42"),
+  "ordinary-27-wed": cycles(
+    ["Jonah 4:1-11", "Ps 86"],
+    ["Gal 2:1-2, 7-14", "Ps 117"],
+    "Luke 11:1-4",
+  ),
+  "ordinary-27-thu": cycles(
+    ["Mal 3:13-18; 4:1-2", "Ps 1"],
+    ["Gal 3:1-5", "Luke 1:69-75"],
+    "Luke 11:5-13",
+  ),
+  "ordinary-27-fri": cycles(
+    ["Joel 1:13-15; 2:1-2", "Ps 9"],
+    ["Gal 3:7-14", "Ps 111"],
+    "Luke 11:15-26",
+  ),
+  "ordinary-27-sat": cycles(["Joel 3:12-21", "Ps 97"], ["Gal 3:22-29", "Ps 105"], "Luke 11:27-28"),
+  "ordinary-28-mon": cycles(
+    ["Rom 1:1-7", "Ps 98"],
+    ["Gal 4:22-24, 26-27, 31; 5:1", "Ps 113"],
+    "Luke 11:29-32",
+  ),
+  "ordinary-28-tue": cycles(["Rom 1:16-25", "Ps 19"], ["Gal 5:1-6", "Ps 119"], "Luke 11:37-41"),
+  "ordinary-28-wed": cycles(["Rom 2:1-11", "Ps 62"], ["Gal 5:18-25", "Ps 1"], "Luke 11:42-46"),
+  "ordinary-28-thu": cycles(["Rom 3:21-30", "Ps 130"], ["Eph 1:1-10", "Ps 98"], "Luke 11:47-54"),
+  "ordinary-28-fri": cycles(["Rom 4:1-8", "Ps 32"], ["Eph 1:11-14", "Ps 33"], "Luke 12:1-7"),
+  "ordinary-28-sat": cycles(["Rom 4:13, 16-18", "Ps 105"], ["Eph 1:15-23", "Ps 8"], "Luke 12:8-12"),
+  "ordinary-29-mon": cycles(
+    ["Rom 4:20-25", "Luke 1:69-75"],
+    ["Eph 2:1-10", "Ps 100"],
+    "Luke 12:13-21",
+  ),
+  "ordinary-29-tue": cycles(
+    ["Rom 5:12, 15, 17-21", "Ps 40"],
+    ["Eph 2:12-22", "Ps 85"],
+    "Luke 12:35-38",
+  ),
+  "ordinary-29-wed": cycles(
+    ["Rom 6:12-18", "Ps 124"],
+    ["Eph 3:2-12", "Isa 12:2-6"],
+    "Luke 12:39-48",
+  ),
+  "ordinary-29-thu": cycles(["Rom 6:19-23", "Ps 1"], ["Eph 3:14-21", "Ps 33"], "Luke 12:49-53"),
+  "ordinary-29-fri": cycles(["Rom 7:18-25", "Ps 119"], ["Eph 4:1-6", "Ps 24"], "Luke 12:54-59"),
+  "ordinary-29-sat": cycles(["Rom 8:1-11", "Ps 24"], ["Eph 4:7-16", "Ps 122"], "Luke 13:1-9"),
+  "ordinary-30-mon": cycles(["Rom 8:12-17", "Ps 68"], ["Eph 4:32-5:8", "Ps 1"], "Luke 13:10-17"),
+  "ordinary-30-tue": cycles(["Rom 8:18-25", "Ps 126"], ["Eph 5:21-33", "Ps 128"], "Luke 13:18-21"),
+  "ordinary-30-wed": cycles(["Rom 8:26-30", "Ps 13"], ["Eph 6:1-9", "Ps 145"], "Luke 13:22-30"),
+  "ordinary-30-thu": cycles(["Rom 8:31-39", "Ps 109"], ["Eph 6:10-20", "Ps 144"], "Luke 13:31-35"),
+  "ordinary-30-fri": cycles(["Rom 9:1-5", "Ps 147"], ["Phil 1:1-11", "Ps 111"], "Luke 14:1-6"),
+  "ordinary-30-sat": cycles(
+    ["Rom 11:1-2, 11-12, 25-29", "Ps 94"],
+    ["Phil 1:18-26", "Ps 42"],
+    "Luke 14:1, 7-11",
+  ),
+  "ordinary-31-mon": cycles(["Rom 11:29-36", "Ps 69"], ["Phil 2:1-4", "Ps 131"], "Luke 14:12-14"),
+  "ordinary-31-tue": cycles(["Rom 12:5-16", "Ps 131"], ["Phil 2:5-11", "Ps 22"], "Luke 14:15-24"),
+  "ordinary-31-wed": cycles(["Rom 13:8-10", "Ps 112"], ["Phil 2:12-18", "Ps 27"], "Luke 14:25-33"),
+  "ordinary-31-thu": cycles(["Rom 14:7-12", "Ps 27"], ["Phil 3:3-8", "Ps 105"], "Luke 15:1-10"),
+  "ordinary-31-fri": cycles(["Rom 15:14-21", "Ps 98"], ["Phil 3:17-4:1", "Ps 122"], "Luke 16:1-8"),
+  "ordinary-31-sat": cycles(
+    ["Rom 16:3-9, 16, 22-27", "Ps 145"],
+    ["Phil 4:10-19", "Ps 112"],
+    "Luke 16:9-15",
+  ),
+  "ordinary-32-mon": cycles(["Wis 1:1-7", "Ps 139"], ["Titus 1:1-9", "Ps 24"], "Luke 17:1-6"),
+  "ordinary-32-tue": cycles(
+    ["Wis 2:23-3:9", "Ps 34"],
+    ["Titus 2:1-8, 11-14", "Ps 37"],
+    "Luke 17:7-10",
+  ),
+  "ordinary-32-wed": cycles(["Wis 6:1-11", "Ps 82"], ["Titus 3:1-7", "Ps 23"], "Luke 17:11-19"),
+  "ordinary-32-thu": cycles(["Wis 7:22-8:1", "Ps 119"], ["Phlm 7-20", "Ps 146"], "Luke 17:20-25"),
+  "ordinary-32-fri": cycles(["Wis 13:1-9", "Ps 19"], ["2 John 4-9", "Ps 119"], "Luke 17:26-37"),
+  "ordinary-32-sat": cycles(
+    ["Wis 18:14-16; 19:6-9", "Ps 105"],
+    ["3 John 5-8", "Ps 112"],
+    "Luke 18:1-8",
+  ),
+  "ordinary-33-mon": cycles(
+    ["1 Macc 1:10-15, 41-43, 54-57, 62-63", "Ps 119"],
+    ["Rev 1:1-4; 2:1-5", "Ps 1"],
+    "Luke 18:35-43",
+  ),
+  "ordinary-33-tue": cycles(
+    ["2 Macc 6:18-31", "Ps 3"],
+    ["Rev 3:1-6, 14-22", "Ps 15"],
+    "Luke 19:1-10",
+  ),
+  "ordinary-33-wed": cycles(
+    ["2 Macc 7:1, 20-31", "Ps 17"],
+    ["Rev 4:1-11", "Ps 150"],
+    "Luke 19:11-28",
+  ),
+  "ordinary-33-thu": cycles(["1 Macc 2:15-29", "Ps 50"], ["Rev 5:1-10", "Ps 149"], "Luke 19:41-44"),
+  "ordinary-33-fri": cycles(
+    ["1 Macc 4:36-37, 52-59", "1 Chr 29:10-12"],
+    ["Rev 10:8-11", "Ps 119"],
+    "Luke 19:45-48",
+  ),
+  "ordinary-33-sat": cycles(["1 Macc 6:1-13", "Ps 9"], ["Rev 11:4-12", "Ps 144"], "Luke 20:27-40"),
+  "ordinary-34-mon": cycles(
+    ["Dan 1:1-6, 8-20", "Dan 3:52-56"],
+    ["Rev 14:1-5", "Ps 24"],
+    "Luke 21:1-4",
+  ),
+  "ordinary-34-tue": cycles(
+    ["Dan 2:31-45", "Dan 3:57-61"],
+    ["Rev 14:14-19", "Ps 96"],
+    "Luke 21:5-11",
+  ),
+  "ordinary-34-wed": cycles(
+    ["Dan 5:1-6, 13-14, 16-17, 23-28", "Dan 3:62-67"],
+    ["Rev 15:1-4", "Ps 98"],
+    "Luke 21:12-19",
+  ),
+  "ordinary-34-thu": cycles(
+    ["Dan 6:11-27", "Dan 3:68-74"],
+    ["Rev 18:1-2, 21-23; 19:1-3, 9", "Ps 100"],
+    "Luke 21:20-28",
+  ),
+  "ordinary-34-fri": cycles(
+    ["Dan 7:2-14", "Dan 3:75-81"],
+    ["Rev 20:1-4, 11-15; 21:1-2", "Ps 84"],
+    "Luke 21:29-33",
+  ),
+  "ordinary-34-sat": cycles(
+    ["Dan 7:15-27", "Dan 3:82-87"],
+    ["Rev 22:1-7", "Ps 95"],
+    "Luke 21:34-36",
+  ),
+};
@@ -0,0 +1,257 @@
+import {
+  addDays,
+  daysBetween,
+  getCelebrations,
+  getEaster,
+  getFirstSundayOfAdvent,
+  toDateKey,
+} from "./calendar";
+
+// The penitential seasons the challenge screen tracks
+export type ChallengeSeasonId = "lent" | "advent";
+
+export interface ChallengeSeason {
+  id: ChallengeSeasonId;
+  // e.g. "Lent 2026", "Great Lent 2026", "Nativity Fast 2026"
+  title: string;
+  year: number;
+  // First and last day, inclusive
+  start: Date;
+  end: Date;
+}
+
+export interface GuideEvent {
+  // "YYYY-MM-DD"
+  date: string;
+  title: string;
+  description: string;
+}
+
+// A suggested practice, placed by days from the start of the season
+interface GuideSuggestion {
+  day: number;
+  title: string;
+  description: string;
+}
+
+const LENT_GUIDE: GuideSuggestion[] = [
+  {
+    day: 1,
+    title: "Silent Prayer",
+    description:
+      "Dedicate 20 minutes to silent prayer or meditation. Find a quiet space, focus on your breathing, and invite God's presence. Consider using a guided prayer resource if needed.",
+  },
+  {
+    day: 2,
+    title: "Stations of the Cross",
+    description:
+      "Participate in the Stations of the Cross at your local parish. Reflect on each station, contemplating Jesus' journey to the crucifixion and its significance in your life.",
+  },
+  {
+    day: 3,
+    title: "Group Discussion",
+    description:
+      "Organize a group discussion with friends or family about the significance of Lent. Share personal goals and support each other in your spiritual journeys.",
+  },
+  {
+    day: 4,
+    title: "Meatless Meal",
+    description:
+      "Prepare and share a simple, meatless meal with loved ones. Use this time to discuss the importance of fasting and how it brings you closer to God.",
+  },
+  {
+    day: 5,
+    title: "Social Media Fast",
+    description:
+      "Commit to a day without social media. Use the time to read a passage from the Bible, perhaps starting with the Gospels, and reflect on its message.",
+  },
+  {
+    day: 6,
+    title: "Charitable Act",
+    description:
+      "Engage in a charitable act, such as volunteering at a local shelter or donating to a food bank. Reflect on how acts of service embody Christ's love.",
+  },
+];
+
+const ADVENT_GUIDE: GuideSuggestion[] = [
+  {
+    day: 0,
+    title: "Light the Advent Wreath",
+    description:
+      "Light the first candle of an Advent wreath with your household and set a personal intention for the season: a habit of prayer, a fast and a way to serve.",
+  },
+  {
+    day: 1,
+    title: "Daily Scripture",
+    description:
+      "Read the prophecies of Isaiah that the Church reads in Advent, a few verses a day. Note one promise of God that speaks to you and return to it through the week.",
+  },
+  {
+    day: 3,
+    title: "Jesse Tree",
+    description:
+      "Begin a Jesse Tree: each day, hang a symbol for one of the people and stories that lead from creation to the birth of Jesus, and read their story aloud.",
+  },
+  {
+    day: 6,
+    title: "Reconciliation",
+    description:
+      "Make time for confession or an honest examination of conscience. Ask where you need to make peace with God or with someone close to you before Christmas.",
+  },
+  {
+    day: 10,
+    title: "Works of Mercy",
+    description:
+      "Give a gift to someone who cannot repay you: a donation to a giving tree, a visit to someone who is alone, or a meal for a family in need.",
+  },
+  {
+    day: 13,
+    title: "Family Prayer",
+    description:
+      "Gather friends or family to pray and sing together around the wreath. Share what you are hoping for this Christmas and pray for one another.",
+  },
+];
+
+// What to do on the season's own days; other celebrations get a general suggestion
+const CELEBRATION_GUIDES: Record<string, string> = {
+  "ash-wednesday":
+    "Attend an Ash Wednesday service to receive ashes on your forehead, symbolizing repentance and mortality. Reflect on areas in your life needing growth and set a personal intention for Lent.",
+  "clean-monday":
+    "Begin Great Lent having asked forgiveness of those around you at Forgiveness Vespers. Keep the fast, and set a personal intention for the season of prayer, fasting and almsgiving.",
+  "palm-sunday":
+    "Carry palms into worship and walk with Jesus into Jerusalem. Read the Passion narrative slowly this week and choose how you will keep the holiest days of the year.",
+  "holy-thursday":
+    "Remember the Last Supper and Jesus washing his disciples' feet. Attend the evening service if you can, and serve someone at home in a humble, hidden way.",
+  "good-friday":
+    "Keep the day quietly with fasting and prayer. Attend a service of the Lord's Passion or pray the Stations of the Cross, and spend time before a crucifix or icon.",
+  "immaculate-conception":
+    "Honor Mary, preserved from sin from her conception. Attend Mass and pray a decade of the Rosary asking her to help you prepare a place for Christ.",
+};
+
+/**
+ * Lent and Advent (Great Lent and the Nativity Fast for the Orthodox) of a calendar year
+ */
+export function getChallengeSeasons(year: number, denomination?: string | null): ChallengeSeason[] {
+  const easter = getEaster(year, denomination);
+  const christmasEve = new Date(year, 11, 24);
+
+  if (denomination === "orthodox") {
+    return [
+      {
+        id: "lent",
+        title: `Great Lent ${year}`,
+        year,
+        // Clean Monday to Holy Saturday
+        start: addDays(easter, -48),
+        end: addDays(easter, -1),
+      },
+      {
+        id: "advent",
+        title: `Nativity Fast ${year}`,
+        year,
+        start: new Date(year, 10, 15),
+        end: christmasEve,
+      },
+    ];
+  }
+
+  return [
+    {
+      id: "lent",
+      title: `Lent ${year}`,
+      year,
+      // Ash Wednesday to Holy Saturday
+      start: addDays(easter, -46),
+      end: addDays(easter, -1),
+    },
+    {
+      id: "advent",
+      title: `Advent ${year}`,
+      year,
+      start: getFirstSundayOfAdvent(year),
+      end: christmasEve,
+    },
+  ];
+}
+
+/**
+ * The season under way on a date, or the next one to begin
+ */
+export function getChallengeSeason(date: Date, denomination?: string | null): ChallengeSeason {
+  const seasons = [
+    ...getChallengeSeasons(date.getFullYear(), denomination),
+    ...getChallengeSeasons(date.getFullYear() + 1, denomination),
+  ];
+  return seasons.find((season) => daysBetween(date, season.end) >= 0)!;
+}
+
+/**
+ * The season before (-1) or after (1) another
+ */
+export function getAdjacentChallengeSeason(
+  season: ChallengeSeason,
+  direction: 1 | -1,
+  denomination?: string | null,
+): ChallengeSeason {
+  const seasons = [season.year - 1, season.year, season.year + 1].flatMap((year) =>
+    getChallengeSeasons(year, denomination),
+  );
+  const index = seasons.findIndex((s) => s.id === season.id && s.year === season.year);
+  return seasons[index + direction];
+}
+
+export interface SeasonProgress {
+  status: "upcoming" | "current" | "past";
+  // 1-based day of the season, clamped to the season
+  day: number;
+  totalDays: number;
+  daysUntil: number;
+}
+
+/**
+ * Where a date falls in a season
+ */
+export function getSeasonProgress(season: ChallengeSeason, date: Date): SeasonProgress {
+  const totalDays = daysBetween(season.start, season.end) + 1;
+  const elapsed = daysBetween(season.start, date);
+  return {
+    status: elapsed < 0 ? "upcoming" : elapsed >= totalDays ? "past" : "current",
+    day: Math.min(Math.max(elapsed + 1, 1), totalDays),
+    totalDays,
+    daysUntil: Math.max(-elapsed, 0),
+  };
+}
+
+/**
+ * Suggested practices for each day of a season, together with the
+ * denomination's celebrations that fall within it
+ */
+export function getSeasonGuide(
+  season: ChallengeSeason,
+  denomination?: string | null,
+): GuideEvent[] {
+  const suggestions = season.id === "lent" ? LENT_GUIDE : ADVENT_GUIDE;
+  const events: GuideEvent[] = suggestions.map(({ day, title, description }) => ({
+    date: toDateKey(addDays(season.start, day)),
+    title,
+    description,
+  }));
+
+  getCelebrations(season.year, denomination)
+    .filter(
+      ({ date }) => daysBetween(season.start, date) >= 0 && daysBetween(date, season.end) >= 0,
+    )
+    .forEach(({ key, date, title, holyDayOfObligation }) => {
+      events.push({
+        date: toDateKey(date),
+        title,
+        description:
+          CELEBRATION_GUIDES[key] ??
+          (holyDayOfObligation
+            ? `${title} is a holy day of obligation. Plan to attend Mass and keep the day holy.`
+            : `Mark ${title} with prayer and, where you can, by worshipping with your church.`),
+      });
+    });
+
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -4,6 +4,11 @@ import * as Notifications from "expo-notifications";
 import { supabase } from "../supabaseClient";
 import Constants from "expo-constants";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  describePrayerNews,
+  fetchUnnotifiedPrayerNews,
+  markPrayerNewsNotified,
+} from "./prayer/intentionLifecycle";
 
 // Set up notification handler - how notifications are presented while app is in foreground
 Notifications.setNotificationHandler({
@@ -525,3 +530,71 @@ export function setupMinistryMessagesListener(ministryIds: number[] = []): () =>
     return () => {};
   }
 }
+
+/**
+ * Tell the user about updates and answers on intentions they prayed for, one
+ * notification per intention
+ */
+export async function flushPrayerNews(userId: string): Promise<void> {
+  try {
+    const prefs = await getNotificationPreferences();
+    if (!prefs.prayerRequests) return;
+
+    const news = await fetchUnnotifiedPrayerNews(userId);
+    const intentionIds = [...new Set(news.map(({ intention_id }) => intention_id))];
+
+    for (const intentionId of intentionIds) {
+      const items = news.filter((item) => item.intention_id === intentionId);
+      const answered = items.some(({ kind }) => kind === "answered");
+      const { title, body } = describePrayerNews(
+        answered ? "answered" : "update",
+        items[0].intention?.title ?? "an intention",
+      );
+      await scheduleLocalNotification(title, body, { type: "prayer_news", intentionId });
+    }
+    await markPrayerNewsNotified(news.map(({ id }) => id));
+  } catch (error) {
+    console.error("Error sending prayer news:", error);
+  }
+}
+
+/**
+ * Set up a Supabase real-time listener for news on intentions the user prayed for
+ *
+ * @param userId The person who prayed
+ * @returns A cleanup function to remove the subscription
+ */
+export function setupPrayerNewsListener(userId: string): () => void {
+  try {
+    // Catch up on anything that arrived while the app was closed
+    flushPrayerNews(userId);
+
+    const newsChannel = supabase.channel("prayer_news_notifications").on(
+      "postgres_changes",
+      {
+        event: "INSERT",
+        schema: "public",
+        table: "prayer_notifications",
+        filter: `user_id=eq.${userId}`,
+      },
+      () => {
+        flushPrayerNews(userId);
+      },
+    );
+
+    newsChannel.subscribe((status) => {
+      console.log("Prayer news subscription status:", status);
+    });
+
+    return () => {
+      try {
+        supabase.removeChannel(newsChannel);
+      } catch (error) {
+        console.error("Error removing prayer news channel:", error);
+      }
+    };
+  } catch (error) {
+    console.error("Error setting up prayer news listener:", error);
+    return () => {};
+  }
+}
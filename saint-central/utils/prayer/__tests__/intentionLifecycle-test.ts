@@ -0,0 +1,90 @@
+import {
+  buildTimeline,
+  getIntentionStatus,
+  isIntentionOpen,
+  isIntentionVisible,
+  IntentionViewer,
+} from "../intentionLifecycle";
+
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+
+const viewer: IntentionViewer = {
+  userId: "me",
+  friendIds: new Set(["friend"]),
+  groupIds: ["group-1"],
+  groupMateIds: new Set(["me", "mate"]),
+};
+
+const intention = (
+  user_id: string,
+  visibility: string,
+  selected: Partial<Record<string, string[]>> = {},
+) => ({
+  user_id,
+  visibility,
+  selected_friends: selected.friends ?? null,
+  selected_groups: selected.groups ?? null,
+});
+
+describe("intention lifecycle", () => {
+  it("reads the status of older intentions from completed", () => {
+    expect(getIntentionStatus({ completed: false })).toBe("active");
+    expect(getIntentionStatus({ completed: true })).toBe("closed");
+    expect(getIntentionStatus({ status: "answered", completed: true })).toBe("answered");
+    expect(isIntentionOpen("updated")).toBe(true);
+    expect(isIntentionOpen("answered")).toBe(false);
+  });
+
+  it("tells the story of an answered intention in order", () => {
+    const timeline = buildTimeline(
+      {
+        description: "For my mother's surgery",
+        created_at: "2026-10-01T12:00:00.000Z",
+        status: "answered",
+        answered_at: "2026-10-15T09:00:00.000Z",
+        completed_at: "2026-10-15T09:00:00.000Z",
+        testimony: "She is home and recovering.",
+      },
+      [
+        {
+          id: "u2",
+          intention_id: "i",
+          user_id: "me",
+          content: "Surgery went well",
+          created_at: "2026-10-10T18:00:00.000Z",
+        },
+        {
+          id: "u1",
+          intention_id: "i",
+          user_id: "me",
+          content: "Surgery is on the 10th",
+          created_at: "2026-10-03T08:00:00.000Z",
+        },
+      ],
+    );
+
+    expect(timeline.map(({ kind, text }) => [kind, text])).toEqual([
+      ["created", "For my mother's surgery"],
+      ["update", "Surgery is on the 10th"],
+      ["update", "Surgery went well"],
+      ["answered", "She is home and recovering."],
+    ]);
+  });
+
+  it("follows each visibility setting", () => {
+    expect(isIntentionVisible(intention("me", "Just Me"), viewer)).toBe(true);
+    expect(isIntentionVisible(intention("friend", "Just Me"), viewer)).toBe(false);
+    expect(isIntentionVisible(intention("friend", "Friends"), viewer)).toBe(true);
+    expect(isIntentionVisible(intention("mate", "Friends"), viewer)).toBe(false);
+    expect(isIntentionVisible(intention("mate", "Friends & Groups"), viewer)).toBe(true);
+    expect(
+      isIntentionVisible(intention("stranger", "Certain Friends", { friends: ["me"] }), viewer),
+    ).toBe(true);
+    expect(
+      isIntentionVisible(intention("mate", "Certain Groups", { groups: ["group-2"] }), viewer),
+    ).toBe(false);
+    expect(
+      isIntentionVisible(intention("mate", "Certain Groups", { groups: ["group-1"] }), viewer),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { supabase } from "../../../supabaseClient";
+import {
+  fetchPrayerCounts,
+  fetchPrayerList,
+  formatPrayedCount,
+  setPrayedToday,
+} from "../intentionPrayers";
+
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+
+// A query builder that records each call and resolves to the given result
+const query = (result: { data?: unknown; error: unknown }) => {
+  const calls: [string, unknown[]][] = [];
+  const builder: any = new Proxy(
+    {},
+    {
+      get: (_, method: string) =>
+        method === "then"
+          ? (resolve: (value: unknown) => void) => resolve(result)
+          : (...args: unknown[]) => {
+              calls.push([method, args]);
+              return builder;
+            },
+    },
+  );
+  return { builder, calls };
+};
+
+describe("intention prayers", () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date(2026, 9, 19, 21, 30));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("counts people", () => {
+    expect(formatPrayedCount(1)).toBe("1 person prayed");
+    expect(formatPrayedCount(12)).toBe("12 people prayed");
+  });
+
+  it("records a prayer for today, or takes today's back", async () => {
+    const { builder, calls } = query({ error: null });
+    (supabase as any).from = jest.fn(() => builder);
+
+    await setPrayedToday("a", "me", true);
+    expect(supabase.from).toHaveBeenCalledWith("intention_prayers");
+    expect(calls).toEqual([
+      ["insert", [{ intention_id: "a", user_id: "me", prayed_on: "2026-10-19" }]],
+    ]);
+
+    calls.length = 0;
+    await setPrayedToday("a", "me", false);
+    expect(calls).toEqual([
+      ["delete", []],
+      ["eq", ["intention_id", "a"]],
+      ["eq", ["user_id", "me"]],
+      ["eq", ["prayed_on", "2026-10-19"]],
+    ]);
+  });
+
+  it("throws when recording a prayer fails", async () => {
+    const error = { message: "Not allowed", code: "42501" };
+    (supabase as any).from = () => query({ error }).builder;
+    await expect(setPrayedToday("a", "me", true)).rejects.toBe(error);
+  });
+
+  it("keys prayer counts by intention, without asking about no intentions", async () => {
+    const counts = [
+      { intention_id: "a", people: 2, prayed_today: true },
+      { intention_id: "b", people: 1, prayed_today: false },
+    ];
+    const rpc = jest.fn(async () => ({ data: counts, error: null }));
+    (supabase as any).rpc = rpc;
+
+    expect(await fetchPrayerCounts([])).toEqual({});
+    expect(rpc).not.toHaveBeenCalled();
+
+    expect(await fetchPrayerCounts(["a", "b", "c"])).toEqual({ a: counts[0], b: counts[1] });
+    expect(rpc).toHaveBeenCalledWith("intention_prayer_counts", {
+      p_intention_ids: ["a", "b", "c"],
+      p_today: "2026-10-19",
+    });
+  });
+
+  it("lists who prayed for an intention", async () => {
+    const people = [
+      {
+        user_id: "ann",
+        first_name: "Ann",
+        last_name: null,
+        last_prayed_at: "2026-10-19T09:00:00+00:00",
+        times: 2,
+      },
+    ];
+    const rpc = jest.fn(async () => ({ data: people, error: null }));
+    (supabase as any).rpc = rpc;
+
+    expect(await fetchPrayerList("a")).toEqual(people);
+    expect(rpc).toHaveBeenCalledWith("intention_prayer_list", { p_intention_id: "a" });
+
+    (supabase as any).rpc = async () => ({ data: null, error: null });
+    expect(await fetchPrayerList("a")).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  ReminderSchedule,
+  ReminderWithIntention,
+  describeReminder,
+  getReminderTriggers,
+  getTodaysPrayerList,
+  isReminderDueOn,
+} from "../intentionReminders";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+jest.mock("../../notifications", () => ({ scheduleLocalNotification: jest.fn() }));
+jest.mock("expo-notifications", () => ({
+  cancelScheduledNotificationAsync: jest.fn(),
+  SchedulableTriggerInputTypes: { DAILY: "daily", WEEKLY: "weekly", DATE: "date" },
+}));
+
+const schedule = (overrides: Partial<ReminderSchedule>): ReminderSchedule => ({
+  kind: "daily",
+  remind_time: "07:00",
+  remind_on: null,
+  weekdays: null,
+  until_date: null,
+  ...overrides,
+});
+
+const reminder = (
+  id: string,
+  overrides: Partial<ReminderSchedule>,
+  intention: Partial<NonNullable<ReminderWithIntention["intention"]>> | null = {},
+): ReminderWithIntention => ({
+  id,
+  user_id: "me",
+  intention_id: id,
+  created_at: "2026-10-01T00:00:00.000Z",
+  ...schedule(overrides),
+  intention: intention && {
+    id,
+    user_id: "friend",
+    title: `Intention ${id}`,
+    description: null,
+    type: "prayer",
+    completed: false,
+    status: "active",
+    user: null,
+    ...intention,
+  },
+});
+
+// Monday, October 19 2026
+const now = new Date(2026, 9, 19, 9, 30);
+
+describe("intention reminders", () => {
+  it("falls on the chosen days", () => {
+    const weekdays = schedule({ kind: "weekdays", weekdays: [1, 3, 5] });
+    expect(isReminderDueOn(weekdays, "2026-10-19")).toBe(true);
+    expect(isReminderDueOn(weekdays, "2026-10-20")).toBe(false);
+
+    const until = schedule({ kind: "until", until_date: "2026-10-25" });
+    expect(isReminderDueOn(until, "2026-10-25")).toBe(true);
+    expect(isReminderDueOn(until, "2026-10-26")).toBe(false);
+
+    expect(isReminderDueOn(schedule({ kind: "once", remind_on: "2026-10-21" }), "2026-10-21")).toBe(
+      true,
+    );
+  });
+
+  it("schedules repeating triggers, and dated ones only in the future", () => {
+    expect(getReminderTriggers(schedule({ kind: "weekdays", weekdays: [5, 1] }), now)).toEqual([
+      { type: "weekly", weekday: 2, hour: 7, minute: 0 },
+      { type: "weekly", weekday: 6, hour: 7, minute: 0 },
+    ]);
+
+    // This morning's 7:00 has passed, so "every day this week" starts tomorrow
+    const week = getReminderTriggers(schedule({ kind: "until", until_date: "2026-10-25" }), now);
+    expect(week).toHaveLength(6);
+    expect(week[0]).toEqual({ type: "date", date: new Date(2026, 9, 20, 7, 0) });
+
+    const far = getReminderTriggers(schedule({ kind: "until", until_date: "2027-01-01" }), now);
+    expect(far).toHaveLength(14);
+  });
+
+  it("describes each schedule", () => {
+    expect(describeReminder(schedule({}))).toBe("Every day at 7:00 AM");
+    expect(describeReminder(schedule({ kind: "weekdays", weekdays: [5, 1, 3] }))).toBe(
+      "Mon, Wed, Fri at 7:00 AM",
+    );
+    expect(
+      describeReminder(schedule({ kind: "until", until_date: "2026-10-25", remind_time: "21:15" })),
+    ).toBe("Every day until Oct 25 at 9:15 PM");
+    expect(describeReminder(schedule({ kind: "once", remind_on: "2026-10-21" }))).toBe(
+      "Oct 21 at 7:00 AM",
+    );
+  });
+
+  it("lists today's open intentions in the order their reminders ring", () => {
+    const list = getTodaysPrayerList(
+      [
+        reminder("evening", { remind_time: "20:00" }),
+        reminder("morning", { remind_time: "06:30" }),
+        reminder("tuesday", { kind: "weekdays", weekdays: [2] }),
+        reminder("answered", {}, { status: "answered", completed: true }),
+        reminder("older-completed", {}, { status: null, completed: true }),
+        reminder("deleted", {}, null),
+        reminder("ended", { kind: "until", until_date: "2026-10-18" }),
+      ],
+      now,
+    );
+
+    expect(list.map(({ id }) => id)).toEqual(["morning", "evening"]);
+  });
+});
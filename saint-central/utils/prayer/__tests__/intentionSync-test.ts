@@ -0,0 +1,206 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "../../../supabaseClient";
+import {
+  IntentionMutation,
+  applyPendingMutations,
+  enqueueMutation,
+  loadMutationQueue,
+  queueMutation,
+  replayMutationQueue,
+  resolveIntentionUpdate,
+} from "../intentionSync";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+jest.mock("expo-crypto", () => {
+  let count = 0;
+  return { randomUUID: () => `intention-${++count}` };
+});
+
+const create: IntentionMutation = {
+  kind: "create",
+  intentionId: "new",
+  fields: { title: "For my mother", favorite: false },
+  editedAt: "2026-10-19T09:00:00.000Z",
+};
+
+const update = (
+  intentionId: string,
+  fields: Record<string, unknown>,
+  base: Record<string, unknown>,
+  editedAt = "2026-10-19T09:05:00.000Z",
+): IntentionMutation => ({ kind: "update", intentionId, fields, base, editedAt });
+
+const remove = (intentionId: string): IntentionMutation => ({
+  kind: "delete",
+  intentionId,
+  editedAt: "2026-10-19T09:10:00.000Z",
+});
+
+describe("enqueueMutation", () => {
+  it("folds edits to a new intention into its creation", () => {
+    const queue = enqueueMutation([create], update("new", { favorite: true }, { favorite: false }));
+    expect(queue).toEqual([{ ...create, fields: { title: "For my mother", favorite: true } }]);
+  });
+
+  it("keeps the earliest base and the latest values across edits", () => {
+    let queue = enqueueMutation(
+      [],
+      update("a", { completed: true }, { completed: false }, "2026-10-19T09:01:00.000Z"),
+    );
+    queue = enqueueMutation(
+      queue,
+      update("a", { completed: false, favorite: true }, { completed: true, favorite: false }),
+    );
+    expect(queue).toEqual([
+      update("a", { completed: false, favorite: true }, { completed: false, favorite: false }),
+    ]);
+  });
+
+  it("drops an intention deleted before it reached the server", () => {
+    const queue = enqueueMutation([create, remove("other")], remove("new"));
+    expect(queue).toEqual([remove("other")]);
+  });
+
+  it("replaces queued edits with a delete, in the same place", () => {
+    const queue = enqueueMutation(
+      [update("a", { favorite: true }, { favorite: false }), create],
+      remove("a"),
+    );
+    expect(queue).toEqual([remove("a"), create]);
+  });
+
+  it("leaves changes being sent untouched", () => {
+    const sending = update("a", { favorite: true }, { favorite: false });
+    const next = update("a", { title: "Renamed" }, { title: "Old" });
+    expect(enqueueMutation([sending], next, 1)).toEqual([sending, next]);
+  });
+});
+
+describe("applyPendingMutations", () => {
+  it("lays queued changes over the server's rows", () => {
+    const rows = [
+      { id: "a", title: "A", favorite: false },
+      { id: "b", title: "B", favorite: false },
+    ];
+    const queue = [create, update("a", { favorite: true }, { favorite: false }), remove("b")];
+
+    expect(applyPendingMutations(rows, queue)).toEqual([
+      { id: "new", title: "For my mother", favorite: false },
+      { id: "a", title: "A", favorite: true },
+    ]);
+  });
+
+  it("doesn't duplicate a created intention the server already has", () => {
+    const rows = [{ id: "new", title: "For my mother" }];
+    expect(applyPendingMutations(rows, [create])).toEqual(rows);
+  });
+});
+
+describe("resolveIntentionUpdate", () => {
+  const mutation = update(
+    "a",
+    { title: "Mine", favorite: true },
+    { title: "Original", favorite: false },
+  ) as Extract<IntentionMutation, { kind: "update" }>;
+
+  it("applies fields nobody else changed", () => {
+    const server = { title: "Original", favorite: false, updated_at: "2026-10-19T09:30:00+00:00" };
+    expect(resolveIntentionUpdate(mutation, server)).toEqual({
+      changes: { title: "Mine", favorite: true },
+      conflicts: [],
+    });
+  });
+
+  it("keeps a newer edit from another device", () => {
+    const server = { title: "Theirs", favorite: false, updated_at: "2026-10-19T09:30:00+00:00" };
+    expect(resolveIntentionUpdate(mutation, server)).toEqual({
+      changes: { favorite: true },
+      conflicts: ["title"],
+    });
+  });
+
+  it("overwrites an older edit from another device", () => {
+    const server = { title: "Theirs", favorite: false, updated_at: "2026-10-19T09:00:00+00:00" };
+    expect(resolveIntentionUpdate(mutation, server)).toEqual({
+      changes: { title: "Mine", favorite: true },
+      conflicts: [],
+    });
+  });
+
+  it("treats the same timestamp written differently as unchanged", () => {
+    const closing = update(
+      "a",
+      { completed_at: "2026-10-19T09:05:00.000Z" },
+      { completed_at: "2026-10-18T08:00:00.000Z" },
+    ) as Extract<IntentionMutation, { kind: "update" }>;
+    const server = {
+      completed_at: "2026-10-19T09:05:00+00:00",
+      updated_at: "2026-10-19T09:30:00+00:00",
+    };
+    expect(resolveIntentionUpdate(closing, server)).toEqual({ changes: {}, conflicts: [] });
+  });
+});
+
+describe("replayMutationQueue", () => {
+  const offline = { message: "TypeError: Network request failed", code: "" };
+  let upsertError: { message: string; code: string } | null = null;
+  const upsert = jest.fn(async () => ({ error: upsertError }));
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    upsert.mockClear();
+    (supabase as any).from = () => ({ upsert });
+  });
+
+  it("sends an intention created offline once the connection is back", async () => {
+    upsertError = offline;
+    expect(await queueMutation(create)).toBe(1);
+
+    expect(await replayMutationQueue("user-1")).toEqual({
+      replayed: 0,
+      conflicts: [],
+      dropped: [],
+      remaining: 1,
+    });
+    expect(await loadMutationQueue()).toEqual([create]);
+
+    upsertError = null;
+    expect(await replayMutationQueue("user-1")).toEqual({
+      replayed: 1,
+      conflicts: [],
+      dropped: [],
+      remaining: 0,
+    });
+    expect(upsert).toHaveBeenLastCalledWith(
+      { title: "For my mother", favorite: false, id: "new", user_id: "user-1" },
+      { onConflict: "id", ignoreDuplicates: true },
+    );
+    expect(await loadMutationQueue()).toEqual([]);
+  });
+
+  it("keeps changes the server refused for now", async () => {
+    await queueMutation(create);
+
+    for (const code of ["PGRST301", "42501"]) {
+      upsertError = { message: "Not allowed", code };
+      expect(await replayMutationQueue("user-1")).toMatchObject({ dropped: [], remaining: 1 });
+    }
+    expect(await loadMutationQueue()).toEqual([create]);
+  });
+
+  it("drops and reports invalid changes", async () => {
+    upsertError = { message: "value too long for type character varying(255)", code: "22001" };
+    await queueMutation(create);
+
+    expect(await replayMutationQueue("user-1")).toEqual({
+      replayed: 1,
+      conflicts: [],
+      dropped: [create],
+      remaining: 0,
+    });
+    expect(await loadMutationQueue()).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { PrayerTeamRequest } from "@/types/prayer";
+import { describePrayerTeamStatus, isPrayerTeamRole, sortPrayerTeamQueue } from "../prayerTeam";
+
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+
+const request = (
+  id: string,
+  status: PrayerTeamRequest["status"],
+  createdAt: string,
+  claimedByMe = false,
+) =>
+  ({
+    intention_id: id,
+    title: id,
+    description: "",
+    type: "prayer",
+    created_at: createdAt,
+    author_name: null,
+    status,
+    claimed_by_me: claimedByMe,
+    prayed_at: null,
+  }) as PrayerTeamRequest;
+
+describe("prayer team", () => {
+  it("recognizes the prayer team role however it is written", () => {
+    expect(isPrayerTeamRole("Prayer Team")).toBe(true);
+    expect(isPrayerTeamRole(" prayer team ")).toBe(true);
+    expect(isPrayerTeamRole("admin")).toBe(false);
+    expect(isPrayerTeamRole(null)).toBe(false);
+  });
+
+  it("orders the queue for working through it", () => {
+    const queue = sortPrayerTeamQueue([
+      request("prayed", "prayed", "2026-10-01T00:00:00Z"),
+      request("theirs", "claimed", "2026-10-02T00:00:00Z"),
+      request("newer", "waiting", "2026-10-05T00:00:00Z"),
+      request("older", "waiting", "2026-10-03T00:00:00Z"),
+      request("mine", "claimed", "2026-10-04T00:00:00Z", true),
+    ]);
+    expect(queue.map(({ intention_id }) => intention_id)).toEqual([
+      "mine",
+      "older",
+      "newer",
+      "theirs",
+      "prayed",
+    ]);
+  });
+
+  it("tells the author where the request is without saying who has it", () => {
+    expect(describePrayerTeamStatus("waiting")).toBe("Sent to your church's prayer team");
+    expect(describePrayerTeamStatus("claimed")).toBe("A prayer team member is praying for this");
+    expect(describePrayerTeamStatus("prayed")).toBe("Your church's prayer team prayed for this");
+  });
+});
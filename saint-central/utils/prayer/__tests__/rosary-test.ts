@@ -0,0 +1,78 @@
+import { parseReference } from "../../bible/references";
+import {
+  MYSTERY_SETS,
+  ROSARY_STEPS,
+  clearRosaryProgress,
+  getMysterySetForDate,
+  getMysteryWeekdays,
+  loadRosaryProgress,
+  saveRosaryProgress,
+} from "../rosary";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+
+describe("rosary", () => {
+  it("picks the mysteries by weekday", () => {
+    // Monday 19 October 2026 to Sunday 25 October
+    const week = Array.from({ length: 7 }, (_, i) =>
+      getMysterySetForDate(new Date(2026, 9, 19 + i)),
+    );
+    expect(week).toEqual([
+      "joyful",
+      "sorrowful",
+      "glorious",
+      "luminous",
+      "sorrowful",
+      "joyful",
+      "glorious",
+    ]);
+    expect(getMysteryWeekdays("sorrowful")).toEqual([2, 5]);
+  });
+
+  it("follows the season on Sundays", () => {
+    // First Sunday of Advent, Holy Family, and the Second Sunday of Lent
+    expect(getMysterySetForDate(new Date(2026, 10, 29))).toBe("joyful");
+    expect(getMysterySetForDate(new Date(2026, 11, 27))).toBe("joyful");
+    expect(getMysterySetForDate(new Date(2026, 2, 1))).toBe("sorrowful");
+    // Easter Sunday keeps the Glorious mysteries
+    expect(getMysterySetForDate(new Date(2026, 3, 5))).toBe("glorious");
+  });
+
+  it("counts every bead of five decades", () => {
+    const hailMarys = ROSARY_STEPS.filter((step) => step.prayer === "hailMary");
+    expect(hailMarys).toHaveLength(53);
+    expect(ROSARY_STEPS.filter((step) => step.prayer === "ourFather")).toHaveLength(6);
+
+    const decade = ROSARY_STEPS.filter((step) => step.decade === 3);
+    expect(decade.map((step) => step.prayer)).toEqual([
+      "ourFather",
+      ...Array(10).fill("hailMary"),
+      "gloryBe",
+      "fatima",
+    ]);
+    expect(decade[10]).toMatchObject({ bead: 10, beadCount: 10 });
+  });
+
+  it("links every mystery to scripture", () => {
+    Object.values(MYSTERY_SETS).forEach(({ mysteries }) => {
+      expect(mysteries).toHaveLength(5);
+      mysteries.forEach(({ reference }) => expect(parseReference(reference)).toHaveLength(1));
+    });
+  });
+
+  it("keeps progress until it is cleared", async () => {
+    const progress = {
+      mysteries: "luminous" as const,
+      step: 12,
+      startedAt: "2026-10-19T07:00:00.000Z",
+      updatedAt: "2026-10-19T07:05:00.000Z",
+    };
+    await saveRosaryProgress(progress);
+    expect(await loadRosaryProgress()).toEqual(progress);
+
+    await clearRosaryProgress();
+    expect(await loadRosaryProgress()).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  Activity,
+  countActivities,
+  getMonthlyTrend,
+  getSeasonComparisons,
+  getStreak,
+  getWeeklyTrend,
+  totalCount,
+} from "../statistics";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+
+const activity = (kind: Activity["kind"], date: string): Activity => ({ kind, date });
+
+describe("statistics", () => {
+  const today = new Date(2026, 9, 19);
+
+  it("counts streaks of active days", () => {
+    const activities = [
+      activity("rosary", "2026-10-01"),
+      activity("chapter", "2026-10-02"),
+      activity("task", "2026-10-03"),
+      activity("chapter", "2026-10-03"),
+      activity("rosary", "2026-10-17"),
+      activity("rosary", "2026-10-18"),
+    ];
+    // Nothing yet today, so the streak runs up to yesterday
+    expect(getStreak(activities, today)).toEqual({ current: 2, longest: 3 });
+    expect(getStreak(activities, new Date(2026, 9, 20))).toEqual({ current: 0, longest: 3 });
+  });
+
+  it("groups activity by week and month", () => {
+    const activities = [
+      activity("chapter", "2026-10-18"),
+      activity("chapter", "2026-10-19"),
+      activity("event", "2026-10-11"),
+      activity("intention", "2026-09-30"),
+    ];
+
+    const weeks = getWeeklyTrend(activities, today, 4);
+    expect(weeks.map(({ label }) => label)).toEqual(["9/27", "10/4", "10/11", "10/18"]);
+    expect(weeks.map(({ counts }) => totalCount(counts))).toEqual([1, 0, 1, 2]);
+
+    const months = getMonthlyTrend(activities, today, 3);
+    expect(months.map(({ label }) => label)).toEqual(["Aug", "Sep", "Oct"]);
+    expect(months[2].counts).toMatchObject({ chapter: 2, event: 1 });
+  });
+
+  it("compares the same season across years", () => {
+    const activities = [
+      activity("task", "2025-03-05"),
+      activity("task", "2025-04-19"),
+      activity("rosary", "2025-04-20"),
+      activity("task", "2026-02-18"),
+    ];
+
+    const lents = getSeasonComparisons(activities, "lent", today, "catholic", 2);
+    expect(lents.map(({ season }) => season.title)).toEqual(["Lent 2025", "Lent 2026"]);
+    expect(lents.map(({ counts }) => counts.task)).toEqual([2, 1]);
+    expect(lents[0].counts.rosary).toBe(0);
+    expect(lents[1].days).toBe(46);
+
+    // Advent 2026 hasn't begun, and Advent 2025 is counted in full
+    const advents = getSeasonComparisons(activities, "advent", today, "catholic", 2);
+    expect(advents.map(({ season }) => season.title)).toEqual(["Advent 2025"]);
+    expect(advents[0].days).toBe(25);
+  });
+
+  it("counts within a range", () => {
+    const counts = countActivities(
+      [activity("task", "2026-01-01"), activity("task", "2026-01-02")],
+      new Date(2026, 0, 2),
+    );
+    expect(counts.task).toBe(1);
+  });
+});
@@ -0,0 +1,329 @@
+import { supabase } from "../../supabaseClient";
+import {
+  AnsweredPrayer,
+  IntentionStatus,
+  IntentionUpdate,
+  PrayerNotification,
+} from "@/types/prayer";
+
+// The category answered prayers are shared under in Culture & Testimonies
+export const TESTIMONY_CATEGORY = "Testimonies";
+
+export type TimelineEntry =
+  | { kind: "created"; date: string; text: string }
+  | { kind: "update"; date: string; text: string; id: string }
+  | { kind: "answered"; date: string; text: string }
+  | { kind: "closed"; date: string; text: string };
+
+interface TimelineIntention {
+  description?: string;
+  created_at: string | Date;
+  status?: IntentionStatus;
+  answered_at?: string | null;
+  completed_at?: string | null;
+  testimony?: string | null;
+}
+
+// Intentions from before the lifecycle have only `completed`
+export const getIntentionStatus = (intention: {
+  status?: IntentionStatus;
+  completed: boolean;
+}): IntentionStatus => intention.status ?? (intention.completed ? "closed" : "active");
+
+// Updates can be posted until an intention is answered or closed
+export const isIntentionOpen = (status: IntentionStatus): boolean =>
+  status === "active" || status === "updated";
+
+/**
+ * An intention's story, oldest first: when it was shared, each update, and
+ * how it ended
+ */
+export function buildTimeline(
+  intention: TimelineIntention,
+  updates: IntentionUpdate[],
+): TimelineEntry[] {
+  const entries: TimelineEntry[] = [
+    {
+      kind: "created",
+      date: new Date(intention.created_at).toISOString(),
+      text: intention.description || "",
+    },
+    ...updates.map(
+      ({ id, created_at, content }): TimelineEntry => ({
+        kind: "update",
+        id,
+        date: created_at,
+        text: content,
+      }),
+    ),
+  ];
+
+  if (intention.status === "answered" && intention.answered_at) {
+    entries.push({
+      kind: "answered",
+      date: intention.answered_at,
+      text: intention.testimony || "",
+    });
+  } else if (intention.status === "closed" && intention.completed_at) {
+    entries.push({ kind: "closed", date: intention.completed_at, text: "" });
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export interface IntentionViewer {
+  userId: string;
+  friendIds: Set<string>;
+  groupIds: string[];
+  // Everyone who shares a group with the viewer
+  groupMateIds: Set<string>;
+}
+
+/**
+ * Whether the viewer may see an intention, following its visibility setting
+ */
+export function isIntentionVisible(
+  intention: Pick<
+    AnsweredPrayer,
+    "user_id" | "visibility" | "selected_friends" | "selected_groups"
+  >,
+  viewer: IntentionViewer,
+): boolean {
+  if (intention.user_id === viewer.userId) return true;
+
+  switch (intention.visibility) {
+    case "Friends":
+      return viewer.friendIds.has(intention.user_id);
+    case "Certain Friends":
+      return (intention.selected_friends || []).map(String).includes(viewer.userId);
+    case "Certain Groups":
+      return (intention.selected_groups || [])
+        .map(String)
+        .some((groupId) => viewer.groupIds.map(String).includes(groupId));
+    case "Friends & Groups":
+      return viewer.friendIds.has(intention.user_id) || viewer.groupMateIds.has(intention.user_id);
+    default:
+      return false;
+  }
+}
+
+/**
+ * The notification for someone who prayed, about one intention's news
+ */
+export function describePrayerNews(
+  kind: PrayerNotification["kind"],
+  title: string,
+): { title: string; body: string } {
+  return kind === "answered"
+    ? {
+        title: "A prayer was answered!",
+        body: `"${title}" was answered. Thank you for praying.`,
+      }
+    : {
+        title: "An update on a prayer",
+        body: `There's news about "${title}", which you prayed for.`,
+      };
+}
+
+// ---------------------
+// UPDATES & ANSWERS
+// ---------------------
+
+export async function fetchIntentionUpdates(intentionId: string): Promise<IntentionUpdate[]> {
+  const { data, error } = await supabase
+    .from("intention_updates")
+    .select("*")
+    .eq("intention_id", intentionId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as IntentionUpdate[];
+}
+
+/**
+ * Post news on an intention. Its first update moves it from active to updated.
+ */
+export async function postIntentionUpdate(
+  intentionId: string,
+  userId: string,
+  content: string,
+): Promise<IntentionUpdate> {
+  const { data, error } = await supabase
+    .from("intention_updates")
+    .insert({ intention_id: intentionId, user_id: userId, content: content.trim() })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const { error: statusError } = await supabase
+    .from("intentions")
+    .update({ status: "updated" })
+    .eq("id", intentionId)
+    .eq("status", "active");
+  if (statusError) throw statusError;
+
+  return data as IntentionUpdate;
+}
+
+/**
+ * Mark an intention answered, with the author's testimony
+ */
+export async function markIntentionAnswered(
+  intentionId: string,
+  testimony: string,
+): Promise<{ answered_at: string }> {
+  const answeredAt = new Date().toISOString();
+  const { error } = await supabase
+    .from("intentions")
+    .update({
+      status: "answered",
+      answered_at: answeredAt,
+      testimony: testimony.trim() || null,
+      completed: true,
+      completed_at: answeredAt,
+    })
+    .eq("id", intentionId);
+
+  if (error) throw error;
+  return { answered_at: answeredAt };
+}
+
+/**
+ * Close an intention without an answer, or reopen it
+ */
+export async function setIntentionClosed(intentionId: string, closed: boolean): Promise<void> {
+  const { error } = await supabase
+    .from("intentions")
+    .update({
+      status: closed ? "closed" : "active",
+      completed: closed,
+      completed_at: closed ? new Date().toISOString() : null,
+      answered_at: null,
+      testimony: null,
+    })
+    .eq("id", intentionId);
+
+  if (error) throw error;
+}
+
+/**
+ * Share an answered intention's testimony in Culture & Testimonies
+ */
+export async function promoteTestimony(
+  intention: { id: string; title: string },
+  testimony: string,
+  userId: string,
+  authorName: string,
+): Promise<number> {
+  const { data, error } = await supabase
+    .from("culture_posts")
+    .insert({
+      title: `Answered: ${intention.title}`,
+      excerpt: testimony.trim(),
+      category: TESTIMONY_CATEGORY,
+      author_name: authorName,
+      user_id: userId,
+    })
+    .select("post_id")
+    .single();
+  if (error) throw error;
+
+  const { error: linkError } = await supabase
+    .from("intentions")
+    .update({ testimony_post_id: data.post_id })
+    .eq("id", intention.id);
+  if (linkError) throw linkError;
+
+  return data.post_id as number;
+}
+
+// ---------------------
+// ANSWERED PRAYERS
+// ---------------------
+
+async function fetchViewer(userId: string): Promise<IntentionViewer> {
+  const [{ data: friends, error: friendsError }, { data: memberships, error: groupsError }] =
+    await Promise.all([
+      supabase
+        .from("friends")
+        .select("user_id_1, user_id_2")
+        .or(`user_id_1.eq.${userId},user_id_2.eq.${userId}`)
+        .eq("status", "accepted"),
+      supabase.from("group_members").select("group_id").eq("user_id", userId),
+    ]);
+  if (friendsError) throw friendsError;
+  if (groupsError) throw groupsError;
+
+  const groupIds = (memberships || []).map(({ group_id }) => group_id);
+  const { data: groupMates, error: matesError } = groupIds.length
+    ? await supabase.from("group_members").select("user_id").in("group_id", groupIds)
+    : { data: [], error: null };
+  if (matesError) throw matesError;
+
+  return {
+    userId,
+    friendIds: new Set(
+      (friends || []).map((f) => (f.user_id_1 === userId ? f.user_id_2 : f.user_id_1)),
+    ),
+    groupIds,
+    groupMateIds: new Set((groupMates || []).map(({ user_id }) => user_id)),
+  };
+}
+
+/**
+ * Answered intentions from the user, their friends and their groups, most
+ * recently answered first
+ */
+export async function fetchAnsweredPrayers(userId: string, limit = 50): Promise<AnsweredPrayer[]> {
+  const [viewer, { data, error }] = await Promise.all([
+    fetchViewer(userId),
+    supabase
+      .from("intentions")
+      .select(
+        "id, user_id, title, description, type, visibility, selected_friends, selected_groups, created_at, answered_at, testimony, testimony_post_id, user:users(first_name, last_name)",
+      )
+      .eq("status", "answered")
+      .order("answered_at", { ascending: false })
+      .limit(limit),
+  ]);
+
+  if (error) throw error;
+  return ((data || []) as unknown as AnsweredPrayer[]).filter((intention) =>
+    isIntentionVisible(intention, viewer),
+  );
+}
+
+// ---------------------
+// NEWS FOR THOSE WHO PRAYED
+// ---------------------
+
+/**
+ * News on intentions the user prayed for that they haven't been told about,
+ * with the intentions' titles
+ */
+export async function fetchUnnotifiedPrayerNews(
+  userId: string,
+): Promise<(PrayerNotification & { intention: { title: string } | null })[]> {
+  const { data, error } = await supabase
+    .from("prayer_notifications")
+    .select("*, intention:intentions(title)")
+    .eq("user_id", userId)
+    .is("notified_at", null)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as unknown as (PrayerNotification & {
+    intention: { title: string } | null;
+  })[];
+}
+
+export async function markPrayerNewsNotified(notificationIds: string[]): Promise<void> {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("prayer_notifications")
+    .update({ notified_at: new Date().toISOString() })
+    .in("id", notificationIds);
+
+  if (error) throw error;
+}
@@ -0,0 +1,66 @@
+import { supabase } from "../../supabaseClient";
+import { IntentionPrayerCount, IntentionPrayerPerson } from "@/types/prayer";
+import { toDateKey } from "../liturgy/calendar";
+
+// "1 person prayed", "12 people prayed"
+export const formatPrayedCount = (people: number): string =>
+  `${people} ${people === 1 ? "person" : "people"} prayed`;
+
+// ---------------------
+// ACKNOWLEDGEMENTS
+// ---------------------
+
+/**
+ * Prayer counts for the given intentions, keyed by intention id. Intentions
+ * nobody has prayed for are left out.
+ */
+export async function fetchPrayerCounts(
+  intentionIds: string[],
+): Promise<Record<string, IntentionPrayerCount>> {
+  if (intentionIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc("intention_prayer_counts", {
+    p_intention_ids: intentionIds,
+    p_today: toDateKey(new Date()),
+  });
+
+  if (error) throw error;
+  return Object.fromEntries(
+    ((data || []) as IntentionPrayerCount[]).map((count) => [count.intention_id, count]),
+  );
+}
+
+/**
+ * Record that the user prayed for an intention today, or take it back
+ */
+export async function setPrayedToday(
+  intentionId: string,
+  userId: string,
+  prayed: boolean,
+): Promise<void> {
+  const today = toDateKey(new Date());
+  const { error } = prayed
+    ? await supabase
+        .from("intention_prayers")
+        .insert({ intention_id: intentionId, user_id: userId, prayed_on: today })
+    : await supabase
+        .from("intention_prayers")
+        .delete()
+        .eq("intention_id", intentionId)
+        .eq("user_id", userId)
+        .eq("prayed_on", today);
+
+  if (error) throw error;
+}
+
+/**
+ * Who prayed for one of the user's intentions, most recent first
+ */
+export async function fetchPrayerList(intentionId: string): Promise<IntentionPrayerPerson[]> {
+  const { data, error } = await supabase.rpc("intention_prayer_list", {
+    p_intention_id: intentionId,
+  });
+
+  if (error) throw error;
+  return (data || []) as IntentionPrayerPerson[];
+}
@@ -0,0 +1,327 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import { supabase } from "../../supabaseClient";
+import { scheduleLocalNotification } from "../notifications";
+import { IntentionReminder, IntentionStatus } from "@/types/prayer";
+import { SHORT_MONTH_NAMES, addDays, fromDateKey, toDateKey } from "../liturgy/calendar";
+import { getIntentionStatus, isIntentionOpen } from "./intentionLifecycle";
+
+// Storage keys
+const INTENTION_REMINDERS_KEY = "intentionReminders";
+
+// "until" reminders are scheduled as one notification per day, at most this
+// many days ahead; the rest are scheduled as the app syncs on later days
+export const MAX_DATED_REMINDERS = 14;
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// The parts of a reminder the user chooses
+export type ReminderSchedule = Pick<
+  IntentionReminder,
+  "kind" | "remind_time" | "remind_on" | "weekdays" | "until_date"
+>;
+
+// A reminder with the intention it is for; null once the intention is
+// deleted or no longer shared with the user
+export type ReminderWithIntention = IntentionReminder & {
+  intention: {
+    id: string;
+    user_id: string;
+    title: string;
+    description: string | null;
+    type: string;
+    completed: boolean;
+    status: IntentionStatus | null;
+    user: { first_name: string | null; last_name: string | null } | null;
+  } | null;
+};
+
+const atTime = (date: Date, time: string): Date => {
+  const [hour, minute] = time.split(":").map(Number);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute);
+};
+
+// "07:00" -> "7:00 AM"
+export const formatReminderTime = (time: string): string => {
+  const [hour, minute] = time.split(":").map(Number);
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12}:${String(minute).padStart(2, "0")} ${suffix}`;
+};
+
+// "2026-10-25" -> "Oct 25"
+const formatDay = (key: string): string => {
+  const date = fromDateKey(key);
+  return `${SHORT_MONTH_NAMES[date.getMonth()]} ${date.getDate()}`;
+};
+
+// ---------------------
+// SCHEDULES
+// ---------------------
+
+/**
+ * Whether a reminder falls on a day ("YYYY-MM-DD")
+ */
+export function isReminderDueOn(schedule: ReminderSchedule, dayKey: string): boolean {
+  switch (schedule.kind) {
+    case "once":
+      return schedule.remind_on === dayKey;
+    case "daily":
+      return true;
+    case "weekdays":
+      return (schedule.weekdays || []).includes(fromDateKey(dayKey).getDay());
+    case "until":
+      return !!schedule.until_date && dayKey <= schedule.until_date;
+  }
+}
+
+/**
+ * Whether a reminder has no days left after today
+ */
+export function isReminderFinished(schedule: ReminderSchedule, todayKey: string): boolean {
+  if (schedule.kind === "once") return !schedule.remind_on || schedule.remind_on < todayKey;
+  if (schedule.kind === "until") return !schedule.until_date || schedule.until_date < todayKey;
+  return false;
+}
+
+/**
+ * The local notification triggers for a reminder from now on. Daily and
+ * weekday reminders repeat by themselves; dated ones are listed day by day.
+ */
+export function getReminderTriggers(
+  schedule: ReminderSchedule,
+  now: Date,
+): Notifications.NotificationTriggerInput[] {
+  const [hour, minute] = schedule.remind_time.split(":").map(Number);
+
+  switch (schedule.kind) {
+    case "daily":
+      return [{ type: Notifications.SchedulableTriggerInputTypes.DAILY, hour, minute }];
+    case "weekdays":
+      // Expo counts weekdays from 1 = Sunday
+      return [...new Set(schedule.weekdays || [])]
+        .sort((a, b) => a - b)
+        .map((weekday) => ({
+          type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+          weekday: weekday + 1,
+          hour,
+          minute,
+        }));
+    case "once":
+    case "until": {
+      const last = schedule.kind === "once" ? schedule.remind_on : schedule.until_date;
+      const first = schedule.kind === "once" ? schedule.remind_on : toDateKey(now);
+      if (!first || !last) return [];
+
+      const dates: Date[] = [];
+      for (
+        let day = fromDateKey(first);
+        toDateKey(day) <= last && dates.length < MAX_DATED_REMINDERS;
+        day = addDays(day, 1)
+      ) {
+        const at = atTime(day, schedule.remind_time);
+        if (at > now) dates.push(at);
+      }
+      return dates.map((date) => ({
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date,
+      }));
+    }
+  }
+}
+
+/**
+ * A short description of a reminder, e.g. "Mon, Wed, Fri at 7:00 AM"
+ */
+export function describeReminder(schedule: ReminderSchedule): string {
+  const time = formatReminderTime(schedule.remind_time);
+
+  switch (schedule.kind) {
+    case "once":
+      return `${schedule.remind_on ? formatDay(schedule.remind_on) : "Once"} at ${time}`;
+    case "daily":
+      return `Every day at ${time}`;
+    case "weekdays":
+      return `${[...new Set(schedule.weekdays || [])]
+        .sort((a, b) => a - b)
+        .map((weekday) => WEEKDAY_LABELS[weekday])
+        .join(", ")} at ${time}`;
+    case "until":
+      return `Every day until ${schedule.until_date ? formatDay(schedule.until_date) : "…"} at ${time}`;
+  }
+}
+
+// A reminder should ring while its intention is open and it has days left
+const isReminderLive = (reminder: ReminderWithIntention, todayKey: string): boolean =>
+  !!reminder.intention &&
+  isIntentionOpen(
+    getIntentionStatus({
+      status: reminder.intention.status ?? undefined,
+      completed: reminder.intention.completed,
+    }),
+  ) &&
+  !isReminderFinished(reminder, todayKey);
+
+/**
+ * Today's prayer list: the open intentions with a reminder due today, in the
+ * order their reminders ring
+ */
+export function getTodaysPrayerList(
+  reminders: ReminderWithIntention[],
+  today: Date,
+): ReminderWithIntention[] {
+  const todayKey = toDateKey(today);
+  return reminders
+    .filter((reminder) => isReminderLive(reminder, todayKey))
+    .filter((reminder) => isReminderDueOn(reminder, todayKey))
+    .sort((a, b) => a.remind_time.localeCompare(b.remind_time));
+}
+
+// ---------------------
+// DATA
+// ---------------------
+
+export async function fetchIntentionReminders(userId: string): Promise<ReminderWithIntention[]> {
+  const { data, error } = await supabase
+    .from("intention_reminders")
+    .select(
+      "*, intention:intentions(id, user_id, title, description, type, completed, status, user:users(first_name, last_name))",
+    )
+    .eq("user_id", userId);
+
+  if (error) throw error;
+  return (data || []) as unknown as ReminderWithIntention[];
+}
+
+/**
+ * Set (or replace) the user's reminder for an intention
+ */
+export async function saveIntentionReminder(
+  userId: string,
+  intentionId: string,
+  schedule: ReminderSchedule,
+): Promise<IntentionReminder> {
+  const { data, error } = await supabase
+    .from("intention_reminders")
+    .upsert(
+      {
+        user_id: userId,
+        intention_id: intentionId,
+        kind: schedule.kind,
+        remind_time: schedule.remind_time,
+        remind_on: schedule.kind === "once" ? schedule.remind_on : null,
+        weekdays: schedule.kind === "weekdays" ? schedule.weekdays : null,
+        until_date: schedule.kind === "until" ? schedule.until_date : null,
+      },
+      { onConflict: "user_id,intention_id" },
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as IntentionReminder;
+}
+
+export async function deleteIntentionReminder(userId: string, intentionId: string): Promise<void> {
+  const { error } = await supabase
+    .from("intention_reminders")
+    .delete()
+    .eq("user_id", userId)
+    .eq("intention_id", intentionId);
+
+  if (error) throw error;
+}
+
+// ---------------------
+// NOTIFICATIONS
+// ---------------------
+
+// The notifications scheduled on this device for an intention, and the
+// schedule they were made from
+type ScheduledReminder = { ids: string[]; schedule: string };
+
+async function getScheduledReminders(): Promise<Record<string, ScheduledReminder>> {
+  try {
+    const stored = await AsyncStorage.getItem(INTENTION_REMINDERS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Error loading intention reminders:", error);
+    return {};
+  }
+}
+
+const scheduleSignature = ({
+  kind,
+  remind_time,
+  remind_on,
+  weekdays,
+  until_date,
+}: ReminderSchedule): string =>
+  JSON.stringify([kind, remind_time, remind_on, weekdays, until_date]);
+
+/**
+ * Cancel an intention's reminders, if any are scheduled on this device
+ */
+export async function cancelIntentionReminder(intentionId: string): Promise<void> {
+  const scheduled = await getScheduledReminders();
+  const reminder = scheduled[intentionId];
+  if (!reminder) return;
+
+  await Promise.all(
+    reminder.ids.map((id) => Notifications.cancelScheduledNotificationAsync(id).catch(() => {})),
+  );
+  delete scheduled[intentionId];
+  await AsyncStorage.setItem(INTENTION_REMINDERS_KEY, JSON.stringify(scheduled));
+}
+
+/**
+ * Schedule (or replace) the notifications for a reminder
+ */
+export async function scheduleIntentionReminder(
+  reminder: IntentionReminder,
+  title: string,
+  now: Date,
+): Promise<void> {
+  await cancelIntentionReminder(reminder.intention_id);
+
+  const ids: string[] = [];
+  for (const trigger of getReminderTriggers(reminder, now)) {
+    ids.push(
+      await scheduleLocalNotification(
+        "Time to pray",
+        `You planned to pray for "${title}".`,
+        { type: "intention_reminder", intentionId: reminder.intention_id },
+        trigger,
+      ),
+    );
+  }
+
+  const scheduled = await getScheduledReminders();
+  scheduled[reminder.intention_id] = { ids, schedule: scheduleSignature(reminder) };
+  await AsyncStorage.setItem(INTENTION_REMINDERS_KEY, JSON.stringify(scheduled));
+}
+
+/**
+ * Bring this device's notifications in line with the user's reminders: drop
+ * those for intentions that were completed, deleted or unshared, schedule
+ * new or changed ones, and top up dated reminders.
+ */
+export async function syncIntentionReminders(
+  reminders: ReminderWithIntention[],
+  now: Date,
+): Promise<void> {
+  const todayKey = toDateKey(now);
+  const live = reminders.filter((reminder) => isReminderLive(reminder, todayKey));
+  const liveIds = new Set(live.map((reminder) => reminder.intention_id));
+  const scheduled = await getScheduledReminders();
+
+  for (const intentionId of Object.keys(scheduled)) {
+    if (!liveIds.has(intentionId)) await cancelIntentionReminder(intentionId);
+  }
+
+  for (const reminder of live) {
+    const current = scheduled[reminder.intention_id];
+    if (!current || current.schedule !== scheduleSignature(reminder) || reminder.kind === "until") {
+      await scheduleIntentionReminder(reminder, reminder.intention?.title || "", now);
+    }
+  }
+}
@@ -0,0 +1,295 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import { supabase } from "../../supabaseClient";
+
+// Storage keys
+const QUEUE_KEY = "prayerIntentionsQueue";
+
+// How many changes at the front of the queue are being sent right now; new
+// changes aren't folded into those
+let inFlight = 0;
+let replaying: Promise<ReplayResult> | null = null;
+
+// An intention's columns as the app writes them
+export type IntentionFields = Record<string, unknown>;
+
+/**
+ * A change to an intention made on this device and not yet on the server.
+ * Updates remember each changed field's value before the edit (base), so a
+ * field edited on another device in the meantime can be told apart from one
+ * that wasn't.
+ */
+export type IntentionMutation =
+  | { kind: "create"; intentionId: string; fields: IntentionFields; editedAt: string }
+  | {
+      kind: "update";
+      intentionId: string;
+      fields: IntentionFields;
+      base: IntentionFields;
+      editedAt: string;
+    }
+  | { kind: "delete"; intentionId: string; editedAt: string };
+
+// A queued edit that lost to a newer edit from another device
+export interface IntentionConflict {
+  intentionId: string;
+  // The fields that kept the other device's value; empty if it was deleted there
+  fields: string[];
+  deleted: boolean;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  conflicts: IntentionConflict[];
+  // Rejected by the database as invalid, so they were given up on
+  dropped: IntentionMutation[];
+  // Still queued because the connection dropped or the server refused them
+  remaining: number;
+}
+
+/**
+ * An id for a new intention, made on the device so replaying its creation
+ * can't create it twice
+ */
+export const newIntentionId = (): string => Crypto.randomUUID();
+
+// Postgres and the app write the same timestamp differently ("+00:00" vs "Z")
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (typeof a === "string" && typeof b === "string" && a !== b) {
+    const [left, right] = [Date.parse(a), Date.parse(b)];
+    return a.includes("T") && b.includes("T") && !isNaN(left) && left === right;
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+// ---------------------
+// QUEUE
+// ---------------------
+
+/**
+ * Add a change to the queue, folding it into an earlier change to the same
+ * intention: edits to a new intention become part of its creation, later
+ * edits replace earlier values, and deleting an intention that never reached
+ * the server removes it from the queue altogether. The first `frozen`
+ * changes are left as they are.
+ */
+export function enqueueMutation(
+  queue: IntentionMutation[],
+  mutation: IntentionMutation,
+  frozen = 0,
+): IntentionMutation[] {
+  const index = queue.findIndex(
+    (queued, i) => i >= frozen && queued.intentionId === mutation.intentionId,
+  );
+  if (index === -1) return [...queue, mutation];
+
+  const queued = queue[index];
+  const rest = queue.filter((_, i) => i !== index);
+  const replaceWith = (next: IntentionMutation | null) =>
+    next ? [...rest.slice(0, index), next, ...rest.slice(index)] : rest;
+
+  if (mutation.kind === "delete") {
+    return replaceWith(queued.kind === "create" ? null : mutation);
+  }
+  if (queued.kind === "delete") return queue;
+
+  if (mutation.kind === "update") {
+    return replaceWith(
+      queued.kind === "create"
+        ? { ...queued, fields: { ...queued.fields, ...mutation.fields } }
+        : {
+            ...queued,
+            fields: { ...queued.fields, ...mutation.fields },
+            // The value before the first queued edit is what the server last had
+            base: { ...mutation.base, ...queued.base },
+            editedAt: mutation.editedAt,
+          },
+    );
+  }
+  return replaceWith(mutation);
+}
+
+/**
+ * The server's intentions with this device's queued changes laid over them,
+ * so offline edits stay visible until they are replayed
+ */
+export function applyPendingMutations<T extends { id: string }>(
+  rows: T[],
+  queue: IntentionMutation[],
+): T[] {
+  let result = [...rows];
+  queue.forEach((mutation) => {
+    switch (mutation.kind) {
+      case "create":
+        if (!result.some((row) => row.id === mutation.intentionId)) {
+          result = [{ ...mutation.fields, id: mutation.intentionId } as unknown as T, ...result];
+        }
+        break;
+      case "update":
+        result = result.map((row) =>
+          row.id === mutation.intentionId ? { ...row, ...mutation.fields } : row,
+        );
+        break;
+      case "delete":
+        result = result.filter((row) => row.id !== mutation.intentionId);
+        break;
+    }
+  });
+  return result;
+}
+
+/**
+ * Decide which of a queued update's fields to write, given the intention as
+ * the server has it now. A field also changed on another device keeps
+ * whichever edit was made last.
+ */
+export function resolveIntentionUpdate(
+  mutation: Extract<IntentionMutation, { kind: "update" }>,
+  server: IntentionFields & { updated_at?: string | null },
+): { changes: IntentionFields; conflicts: string[] } {
+  const serverIsNewer =
+    !!server.updated_at && Date.parse(server.updated_at) > Date.parse(mutation.editedAt);
+  const changes: IntentionFields = {};
+  const conflicts: string[] = [];
+
+  Object.entries(mutation.fields).forEach(([field, value]) => {
+    if (sameValue(server[field], value)) return;
+
+    const changedElsewhere =
+      field in mutation.base && !sameValue(server[field], mutation.base[field]);
+    if (changedElsewhere && serverIsNewer) {
+      conflicts.push(field);
+    } else {
+      changes[field] = value;
+    }
+  });
+
+  return { changes, conflicts };
+}
+
+// ---------------------
+// STORAGE & REPLAY
+// ---------------------
+
+export async function loadMutationQueue(): Promise<IntentionMutation[]> {
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error loading intention queue:", error);
+    return [];
+  }
+}
+
+async function saveMutationQueue(queue: IntentionMutation[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error("Error saving intention queue:", error);
+  }
+}
+
+/**
+ * Queue a change made on this device. Returns the queue length.
+ */
+export async function queueMutation(mutation: IntentionMutation): Promise<number> {
+  const queue = enqueueMutation(await loadMutationQueue(), mutation, inFlight);
+  await saveMutationQueue(queue);
+  return queue.length;
+}
+
+// Constraint violations (23xxx) and invalid data (22xxx) will fail again on
+// every replay, so the change is dropped rather than blocking the queue. Any
+// other error, such as an expired session (PGRST301) or a permission check
+// (42501), may pass later and keeps the change queued.
+const isRejected = (error: unknown): boolean => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && /^2[23][0-9A-Z]{3}$/.test(code);
+};
+
+async function replayMutation(
+  mutation: IntentionMutation,
+  userId: string,
+): Promise<IntentionConflict | null> {
+  switch (mutation.kind) {
+    case "create": {
+      const { error } = await supabase
+        .from("intentions")
+        .upsert(
+          { ...mutation.fields, id: mutation.intentionId, user_id: userId },
+          { onConflict: "id", ignoreDuplicates: true },
+        );
+      if (error) throw error;
+      return null;
+    }
+    case "delete": {
+      const { error } = await supabase.from("intentions").delete().eq("id", mutation.intentionId);
+      if (error) throw error;
+      return null;
+    }
+    case "update": {
+      const { data: server, error } = await supabase
+        .from("intentions")
+        .select("*")
+        .eq("id", mutation.intentionId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!server) return { intentionId: mutation.intentionId, fields: [], deleted: true };
+
+      const { changes, conflicts } = resolveIntentionUpdate(mutation, server);
+      if (Object.keys(changes).length > 0) {
+        const { error: updateError } = await supabase
+          .from("intentions")
+          .update(changes)
+          .eq("id", mutation.intentionId);
+        if (updateError) throw updateError;
+      }
+      return conflicts.length > 0
+        ? { intentionId: mutation.intentionId, fields: conflicts, deleted: false }
+        : null;
+    }
+  }
+}
+
+async function replayQueue(userId: string): Promise<ReplayResult> {
+  const queue = await loadMutationQueue();
+  const conflicts: IntentionConflict[] = [];
+  const dropped: IntentionMutation[] = [];
+  let replayed = 0;
+  inFlight = queue.length;
+
+  for (const mutation of queue) {
+    try {
+      const conflict = await replayMutation(mutation, userId);
+      if (conflict) conflicts.push(conflict);
+    } catch (error) {
+      if (!isRejected(error)) break;
+      console.error("Error replaying intention change, dropping it:", error);
+      dropped.push(mutation);
+    }
+    replayed++;
+  }
+
+  // Changes queued while replaying were appended after the ones sent
+  const remaining = (await loadMutationQueue()).slice(replayed);
+  await saveMutationQueue(remaining);
+  inFlight = 0;
+
+  return { replayed, conflicts, dropped, remaining: remaining.length };
+}
+
+/**
+ * Send queued changes to the server in the order they were made. Stops at
+ * the first failure other than invalid data and keeps the rest for the next
+ * attempt. Only
+ * one replay runs at a time; callers during a replay share its result.
+ */
+export function replayMutationQueue(userId: string): Promise<ReplayResult> {
+  if (!replaying) {
+    replaying = replayQueue(userId).finally(() => {
+      inFlight = 0;
+      replaying = null;
+    });
+  }
+  return replaying;
+}
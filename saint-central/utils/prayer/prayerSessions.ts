@@ -0,0 +1,27 @@
+import { supabase } from "../../supabaseClient";
+import { PrayerSession, PrayerSessionKind } from "@/types/prayer";
+
+/**
+ * Record a completed devotion so it counts toward the user's prayer statistics
+ */
+export async function recordPrayerSession(
+  userId: string,
+  kind: PrayerSessionKind,
+  startedAt: string,
+  details: Record<string, unknown> = {},
+): Promise<PrayerSession> {
+  const { data, error } = await supabase
+    .from("prayer_sessions")
+    .insert({
+      user_id: userId,
+      kind,
+      details,
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as PrayerSession;
+}
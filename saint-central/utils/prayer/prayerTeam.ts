@@ -0,0 +1,123 @@
+import { supabase } from "../../supabaseClient";
+import { PrayerTeamRequest, PrayerTeamStatus } from "@/types/prayer";
+
+// The intention visibility that sends a request to a church's prayer team
+export const PRAYER_TEAM_VISIBILITY = "Church Prayer Team";
+
+// The church_members role of prayer team members
+export const PRAYER_TEAM_ROLE = "prayer team";
+
+// A church the user belongs to, and whether they are on its prayer team
+export interface PrayerTeamChurch {
+  id: number;
+  name: string;
+  onTeam: boolean;
+}
+
+export const isPrayerTeamRole = (role: string | null | undefined): boolean =>
+  (role || "").trim().toLowerCase() === PRAYER_TEAM_ROLE;
+
+// What the author is told about their request; never who is handling it
+export function describePrayerTeamStatus(status: PrayerTeamStatus): string {
+  switch (status) {
+    case "waiting":
+      return "Sent to your church's prayer team";
+    case "claimed":
+      return "A prayer team member is praying for this";
+    case "prayed":
+      return "Your church's prayer team prayed for this";
+  }
+}
+
+const STATUS_ORDER: Record<PrayerTeamStatus, number> = { waiting: 0, claimed: 1, prayed: 2 };
+
+/**
+ * The team's queue in working order: requests the user holds first, then
+ * unclaimed ones, then those others hold, then those already prayed for,
+ * oldest first within each
+ */
+export function sortPrayerTeamQueue(requests: PrayerTeamRequest[]): PrayerTeamRequest[] {
+  const rank = (request: PrayerTeamRequest) =>
+    request.claimed_by_me && request.status === "claimed" ? -1 : STATUS_ORDER[request.status];
+  return [...requests].sort(
+    (a, b) => rank(a) - rank(b) || a.created_at.localeCompare(b.created_at),
+  );
+}
+
+// ---------------------
+// CHURCHES
+// ---------------------
+
+export async function fetchPrayerTeamChurches(userId: string): Promise<PrayerTeamChurch[]> {
+  const { data, error } = await supabase
+    .from("church_members")
+    .select("church_id, role, church:churches(name)")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  return (data || []).map((m: any) => ({
+    id: m.church_id,
+    name: m.church?.name ?? "My Church",
+    onTeam: isPrayerTeamRole(m.role),
+  }));
+}
+
+// ---------------------
+// QUEUE
+// ---------------------
+
+export async function fetchPrayerTeamQueue(churchId: number): Promise<PrayerTeamRequest[]> {
+  const { data, error } = await supabase.rpc("prayer_team_queue", { p_church_id: churchId });
+  if (error) throw error;
+  return sortPrayerTeamQueue(data || []);
+}
+
+/**
+ * Claim a request for the user. Returns false if another team member claimed
+ * it first.
+ */
+export async function claimPrayerRequest(intentionId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc("claim_prayer_request", {
+    p_intention_id: intentionId,
+  });
+  if (error) throw error;
+  return !!data;
+}
+
+export async function releasePrayerRequest(intentionId: string): Promise<void> {
+  const { error } = await supabase.rpc("release_prayer_request", {
+    p_intention_id: intentionId,
+  });
+  if (error) throw error;
+}
+
+export async function markPrayerRequestPrayed(intentionId: string): Promise<void> {
+  const { error } = await supabase.rpc("mark_prayer_request_prayed", {
+    p_intention_id: intentionId,
+  });
+  if (error) throw error;
+}
+
+// ---------------------
+// AUTHORS
+// ---------------------
+
+/**
+ * Where the user's own requests are with the prayer team, keyed by intention id
+ */
+export async function fetchPrayerTeamStatuses(
+  intentionIds: string[],
+): Promise<Record<string, PrayerTeamStatus>> {
+  if (intentionIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc("prayer_team_request_status", {
+    p_intention_ids: intentionIds,
+  });
+  if (error) throw error;
+
+  const statuses: Record<string, PrayerTeamStatus> = {};
+  (data || []).forEach((row: { intention_id: string; status: PrayerTeamStatus }) => {
+    statuses[row.intention_id] = row.status;
+  });
+  return statuses;
+}
@@ -0,0 +1,357 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getLiturgicalDay } from "../liturgy/calendar";
+
+// Storage keys
+const ROSARY_PROGRESS_KEY = "rosaryProgress";
+
+export type MysterySetId = "joyful" | "luminous" | "sorrowful" | "glorious";
+
+export interface Mystery {
+  title: string;
+  // The grace traditionally asked for in the decade
+  fruit: string;
+  // Scripture to read before the decade, numbered as in the KJV
+  reference: string;
+  meditation: string;
+}
+
+export interface MysterySet {
+  id: MysterySetId;
+  title: string;
+  mysteries: Mystery[];
+}
+
+export type RosaryPrayerId =
+  | "signOfTheCross"
+  | "creed"
+  | "ourFather"
+  | "hailMary"
+  | "gloryBe"
+  | "fatima"
+  | "hailHolyQueen"
+  | "closingPrayer";
+
+export const ROSARY_PRAYERS: Record<RosaryPrayerId, { title: string; text: string }> = {
+  signOfTheCross: {
+    title: "Sign of the Cross",
+    text: "In the name of the Father, and of the Son, and of the Holy Spirit. Amen.",
+  },
+  creed: {
+    title: "Apostles' Creed",
+    text: "I believe in God, the Father almighty, Creator of heaven and earth, and in Jesus Christ, his only Son, our Lord, who was conceived by the Holy Spirit, born of the Virgin Mary, suffered under Pontius Pilate, was crucified, died and was buried; he descended into hell; on the third day he rose again from the dead; he ascended into heaven, and is seated at the right hand of God the Father almighty; from there he will come to judge the living and the dead. I believe in the Holy Spirit, the holy catholic Church, the communion of saints, the forgiveness of sins, the resurrection of the body, and life everlasting. Amen.",
+  },
+  ourFather: {
+    title: "Our Father",
+    text: "Our Father, who art in heaven, hallowed be thy name; thy kingdom come, thy will be done on earth as it is in heaven. Give us this day our daily bread, and forgive us our trespasses, as we forgive those who trespass against us; and lead us not into temptation, but deliver us from evil. Amen.",
+  },
+  hailMary: {
+    title: "Hail Mary",
+    text: "Hail Mary, full of grace, the Lord is with thee. Blessed art thou among women, and blessed is the fruit of thy womb, Jesus. Holy Mary, Mother of God, pray for us sinners, now and at the hour of our death. Amen.",
+  },
+  gloryBe: {
+    title: "Glory Be",
+    text: "Glory be to the Father, and to the Son, and to the Holy Spirit, as it was in the beginning, is now, and ever shall be, world without end. Amen.",
+  },
+  fatima: {
+    title: "Fatima Prayer",
+    text: "O my Jesus, forgive us our sins, save us from the fires of hell, lead all souls to heaven, especially those in most need of thy mercy.",
+  },
+  hailHolyQueen: {
+    title: "Hail, Holy Queen",
+    text: "Hail, holy Queen, Mother of mercy, our life, our sweetness and our hope. To thee do we cry, poor banished children of Eve; to thee do we send up our sighs, mourning and weeping in this valley of tears. Turn then, most gracious advocate, thine eyes of mercy toward us, and after this our exile show unto us the blessed fruit of thy womb, Jesus. O clement, O loving, O sweet Virgin Mary. Pray for us, O holy Mother of God, that we may be made worthy of the promises of Christ.",
+  },
+  closingPrayer: {
+    title: "Closing Prayer",
+    text: "Let us pray. O God, whose only begotten Son, by his life, death and resurrection, has purchased for us the rewards of eternal life, grant, we beseech thee, that while meditating on these mysteries of the most holy Rosary of the Blessed Virgin Mary, we may imitate what they contain and obtain what they promise, through the same Christ our Lord. Amen.",
+  },
+};
+
+export const MYSTERY_SETS: Record<MysterySetId, MysterySet> = {
+  joyful: {
+    id: "joyful",
+    title: "Joyful Mysteries",
+    mysteries: [
+      {
+        title: "The Annunciation",
+        fruit: "Humility",
+        reference: "Luke 1:26-38",
+        meditation:
+          'The angel Gabriel greets Mary, and she answers, "Be it unto me according to thy word." Ask for the humility to say yes to what God asks of you today.',
+      },
+      {
+        title: "The Visitation",
+        fruit: "Love of neighbor",
+        reference: "Luke 1:39-56",
+        meditation:
+          "Mary hurries to help her cousin Elizabeth, and John leaps for joy at the presence of Christ. Think of someone who needs you to go to them, and carry Jesus there.",
+      },
+      {
+        title: "The Nativity",
+        fruit: "Poverty of spirit",
+        reference: "Luke 2:1-20",
+        meditation:
+          "The Son of God is born in a stable and laid in a manger, and shepherds are the first to come. Let go of what crowds out room for him in your heart.",
+      },
+      {
+        title: "The Presentation in the Temple",
+        fruit: "Obedience",
+        reference: "Luke 2:22-38",
+        meditation:
+          "Mary and Joseph offer Jesus to the Father as the Law asks, and Simeon foretells a sword that will pierce Mary's soul. Offer God your own plans and your family.",
+      },
+      {
+        title: "The Finding in the Temple",
+        fruit: "Joy in finding Jesus",
+        reference: "Luke 2:41-52",
+        meditation:
+          "After three days of searching, Mary and Joseph find Jesus in his Father's house. When God seems far away, keep seeking him, and he will be found.",
+      },
+    ],
+  },
+  luminous: {
+    id: "luminous",
+    title: "Luminous Mysteries",
+    mysteries: [
+      {
+        title: "The Baptism of the Lord",
+        fruit: "Openness to the Holy Spirit",
+        reference: "Matthew 3:13-17",
+        meditation:
+          'Jesus goes down into the Jordan, the Spirit descends and the Father says, "This is my beloved Son." Remember your own baptism and that you, too, are God\'s beloved child.',
+      },
+      {
+        title: "The Wedding at Cana",
+        fruit: "To Jesus through Mary",
+        reference: "John 2:1-11",
+        meditation:
+          'Mary notices the wine has run out and tells the servants, "Whatsoever he saith unto you, do it." Bring her what is lacking in your life and trust her Son with it.',
+      },
+      {
+        title: "The Proclamation of the Kingdom",
+        fruit: "Repentance and trust in God",
+        reference: "Mark 1:14-15",
+        meditation:
+          "Jesus proclaims that the kingdom of God is at hand and calls all to repent and believe. Ask him to show you one thing to turn away from, and one way to follow him more closely.",
+      },
+      {
+        title: "The Transfiguration",
+        fruit: "Desire for holiness",
+        reference: "Matthew 17:1-8",
+        meditation:
+          'On the mountain, Jesus\' face shines like the sun and the Father says, "Hear ye him." Ask for the grace to listen to Jesus and be changed by his glory.',
+      },
+      {
+        title: "The Institution of the Eucharist",
+        fruit: "Adoration",
+        reference: "Matthew 26:26-28",
+        meditation:
+          "At the Last Supper, Jesus takes bread and wine and gives us his Body and Blood. Thank him for staying with us, and ask to receive him with a prepared heart.",
+      },
+    ],
+  },
+  sorrowful: {
+    id: "sorrowful",
+    title: "Sorrowful Mysteries",
+    mysteries: [
+      {
+        title: "The Agony in the Garden",
+        fruit: "Conformity to God's will",
+        reference: "Matthew 26:36-46",
+        meditation:
+          'In Gethsemane, Jesus prays in anguish, "Not as I will, but as thou wilt," while his friends sleep. Stay awake with him and bring him the burdens you are afraid to carry.',
+      },
+      {
+        title: "The Scourging at the Pillar",
+        fruit: "Purity",
+        reference: "John 19:1",
+        meditation:
+          "Jesus is stripped and scourged, bearing in his body the wounds of our sins. Ask for purity of heart and mind, and for healing where you have been wounded.",
+      },
+      {
+        title: "The Crowning with Thorns",
+        fruit: "Moral courage",
+        reference: "Matthew 27:27-31",
+        meditation:
+          "The soldiers mock Jesus as a king with a crown of thorns and a reed for a sceptre. Ask for the courage to stand with him when following him brings ridicule.",
+      },
+      {
+        title: "The Carrying of the Cross",
+        fruit: "Patience",
+        reference: "Luke 23:26-32",
+        meditation:
+          "Jesus carries his cross to Calvary, and Simon of Cyrene is made to help him. Accept the crosses of today with patience, and help carry someone else's.",
+      },
+      {
+        title: "The Crucifixion",
+        fruit: "Perseverance",
+        reference: "Luke 23:33-46",
+        meditation:
+          "Jesus forgives those who crucify him and commends his spirit to the Father, with Mary at the foot of the cross. Stay with her there, and ask for the grace to forgive.",
+      },
+    ],
+  },
+  glorious: {
+    id: "glorious",
+    title: "Glorious Mysteries",
+    mysteries: [
+      {
+        title: "The Resurrection",
+        fruit: "Faith",
+        reference: "Matthew 28:1-10",
+        meditation:
+          'The tomb is empty and the angel says, "He is not here: for he is risen." Let the risen Christ meet you in whatever feels dead or hopeless in your life.',
+      },
+      {
+        title: "The Ascension",
+        fruit: "Hope",
+        reference: "Acts 1:6-11",
+        meditation:
+          "Jesus returns to the Father and sends his disciples out as his witnesses. Lift your heart to heaven, where he has gone to prepare a place for you.",
+      },
+      {
+        title: "The Descent of the Holy Spirit",
+        fruit: "Love of God",
+        reference: "Acts 2:1-4",
+        meditation:
+          "With Mary in the upper room, the apostles are filled with the Holy Spirit and begin to speak boldly. Ask the Spirit to set your heart on fire and give you words to share your faith.",
+      },
+      {
+        title: "The Assumption of Mary",
+        fruit: "Grace of a happy death",
+        reference: "Luke 1:46-55",
+        meditation:
+          "At the end of her earthly life, Mary is taken body and soul into heaven. Her Magnificat is fulfilled: he that is mighty has done great things for her. Ask to follow her home.",
+      },
+      {
+        title: "The Coronation of Mary",
+        fruit: "Trust in Mary's intercession",
+        reference: "Revelation 12:1",
+        meditation:
+          "Mary is crowned Queen of heaven and earth, a woman clothed with the sun. Entrust your intentions to her, and ask her to pray for you and those you love.",
+      },
+    ],
+  },
+};
+
+// Mysteries prayed on each weekday, from Sunday
+const WEEKDAY_MYSTERIES: MysterySetId[] = [
+  "glorious",
+  "joyful",
+  "sorrowful",
+  "glorious",
+  "luminous",
+  "sorrowful",
+  "joyful",
+];
+
+/**
+ * The mysteries for a date: by weekday, except that Sundays of Advent and
+ * Christmastide take the Joyful mysteries and Sundays of Lent the Sorrowful
+ */
+export function getMysterySetForDate(date: Date): MysterySetId {
+  const weekday = date.getDay();
+  if (weekday === 0) {
+    const { season } = getLiturgicalDay(date);
+    if (season === "advent" || season === "christmas") return "joyful";
+    if (season === "lent") return "sorrowful";
+  }
+  return WEEKDAY_MYSTERIES[weekday];
+}
+
+/**
+ * The weekdays (0 = Sunday) a set is prayed on outside the seasons
+ */
+export const getMysteryWeekdays = (id: MysterySetId): number[] =>
+  WEEKDAY_MYSTERIES.flatMap((set, weekday) => (set === id ? [weekday] : []));
+
+// ---------------------
+// STEPS
+// ---------------------
+
+export interface RosaryStep {
+  prayer: RosaryPrayerId;
+  // 1-5 inside a decade (announced on its Our Father), null before and after
+  decade: number | null;
+  // Position of a Hail Mary among its beads, e.g. 4 of 10
+  bead: number | null;
+  beadCount: number | null;
+  // What the opening Hail Marys are prayed for
+  intention?: string;
+}
+
+const step = (prayer: RosaryPrayerId, decade: number | null = null): RosaryStep => ({
+  prayer,
+  decade,
+  bead: null,
+  beadCount: null,
+});
+
+const OPENING_INTENTIONS = [
+  "an increase of faith",
+  "an increase of hope",
+  "an increase of charity",
+];
+
+/**
+ * Every prayer of a five-decade Rosary, in order, one step per bead or prayer
+ */
+export function buildRosarySteps(): RosaryStep[] {
+  const steps: RosaryStep[] = [step("signOfTheCross"), step("creed"), step("ourFather")];
+
+  OPENING_INTENTIONS.forEach((intention, i) =>
+    steps.push({ prayer: "hailMary", decade: null, bead: i + 1, beadCount: 3, intention }),
+  );
+  steps.push(step("gloryBe"));
+
+  for (let decade = 1; decade <= 5; decade++) {
+    steps.push(step("ourFather", decade));
+    for (let bead = 1; bead <= 10; bead++) {
+      steps.push({ prayer: "hailMary", decade, bead, beadCount: 10 });
+    }
+    steps.push(step("gloryBe", decade), step("fatima", decade));
+  }
+
+  steps.push(step("hailHolyQueen"), step("closingPrayer"), step("signOfTheCross"));
+  return steps;
+}
+
+export const ROSARY_STEPS = buildRosarySteps();
+
+// ---------------------
+// PROGRESS
+// ---------------------
+
+// A Rosary in progress, kept on the device so it can be resumed
+export interface RosaryProgress {
+  mysteries: MysterySetId;
+  // Index into ROSARY_STEPS
+  step: number;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export async function loadRosaryProgress(): Promise<RosaryProgress | null> {
+  try {
+    const saved = await AsyncStorage.getItem(ROSARY_PROGRESS_KEY);
+    return saved ? (JSON.parse(saved) as RosaryProgress) : null;
+  } catch (error) {
+    console.error("Error loading rosary progress:", error);
+    return null;
+  }
+}
+
+export async function saveRosaryProgress(progress: RosaryProgress): Promise<void> {
+  try {
+    await AsyncStorage.setItem(ROSARY_PROGRESS_KEY, JSON.stringify(progress));
+  } catch (error) {
+    console.error("Error saving rosary progress:", error);
+  }
+}
+
+export async function clearRosaryProgress(): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(ROSARY_PROGRESS_KEY);
+  } catch (error) {
+    console.error("Error clearing rosary progress:", error);
+  }
+}
@@ -0,0 +1,228 @@
+import { supabase } from "../../supabaseClient";
+import { loadReadingLog } from "../bible/readingLog";
+import {
+  SHORT_MONTH_NAMES,
+  addDays,
+  daysBetween,
+  fromDateKey,
+  toDateKey,
+} from "../liturgy/calendar";
+import {
+  ChallengeSeason,
+  ChallengeSeasonId,
+  getChallengeSeasons,
+} from "../liturgy/seasonalChallenges";
+
+// What the statistics screen counts
+export type ActivityKind = "task" | "intention" | "chapter" | "rosary" | "event";
+
+export interface Activity {
+  kind: ActivityKind;
+  // "YYYY-MM-DD"
+  date: string;
+}
+
+export type ActivityCounts = Record<ActivityKind, number>;
+
+export const ACTIVITY_LABELS: Record<ActivityKind, string> = {
+  task: "Challenge tasks",
+  intention: "Intentions completed",
+  chapter: "Chapters read",
+  rosary: "Rosaries prayed",
+  event: "Events attended",
+};
+
+export const ACTIVITY_KINDS = Object.keys(ACTIVITY_LABELS) as ActivityKind[];
+
+// Timestamps count on the user's local day
+const toActivityDate = (timestamp: string): string => toDateKey(new Date(timestamp));
+
+/**
+ * Count activities by kind, optionally between two dates (inclusive)
+ */
+export function countActivities(activities: Activity[], from?: Date, to?: Date): ActivityCounts {
+  const start = from ? toDateKey(from) : "";
+  const end = to ? toDateKey(to) : "9999-12-31";
+  const counts = Object.fromEntries(ACTIVITY_KINDS.map((kind) => [kind, 0])) as ActivityCounts;
+
+  activities.forEach(({ kind, date }) => {
+    if (date >= start && date <= end) counts[kind]++;
+  });
+  return counts;
+}
+
+export const totalCount = (counts: ActivityCounts): number =>
+  ACTIVITY_KINDS.reduce((sum, kind) => sum + counts[kind], 0);
+
+// ---------------------
+// STREAKS
+// ---------------------
+
+export interface Streak {
+  // Days in a row up to today, or up to yesterday when nothing is done yet today
+  current: number;
+  longest: number;
+}
+
+export function getStreak(activities: Activity[], today: Date): Streak {
+  const days = new Set(activities.map(({ date }) => date));
+
+  let current = 0;
+  let day = days.has(toDateKey(today)) ? today : addDays(today, -1);
+  while (days.has(toDateKey(day))) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  [...days].sort().forEach((key) => {
+    const date = fromDateKey(key);
+    run = previous && daysBetween(previous, date) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  });
+
+  return { current, longest };
+}
+
+// ---------------------
+// TRENDS
+// ---------------------
+
+export interface TrendPoint {
+  // e.g. "10/12" for a week, "Oct" for a month
+  label: string;
+  start: Date;
+  end: Date;
+  counts: ActivityCounts;
+}
+
+/**
+ * Activity in each of the last few weeks (Sunday to Saturday), oldest first
+ */
+export function getWeeklyTrend(activities: Activity[], today: Date, weeks = 8): TrendPoint[] {
+  const thisWeek = addDays(today, -today.getDay());
+  return Array.from({ length: weeks }, (_, i) => {
+    const start = addDays(thisWeek, (i - weeks + 1) * 7);
+    const end = addDays(start, 6);
+    return {
+      label: `${start.getMonth() + 1}/${start.getDate()}`,
+      start,
+      end,
+      counts: countActivities(activities, start, end),
+    };
+  });
+}
+
+/**
+ * Activity in each of the last few months, oldest first
+ */
+export function getMonthlyTrend(activities: Activity[], today: Date, months = 6): TrendPoint[] {
+  return Array.from({ length: months }, (_, i) => {
+    const start = new Date(today.getFullYear(), today.getMonth() + i - months + 1, 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+    return {
+      label: SHORT_MONTH_NAMES[start.getMonth()],
+      start,
+      end,
+      counts: countActivities(activities, start, end),
+    };
+  });
+}
+
+// ---------------------
+// SEASONS
+// ---------------------
+
+export interface SeasonComparison {
+  season: ChallengeSeason;
+  counts: ActivityCounts;
+  // Days of the season so far (all of it once it is over)
+  days: number;
+}
+
+/**
+ * Lent or Advent of this year and the years before it, for year-over-year
+ * comparison. A season under way is counted up to today; one that hasn't
+ * started is left out.
+ */
+export function getSeasonComparisons(
+  activities: Activity[],
+  seasonId: ChallengeSeasonId,
+  today: Date,
+  denomination?: string | null,
+  years = 3,
+): SeasonComparison[] {
+  const thisYear = today.getFullYear();
+  return Array.from({ length: years }, (_, i) => thisYear - years + 1 + i)
+    .map((year) => getChallengeSeasons(year, denomination).find(({ id }) => id === seasonId)!)
+    .filter((season) => daysBetween(season.start, today) >= 0)
+    .map((season) => {
+      const end = daysBetween(season.end, today) >= 0 ? season.end : today;
+      return {
+        season,
+        counts: countActivities(activities, season.start, end),
+        days: daysBetween(season.start, end) + 1,
+      };
+    });
+}
+
+// ---------------------
+// LOADING
+// ---------------------
+
+/**
+ * Everything a user has done since a date: completed challenge tasks (or their
+ * occurrences) and intentions, Rosaries, events marked as attended, and chapters
+ * read on this device
+ */
+export async function fetchActivities(userId: string, since: Date): Promise<Activity[]> {
+  const sinceKey = toDateKey(since);
+  const sinceIso = since.toISOString();
+
+  const [tasks, intentions, sessions, attendance, readingLog] = await Promise.all([
+    supabase.from("lent_tasks").select("date, completed, completed_dates").eq("user_id", userId),
+    supabase
+      .from("intentions")
+      .select("completed_at, created_at")
+      .eq("user_id", userId)
+      .eq("completed", true),
+    supabase
+      .from("prayer_sessions")
+      .select("completed_at")
+      .eq("user_id", userId)
+      .eq("kind", "rosary")
+      .gte("completed_at", sinceIso),
+    supabase.from("event_attendance").select("event:events (time)").eq("user_id", userId),
+    loadReadingLog(),
+  ]);
+
+  const error = tasks.error || intentions.error || sessions.error || attendance.error;
+  if (error) throw error;
+
+  const activities: Activity[] = [
+    // Task dates are stored as "YYYY-MM-DD" or "YYYY-MM-DDT00:00:00"; a
+    // recurring task lists the dates of its completed occurrences
+    ...(tasks.data || []).flatMap((t: any) =>
+      [...(t.completed ? [String(t.date).slice(0, 10)] : []), ...(t.completed_dates || [])].map(
+        (date: string) => ({ kind: "task" as const, date }),
+      ),
+    ),
+    ...(intentions.data || []).map((i: any) => ({
+      kind: "intention" as const,
+      date: toActivityDate(i.completed_at ?? i.created_at),
+    })),
+    ...(sessions.data || []).map((s: any) => ({
+      kind: "rosary" as const,
+      date: toActivityDate(s.completed_at),
+    })),
+    ...(attendance.data || [])
+      .filter((a: any) => a.event?.time)
+      .map((a: any) => ({ kind: "event" as const, date: toActivityDate(a.event.time) })),
+    ...readingLog.map(({ date }) => ({ kind: "chapter" as const, date })),
+  ];
+
+  return activities.filter(({ date }) => date >= sinceKey);
+}
@@ -0,0 +1,126 @@
+import { TrackedEngagementRow } from "@/types/engagement";
+import {
+  applyLikeChange,
+  formatCommentAuthor,
+  groupTargetsKey,
+  targetKey,
+  targetsKey,
+  toEngagementChange,
+  toggleLikeSummary,
+  trackEngagementChange,
+} from "../engagement";
+
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+
+describe("engagement", () => {
+  it("keeps targets of different types with the same id apart", () => {
+    expect(targetKey({ type: "faith_post", id: 7 })).not.toEqual(
+      targetKey({ type: "culture_post", id: 7 }),
+    );
+  });
+
+  it("keys a list of targets the same in any order, without repeats", () => {
+    const a = { type: "intentions", id: "a" } as const;
+    const b = { type: "lent_tasks", id: "b" } as const;
+    expect(targetsKey([a, b, a])).toEqual(targetsKey([b, a]));
+  });
+
+  it("groups a targets key by type", () => {
+    const key = targetsKey([
+      { type: "intentions", id: "a" },
+      { type: "faith_post", id: 3 },
+      { type: "intentions", id: "b" },
+    ]);
+    expect(groupTargetsKey(key)).toEqual(
+      new Map([
+        ["faith_post", ["3"]],
+        ["intentions", ["a", "b"]],
+      ]),
+    );
+    expect(groupTargetsKey("").size).toBe(0);
+  });
+
+  it("applies likes arriving in realtime", () => {
+    expect(applyLikeChange({ count: 2, liked: false }, true, false)).toEqual({
+      count: 3,
+      liked: false,
+    });
+    expect(applyLikeChange({ count: 2, liked: false }, true, true)).toEqual({
+      count: 3,
+      liked: true,
+    });
+    expect(applyLikeChange({ count: 1, liked: true }, false, false)).toEqual({
+      count: 0,
+      liked: true,
+    });
+    // The user's own like was shown when they tapped it
+    const toggled = { count: 3, liked: true };
+    expect(applyLikeChange(toggled, true, true)).toBe(toggled);
+  });
+
+  it("toggles a like without going below zero", () => {
+    expect(toggleLikeSummary({ count: 2, liked: false })).toEqual({ count: 3, liked: true });
+    expect(toggleLikeSummary({ count: 3, liked: true })).toEqual({ count: 2, liked: false });
+    expect(toggleLikeSummary({ count: 0, liked: true })).toEqual({ count: 0, liked: false });
+  });
+
+  it("reads realtime payloads", () => {
+    expect(
+      toEngagementChange("likes", "faith_post", {
+        eventType: "INSERT",
+        new: { id: "l1", likeable_id: 4, likeable_type: "faith_post", user_id: "me" },
+        old: {},
+      } as any),
+    ).toEqual({ event: "INSERT", id: "l1", key: "faith_post:4", userId: "me" });
+    expect(
+      toEngagementChange("comments", "intentions", {
+        eventType: "DELETE",
+        new: {},
+        old: { id: "c1" },
+      } as any),
+    ).toEqual({ event: "DELETE", id: "c1" });
+  });
+
+  it("matches removals to the item they were counted on, once", () => {
+    const rows = new Map<string, TrackedEngagementRow>();
+    const shown = new Set(["intentions:a"]);
+    const insert = { event: "INSERT", id: "c1", key: "intentions:a", userId: "you" } as const;
+
+    expect(trackEngagementChange(rows, insert, "me", shown)).toEqual({
+      key: "intentions:a",
+      added: true,
+      mine: false,
+    });
+    // The same insert reported again, and one on an item not shown
+    expect(trackEngagementChange(rows, insert, "me", shown)).toBeNull();
+    expect(
+      trackEngagementChange(rows, { ...insert, id: "c2", key: "intentions:b" }, "me", shown),
+    ).toBeNull();
+
+    expect(trackEngagementChange(rows, { event: "DELETE", id: "c1" }, "me", shown)).toEqual({
+      key: "intentions:a",
+      added: false,
+      mine: false,
+    });
+    expect(trackEngagementChange(rows, { event: "DELETE", id: "c1" }, "me", shown)).toBeNull();
+    // Rows loaded before realtime saw them can't be matched by id alone
+    expect(trackEngagementChange(rows, { event: "DELETE", id: "old" }, "me", shown)).toBeNull();
+
+    // Unless the app removing them says where they were
+    const own = { event: "DELETE", id: "c3", key: "intentions:a", userId: "me" } as const;
+    expect(trackEngagementChange(rows, own, "me", shown)).toEqual({
+      key: "intentions:a",
+      added: false,
+      mine: true,
+    });
+    expect(trackEngagementChange(rows, { event: "DELETE", id: "c3" }, "me", shown)).toBeNull();
+  });
+
+  it("names commenters, falling back to Anonymous", () => {
+    expect(formatCommentAuthor({ id: "1", first_name: "Mary", last_name: "Smith" })).toBe(
+      "Mary Smith",
+    );
+    expect(formatCommentAuthor({ id: "1", first_name: "Mary", last_name: null })).toBe("Mary");
+    expect(formatCommentAuthor(null)).toBe("Anonymous");
+  });
+});
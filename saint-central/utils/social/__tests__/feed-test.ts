@@ -0,0 +1,26 @@
+import { appendFeedPage, getNextFeedCursor } from "../feed";
+
+jest.mock("../../../supabaseClient", () => ({ supabase: {} }));
+
+const post = (id: string, minute: number) => ({
+  id,
+  created_at: new Date(Date.UTC(2026, 9, 19, 9, minute)).toISOString(),
+});
+
+describe("social feed", () => {
+  it("continues from the last post of a full page", () => {
+    const page = [post("c", 3), post("b", 2), post("a", 1)];
+    expect(getNextFeedCursor(page, 3)).toEqual({ id: "a", created_at: page[2].created_at });
+  });
+
+  it("stops after a short page", () => {
+    expect(getNextFeedCursor([post("b", 2), post("a", 1)], 3)).toBeNull();
+    expect(getNextFeedCursor([], 3)).toBeNull();
+  });
+
+  it("appends a page without repeating posts already shown", () => {
+    const shown = [post("d", 4), post("c", 3)];
+    const next = [post("c", 3), post("b", 2)];
+    expect(appendFeedPage(shown, next).map(({ id }) => id)).toEqual(["d", "c", "b"]);
+  });
+});
@@ -0,0 +1,282 @@
+import { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "../../supabaseClient";
+import {
+  CommentAuthor,
+  CommentOrder,
+  EngagementChange,
+  EngagementComment,
+  EngagementTarget,
+  EngagementTargetType,
+  LikeSummary,
+  TrackedEngagementRow,
+} from "@/types/engagement";
+
+// Comments come with their author
+const COMMENT_SELECT = "*, user:users(*)";
+
+export const EMPTY_LIKE_SUMMARY: LikeSummary = { count: 0, liked: false };
+
+// A key that tells apart a faith post and a culture post with the same id
+export const targetKey = (target: EngagementTarget): string => `${target.type}:${target.id}`;
+
+// A stable dependency for a list of targets
+export const targetsKey = (targets: EngagementTarget[]): string =>
+  [...new Set(targets.map(targetKey))].sort().join(",");
+
+/**
+ * The ids of each type of target in a targets key, for fetching each type in
+ * one query
+ */
+export function groupTargetsKey(key: string): Map<EngagementTargetType, string[]> {
+  const groups = new Map<EngagementTargetType, string[]>();
+  for (const entry of key ? key.split(",") : []) {
+    const separator = entry.indexOf(":");
+    const type = entry.slice(0, separator) as EngagementTargetType;
+    groups.set(type, [...(groups.get(type) ?? []), entry.slice(separator + 1)]);
+  }
+  return groups;
+}
+
+/**
+ * The summary after the user likes something, or takes the like back, for
+ * showing before the database answers
+ */
+export const toggleLikeSummary = ({ count, liked }: LikeSummary): LikeSummary => ({
+  count: Math.max(0, count + (liked ? -1 : 1)),
+  liked: !liked,
+});
+
+// "Mary Smith", or "Anonymous" when the commenter has no name
+export function formatCommentAuthor(author: CommentAuthor | null): string {
+  const name = `${author?.first_name || ""} ${author?.last_name || ""}`.trim();
+  return name || "Anonymous";
+}
+
+/**
+ * The summary after someone's like arrives or is taken back. The user's own
+ * likes only change it when it doesn't already show them, since toggling
+ * shows them before realtime does.
+ */
+export function applyLikeChange(summary: LikeSummary, added: boolean, mine: boolean): LikeSummary {
+  if (mine && summary.liked === added) return summary;
+  return {
+    count: Math.max(0, summary.count + (added ? 1 : -1)),
+    liked: mine ? added : summary.liked,
+  };
+}
+
+export const applyCommentChange = (count: number, added: boolean): number =>
+  Math.max(0, count + (added ? 1 : -1));
+
+/**
+ * The item a like or comment change counts towards, and whether it adds or
+ * removes one, or null if it doesn't change anything shown. Rows are
+ * remembered as they arrive so their removal, which realtime reports by id
+ * only, can be matched to their item. Each row is added and removed at most
+ * once, however many times the change is reported.
+ */
+export function trackEngagementChange(
+  rows: Map<string, TrackedEngagementRow>,
+  change: EngagementChange,
+  userId: string | null,
+  shown: Set<string>,
+): { key: string; added: boolean; mine: boolean } | null {
+  if (change.event === "UPDATE") return null;
+
+  if (change.event === "INSERT") {
+    if (rows.has(change.id) || !shown.has(change.key)) return null;
+    const mine = !!userId && change.userId === userId;
+    rows.set(change.id, { key: change.key, mine, removed: false });
+    return { key: change.key, added: true, mine };
+  }
+
+  const row =
+    rows.get(change.id) ??
+    (change.key
+      ? { key: change.key, mine: !!userId && change.userId === userId, removed: false }
+      : null);
+  if (!row || row.removed || !shown.has(row.key)) return null;
+  rows.set(change.id, { ...row, removed: true });
+  return { key: row.key, added: false, mine: row.mine };
+}
+
+// ---------------------
+// LIKES
+// ---------------------
+
+/**
+ * Like summaries for items of one type, keyed by item id, counted by the
+ * database. Items nobody liked are left out.
+ */
+export async function fetchLikeSummaries(
+  type: EngagementTargetType,
+  ids: (string | number)[],
+): Promise<Record<string, LikeSummary>> {
+  if (ids.length === 0) return {};
+
+  const { data, error } = await supabase.rpc("like_summaries", {
+    p_type: type,
+    p_ids: ids.map(String),
+  });
+
+  if (error) throw error;
+  return Object.fromEntries(
+    ((data || []) as { target_id: string; likes: number; liked: boolean }[]).map(
+      ({ target_id, likes, liked }) => [target_id, { count: likes, liked }],
+    ),
+  );
+}
+
+/**
+ * Like an item as the user, or take the like back
+ */
+export async function setLiked(
+  target: EngagementTarget,
+  userId: string,
+  liked: boolean,
+): Promise<void> {
+  const { error } = liked
+    ? await supabase
+        .from("likes")
+        .insert({ user_id: userId, likeable_id: target.id, likeable_type: target.type })
+    : await supabase
+        .from("likes")
+        .delete()
+        .eq("likeable_id", target.id)
+        .eq("likeable_type", target.type)
+        .eq("user_id", userId);
+
+  if (error) throw error;
+}
+
+// ---------------------
+// COMMENTS
+// ---------------------
+
+export async function fetchComments(
+  target: EngagementTarget,
+  order: CommentOrder = "newest",
+): Promise<EngagementComment[]> {
+  const { data, error } = await supabase
+    .from("comments")
+    .select(COMMENT_SELECT)
+    .eq("commentable_id", target.id)
+    .eq("commentable_type", target.type)
+    .order("created_at", { ascending: order === "oldest" });
+
+  if (error) throw error;
+  return (data || []) as EngagementComment[];
+}
+
+/**
+ * Comment counts for items of one type, keyed by item id, counted by the
+ * database. Items without comments are left out.
+ */
+export async function fetchCommentCounts(
+  type: EngagementTargetType,
+  ids: (string | number)[],
+): Promise<Record<string, number>> {
+  if (ids.length === 0) return {};
+
+  const { data, error } = await supabase.rpc("comment_counts", {
+    p_type: type,
+    p_ids: ids.map(String),
+  });
+
+  if (error) throw error;
+  return Object.fromEntries(
+    ((data || []) as { target_id: string; comments: number }[]).map(({ target_id, comments }) => [
+      target_id,
+      comments,
+    ]),
+  );
+}
+
+export async function addComment(
+  target: EngagementTarget,
+  userId: string,
+  content: string,
+): Promise<EngagementComment> {
+  const { data, error } = await supabase
+    .from("comments")
+    .insert({
+      user_id: userId,
+      commentable_id: target.id,
+      commentable_type: target.type,
+      content: content.trim(),
+    })
+    .select(COMMENT_SELECT)
+    .single();
+
+  if (error) throw error;
+  return data as EngagementComment;
+}
+
+export async function deleteComment(commentId: string): Promise<void> {
+  const { error } = await supabase.from("comments").delete().eq("id", commentId);
+  if (error) throw error;
+}
+
+// ---------------------
+// REALTIME
+// ---------------------
+
+let channelCount = 0;
+
+/**
+ * A realtime payload for a like or comment as the change it describes
+ */
+export function toEngagementChange(
+  table: "likes" | "comments",
+  type: EngagementTargetType,
+  payload: RealtimePostgresChangesPayload<Record<string, any>>,
+): EngagementChange {
+  if (payload.eventType === "DELETE") return { event: "DELETE", id: String(payload.old.id) };
+
+  const row = payload.new;
+  const itemId = table === "likes" ? row.likeable_id : row.commentable_id;
+  return {
+    event: payload.eventType,
+    id: String(row.id),
+    key: `${type}:${itemId}`,
+    userId: row.user_id,
+  };
+}
+
+/**
+ * Call onChange with each like or comment added, edited or removed on items
+ * of one type. Deletes can't be filtered by column, so every deleted like or
+ * comment calls it too, with only its id.
+ *
+ * @returns A cleanup function to remove the subscription
+ */
+export function subscribeToEngagement(
+  table: "likes" | "comments",
+  type: EngagementTargetType,
+  onChange: (change: EngagementChange) => void,
+): () => void {
+  const typeColumn = table === "likes" ? "likeable_type" : "commentable_type";
+  const filter = `${typeColumn}=eq.${type}`;
+  const handle = (payload: RealtimePostgresChangesPayload<Record<string, any>>) =>
+    onChange(toEngagementChange(table, type, payload));
+
+  try {
+    const channel = supabase
+      .channel(`${table}-${type}-${++channelCount}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table, filter }, handle)
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table, filter }, handle)
+      .on("postgres_changes", { event: "DELETE", schema: "public", table }, handle)
+      .subscribe();
+
+    return () => {
+      try {
+        supabase.removeChannel(channel);
+      } catch (error) {
+        console.error(`Error removing ${table} channel:`, error);
+      }
+    };
+  } catch (error) {
+    console.error(`Error subscribing to ${table}:`, error);
+    return () => {};
+  }
+}
@@ -0,0 +1,63 @@
+import { supabase } from "../../supabaseClient";
+
+// How many posts the feed loads at a time
+export const FEED_PAGE_SIZE = 20;
+
+export type FeedFilter = "all" | "mine" | "friends" | "groups";
+
+// Where the next page starts: the last post of the page before it
+export interface FeedCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface FeedPage<T> {
+  posts: T[];
+  // Null once the feed has no more posts
+  nextCursor: FeedCursor | null;
+}
+
+/**
+ * The cursor for the page after these posts, or null when this page came back
+ * short and so was the last
+ */
+export function getNextFeedCursor<T extends FeedCursor>(
+  posts: T[],
+  pageSize = FEED_PAGE_SIZE,
+): FeedCursor | null {
+  if (posts.length < pageSize) return null;
+  const last = posts[posts.length - 1];
+  return { created_at: last.created_at, id: last.id };
+}
+
+/**
+ * Add a page to the posts already shown, skipping any already there, as
+ * when a pull to refresh overlaps loading the next page
+ */
+export function appendFeedPage<T extends { id: string }>(posts: T[], page: T[]): T[] {
+  const shown = new Set(posts.map(({ id }) => id));
+  return [...posts, ...page.filter(({ id }) => !shown.has(id))];
+}
+
+/**
+ * One page of the feed, already filtered by each post's visibility, with like
+ * and comment counts, whether the user liked each post and a group the user
+ * shares with its author
+ */
+export async function fetchFeedPage<T extends FeedCursor>(
+  filter: FeedFilter,
+  cursor: FeedCursor | null,
+  type?: string,
+): Promise<FeedPage<T>> {
+  const { data, error } = await supabase.rpc("social_feed", {
+    p_filter: filter,
+    p_type: type ?? null,
+    p_before_created_at: cursor?.created_at ?? null,
+    p_before_id: cursor?.id ?? null,
+    p_limit: FEED_PAGE_SIZE,
+  });
+  if (error) throw error;
+
+  const posts = (data || []) as T[];
+  return { posts, nextCursor: getNextFeedCursor(posts) };
+}